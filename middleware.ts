@@ -345,6 +345,12 @@ export async function middleware(request: NextRequest) {
     if (shouldNoStore) applyNoStoreHeaders(res);
     return res;
   }
+  // Kiosk devices authenticate with their own branch-bound cookie (see src/lib/kiosk-session.ts).
+  if (relativePathname === '/kiosk' || relativePathname.startsWith('/kiosk/')) {
+    const res = nextWithReset(requestHeaders);
+    if (shouldNoStore) applyNoStoreHeaders(res);
+    return res;
+  }
   if (relativePathname === '/bewerbung' || relativePathname.startsWith('/bewerbung/')) {
     const res = nextWithReset(requestHeaders);
     if (shouldNoStore) applyNoStoreHeaders(res);
@@ -0,0 +1,23 @@
+CREATE TABLE "TimeClockEvent" (
+    "id" SERIAL NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "employeeId" INTEGER NOT NULL,
+    "branchId" INTEGER,
+    "dayDate" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "time" TEXT NOT NULL,
+    "stampedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TimeClockEvent_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "TimeClockEvent_employeeId_dayDate_idx" ON "TimeClockEvent"("employeeId", "dayDate");
+CREATE INDEX "TimeClockEvent_tenantId_branchId_dayDate_idx" ON "TimeClockEvent"("tenantId", "branchId", "dayDate");
+
+ALTER TABLE "TimeClockEvent"
+  ADD CONSTRAINT "TimeClockEvent_employeeId_fkey"
+  FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "TimeClockEvent"
+  ADD CONSTRAINT "TimeClockEvent_branchId_fkey"
+  FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+CREATE TABLE "SurchargeSettings" (
+    "tenantId" TEXT NOT NULL,
+    "enabled" INTEGER NOT NULL DEFAULT 0,
+    "nightStart" TEXT NOT NULL DEFAULT '20:00',
+    "nightEnd" TEXT NOT NULL DEFAULT '06:00',
+    "nightPercent" INTEGER NOT NULL DEFAULT 25,
+    "sundayPercent" INTEGER NOT NULL DEFAULT 50,
+    "holidayPercent" INTEGER NOT NULL DEFAULT 125,
+    "holidayRegion" TEXT,
+
+    CONSTRAINT "SurchargeSettings_pkey" PRIMARY KEY ("tenantId")
+);
@@ -0,0 +1,27 @@
+CREATE TABLE "DailyDaySegment" (
+    "id" SERIAL NOT NULL,
+    "dailyDayId" INTEGER NOT NULL,
+    "segmentIndex" INTEGER NOT NULL,
+    "kommt" TEXT,
+    "geht" TEXT,
+
+    CONSTRAINT "DailyDaySegment_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "DailyDaySegment_dailyDayId_segmentIndex_key" ON "DailyDaySegment"("dailyDayId", "segmentIndex");
+
+ALTER TABLE "DailyDaySegment" ADD CONSTRAINT "DailyDaySegment_dailyDayId_fkey" FOREIGN KEY ("dailyDayId") REFERENCES "DailyDay"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Convert the existing Kommt/Geht pairs into segments.
+INSERT INTO "DailyDaySegment" ("dailyDayId", "segmentIndex", "kommt", "geht")
+SELECT "id", 0, NULLIF("kommt1", ''), NULLIF("geht1", '')
+FROM "DailyDay"
+WHERE COALESCE("kommt1", '') <> '' OR COALESCE("geht1", '') <> '';
+
+INSERT INTO "DailyDaySegment" ("dailyDayId", "segmentIndex", "kommt", "geht")
+SELECT "id",
+       CASE WHEN COALESCE("kommt1", '') <> '' OR COALESCE("geht1", '') <> '' THEN 1 ELSE 0 END,
+       NULLIF("kommt2", ''),
+       NULLIF("geht2", '')
+FROM "DailyDay"
+WHERE COALESCE("kommt2", '') <> '' OR COALESCE("geht2", '') <> '';
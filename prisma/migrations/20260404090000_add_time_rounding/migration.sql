@@ -0,0 +1,25 @@
+CREATE TABLE "TimeRoundingSettings" (
+    "tenantId" TEXT NOT NULL,
+    "enabled" INTEGER NOT NULL DEFAULT 0,
+    "kommtMinutes" INTEGER NOT NULL DEFAULT 15,
+    "kommtDirection" TEXT NOT NULL DEFAULT 'up',
+    "gehtMinutes" INTEGER NOT NULL DEFAULT 15,
+    "gehtDirection" TEXT NOT NULL DEFAULT 'down',
+
+    CONSTRAINT "TimeRoundingSettings_pkey" PRIMARY KEY ("tenantId")
+);
+
+CREATE TABLE "BranchTimeRounding" (
+    "branchId" INTEGER NOT NULL,
+    "kommtMinutes" INTEGER NOT NULL,
+    "kommtDirection" TEXT NOT NULL,
+    "gehtMinutes" INTEGER NOT NULL,
+    "gehtDirection" TEXT NOT NULL,
+
+    CONSTRAINT "BranchTimeRounding_pkey" PRIMARY KEY ("branchId")
+);
+
+ALTER TABLE "BranchTimeRounding" ADD CONSTRAINT "BranchTimeRounding_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "DailyDaySegment" ADD COLUMN "kommtRaw" TEXT;
+ALTER TABLE "DailyDaySegment" ADD COLUMN "gehtRaw" TEXT;
@@ -0,0 +1,19 @@
+CREATE TABLE "DailyDayHistory" (
+    "id" SERIAL NOT NULL,
+    "employeeId" INTEGER NOT NULL,
+    "dayDate" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "actorId" INTEGER,
+    "actorName" TEXT,
+    "before" TEXT,
+    "after" TEXT,
+    "revertedFromId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DailyDayHistory_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "DailyDayHistory_employeeId_dayDate_idx" ON "DailyDayHistory"("employeeId", "dayDate");
+
+ALTER TABLE "DailyDayHistory" ADD CONSTRAINT "DailyDayHistory_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+CREATE TABLE "TimeCorrectionRequest" (
+    "id" SERIAL NOT NULL,
+    "employeeId" INTEGER NOT NULL,
+    "dayDate" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "proposed" TEXT NOT NULL,
+    "current" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "adminNote" TEXT,
+    "decidedBy" INTEGER,
+    "decidedAt" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TimeCorrectionRequest_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "TimeCorrectionRequest_employeeId_createdAt_idx" ON "TimeCorrectionRequest"("employeeId", "createdAt");
+
+CREATE INDEX "TimeCorrectionRequest_status_createdAt_idx" ON "TimeCorrectionRequest"("status", "createdAt");
+
+ALTER TABLE "TimeCorrectionRequest" ADD CONSTRAINT "TimeCorrectionRequest_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+CREATE TABLE "AbsenceCode" (
+    "id" SERIAL NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "color" TEXT NOT NULL DEFAULT '#64748b',
+    "countsAsWorked" INTEGER NOT NULL DEFAULT 0,
+    "reducesVacation" INTEGER NOT NULL DEFAULT 0,
+    "countsAsSick" INTEGER NOT NULL DEFAULT 0,
+    "blocksMeal" INTEGER NOT NULL DEFAULT 1,
+    "rangeEligible" INTEGER NOT NULL DEFAULT 0,
+    "payrollColumn" TEXT,
+    "isActive" INTEGER NOT NULL DEFAULT 1,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AbsenceCode_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "AbsenceCode_tenantId_code_key" ON "AbsenceCode"("tenantId", "code");
+
+CREATE INDEX "AbsenceCode_tenantId_idx" ON "AbsenceCode"("tenantId");
@@ -0,0 +1,20 @@
+CREATE TABLE "SickLeaveEpisode" (
+    "id" SERIAL NOT NULL,
+    "employeeId" INTEGER NOT NULL,
+    "startDate" TEXT NOT NULL,
+    "endDate" TEXT,
+    "certificateReceivedAt" TEXT,
+    "continuesEpisodeId" INTEGER,
+    "documentFileName" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SickLeaveEpisode_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "SickLeaveEpisode_employeeId_startDate_idx" ON "SickLeaveEpisode"("employeeId", "startDate");
+
+ALTER TABLE "SickLeaveEpisode" ADD CONSTRAINT "SickLeaveEpisode_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "SickLeaveEpisode" ADD CONSTRAINT "SickLeaveEpisode_continuesEpisodeId_fkey" FOREIGN KEY ("continuesEpisodeId") REFERENCES "SickLeaveEpisode"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+ALTER TABLE "SickLeaveEpisode" ADD COLUMN "reportedByEmployee" INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE "SickLeaveShiftPlanBackup" (
+    "id" SERIAL NOT NULL,
+    "episodeId" INTEGER NOT NULL,
+    "dayDate" TEXT NOT NULL,
+    "segmentIndex" INTEGER NOT NULL DEFAULT 0,
+    "mode" TEXT NOT NULL DEFAULT 'available',
+    "startTime" TEXT,
+    "endTime" TEXT,
+    "requiredPauseMinutes" INTEGER NOT NULL DEFAULT 0,
+    "label" TEXT,
+    "branchId" INTEGER,
+
+    CONSTRAINT "SickLeaveShiftPlanBackup_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "SickLeaveShiftPlanBackup_episodeId_dayDate_segmentIndex_key" ON "SickLeaveShiftPlanBackup"("episodeId", "dayDate", "segmentIndex");
+
+ALTER TABLE "SickLeaveShiftPlanBackup" ADD CONSTRAINT "SickLeaveShiftPlanBackup_episodeId_fkey" FOREIGN KEY ("episodeId") REFERENCES "SickLeaveEpisode"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+ALTER TABLE "Employee" ADD COLUMN "singleParent" INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE "EmployeeChild" (
+    "id" SERIAL NOT NULL,
+    "employeeId" INTEGER NOT NULL,
+    "birthYear" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EmployeeChild_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "ChildSickDayRule" (
+    "id" SERIAL NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "perChildDays" DOUBLE PRECISION NOT NULL,
+    "perParentCapDays" DOUBLE PRECISION NOT NULL,
+    "singleParentPerChildDays" DOUBLE PRECISION NOT NULL,
+    "singleParentCapDays" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChildSickDayRule_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "EmployeeChild_employeeId_idx" ON "EmployeeChild"("employeeId");
+
+CREATE UNIQUE INDEX "ChildSickDayRule_tenantId_year_key" ON "ChildSickDayRule"("tenantId", "year");
+
+ALTER TABLE "EmployeeChild" ADD CONSTRAINT "EmployeeChild_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+CREATE TABLE "EmploymentContract" (
+    "id" SERIAL NOT NULL,
+    "employeeId" INTEGER NOT NULL,
+    "validFrom" TEXT NOT NULL,
+    "weeklyHours" DOUBLE PRECISION NOT NULL,
+    "workdaysPerWeek" DOUBLE PRECISION NOT NULL DEFAULT 5,
+    "compensationType" TEXT NOT NULL DEFAULT 'hourly',
+    "hourlyWage" DOUBLE PRECISION,
+    "monthlySalaryGross" DOUBLE PRECISION,
+    "vacationDays" DOUBLE PRECISION NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EmploymentContract_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "EmploymentContract_employeeId_validFrom_key" ON "EmploymentContract"("employeeId", "validFrom");
+
+ALTER TABLE "EmploymentContract" ADD CONSTRAINT "EmploymentContract_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
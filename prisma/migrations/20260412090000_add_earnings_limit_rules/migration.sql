@@ -0,0 +1,13 @@
+CREATE TABLE "EarningsLimitRule" (
+    "id" SERIAL NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "minijobMonthlyLimit" DOUBLE PRECISION NOT NULL,
+    "midijobMonthlyLimit" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EarningsLimitRule_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "EarningsLimitRule_tenantId_year_key" ON "EarningsLimitRule"("tenantId", "year");
@@ -0,0 +1,15 @@
+CREATE TABLE "OvertimeCheckpoint" (
+    "id" SERIAL NOT NULL,
+    "employeeId" INTEGER NOT NULL,
+    "month" TEXT NOT NULL,
+    "balanceHours" DOUBLE PRECISION NOT NULL,
+    "payoutBankHours" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OvertimeCheckpoint_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "OvertimeCheckpoint_employeeId_month_key" ON "OvertimeCheckpoint"("employeeId", "month");
+
+ALTER TABLE "OvertimeCheckpoint" ADD CONSTRAINT "OvertimeCheckpoint_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+CREATE TABLE "OvertimeTrafficLightSettings" (
+    "tenantId" TEXT NOT NULL,
+    "notifyByMail" INTEGER NOT NULL DEFAULT 0,
+    "yellowPlusHours" DOUBLE PRECISION NOT NULL DEFAULT 20,
+    "redPlusHours" DOUBLE PRECISION NOT NULL DEFAULT 40,
+    "yellowMinusHours" DOUBLE PRECISION NOT NULL DEFAULT 10,
+    "redMinusHours" DOUBLE PRECISION NOT NULL DEFAULT 20,
+
+    CONSTRAINT "OvertimeTrafficLightSettings_pkey" PRIMARY KEY ("tenantId")
+);
+
+CREATE TABLE "OvertimeTrafficLightGroupRule" (
+    "id" SERIAL NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "employmentType" TEXT NOT NULL,
+    "yellowPlusHours" DOUBLE PRECISION NOT NULL,
+    "redPlusHours" DOUBLE PRECISION NOT NULL,
+    "yellowMinusHours" DOUBLE PRECISION NOT NULL,
+    "redMinusHours" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "OvertimeTrafficLightGroupRule_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "OvertimeTrafficLightGroupRule_tenantId_employmentType_key" ON "OvertimeTrafficLightGroupRule"("tenantId", "employmentType");
+
+CREATE TABLE "OvertimeTrafficLightState" (
+    "employeeId" INTEGER NOT NULL,
+    "state" TEXT NOT NULL,
+    "balanceHours" DOUBLE PRECISION NOT NULL,
+    "changedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OvertimeTrafficLightState_pkey" PRIMARY KEY ("employeeId")
+);
+
+ALTER TABLE "OvertimeTrafficLightState" ADD CONSTRAINT "OvertimeTrafficLightState_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1 @@
+ALTER TABLE "BranchSchedule" ADD COLUMN "minStaff" INTEGER NOT NULL DEFAULT 1;
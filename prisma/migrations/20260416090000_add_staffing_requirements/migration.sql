@@ -0,0 +1,19 @@
+CREATE TABLE "StaffingRequirement" (
+    "id" SERIAL NOT NULL,
+    "branchId" INTEGER NOT NULL,
+    "weekday" INTEGER,
+    "date" TEXT,
+    "startsAtMinutes" INTEGER NOT NULL,
+    "endsAtMinutes" INTEGER NOT NULL,
+    "minStaff" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StaffingRequirement_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "StaffingRequirement_branchId_weekday_idx" ON "StaffingRequirement"("branchId", "weekday");
+
+CREATE INDEX "StaffingRequirement_branchId_date_idx" ON "StaffingRequirement"("branchId", "date");
+
+ALTER TABLE "StaffingRequirement" ADD CONSTRAINT "StaffingRequirement_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+CREATE TABLE "ShiftSwapRequest" (
+    "id" SERIAL NOT NULL,
+    "employeeId" INTEGER NOT NULL,
+    "kind" TEXT NOT NULL DEFAULT 'giveaway',
+    "dayDate" TEXT NOT NULL,
+    "segmentIndex" INTEGER NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "requiredPauseMinutes" INTEGER NOT NULL DEFAULT 0,
+    "branchId" INTEGER,
+    "note" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "acceptedById" INTEGER,
+    "acceptedAt" TEXT,
+    "returnDayDate" TEXT,
+    "returnSegmentIndex" INTEGER,
+    "returnStartTime" TEXT,
+    "returnEndTime" TEXT,
+    "returnPauseMinutes" INTEGER,
+    "returnBranchId" INTEGER,
+    "ruleViolations" TEXT,
+    "adminNote" TEXT,
+    "decidedBy" INTEGER,
+    "decidedAt" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShiftSwapRequest_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "ShiftSwapSettings" (
+    "tenantId" TEXT NOT NULL,
+    "autoApprove" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "ShiftSwapSettings_pkey" PRIMARY KEY ("tenantId")
+);
+
+CREATE INDEX "ShiftSwapRequest_employeeId_dayDate_idx" ON "ShiftSwapRequest"("employeeId", "dayDate");
+
+CREATE INDEX "ShiftSwapRequest_status_dayDate_idx" ON "ShiftSwapRequest"("status", "dayDate");
+
+ALTER TABLE "ShiftSwapRequest" ADD CONSTRAINT "ShiftSwapRequest_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ShiftSwapRequest" ADD CONSTRAINT "ShiftSwapRequest_acceptedById_fkey" FOREIGN KEY ("acceptedById") REFERENCES "Employee"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+CREATE TABLE "OpenShift" (
+    "id" SERIAL NOT NULL,
+    "branchId" INTEGER NOT NULL,
+    "dayDate" TEXT NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "requiredPauseMinutes" INTEGER NOT NULL DEFAULT 0,
+    "label" TEXT,
+    "claimMode" TEXT NOT NULL DEFAULT 'first_come',
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "claimedById" INTEGER,
+    "claimedAt" TEXT,
+    "filledAt" TEXT,
+    "createdBy" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OpenShift_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "OpenShift_branchId_dayDate_idx" ON "OpenShift"("branchId", "dayDate");
+
+CREATE INDEX "OpenShift_status_dayDate_idx" ON "OpenShift"("status", "dayDate");
+
+ALTER TABLE "OpenShift" ADD CONSTRAINT "OpenShift_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "OpenShift" ADD CONSTRAINT "OpenShift_claimedById_fkey" FOREIGN KEY ("claimedById") REFERENCES "Employee"("id") ON DELETE SET NULL ON UPDATE CASCADE;
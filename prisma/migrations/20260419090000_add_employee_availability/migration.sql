@@ -0,0 +1,20 @@
+CREATE TABLE "EmployeeAvailability" (
+    "id" SERIAL NOT NULL,
+    "employeeId" INTEGER NOT NULL,
+    "weekday" INTEGER,
+    "date" TEXT,
+    "kind" TEXT NOT NULL,
+    "startsAtMinutes" INTEGER,
+    "endsAtMinutes" INTEGER,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EmployeeAvailability_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "EmployeeAvailability_employeeId_weekday_idx" ON "EmployeeAvailability"("employeeId", "weekday");
+
+CREATE INDEX "EmployeeAvailability_employeeId_date_idx" ON "EmployeeAvailability"("employeeId", "date");
+
+ALTER TABLE "EmployeeAvailability" ADD CONSTRAINT "EmployeeAvailability_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+CREATE TABLE "OvertimeRebuildJob" (
+    "id" SERIAL NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "activeTenantId" TEXT,
+    "employeeCount" INTEGER NOT NULL DEFAULT 0,
+    "processedCount" INTEGER NOT NULL DEFAULT 0,
+    "failedJson" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OvertimeRebuildJob_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "OvertimeRebuildJob_activeTenantId_key" ON "OvertimeRebuildJob"("activeTenantId");
+
+CREATE INDEX "OvertimeRebuildJob_status_createdAt_idx" ON "OvertimeRebuildJob"("status", "createdAt");
+
+CREATE INDEX "OvertimeRebuildJob_tenantId_createdAt_idx" ON "OvertimeRebuildJob"("tenantId", "createdAt");
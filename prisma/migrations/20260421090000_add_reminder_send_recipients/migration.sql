@@ -0,0 +1,10 @@
+CREATE TABLE "ReminderSendRecipient" (
+    "tenantId" TEXT NOT NULL,
+    "periodKey" TEXT NOT NULL,
+    "employeeId" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "error" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReminderSendRecipient_pkey" PRIMARY KEY ("tenantId","periodKey","employeeId")
+);
@@ -0,0 +1,237 @@
+'use client';
+
+import { useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+
+import type { AbsenceCodeCatalog, AbsenceCodeDefinition } from '@/lib/services/absence-codes';
+
+import type { absenceCodeAction } from './actions';
+import type { AbsenceCodeFormState } from './types';
+
+type FlagKey = 'countsAsWorked' | 'reducesVacation' | 'countsAsSick' | 'blocksMeal' | 'rangeEligible';
+
+const FLAG_FIELDS: Array<{ key: FlagKey; name: string; label: string }> = [
+  { key: 'countsAsWorked', name: 'counts_as_worked', label: 'bezahlt (Sollstunden gutschreiben)' },
+  { key: 'reducesVacation', name: 'reduces_vacation', label: 'mindert Urlaubsanspruch' },
+  { key: 'countsAsSick', name: 'counts_as_sick', label: 'zählt als Krankheit' },
+  { key: 'blocksMeal', name: 'blocks_meal', label: 'keine Verpflegung' },
+  { key: 'rangeEligible', name: 'range_eligible', label: 'für Zeiträume erfassbar' },
+];
+
+const NEW_CODE: AbsenceCodeDefinition = {
+  code: '',
+  label: '',
+  color: '#64748b',
+  countsAsWorked: true,
+  reducesVacation: false,
+  countsAsSick: false,
+  blocksMeal: true,
+  rangeEligible: true,
+  payrollColumn: null,
+  builtIn: false,
+  customized: false,
+  isActive: true,
+  sortOrder: 500,
+};
+
+function IntentButton({
+  intent,
+  label,
+  variant = 'secondary',
+  confirmMessage,
+}: {
+  intent: 'save' | 'delete';
+  label: string;
+  variant?: 'primary' | 'secondary';
+  confirmMessage?: string;
+}) {
+  const { pending } = useFormStatus();
+  const className =
+    variant === 'primary'
+      ? 'rounded-md bg-brand px-3 py-1.5 text-sm font-semibold text-white shadow-sm disabled:cursor-not-allowed disabled:opacity-60'
+      : 'rounded-md border border-slate-300 px-3 py-1.5 text-sm font-semibold text-slate-700 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60';
+  return (
+    <button
+      type="submit"
+      name="intent"
+      value={intent}
+      disabled={pending}
+      onClick={(event) => {
+        if (confirmMessage && !window.confirm(confirmMessage)) {
+          event.preventDefault();
+        }
+      }}
+      className={className}
+    >
+      {label}
+    </button>
+  );
+}
+
+function CodeForm({
+  entry,
+  formAction,
+  isNew,
+}: {
+  entry: AbsenceCodeDefinition;
+  formAction: (formData: FormData) => void;
+  isNew?: boolean;
+}) {
+  return (
+    <form
+      key={JSON.stringify(entry)}
+      action={formAction}
+      className="space-y-3 rounded-xl border border-slate-200 bg-white p-4 text-sm text-slate-700 shadow-sm"
+    >
+      <div className="flex flex-wrap items-end gap-3">
+        {isNew ? (
+          <label className="flex flex-col gap-1">
+            <span>Code</span>
+            <input
+              name="code"
+              required
+              maxLength={6}
+              placeholder="z. B. BS"
+              className="w-24 rounded-md border border-slate-300 px-3 py-1 uppercase"
+            />
+          </label>
+        ) : (
+          <>
+            <input type="hidden" name="code" value={entry.code} />
+            <span
+              className="inline-flex h-8 min-w-12 items-center justify-center rounded-md px-2 font-semibold text-white"
+              style={{ backgroundColor: entry.color }}
+            >
+              {entry.code}
+            </span>
+          </>
+        )}
+        <label className="flex flex-1 flex-col gap-1">
+          <span>Bezeichnung</span>
+          <input
+            name="label"
+            required
+            defaultValue={entry.label}
+            className="min-w-48 rounded-md border border-slate-300 px-3 py-1"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span>Farbe</span>
+          <input type="color" name="color" defaultValue={entry.color} className="h-8 w-14 rounded-md border border-slate-300" />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span>Spalte im Lohnexport</span>
+          <input
+            name="payroll_column"
+            maxLength={60}
+            defaultValue={entry.payrollColumn ?? ''}
+            placeholder="nicht exportieren"
+            className="rounded-md border border-slate-300 px-3 py-1"
+          />
+        </label>
+        {entry.builtIn ? null : (
+          <label className="flex flex-col gap-1">
+            <span>Reihenfolge</span>
+            <input
+              type="number"
+              name="sort_order"
+              defaultValue={entry.sortOrder}
+              className="w-24 rounded-md border border-slate-300 px-3 py-1"
+            />
+          </label>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-x-5 gap-y-2">
+        {FLAG_FIELDS.map((flag) => (
+          <label key={flag.key} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              name={flag.name}
+              defaultChecked={entry[flag.key]}
+              disabled={entry.builtIn}
+              className="h-4 w-4"
+            />
+            {flag.label}
+          </label>
+        ))}
+        <label className="flex items-center gap-2">
+          <input type="checkbox" name="is_active" defaultChecked={entry.isActive} className="h-4 w-4" />
+          aktiv
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <IntentButton intent="save" label={isNew ? 'Code anlegen' : 'Speichern'} variant="primary" />
+        {!isNew && entry.customized ? (
+          entry.builtIn ? (
+            <IntentButton
+              intent="delete"
+              label="Zurücksetzen"
+              confirmMessage={`Bezeichnung, Farbe und Exportspalte von ${entry.code} auf den Standard zurücksetzen?`}
+            />
+          ) : (
+            <IntentButton
+              intent="delete"
+              label="Löschen"
+              confirmMessage={`Code ${entry.code} löschen? Vorhandene Einträge behalten den Code, werden aber nicht mehr als Abwesenheit gewertet.`}
+            />
+          )
+        ) : null}
+        {entry.builtIn ? <span className="text-xs text-slate-500">Standardcode – Verhalten ist fest hinterlegt.</span> : null}
+      </div>
+    </form>
+  );
+}
+
+type AbsenceCodeCatalogFormProps = {
+  initialCatalog: AbsenceCodeCatalog;
+  codeAction: typeof absenceCodeAction;
+  codeInitialState: AbsenceCodeFormState;
+};
+
+export default function AbsenceCodeCatalogForm({
+  initialCatalog,
+  codeAction,
+  codeInitialState,
+}: AbsenceCodeCatalogFormProps) {
+  const [formState, formAction] = useActionState(codeAction, codeInitialState);
+  const catalog = formState?.catalog ?? initialCatalog;
+
+  return (
+    <section className="space-y-6">
+      <header className="space-y-1">
+        <h2 className="text-2xl font-semibold text-slate-900">Abwesenheitscodes</h2>
+        <p className="text-sm text-slate-500">
+          Legt fest, welche Codes bei der Zeiterfassung zur Auswahl stehen. Eigene Codes wie „Berufsschule“ oder
+          „Dienstreise“ gelten ohne Zeiten als ganzer Tag: bezahlte Codes schreiben die Sollstunden gut, unbezahlte
+          setzen das Soll auf null. Mit erfassten Zeiten zählen die Zeiten als Arbeitszeit. Ist eine Spalte für den
+          Lohnexport angegeben, erscheinen die Sollstunden dieser Tage dort als eigene Spalte.
+        </p>
+      </header>
+
+      {formState?.status && formState.message ? (
+        <div
+          className={`rounded-md border px-3 py-2 text-sm ${
+            formState.status === 'success'
+              ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+              : 'border-red-200 bg-red-50 text-red-700'
+          }`}
+        >
+          {formState.message}
+        </div>
+      ) : null}
+
+      <div className="space-y-3">
+        {catalog.map((entry) => (
+          <CodeForm key={entry.code} entry={entry} formAction={formAction} />
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-slate-900">Neuer Code</h3>
+        <CodeForm key={catalog.length} entry={NEW_CODE} formAction={formAction} isNew />
+      </div>
+    </section>
+  );
+}
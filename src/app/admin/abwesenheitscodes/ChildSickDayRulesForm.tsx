@@ -0,0 +1,136 @@
+'use client';
+
+import { useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+
+import type { ChildSickDayRule } from '@/lib/services/child-sick-days';
+
+import type { childSickDayRuleAction } from './actions';
+import type { ChildSickDayRuleFormState } from './types';
+
+const DAY_FIELDS: Array<{ key: Exclude<keyof ChildSickDayRule, 'year' | 'customized'>; name: string; label: string }> = [
+  { key: 'perChildDays', name: 'per_child_days', label: 'Tage je Kind' },
+  { key: 'perParentCapDays', name: 'per_parent_cap_days', label: 'Höchstens je Elternteil' },
+  { key: 'singleParentPerChildDays', name: 'single_parent_per_child_days', label: 'Alleinerziehend je Kind' },
+  { key: 'singleParentCapDays', name: 'single_parent_cap_days', label: 'Alleinerziehend höchstens' },
+];
+
+function IntentButton({
+  intent,
+  label,
+  variant = 'secondary',
+  confirmMessage,
+}: {
+  intent: 'save' | 'reset';
+  label: string;
+  variant?: 'primary' | 'secondary';
+  confirmMessage?: string;
+}) {
+  const { pending } = useFormStatus();
+  const className =
+    variant === 'primary'
+      ? 'rounded-md bg-brand px-3 py-1.5 text-sm font-semibold text-white shadow-sm disabled:cursor-not-allowed disabled:opacity-60'
+      : 'rounded-md border border-slate-300 px-3 py-1.5 text-sm font-semibold text-slate-700 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60';
+  return (
+    <button
+      type="submit"
+      name="intent"
+      value={intent}
+      disabled={pending}
+      onClick={(event) => {
+        if (confirmMessage && !window.confirm(confirmMessage)) {
+          event.preventDefault();
+        }
+      }}
+      className={className}
+    >
+      {label}
+    </button>
+  );
+}
+
+function RuleForm({ rule, formAction }: { rule: ChildSickDayRule; formAction: (formData: FormData) => void }) {
+  return (
+    <form
+      key={JSON.stringify(rule)}
+      action={formAction}
+      className="space-y-3 rounded-xl border border-slate-200 bg-white p-4 text-sm text-slate-700 shadow-sm"
+    >
+      <input type="hidden" name="year" value={rule.year} />
+      <div className="flex flex-wrap items-end gap-3">
+        <span className="inline-flex h-8 min-w-16 items-center justify-center rounded-md bg-slate-100 px-2 font-semibold text-slate-900">
+          {rule.year}
+        </span>
+        {DAY_FIELDS.map((field) => (
+          <label key={field.key} className="flex flex-col gap-1">
+            <span>{field.label}</span>
+            <input
+              type="number"
+              name={field.name}
+              min={0}
+              max={366}
+              step={0.5}
+              required
+              defaultValue={rule[field.key]}
+              className="w-28 rounded-md border border-slate-300 px-3 py-1"
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <IntentButton intent="save" label="Speichern" variant="primary" />
+        {rule.customized ? (
+          <IntentButton
+            intent="reset"
+            label="Zurücksetzen"
+            confirmMessage={`Kinderkrankentage ${rule.year} wieder nach den gesetzlichen Werten berechnen?`}
+          />
+        ) : (
+          <span className="text-xs text-slate-500">Gesetzlicher Standard</span>
+        )}
+      </div>
+    </form>
+  );
+}
+
+type ChildSickDayRulesFormProps = {
+  initialRules: ChildSickDayRule[];
+  ruleAction: typeof childSickDayRuleAction;
+  ruleInitialState: ChildSickDayRuleFormState;
+};
+
+export default function ChildSickDayRulesForm({ initialRules, ruleAction, ruleInitialState }: ChildSickDayRulesFormProps) {
+  const [formState, formAction] = useActionState(ruleAction, ruleInitialState);
+  const rules = formState?.rules ?? initialRules;
+
+  return (
+    <section className="space-y-6">
+      <header className="space-y-1">
+        <h2 className="text-2xl font-semibold text-slate-900">Kinderkrankentage</h2>
+        <p className="text-sm text-slate-500">
+          Jährlicher Anspruch für Einträge mit KK, KKR oder Kinderkrank-Stunden. Er gilt je Kind unter 12 Jahren und
+          ist je Elternteil gedeckelt; für Alleinerziehende gelten eigene Werte. Ohne Anpassung werden die gesetzlichen
+          Werte des Jahres verwendet.
+        </p>
+      </header>
+
+      {formState?.status && formState.message ? (
+        <div
+          className={`rounded-md border px-3 py-2 text-sm ${
+            formState.status === 'success'
+              ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+              : 'border-red-200 bg-red-50 text-red-700'
+          }`}
+        >
+          {formState.message}
+        </div>
+      ) : null}
+
+      <div className="space-y-3">
+        {rules.map((rule) => (
+          <RuleForm key={rule.year} rule={rule} formAction={formAction} />
+        ))}
+      </div>
+    </section>
+  );
+}
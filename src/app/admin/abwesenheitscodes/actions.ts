@@ -0,0 +1,150 @@
+import { revalidatePath } from 'next/cache';
+import { redirect } from 'next/navigation';
+import { DateTime } from 'luxon';
+
+import { getServerAuthSession } from '@/lib/auth/session';
+import { withAppBasePath } from '@/lib/routes';
+import {
+  deleteTenantAbsenceCode,
+  getAbsenceCodeCatalog,
+  saveTenantAbsenceCode,
+} from '@/lib/services/absence-codes';
+import {
+  getChildSickDayRules,
+  resetTenantChildSickDayRule,
+  saveTenantChildSickDayRule,
+} from '@/lib/services/child-sick-days';
+import { recomputeOvertimeForAbsenceCode } from '@/lib/services/overtime-rebuild';
+
+import type { AbsenceCodeFormState, ChildSickDayRuleFormState } from './types';
+
+export function ensureAdmin(session: Awaited<ReturnType<typeof getServerAuthSession>>) {
+  if (!session?.user) {
+    redirect(withAppBasePath('/login'));
+  }
+  if (session.user.roleId !== 2) {
+    redirect(withAppBasePath('/mitarbeiter'));
+  }
+}
+
+/** The previous, current and next year are always listed, together with every year the tenant stored. */
+export function childSickDayRuleYears(): number[] {
+  const year = DateTime.now().setZone('Europe/Berlin').year;
+  return [year - 1, year, year + 1];
+}
+
+export async function absenceCodeAction(
+  prevState: AbsenceCodeFormState,
+  formData: FormData
+): Promise<AbsenceCodeFormState> {
+  'use server';
+
+  const session = await getServerAuthSession();
+  ensureAdmin(session);
+
+  const tenantId = session?.tenantId;
+  if (!tenantId) {
+    redirect(withAppBasePath('/login'));
+  }
+
+  const intent = String(formData.get('intent') ?? 'save');
+  const code = String(formData.get('code') ?? '').trim().toUpperCase();
+  let failedRecomputes = 0;
+
+  try {
+    if (intent === 'delete') {
+      await deleteTenantAbsenceCode(tenantId, code);
+    } else {
+      const sortOrder = Number.parseInt(String(formData.get('sort_order') ?? ''), 10);
+      const behaviourChanged = await saveTenantAbsenceCode(tenantId, {
+        code,
+        label: String(formData.get('label') ?? ''),
+        color: String(formData.get('color') ?? ''),
+        countsAsWorked: formData.get('counts_as_worked') === 'on',
+        reducesVacation: formData.get('reduces_vacation') === 'on',
+        countsAsSick: formData.get('counts_as_sick') === 'on',
+        blocksMeal: formData.get('blocks_meal') === 'on',
+        rangeEligible: formData.get('range_eligible') === 'on',
+        payrollColumn: String(formData.get('payroll_column') ?? ''),
+        isActive: formData.get('is_active') === 'on',
+        sortOrder: Number.isFinite(sortOrder) ? sortOrder : 500,
+      });
+      if (behaviourChanged) {
+        const results = await recomputeOvertimeForAbsenceCode(tenantId, code);
+        failedRecomputes = results.filter((result) => result.status === 'failed').length;
+        if (failedRecomputes) {
+          console.error('[absence-codes] overtime recompute failed', { tenantId, code, results });
+        }
+      }
+    }
+  } catch (error) {
+    return {
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Der Code konnte nicht gespeichert werden.',
+      catalog: await getAbsenceCodeCatalog(tenantId),
+    };
+  }
+
+  revalidatePath(withAppBasePath('/admin'));
+  revalidatePath(withAppBasePath('/mitarbeiter'));
+  return {
+    status: 'success',
+    message:
+      intent === 'delete'
+        ? `Code ${code} wurde entfernt bzw. zurückgesetzt.`
+        : failedRecomputes
+          ? `Code ${code} wurde gespeichert, aber die Überstunden von ${failedRecomputes} Mitarbeitenden konnten nicht neu berechnet werden.`
+          : `Code ${code} wurde gespeichert.`,
+    catalog: await getAbsenceCodeCatalog(tenantId),
+  };
+}
+
+export async function childSickDayRuleAction(
+  prevState: ChildSickDayRuleFormState,
+  formData: FormData
+): Promise<ChildSickDayRuleFormState> {
+  'use server';
+
+  const session = await getServerAuthSession();
+  ensureAdmin(session);
+
+  const tenantId = session?.tenantId;
+  if (!tenantId) {
+    redirect(withAppBasePath('/login'));
+  }
+
+  const intent = String(formData.get('intent') ?? 'save');
+  const year = Number.parseInt(String(formData.get('year') ?? ''), 10);
+  const readDays = (name: string) => Number.parseFloat(String(formData.get(name) ?? '').replace(',', '.'));
+
+  try {
+    if (intent === 'reset') {
+      await resetTenantChildSickDayRule(tenantId, year);
+    } else {
+      await saveTenantChildSickDayRule(tenantId, {
+        year,
+        perChildDays: readDays('per_child_days'),
+        perParentCapDays: readDays('per_parent_cap_days'),
+        singleParentPerChildDays: readDays('single_parent_per_child_days'),
+        singleParentCapDays: readDays('single_parent_cap_days'),
+      });
+    }
+  } catch (error) {
+    return {
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Die Regel konnte nicht gespeichert werden.',
+      rules: await getChildSickDayRules(tenantId, childSickDayRuleYears()),
+    };
+  }
+
+  revalidatePath(withAppBasePath('/admin'));
+  revalidatePath(withAppBasePath('/mitarbeiter'));
+  return {
+    status: 'success',
+    message:
+      intent === 'reset'
+        ? `Kinderkrankentage ${year} gelten wieder nach Gesetz.`
+        : `Kinderkrankentage ${year} wurden gespeichert.`,
+    rules: await getChildSickDayRules(tenantId, childSickDayRuleYears()),
+  };
+}
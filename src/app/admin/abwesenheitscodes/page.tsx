@@ -0,0 +1,39 @@
+import { getServerAuthSession } from '@/lib/auth/session';
+import { getAbsenceCodeCatalog } from '@/lib/services/absence-codes';
+import { getChildSickDayRules } from '@/lib/services/child-sick-days';
+
+import AbsenceCodeCatalogForm from './AbsenceCodeCatalogForm';
+import ChildSickDayRulesForm from './ChildSickDayRulesForm';
+import { absenceCodeAction, childSickDayRuleAction, childSickDayRuleYears, ensureAdmin } from './actions';
+import type { AbsenceCodeFormState, ChildSickDayRuleFormState } from './types';
+
+const INITIAL_FORM_STATE: AbsenceCodeFormState = {};
+const INITIAL_RULE_FORM_STATE: ChildSickDayRuleFormState = {};
+
+export default async function AdminAbwesenheitscodesPage() {
+  const session = await getServerAuthSession();
+  ensureAdmin(session);
+
+  const tenantId = session?.tenantId;
+  if (!tenantId) {
+    throw new Error('Tenant-Kontext fehlt.');
+  }
+
+  const catalog = await getAbsenceCodeCatalog(tenantId);
+  const childSickDayRules = await getChildSickDayRules(tenantId, childSickDayRuleYears());
+
+  return (
+    <div className="space-y-10">
+      <AbsenceCodeCatalogForm
+        initialCatalog={catalog}
+        codeAction={absenceCodeAction}
+        codeInitialState={INITIAL_FORM_STATE}
+      />
+      <ChildSickDayRulesForm
+        initialRules={childSickDayRules}
+        ruleAction={childSickDayRuleAction}
+        ruleInitialState={INITIAL_RULE_FORM_STATE}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import type { AbsenceCodeCatalog } from '@/lib/services/absence-codes';
+import type { ChildSickDayRule } from '@/lib/services/child-sick-days';
+
+export type AbsenceCodeFormState = {
+  status?: 'success' | 'error';
+  message?: string;
+  catalog?: AbsenceCodeCatalog;
+};
+
+export type ChildSickDayRuleFormState = {
+  status?: 'success' | 'error';
+  message?: string;
+  rules?: ChildSickDayRule[];
+};
@@ -0,0 +1,175 @@
+'use client';
+
+import { useActionState, useState } from 'react';
+import { useFormStatus } from 'react-dom';
+
+import type { OvertimeTrafficLightRule, OvertimeTrafficLightSettings } from '@/lib/data/overtime-traffic-light';
+
+import type { saveOvertimeTrafficLightSettingsAction } from './actions';
+import type { OvertimeTrafficLightFormState } from './types';
+
+const THRESHOLD_FIELDS: Array<{ key: keyof OvertimeTrafficLightRule; label: string; className: string }> = [
+  { key: 'yellowPlusHours', label: 'Gelb ab + Std.', className: 'border-amber-300' },
+  { key: 'redPlusHours', label: 'Rot ab + Std.', className: 'border-red-300' },
+  { key: 'yellowMinusHours', label: 'Gelb ab − Std.', className: 'border-amber-300' },
+  { key: 'redMinusHours', label: 'Rot ab − Std.', className: 'border-red-300' },
+];
+
+function SaveButton() {
+  const { pending } = useFormStatus();
+  return (
+    <button
+      type="submit"
+      className="rounded-md bg-brand px-4 py-2 text-sm font-semibold text-white shadow-sm disabled:cursor-not-allowed disabled:opacity-60"
+      disabled={pending}
+    >
+      {pending ? 'Speichern…' : 'Einstellungen speichern'}
+    </button>
+  );
+}
+
+function RuleFields({
+  prefix,
+  rule,
+  disabled,
+}: {
+  prefix: string;
+  rule: OvertimeTrafficLightRule;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+      {THRESHOLD_FIELDS.map((field) => (
+        <label key={field.key} className="flex flex-col gap-1 text-sm">
+          <span>{field.label}</span>
+          <input
+            type="number"
+            name={`${prefix}${field.key}`}
+            min={0}
+            max={1000}
+            step={0.5}
+            required
+            defaultValue={rule[field.key]}
+            disabled={disabled}
+            className={`rounded-md border px-3 py-2 disabled:bg-slate-50 ${field.className}`}
+          />
+        </label>
+      ))}
+    </div>
+  );
+}
+
+type OvertimeTrafficLightSettingsFormProps = {
+  initialSettings: OvertimeTrafficLightSettings;
+  groups: Array<{ employmentType: string; label: string }>;
+  saveAction: typeof saveOvertimeTrafficLightSettingsAction;
+  saveInitialState: OvertimeTrafficLightFormState;
+};
+
+export default function OvertimeTrafficLightSettingsForm({
+  initialSettings,
+  groups,
+  saveAction,
+  saveInitialState,
+}: OvertimeTrafficLightSettingsFormProps) {
+  const [formState, formAction] = useActionState(saveAction, saveInitialState);
+  const settings = formState?.settings ?? initialSettings;
+  const [customGroups, setCustomGroups] = useState<Set<string>>(
+    () => new Set(Object.keys(initialSettings.groupRules))
+  );
+
+  const setGroupMode = (employmentType: string, custom: boolean) => {
+    setCustomGroups((prev) => {
+      const next = new Set(prev);
+      if (custom) {
+        next.add(employmentType);
+      } else {
+        next.delete(employmentType);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <section className="space-y-6">
+      <header className="space-y-1">
+        <h2 className="text-2xl font-semibold text-slate-900">Ampelkonto</h2>
+        <p className="text-sm text-slate-500">
+          Das Stundenkonto ist grün, solange der Saldo unter den gelben Grenzen bleibt, und wechselt ab den
+          eingestellten Plus- oder Minusstunden auf Gelb bzw. Rot. Mitarbeiter in Gelb und Rot erscheinen auf der
+          Übersicht; die Obergrenzen für Über- und Minusstunden je Mitarbeiter bleiben davon unberührt.
+        </p>
+      </header>
+
+      {formState?.status && formState.message ? (
+        <div
+          className={`rounded-md border px-3 py-2 text-sm ${
+            formState.status === 'success'
+              ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+              : 'border-red-200 bg-red-50 text-red-700'
+          }`}
+        >
+          {formState.message}
+        </div>
+      ) : null}
+
+      <form key={JSON.stringify(settings)} action={formAction} className="space-y-6">
+        <div className="flex items-center gap-3">
+          <input
+            id="notifyByMail"
+            name="notifyByMail"
+            type="checkbox"
+            defaultChecked={settings.notifyByMail}
+            className="h-4 w-4"
+          />
+          <label htmlFor="notifyByMail" className="text-sm text-slate-700">
+            Bei einem Farbwechsel Mitarbeiter und zuständige Verwaltung per E-Mail informieren
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-slate-900">Standard für alle Mitarbeiter</h3>
+          <RuleFields prefix="" rule={settings.rule} />
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="text-sm font-semibold text-slate-900">Abweichende Grenzen je Einstellungsart</h3>
+          {groups.map((group) => {
+            const custom = customGroups.has(group.employmentType);
+            return (
+              <div
+                key={group.employmentType}
+                className="space-y-3 rounded-xl border border-slate-200 bg-white p-4 shadow-sm"
+              >
+                <label className="flex items-center justify-between gap-3 text-sm">
+                  <span className="font-medium text-slate-900">{group.label}</span>
+                  <select
+                    name={`group_${group.employmentType}_mode`}
+                    value={custom ? 'custom' : 'inherit'}
+                    onChange={(event) => setGroupMode(group.employmentType, event.target.value === 'custom')}
+                    className="rounded-md border border-slate-300 px-3 py-1"
+                  >
+                    <option value="inherit">Standard übernehmen</option>
+                    <option value="custom">Eigene Grenzen</option>
+                  </select>
+                </label>
+                <RuleFields
+                  prefix={`group_${group.employmentType}_`}
+                  rule={settings.groupRules[group.employmentType] ?? settings.rule}
+                  disabled={!custom}
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        <p className="text-xs text-slate-500">
+          Die Farbe wird bei jeder Neuberechnung des Stundenkontos bestimmt. Beim ersten Mal wird sie nur gespeichert;
+          E-Mails gehen erst bei einem späteren Wechsel raus.
+        </p>
+
+        <SaveButton />
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,74 @@
+import { redirect } from 'next/navigation';
+
+import { getServerAuthSession } from '@/lib/auth/session';
+import { saveOvertimeTrafficLightSettings, type OvertimeTrafficLightRule } from '@/lib/data/overtime-traffic-light';
+import { withAppBasePath } from '@/lib/routes';
+import {
+  OVERTIME_TRAFFIC_LIGHT_GROUPS,
+  reevaluateOvertimeTrafficLights,
+  sanitizeOvertimeTrafficLightRule,
+} from '@/lib/services/overtime-traffic-light';
+
+import type { OvertimeTrafficLightFormState } from './types';
+
+export function ensureAdmin(session: Awaited<ReturnType<typeof getServerAuthSession>>) {
+  if (!session?.user) {
+    redirect(withAppBasePath('/login'));
+  }
+  if (session.user.roleId !== 2) {
+    redirect(withAppBasePath('/mitarbeiter'));
+  }
+}
+
+function readRule(formData: FormData, prefix: string): OvertimeTrafficLightRule {
+  return sanitizeOvertimeTrafficLightRule({
+    yellowPlusHours: formData.get(`${prefix}yellowPlusHours`),
+    redPlusHours: formData.get(`${prefix}redPlusHours`),
+    yellowMinusHours: formData.get(`${prefix}yellowMinusHours`),
+    redMinusHours: formData.get(`${prefix}redMinusHours`),
+  });
+}
+
+export async function saveOvertimeTrafficLightSettingsAction(
+  prevState: OvertimeTrafficLightFormState,
+  formData: FormData
+): Promise<OvertimeTrafficLightFormState> {
+  'use server';
+
+  const session = await getServerAuthSession();
+  ensureAdmin(session);
+
+  const tenantId = session?.tenantId;
+  if (!tenantId) {
+    redirect(withAppBasePath('/login'));
+  }
+
+  try {
+    const groupRules: Record<string, OvertimeTrafficLightRule> = {};
+    for (const group of OVERTIME_TRAFFIC_LIGHT_GROUPS) {
+      if (formData.get(`group_${group.employmentType}_mode`) === 'custom') {
+        groupRules[group.employmentType] = readRule(formData, `group_${group.employmentType}_`);
+      }
+    }
+
+    const settings = {
+      notifyByMail: formData.get('notifyByMail') === 'on',
+      rule: readRule(formData, ''),
+      groupRules,
+    };
+
+    await saveOvertimeTrafficLightSettings(tenantId, settings);
+    await reevaluateOvertimeTrafficLights(tenantId);
+
+    return {
+      status: 'success',
+      message: 'Einstellungen gespeichert. Die Ampel aller aktiven Mitarbeitenden wurde neu bewertet.',
+      settings,
+    };
+  } catch (error) {
+    return {
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Einstellungen konnten nicht gespeichert werden.',
+    };
+  }
+}
@@ -0,0 +1,30 @@
+import { getServerAuthSession } from '@/lib/auth/session';
+import { getOvertimeTrafficLightSettings } from '@/lib/data/overtime-traffic-light';
+import { OVERTIME_TRAFFIC_LIGHT_GROUPS } from '@/lib/services/overtime-traffic-light';
+
+import OvertimeTrafficLightSettingsForm from './OvertimeTrafficLightSettingsForm';
+import { ensureAdmin, saveOvertimeTrafficLightSettingsAction } from './actions';
+import type { OvertimeTrafficLightFormState } from './types';
+
+const INITIAL_FORM_STATE: OvertimeTrafficLightFormState = {};
+
+export default async function AdminAmpelkontoPage() {
+  const session = await getServerAuthSession();
+  ensureAdmin(session);
+
+  const tenantId = session?.tenantId;
+  if (!tenantId) {
+    throw new Error('Tenant-Kontext fehlt.');
+  }
+
+  const settings = await getOvertimeTrafficLightSettings(tenantId);
+
+  return (
+    <OvertimeTrafficLightSettingsForm
+      initialSettings={settings}
+      groups={OVERTIME_TRAFFIC_LIGHT_GROUPS}
+      saveAction={saveOvertimeTrafficLightSettingsAction}
+      saveInitialState={INITIAL_FORM_STATE}
+    />
+  );
+}
@@ -0,0 +1,7 @@
+import type { OvertimeTrafficLightSettings } from '@/lib/data/overtime-traffic-light';
+
+export type OvertimeTrafficLightFormState = {
+  status?: 'success' | 'error';
+  message?: string;
+  settings?: OvertimeTrafficLightSettings;
+};
@@ -0,0 +1,300 @@
+'use client';
+
+import { useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+
+import type { ShiftSwapRequestView, ShiftSwapShiftView } from '@/lib/services/shift-swaps';
+
+import type { DecideRequestFormState } from './AdminLeaveRequestsClient';
+
+type Props = {
+  requests: ShiftSwapRequestView[];
+  autoApprove: boolean;
+  decideAction: (
+    prevState: DecideRequestFormState,
+    formData: FormData
+  ) => Promise<DecideRequestFormState>;
+  saveSettingsAction: (
+    prevState: DecideRequestFormState,
+    formData: FormData
+  ) => Promise<DecideRequestFormState>;
+};
+
+const INITIAL_STATE: DecideRequestFormState = {
+  status: 'idle',
+  message: null,
+};
+
+function formatDate(iso: string): string {
+  const date = new Date(`${iso}T00:00:00`);
+  if (Number.isNaN(date.getTime())) {
+    return iso;
+  }
+  return date.toLocaleDateString('de-DE', {
+    weekday: 'short',
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+  });
+}
+
+function formatDateTime(iso: string): string {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) {
+    return iso;
+  }
+  return date.toLocaleString('de-DE', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function formatShift(shift: ShiftSwapShiftView): string {
+  const branch = shift.branchName ? ` · ${shift.branchName}` : '';
+  return `${formatDate(shift.isoDate)}, ${shift.start}–${shift.end}${branch}`;
+}
+
+function DecisionButtons() {
+  const { pending } = useFormStatus();
+  return (
+    <div className="flex flex-wrap gap-2">
+      <button
+        type="submit"
+        name="decision"
+        value="approve"
+        disabled={pending}
+        className="inline-flex items-center justify-center rounded-full bg-emerald-600 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-emerald-500 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        Genehmigen
+      </button>
+      <button
+        type="submit"
+        name="decision"
+        value="reject"
+        disabled={pending}
+        className="inline-flex items-center justify-center rounded-full bg-red-600 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-red-500 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        Ablehnen
+      </button>
+    </div>
+  );
+}
+
+function DecisionForm({
+  request,
+  decideAction,
+}: {
+  request: ShiftSwapRequestView;
+  decideAction: Props['decideAction'];
+}) {
+  const [state, formAction] = useActionState(decideAction, INITIAL_STATE);
+  const showFeedback = state.status !== 'idle' && state.message;
+  const feedbackClass =
+    state.status === 'success'
+      ? 'border border-emerald-200 bg-emerald-50 text-emerald-700'
+      : 'border border-red-200 bg-red-50 text-red-700';
+
+  if (request.status !== 'pending') {
+    return (
+      <form action={formAction} className="space-y-2">
+        <input type="hidden" name="request_id" value={request.id} />
+        {request.status === 'open' ? (
+          <p className="text-sm text-slate-600">Noch von niemandem angenommen.</p>
+        ) : (
+          <>
+            <p className="text-sm text-slate-600">
+              Entschieden:{' '}
+              <span className="font-medium text-slate-800">
+                {request.decidedAt ? formatDateTime(request.decidedAt) : '—'}
+              </span>
+            </p>
+            <p className="text-sm text-slate-500">
+              Kommentar:{' '}
+              {request.adminNote ? (
+                <span className="text-slate-800">{request.adminNote}</span>
+              ) : (
+                <span className="text-slate-400">—</span>
+              )}
+            </p>
+          </>
+        )}
+        <button
+          type="submit"
+          name="decision"
+          value="delete"
+          onClick={(event) => {
+            const message = 'Diese Tauschanfrage wirklich dauerhaft löschen? Der Schichtplan bleibt unverändert.';
+            if (!window.confirm(message)) {
+              event.preventDefault();
+            }
+          }}
+          className="inline-flex items-center justify-center rounded-full bg-slate-700 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-slate-600"
+        >
+          Anfrage löschen
+        </button>
+        {showFeedback ? <p className={`rounded-lg px-3 py-2 text-xs ${feedbackClass}`}>{state.message}</p> : null}
+      </form>
+    );
+  }
+
+  return (
+    <form action={formAction} className="space-y-3">
+      <input type="hidden" name="request_id" value={request.id} />
+      <div>
+        <label
+          className="text-xs font-semibold uppercase tracking-wide text-slate-500"
+          htmlFor={`shift_swap_note_${request.id}`}
+        >
+          Kommentar für Mitarbeiter (optional)
+        </label>
+        <textarea
+          id={`shift_swap_note_${request.id}`}
+          name="admin_note"
+          rows={2}
+          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-800 focus:border-brand focus:outline-none focus:ring-2 focus:ring-brand/20"
+          placeholder="Optionale Rückmeldung an beide Mitarbeiter"
+          maxLength={500}
+        />
+      </div>
+      <DecisionButtons />
+      {showFeedback ? <p className={`rounded-lg px-3 py-2 text-xs ${feedbackClass}`}>{state.message}</p> : null}
+    </form>
+  );
+}
+
+function AutoApproveForm({
+  autoApprove,
+  saveSettingsAction,
+}: {
+  autoApprove: boolean;
+  saveSettingsAction: Props['saveSettingsAction'];
+}) {
+  const [state, formAction, pending] = useActionState(saveSettingsAction, INITIAL_STATE);
+  return (
+    <form action={formAction} className="flex flex-wrap items-center gap-3 text-sm">
+      <label className="inline-flex items-center gap-2 text-slate-700">
+        <input
+          type="checkbox"
+          name="auto_approve"
+          defaultChecked={autoApprove}
+          className="h-4 w-4 rounded border-slate-300 text-brand focus:ring-brand"
+        />
+        Regelkonforme Tausche automatisch genehmigen
+      </label>
+      <button
+        type="submit"
+        disabled={pending}
+        className="rounded-full border border-slate-300 px-3 py-1 text-xs font-semibold text-slate-700 hover:bg-slate-100 disabled:opacity-60"
+      >
+        Speichern
+      </button>
+      {state.status !== 'idle' && state.message ? (
+        <span className={state.status === 'success' ? 'text-xs text-emerald-700' : 'text-xs text-red-700'}>
+          {state.message}
+        </span>
+      ) : null}
+    </form>
+  );
+}
+
+export default function AdminShiftSwapRequestsClient({
+  requests,
+  autoApprove,
+  decideAction,
+  saveSettingsAction,
+}: Props) {
+  const pendingCount = requests.filter((request) => request.status === 'pending').length;
+
+  return (
+    <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+      <header className="mb-4 space-y-2">
+        <h2 className="text-xl font-semibold text-slate-900">Schichttausch</h2>
+        <p className="text-sm text-slate-500">
+          Mitarbeiter bieten eigene Schichten zum Tausch oder zur Abgabe an; Kollegen desselben Standorts nehmen sie
+          an. Automatisch genehmigt wird nur, wenn beide Schichten am selben Standort liegen, niemand die
+          Überstundengrenze überschreitet und die Ruhezeit von 11 Stunden eingehalten wird. Beim Genehmigen werden
+          beide Schichtpläne angepasst.
+        </p>
+        <AutoApproveForm autoApprove={autoApprove} saveSettingsAction={saveSettingsAction} />
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+          Wartet auf Freigabe: <span className="text-brand">{pendingCount}</span>
+        </p>
+      </header>
+
+      {requests.length === 0 ? (
+        <p className="rounded-lg border border-dashed border-slate-300 px-4 py-6 text-center text-sm text-slate-500">
+          Es liegen aktuell keine Tauschanfragen vor.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {requests.map((request) => {
+            const cardHighlight =
+              request.status === 'pending'
+                ? 'border-amber-200 bg-amber-50/60'
+                : request.status === 'approved'
+                  ? 'border-emerald-200 bg-emerald-50/50'
+                  : request.status === 'rejected'
+                    ? 'border-red-200 bg-red-50/60'
+                    : 'border-slate-200 bg-slate-50/60';
+            const statusBadgeClasses =
+              request.status === 'approved'
+                ? 'bg-emerald-100 text-emerald-700 border border-emerald-200'
+                : request.status === 'rejected'
+                  ? 'bg-red-100 text-red-700 border border-red-200'
+                  : request.status === 'pending'
+                    ? 'bg-amber-100 text-amber-700 border border-amber-200'
+                    : 'bg-slate-100 text-slate-700 border border-slate-200';
+
+            return (
+              <article
+                key={request.id}
+                className={`grid gap-4 rounded-xl border p-4 shadow-sm lg:grid-cols-[1fr,2fr,1.2fr] ${cardHighlight}`}
+              >
+                <div className="space-y-1">
+                  <p className="text-sm font-semibold text-slate-900">
+                    {request.employeeName ?? `Mitarbeiter #${request.employeeId}`}
+                  </p>
+                  <p className="text-sm text-slate-700">{request.kindLabel}</p>
+                  <p className="text-xs text-slate-500">Angeboten am {formatDateTime(request.createdAt)}</p>
+                  <span className={`inline-flex rounded-full px-2.5 py-1 text-xs font-semibold ${statusBadgeClasses}`}>
+                    {request.statusLabel}
+                  </span>
+                </div>
+                <div className="space-y-2 text-sm">
+                  <p className="text-slate-700">
+                    Gibt ab: <span className="font-medium text-slate-900">{formatShift(request.offered)}</span>
+                  </p>
+                  {request.acceptedById !== null ? (
+                    <p className="text-slate-700">
+                      {request.returned ? 'Im Tausch gegen' : 'Übernimmt'}:{' '}
+                      <span className="font-medium text-slate-900">
+                        {request.acceptedByName ?? `Mitarbeiter #${request.acceptedById}`}
+                        {request.returned ? ` – ${formatShift(request.returned)}` : ''}
+                      </span>
+                    </p>
+                  ) : null}
+                  {request.note ? (
+                    <p className="rounded-md border border-slate-200 bg-white/80 p-2 text-xs text-slate-600">
+                      Nachricht: <span className="text-slate-800">{request.note}</span>
+                    </p>
+                  ) : null}
+                  {request.ruleViolations.length ? (
+                    <ul className="list-inside list-disc rounded-md border border-amber-200 bg-white/80 p-2 text-xs text-amber-800">
+                      {request.ruleViolations.map((violation) => (
+                        <li key={violation}>{violation}</li>
+                      ))}
+                    </ul>
+                  ) : null}
+                </div>
+                <DecisionForm request={request} decideAction={decideAction} />
+              </article>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,234 @@
+'use client';
+
+import { useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+
+import type { TimeCorrectionRequestView } from '@/lib/services/time-correction-requests';
+
+import type { DecideRequestFormState } from './AdminLeaveRequestsClient';
+
+type Props = {
+  requests: TimeCorrectionRequestView[];
+  decideAction: (
+    prevState: DecideRequestFormState,
+    formData: FormData
+  ) => Promise<DecideRequestFormState>;
+};
+
+const INITIAL_STATE: DecideRequestFormState = {
+  status: 'idle',
+  message: null,
+};
+
+function formatDate(iso: string): string {
+  const date = new Date(`${iso}T00:00:00`);
+  if (Number.isNaN(date.getTime())) {
+    return iso;
+  }
+  return date.toLocaleDateString('de-DE', {
+    weekday: 'short',
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+  });
+}
+
+function formatDateTime(iso: string): string {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) {
+    return iso;
+  }
+  return date.toLocaleString('de-DE', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function DecisionButtons() {
+  const { pending } = useFormStatus();
+  return (
+    <div className="flex flex-wrap gap-2">
+      <button
+        type="submit"
+        name="decision"
+        value="approve"
+        disabled={pending}
+        className="inline-flex items-center justify-center rounded-full bg-emerald-600 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-emerald-500 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        Übernehmen
+      </button>
+      <button
+        type="submit"
+        name="decision"
+        value="reject"
+        disabled={pending}
+        className="inline-flex items-center justify-center rounded-full bg-red-600 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-red-500 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        Ablehnen
+      </button>
+    </div>
+  );
+}
+
+function DecisionForm({
+  request,
+  decideAction,
+}: {
+  request: TimeCorrectionRequestView;
+  decideAction: Props['decideAction'];
+}) {
+  const [state, formAction] = useActionState(decideAction, INITIAL_STATE);
+  const showFeedback = state.status !== 'idle' && state.message;
+  const feedbackClass =
+    state.status === 'success'
+      ? 'border border-emerald-200 bg-emerald-50 text-emerald-700'
+      : 'border border-red-200 bg-red-50 text-red-700';
+
+  if (request.status !== 'pending') {
+    return (
+      <form action={formAction} className="space-y-2">
+        <input type="hidden" name="request_id" value={request.id} />
+        <p className="text-sm text-slate-600">
+          Entschieden:{' '}
+          <span className="font-medium text-slate-800">
+            {request.decidedAt ? formatDateTime(request.decidedAt) : '—'}
+          </span>
+        </p>
+        <p className="text-sm text-slate-500">
+          Kommentar:{' '}
+          {request.adminNote ? (
+            <span className="text-slate-800">{request.adminNote}</span>
+          ) : (
+            <span className="text-slate-400">—</span>
+          )}
+        </p>
+        <button
+          type="submit"
+          name="decision"
+          value="delete"
+          onClick={(event) => {
+            if (!window.confirm('Diesen Korrekturantrag wirklich dauerhaft löschen?')) {
+              event.preventDefault();
+            }
+          }}
+          className="inline-flex items-center justify-center rounded-full bg-slate-700 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-slate-600"
+        >
+          Antrag löschen
+        </button>
+        {showFeedback ? <p className={`rounded-lg px-3 py-2 text-xs ${feedbackClass}`}>{state.message}</p> : null}
+      </form>
+    );
+  }
+
+  return (
+    <form action={formAction} className="space-y-3">
+      <input type="hidden" name="request_id" value={request.id} />
+      <div>
+        <label
+          className="text-xs font-semibold uppercase tracking-wide text-slate-500"
+          htmlFor={`correction_note_${request.id}`}
+        >
+          Kommentar für Mitarbeiter (optional)
+        </label>
+        <textarea
+          id={`correction_note_${request.id}`}
+          name="admin_note"
+          rows={2}
+          className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-800 focus:border-brand focus:outline-none focus:ring-2 focus:ring-brand/20"
+          placeholder="Optionale Rückmeldung an den Mitarbeiter"
+          maxLength={500}
+        />
+      </div>
+      <DecisionButtons />
+      {showFeedback ? <p className={`rounded-lg px-3 py-2 text-xs ${feedbackClass}`}>{state.message}</p> : null}
+    </form>
+  );
+}
+
+export default function AdminTimeCorrectionRequestsClient({ requests, decideAction }: Props) {
+  const pendingCount = requests.filter((request) => request.status === 'pending').length;
+
+  return (
+    <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+      <header className="mb-4 space-y-1">
+        <h2 className="text-xl font-semibold text-slate-900">Korrekturanträge</h2>
+        <p className="text-sm text-slate-500">
+          Änderungswünsche zu vergangenen oder abgeschlossenen Tagen. Beim Übernehmen wird der Tag wie eine
+          Verwaltungs-Erfassung gespeichert; ein abgeschlossener Monat wird dafür kurz geöffnet und wieder
+          abgeschlossen.
+        </p>
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+          Offene Korrekturen: <span className="text-brand">{pendingCount}</span>
+        </p>
+      </header>
+
+      {requests.length === 0 ? (
+        <p className="rounded-lg border border-dashed border-slate-300 px-4 py-6 text-center text-sm text-slate-500">
+          Es liegen aktuell keine Korrekturanträge vor.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {requests.map((request) => {
+            const cardHighlight =
+              request.status === 'pending'
+                ? 'border-amber-200 bg-amber-50/60'
+                : request.status === 'approved'
+                  ? 'border-emerald-200 bg-emerald-50/50'
+                  : 'border-red-200 bg-red-50/60';
+            const statusBadgeClasses =
+              request.status === 'approved'
+                ? 'bg-emerald-100 text-emerald-700 border border-emerald-200'
+                : request.status === 'rejected'
+                  ? 'bg-red-100 text-red-700 border border-red-200'
+                  : 'bg-amber-100 text-amber-700 border border-amber-200';
+
+            return (
+              <article
+                key={request.id}
+                className={`grid gap-4 rounded-xl border p-4 shadow-sm lg:grid-cols-[1fr,2fr,1.2fr] ${cardHighlight}`}
+              >
+                <div className="space-y-1">
+                  <p className="text-sm font-semibold text-slate-900">
+                    {request.employeeName ?? `Mitarbeiter #${request.employeeId}`}
+                  </p>
+                  <p className="text-sm text-slate-700">{formatDate(request.dayDate)}</p>
+                  <p className="text-xs text-slate-500">Antrag vom {formatDateTime(request.createdAt)}</p>
+                  <span className={`inline-flex rounded-full px-2.5 py-1 text-xs font-semibold ${statusBadgeClasses}`}>
+                    {request.statusLabel}
+                  </span>
+                </div>
+                <div className="space-y-2">
+                  <table className="min-w-full text-xs">
+                    <thead className="text-left text-slate-500">
+                      <tr>
+                        <th className="py-1 pr-3 font-semibold">Feld</th>
+                        <th className="py-1 pr-3 font-semibold">Bisher</th>
+                        <th className="py-1 font-semibold">Gewünscht</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-200/70">
+                      {request.changes.map((change) => (
+                        <tr key={change.label}>
+                          <td className="py-1 pr-3 font-medium text-slate-600">{change.label}</td>
+                          <td className="py-1 pr-3 text-slate-500 line-through">{change.before}</td>
+                          <td className="py-1 font-medium text-slate-900">{change.after}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="rounded-md border border-slate-200 bg-white/80 p-2 text-xs text-slate-600">
+                    Begründung: <span className="text-slate-800">{request.reason}</span>
+                  </p>
+                </div>
+                <DecisionForm request={request} decideAction={decideAction} />
+              </article>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+}
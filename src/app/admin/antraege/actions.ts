@@ -1,3 +1,4 @@
+import { revalidatePath } from 'next/cache';
 import { redirect } from 'next/navigation';
 
 import { getServerAuthSession } from '@/lib/auth/session';
@@ -8,6 +9,12 @@ import {
   adminRejectCancellationRequest,
   adminDeleteLeaveRequest,
 } from '@/lib/services/leave-requests';
+import {
+  adminDeleteTimeCorrectionRequest,
+  decideTimeCorrectionRequest,
+} from '@/lib/services/time-correction-requests';
+import { adminDeleteShiftSwapRequest, decideShiftSwapRequest } from '@/lib/services/shift-swaps';
+import { saveShiftSwapAutoApprove } from '@/lib/data/shift-swap-requests';
 
 import type { DecideRequestFormState } from './AdminLeaveRequestsClient';
 
@@ -20,7 +27,11 @@ export async function ensureAdminSession() {
   if (!tenantId) {
     redirect(withAppBasePath('/login'));
   }
-  return { adminId: session.user.id, tenantId };
+  const adminName =
+    [session.user.firstName?.trim(), session.user.lastName?.trim()].filter(Boolean).join(' ') ||
+    session.user.username ||
+    'Admin';
+  return { adminId: session.user.id, adminName, tenantId };
 }
 
 export async function decideLeaveRequestAction(
@@ -101,3 +112,117 @@ export async function decideLeaveRequestAction(
     };
   }
 }
+
+export async function decideTimeCorrectionRequestAction(
+  _prevState: DecideRequestFormState,
+  formData: FormData
+): Promise<DecideRequestFormState> {
+  'use server';
+
+  try {
+    const { adminId, adminName, tenantId } = await ensureAdminSession();
+
+    const requestId = Number.parseInt(String(formData.get('request_id') ?? '0'), 10);
+    if (!Number.isFinite(requestId) || requestId <= 0) {
+      return { status: 'error', message: 'Ungültiger Antrag.' };
+    }
+
+    const decisionRaw = String(formData.get('decision') ?? '').trim().toLowerCase();
+    const noteValue = formData.get('admin_note');
+    const adminNote =
+      typeof noteValue === 'string' && noteValue.trim().length ? noteValue.trim() : null;
+
+    if (decisionRaw === 'approve' || decisionRaw === 'reject') {
+      const message = await decideTimeCorrectionRequest(tenantId, {
+        requestId,
+        status: decisionRaw === 'reject' ? 'rejected' : 'approved',
+        adminId,
+        adminName,
+        adminNote,
+      });
+      return { status: 'success', message };
+    }
+
+    if (decisionRaw === 'delete') {
+      await adminDeleteTimeCorrectionRequest(tenantId, requestId);
+      return { status: 'success', message: 'Korrekturantrag wurde gelöscht.' };
+    }
+
+    return { status: 'error', message: 'Unbekannte Aktion.' };
+  } catch (error) {
+    console.error('Failed to decide time correction request', error);
+    return {
+      status: 'error',
+      message:
+        error instanceof Error ? error.message : 'Die Entscheidung konnte nicht gespeichert werden.',
+    };
+  }
+}
+
+export async function decideShiftSwapRequestAction(
+  _prevState: DecideRequestFormState,
+  formData: FormData
+): Promise<DecideRequestFormState> {
+  'use server';
+
+  try {
+    const { adminId, tenantId } = await ensureAdminSession();
+
+    const requestId = Number.parseInt(String(formData.get('request_id') ?? '0'), 10);
+    if (!Number.isFinite(requestId) || requestId <= 0) {
+      return { status: 'error', message: 'Ungültige Tauschanfrage.' };
+    }
+
+    const decisionRaw = String(formData.get('decision') ?? '').trim().toLowerCase();
+    const noteValue = formData.get('admin_note');
+    const adminNote =
+      typeof noteValue === 'string' && noteValue.trim().length ? noteValue.trim() : null;
+
+    if (decisionRaw === 'approve' || decisionRaw === 'reject') {
+      const message = await decideShiftSwapRequest(tenantId, {
+        requestId,
+        status: decisionRaw === 'reject' ? 'rejected' : 'approved',
+        adminId,
+        adminNote,
+      });
+      return { status: 'success', message };
+    }
+
+    if (decisionRaw === 'delete') {
+      await adminDeleteShiftSwapRequest(tenantId, requestId);
+      return { status: 'success', message: 'Tauschanfrage wurde gelöscht.' };
+    }
+
+    return { status: 'error', message: 'Unbekannte Aktion.' };
+  } catch (error) {
+    console.error('Failed to decide shift swap request', error);
+    return {
+      status: 'error',
+      message:
+        error instanceof Error ? error.message : 'Die Entscheidung konnte nicht gespeichert werden.',
+    };
+  }
+}
+
+export async function saveShiftSwapAutoApproveAction(
+  _prevState: DecideRequestFormState,
+  formData: FormData
+): Promise<DecideRequestFormState> {
+  'use server';
+
+  try {
+    const { tenantId } = await ensureAdminSession();
+    const autoApprove = formData.get('auto_approve') === 'on';
+    await saveShiftSwapAutoApprove(tenantId, autoApprove);
+    revalidatePath(withAppBasePath('/admin/antraege'));
+    return {
+      status: 'success',
+      message: autoApprove
+        ? 'Regelkonforme Tausche werden ab jetzt automatisch genehmigt.'
+        : 'Tausche müssen ab jetzt immer freigegeben werden.',
+    };
+  } catch (error) {
+    console.error('Failed to save shift swap settings', error);
+    return { status: 'error', message: 'Die Einstellung konnte nicht gespeichert werden.' };
+  }
+}
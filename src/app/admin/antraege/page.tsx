@@ -2,13 +2,41 @@ import {
   getLeaveRequestsForAdmin,
   type LeaveRequestView,
 } from '@/lib/services/leave-requests';
+import {
+  getTimeCorrectionRequestsForAdmin,
+  type TimeCorrectionRequestView,
+} from '@/lib/services/time-correction-requests';
+import { getShiftSwapRequestsForAdmin, type ShiftSwapRequestView } from '@/lib/services/shift-swaps';
+import { getShiftSwapAutoApprove } from '@/lib/data/shift-swap-requests';
 
 import AdminLeaveRequestsClient from './AdminLeaveRequestsClient';
-import { decideLeaveRequestAction, ensureAdminSession } from './actions';
+import AdminTimeCorrectionRequestsClient from './AdminTimeCorrectionRequestsClient';
+import AdminShiftSwapRequestsClient from './AdminShiftSwapRequestsClient';
+import {
+  decideLeaveRequestAction,
+  decideShiftSwapRequestAction,
+  decideTimeCorrectionRequestAction,
+  ensureAdminSession,
+  saveShiftSwapAutoApproveAction,
+} from './actions';
 
 export default async function AdminLeaveRequestsPage() {
   const { tenantId } = await ensureAdminSession();
   const requests: LeaveRequestView[] = await getLeaveRequestsForAdmin(tenantId, 'all');
+  const corrections: TimeCorrectionRequestView[] = await getTimeCorrectionRequestsForAdmin(tenantId, 'all');
+  const shiftSwaps: ShiftSwapRequestView[] = await getShiftSwapRequestsForAdmin(tenantId);
+  const shiftSwapAutoApprove = await getShiftSwapAutoApprove(tenantId);
 
-  return <AdminLeaveRequestsClient requests={requests} decideAction={decideLeaveRequestAction} />;
+  return (
+    <div className="space-y-8">
+      <AdminLeaveRequestsClient requests={requests} decideAction={decideLeaveRequestAction} />
+      <AdminTimeCorrectionRequestsClient requests={corrections} decideAction={decideTimeCorrectionRequestAction} />
+      <AdminShiftSwapRequestsClient
+        requests={shiftSwaps}
+        autoApprove={shiftSwapAutoApprove}
+        decideAction={decideShiftSwapRequestAction}
+        saveSettingsAction={saveShiftSwapAutoApproveAction}
+      />
+    </div>
+  );
 }
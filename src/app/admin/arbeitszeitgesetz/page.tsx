@@ -0,0 +1,180 @@
+import { redirect } from 'next/navigation';
+
+import { getServerAuthSession } from '@/lib/auth/session';
+import { listBranches } from '@/lib/data/branches';
+import { withAppBasePath } from '@/lib/routes';
+import { getArbzgReport, type ArbzgReportFormat } from '@/lib/services/admin/arbzg-report';
+import { ARBZG_LIMITS, ARBZG_RULE_LABELS } from '@/lib/services/arbzg';
+
+type SearchParams = {
+  year?: string;
+  month?: string;
+  branchId?: string;
+};
+
+function parseParam(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function padMonth(month: number): string {
+  return String(month).padStart(2, '0');
+}
+
+function formatGermanDate(iso: string): string {
+  const [year, month, day] = iso.split('-');
+  if (!year || !month || !day) return iso;
+  return `${day}.${month}.${year}`;
+}
+
+function buildExportHref(year: number, month: number, branchId: number | null, format: ArbzgReportFormat): string {
+  const query = new URLSearchParams({ year: String(year), month: String(month), format });
+  if (branchId) {
+    query.set('branchId', String(branchId));
+  }
+  return withAppBasePath(`/api/admin/arbzg/export?${query.toString()}`, 'external');
+}
+
+export default async function AdminArbeitszeitgesetzPage({ searchParams }: { searchParams?: Promise<SearchParams> }) {
+  const session = await getServerAuthSession();
+  if (!session) {
+    redirect(withAppBasePath('/login'));
+  }
+  if (session.user.roleId !== 2) {
+    redirect(withAppBasePath('/mitarbeiter'));
+  }
+  const tenantId = session.tenantId;
+  if (!tenantId) {
+    redirect(withAppBasePath('/login'));
+  }
+
+  const resolved = searchParams ? await searchParams : undefined;
+  const now = new Date();
+  const year = parseParam(resolved?.year) ?? now.getFullYear();
+  const preferredMonth = parseParam(resolved?.month);
+  const month = preferredMonth && preferredMonth >= 1 && preferredMonth <= 12 ? preferredMonth : now.getMonth() + 1;
+
+  const branches = await listBranches(tenantId);
+  const preferredBranchId = parseParam(resolved?.branchId);
+  const branchId = branches.some((branch) => branch.id === preferredBranchId) ? preferredBranchId ?? null : null;
+
+  const rows = await getArbzgReport(tenantId, year, month, branchId);
+  const yearOptions = Array.from({ length: 5 }, (_, index) => now.getFullYear() + 1 - index);
+  if (!yearOptions.includes(year)) {
+    yearOptions.push(year);
+  }
+
+  return (
+    <section className="space-y-6">
+      <header className="space-y-1">
+        <h2 className="text-2xl font-semibold text-slate-900">Arbeitszeitgesetz</h2>
+        <p className="text-sm text-slate-500">
+          Erfasste Zeiten und geplante Schichten werden gegen das ArbZG geprüft: höchstens{' '}
+          {ARBZG_LIMITS.dailyMaxHours} Stunden pro Tag, mindestens {ARBZG_LIMITS.minRestHours} Stunden Ruhezeit,
+          durchschnittlich höchstens {ARBZG_LIMITS.weeklyAverageHours} Stunden pro Woche über{' '}
+          {ARBZG_LIMITS.averagingMonths} Monate und mindestens {ARBZG_LIMITS.minFreeSundays} freie Sonntage im Jahr.
+          Liegt für einen Tag noch keine Erfassung vor, wird der Schichtplan geprüft.
+        </p>
+      </header>
+
+      <form
+        method="get"
+        className="flex flex-wrap items-end gap-3 rounded-xl border border-slate-200 bg-white p-4 text-sm text-slate-700 shadow-sm"
+      >
+        <label className="flex flex-col gap-1">
+          <span>Jahr</span>
+          <select name="year" defaultValue={year} className="rounded-md border border-slate-300 px-3 py-1">
+            {yearOptions.sort((a, b) => b - a).map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span>Monat</span>
+          <select name="month" defaultValue={month} className="rounded-md border border-slate-300 px-3 py-1">
+            {Array.from({ length: 12 }, (_, index) => index + 1).map((option) => (
+              <option key={option} value={option}>
+                {padMonth(option)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span>Filiale</span>
+          <select name="branchId" defaultValue={branchId ?? ''} className="rounded-md border border-slate-300 px-3 py-1">
+            <option value="">Alle Filialen</option>
+            {branches.map((branch) => (
+              <option key={branch.id} value={branch.id}>
+                {branch.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="submit"
+          className="rounded-md bg-brand px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-brand/90"
+        >
+          Anzeigen
+        </button>
+        <div className="ml-auto flex gap-2">
+          <a
+            href={buildExportHref(year, month, branchId, 'xlsx')}
+            className="rounded-md border border-slate-300 px-3 py-2 text-xs font-semibold text-slate-700 shadow-sm hover:bg-slate-50"
+          >
+            Export XLSX
+          </a>
+          <a
+            href={buildExportHref(year, month, branchId, 'csv')}
+            className="rounded-md border border-slate-300 px-3 py-2 text-xs font-semibold text-slate-700 shadow-sm hover:bg-slate-50"
+          >
+            Export CSV
+          </a>
+        </div>
+      </form>
+
+      {rows.length === 0 ? (
+        <p className="rounded-xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-700">
+          Keine Verstöße im {padMonth(month)}/{year}.
+        </p>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white shadow-sm">
+          <table className="min-w-full divide-y divide-slate-200 text-sm">
+            <thead className="bg-slate-50 text-left text-xs font-semibold uppercase tracking-wide text-slate-500">
+              <tr>
+                <th className="px-4 py-2">Datum</th>
+                <th className="px-4 py-2">Mitarbeiter</th>
+                <th className="px-4 py-2">Filiale</th>
+                <th className="px-4 py-2">Regel</th>
+                <th className="px-4 py-2">Quelle</th>
+                <th className="px-4 py-2">Hinweis</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {rows.map((row, index) => (
+                <tr key={`${row.employeeId}-${row.rule}-${row.dayDate}-${index}`} className="hover:bg-slate-50">
+                  <td className="whitespace-nowrap px-4 py-2 text-slate-900">{formatGermanDate(row.dayDate)}</td>
+                  <td className="px-4 py-2 font-medium text-slate-900">{row.mitarbeiter}</td>
+                  <td className="px-4 py-2 text-slate-600">{row.branches || '—'}</td>
+                  <td className="whitespace-nowrap px-4 py-2 text-slate-700">{ARBZG_RULE_LABELS[row.rule]}</td>
+                  <td className="px-4 py-2">
+                    <span
+                      className={`inline-flex rounded-full px-3 py-1 text-xs font-semibold ${
+                        row.source === 'plan' ? 'bg-sky-50 text-sky-700' : 'bg-amber-50 text-amber-700'
+                      }`}
+                    >
+                      {row.source === 'plan' ? 'Schichtplan' : 'Erfasst'}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-slate-600">{row.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
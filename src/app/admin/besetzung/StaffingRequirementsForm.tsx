@@ -0,0 +1,295 @@
+'use client';
+
+import { useActionState, useEffect, useState } from 'react';
+import { useFormStatus } from 'react-dom';
+import { useRouter } from 'next/navigation';
+
+import type { BranchWeekday } from '@/lib/data/branches';
+import type { StaffingRequirementRow } from '@/lib/data/staffing-requirements';
+
+import type { saveStaffingRequirementsAction } from './actions';
+import type { StaffingRequirementsFormState } from './types';
+
+const WEEKDAY_OPTIONS: Array<{ value: BranchWeekday; label: string }> = [
+  { value: 'MONDAY', label: 'Montag' },
+  { value: 'TUESDAY', label: 'Dienstag' },
+  { value: 'WEDNESDAY', label: 'Mittwoch' },
+  { value: 'THURSDAY', label: 'Donnerstag' },
+  { value: 'FRIDAY', label: 'Freitag' },
+  { value: 'SATURDAY', label: 'Samstag' },
+  { value: 'SUNDAY', label: 'Sonntag' },
+];
+
+type EditorRow = {
+  key: string;
+  weekday: string;
+  date: string;
+  start: string;
+  end: string;
+  minStaff: string;
+};
+
+function minutesToTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function toEditorRows(requirements: StaffingRequirementRow[]): EditorRow[] {
+  return requirements.map((row) => ({
+    key: `saved-${row.id}`,
+    weekday: row.weekday === null ? '' : String(row.weekday),
+    date: row.date ?? '',
+    start: minutesToTime(row.starts_at_minutes),
+    end: minutesToTime(row.ends_at_minutes),
+    minStaff: String(row.min_staff),
+  }));
+}
+
+let nextRowKey = 0;
+
+function emptyRow(kind: 'weekday' | 'date'): EditorRow {
+  nextRowKey += 1;
+  return {
+    key: `new-${nextRowKey}`,
+    weekday: kind === 'weekday' ? '0' : '',
+    date: '',
+    start: '09:00',
+    end: '14:00',
+    minStaff: '1',
+  };
+}
+
+function SaveButton() {
+  const { pending } = useFormStatus();
+  return (
+    <button
+      type="submit"
+      className="rounded-md bg-brand px-4 py-2 text-sm font-semibold text-white shadow-sm disabled:cursor-not-allowed disabled:opacity-60"
+      disabled={pending}
+    >
+      {pending ? 'Speichern…' : 'Personalbedarf speichern'}
+    </button>
+  );
+}
+
+type StaffingRequirementsFormProps = {
+  branches: Array<{ id: number; name: string }>;
+  branchId: number | null;
+  openingSegments: Array<{ weekday: BranchWeekday; startsAtMinutes: number; endsAtMinutes: number; minStaff: number }>;
+  initialRequirements: StaffingRequirementRow[];
+  saveAction: typeof saveStaffingRequirementsAction;
+  saveInitialState: StaffingRequirementsFormState;
+};
+
+export default function StaffingRequirementsForm({
+  branches,
+  branchId,
+  openingSegments,
+  initialRequirements,
+  saveAction,
+  saveInitialState,
+}: StaffingRequirementsFormProps) {
+  const router = useRouter();
+  const [formState, formAction] = useActionState(saveAction, saveInitialState);
+  const [rows, setRows] = useState<EditorRow[]>(() => toEditorRows(initialRequirements));
+
+  useEffect(() => {
+    if (formState?.status === 'success' && formState.requirements) {
+      setRows(toEditorRows(formState.requirements));
+    }
+  }, [formState]);
+
+  const weekdayRows = rows.filter((row) => !row.date && row.weekday !== '');
+  const overrideRows = rows.filter((row) => row.weekday === '');
+
+  const updateRow = (key: string, field: keyof Omit<EditorRow, 'key'>, value: string) => {
+    setRows((prev) => prev.map((row) => (row.key === key ? { ...row, [field]: value } : row)));
+  };
+  const removeRow = (key: string) => setRows((prev) => prev.filter((row) => row.key !== key));
+  const addRow = (kind: 'weekday' | 'date') => setRows((prev) => [...prev, emptyRow(kind)]);
+
+  const payload = JSON.stringify(
+    [...weekdayRows, ...overrideRows].map((row) => ({
+      weekday: row.weekday,
+      date: row.date,
+      start: row.start,
+      end: row.end,
+      minStaff: row.minStaff,
+    }))
+  );
+
+  const renderTimeFields = (row: EditorRow) => (
+    <>
+      <input
+        type="time"
+        value={row.start}
+        onChange={(event) => updateRow(row.key, 'start', event.target.value)}
+        className="rounded-md border border-slate-300 px-2 py-1"
+        aria-label="Von"
+        required
+      />
+      <span className="text-slate-400">–</span>
+      <input
+        type="time"
+        value={row.end}
+        onChange={(event) => updateRow(row.key, 'end', event.target.value)}
+        className="rounded-md border border-slate-300 px-2 py-1"
+        aria-label="Bis"
+        required
+      />
+      <input
+        type="number"
+        min={0}
+        max={99}
+        value={row.minStaff}
+        onChange={(event) => updateRow(row.key, 'minStaff', event.target.value)}
+        className="w-20 rounded-md border border-slate-300 px-2 py-1"
+        aria-label="Personen"
+        required
+      />
+      <span className="text-slate-500">Personen</span>
+      <button
+        type="button"
+        onClick={() => removeRow(row.key)}
+        className="ml-auto rounded-md border border-slate-300 px-2 py-1 text-xs text-slate-600 hover:bg-slate-100"
+      >
+        Entfernen
+      </button>
+    </>
+  );
+
+  return (
+    <section className="space-y-6">
+      <header className="space-y-1">
+        <h2 className="text-2xl font-semibold text-slate-900">Personalbedarf</h2>
+        <p className="text-sm text-slate-500">
+          Lege je Standort fest, wie viele Mitarbeiter in welchem Zeitfenster anwesend sein müssen. Einträge für ein
+          Datum ersetzen an diesem Tag die Zeitfenster des Wochentags. Solange keine Wochentage erfasst sind, gilt
+          die Mindestbesetzung aus den Öffnungszeiten des Standorts. Der Schichtplan zeigt die Abdeckung als Heatmap
+          und der Planvorschlag richtet sich nach diesen Angaben.
+        </p>
+      </header>
+
+      {branches.length === 0 ? (
+        <p className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-600">
+          Es sind noch keine Standorte angelegt.
+        </p>
+      ) : (
+        <label className="flex flex-col gap-1 text-sm sm:max-w-xs">
+          <span>Standort</span>
+          <select
+            value={branchId ?? ''}
+            onChange={(event) => router.push(`/admin/besetzung?branch=${event.target.value}`)}
+            className="rounded-md border border-slate-300 px-3 py-2"
+          >
+            {branches.map((branch) => (
+              <option key={branch.id} value={branch.id}>
+                {branch.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {formState?.status && formState.message ? (
+        <div
+          className={`rounded-md border px-3 py-2 text-sm ${
+            formState.status === 'success'
+              ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+              : 'border-red-200 bg-red-50 text-red-700'
+          }`}
+        >
+          {formState.message}
+        </div>
+      ) : null}
+
+      {branchId !== null ? (
+        <form action={formAction} className="space-y-6">
+          <input type="hidden" name="branchId" value={branchId} />
+          <input type="hidden" name="requirements" value={payload} />
+
+          <div className="space-y-3 rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+            <div className="flex items-center justify-between gap-3">
+              <h3 className="text-sm font-semibold text-slate-900">Wochentage</h3>
+              <button
+                type="button"
+                onClick={() => addRow('weekday')}
+                className="rounded-md border border-slate-300 px-3 py-1 text-sm text-slate-700 hover:bg-slate-100"
+              >
+                Zeitfenster hinzufügen
+              </button>
+            </div>
+            {weekdayRows.length === 0 ? (
+              <div className="space-y-1 text-sm text-slate-500">
+                <p>Keine Zeitfenster erfasst. Es gilt die Mindestbesetzung der Öffnungszeiten:</p>
+                {openingSegments.length === 0 ? (
+                  <p>Für diesen Standort sind keine Öffnungszeiten hinterlegt.</p>
+                ) : (
+                  <ul className="list-inside list-disc">
+                    {openingSegments.map((segment, index) => (
+                      <li key={`${segment.weekday}-${index}`}>
+                        {WEEKDAY_OPTIONS.find((option) => option.value === segment.weekday)?.label}{' '}
+                        {minutesToTime(segment.startsAtMinutes)}–{minutesToTime(segment.endsAtMinutes)}:{' '}
+                        {segment.minStaff} {segment.minStaff === 1 ? 'Person' : 'Personen'}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ) : (
+              weekdayRows.map((row) => (
+                <div key={row.key} className="flex flex-wrap items-center gap-2 text-sm">
+                  <select
+                    value={row.weekday}
+                    onChange={(event) => updateRow(row.key, 'weekday', event.target.value)}
+                    className="rounded-md border border-slate-300 px-2 py-1"
+                    aria-label="Wochentag"
+                  >
+                    {WEEKDAY_OPTIONS.map((option, index) => (
+                      <option key={option.value} value={index}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  {renderTimeFields(row)}
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="space-y-3 rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+            <div className="flex items-center justify-between gap-3">
+              <h3 className="text-sm font-semibold text-slate-900">Abweichungen an einzelnen Tagen</h3>
+              <button
+                type="button"
+                onClick={() => addRow('date')}
+                className="rounded-md border border-slate-300 px-3 py-1 text-sm text-slate-700 hover:bg-slate-100"
+              >
+                Datum hinzufügen
+              </button>
+            </div>
+            {overrideRows.length === 0 ? (
+              <p className="text-sm text-slate-500">Keine Abweichungen erfasst.</p>
+            ) : (
+              overrideRows.map((row) => (
+                <div key={row.key} className="flex flex-wrap items-center gap-2 text-sm">
+                  <input
+                    type="date"
+                    value={row.date}
+                    onChange={(event) => updateRow(row.key, 'date', event.target.value)}
+                    className="rounded-md border border-slate-300 px-2 py-1"
+                    aria-label="Datum"
+                    required
+                  />
+                  {renderTimeFields(row)}
+                </div>
+              ))
+            )}
+          </div>
+
+          <SaveButton />
+        </form>
+      ) : null}
+    </section>
+  );
+}
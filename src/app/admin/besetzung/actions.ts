@@ -0,0 +1,63 @@
+import { revalidatePath } from 'next/cache';
+import { redirect } from 'next/navigation';
+
+import { getServerAuthSession } from '@/lib/auth/session';
+import { listStaffingRequirements, replaceBranchStaffingRequirements } from '@/lib/data/staffing-requirements';
+import { withAppBasePath } from '@/lib/routes';
+import { sanitizeStaffingRequirements } from '@/lib/services/staffing-requirements';
+
+import type { StaffingRequirementsFormState } from './types';
+
+export function ensureAdmin(session: Awaited<ReturnType<typeof getServerAuthSession>>) {
+  if (!session?.user) {
+    redirect(withAppBasePath('/login'));
+  }
+  if (session.user.roleId !== 2) {
+    redirect(withAppBasePath('/mitarbeiter'));
+  }
+}
+
+export async function saveStaffingRequirementsAction(
+  prevState: StaffingRequirementsFormState,
+  formData: FormData
+): Promise<StaffingRequirementsFormState> {
+  'use server';
+
+  const session = await getServerAuthSession();
+  ensureAdmin(session);
+
+  const tenantId = session?.tenantId;
+  if (!tenantId) {
+    redirect(withAppBasePath('/login'));
+  }
+
+  const branchId = Number.parseInt(String(formData.get('branchId') ?? ''), 10);
+  if (!Number.isFinite(branchId) || branchId <= 0) {
+    return { status: 'error', message: 'Bitte einen Standort wählen.' };
+  }
+
+  try {
+    const raw = JSON.parse(String(formData.get('requirements') ?? '[]'));
+    const requirements = sanitizeStaffingRequirements(Array.isArray(raw) ? raw : []);
+    await replaceBranchStaffingRequirements(tenantId, branchId, requirements);
+    revalidatePath(withAppBasePath('/admin/besetzung'));
+    revalidatePath(withAppBasePath('/admin/schichtplan'));
+
+    const saved = await listStaffingRequirements(tenantId);
+    return {
+      status: 'success',
+      message: 'Personalbedarf gespeichert.',
+      requirements: saved.filter((row) => row.branch_id === branchId),
+    };
+  } catch (error) {
+    return {
+      status: 'error',
+      message:
+        error instanceof SyntaxError
+          ? 'Die Angaben konnten nicht gelesen werden.'
+          : error instanceof Error
+            ? error.message
+            : 'Personalbedarf konnte nicht gespeichert werden.',
+    };
+  }
+}
@@ -0,0 +1,47 @@
+import { getServerAuthSession } from '@/lib/auth/session';
+import { listBranches } from '@/lib/data/branches';
+import { listStaffingRequirements } from '@/lib/data/staffing-requirements';
+
+import StaffingRequirementsForm from './StaffingRequirementsForm';
+import { ensureAdmin, saveStaffingRequirementsAction } from './actions';
+import type { StaffingRequirementsFormState } from './types';
+
+const INITIAL_FORM_STATE: StaffingRequirementsFormState = {};
+
+export default async function AdminBesetzungPage({
+  searchParams,
+}: {
+  searchParams?: Promise<{ branch?: string }>;
+}) {
+  const session = await getServerAuthSession();
+  ensureAdmin(session);
+
+  const tenantId = session?.tenantId;
+  if (!tenantId) {
+    throw new Error('Tenant-Kontext fehlt.');
+  }
+
+  const resolvedSearch = searchParams ? await searchParams : undefined;
+  const [branches, requirements] = await Promise.all([listBranches(tenantId), listStaffingRequirements(tenantId)]);
+  const requestedId = Number.parseInt(resolvedSearch?.branch ?? '', 10);
+  const branch = branches.find((entry) => entry.id === requestedId) ?? branches[0] ?? null;
+
+  return (
+    <StaffingRequirementsForm
+      key={branch?.id ?? 0}
+      branches={branches.map((entry) => ({ id: entry.id, name: entry.name }))}
+      branchId={branch?.id ?? null}
+      openingSegments={(branch?.schedule ?? [])
+        .filter((rule) => rule.isActive && rule.startsAtMinutes != null && rule.endsAtMinutes != null)
+        .map((rule) => ({
+          weekday: rule.weekday,
+          startsAtMinutes: rule.startsAtMinutes!,
+          endsAtMinutes: rule.endsAtMinutes!,
+          minStaff: rule.minStaff,
+        }))}
+      initialRequirements={requirements.filter((row) => row.branch_id === branch?.id)}
+      saveAction={saveStaffingRequirementsAction}
+      saveInitialState={INITIAL_FORM_STATE}
+    />
+  );
+}
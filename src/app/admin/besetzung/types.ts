@@ -0,0 +1,7 @@
+import type { StaffingRequirementRow } from '@/lib/data/staffing-requirements';
+
+export type StaffingRequirementsFormState = {
+  status?: 'success' | 'error';
+  message?: string;
+  requirements?: StaffingRequirementRow[];
+};
@@ -167,7 +167,7 @@ export default function ReminderSettingsForm({
       <header className="space-y-1">
         <h2 className="text-2xl font-semibold text-slate-900">E-Mail-Erinnerungen</h2>
         <p className="text-sm text-slate-500">
-          Versand am letzten Tag des Monats. Platzhalter: {allowedKeys.map((key) => `{${key}}`).join(', ')}.
+          Versand am letzten Tag des Monats an alle Mitarbeitenden, denen für geplante Schichttage noch Einträge fehlen. Platzhalter: {allowedKeys.map((key) => `{${key}}`).join(', ')}.
         </p>
       </header>
 
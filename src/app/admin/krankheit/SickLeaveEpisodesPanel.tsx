@@ -0,0 +1,266 @@
+'use client';
+
+import { useActionState, useState } from 'react';
+import { useFormStatus } from 'react-dom';
+
+import type { SickLeaveEpisodeView } from '@/lib/services/sick-leave';
+
+import type { deleteSickLeaveEpisodeAction, saveSickLeaveEpisodeAction } from './actions';
+import type { SickLeaveFormState } from './types';
+
+type Props = {
+  employeeId: number;
+  employeeName: string;
+  episodes: SickLeaveEpisodeView[];
+  saveAction: typeof saveSickLeaveEpisodeAction;
+  saveInitialState: SickLeaveFormState;
+  deleteAction: typeof deleteSickLeaveEpisodeAction;
+  deleteInitialState: SickLeaveFormState;
+};
+
+function formatDate(iso: string | null): string {
+  if (!iso) return '—';
+  const [year, month, day] = iso.split('-');
+  return `${day}.${month}.${year}`;
+}
+
+function SubmitButton({ label }: { label: string }) {
+  const { pending } = useFormStatus();
+  return (
+    <button
+      type="submit"
+      className="rounded-md bg-brand px-4 py-2 text-sm font-semibold text-white shadow-sm disabled:cursor-not-allowed disabled:opacity-60"
+      disabled={pending}
+    >
+      {pending ? 'Speichern…' : label}
+    </button>
+  );
+}
+
+function Feedback({ state }: { state: SickLeaveFormState }) {
+  if (!state?.status || !state.message) return null;
+  return (
+    <p
+      className={`rounded-md border px-3 py-2 text-sm ${
+        state.status === 'success'
+          ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+          : 'border-red-200 bg-red-50 text-red-700'
+      }`}
+    >
+      {state.message}
+    </p>
+  );
+}
+
+function describeContinuedPay(episode: SickLeaveEpisodeView): string {
+  if (!episode.continuedPayEndDate) {
+    return `${episode.continuedPayDaysRemaining} Tage verbleibend`;
+  }
+  if (episode.continuedPayEndDate < episode.startDate) {
+    return 'bereits ausgeschöpft';
+  }
+  return `bis ${formatDate(episode.continuedPayEndDate)}`;
+}
+
+export default function SickLeaveEpisodesPanel({
+  employeeId,
+  employeeName,
+  episodes,
+  saveAction,
+  saveInitialState,
+  deleteAction,
+  deleteInitialState,
+}: Props) {
+  const [saveState, saveFormAction] = useActionState(saveAction, saveInitialState);
+  const [deleteState, deleteFormAction] = useActionState(deleteAction, deleteInitialState);
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  const editing = episodes.find((episode) => episode.id === editingId) ?? null;
+  const linkOptions = episodes.filter((episode) => episode.id !== editingId);
+  const episodesById = new Map(episodes.map((episode) => [episode.id, episode]));
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <h3 className="text-lg font-semibold text-slate-900">Krankmeldungen von {employeeName}</h3>
+        <Feedback state={deleteState} />
+        {episodes.length ? (
+          <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white shadow-sm">
+            <table className="min-w-full divide-y divide-slate-200 text-sm">
+              <thead className="bg-slate-50 text-left text-xs font-semibold uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="px-4 py-2">Zeitraum</th>
+                  <th className="px-4 py-2 text-right">Tage</th>
+                  <th className="px-4 py-2">AU eingegangen</th>
+                  <th className="px-4 py-2">Fortsetzung von</th>
+                  <th className="px-4 py-2">Entgeltfortzahlung</th>
+                  <th className="px-4 py-2">Dokument</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {[...episodes].reverse().map((episode) => {
+                  const previous = episode.continuesEpisodeId ? episodesById.get(episode.continuesEpisodeId) : null;
+                  return (
+                    <tr key={episode.id} className={episode.id === editingId ? 'bg-sky-50/60' : undefined}>
+                      <td className="whitespace-nowrap px-4 py-2 text-slate-900">
+                        {formatDate(episode.startDate)} – {episode.endDate ? formatDate(episode.endDate) : 'andauernd'}
+                        {episode.note ? <p className="text-xs text-slate-500">{episode.note}</p> : null}
+                        {episode.reportedByEmployee ? (
+                          <p className="text-xs text-sky-700">Vom Mitarbeiter im Portal gemeldet</p>
+                        ) : null}
+                      </td>
+                      <td className="px-4 py-2 text-right text-slate-700">{episode.days}</td>
+                      <td className="px-4 py-2 text-slate-700">{formatDate(episode.certificateReceivedAt)}</td>
+                      <td className="px-4 py-2 text-slate-700">
+                        {previous ? `Krankmeldung ab ${formatDate(previous.startDate)}` : '—'}
+                        {episode.continuedPayDaysBefore > 0 ? (
+                          <p className="text-xs text-slate-500">{episode.continuedPayDaysBefore} Tage angerechnet</p>
+                        ) : null}
+                      </td>
+                      <td className="px-4 py-2 text-slate-700">{describeContinuedPay(episode)}</td>
+                      <td className="px-4 py-2">
+                        {episode.documentFileName ? (
+                          <a
+                            href={`/api/documents/${employeeId}/${encodeURIComponent(episode.documentFileName)}`}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="text-brand underline"
+                          >
+                            AU öffnen
+                          </a>
+                        ) : (
+                          <span className="text-slate-400">—</span>
+                        )}
+                      </td>
+                      <td className="whitespace-nowrap px-4 py-2 text-right">
+                        <button
+                          type="button"
+                          onClick={() => setEditingId(episode.id)}
+                          className="mr-3 text-sm font-semibold text-slate-700 hover:underline"
+                        >
+                          Bearbeiten
+                        </button>
+                        <form action={deleteFormAction} className="inline">
+                          <input type="hidden" name="episode_id" value={episode.id} />
+                          <button
+                            type="submit"
+                            onClick={(event) => {
+                              if (!window.confirm('Krankmeldung löschen?')) {
+                                event.preventDefault();
+                              }
+                            }}
+                            className="text-sm font-semibold text-red-600 hover:underline"
+                          >
+                            Löschen
+                          </button>
+                        </form>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">Noch keine Krankmeldungen erfasst.</p>
+        )}
+      </div>
+
+      <form
+        key={editingId ?? 'new'}
+        action={saveFormAction}
+        className="space-y-4 rounded-xl border border-slate-200 bg-white p-4 text-sm text-slate-700 shadow-sm"
+      >
+        <div className="flex items-center justify-between gap-3">
+          <h3 className="font-semibold text-slate-900">
+            {editing ? `Krankmeldung ab ${formatDate(editing.startDate)} bearbeiten` : 'Neue Krankmeldung'}
+          </h3>
+          {editing ? (
+            <button
+              type="button"
+              onClick={() => setEditingId(null)}
+              className="text-sm font-semibold text-slate-600 hover:underline"
+            >
+              Abbrechen
+            </button>
+          ) : null}
+        </div>
+        <Feedback state={saveState} />
+        <input type="hidden" name="employee_id" value={employeeId} />
+        {editing ? <input type="hidden" name="episode_id" value={editing.id} /> : null}
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          <label className="flex flex-col gap-1">
+            <span>Erster Krankheitstag</span>
+            <input
+              type="date"
+              name="start_date"
+              required
+              defaultValue={editing?.startDate ?? ''}
+              className="rounded-md border border-slate-300 px-3 py-1"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span>Letzter Krankheitstag</span>
+            <input
+              type="date"
+              name="end_date"
+              defaultValue={editing?.endDate ?? ''}
+              className="rounded-md border border-slate-300 px-3 py-1"
+            />
+            <span className="text-xs text-slate-500">Leer lassen, solange die Krankheit andauert.</span>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span>AU / eAU eingegangen am</span>
+            <input
+              type="date"
+              name="certificate_received_at"
+              defaultValue={editing?.certificateReceivedAt ?? ''}
+              className="rounded-md border border-slate-300 px-3 py-1"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span>Fortsetzung von</span>
+            <select
+              name="continues_episode_id"
+              defaultValue={editing?.continuesEpisodeId ?? ''}
+              className="rounded-md border border-slate-300 px-3 py-1"
+            >
+              <option value="">— neue Erkrankung —</option>
+              {linkOptions.map((episode) => (
+                <option key={episode.id} value={episode.id}>
+                  {formatDate(episode.startDate)} – {episode.endDate ? formatDate(episode.endDate) : 'andauernd'}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="grid gap-3 sm:grid-cols-2">
+          <label className="flex flex-col gap-1">
+            <span>AU-Bescheinigung (PDF, PNG, JPG)</span>
+            <input
+              type="file"
+              name="document"
+              accept=".pdf,.png,.jpg,.jpeg"
+              className="rounded-md border border-dashed border-slate-300 px-3 py-2 text-sm text-slate-600"
+            />
+            {editing?.documentFileName ? (
+              <span className="text-xs text-slate-500">Eine neue Datei ersetzt die Verknüpfung zur bisherigen.</span>
+            ) : null}
+          </label>
+          <label className="flex flex-col gap-1">
+            <span>Notiz</span>
+            <textarea
+              name="note"
+              rows={2}
+              maxLength={500}
+              defaultValue={editing?.note ?? ''}
+              className="rounded-md border border-slate-300 px-3 py-1"
+            />
+          </label>
+        </div>
+        <SubmitButton label={editing ? 'Änderungen speichern' : 'Krankmeldung erfassen'} />
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { revalidatePath } from 'next/cache';
+import { redirect } from 'next/navigation';
+
+import { getServerAuthSession } from '@/lib/auth/session';
+import { withAppBasePath } from '@/lib/routes';
+import { removeSickLeaveEpisode, saveSickLeaveEpisode } from '@/lib/services/sick-leave';
+
+import type { SickLeaveFormState } from './types';
+
+export function ensureAdmin(session: Awaited<ReturnType<typeof getServerAuthSession>>) {
+  if (!session?.user) {
+    redirect(withAppBasePath('/login'));
+  }
+  if (session.user.roleId !== 2) {
+    redirect(withAppBasePath('/mitarbeiter'));
+  }
+}
+
+function readOptionalDate(formData: FormData, key: string): string | null {
+  const value = String(formData.get(key) ?? '').trim();
+  return value || null;
+}
+
+function readOptionalId(formData: FormData, key: string): number | null {
+  const value = Number.parseInt(String(formData.get(key) ?? ''), 10);
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+export async function saveSickLeaveEpisodeAction(
+  prevState: SickLeaveFormState,
+  formData: FormData
+): Promise<SickLeaveFormState> {
+  'use server';
+
+  const session = await getServerAuthSession();
+  ensureAdmin(session);
+
+  const tenantId = session?.tenantId;
+  if (!tenantId) {
+    redirect(withAppBasePath('/login'));
+  }
+
+  const employeeId = readOptionalId(formData, 'employee_id');
+  if (!employeeId) {
+    return { status: 'error', message: 'Bitte einen Mitarbeiter auswählen.' };
+  }
+  const id = readOptionalId(formData, 'episode_id');
+  const document = formData.get('document');
+
+  try {
+    await saveSickLeaveEpisode(tenantId, {
+      id,
+      employeeId,
+      startDate: String(formData.get('start_date') ?? '').trim(),
+      endDate: readOptionalDate(formData, 'end_date'),
+      certificateReceivedAt: readOptionalDate(formData, 'certificate_received_at'),
+      continuesEpisodeId: readOptionalId(formData, 'continues_episode_id'),
+      note: String(formData.get('note') ?? ''),
+      document: document instanceof File ? document : null,
+    });
+  } catch (error) {
+    return {
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Die Krankmeldung konnte nicht gespeichert werden.',
+    };
+  }
+
+  revalidatePath(withAppBasePath('/admin/krankheit'));
+  return { status: 'success', message: id ? 'Krankmeldung aktualisiert.' : 'Krankmeldung erfasst.' };
+}
+
+export async function deleteSickLeaveEpisodeAction(
+  prevState: SickLeaveFormState,
+  formData: FormData
+): Promise<SickLeaveFormState> {
+  'use server';
+
+  const session = await getServerAuthSession();
+  ensureAdmin(session);
+
+  const tenantId = session?.tenantId;
+  if (!tenantId) {
+    redirect(withAppBasePath('/login'));
+  }
+
+  const id = readOptionalId(formData, 'episode_id');
+  if (!id) {
+    return { status: 'error', message: 'Ungültige Krankmeldung.' };
+  }
+
+  try {
+    await removeSickLeaveEpisode(tenantId, id);
+  } catch (error) {
+    return {
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Die Krankmeldung konnte nicht gelöscht werden.',
+    };
+  }
+
+  revalidatePath(withAppBasePath('/admin/krankheit'));
+  return { status: 'success', message: 'Krankmeldung gelöscht. Das AU-Dokument bleibt unter Dokumente erhalten.' };
+}
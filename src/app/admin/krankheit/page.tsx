@@ -0,0 +1,122 @@
+import { getServerAuthSession } from '@/lib/auth/session';
+import { getAdminEmployeeList } from '@/lib/services/admin/employee';
+import {
+  BEM_THRESHOLD_DAYS,
+  CONTINUED_PAY_DAYS,
+  getSickLeaveEpisodesForEmployee,
+  getSickLeaveWarnings,
+} from '@/lib/services/sick-leave';
+
+import SickLeaveEpisodesPanel from './SickLeaveEpisodesPanel';
+import { deleteSickLeaveEpisodeAction, ensureAdmin, saveSickLeaveEpisodeAction } from './actions';
+import type { SickLeaveFormState } from './types';
+
+type SearchParams = {
+  employeeId?: string;
+};
+
+const INITIAL_FORM_STATE: SickLeaveFormState = {};
+
+const WARNING_STYLES = {
+  'continued-pay-ending': 'border-amber-200 bg-amber-50 text-amber-800',
+  'continued-pay-exhausted': 'border-red-200 bg-red-50 text-red-700',
+  bem: 'border-sky-200 bg-sky-50 text-sky-800',
+} as const;
+
+export default async function AdminKrankheitPage({ searchParams }: { searchParams?: Promise<SearchParams> }) {
+  const session = await getServerAuthSession();
+  ensureAdmin(session);
+
+  const tenantId = session?.tenantId;
+  if (!tenantId) {
+    throw new Error('Tenant-Kontext fehlt.');
+  }
+
+  const resolved = searchParams ? await searchParams : undefined;
+  const employees = await getAdminEmployeeList(tenantId);
+  const preferredEmployeeId = Number.parseInt(resolved?.employeeId ?? '', 10);
+  const employee = employees.find((item) => item.id === preferredEmployeeId) ?? null;
+
+  const warnings = await getSickLeaveWarnings(tenantId);
+  const episodes = employee ? await getSickLeaveEpisodesForEmployee(tenantId, employee.id) : [];
+
+  return (
+    <section className="space-y-6">
+      <header className="space-y-1">
+        <h2 className="text-2xl font-semibold text-slate-900">Krankheit</h2>
+        <p className="text-sm text-slate-500">
+          Krankmeldungen mit AU-Eingang und Dokument. Die Entgeltfortzahlung läuft {CONTINUED_PAY_DAYS} Kalendertage
+          je Erkrankung; eine Fortsetzungserkrankung wird mit der früheren Krankmeldung verknüpft und zählt mit. Nach
+          sechs Monaten ohne diese Erkrankung oder zwölf Monaten seit ihrem Beginn beginnt ein neuer Zeitraum. Ab mehr
+          als {BEM_THRESHOLD_DAYS} Krankheitstagen in zwölf Monaten wird auf das BEM hingewiesen. Meldet sich ein
+          Mitarbeiter im Portal krank, werden seine geplanten Schichten als krank markiert und die Kranktage
+          eingetragen; sonst werden die Kranktage weiterhin in der Tageserfassung erfasst.
+        </p>
+      </header>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-slate-900">Hinweise</h3>
+        {warnings.length ? (
+          <ul className="space-y-2">
+            {warnings.map((warning, index) => (
+              <li
+                key={`${warning.employeeId}-${warning.kind}-${index}`}
+                className={`rounded-lg border px-4 py-2 text-sm ${WARNING_STYLES[warning.kind]}`}
+              >
+                <a href={`?employeeId=${warning.employeeId}`} className="font-semibold underline">
+                  {warning.employeeName ?? `Mitarbeiter ${warning.employeeId}`}
+                </a>
+                : {warning.message}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="rounded-lg border border-emerald-200 bg-emerald-50 px-4 py-2 text-sm text-emerald-700">
+            Keine offenen Hinweise.
+          </p>
+        )}
+      </div>
+
+      <form
+        method="get"
+        className="flex flex-wrap items-end gap-3 rounded-xl border border-slate-200 bg-white p-4 text-sm text-slate-700 shadow-sm"
+      >
+        <label className="flex flex-col gap-1">
+          <span>Mitarbeiter</span>
+          <select
+            name="employeeId"
+            defaultValue={employee?.id ?? ''}
+            className="min-w-64 rounded-md border border-slate-300 px-3 py-1"
+          >
+            <option value="">— auswählen —</option>
+            {employees.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.displayName}
+                {item.isActive ? '' : ' (inaktiv)'}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="submit"
+          className="rounded-md bg-brand px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-brand/90"
+        >
+          Anzeigen
+        </button>
+      </form>
+
+      {employee ? (
+        <SickLeaveEpisodesPanel
+          key={employee.id}
+          employeeId={employee.id}
+          employeeName={employee.displayName}
+          episodes={episodes}
+          saveAction={saveSickLeaveEpisodeAction}
+          saveInitialState={INITIAL_FORM_STATE}
+          deleteAction={deleteSickLeaveEpisodeAction}
+          deleteInitialState={INITIAL_FORM_STATE}
+        />
+      ) : null}
+    </section>
+  );
+}
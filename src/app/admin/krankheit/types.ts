@@ -0,0 +1,4 @@
+export type SickLeaveFormState = {
+  status?: 'success' | 'error';
+  message?: string;
+};
@@ -9,6 +9,7 @@ import { getServerAuthSession } from '@/lib/auth/session';
 import { withAppBasePath } from '@/lib/routes';
 import { countUnseenEmployeeDocuments } from '@/lib/services/documents';
 import { countPendingLeaveRequests } from '@/lib/services/leave-requests';
+import { countPendingTimeCorrectionRequests } from '@/lib/services/time-correction-requests';
 
 const NAV_ITEMS = [
   { href: '/admin', label: 'Übersicht' },
@@ -16,9 +17,19 @@ const NAV_ITEMS = [
   { href: '/admin/dokumente', label: 'Dokumente' },
   { href: '/admin/monatsabschluss', label: 'Monatsabschluss' },
   { href: '/admin/antraege', label: 'Anträge' },
+  { href: '/admin/krankheit', label: 'Krankheit' },
   { href: '/admin/urlaubsplan', label: 'Urlaubsplan' },
   { href: '/admin/news', label: 'News' },
   { href: '/admin/erinnerungen', label: 'Erinnerungen' },
+  { href: '/admin/zuschlaege', label: 'Zuschläge' },
+  { href: '/admin/zeitrundung', label: 'Zeitrundung' },
+  { href: '/admin/ampelkonto', label: 'Ampelkonto' },
+  { href: '/admin/zeitimport', label: 'Zeitimport' },
+  { href: '/admin/abwesenheitscodes', label: 'Codes' },
+  { href: '/admin/arbeitszeitgesetz', label: 'ArbZG' },
+  { href: '/admin/verdienstgrenzen', label: 'Minijob' },
+  { href: '/admin/soll-ist', label: 'Soll/Ist' },
+  { href: '/admin/besetzung', label: 'Personalbedarf' },
 ];
 
 function resolveTenantLabel(host: string | null): string | null {
@@ -51,7 +62,8 @@ export default async function AdminLayout({
   }
 
   const unseenDocuments = await countUnseenEmployeeDocuments(tenantId, session.user.id);
-  const pendingRequests = await countPendingLeaveRequests(tenantId);
+  const pendingRequests =
+    (await countPendingLeaveRequests(tenantId)) + (await countPendingTimeCorrectionRequests(tenantId));
   const headersList = await headers();
   const host = headersList.get('host');
   const tenantLabel = resolveTenantLabel(host);
@@ -249,6 +249,7 @@ export default function AdminEmployeeListClient({
               <option value="befristet">Befristet</option>
               <option value="unbefristet">Unbefristet</option>
               <option value="minijob">Minijob</option>
+              <option value="midijob">Midijob</option>
               <option value="werkstudent">Werkstudent</option>
               <option value="teilzeit">Teilzeit</option>
               <option value="vollzeit">Vollzeit</option>
@@ -18,6 +18,11 @@ import type {
   MonthlyClosingState,
 } from '@/lib/services/admin/monthly-closing';
 import type { DailyDaySummary } from '@/lib/data/daily-days';
+import type { DailyDayHistoryItem } from '@/lib/services/daily-day-history';
+import type { AbsenceCodeDefinition } from '@/lib/services/absence-codes';
+import type { EmployeeChildSickDayProfile } from '@/lib/services/child-sick-days';
+import type { EmploymentContractVersion } from '@/lib/services/employment-contracts';
+import type { OvertimeBalanceHistory } from '@/lib/services/overtime-traffic-light';
 import type { ShiftPlanDay } from '@/lib/services/shift-plan';
 import type { VacationCarryNotificationRow } from '@/lib/data/vacation-carry-notifications';
 import { FEDERAL_STATE_OPTIONS } from '@/lib/constants/federal-states';
@@ -28,8 +33,12 @@ import MonthlySummaryPanel from './MonthlySummaryPanel';
 import MonthlyClosingPanel from './MonthlyClosingPanel';
 import AdminTimeEntriesPanel from './AdminTimeEntriesPanel';
 import AdminMandatoryPausePanel from './AdminMandatoryPausePanel';
+import ChildSickDaysPanel from './ChildSickDaysPanel';
+import EmploymentContractsPanel from './EmploymentContractsPanel';
+import OvertimeHistoryPanel from './OvertimeHistoryPanel';
 import { useActionRefresh } from './useRefreshEffect';
 import type { EntryActionState } from '@/app/mitarbeiter/types';
+import DailyDayHistoryTimeline from '@/app/mitarbeiter/monatsuebersicht/DailyDayHistoryTimeline';
 
 const YES_NO_OPTIONS = ['Nein', 'Ja'];
 const MANDATORY_PAUSE_MINUTES_OPTIONS = [15, 30, 45, 60, 90, 120] as const;
@@ -197,8 +206,13 @@ type Props = {
   monthlyClosing: MonthlyClosingState;
   monthlyClosingHistory: MonthlyClosingHistoryItem[];
   timeEntries: DailyDaySummary[];
+  dayHistory: DailyDayHistoryItem[];
   closedMonths: string[];
   shiftPlan: Record<string, ShiftPlanDay>;
+  absenceCodes: AbsenceCodeDefinition[];
+  contracts: EmploymentContractVersion[];
+  childSickDays: EmployeeChildSickDayProfile;
+  overtimeHistory: OvertimeBalanceHistory;
   requiresMealFlag: boolean;
   minPauseUnder6Minutes: number;
   mandatoryPauseMinWorkMinutes: number;
@@ -242,8 +256,14 @@ type Props = {
   createTimeEntryInitialState: EntryActionState;
   deleteTimeEntryAction: (prev: EntryActionState, formData: FormData) => Promise<EntryActionState>;
   deleteTimeEntryInitialState: EntryActionState;
+  revertTimeEntryAction: (prev: EntryActionState, formData: FormData) => Promise<EntryActionState>;
+  revertTimeEntryInitialState: EntryActionState;
   mandatoryPauseAction: (prev: ActionState, formData: FormData) => Promise<ActionState>;
   mandatoryPauseInitialState: ActionState;
+  employmentContractAction: (prev: ActionState, formData: FormData) => Promise<ActionState>;
+  employmentContractInitialState: ActionState;
+  childSickDaysAction: (prev: ActionState, formData: FormData) => Promise<ActionState>;
+  childSickDaysInitialState: ActionState;
   summaryPreferencesAction: (prev: ActionState, formData: FormData) => Promise<ActionState>;
   summaryPreferencesInitialState: ActionState;
   bonusPayoutAction: (prev: ActionState, formData: FormData) => Promise<ActionState>;
@@ -271,8 +291,13 @@ export default function AdminEmployeeDetailClient({
   monthlyClosing,
   monthlyClosingHistory,
   timeEntries,
+  dayHistory,
   closedMonths,
   shiftPlan,
+  absenceCodes,
+  contracts,
+  childSickDays,
+  overtimeHistory,
   requiresMealFlag,
   minPauseUnder6Minutes,
   mandatoryPauseMinWorkMinutes,
@@ -294,8 +319,14 @@ export default function AdminEmployeeDetailClient({
   createTimeEntryInitialState,
   deleteTimeEntryAction,
   deleteTimeEntryInitialState,
+  revertTimeEntryAction,
+  revertTimeEntryInitialState,
   mandatoryPauseAction,
   mandatoryPauseInitialState,
+  employmentContractAction,
+  employmentContractInitialState,
+  childSickDaysAction,
+  childSickDaysInitialState,
   summaryPreferencesAction,
   summaryPreferencesInitialState,
   bonusPayoutAction,
@@ -996,6 +1027,7 @@ export default function AdminEmployeeDetailClient({
         balanceAction={overtimeBalanceAction}
         balanceInitialState={overtimeBalanceInitialState}
       />
+      <OvertimeHistoryPanel history={overtimeHistory} />
       <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
         <h2 className="text-lg font-semibold text-slate-900">Aktivität: Resturlaub-Verfall</h2>
         <p className="mt-1 text-sm text-slate-600">
@@ -1040,6 +1072,18 @@ export default function AdminEmployeeDetailClient({
           <p className="mt-3 text-sm text-slate-500">Noch keine Benachrichtigung protokolliert.</p>
         )}
       </section>
+      <EmploymentContractsPanel
+        employeeId={selectedEmployeeId}
+        contracts={contracts}
+        action={employmentContractAction}
+        initialState={employmentContractInitialState}
+      />
+      <ChildSickDaysPanel
+        employeeId={selectedEmployeeId}
+        profile={childSickDays}
+        action={childSickDaysAction}
+        initialState={childSickDaysInitialState}
+      />
         </>
       ) : null}
       {activeTab === 'closing' ? (
@@ -1070,8 +1114,26 @@ export default function AdminEmployeeDetailClient({
           createInitialState={createTimeEntryInitialState}
           deleteAction={deleteTimeEntryAction}
           deleteInitialState={deleteTimeEntryInitialState}
+          absenceCodes={absenceCodes}
         />
       ) : null}
+      {activeTab === 'time' ? (
+        <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+          <h2 className="text-lg font-semibold text-slate-900">Änderungsverlauf</h2>
+          <p className="mb-4 mt-1 text-sm text-slate-600">
+            Alle Änderungen an Tageseinträgen im ausgewählten Monat, neueste zuerst. Frühere Stände lassen sich
+            wiederherstellen; die Wiederherstellung wird selbst protokolliert.
+          </p>
+          <DailyDayHistoryTimeline
+            items={dayHistory}
+            revert={{
+              employeeId: selectedEmployeeId,
+              action: revertTimeEntryAction,
+              initialState: revertTimeEntryInitialState,
+            }}
+          />
+        </section>
+      ) : null}
       {activeTab === 'mandatory' && mandatoryPauseEnabled ? (
         localMandatoryPauseEnabled ? (
           <AdminMandatoryPausePanel
@@ -1398,6 +1460,11 @@ export default function AdminEmployeeDetailClient({
                     >
                       <option value="befristet">Befristet</option>
                       <option value="unbefristet">Unbefristet</option>
+                      <option value="minijob">Minijob</option>
+                      <option value="midijob">Midijob</option>
+                      <option value="werkstudent">Werkstudent</option>
+                      <option value="teilzeit">Teilzeit</option>
+                      <option value="vollzeit">Vollzeit</option>
                     </select>
                   </label>
                   <label className="flex flex-col gap-1 text-sm text-slate-700">
@@ -1,6 +1,7 @@
 'use client';
 
 import type { DailyDaySummary } from '@/lib/data/daily-days';
+import type { AbsenceCodeDefinition } from '@/lib/services/absence-codes';
 import type { ShiftPlanDay } from '@/lib/services/shift-plan';
 import EmployeeEntriesSection from '@/app/mitarbeiter/EmployeeEntriesSection';
 import type { EntryActionState } from '@/app/mitarbeiter/types';
@@ -19,6 +20,7 @@ type Props = {
   createInitialState: EntryActionState;
   deleteAction: (prevState: EntryActionState, formData: FormData) => Promise<EntryActionState>;
   deleteInitialState: EntryActionState;
+  absenceCodes: AbsenceCodeDefinition[];
 };
 
 export default function AdminTimeEntriesPanel({
@@ -35,6 +37,7 @@ export default function AdminTimeEntriesPanel({
   createInitialState,
   deleteAction,
   deleteInitialState,
+  absenceCodes,
 }: Props) {
   const hiddenFields = {
     employeeId: String(employeeId),
@@ -62,6 +65,7 @@ export default function AdminTimeEntriesPanel({
         deleteAction={deleteAction}
         deleteInitialState={deleteInitialState}
         hiddenFields={hiddenFields}
+        absenceCodes={absenceCodes}
       />
     </section>
   );
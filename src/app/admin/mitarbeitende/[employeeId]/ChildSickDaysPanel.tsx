@@ -0,0 +1,169 @@
+'use client';
+
+import { useActionState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useFormStatus } from 'react-dom';
+
+import type { EmployeeChildSickDayProfile } from '@/lib/services/child-sick-days';
+
+import type { ActionState } from './types';
+import { useActionRefresh } from './useRefreshEffect';
+
+type Props = {
+  employeeId: number;
+  profile: EmployeeChildSickDayProfile;
+  action: (prevState: ActionState, formData: FormData) => Promise<ActionState>;
+  initialState: ActionState;
+};
+
+function IntentButton({
+  intent,
+  label,
+  variant = 'primary',
+  confirmMessage,
+}: {
+  intent: 'add_child' | 'remove_child' | 'single_parent';
+  label: string;
+  variant?: 'primary' | 'secondary';
+  confirmMessage?: string;
+}) {
+  const { pending } = useFormStatus();
+  const className =
+    variant === 'primary'
+      ? 'rounded-md bg-brand px-3 py-1.5 text-sm font-semibold text-white shadow-sm disabled:cursor-not-allowed disabled:opacity-60'
+      : 'rounded-md border border-slate-300 px-3 py-1 text-xs font-semibold text-slate-700 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60';
+  return (
+    <button
+      type="submit"
+      name="intent"
+      value={intent}
+      disabled={pending}
+      onClick={(event) => {
+        if (confirmMessage && !window.confirm(confirmMessage)) {
+          event.preventDefault();
+        }
+      }}
+      className={className}
+    >
+      {label}
+    </button>
+  );
+}
+
+function formatDays(value: number): string {
+  return value.toLocaleString('de-DE', { maximumFractionDigits: 1 });
+}
+
+export default function ChildSickDaysPanel({ employeeId, profile, action, initialState }: Props) {
+  const router = useRouter();
+  const [state, formAction] = useActionState(action, initialState);
+  const { balance, children, singleParent } = profile;
+
+  useActionRefresh(state, () => router.refresh());
+
+  return (
+    <section className="space-y-4 rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+      <header>
+        <h2 className="text-lg font-semibold text-slate-900">Kinderkrankentage {balance.year}</h2>
+        <p className="text-sm text-slate-500">
+          Anspruch je Kind bis 12 Jahre ({formatDays(balance.perChildDays)} Tage, höchstens{' '}
+          {formatDays(balance.capDays)} Tage{balance.singleParent ? ', alleinerziehend' : ''}). Verbraucht werden Tage
+          mit KK, KKR oder Kinderkrank-Stunden.
+        </p>
+      </header>
+
+      <dl className="grid gap-3 text-sm sm:grid-cols-4">
+        <div className="rounded-lg bg-slate-50 p-3">
+          <dt className="text-xs uppercase tracking-wide text-slate-500">Berechtigte Kinder</dt>
+          <dd className="text-lg font-semibold text-slate-900">{balance.eligibleChildren}</dd>
+        </div>
+        <div className="rounded-lg bg-slate-50 p-3">
+          <dt className="text-xs uppercase tracking-wide text-slate-500">Anspruch</dt>
+          <dd className="text-lg font-semibold text-slate-900">{formatDays(balance.entitlementDays)} Tage</dd>
+        </div>
+        <div className="rounded-lg bg-slate-50 p-3">
+          <dt className="text-xs uppercase tracking-wide text-slate-500">Genommen</dt>
+          <dd className="text-lg font-semibold text-slate-900">{formatDays(balance.usedDays)} Tage</dd>
+        </div>
+        <div className="rounded-lg bg-slate-50 p-3">
+          <dt className="text-xs uppercase tracking-wide text-slate-500">Rest</dt>
+          <dd className="text-lg font-semibold text-slate-900">{formatDays(balance.remainingDays)} Tage</dd>
+        </div>
+      </dl>
+
+      {balance.exceededDays > 0 ? (
+        <p className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          Der Anspruch für {balance.year} ist um {formatDays(balance.exceededDays)} Tage überschritten. Diese Tage sind
+          nicht durch Kinderkrankengeld gedeckt.
+        </p>
+      ) : null}
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-slate-900">Kinder (Geburtsjahr)</h3>
+          {children.length ? (
+            <ul className="divide-y divide-slate-100 rounded-lg border border-slate-200 text-sm">
+              {children.map((child) => (
+                <li key={child.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                  <span className="text-slate-700">
+                    {child.birth_year}
+                    {!child.eligible ? (
+                      <span className="ml-2 text-xs text-slate-400">ohne Anspruch</span>
+                    ) : null}
+                  </span>
+                  <form action={formAction}>
+                    <input type="hidden" name="employeeId" value={employeeId} />
+                    <input type="hidden" name="childId" value={child.id} />
+                    <IntentButton
+                      intent="remove_child"
+                      label="Entfernen"
+                      variant="secondary"
+                      confirmMessage={`Kind mit Geburtsjahr ${child.birth_year} entfernen?`}
+                    />
+                  </form>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-slate-500">Noch keine Kinder hinterlegt.</p>
+          )}
+          <form action={formAction} className="flex flex-wrap items-end gap-3 text-sm text-slate-700">
+            <input type="hidden" name="employeeId" value={employeeId} />
+            <label className="flex flex-col gap-1">
+              <span>Geburtsjahr</span>
+              <input
+                type="number"
+                name="birthYear"
+                required
+                className="w-28 rounded-md border border-slate-300 px-3 py-1"
+              />
+            </label>
+            <IntentButton intent="add_child" label="Kind hinzufügen" />
+          </form>
+        </div>
+
+        <form key={String(singleParent)} action={formAction} className="space-y-3 text-sm text-slate-700">
+          <input type="hidden" name="employeeId" value={employeeId} />
+          <h3 className="text-sm font-semibold text-slate-900">Familienstand</h3>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" name="singleParent" defaultChecked={singleParent} className="h-4 w-4" />
+            alleinerziehend
+          </label>
+          <IntentButton intent="single_parent" label="Speichern" />
+        </form>
+      </div>
+
+      {state?.message ? (
+        <p
+          className={`rounded-md border px-3 py-2 text-sm ${
+            state.status === 'success'
+              ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+              : 'border-red-200 bg-red-50 text-red-700'
+          }`}
+        >
+          {state.message}
+        </p>
+      ) : null}
+    </section>
+  );
+}
@@ -24,10 +24,7 @@ export function DailyOverviewTable({
           <tr>
             <th className="px-4 py-2">Datum</th>
             <th className="px-4 py-2">Brutto (€)</th>
-            <th className="px-4 py-2">Kommt 1</th>
-            <th className="px-4 py-2">Geht 1</th>
-            <th className="px-4 py-2">Kommt 2</th>
-            <th className="px-4 py-2">Geht 2</th>
+            <th className="px-4 py-2">Kommt – Geht</th>
             <th className="px-4 py-2">Pause</th>
             {showMealColumn ? <th className="px-4 py-2">Verpflegung</th> : null}
             <th className="px-4 py-2">IST (h)</th>
@@ -48,10 +45,24 @@ export function DailyOverviewTable({
               <tr key={entry.isoDate} className="hover:bg-slate-50">
                 <td className="px-4 py-2 font-medium text-slate-900">{entry.displayDate}</td>
                 <td className="px-4 py-2 text-slate-800">{entry.bruttoFormatted}</td>
-                <td className="px-4 py-2 text-slate-900">{entry.kommt1 ?? '—'}</td>
-                <td className="px-4 py-2 text-slate-900">{entry.geht1 ?? '—'}</td>
-                <td className="px-4 py-2 text-slate-900">{entry.kommt2 ?? '—'}</td>
-                <td className="px-4 py-2 text-slate-900">{entry.geht2 ?? '—'}</td>
+                <td className="px-4 py-2 text-slate-900">
+                  {entry.segments.length ? (
+                    <div className="flex flex-col">
+                      {entry.segments.map((segment, index) => (
+                        <span key={index} className="whitespace-nowrap">
+                          {segment.kommt ?? '—'} – {segment.geht ?? '—'}
+                          {segment.kommtRaw || segment.gehtRaw ? (
+                            <span className="ml-1 text-xs text-slate-500">
+                              (gestempelt {segment.kommtRaw ?? segment.kommt ?? '—'} – {segment.gehtRaw ?? segment.geht ?? '—'})
+                            </span>
+                          ) : null}
+                        </span>
+                      ))}
+                    </div>
+                  ) : (
+                    '—'
+                  )}
+                </td>
                 <td className="px-4 py-2 text-slate-900">{entry.pause ?? 'Keine'}</td>
                 {showMealColumn ? (
                   <td className="px-4 py-2 text-slate-900">{entry.mittag ?? '—'}</td>
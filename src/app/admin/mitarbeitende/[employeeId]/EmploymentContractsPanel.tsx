@@ -0,0 +1,239 @@
+'use client';
+
+import { useActionState, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useFormStatus } from 'react-dom';
+
+import type { EmploymentContractVersion } from '@/lib/services/employment-contracts';
+
+import type { ActionState } from './types';
+import { useActionRefresh } from './useRefreshEffect';
+
+type Props = {
+  employeeId: number;
+  contracts: EmploymentContractVersion[];
+  action: (prevState: ActionState, formData: FormData) => Promise<ActionState>;
+  initialState: ActionState;
+};
+
+const INPUT_CLASS = 'rounded-md border border-slate-300 px-3 py-1';
+
+const numberFormatter = new Intl.NumberFormat('de-DE', { maximumFractionDigits: 2 });
+const currencyFormatter = new Intl.NumberFormat('de-DE', { style: 'currency', currency: 'EUR' });
+
+function formatDate(iso: string | null): string {
+  if (!iso) return 'offen';
+  const [year, month, day] = iso.split('-');
+  return year && month && day ? `${day}.${month}.${year}` : iso;
+}
+
+function formatPay(contract: EmploymentContractVersion): string {
+  return contract.compensationType === 'fixed'
+    ? `${currencyFormatter.format(Number(contract.monthlySalaryGross ?? 0))} / Monat`
+    : `${currencyFormatter.format(Number(contract.hourlyWage ?? 0))} / Std.`;
+}
+
+function IntentButton({
+  intent,
+  label,
+  confirmMessage,
+}: {
+  intent: 'save' | 'delete';
+  label: string;
+  confirmMessage?: string;
+}) {
+  const { pending } = useFormStatus();
+  const className =
+    intent === 'save'
+      ? 'rounded-md bg-brand px-3 py-1.5 text-sm font-semibold text-white shadow-sm disabled:cursor-not-allowed disabled:opacity-60'
+      : 'rounded-md border border-slate-300 px-3 py-1 text-xs font-semibold text-slate-700 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60';
+  return (
+    <button
+      type="submit"
+      name="intent"
+      value={intent}
+      disabled={pending}
+      onClick={(event) => {
+        if (confirmMessage && !window.confirm(confirmMessage)) {
+          event.preventDefault();
+        }
+      }}
+      className={className}
+    >
+      {label}
+    </button>
+  );
+}
+
+export default function EmploymentContractsPanel({ employeeId, contracts, action, initialState }: Props) {
+  const router = useRouter();
+  const [state, formAction] = useActionState(action, initialState);
+  const latest = contracts[contracts.length - 1] ?? null;
+  const [compensationType, setCompensationType] = useState<'hourly' | 'fixed'>(latest?.compensationType ?? 'hourly');
+
+  useActionRefresh(state, () => router.refresh());
+
+  return (
+    <section className="space-y-4 rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+      <header>
+        <h2 className="text-lg font-semibold text-slate-900">Vertragsstände</h2>
+        <p className="text-sm text-slate-500">
+          Jeder Stand gilt ab seinem Datum bis zum nächsten. Überstunden (Sollstunden bei Abwesenheit ohne Schicht),
+          Urlaubsanspruch und Lohnexport verwenden für jeden Tag den Stand, der an diesem Tag galt. Änderungen im
+          Personalstamm werden als neuer Stand ab heute gespeichert.
+        </p>
+      </header>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-slate-200 text-sm">
+          <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
+            <tr>
+              <th className="px-3 py-2 text-left font-semibold">Gültig ab</th>
+              <th className="px-3 py-2 text-left font-semibold">Gültig bis</th>
+              <th className="px-3 py-2 text-right font-semibold">Std./Woche</th>
+              <th className="px-3 py-2 text-right font-semibold">Tage/Woche</th>
+              <th className="px-3 py-2 text-right font-semibold">Vergütung</th>
+              <th className="px-3 py-2 text-right font-semibold">Urlaub/Jahr</th>
+              <th className="px-3 py-2 text-left font-semibold">Notiz</th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 text-slate-700">
+            {contracts.map((contract) => (
+              <tr key={contract.id ?? contract.validFrom}>
+                <td className="px-3 py-2">{formatDate(contract.validFrom)}</td>
+                <td className="px-3 py-2">{formatDate(contract.validUntil)}</td>
+                <td className="px-3 py-2 text-right">{numberFormatter.format(contract.weeklyHours)}</td>
+                <td className="px-3 py-2 text-right">{numberFormatter.format(contract.workdaysPerWeek)}</td>
+                <td className="px-3 py-2 text-right">{formatPay(contract)}</td>
+                <td className="px-3 py-2 text-right">{numberFormatter.format(contract.vacationDays)}</td>
+                <td className="px-3 py-2">{contract.note ?? '–'}</td>
+                <td className="px-3 py-2 text-right">
+                  {contract.id !== null && contracts.length > 1 ? (
+                    <form action={formAction}>
+                      <input type="hidden" name="employeeId" value={employeeId} />
+                      <input type="hidden" name="contractId" value={contract.id} />
+                      <IntentButton
+                        intent="delete"
+                        label="Löschen"
+                        confirmMessage={`Vertragsstand ab ${formatDate(contract.validFrom)} löschen?`}
+                      />
+                    </form>
+                  ) : null}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <form
+        key={contracts.length}
+        action={formAction}
+        className="space-y-3 rounded-lg border border-slate-200 bg-slate-50 p-4 text-sm text-slate-700"
+      >
+        <input type="hidden" name="employeeId" value={employeeId} />
+        <h3 className="text-sm font-semibold text-slate-900">Neuer Vertragsstand</h3>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col gap-1">
+            <span>Gültig ab</span>
+            <input type="date" name="validFrom" required className={INPUT_CLASS} />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span>Std./Woche</span>
+            <input
+              name="weeklyHours"
+              inputMode="decimal"
+              required
+              defaultValue={latest ? String(latest.weeklyHours).replace('.', ',') : ''}
+              className={`w-24 ${INPUT_CLASS}`}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span>Tage/Woche</span>
+            <input
+              name="workdaysPerWeek"
+              inputMode="decimal"
+              required
+              defaultValue={latest ? String(latest.workdaysPerWeek).replace('.', ',') : '5'}
+              className={`w-24 ${INPUT_CLASS}`}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span>Vergütung</span>
+            <select
+              name="compensationType"
+              value={compensationType}
+              onChange={(event) => setCompensationType(event.target.value === 'fixed' ? 'fixed' : 'hourly')}
+              className={INPUT_CLASS}
+            >
+              <option value="hourly">Stundenlohn</option>
+              <option value="fixed">Festgehalt</option>
+            </select>
+          </label>
+          {compensationType === 'fixed' ? (
+            <label className="flex flex-col gap-1">
+              <span>Monatsgehalt (€)</span>
+              <input
+                name="monthlySalaryGross"
+                inputMode="decimal"
+                required
+                defaultValue={
+                  latest?.monthlySalaryGross !== null && latest?.monthlySalaryGross !== undefined
+                    ? String(latest.monthlySalaryGross).replace('.', ',')
+                    : ''
+                }
+                className={`w-28 ${INPUT_CLASS}`}
+              />
+            </label>
+          ) : (
+            <label className="flex flex-col gap-1">
+              <span>Stundenlohn (€)</span>
+              <input
+                name="hourlyWage"
+                inputMode="decimal"
+                defaultValue={
+                  latest?.hourlyWage !== null && latest?.hourlyWage !== undefined
+                    ? String(latest.hourlyWage).replace('.', ',')
+                    : ''
+                }
+                className={`w-28 ${INPUT_CLASS}`}
+              />
+            </label>
+          )}
+          <label className="flex flex-col gap-1">
+            <span>Urlaub/Jahr</span>
+            <input
+              name="vacationDays"
+              inputMode="decimal"
+              required
+              defaultValue={latest ? String(latest.vacationDays).replace('.', ',') : ''}
+              className={`w-24 ${INPUT_CLASS}`}
+            />
+          </label>
+          <label className="flex flex-1 flex-col gap-1">
+            <span>Notiz</span>
+            <input name="note" maxLength={200} className={`min-w-48 ${INPUT_CLASS}`} />
+          </label>
+        </div>
+        <p className="text-xs text-slate-500">
+          Ein Stand mit demselben Datum wird ersetzt. Rückwirkende Stände wirken auf Tage, deren Sollstunden noch nicht
+          gespeichert sind.
+        </p>
+        <IntentButton intent="save" label="Vertragsstand speichern" />
+      </form>
+
+      {state?.message ? (
+        <p
+          className={`rounded-md border px-3 py-2 text-sm ${
+            state.status === 'success'
+              ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+              : 'border-red-200 bg-red-50 text-red-700'
+          }`}
+        >
+          {state.message}
+        </p>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,120 @@
+import type { OvertimeTrafficLightColor } from '@/lib/data/overtime-traffic-light';
+import type { OvertimeBalanceHistory } from '@/lib/services/overtime-traffic-light';
+
+type Props = {
+  history: OvertimeBalanceHistory;
+};
+
+const WIDTH = 720;
+const HEIGHT = 220;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 48 };
+
+const POINT_COLORS: Record<OvertimeTrafficLightColor, string> = {
+  green: '#059669',
+  yellow: '#d97706',
+  red: '#dc2626',
+};
+
+function formatHours(value: number): string {
+  return `${value > 0 ? '+' : ''}${value.toLocaleString('de-DE', { maximumFractionDigits: 1 })}`;
+}
+
+function formatMonth(month: string): string {
+  const [year, monthNumber] = month.split('-');
+  return `${monthNumber}/${year?.slice(2)}`;
+}
+
+export default function OvertimeHistoryPanel({ history }: Props) {
+  const { rule, points } = history;
+
+  if (!points.length) {
+    return (
+      <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+        <h2 className="text-lg font-semibold text-slate-900">Verlauf Stundenkonto</h2>
+        <p className="mt-3 text-sm text-slate-500">
+          Noch kein Verlauf vorhanden. Er entsteht bei der nächsten Neuberechnung des Stundenkontos.
+        </p>
+      </section>
+    );
+  }
+
+  const balances = points.map((point) => point.balanceHours);
+  const maxValue = Math.max(...balances, rule.redPlusHours) * 1.1;
+  const minValue = Math.min(...balances, -rule.redMinusHours) * 1.1;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const toY = (value: number) => PADDING.top + ((maxValue - value) / (maxValue - minValue || 1)) * plotHeight;
+  const toX = (index: number) =>
+    PADDING.left + (points.length === 1 ? plotWidth / 2 : (index / (points.length - 1)) * plotWidth);
+
+  const bands: Array<{ from: number; to: number; fill: string }> = [
+    { from: maxValue, to: rule.redPlusHours, fill: '#fee2e2' },
+    { from: rule.redPlusHours, to: rule.yellowPlusHours, fill: '#fef3c7' },
+    { from: rule.yellowPlusHours, to: -rule.yellowMinusHours, fill: '#d1fae5' },
+    { from: -rule.yellowMinusHours, to: -rule.redMinusHours, fill: '#fef3c7' },
+    { from: -rule.redMinusHours, to: minValue, fill: '#fee2e2' },
+  ];
+  const axisValues = [rule.redPlusHours, rule.yellowPlusHours, 0, -rule.yellowMinusHours, -rule.redMinusHours];
+  const labelEvery = Math.max(1, Math.ceil(points.length / 8));
+  const path = points
+    .map((point, index) => `${index === 0 ? 'M' : 'L'}${toX(index).toFixed(1)},${toY(point.balanceHours).toFixed(1)}`)
+    .join(' ');
+  const latest = points[points.length - 1]!;
+
+  return (
+    <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h2 className="text-lg font-semibold text-slate-900">Verlauf Stundenkonto</h2>
+        <p className="text-xs text-slate-500">
+          Saldo am Monatsende · Gelb ab {formatHours(rule.yellowPlusHours)} / {formatHours(-rule.yellowMinusHours)} Std.
+          · Rot ab {formatHours(rule.redPlusHours)} / {formatHours(-rule.redMinusHours)} Std.
+        </p>
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="mt-4 h-auto w-full"
+        role="img"
+        aria-label={`Saldo ${formatMonth(latest.month)}: ${formatHours(latest.balanceHours)} Stunden`}
+      >
+        {bands.map((band, index) => (
+          <rect
+            key={index}
+            x={PADDING.left}
+            y={toY(band.from)}
+            width={plotWidth}
+            height={Math.max(toY(band.to) - toY(band.from), 0)}
+            fill={band.fill}
+          />
+        ))}
+        <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={toY(0)} y2={toY(0)} stroke="#94a3b8" />
+        {axisValues.map((value, index) => (
+          <text
+            key={index}
+            x={PADDING.left - 6}
+            y={toY(value) + 4}
+            textAnchor="end"
+            className="fill-slate-500 text-[10px]"
+          >
+            {formatHours(value)}
+          </text>
+        ))}
+        <path d={path} fill="none" stroke="#334155" strokeWidth={2} />
+        {points.map((point, index) => (
+          <g key={point.month}>
+            <circle cx={toX(index)} cy={toY(point.balanceHours)} r={3.5} fill={POINT_COLORS[point.color]}>
+              <title>
+                {formatMonth(point.month)}: {formatHours(point.balanceHours)} Std.
+                {point.payoutBankHours > 0 ? `, Auszahlungsbank ${formatHours(point.payoutBankHours)} Std.` : ''}
+              </title>
+            </circle>
+            {index % labelEvery === 0 || index === points.length - 1 ? (
+              <text x={toX(index)} y={HEIGHT - 8} textAnchor="middle" className="fill-slate-500 text-[10px]">
+                {formatMonth(point.month)}
+              </text>
+            ) : null}
+          </g>
+        ))}
+      </svg>
+    </section>
+  );
+}
@@ -36,7 +36,28 @@ import {
   reopenMonthlyClosing,
 } from '@/lib/services/admin/monthly-closing';
 import { getShiftPlan } from '@/lib/services/shift-plan';
-import { createAdminTimeEntry, deleteAdminTimeEntry, listTimeEntries } from '@/lib/services/time-entry';
+import { getAbsenceCodeCatalog } from '@/lib/services/absence-codes';
+import {
+  getEmploymentContractTimeline,
+  removeEmploymentContractVersion,
+  saveEmploymentContractVersion,
+} from '@/lib/services/employment-contracts';
+import {
+  addEmployeeChild,
+  getEmployeeChildSickDayProfile,
+  removeEmployeeChild,
+  setEmployeeSingleParent,
+} from '@/lib/services/child-sick-days';
+import { getOvertimeBalanceHistory } from '@/lib/services/overtime-traffic-light';
+import {
+  createAdminTimeEntry,
+  deleteAdminTimeEntry,
+  listTimeEntries,
+  readSegmentsFromFormData,
+  recomputeEmployeeOvertime,
+  revertDailyDayToVersion,
+} from '@/lib/services/time-entry';
+import { getDailyDayHistoryForMonth } from '@/lib/services/daily-day-history';
 import { FEDERAL_STATE_OPTIONS, type GermanFederalStateCode } from '@/lib/constants/federal-states';
 import { getEmployeeOnboardingSubmissionSnapshot } from '@/lib/services/employee-onboarding';
 
@@ -192,10 +213,7 @@ async function createAdminTimeEntryAction(
       employeeId,
       dayDateRaw: String(formData.get('dayDate') ?? '').trim(),
       rangeEndDateRaw: parseString(formData.get('rangeEndDate')),
-      kommt1Raw: parseString(formData.get('kommt1')),
-      geht1Raw: parseString(formData.get('geht1')),
-      kommt2Raw: parseString(formData.get('kommt2')),
-      geht2Raw: parseString(formData.get('geht2')),
+      segmentsRaw: readSegmentsFromFormData(formData),
       pauseRaw: parseString(formData.get('pause')),
       codeRaw: parseString(formData.get('code')),
       mittagRaw: parseString(formData.get('mittag')),
@@ -233,7 +251,7 @@ async function deleteAdminTimeEntryAction(
     return _prevState ?? null;
   }
   try {
-    const { tenantId } = await ensureAdminSession();
+    const { tenantId, session } = await ensureAdminSession();
 
     const employeeId = Number.parseInt(String(formData.get('employeeId') ?? ''), 10);
     if (!Number.isFinite(employeeId)) {
@@ -244,6 +262,11 @@ async function deleteAdminTimeEntryAction(
       tenantId,
       employeeId,
       dayDateRaw: String(formData.get('dayDate') ?? '').trim(),
+      performedBy: {
+        type: 'admin',
+        id: session.user.id ?? null,
+        name: formatAdminName(session),
+      },
     });
 
     if (result.status === 'success') {
@@ -262,6 +285,50 @@ async function deleteAdminTimeEntryAction(
   }
 }
 
+async function revertTimeEntryAction(
+  _prevState: EntryActionState,
+  formData: FormData | null
+): Promise<EntryActionState> {
+  'use server';
+  if (!formData) {
+    return _prevState ?? null;
+  }
+  try {
+    const { tenantId, session } = await ensureAdminSession();
+
+    const employeeId = Number.parseInt(String(formData.get('employeeId') ?? ''), 10);
+    const historyId = Number.parseInt(String(formData.get('historyId') ?? ''), 10);
+    if (!Number.isFinite(employeeId) || !Number.isFinite(historyId)) {
+      return { status: 'error', message: 'Version konnte nicht gelesen werden.' };
+    }
+
+    const result = await revertDailyDayToVersion({
+      tenantId,
+      employeeId,
+      historyId,
+      performedBy: {
+        type: 'admin',
+        id: session.user.id ?? null,
+        name: formatAdminName(session),
+      },
+    });
+
+    if (result.status === 'success') {
+      revalidatePath(withAppBasePath(`/admin/mitarbeitende/${employeeId}`));
+    }
+    return result;
+  } catch (error) {
+    if (isRedirectError(error)) {
+      throw error;
+    }
+    console.error('Failed to revert admin time entry', error);
+    return {
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Eintrag konnte nicht zurückgesetzt werden.',
+    };
+  }
+}
+
 async function updateProfileAction(prevState: ActionState, formData: FormData): Promise<ActionState> {
   'use server';
   const { tenantId } = await ensureAdminSession();
@@ -579,6 +646,95 @@ async function updateMandatoryPauseScheduleAction(
   return { status: 'success', message: 'Pflichtpausen gespeichert.' };
 }
 
+async function employmentContractAction(prevState: ActionState, formData: FormData): Promise<ActionState> {
+  'use server';
+  const { tenantId } = await ensureAdminSession();
+
+  const employeeId = Number.parseInt(String(formData.get('employeeId') ?? ''), 10);
+  if (!Number.isFinite(employeeId)) {
+    return { status: 'error', message: 'Mitarbeiter-ID fehlt.' };
+  }
+  if (!(await adminEmployeeExists(tenantId, employeeId))) {
+    return { status: 'error', message: 'Mitarbeiter nicht gefunden.' };
+  }
+
+  const intent = String(formData.get('intent') ?? 'save');
+  // First day whose terms change; overtime is only recomputed from there on.
+  let changedFrom: string;
+  try {
+    if (intent === 'delete') {
+      changedFrom = await removeEmploymentContractVersion(
+        tenantId,
+        employeeId,
+        Number.parseInt(String(formData.get('contractId') ?? ''), 10)
+      );
+    } else {
+      const compensationType = String(formData.get('compensationType') ?? '') === 'fixed' ? 'fixed' : 'hourly';
+      changedFrom = String(formData.get('validFrom') ?? '').trim();
+      await saveEmploymentContractVersion(tenantId, employeeId, {
+        validFrom: changedFrom,
+        weeklyHours: parseNumber(formData.get('weeklyHours'), Number.NaN),
+        workdaysPerWeek: parseNumber(formData.get('workdaysPerWeek'), Number.NaN),
+        compensationType,
+        hourlyWage: parseNumberOrNull(formData.get('hourlyWage')),
+        monthlySalaryGross: compensationType === 'fixed' ? parseNumberOrNull(formData.get('monthlySalaryGross')) : null,
+        vacationDays: parseNumber(formData.get('vacationDays'), Number.NaN),
+        note: parseString(formData.get('note')),
+      });
+    }
+  } catch (error) {
+    return {
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Vertragsstand konnte nicht gespeichert werden.',
+    };
+  }
+
+  await recomputeEmployeeOvertime(tenantId, employeeId, changedFrom);
+  revalidatePath(withAppBasePath(`/admin/mitarbeitende/${employeeId}`));
+  return {
+    status: 'success',
+    message: intent === 'delete' ? 'Vertragsstand gelöscht.' : 'Vertragsstand gespeichert.',
+  };
+}
+
+async function childSickDaysAction(prevState: ActionState, formData: FormData): Promise<ActionState> {
+  'use server';
+  const { tenantId } = await ensureAdminSession();
+
+  const employeeId = Number.parseInt(String(formData.get('employeeId') ?? ''), 10);
+  if (!Number.isFinite(employeeId)) {
+    return { status: 'error', message: 'Mitarbeiter-ID fehlt.' };
+  }
+  if (!(await adminEmployeeExists(tenantId, employeeId))) {
+    return { status: 'error', message: 'Mitarbeiter nicht gefunden.' };
+  }
+
+  const intent = String(formData.get('intent') ?? '');
+  let message: string;
+  try {
+    if (intent === 'add_child') {
+      await addEmployeeChild(tenantId, employeeId, Number.parseInt(String(formData.get('birthYear') ?? ''), 10));
+      message = 'Kind hinzugefügt.';
+    } else if (intent === 'remove_child') {
+      await removeEmployeeChild(tenantId, employeeId, Number.parseInt(String(formData.get('childId') ?? ''), 10));
+      message = 'Kind entfernt.';
+    } else if (intent === 'single_parent') {
+      await setEmployeeSingleParent(tenantId, employeeId, formData.get('singleParent') === 'on');
+      message = 'Angabe zu Alleinerziehend gespeichert.';
+    } else {
+      return { status: 'error', message: 'Ungültige Aktion.' };
+    }
+  } catch (error) {
+    return {
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Kinderkrankentage konnten nicht gespeichert werden.',
+    };
+  }
+
+  revalidatePath(withAppBasePath(`/admin/mitarbeitende/${employeeId}`));
+  return { status: 'success', message };
+}
+
 async function saveSummaryPreferencesAction(
   prevState: ActionState,
   formData: FormData
@@ -917,8 +1073,17 @@ export default async function AdminEmployeeDetailPage({
   );
   const monthlyClosingHistory = await getMonthlyClosingHistory(employeeId, 12);
   const timeEntries = await listTimeEntries(employeeId);
+  const dayHistory = await getDailyDayHistoryForMonth(
+    employeeId,
+    dailyOverview.selectedYear,
+    dailyOverview.selectedMonth
+  );
   const validationProfile = await getAdminEmployeeValidationInfo(tenantId, employeeId);
   const shiftPlan = await getShiftPlan(employeeId);
+  const absenceCodes = await getAbsenceCodeCatalog(tenantId);
+  const contracts = await getEmploymentContractTimeline(tenantId, employeeId);
+  const childSickDays = await getEmployeeChildSickDayProfile(tenantId, employeeId, dailyOverview.selectedYear);
+  const overtimeHistory = await getOvertimeBalanceHistory(tenantId, employeeId);
   const { closedMonths, vacationCarryNotifications } = await getAdminEmployeeSummaryReadBlock(
     tenantId,
     employeeId
@@ -959,8 +1124,13 @@ export default async function AdminEmployeeDetailPage({
       monthlyClosing={monthlyClosing}
       monthlyClosingHistory={monthlyClosingHistory}
       timeEntries={timeEntries}
+      dayHistory={dayHistory}
       closedMonths={closedMonths}
       shiftPlan={shiftPlan.days}
+      absenceCodes={absenceCodes}
+      contracts={contracts}
+      childSickDays={childSickDays}
+      overtimeHistory={overtimeHistory}
       requiresMealFlag={requiresMealFlag}
       minPauseUnder6Minutes={minPauseUnder6Minutes}
       mandatoryPauseMinWorkMinutes={mandatoryPauseMinWorkMinutes}
@@ -982,8 +1152,14 @@ export default async function AdminEmployeeDetailPage({
       createTimeEntryInitialState={null}
       deleteTimeEntryAction={deleteAdminTimeEntryAction}
       deleteTimeEntryInitialState={null}
+      revertTimeEntryAction={revertTimeEntryAction}
+      revertTimeEntryInitialState={null}
       mandatoryPauseAction={updateMandatoryPauseScheduleAction}
       mandatoryPauseInitialState={null}
+      employmentContractAction={employmentContractAction}
+      employmentContractInitialState={null}
+      childSickDaysAction={childSickDaysAction}
+      childSickDaysInitialState={null}
       summaryPreferencesAction={saveSummaryPreferencesAction}
       summaryPreferencesInitialState={null}
       bonusPayoutAction={updateBonusPayoutAction}
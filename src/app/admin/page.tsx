@@ -1,7 +1,32 @@
+import Link from 'next/link';
+
 import { getServerAuthSession } from '@/lib/auth/session';
+import type { OvertimeTrafficLightColor } from '@/lib/data/overtime-traffic-light';
+import {
+  OVERTIME_TRAFFIC_LIGHT_GROUPS,
+  OVERTIME_TRAFFIC_LIGHT_LABELS,
+  getOvertimeTrafficLightDashboard,
+} from '@/lib/services/overtime-traffic-light';
+
+const COLOR_BADGES: Record<OvertimeTrafficLightColor, string> = {
+  green: 'bg-emerald-50 text-emerald-700',
+  yellow: 'bg-amber-50 text-amber-700',
+  red: 'bg-red-50 text-red-700',
+};
+
+function formatBalance(value: number): string {
+  const formatted = value.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${value > 0 ? '+' : ''}${formatted} Std.`;
+}
+
+function groupLabel(employmentType: string | null): string {
+  const match = OVERTIME_TRAFFIC_LIGHT_GROUPS.find((group) => group.employmentType === employmentType?.toLowerCase());
+  return match?.label ?? employmentType ?? '–';
+}
 
 export default async function AdminHomePage() {
   const session = await getServerAuthSession();
+  const trafficLightRows = session?.tenantId ? await getOvertimeTrafficLightDashboard(session.tenantId) : [];
 
   return (
     <section className="space-y-6">
@@ -13,6 +38,54 @@ export default async function AdminHomePage() {
         </p>
       </header>
 
+      <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-baseline justify-between gap-2">
+          <h3 className="text-sm font-semibold text-slate-700">Ampelkonto: Mitarbeiter in Gelb und Rot</h3>
+          <Link href="/admin/ampelkonto" className="text-xs font-medium text-brand hover:underline">
+            Grenzen einstellen
+          </Link>
+        </div>
+        {trafficLightRows.length ? (
+          <div className="mt-4 overflow-x-auto">
+            <table className="min-w-full divide-y divide-slate-200 text-sm">
+              <thead className="bg-slate-50 text-left text-xs font-semibold uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="px-3 py-2">Mitarbeiter</th>
+                  <th className="px-3 py-2">Einstellungsart</th>
+                  <th className="px-3 py-2 text-right">Saldo</th>
+                  <th className="px-3 py-2">Ampel</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 text-slate-700">
+                {trafficLightRows.map((row) => (
+                  <tr key={row.employeeId}>
+                    <td className="px-3 py-2">
+                      <Link
+                        href={`/admin/mitarbeitende/${row.employeeId}`}
+                        className="font-medium text-slate-900 hover:underline"
+                      >
+                        {row.name}
+                      </Link>
+                    </td>
+                    <td className="px-3 py-2">{groupLabel(row.employmentType)}</td>
+                    <td className="whitespace-nowrap px-3 py-2 text-right">{formatBalance(row.balanceHours)}</td>
+                    <td className="px-3 py-2">
+                      <span
+                        className={`inline-flex rounded-full px-3 py-1 text-xs font-semibold ${COLOR_BADGES[row.color]}`}
+                      >
+                        {OVERTIME_TRAFFIC_LIGHT_LABELS[row.color]}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="mt-3 text-sm text-slate-500">Alle aktiven Mitarbeiter liegen im grünen Bereich.</p>
+        )}
+      </section>
+
       <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-3">
         <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
           <h3 className="text-sm font-semibold text-slate-700">Nächste Schritte</h3>
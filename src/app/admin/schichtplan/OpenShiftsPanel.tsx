@@ -0,0 +1,262 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+
+import type { WeeklyShiftPlan } from '@/lib/services/shift-plan';
+import type { OpenShiftView } from '@/lib/services/open-shifts';
+
+type OpenShiftAction = (formData: FormData) => Promise<{ success: boolean; error?: string; message?: string }>;
+
+export type OpenShiftActions = {
+  publish: OpenShiftAction;
+  cancel: OpenShiftAction;
+  decide: OpenShiftAction;
+};
+
+type OpenShiftsPanelProps = {
+  openShifts: OpenShiftView[];
+  branches: Array<{ id: number; name: string }>;
+  days: WeeklyShiftPlan['days'];
+  actions: OpenShiftActions;
+};
+
+function statusClass(shift: OpenShiftView): string {
+  switch (shift.status) {
+    case 'filled':
+      return 'bg-emerald-100 text-emerald-700';
+    case 'claimed':
+      return 'bg-amber-100 text-amber-700';
+    default:
+      return 'bg-sky-100 text-sky-700';
+  }
+}
+
+export default function OpenShiftsPanel({ openShifts, branches, days, actions }: OpenShiftsPanelProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [feedback, setFeedback] = useState<{ tone: 'success' | 'error'; text: string } | null>(null);
+  const [branchId, setBranchId] = useState(branches.length === 1 ? String(branches[0]!.id) : '');
+  const [dayDate, setDayDate] = useState(days.find((day) => day.isToday)?.isoDate ?? days[0]?.isoDate ?? '');
+  const [start, setStart] = useState('09:00');
+  const [end, setEnd] = useState('17:00');
+  const [pause, setPause] = useState('30');
+  const [label, setLabel] = useState('');
+  const [claimMode, setClaimMode] = useState<'first_come' | 'confirm'>('first_come');
+
+  const run = (action: OpenShiftAction, formData: FormData, fallback: string) => {
+    startTransition(() => {
+      action(formData).then((result) => {
+        if (result.success) {
+          setFeedback({ tone: 'success', text: result.message ?? 'Gespeichert.' });
+          router.refresh();
+        } else {
+          setFeedback({ tone: 'error', text: result.error ?? fallback });
+        }
+      });
+    });
+  };
+
+  const handlePublish = () => {
+    const formData = new FormData();
+    formData.set('branchId', branchId);
+    formData.set('dayDate', dayDate);
+    formData.set('start', start);
+    formData.set('end', end);
+    formData.set('pause', pause);
+    formData.set('label', label);
+    formData.set('claimMode', claimMode);
+    run(actions.publish, formData, 'Die Schicht konnte nicht ausgeschrieben werden.');
+  };
+
+  const handleCancel = (shift: OpenShiftView) => {
+    if (!window.confirm('Offene Schicht wirklich zurückziehen?')) return;
+    const formData = new FormData();
+    formData.set('openShiftId', String(shift.id));
+    run(actions.cancel, formData, 'Die Schicht konnte nicht zurückgezogen werden.');
+  };
+
+  const handleDecide = (shift: OpenShiftView, decision: 'approve' | 'reject') => {
+    const formData = new FormData();
+    formData.set('openShiftId', String(shift.id));
+    formData.set('decision', decision);
+    run(actions.decide, formData, 'Die Entscheidung konnte nicht gespeichert werden.');
+  };
+
+  return (
+    <div className="space-y-4 rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+      <div className="space-y-1">
+        <h2 className="text-sm font-semibold text-slate-900">Offene Schichten</h2>
+        <p className="text-xs text-slate-500">
+          Ausgeschriebene Schichten sehen alle Mitarbeiter des Standorts in ihrem Schichtplan. Bei &quot;Wer zuerst
+          kommt&quot; wird die Schicht sofort eingetragen, sonst nach deiner Bestätigung. Sobald sie besetzt ist,
+          werden die übrigen Mitarbeiter des Standorts informiert.
+        </p>
+      </div>
+
+      {feedback ? (
+        <p
+          className={`rounded-lg px-3 py-2 text-sm ${
+            feedback.tone === 'success'
+              ? 'border border-emerald-200 bg-emerald-50 text-emerald-700'
+              : 'border border-red-200 bg-red-50 text-red-700'
+          }`}
+        >
+          {feedback.text}
+        </p>
+      ) : null}
+
+      {branches.length === 0 ? (
+        <p className="text-sm text-slate-500">Es sind noch keine Standorte angelegt.</p>
+      ) : (
+        <div className="flex flex-wrap items-end gap-2 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-slate-500">Standort</span>
+            <select
+              value={branchId}
+              onChange={(event) => setBranchId(event.target.value)}
+              className="rounded-md border border-slate-300 px-2 py-1"
+            >
+              <option value="">Bitte wählen</option>
+              {branches.map((branch) => (
+                <option key={branch.id} value={branch.id}>
+                  {branch.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-slate-500">Tag</span>
+            <select
+              value={dayDate}
+              onChange={(event) => setDayDate(event.target.value)}
+              className="rounded-md border border-slate-300 px-2 py-1"
+            >
+              {days.map((day) => (
+                <option key={day.isoDate} value={day.isoDate}>
+                  {day.weekdayShort} {day.dayLabel}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-slate-500">Von</span>
+            <input
+              type="time"
+              value={start}
+              onChange={(event) => setStart(event.target.value)}
+              className="rounded-md border border-slate-300 px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-slate-500">Bis</span>
+            <input
+              type="time"
+              value={end}
+              onChange={(event) => setEnd(event.target.value)}
+              className="rounded-md border border-slate-300 px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-slate-500">Pause (Min.)</span>
+            <input
+              type="number"
+              min={0}
+              max={240}
+              value={pause}
+              onChange={(event) => setPause(event.target.value)}
+              className="w-24 rounded-md border border-slate-300 px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-slate-500">Bezeichnung</span>
+            <input
+              type="text"
+              value={label}
+              onChange={(event) => setLabel(event.target.value)}
+              maxLength={100}
+              placeholder="z. B. Spätdienst"
+              className="rounded-md border border-slate-300 px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-slate-500">Vergabe</span>
+            <select
+              value={claimMode}
+              onChange={(event) => setClaimMode(event.target.value === 'confirm' ? 'confirm' : 'first_come')}
+              className="rounded-md border border-slate-300 px-2 py-1"
+            >
+              <option value="first_come">Wer zuerst kommt</option>
+              <option value="confirm">Mit Bestätigung</option>
+            </select>
+          </label>
+          <button
+            type="button"
+            onClick={handlePublish}
+            disabled={isPending}
+            className="rounded-full bg-sky-500 px-4 py-1.5 font-semibold text-white hover:bg-sky-600 disabled:opacity-60"
+          >
+            Ausschreiben
+          </button>
+        </div>
+      )}
+
+      {openShifts.length === 0 ? (
+        <p className="text-sm text-slate-500">In dieser Woche sind keine Schichten ausgeschrieben.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 text-sm">
+          {openShifts.map((shift) => {
+            const day = days.find((entry) => entry.isoDate === shift.isoDate);
+            return (
+              <li key={shift.id} className="flex flex-wrap items-center gap-3 py-2">
+                <div className="flex-1">
+                  <p className="font-medium text-slate-900">
+                    {day ? `${day.weekdayShort} ${day.dayLabel}` : shift.isoDate}, {shift.start}–{shift.end}
+                    {shift.label ? ` · ${shift.label}` : ''}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {shift.branchName ?? 'Standort unbekannt'} · {shift.claimModeLabel}
+                    {shift.claimedByName ? ` · ${shift.claimedByName}` : ''}
+                  </p>
+                </div>
+                <span className={`rounded-full px-2.5 py-1 text-xs font-semibold ${statusClass(shift)}`}>
+                  {shift.statusLabel}
+                </span>
+                {shift.status === 'claimed' ? (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => handleDecide(shift, 'approve')}
+                      disabled={isPending}
+                      className="rounded-full bg-emerald-600 px-3 py-1 text-xs font-semibold text-white hover:bg-emerald-500 disabled:opacity-60"
+                    >
+                      Bestätigen
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDecide(shift, 'reject')}
+                      disabled={isPending}
+                      className="rounded-full bg-red-600 px-3 py-1 text-xs font-semibold text-white hover:bg-red-500 disabled:opacity-60"
+                    >
+                      Ablehnen
+                    </button>
+                  </>
+                ) : null}
+                {shift.status === 'open' || shift.status === 'claimed' ? (
+                  <button
+                    type="button"
+                    onClick={() => handleCancel(shift)}
+                    disabled={isPending}
+                    className="rounded-full border border-slate-300 px-3 py-1 text-xs font-semibold text-slate-600 hover:bg-slate-100 disabled:opacity-60"
+                  >
+                    Zurückziehen
+                  </button>
+                ) : null}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { Fragment, useEffect, useMemo, useRef, useState, useTransition } from 'r
 import { useRouter } from 'next/navigation';
 
 import type { EmployeeListItem } from '@/lib/data/employees';
+import type { ShiftPlanEarningsWarning } from '@/lib/services/earnings-limits';
 import type {
   WeeklyShiftPlan,
   WeeklyShiftPlanCell,
@@ -11,16 +12,21 @@ import type {
   WeeklyShiftTemplate,
 } from '@/lib/services/shift-plan';
 import { isHolidayIsoDate, normalizeHolidayRegion } from '@/lib/services/holidays';
+import type { StaffingCoverageBranch } from '@/lib/services/staffing-requirements';
+import type { OpenShiftView } from '@/lib/services/open-shifts';
+import type { ShiftPlanAvailabilityDay } from '@/lib/services/employee-availability';
 
+import OpenShiftsPanel, { type OpenShiftActions } from './OpenShiftsPanel';
+import StaffingCoverageHeatmap from './StaffingCoverageHeatmap';
 import WeekPatternDrawer from './WeekPatternDrawer';
 
-type UpdateAction = (formData: FormData) => Promise<{ success: boolean; error?: string }>;
+type UpdateAction = (formData: FormData) => Promise<{ success: boolean; error?: string; warning?: string }>;
 
-type CreatePatternAction = (formData: FormData) => Promise<{ success: boolean; error?: string }>;
+type CreatePatternAction = (formData: FormData) => Promise<{ success: boolean; error?: string; warning?: string }>;
 
 type ClearWeekAction = (formData: FormData) => Promise<{ success: boolean; error?: string }>;
 
-type FillWeekAction = (formData: FormData) => Promise<{ success: boolean; error?: string }>;
+type FillWeekAction = (formData: FormData) => Promise<{ success: boolean; error?: string; warning?: string }>;
 
 type ShiftPlanBoardProps = {
   week: WeeklyShiftPlan;
@@ -30,8 +36,20 @@ type ShiftPlanBoardProps = {
   fillWeekAction: FillWeekAction;
   createPatternAction: CreatePatternAction;
   templates: WeeklyShiftTemplate[];
+  /** Minijob/Midijob limit warnings; flagged days are planned shifts that push the month over the limit. */
+  earningsWarnings?: ShiftPlanEarningsWarning[];
+  /** Required against planned staff per branch; without it the coverage toggle is hidden. */
+  coverage?: StaffingCoverageBranch[];
+  /** Availability stated by the employees; without it the availability toggle is hidden. */
+  availability?: ShiftPlanAvailabilityDay[];
+  /** Shifts published for the week; without actions the open shifts toggle is hidden. */
+  openShifts?: OpenShiftView[];
+  openShiftActions?: OpenShiftActions;
+  branches?: Array<{ id: number; name: string }>;
   basePath?: string;
   templatesPath?: string | null;
+  /** Page that proposes a draft week from opening hours and staffing; null hides the button. */
+  generatorPath?: string | null;
   stickyOffset?: number;
   showUsername?: boolean;
   editable?: boolean;
@@ -339,8 +357,15 @@ export default function ShiftPlanBoard({
   fillWeekAction,
   createPatternAction,
   templates,
+  earningsWarnings,
+  coverage,
+  availability,
+  openShifts = [],
+  openShiftActions,
+  branches = [],
   basePath,
   templatesPath,
+  generatorPath,
   stickyOffset,
   showUsername = true,
   editable = true,
@@ -356,14 +381,30 @@ export default function ShiftPlanBoard({
   const [error, setError] = useState<string | null>(null);
   const [isPending, startTransition] = useTransition();
   const [isPatternOpen, setPatternOpen] = useState(false);
+  const [isCoverageOpen, setCoverageOpen] = useState(false);
+  const [isOpenShiftsOpen, setOpenShiftsOpen] = useState(false);
+  const [isAvailabilityShown, setAvailabilityShown] = useState(true);
+  const [availabilityNotice, setAvailabilityNotice] = useState<string | null>(null);
   const scrollContainerRef = useRef<HTMLDivElement | null>(null);
   const [scrollMetrics, setScrollMetrics] = useState({ left: 0, width: 0 });
   const resolvedBasePath = basePath ?? '/admin/schichtplan';
   const resolvedTemplatesPath = templatesPath === undefined ? '/admin/schichtplan/vorlagen' : templatesPath;
+  const resolvedGeneratorPath = generatorPath === undefined ? '/admin/schichtplan/generator' : generatorPath;
   const resolvedStickyOffset = stickyOffset ?? ADMIN_STICKY_BASE_OFFSET;
   const isEditable = editable;
 
   const rangeLabel = useMemo(() => formatRangeLabel(week.weekStart, week.weekEnd), [week.weekEnd, week.weekStart]);
+  const earningsWarningLookup = useMemo(
+    () => new Map((earningsWarnings ?? []).map((warning) => [warning.employeeId, warning])),
+    [earningsWarnings]
+  );
+  const availabilityLookup = useMemo(
+    () => new Map((availability ?? []).map((day) => [`${day.employeeId}:${day.isoDate}`, day])),
+    [availability]
+  );
+  const editingAvailability = editing
+    ? availabilityLookup.get(`${editing.employee.employeeId}:${editing.cell.isoDate}`) ?? null
+    : null;
   const editingHolidayInfo = useMemo(() => {
     if (!editing) return null;
     const branchId = resolveSelectedBranchId(editing.employee, branchValue);
@@ -507,6 +548,7 @@ export default function ShiftPlanBoard({
         if (result.success) {
           setEditing(null);
           setError(null);
+          setAvailabilityNotice(result.warning ?? null);
           router.refresh();
         } else {
           setError(result.error ?? 'Unbekannter Fehler.');
@@ -592,6 +634,7 @@ export default function ShiftPlanBoard({
         if (result.success) {
           setEditing(null);
           setError(null);
+          setAvailabilityNotice(result.warning ?? null);
           router.refresh();
         } else {
           setError(result.error ?? 'Unbekannter Fehler.');
@@ -704,8 +747,9 @@ export default function ShiftPlanBoard({
     setPatternOpen(false);
   };
 
-  const handlePatternSaved = () => {
+  const handlePatternSaved = (warning?: string) => {
     setPatternOpen(false);
+    setAvailabilityNotice(warning ?? null);
     router.refresh();
   };
 
@@ -714,6 +758,11 @@ export default function ShiftPlanBoard({
     router.push(resolvedTemplatesPath);
   };
 
+  const handleOpenGenerator = () => {
+    if (!resolvedGeneratorPath) return;
+    router.push(`${resolvedGeneratorPath}?week=${week.weekStart}`);
+  };
+
   const employeeLookup = useMemo(() => {
     const map = new Map<number, EmployeeListItem>();
     for (const employee of employees) {
@@ -785,6 +834,66 @@ export default function ShiftPlanBoard({
                 Vorlagen verwalten
               </button>
             ) : null}
+            {coverage ? (
+              <button
+                type="button"
+                onClick={() => setCoverageOpen((open) => !open)}
+                aria-pressed={isCoverageOpen}
+                className={`rounded-full border px-4 py-2 text-sm font-medium focus:outline-none focus:ring-2 focus:ring-slate-300 ${
+                  isCoverageOpen
+                    ? 'border-slate-700 bg-slate-700 text-white hover:bg-slate-800'
+                    : 'border-slate-300 text-slate-600 hover:bg-slate-100'
+                }`}
+              >
+                Besetzung
+                {coverage.some((branch) => branch.understaffedCells > 0) ? (
+                  <span className="ml-2 inline-block h-2 w-2 rounded-full bg-rose-500" aria-hidden="true" />
+                ) : null}
+              </button>
+            ) : null}
+            {availability ? (
+              <button
+                type="button"
+                onClick={() => setAvailabilityShown((shown) => !shown)}
+                aria-pressed={isAvailabilityShown}
+                className={`rounded-full border px-4 py-2 text-sm font-medium focus:outline-none focus:ring-2 focus:ring-slate-300 ${
+                  isAvailabilityShown
+                    ? 'border-slate-700 bg-slate-700 text-white hover:bg-slate-800'
+                    : 'border-slate-300 text-slate-600 hover:bg-slate-100'
+                }`}
+              >
+                Verfügbarkeit
+                {availability.some((day) => day.conflicts.length > 0) ? (
+                  <span className="ml-2 inline-block h-2 w-2 rounded-full bg-rose-500" aria-hidden="true" />
+                ) : null}
+              </button>
+            ) : null}
+            {isEditable && openShiftActions ? (
+              <button
+                type="button"
+                onClick={() => setOpenShiftsOpen((open) => !open)}
+                aria-pressed={isOpenShiftsOpen}
+                className={`rounded-full border px-4 py-2 text-sm font-medium focus:outline-none focus:ring-2 focus:ring-slate-300 ${
+                  isOpenShiftsOpen
+                    ? 'border-slate-700 bg-slate-700 text-white hover:bg-slate-800'
+                    : 'border-slate-300 text-slate-600 hover:bg-slate-100'
+                }`}
+              >
+                Offene Schichten
+                {openShifts.some((shift) => shift.status === 'claimed') ? (
+                  <span className="ml-2 inline-block h-2 w-2 rounded-full bg-amber-500" aria-hidden="true" />
+                ) : null}
+              </button>
+            ) : null}
+            {isEditable && resolvedGeneratorPath ? (
+              <button
+                type="button"
+                onClick={handleOpenGenerator}
+                className="rounded-full border border-slate-300 px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 focus:outline-none focus:ring-2 focus:ring-slate-300"
+              >
+                Plan vorschlagen
+              </button>
+            ) : null}
             {isEditable ? (
               <button
                 type="button"
@@ -817,11 +926,37 @@ export default function ShiftPlanBoard({
         </div>
       </div>
 
+      {coverage && isCoverageOpen ? (
+        <StaffingCoverageHeatmap
+          coverage={coverage}
+          days={week.days}
+          requirementsPath={isEditable ? '/admin/besetzung' : null}
+        />
+      ) : null}
+
+      {isEditable && openShiftActions && isOpenShiftsOpen ? (
+        <OpenShiftsPanel openShifts={openShifts} branches={branches} days={week.days} actions={openShiftActions} />
+      ) : null}
+
+      {availabilityNotice ? (
+        <div className="flex items-start justify-between gap-3 rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+          <p>{availabilityNotice}</p>
+          <button
+            type="button"
+            onClick={() => setAvailabilityNotice(null)}
+            className="text-xs font-semibold text-rose-600 hover:text-rose-800"
+          >
+            Schließen
+          </button>
+        </div>
+      ) : null}
+
       <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white shadow-sm" ref={scrollContainerRef}>
         <div className="min-w-[920px]" role="grid">
           <div className={gridTemplateClass}>
             {week.rows.map((row) => {
               const baseInfo = employeeLookup.get(row.employeeId);
+              const earningsWarning = earningsWarningLookup.get(row.employeeId) ?? null;
               return (
                 <Fragment key={row.employeeId}>
                   <div className="flex items-center gap-3 border-t border-slate-200 bg-slate-50 px-4 py-3">
@@ -833,6 +968,14 @@ export default function ShiftPlanBoard({
                       {showUsername ? (
                         <p className="text-xs text-slate-500">{baseInfo?.username ?? row.username}</p>
                       ) : null}
+                      {earningsWarning ? (
+                        <p
+                          title={earningsWarning.messages.join('\n')}
+                          className="mt-1 inline-flex rounded-full bg-red-50 px-2 py-0.5 text-[11px] font-semibold text-red-700"
+                        >
+                          {earningsWarning.kind === 'minijob' ? 'Minijob' : 'Midijob'}-Grenze
+                        </p>
+                      ) : null}
                     </div>
                   </div>
                   {row.cells.map((cell) => {
@@ -853,6 +996,16 @@ export default function ShiftPlanBoard({
                     const holidayBadge = showHolidayBadge
                       ? `Feiertag${holidayInfo.name ? ` · ${holidayInfo.name}` : ''}`
                       : '';
+                    const overEarningsLimit = Boolean(earningsWarning?.dayDates.includes(cell.isoDate));
+                    const dayAvailability = availabilityLookup.get(`${row.employeeId}:${cell.isoDate}`) ?? null;
+                    const availabilityConflict = Boolean(dayAvailability?.conflicts.length);
+                    const cellTitle = [
+                      ...(overEarningsLimit ? earningsWarning?.messages ?? [] : []),
+                      ...(availabilityConflict
+                        ? [`Gegen die Verfügbarkeit geplant: ${dayAvailability!.conflicts.join(', ')}`]
+                        : []),
+                      ...(dayAvailability && isAvailabilityShown ? dayAvailability.notes : []),
+                    ].join('\n');
 
                     return (
                       <button
@@ -864,7 +1017,10 @@ export default function ShiftPlanBoard({
                           isEditable ? 'hover:scale-[1.01] hover:shadow-sm' : 'cursor-default'
                         } ${
                           segments ? 'bg-white' : variant?.container ?? 'bg-white'
-                        }${!segments && holidayInfo.isHoliday ? ' ring-1 ring-indigo-200' : ''}`}
+                        }${!segments && holidayInfo.isHoliday ? ' ring-1 ring-indigo-200' : ''}${
+                          overEarningsLimit ? ' ring-2 ring-inset ring-red-400' : ''
+                        }${!overEarningsLimit && availabilityConflict ? ' ring-2 ring-inset ring-rose-400' : ''}`}
+                        title={cellTitle || undefined}
                       >
                         {segments ? (
                           <div className="flex w-full flex-col gap-2">
@@ -912,6 +1068,24 @@ export default function ShiftPlanBoard({
                             ) : null}
                           </>
                         )}
+                        {overEarningsLimit ? (
+                          <span className="text-[10px] font-semibold text-red-600 sm:text-[11px]">
+                            Über Verdienstgrenze
+                          </span>
+                        ) : null}
+                        {dayAvailability && (isAvailabilityShown || availabilityConflict) ? (
+                          <span
+                            className={`text-[10px] font-semibold sm:text-[11px] ${
+                              availabilityConflict
+                                ? 'text-rose-600'
+                                : dayAvailability.kind === 'preferred'
+                                  ? 'text-emerald-600'
+                                  : 'text-amber-600'
+                            }`}
+                          >
+                            {dayAvailability.labels.join(' · ')}
+                          </span>
+                        ) : null}
                       </button>
                     );
                   })}
@@ -962,6 +1136,16 @@ export default function ShiftPlanBoard({
                   Feiertag{editingHolidayInfo.name ? ` · ${editingHolidayInfo.name}` : ''}
                 </p>
               ) : null}
+              {editingAvailability ? (
+                <p
+                  className={`text-sm font-medium ${
+                    editingAvailability.kind === 'preferred' ? 'text-emerald-600' : 'text-amber-600'
+                  }`}
+                >
+                  Angabe des Mitarbeiters: {editingAvailability.labels.join(' · ')}
+                  {editingAvailability.notes.length ? ` (${editingAvailability.notes.join(', ')})` : ''}
+                </p>
+              ) : null}
             </header>
 
             <div className="grid gap-4 sm:grid-cols-2">
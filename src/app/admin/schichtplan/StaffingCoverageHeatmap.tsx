@@ -0,0 +1,121 @@
+'use client';
+
+import Link from 'next/link';
+
+import type { WeeklyShiftPlan } from '@/lib/services/shift-plan';
+import type { StaffingCoverageBranch, StaffingCoverageCell } from '@/lib/services/staffing-requirements';
+
+type StaffingCoverageHeatmapProps = {
+  coverage: StaffingCoverageBranch[];
+  days: WeeklyShiftPlan['days'];
+  requirementsPath?: string | null;
+};
+
+function minutesToTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function cellClass(cell: StaffingCoverageCell): string {
+  if (cell.planned < cell.required) {
+    return cell.planned === 0 ? 'bg-rose-500 text-white' : 'bg-rose-200 text-rose-900';
+  }
+  if (cell.required === 0) {
+    return cell.planned > 0 ? 'bg-sky-100 text-sky-800' : 'bg-slate-50 text-slate-300';
+  }
+  if (cell.planned > cell.required) {
+    return 'bg-sky-200 text-sky-900';
+  }
+  return 'bg-emerald-200 text-emerald-900';
+}
+
+export default function StaffingCoverageHeatmap({ coverage, days, requirementsPath }: StaffingCoverageHeatmapProps) {
+  if (coverage.length === 0) {
+    return (
+      <div className="rounded-xl border border-slate-200 bg-white px-4 py-3 text-sm text-slate-500 shadow-sm">
+        Für diese Woche ist weder Personalbedarf hinterlegt noch eine Schicht einem Standort zugeordnet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-slate-600">
+        <span className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded-sm bg-rose-500" /> unbesetzt
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded-sm bg-rose-200" /> unterbesetzt
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded-sm bg-emerald-200" /> Bedarf gedeckt
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded-sm bg-sky-200" /> überbesetzt
+        </span>
+        <span>Genehmigte Abwesenheiten sind bereits abgezogen.</span>
+        {requirementsPath ? (
+          <Link href={requirementsPath} className="ml-auto font-medium text-sky-700 hover:underline">
+            Personalbedarf bearbeiten
+          </Link>
+        ) : null}
+      </div>
+      {coverage.map((branch) => (
+        <div key={branch.branchId} className="overflow-x-auto rounded-xl border border-slate-200 bg-white shadow-sm">
+          <div className="flex flex-wrap items-center justify-between gap-2 border-b border-slate-200 px-4 py-2">
+            <h3 className="text-sm font-semibold text-slate-900">{branch.name}</h3>
+            <span className="text-xs text-slate-500">
+              {branch.understaffedCells} unterbesetzte und {branch.overstaffedCells} überbesetzte halbe Stunden
+            </span>
+          </div>
+          <table className="w-full min-w-[920px] table-fixed border-collapse text-[11px]">
+            <thead>
+              <tr className="text-slate-500">
+                <th className="w-16 bg-slate-50 px-2 py-1 text-left font-semibold">Zeit</th>
+                {days.map((day) => (
+                  <th key={day.isoDate} className="border-l border-slate-200 bg-slate-50 px-2 py-1 font-semibold">
+                    {day.weekdayShort} {day.dayLabel}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {branch.days[0]?.cells.map((slot, slotIndex, slots) => {
+                const slotStart = slot.startMinutes;
+                const slotEnd = slots[slotIndex + 1]?.startMinutes ?? branch.toMinutes;
+                return (
+                  <tr key={slotStart}>
+                    <td className="bg-slate-50 px-2 text-slate-500">{minutesToTime(slotStart)}</td>
+                    {branch.days.map((day) => {
+                      const cell = day.cells[slotIndex]!;
+                      if (day.closedReason) {
+                        return (
+                          <td
+                            key={day.isoDate}
+                            className="border-l border-white bg-slate-100 text-center text-slate-400"
+                            title={day.closedReason}
+                          />
+                        );
+                      }
+                      return (
+                        <td
+                          key={day.isoDate}
+                          className={`border-l border-t border-white text-center ${cellClass(cell)}`}
+                          title={`${minutesToTime(slotStart)}–${minutesToTime(slotEnd)}: ${
+                            cell.planned
+                          } geplant, ${cell.required} benötigt`}
+                        >
+                          {cell.required > 0 || cell.planned > 0 ? `${cell.planned}/${cell.required}` : ''}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+}
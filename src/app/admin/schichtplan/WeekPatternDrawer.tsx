@@ -6,7 +6,7 @@ import type { ChangeEvent } from 'react';
 import type { EmployeeListItem } from '@/lib/data/employees';
 import type { WeeklyShiftPlan, WeeklyShiftTemplate } from '@/lib/services/shift-plan';
 
-type CreatePatternAction = (formData: FormData) => Promise<{ success: boolean; error?: string }>;
+type CreatePatternAction = (formData: FormData) => Promise<{ success: boolean; error?: string; warning?: string }>;
 
 type WeekPatternDrawerProps = {
   open: boolean;
@@ -14,7 +14,7 @@ type WeekPatternDrawerProps = {
   employees: EmployeeListItem[];
   templates: WeeklyShiftTemplate[];
   onClose: () => void;
-  onSaved: () => void;
+  onSaved: (warning?: string) => void;
   createAction: CreatePatternAction;
 };
 
@@ -80,8 +80,8 @@ const hasOverlap = (segments: DaySegmentState[]): boolean => {
     .map((segment) => {
       const start = toMinutes(segment.start);
       const end = toMinutes(segment.end);
-      if (start == null || end == null || end <= start) return null;
-      return { start, end };
+      if (start == null || end == null || end === start) return null;
+      return { start, end: end < start ? end + 24 * 60 : end };
     })
     .filter((entry): entry is { start: number; end: number } => Boolean(entry))
     .sort((a, b) => a.start - b.start);
@@ -312,7 +312,7 @@ export default function WeekPatternDrawer({
       createAction(formData).then((result) => {
         if (result.success) {
           setError(null);
-          onSaved();
+          onSaved(result.warning);
         } else {
           setError(result.error ?? 'Speichern fehlgeschlagen.');
         }
@@ -0,0 +1,337 @@
+'use client';
+
+import { useMemo, useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+
+import type { BranchSummary } from '@/lib/data/branches';
+import type { ShiftPlanDraft, ShiftPlanDraftShift } from '@/lib/services/shift-plan-generator';
+
+type ActionResult = {
+  success: boolean;
+  error?: string;
+  saved?: number;
+  skipped?: number;
+  warning?: string;
+};
+
+type ShiftPlanGeneratorClientProps = {
+  draft: ShiftPlanDraft;
+  employees: Array<{ id: number; name: string; branches: BranchSummary[] }>;
+  acceptAction: (formData: FormData) => Promise<ActionResult>;
+};
+
+type EditableShift = ShiftPlanDraftShift & { key: string };
+
+const WEEKDAY_SHORT = ['Mo', 'Di', 'Mi', 'Do', 'Fr', 'Sa', 'So'];
+const BASE_PATH = '/admin/schichtplan';
+
+function toEditable(shifts: ShiftPlanDraftShift[]): EditableShift[] {
+  return shifts.map((shift, index) => ({ ...shift, key: `${shift.employeeId}-${shift.isoDate}-${index}` }));
+}
+
+function timeToMinutes(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/** Net hours with the statutory pause, as the plan counts them. */
+function netHours(shift: ShiftPlanDraftShift): number {
+  const start = timeToMinutes(shift.start);
+  const end = timeToMinutes(shift.end);
+  if (start === null || end === null || end <= start) return 0;
+  const gross = (end - start) / 60;
+  const legalPause = gross > 9 ? 0.75 : gross > 6 ? 0.5 : 0;
+  return Math.max(gross - Math.max(legalPause, shift.requiredPauseMinutes / 60), 0);
+}
+
+function formatHours(value: number): string {
+  return value.toLocaleString('de-DE', { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+}
+
+function formatDay(isoDate: string, index: number): string {
+  const [, month, day] = isoDate.split('-');
+  return `${WEEKDAY_SHORT[index] ?? ''} ${day}.${month}.`;
+}
+
+function shiftWeek(weekStart: string, delta: number): string {
+  const date = new Date(`${weekStart}T00:00:00`);
+  date.setDate(date.getDate() + delta * 7);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+export default function ShiftPlanGeneratorClient({ draft, employees, acceptAction }: ShiftPlanGeneratorClientProps) {
+  const router = useRouter();
+  const [shifts, setShifts] = useState<EditableShift[]>(() => toEditable(draft.shifts));
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const branchNames = useMemo(
+    () => new Map(draft.branches.map((branch) => [branch.id, branch.name])),
+    [draft.branches]
+  );
+  const employeeBranches = useMemo(
+    () => new Map(employees.map((employee) => [employee.id, employee.branches])),
+    [employees]
+  );
+
+  const coverage = useMemo(
+    () =>
+      draft.slots.map((slot) => {
+        const slotStart = timeToMinutes(slot.start) ?? 0;
+        const slotEnd = timeToMinutes(slot.end) ?? 0;
+        const planned = shifts.filter((shift) => {
+          const start = timeToMinutes(shift.start);
+          const end = timeToMinutes(shift.end);
+          return (
+            shift.isoDate === slot.isoDate &&
+            shift.branchId === slot.branchId &&
+            start !== null &&
+            end !== null &&
+            start <= slotStart &&
+            end >= slotEnd
+          );
+        }).length;
+        return { slot, staffed: planned + slot.existingEmployeeIds.length };
+      }),
+    [draft.slots, shifts]
+  );
+
+  const updateShift = (key: string, patch: Partial<ShiftPlanDraftShift>) => {
+    setShifts((prev) => prev.map((shift) => (shift.key === key ? { ...shift, ...patch } : shift)));
+  };
+
+  const removeShift = (key: string) => {
+    setShifts((prev) => prev.filter((shift) => shift.key !== key));
+  };
+
+  const goToWeek = (delta: number) => {
+    router.replace(`${BASE_PATH}/generator?week=${shiftWeek(draft.weekStart, delta)}`, { scroll: false });
+  };
+
+  const handleReset = () => {
+    setShifts(toEditable(draft.shifts));
+    setError(null);
+  };
+
+  const handleAccept = () => {
+    if (!shifts.length) {
+      setError('Der Entwurf enthält keine Schichten.');
+      return;
+    }
+    const formData = new FormData();
+    const payloadShifts: ShiftPlanDraftShift[] = shifts.map((shift) => ({
+      employeeId: shift.employeeId,
+      isoDate: shift.isoDate,
+      branchId: shift.branchId,
+      start: shift.start,
+      end: shift.end,
+      requiredPauseMinutes: shift.requiredPauseMinutes,
+    }));
+    formData.set('payload', JSON.stringify({ weekStart: draft.weekStart, shifts: payloadShifts }));
+    startTransition(() => {
+      acceptAction(formData).then((result) => {
+        if (!result.success) {
+          setError(result.error ?? 'Unbekannter Fehler.');
+          return;
+        }
+        const notices = [
+          result.skipped
+            ? `${result.saved ?? 0} Schichten übernommen. ${result.skipped} Schichten wurden übersprungen, ` +
+              'weil der Tag inzwischen verplant ist.'
+            : null,
+          result.warning ?? null,
+        ].filter((notice): notice is string => Boolean(notice));
+        if (notices.length) {
+          window.alert(notices.join('\n\n'));
+        }
+        router.push(`${BASE_PATH}?week=${draft.weekStart}`);
+      });
+    });
+  };
+
+  return (
+    <section className="space-y-6">
+      <header className="flex flex-col items-start justify-between gap-3 lg:flex-row lg:items-center">
+        <div>
+          <h1 className="text-xl font-semibold text-slate-900 sm:text-2xl">Schichtplan vorschlagen</h1>
+          <p className="text-sm text-slate-500">
+            Der Vorschlag besetzt die Öffnungszeiten der Filialen mit der Mindestbesetzung und verteilt die
+            Wochenstunden der Mitarbeiter. Bereits verplante Tage, genehmigte Abwesenheiten und offene Anträge bleiben
+            frei. Schichten lassen sich vor dem Übernehmen anpassen oder entfernen.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <div className="flex items-center rounded-full border border-slate-200 bg-white px-2 py-1 shadow-sm">
+            <button
+              type="button"
+              onClick={() => goToWeek(-1)}
+              className="rounded-full px-3 py-2 text-slate-500 hover:bg-slate-100 focus:outline-none"
+              aria-label="Vorherige Woche"
+            >
+              ◀
+            </button>
+            <div className="px-3 text-sm font-medium text-slate-700">
+              {formatDay(draft.weekStart, 0)} – {formatDay(draft.weekEnd, 6)}
+            </div>
+            <button
+              type="button"
+              onClick={() => goToWeek(1)}
+              className="rounded-full px-3 py-2 text-slate-500 hover:bg-slate-100 focus:outline-none"
+              aria-label="Nächste Woche"
+            >
+              ▶
+            </button>
+          </div>
+          <button
+            type="button"
+            onClick={() => router.push(`${BASE_PATH}?week=${draft.weekStart}`)}
+            className="rounded-full border border-slate-300 px-4 py-2 font-medium text-slate-600 hover:bg-slate-100"
+          >
+            Zum Schichtplan
+          </button>
+          <button
+            type="button"
+            onClick={handleReset}
+            disabled={isPending}
+            className="rounded-full border border-slate-300 px-4 py-2 font-medium text-slate-600 hover:bg-slate-100 disabled:opacity-60"
+          >
+            Zurücksetzen
+          </button>
+          <button
+            type="button"
+            onClick={handleAccept}
+            disabled={isPending || !shifts.length}
+            className="rounded-full bg-sky-500 px-4 py-2 font-semibold text-white hover:bg-sky-600 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {isPending ? 'Übernehmen…' : 'Entwurf übernehmen'}
+          </button>
+        </div>
+      </header>
+
+      {error ? (
+        <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{error}</div>
+      ) : null}
+
+      {draft.issues.length ? (
+        <div className="space-y-2 rounded-xl border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+          <h2 className="font-semibold">Nicht erfüllte Vorgaben</h2>
+          <ul className="list-disc space-y-1 pl-5">
+            {draft.issues.map((issue, index) => (
+              <li key={index}>{issue.message}</li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <div className="rounded-xl border border-emerald-200 bg-emerald-50 p-4 text-sm text-emerald-700">
+          Alle Mindestbesetzungen und Wochenstunden sind erfüllt.
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white shadow-sm">
+        <table className="min-w-[960px] w-full text-sm">
+          <thead className="bg-slate-50 text-xs font-semibold uppercase tracking-wide text-slate-500">
+            <tr>
+              <th className="px-4 py-2 text-left">Mitarbeiter</th>
+              {draft.days.map((isoDate, index) => (
+                <th key={isoDate} className="border-l border-slate-200 px-3 py-2 text-center">
+                  {formatDay(isoDate, index)}
+                </th>
+              ))}
+              <th className="border-l border-slate-200 px-3 py-2 text-right">Stunden</th>
+            </tr>
+          </thead>
+          <tbody>
+            {draft.employees.map((employee) => {
+              const own = shifts.filter((shift) => shift.employeeId === employee.employeeId);
+              const total = employee.existingHours + own.reduce((sum, shift) => sum + netHours(shift), 0);
+              const branches = employeeBranches.get(employee.employeeId) ?? [];
+              return (
+                <tr key={employee.employeeId} className="border-t border-slate-200 align-top">
+                  <td className="px-4 py-2 font-medium text-slate-800">{employee.name}</td>
+                  {draft.days.map((isoDate) => (
+                    <td key={isoDate} className="space-y-2 border-l border-slate-200 px-2 py-2">
+                      {own
+                        .filter((shift) => shift.isoDate === isoDate)
+                        .map((shift) => (
+                          <div key={shift.key} className="space-y-1 rounded-md border border-sky-200 bg-sky-50 p-2">
+                            <div className="flex items-center gap-1">
+                              <input
+                                type="time"
+                                value={shift.start}
+                                onChange={(event) => updateShift(shift.key, { start: event.target.value })}
+                                className="w-full rounded border border-slate-300 px-1 py-0.5 text-xs"
+                              />
+                              <input
+                                type="time"
+                                value={shift.end}
+                                onChange={(event) => updateShift(shift.key, { end: event.target.value })}
+                                className="w-full rounded border border-slate-300 px-1 py-0.5 text-xs"
+                              />
+                            </div>
+                            <div className="flex items-center gap-1">
+                              <select
+                                value={shift.branchId}
+                                onChange={(event) => updateShift(shift.key, { branchId: Number(event.target.value) })}
+                                className="w-full rounded border border-slate-300 px-1 py-0.5 text-xs"
+                              >
+                                {branches.map((branch) => (
+                                  <option key={branch.id} value={branch.id}>
+                                    {branch.name}
+                                  </option>
+                                ))}
+                              </select>
+                              <button
+                                type="button"
+                                onClick={() => removeShift(shift.key)}
+                                className="rounded px-1 text-xs font-semibold text-rose-600 hover:bg-rose-50"
+                                title="Schicht entfernen"
+                              >
+                                ✕
+                              </button>
+                            </div>
+                          </div>
+                        ))}
+                    </td>
+                  ))}
+                  <td
+                    className={`border-l border-slate-200 px-3 py-2 text-right tabular-nums ${
+                      total + 0.5 < employee.targetHours ? 'text-amber-700' : 'text-slate-700'
+                    }`}
+                  >
+                    {formatHours(total)} / {formatHours(employee.targetHours)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="space-y-2 rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+        <h2 className="text-sm font-semibold text-slate-900">Besetzung</h2>
+        {coverage.length ? (
+          <div className="grid gap-2 text-xs sm:grid-cols-2 lg:grid-cols-3">
+            {coverage.map(({ slot, staffed }, index) => (
+              <div
+                key={index}
+                className={`rounded-md border px-3 py-2 ${
+                  staffed >= slot.minStaff
+                    ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+                    : 'border-rose-200 bg-rose-50 text-rose-700'
+                }`}
+              >
+                {formatDay(slot.isoDate, draft.days.indexOf(slot.isoDate))} ·{' '}
+                {branchNames.get(slot.branchId) ?? slot.branchId} · {slot.start}–{slot.end}: {staffed} von{' '}
+                {slot.minStaff}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">
+            In dieser Woche sind keine Öffnungszeiten mit Mindestbesetzung hinterlegt.
+          </p>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,123 @@
+import { revalidatePath } from 'next/cache';
+import { redirect } from 'next/navigation';
+
+import { getServerAuthSession } from '@/lib/auth/session';
+import { withAppBasePath } from '@/lib/routes';
+import { listEmployees } from '@/lib/data/employees';
+import {
+  acceptShiftPlanDraft,
+  buildShiftPlanDraft,
+  type ShiftPlanDraftShift,
+} from '@/lib/services/shift-plan-generator';
+
+import ShiftPlanGeneratorClient from './ShiftPlanGeneratorClient';
+
+type ActionResult = {
+  success: boolean;
+  error?: string;
+  saved?: number;
+  skipped?: number;
+  warning?: string;
+};
+
+type AcceptPayload = {
+  weekStart: string;
+  shifts: ShiftPlanDraftShift[];
+};
+
+function sanitizeShifts(raw: unknown): ShiftPlanDraftShift[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((entry) => ({
+      employeeId: Number(entry?.employeeId),
+      isoDate: typeof entry?.isoDate === 'string' ? entry.isoDate.trim() : '',
+      branchId: Number(entry?.branchId),
+      start: typeof entry?.start === 'string' ? entry.start.trim() : '',
+      end: typeof entry?.end === 'string' ? entry.end.trim() : '',
+      requiredPauseMinutes: Number(entry?.requiredPauseMinutes ?? 0) || 0,
+    }))
+    .filter(
+      (shift) =>
+        Number.isFinite(shift.employeeId) &&
+        shift.employeeId > 0 &&
+        Number.isFinite(shift.branchId) &&
+        shift.branchId > 0 &&
+        /^\d{4}-\d{2}-\d{2}$/.test(shift.isoDate)
+    );
+}
+
+async function acceptDraftAction(formData: FormData): Promise<ActionResult> {
+  'use server';
+
+  const session = await getServerAuthSession();
+  if (!session?.user || session.user.roleId !== 2 || !session.tenantId) {
+    return { success: false, error: 'Keine Berechtigung.' };
+  }
+
+  const payloadRaw = formData.get('payload');
+  if (typeof payloadRaw !== 'string' || !payloadRaw.trim()) {
+    return { success: false, error: 'Ungültige Anfrage.' };
+  }
+
+  let payload: AcceptPayload;
+  try {
+    payload = JSON.parse(payloadRaw) as AcceptPayload;
+  } catch (error) {
+    console.error('acceptDraftAction parse error', error);
+    return { success: false, error: 'Die Angaben konnten nicht gelesen werden.' };
+  }
+
+  const weekStart = (payload.weekStart ?? '').trim();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(weekStart)) {
+    return { success: false, error: 'Ungültiger Wochenstart.' };
+  }
+  const shifts = sanitizeShifts(payload.shifts);
+  if (!shifts.length) {
+    return { success: false, error: 'Der Entwurf enthält keine Schichten.' };
+  }
+
+  try {
+    const result = await acceptShiftPlanDraft(session.tenantId, weekStart, shifts);
+    revalidatePath(withAppBasePath('/admin/schichtplan'));
+    revalidatePath(withAppBasePath('/admin/schichtplan/generator'));
+    return { success: true, ...result };
+  } catch (error) {
+    console.error('acceptDraftAction', error);
+    const message =
+      error instanceof Error && error.message
+        ? `Entwurf konnte nicht übernommen werden: ${error.message}`
+        : 'Entwurf konnte nicht übernommen werden.';
+    return { success: false, error: message };
+  }
+}
+
+export default async function ShiftPlanGeneratorPage({
+  searchParams,
+}: {
+  searchParams?: Promise<{ week?: string }>;
+}) {
+  const session = await getServerAuthSession();
+  if (!session?.user) {
+    redirect(withAppBasePath('/login'));
+  }
+  if (session.user.roleId !== 2 || !session.tenantId) {
+    redirect(withAppBasePath('/mitarbeiter'));
+  }
+
+  const resolvedSearch = searchParams ? await searchParams : undefined;
+  const weekParam = typeof resolvedSearch?.week === 'string' ? resolvedSearch.week : null;
+  const [draft, employees] = await Promise.all([
+    buildShiftPlanDraft(session.tenantId, weekParam),
+    listEmployees(session.tenantId),
+  ]);
+
+  return (
+    <ShiftPlanGeneratorClient
+      draft={draft}
+      employees={employees
+        .filter((employee) => employee.showInCalendar)
+        .map((employee) => ({ id: employee.id, name: employee.displayName, branches: employee.branches }))}
+      acceptAction={acceptDraftAction}
+    />
+  );
+}
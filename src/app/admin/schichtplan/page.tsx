@@ -11,6 +11,21 @@ import {
   saveShiftPlanDay,
   saveShiftPlanDaySegments,
 } from '@/lib/services/shift-plan';
+import { getShiftPlanEarningsWarnings } from '@/lib/services/earnings-limits';
+import { getStaffingCoverage } from '@/lib/services/staffing-requirements';
+import {
+  getAvailabilityWarning,
+  getAvailabilityWarningForShifts,
+  getShiftPlanAvailability,
+  type PlannedAvailabilityShift,
+} from '@/lib/services/employee-availability';
+import {
+  cancelOpenShift,
+  decideOpenShiftClaim,
+  getOpenShiftsForRange,
+  publishOpenShift,
+} from '@/lib/services/open-shifts';
+import { listBranches } from '@/lib/data/branches';
 import { recomputeEmployeeOvertime } from '@/lib/services/time-entry';
 import { calculateLegalPauseHours } from '@/lib/services/time-calculations';
 
@@ -19,6 +34,9 @@ import ShiftPlanBoard from './ShiftPlanBoard';
 type ActionResult = {
   success: boolean;
   error?: string;
+  message?: string;
+  /** Saved, but the admin should know, e.g. the shift runs against the employee's stated availability. */
+  warning?: string;
 };
 
 async function ensureAdminSession() {
@@ -79,11 +97,16 @@ async function updateShiftPlanDayAction(formData: FormData): Promise<ActionResul
       branchId: branchId ?? null,
     });
 
-    await recomputeEmployeeOvertime(tenantId, employeeId);
+    await recomputeEmployeeOvertime(tenantId, employeeId, isoDate);
 
     revalidatePath(withAppBasePath('/admin/schichtplan'));
 
-    return { success: true };
+    const warning = await getAvailabilityWarning(tenantId, employeeId, isoDate, {
+      start,
+      end,
+      label: labelRaw.length ? labelRaw : null,
+    });
+    return warning ? { success: true, warning } : { success: true };
   } catch (error) {
     console.error('updateShiftPlanDayAction', error);
     return { success: false, error: 'Speichern fehlgeschlagen.' };
@@ -151,7 +174,7 @@ async function clearShiftPlanWeekAction(formData: FormData): Promise<ActionResul
 
   try {
     await clearShiftPlanRange(employeeId, formatIsoDate(weekStartDate), formatIsoDate(weekEndDate));
-    await recomputeEmployeeOvertime(tenantId, employeeId);
+    await recomputeEmployeeOvertime(tenantId, employeeId, formatIsoDate(weekStartDate));
     revalidatePath(withAppBasePath('/admin/schichtplan'));
     return { success: true };
   } catch (error) {
@@ -206,6 +229,7 @@ async function fillShiftPlanWeekAction(formData: FormData): Promise<ActionResult
   }
 
   try {
+    const plannedShifts: PlannedAvailabilityShift[] = [];
     for (let offset = 0; offset < 7; offset += 1) {
       const current = new Date(weekStartDate);
       current.setDate(current.getDate() + offset);
@@ -283,12 +307,15 @@ async function fillShiftPlanWeekAction(formData: FormData): Promise<ActionResult
         label: label ?? undefined,
         branchId: branchId ?? null,
       });
+      plannedShifts.push({ employeeId, isoDate, start, end, label });
     }
 
-    await recomputeEmployeeOvertime(tenantId, employeeId);
+    await recomputeEmployeeOvertime(tenantId, employeeId, formatIsoDate(weekStartDate));
 
     revalidatePath(withAppBasePath('/admin/schichtplan'));
-    return { success: true };
+
+    const warning = await getAvailabilityWarningForShifts(tenantId, plannedShifts);
+    return warning ? { success: true, warning } : { success: true };
   } catch (error) {
     console.error('fillShiftPlanWeekAction', error);
     const message =
@@ -360,6 +387,8 @@ async function createWeekPatternAction(formData: FormData): Promise<ActionResult
 
   try {
     const affectedEmployees = new Set<number>();
+    const plannedShifts: PlannedAvailabilityShift[] = [];
+    let firstChangedDate: string | null = null;
     for (const employeeId of employeeIds) {
       for (const day of days) {
         const isoDate = (day.isoDate ?? '').trim();
@@ -420,22 +449,106 @@ async function createWeekPatternAction(formData: FormData): Promise<ActionResult
           isoDate,
           segments: normalizedSegments,
         });
+        normalizedSegments
+          .filter((segment) => segment.mode === 'available')
+          .forEach((segment) =>
+            plannedShifts.push({ employeeId, isoDate, start: segment.start, end: segment.end, label: segment.label })
+          );
+        if (!firstChangedDate || isoDate < firstChangedDate) {
+          firstChangedDate = isoDate;
+        }
       }
       affectedEmployees.add(employeeId);
     }
 
     for (const id of affectedEmployees) {
-      await recomputeEmployeeOvertime(tenantId, id);
+      await recomputeEmployeeOvertime(tenantId, id, firstChangedDate);
     }
 
     revalidatePath(withAppBasePath('/admin/schichtplan'));
-    return { success: true };
+
+    const warning = await getAvailabilityWarningForShifts(tenantId, plannedShifts);
+    return warning ? { success: true, warning } : { success: true };
   } catch (error) {
     console.error('createWeekPatternAction error', error);
     return { success: false, error: 'Wochenplan konnte nicht gespeichert werden.' };
   }
 }
 
+async function publishOpenShiftAction(formData: FormData): Promise<ActionResult> {
+  'use server';
+
+  const { session, tenantId } = await ensureAdminSession();
+
+  try {
+    await publishOpenShift(
+      tenantId,
+      {
+        branchId: formData.get('branchId'),
+        dayDate: formData.get('dayDate'),
+        start: formData.get('start'),
+        end: formData.get('end'),
+        pause: formData.get('pause'),
+        label: formData.get('label'),
+        claimMode: formData.get('claimMode'),
+      },
+      session.user.id
+    );
+    return { success: true, message: 'Die Schicht wurde ausgeschrieben.' };
+  } catch (error) {
+    console.error('publishOpenShiftAction', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Die Schicht konnte nicht ausgeschrieben werden.',
+    };
+  }
+}
+
+async function cancelOpenShiftAction(formData: FormData): Promise<ActionResult> {
+  'use server';
+
+  const { tenantId } = await ensureAdminSession();
+
+  const openShiftId = Number(formData.get('openShiftId'));
+  if (!Number.isFinite(openShiftId) || openShiftId <= 0) {
+    return { success: false, error: 'Ungültige Schicht.' };
+  }
+
+  try {
+    await cancelOpenShift(tenantId, openShiftId);
+    return { success: true, message: 'Die Schicht wurde zurückgezogen.' };
+  } catch (error) {
+    console.error('cancelOpenShiftAction', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Die Schicht konnte nicht zurückgezogen werden.',
+    };
+  }
+}
+
+async function decideOpenShiftClaimAction(formData: FormData): Promise<ActionResult> {
+  'use server';
+
+  const { tenantId } = await ensureAdminSession();
+
+  const openShiftId = Number(formData.get('openShiftId'));
+  const decision = String(formData.get('decision') ?? '');
+  if (!Number.isFinite(openShiftId) || openShiftId <= 0 || (decision !== 'approve' && decision !== 'reject')) {
+    return { success: false, error: 'Ungültige Eingabe.' };
+  }
+
+  try {
+    const message = await decideOpenShiftClaim(tenantId, openShiftId, decision === 'approve');
+    return { success: true, message };
+  } catch (error) {
+    console.error('decideOpenShiftClaimAction', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Die Entscheidung konnte nicht gespeichert werden.',
+    };
+  }
+}
+
 export default async function ShiftPlanPage({
   searchParams,
 }: {
@@ -468,6 +581,16 @@ export default async function ShiftPlanPage({
     { week: weekParam ?? null, tenantId }
   );
   const templates = await listWeeklyShiftTemplates(tenantId);
+  const earningsWarnings = await getShiftPlanEarningsWarnings(
+    tenantId,
+    plan.rows.map((row) => row.employeeId),
+    plan.weekStart,
+    plan.weekEnd
+  );
+  const coverage = await getStaffingCoverage(tenantId, plan);
+  const openShifts = await getOpenShiftsForRange(tenantId, plan.weekStart, plan.weekEnd);
+  const availability = await getShiftPlanAvailability(tenantId, plan);
+  const branches = await listBranches(tenantId);
 
   return (
     <ShiftPlanBoard
@@ -478,6 +601,16 @@ export default async function ShiftPlanPage({
       fillWeekAction={fillShiftPlanWeekAction}
       createPatternAction={createWeekPatternAction}
       templates={templates}
+      earningsWarnings={earningsWarnings}
+      coverage={coverage}
+      availability={availability}
+      openShifts={openShifts}
+      openShiftActions={{
+        publish: publishOpenShiftAction,
+        cancel: cancelOpenShiftAction,
+        decide: decideOpenShiftClaimAction,
+      }}
+      branches={branches.map((branch) => ({ id: branch.id, name: branch.name }))}
     />
   );
 }
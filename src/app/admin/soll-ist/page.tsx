@@ -0,0 +1,286 @@
+import { DateTime } from 'luxon';
+import { redirect } from 'next/navigation';
+
+import { getServerAuthSession } from '@/lib/auth/session';
+import { listBranches } from '@/lib/data/branches';
+import { withAppBasePath } from '@/lib/routes';
+import { getPlanActualReport, type PlanActualPeriod } from '@/lib/services/admin/plan-actual-report';
+import {
+  PLAN_ACTUAL_DEVIATION_LABELS,
+  PLAN_ACTUAL_TOLERANCE_MINUTES,
+  type PlanActualDeviation,
+  type PlanActualTotals,
+} from '@/lib/services/plan-actual';
+import { formatWorkSegments } from '@/lib/services/time-calculations';
+
+type SearchParams = {
+  period?: string;
+  week?: string;
+  year?: string;
+  month?: string;
+  branchId?: string;
+};
+
+const DEVIATION_BADGE_CLASSES: Record<PlanActualDeviation, string> = {
+  late_arrival: 'bg-amber-50 text-amber-700',
+  early_leave: 'bg-orange-50 text-orange-700',
+  no_show: 'bg-red-50 text-red-700',
+  unplanned: 'bg-sky-50 text-sky-700',
+};
+
+function parseParam(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function padMonth(month: number): string {
+  return String(month).padStart(2, '0');
+}
+
+function formatHours(value: number): string {
+  return value.toFixed(2).replace('.', ',');
+}
+
+function formatDay(iso: string): string {
+  return DateTime.fromISO(iso).setLocale('de').toFormat('ccc dd.MM.');
+}
+
+function buildExportHref(period: PlanActualPeriod, branchId: number | null): string {
+  const query = new URLSearchParams(
+    period.kind === 'week'
+      ? { period: 'week', week: period.isoWeek }
+      : { period: 'month', year: String(period.year), month: String(period.month) }
+  );
+  if (branchId) {
+    query.set('branchId', String(branchId));
+  }
+  return withAppBasePath(`/api/admin/soll-ist/export?${query.toString()}`, 'external');
+}
+
+function TotalsCells({ totals }: { totals: PlanActualTotals }) {
+  return (
+    <>
+      <td className="px-4 py-2 text-right text-slate-700">{formatHours(totals.plannedHours)}</td>
+      <td className="px-4 py-2 text-right text-slate-700">{formatHours(totals.actualHours)}</td>
+      <td
+        className={`px-4 py-2 text-right font-medium ${totals.deltaHours < 0 ? 'text-red-700' : 'text-slate-900'}`}
+      >
+        {formatHours(totals.deltaHours)}
+      </td>
+      <td className="px-4 py-2 text-right text-slate-700">
+        {totals.lateArrivals} {totals.lateMinutes ? `(${totals.lateMinutes} min)` : ''}
+      </td>
+      <td className="px-4 py-2 text-right text-slate-700">
+        {totals.earlyLeaves} {totals.earlyLeaveMinutes ? `(${totals.earlyLeaveMinutes} min)` : ''}
+      </td>
+      <td className="px-4 py-2 text-right text-slate-700">{totals.noShows}</td>
+      <td className="px-4 py-2 text-right text-slate-700">{totals.unplannedDays}</td>
+    </>
+  );
+}
+
+export default async function AdminSollIstPage({ searchParams }: { searchParams?: Promise<SearchParams> }) {
+  const session = await getServerAuthSession();
+  if (!session) {
+    redirect(withAppBasePath('/login'));
+  }
+  if (session.user.roleId !== 2) {
+    redirect(withAppBasePath('/mitarbeiter'));
+  }
+  const tenantId = session.tenantId;
+  if (!tenantId) {
+    redirect(withAppBasePath('/login'));
+  }
+
+  const resolved = searchParams ? await searchParams : undefined;
+  const now = DateTime.now().setZone('Europe/Berlin');
+  const periodKind = resolved?.period === 'month' ? 'month' : 'week';
+  const week = /^\d{4}-W\d{2}$/.test(resolved?.week ?? '') ? resolved!.week! : now.toFormat("kkkk-'W'WW");
+  const year = parseParam(resolved?.year) ?? now.year;
+  const preferredMonth = parseParam(resolved?.month);
+  const month = preferredMonth && preferredMonth >= 1 && preferredMonth <= 12 ? preferredMonth : now.month;
+  const period: PlanActualPeriod =
+    periodKind === 'week' ? { kind: 'week', isoWeek: week } : { kind: 'month', year, month };
+
+  const branches = await listBranches(tenantId);
+  const preferredBranchId = parseParam(resolved?.branchId);
+  const branchId = branches.some((branch) => branch.id === preferredBranchId) ? preferredBranchId ?? null : null;
+
+  const report = await getPlanActualReport(tenantId, period, branchId);
+
+  return (
+    <section className="space-y-6">
+      <header className="space-y-1">
+        <h2 className="text-2xl font-semibold text-slate-900">Soll/Ist-Vergleich</h2>
+        <p className="text-sm text-slate-500">
+          Geplante Schichten im Vergleich zu den gestempelten Zeiten. Verspätungen und früheres Gehen werden ab{' '}
+          {PLAN_ACTUAL_TOLERANCE_MINUTES} Minuten Abweichung gezählt und anhand der ungerundeten Stempel ermittelt.
+          Erfasste Abwesenheiten (Urlaub, Krank, …) gelten nicht als „nicht erschienen“.
+        </p>
+      </header>
+
+      <form
+        method="get"
+        className="flex flex-wrap items-end gap-3 rounded-xl border border-slate-200 bg-white p-4 text-sm text-slate-700 shadow-sm"
+      >
+        <label className="flex flex-col gap-1">
+          <span>Zeitraum</span>
+          <select name="period" defaultValue={periodKind} className="rounded-md border border-slate-300 px-3 py-1">
+            <option value="week">Woche</option>
+            <option value="month">Monat</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span>Kalenderwoche</span>
+          <input type="week" name="week" defaultValue={week} className="rounded-md border border-slate-300 px-3 py-1" />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span>Monat</span>
+          <div className="flex gap-2">
+            <select name="month" defaultValue={month} className="rounded-md border border-slate-300 px-3 py-1">
+              {Array.from({ length: 12 }, (_, index) => index + 1).map((option) => (
+                <option key={option} value={option}>
+                  {padMonth(option)}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              name="year"
+              defaultValue={year}
+              min={2020}
+              max={2100}
+              className="w-24 rounded-md border border-slate-300 px-3 py-1"
+            />
+          </div>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span>Filiale</span>
+          <select name="branchId" defaultValue={branchId ?? ''} className="rounded-md border border-slate-300 px-3 py-1">
+            <option value="">Alle Filialen</option>
+            {branches.map((branch) => (
+              <option key={branch.id} value={branch.id}>
+                {branch.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="submit"
+          className="rounded-md bg-brand px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-brand/90"
+        >
+          Anzeigen
+        </button>
+        <a
+          href={buildExportHref(period, branchId)}
+          className="ml-auto rounded-md border border-slate-300 px-3 py-2 text-xs font-semibold text-slate-700 shadow-sm hover:bg-slate-50"
+        >
+          Export XLSX
+        </a>
+      </form>
+
+      {report.employees.length === 0 ? (
+        <p className="rounded-xl border border-slate-200 bg-white px-4 py-3 text-sm text-slate-500">
+          Für {report.label} liegen weder geplante Schichten noch Erfassungen vor.
+        </p>
+      ) : (
+        <>
+          <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white shadow-sm">
+            <table className="min-w-full divide-y divide-slate-200 text-sm">
+              <thead className="bg-slate-50 text-left text-xs font-semibold uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="px-4 py-2">Mitarbeiter ({report.label})</th>
+                  <th className="px-4 py-2 text-right">Soll (h)</th>
+                  <th className="px-4 py-2 text-right">Ist (h)</th>
+                  <th className="px-4 py-2 text-right">Differenz</th>
+                  <th className="px-4 py-2 text-right">Verspätet</th>
+                  <th className="px-4 py-2 text-right">Früher gegangen</th>
+                  <th className="px-4 py-2 text-right">Nicht erschienen</th>
+                  <th className="px-4 py-2 text-right">Ungeplant</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {report.employees.map((employee) => (
+                  <tr key={employee.employeeId} className="hover:bg-slate-50">
+                    <td className="px-4 py-2">
+                      <a
+                        href={`#mitarbeiter-${employee.employeeId}`}
+                        className="font-medium text-slate-900 hover:text-brand"
+                      >
+                        {employee.mitarbeiter}
+                      </a>
+                      <p className="text-xs text-slate-500">{employee.branches || '—'}</p>
+                    </td>
+                    <TotalsCells totals={employee.totals} />
+                  </tr>
+                ))}
+                <tr className="bg-slate-50 font-semibold">
+                  <td className="px-4 py-2 text-slate-900">Gesamt</td>
+                  <TotalsCells totals={report.totals} />
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          {report.employees.map((employee) => (
+            <details
+              key={employee.employeeId}
+              id={`mitarbeiter-${employee.employeeId}`}
+              className="rounded-xl border border-slate-200 bg-white shadow-sm"
+              open={employee.days.some((day) => day.deviations.length > 0)}
+            >
+              <summary className="cursor-pointer px-4 py-3 text-sm font-semibold text-slate-900">
+                {employee.mitarbeiter}
+              </summary>
+              <div className="overflow-x-auto border-t border-slate-200">
+                <table className="min-w-full divide-y divide-slate-200 text-sm">
+                  <thead className="bg-slate-50 text-left text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    <tr>
+                      <th className="px-4 py-2">Tag</th>
+                      <th className="px-4 py-2">Geplant</th>
+                      <th className="px-4 py-2">Gestempelt</th>
+                      <th className="px-4 py-2 text-right">Soll</th>
+                      <th className="px-4 py-2 text-right">Ist</th>
+                      <th className="px-4 py-2 text-right">Differenz</th>
+                      <th className="px-4 py-2">Abweichung</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {employee.days.map((day) => (
+                      <tr key={day.dayDate}>
+                        <td className="whitespace-nowrap px-4 py-2 text-slate-900">{formatDay(day.dayDate)}</td>
+                        <td className="px-4 py-2 text-slate-600">{formatWorkSegments(day.plannedSegments) || '—'}</td>
+                        <td className="px-4 py-2 text-slate-600">
+                          {formatWorkSegments(day.actualSegments) || '—'}
+                          {day.actualCode && day.actualCode !== 'RA' ? ` (${day.actualCode})` : ''}
+                        </td>
+                        <td className="px-4 py-2 text-right text-slate-700">{formatHours(day.plannedHours)}</td>
+                        <td className="px-4 py-2 text-right text-slate-700">{formatHours(day.actualHours)}</td>
+                        <td className="px-4 py-2 text-right text-slate-700">{formatHours(day.deltaHours)}</td>
+                        <td className="px-4 py-2">
+                          <div className="flex flex-wrap gap-1">
+                            {day.deviations.map((deviation) => (
+                              <span
+                                key={deviation}
+                                className={`inline-flex rounded-full px-3 py-1 text-xs font-semibold ${DEVIATION_BADGE_CLASSES[deviation]}`}
+                              >
+                                {PLAN_ACTUAL_DEVIATION_LABELS[deviation]}
+                                {deviation === 'late_arrival' ? ` +${day.lateMinutes} min` : ''}
+                                {deviation === 'early_leave' ? ` −${day.earlyLeaveMinutes} min` : ''}
+                              </span>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </details>
+          ))}
+        </>
+      )}
+    </section>
+  );
+}
@@ -12,6 +12,7 @@ import {
 import { useRouter } from 'next/navigation';
 
 import type { BranchScheduleRule, BranchWeekday } from '@/lib/data/branches';
+import { withAppBasePath } from '@/lib/routes';
 import {
   COUNTRY_OPTIONS,
   getDefaultTimezone,
@@ -58,6 +59,7 @@ type ScheduleSegment = {
   id: string;
   start: string;
   end: string;
+  minStaff: string;
 };
 
 type DayScheduleState = {
@@ -136,6 +138,7 @@ function buildScheduleState(rules: BranchScheduleRule[]): WeeklyScheduleState {
       id: createSegmentId(),
       start: minutesToTime(rule.startsAtMinutes),
       end: minutesToTime(rule.endsAtMinutes),
+      minStaff: String(rule.minStaff),
     });
   }
 
@@ -157,6 +160,7 @@ type SerializedSchedule =
       startsAtMinutes: number | null;
       endsAtMinutes: number | null;
       isActive: boolean;
+      minStaff?: number;
     }[];
 
 function serializeScheduleState(state: WeeklyScheduleState): {
@@ -201,6 +205,11 @@ function serializeScheduleState(state: WeeklyScheduleState): {
         errors.push(`${WEEKDAY_LABEL[weekday]}: Zeitspannen dürfen sich nicht überlappen.`);
         return;
       }
+      const minStaff = Number(segment.minStaff);
+      if (!Number.isInteger(minStaff) || minStaff < 0 || minStaff > 99) {
+        errors.push(`${WEEKDAY_LABEL[weekday]}: Mindestbesetzung muss zwischen 0 und 99 liegen.`);
+        return;
+      }
 
       previousEnd = end;
       payload.push({
@@ -208,6 +217,7 @@ function serializeScheduleState(state: WeeklyScheduleState): {
         startsAtMinutes: start,
         endsAtMinutes: end,
         isActive: true,
+        minStaff,
       });
     });
   }
@@ -242,6 +252,7 @@ function useScheduleState(initial: BranchScheduleRule[]) {
                 id: createSegmentId(),
                 start: '09:00',
                 end: '18:00',
+                minStaff: '1',
               },
             ];
 
@@ -260,7 +271,7 @@ function useScheduleState(initial: BranchScheduleRule[]) {
   );
 
   const updateSegment = useCallback(
-    (weekday: BranchWeekday, segmentId: string, field: 'start' | 'end', value: string) => {
+    (weekday: BranchWeekday, segmentId: string, field: 'start' | 'end' | 'minStaff', value: string) => {
       setSchedule((prev) => {
         const day = prev[weekday];
         if (!day) {
@@ -300,6 +311,7 @@ function useScheduleState(initial: BranchScheduleRule[]) {
             id: createSegmentId(),
             start: fallbackStart,
             end: fallbackEnd,
+            minStaff: last ? last.minStaff : '1',
           },
         ];
         return {
@@ -354,6 +366,7 @@ function useScheduleState(initial: BranchScheduleRule[]) {
                     id: createSegmentId(),
                     start: '09:00',
                     end: '18:00',
+                    minStaff: '1',
                   },
                 ],
               };
@@ -467,6 +480,19 @@ function ScheduleEditor({
                             className="rounded border border-slate-300 px-2 py-1 text-xs text-slate-700 focus:border-brand focus:outline-none focus:ring-2 focus:ring-brand/20 disabled:cursor-not-allowed"
                           />
                         </label>
+                        <label className="flex items-center gap-2 text-xs text-slate-600">
+                          <span>Mindestbesetzung</span>
+                          <input
+                            type="number"
+                            min={0}
+                            max={99}
+                            step={1}
+                            value={segment.minStaff}
+                            onChange={(event) => updateSegment(weekday, segment.id, 'minStaff', event.target.value)}
+                            disabled={disabled}
+                            className="w-16 rounded border border-slate-300 px-2 py-1 text-xs text-slate-700 focus:border-brand focus:outline-none focus:ring-2 focus:ring-brand/20 disabled:cursor-not-allowed"
+                          />
+                        </label>
                       </div>
                       <button
                         type="button"
@@ -673,6 +699,13 @@ function LocationDetailPanel({
           </p>
         </div>
         <div className="flex gap-2">
+          <a
+            href={withAppBasePath(`/kiosk/activate?branchId=${location.id}`, 'external')}
+            className="rounded-md border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 hover:bg-slate-50"
+            title="Verknüpft dieses Gerät als PIN-Stempeluhr mit dem Standort."
+          >
+            Stempeluhr starten
+          </a>
           <button
             type="button"
             onClick={handleSubmit}
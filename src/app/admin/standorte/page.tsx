@@ -63,6 +63,7 @@ function parseLocationForm(
         endsAtMinutes: entry.endsAtMinutes ?? null,
         isActive: entry.isActive ?? true,
         segmentIndex: entry.segmentIndex,
+        minStaff: entry.minStaff ?? null,
       }));
     } catch {
       return { error: 'Öffnungszeiten sind kein gültiges JSON.' };
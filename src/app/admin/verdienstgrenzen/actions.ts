@@ -0,0 +1,76 @@
+import { revalidatePath } from 'next/cache';
+import { redirect } from 'next/navigation';
+import { DateTime } from 'luxon';
+
+import { getServerAuthSession } from '@/lib/auth/session';
+import { withAppBasePath } from '@/lib/routes';
+import {
+  getEarningsLimitRules,
+  resetTenantEarningsLimitRule,
+  saveTenantEarningsLimitRule,
+} from '@/lib/services/earnings-limits';
+
+import type { EarningsLimitRuleFormState } from './types';
+
+export function ensureAdmin(session: Awaited<ReturnType<typeof getServerAuthSession>>) {
+  if (!session?.user) {
+    redirect(withAppBasePath('/login'));
+  }
+  if (session.user.roleId !== 2) {
+    redirect(withAppBasePath('/mitarbeiter'));
+  }
+}
+
+/** The previous, current and next year are always listed, together with every year the tenant stored. */
+export function earningsLimitRuleYears(): number[] {
+  const year = DateTime.now().setZone('Europe/Berlin').year;
+  return [year - 1, year, year + 1];
+}
+
+export async function earningsLimitRuleAction(
+  prevState: EarningsLimitRuleFormState,
+  formData: FormData
+): Promise<EarningsLimitRuleFormState> {
+  'use server';
+
+  const session = await getServerAuthSession();
+  ensureAdmin(session);
+
+  const tenantId = session?.tenantId;
+  if (!tenantId) {
+    redirect(withAppBasePath('/login'));
+  }
+
+  const intent = String(formData.get('intent') ?? 'save');
+  const year = Number.parseInt(String(formData.get('year') ?? ''), 10);
+  const readAmount = (name: string) => Number.parseFloat(String(formData.get(name) ?? '').replace(',', '.'));
+
+  try {
+    if (intent === 'reset') {
+      await resetTenantEarningsLimitRule(tenantId, year);
+    } else {
+      await saveTenantEarningsLimitRule(tenantId, {
+        year,
+        minijobMonthlyLimit: readAmount('minijob_monthly_limit'),
+        midijobMonthlyLimit: readAmount('midijob_monthly_limit'),
+      });
+    }
+  } catch (error) {
+    return {
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Die Grenzen konnten nicht gespeichert werden.',
+      rules: await getEarningsLimitRules(tenantId, earningsLimitRuleYears()),
+    };
+  }
+
+  revalidatePath(withAppBasePath('/admin/verdienstgrenzen'));
+  revalidatePath(withAppBasePath('/admin/schichtplan'));
+  return {
+    status: 'success',
+    message:
+      intent === 'reset'
+        ? `Verdienstgrenzen ${year} gelten wieder nach Gesetz.`
+        : `Verdienstgrenzen ${year} wurden gespeichert.`,
+    rules: await getEarningsLimitRules(tenantId, earningsLimitRuleYears()),
+  };
+}
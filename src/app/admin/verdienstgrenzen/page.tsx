@@ -0,0 +1,163 @@
+import { getServerAuthSession } from '@/lib/auth/session';
+import {
+  EARNINGS_LIMIT_KIND_LABELS,
+  OCCASIONAL_EXCEEDANCE_MONTHS,
+  getEarningsLimitReport,
+  getEarningsLimitRules,
+  type EarningsLimitStatus,
+} from '@/lib/services/earnings-limits';
+
+import EarningsLimitRulesForm from './EarningsLimitRulesForm';
+import { earningsLimitRuleAction, earningsLimitRuleYears, ensureAdmin } from './actions';
+import type { EarningsLimitRuleFormState } from './types';
+
+const INITIAL_RULE_FORM_STATE: EarningsLimitRuleFormState = {};
+
+const MONTH_SHORT = ['Jan', 'Feb', 'Mär', 'Apr', 'Mai', 'Jun', 'Jul', 'Aug', 'Sep', 'Okt', 'Nov', 'Dez'];
+
+const STATUS_BADGES: Record<EarningsLimitStatus, { label: string; className: string }> = {
+  ok: { label: 'Im Rahmen', className: 'bg-emerald-50 text-emerald-700' },
+  warning: { label: 'Monatsgrenze überschritten', className: 'bg-amber-50 text-amber-700' },
+  exceeded: { label: 'Grenze überschritten', className: 'bg-red-50 text-red-700' },
+};
+
+const currencyFormatter = new Intl.NumberFormat('de-DE', { style: 'currency', currency: 'EUR' });
+
+function parseYear(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed >= 2000 && parsed <= 2100 ? parsed : fallback;
+}
+
+export default async function AdminVerdienstgrenzenPage({
+  searchParams,
+}: {
+  searchParams?: Promise<{ year?: string }>;
+}) {
+  const session = await getServerAuthSession();
+  ensureAdmin(session);
+
+  const tenantId = session?.tenantId;
+  if (!tenantId) {
+    throw new Error('Tenant-Kontext fehlt.');
+  }
+
+  const years = earningsLimitRuleYears();
+  const resolved = searchParams ? await searchParams : undefined;
+  const year = parseYear(resolved?.year, years[1]!);
+  const [rules, rows] = await Promise.all([
+    getEarningsLimitRules(tenantId, years),
+    getEarningsLimitReport(tenantId, year),
+  ]);
+
+  return (
+    <div className="space-y-10">
+      <section className="space-y-6">
+        <header className="space-y-1">
+          <h2 className="text-2xl font-semibold text-slate-900">Minijob- und Midijob-Verdienst {year}</h2>
+          <p className="text-sm text-slate-500">
+            Überwacht werden aktive Mitarbeiter mit der Einstellungsart Minijob oder Midijob. Erfasste Tage zählen mit
+            Arbeitszeit und bezahlten Abwesenheitsstunden, noch nicht erfasste Tage mit den geplanten Schichten. Eine
+            Monatsgrenze darf nur gelegentlich in höchstens {OCCASIONAL_EXCEEDANCE_MONTHS} Monaten überschritten
+            werden.
+          </p>
+        </header>
+
+        <form
+          method="get"
+          className="flex flex-wrap items-end gap-3 rounded-xl border border-slate-200 bg-white p-4 text-sm text-slate-700 shadow-sm"
+        >
+          <label className="flex flex-col gap-1">
+            <span>Jahr</span>
+            <select name="year" defaultValue={year} className="rounded-md border border-slate-300 px-3 py-1">
+              {Array.from(new Set([...years, year]))
+                .sort((a, b) => b - a)
+                .map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+            </select>
+          </label>
+          <button
+            type="submit"
+            className="rounded-md bg-brand px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-brand/90"
+          >
+            Anzeigen
+          </button>
+        </form>
+
+        {rows.length === 0 ? (
+          <p className="rounded-xl border border-slate-200 bg-white px-4 py-3 text-sm text-slate-500">
+            Keine aktiven Mitarbeiter mit Minijob oder Midijob.
+          </p>
+        ) : (
+          <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white shadow-sm">
+            <table className="min-w-full divide-y divide-slate-200 text-sm">
+              <thead className="bg-slate-50 text-left text-xs font-semibold uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="px-4 py-2">Mitarbeiter</th>
+                  <th className="px-4 py-2">Art</th>
+                  {MONTH_SHORT.map((label) => (
+                    <th key={label} className="px-2 py-2 text-right">
+                      {label}
+                    </th>
+                  ))}
+                  <th className="px-4 py-2 text-right">Jahr</th>
+                  <th className="px-4 py-2">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {rows.map((row) => (
+                  <tr key={row.employeeId} className="hover:bg-slate-50">
+                    <td className="whitespace-nowrap px-4 py-2 font-medium text-slate-900">{row.mitarbeiter}</td>
+                    <td className="px-4 py-2 text-slate-600">
+                      {EARNINGS_LIMIT_KIND_LABELS[row.kind]} ({currencyFormatter.format(row.monthlyLimit)})
+                    </td>
+                    {row.months.map((month) => (
+                      <td
+                        key={month.month}
+                        title={`Erfasst ${currencyFormatter.format(month.recordedEarnings)}, geplant ${currencyFormatter.format(
+                          month.plannedEarnings
+                        )}`}
+                        className={`whitespace-nowrap px-2 py-2 text-right ${
+                          month.exceeded ? 'font-semibold text-red-700' : 'text-slate-700'
+                        }`}
+                      >
+                        {Math.round(month.projectedEarnings).toLocaleString('de-DE')}
+                      </td>
+                    ))}
+                    <td
+                      className={`whitespace-nowrap px-4 py-2 text-right ${
+                        row.projectedAnnualEarnings > row.annualLimit ? 'font-semibold text-red-700' : 'text-slate-900'
+                      }`}
+                    >
+                      {currencyFormatter.format(row.projectedAnnualEarnings)}
+                      <span className="block text-xs font-normal text-slate-500">
+                        von {currencyFormatter.format(row.annualLimit)}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2">
+                      <span
+                        className={`inline-flex whitespace-nowrap rounded-full px-3 py-1 text-xs font-semibold ${
+                          STATUS_BADGES[row.status].className
+                        }`}
+                      >
+                        {STATUS_BADGES[row.status].label}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <EarningsLimitRulesForm
+        initialRules={rules}
+        ruleAction={earningsLimitRuleAction}
+        ruleInitialState={INITIAL_RULE_FORM_STATE}
+      />
+    </div>
+  );
+}
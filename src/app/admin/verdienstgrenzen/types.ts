@@ -0,0 +1,7 @@
+import type { EarningsLimitRule } from '@/lib/services/earnings-limits';
+
+export type EarningsLimitRuleFormState = {
+  status?: 'success' | 'error';
+  message?: string;
+  rules?: EarningsLimitRule[];
+};
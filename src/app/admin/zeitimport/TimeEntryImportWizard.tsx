@@ -0,0 +1,253 @@
+'use client';
+
+import { useActionState, useState } from 'react';
+import { useFormStatus } from 'react-dom';
+
+import type { TimeEntryImportField, TimeEntryImportRow } from '@/lib/services/admin/time-entry-import';
+
+import type { timeEntryImportAction } from './actions';
+import type { TimeEntryImportFormState } from './types';
+
+type Props = {
+  importAction: typeof timeEntryImportAction;
+  importInitialState: TimeEntryImportFormState;
+};
+
+const FIELD_OPTIONS: Array<{ key: TimeEntryImportField; label: string; required?: boolean }> = [
+  { key: 'personalNr', label: 'Personal-Nr.', required: true },
+  { key: 'dayDate', label: 'Datum', required: true },
+  { key: 'kommt1', label: 'Kommt 1' },
+  { key: 'geht1', label: 'Geht 1' },
+  { key: 'kommt2', label: 'Kommt 2' },
+  { key: 'geht2', label: 'Geht 2' },
+  { key: 'pause', label: 'Pause' },
+  { key: 'code', label: 'Code' },
+  { key: 'brutto', label: 'Brutto' },
+  { key: 'mittag', label: 'Verpflegung' },
+  { key: 'bemerkungen', label: 'Bemerkungen' },
+];
+
+function IntentButton({
+  intent,
+  label,
+  pendingLabel,
+  variant = 'secondary',
+  confirmMessage,
+  disabled,
+}: {
+  intent: 'preview' | 'commit' | 'reset';
+  label: string;
+  pendingLabel?: string;
+  variant?: 'primary' | 'secondary';
+  confirmMessage?: string;
+  disabled?: boolean;
+}) {
+  const { pending, data } = useFormStatus();
+  const active = pending && data?.get('intent') === intent;
+  const className =
+    variant === 'primary'
+      ? 'rounded-md bg-brand px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-brand/90 disabled:cursor-not-allowed disabled:opacity-60'
+      : 'rounded-md border border-slate-300 px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60';
+  return (
+    <button
+      type="submit"
+      name="intent"
+      value={intent}
+      disabled={pending || disabled}
+      onClick={(event) => {
+        if (confirmMessage && !window.confirm(confirmMessage)) {
+          event.preventDefault();
+        }
+      }}
+      className={className}
+    >
+      {active && pendingLabel ? pendingLabel : label}
+    </button>
+  );
+}
+
+function formatDate(iso: string | null): string {
+  if (!iso) return '—';
+  const [year, month, day] = iso.split('-');
+  return `${day}.${month}.${year}`;
+}
+
+function formatSegments(row: TimeEntryImportRow): string {
+  const text = row.segments
+    .map((segment) => `${segment.kommt ?? '?'}–${segment.geht ?? '?'}`)
+    .join(', ');
+  return text || '—';
+}
+
+export default function TimeEntryImportWizard({ importAction, importInitialState }: Props) {
+  const [state, formAction] = useActionState(importAction, importInitialState);
+  const [onlyInvalid, setOnlyInvalid] = useState(false);
+
+  const preview = state.preview;
+  const rows = preview ? preview.rows.filter((row) => !onlyInvalid || row.errors.length) : [];
+  const feedbackClass =
+    state.status === 'success'
+      ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+      : 'border-red-200 bg-red-50 text-red-700';
+
+  return (
+    <section className="space-y-6">
+      <header className="space-y-1">
+        <h2 className="text-2xl font-semibold text-slate-900">Zeiten importieren</h2>
+        <p className="text-sm text-slate-500">
+          Übernimmt alte Stundenlisten aus einer CSV- oder XLSX-Datei (eine Zeile je Mitarbeiter und Tag). Die
+          Mitarbeiter werden über die Personal-Nr. zugeordnet. Vor dem Import zeigt die Vorschau jede Zeile mit
+          denselben Prüfungen wie bei der manuellen Erfassung; gespeichert wird erst mit „Import ausführen“ – dann
+          alle Zeilen gemeinsam oder gar keine.
+        </p>
+      </header>
+
+      {state.message ? (
+        <p className={`rounded-lg border px-4 py-3 text-sm ${feedbackClass}`}>{state.message}</p>
+      ) : null}
+
+      {!state.fileData ? (
+        <form
+          action={formAction}
+          className="flex flex-wrap items-end gap-3 rounded-xl border border-slate-200 bg-white p-4 text-sm text-slate-700 shadow-sm"
+        >
+          <label className="flex flex-col gap-1">
+            <span>Datei</span>
+            <input
+              type="file"
+              name="file"
+              accept=".csv,.txt,.xlsx,.xls"
+              required
+              className="rounded-md border border-dashed border-slate-300 px-4 py-3 text-sm text-slate-600"
+            />
+            <span className="text-xs text-slate-500">CSV (Trennzeichen „;“ oder „,“) oder XLSX, erste Zeile mit Spaltenüberschriften.</span>
+          </label>
+          <IntentButton intent="preview" label="Datei prüfen" pendingLabel="Prüfe…" variant="primary" />
+        </form>
+      ) : (
+        <form action={formAction} className="space-y-6">
+          <input type="hidden" name="file_name" value={state.fileName ?? ''} />
+          <input type="hidden" name="file_data" value={state.fileData} />
+
+          <div className="space-y-3 rounded-xl border border-slate-200 bg-white p-4 text-sm text-slate-700 shadow-sm">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h3 className="font-semibold text-slate-900">Spaltenzuordnung für {state.fileName}</h3>
+              <IntentButton intent="reset" label="Andere Datei wählen" />
+            </div>
+            <div className="grid gap-3 sm:grid-cols-3 lg:grid-cols-4">
+              {FIELD_OPTIONS.map((field) => (
+                <label key={field.key} className="flex flex-col gap-1">
+                  <span>
+                    {field.label}
+                    {field.required ? ' *' : ''}
+                  </span>
+                  <select
+                    name={`map_${field.key}`}
+                    defaultValue={state.mapping?.[field.key] ?? ''}
+                    className="rounded-md border border-slate-300 px-3 py-1"
+                  >
+                    <option value="">— nicht importieren —</option>
+                    {(state.headers ?? []).map((header, index) => (
+                      <option key={index} value={index}>
+                        {header || `Spalte ${index + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+            <IntentButton intent="preview" label="Vorschau aktualisieren" pendingLabel="Prüfe…" />
+          </div>
+
+          {preview ? (
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center gap-4 text-sm text-slate-700">
+                <span>
+                  <span className="font-semibold text-emerald-700">{preview.validCount}</span> gültige Zeilen,{' '}
+                  <span className="font-semibold text-red-700">{preview.invalidCount}</span> mit Fehlern
+                </span>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={onlyInvalid}
+                    onChange={(event) => setOnlyInvalid(event.target.checked)}
+                    className="h-4 w-4"
+                  />
+                  Nur fehlerhafte Zeilen anzeigen
+                </label>
+              </div>
+
+              <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white shadow-sm">
+                <table className="min-w-full divide-y divide-slate-200 text-sm">
+                  <thead className="bg-slate-50 text-left text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    <tr>
+                      <th className="px-4 py-2">Zeile</th>
+                      <th className="px-4 py-2">Mitarbeiter</th>
+                      <th className="px-4 py-2">Datum</th>
+                      <th className="px-4 py-2">Zeiten</th>
+                      <th className="px-4 py-2">Pause</th>
+                      <th className="px-4 py-2">Code</th>
+                      <th className="px-4 py-2 text-right">Brutto</th>
+                      <th className="px-4 py-2">Prüfung</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {rows.map((row) => (
+                      <tr key={row.line} className={row.errors.length ? 'bg-red-50/60' : undefined}>
+                        <td className="px-4 py-2 text-slate-500">{row.line}</td>
+                        <td className="px-4 py-2 text-slate-900">
+                          {row.employeeName ?? '—'}
+                          <p className="text-xs text-slate-500">{row.personalNr || '—'}</p>
+                        </td>
+                        <td className="whitespace-nowrap px-4 py-2 text-slate-700">{formatDate(row.dayDate)}</td>
+                        <td className="px-4 py-2 text-slate-700">{formatSegments(row)}</td>
+                        <td className="px-4 py-2 text-slate-700">{row.pause ?? '—'}</td>
+                        <td className="px-4 py-2 text-slate-700">{row.code}</td>
+                        <td className="px-4 py-2 text-right text-slate-700">
+                          {row.brutto === null ? '—' : row.brutto.toFixed(2).replace('.', ',')}
+                        </td>
+                        <td className="px-4 py-2 text-xs">
+                          {row.errors.map((error) => (
+                            <p key={error} className="text-red-700">
+                              {error}
+                            </p>
+                          ))}
+                          {row.warnings.map((warning) => (
+                            <p key={warning} className="text-amber-700">
+                              {warning}
+                            </p>
+                          ))}
+                          {row.overwrites ? <p className="text-slate-500">Ersetzt vorhandenen Eintrag.</p> : null}
+                          {!row.errors.length && !row.warnings.length && !row.overwrites ? (
+                            <p className="text-emerald-700">OK</p>
+                          ) : null}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-4 rounded-xl border border-slate-200 bg-white p-4 text-sm text-slate-700 shadow-sm">
+                {preview.invalidCount ? (
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" name="skip_invalid" className="h-4 w-4" />
+                    Fehlerhafte Zeilen überspringen und nur gültige importieren
+                  </label>
+                ) : null}
+                <IntentButton
+                  intent="commit"
+                  label="Import ausführen"
+                  pendingLabel="Importiere…"
+                  variant="primary"
+                  disabled={!preview.validCount}
+                  confirmMessage={`${preview.validCount} Tage importieren? Vorhandene Einträge dieser Tage werden ersetzt.`}
+                />
+              </div>
+            </div>
+          ) : null}
+        </form>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,101 @@
+import { revalidatePath } from 'next/cache';
+import { redirect } from 'next/navigation';
+
+import { getServerAuthSession } from '@/lib/auth/session';
+import { withAppBasePath } from '@/lib/routes';
+import {
+  commitTimeEntryImport,
+  guessTimeEntryImportMapping,
+  previewTimeEntryImport,
+  readTimeEntryImportFile,
+  TIME_ENTRY_IMPORT_FIELDS,
+  type TimeEntryImportMapping,
+} from '@/lib/services/admin/time-entry-import';
+
+import type { TimeEntryImportFormState } from './types';
+
+export function ensureAdmin(session: Awaited<ReturnType<typeof getServerAuthSession>>) {
+  if (!session?.user) {
+    redirect(withAppBasePath('/login'));
+  }
+  if (session.user.roleId !== 2) {
+    redirect(withAppBasePath('/mitarbeiter'));
+  }
+}
+
+function readMapping(formData: FormData, columnCount: number): TimeEntryImportMapping {
+  const mapping: TimeEntryImportMapping = {};
+  for (const { key } of TIME_ENTRY_IMPORT_FIELDS) {
+    const index = Number.parseInt(String(formData.get(`map_${key}`) ?? ''), 10);
+    if (Number.isFinite(index) && index >= 0 && index < columnCount) {
+      mapping[key] = index;
+    }
+  }
+  return mapping;
+}
+
+export async function timeEntryImportAction(
+  prevState: TimeEntryImportFormState,
+  formData: FormData
+): Promise<TimeEntryImportFormState> {
+  'use server';
+
+  const session = await getServerAuthSession();
+  ensureAdmin(session);
+
+  const tenantId = session?.tenantId;
+  if (!tenantId) {
+    redirect(withAppBasePath('/login'));
+  }
+
+  const intent = String(formData.get('intent') ?? 'preview');
+  if (intent === 'reset') {
+    return {};
+  }
+
+  const fileEntry = formData.get('file');
+  const uploaded = fileEntry instanceof File && fileEntry.size > 0;
+  const fileName = uploaded ? fileEntry.name : String(formData.get('file_name') ?? '');
+  const fileData = uploaded
+    ? Buffer.from(await fileEntry.arrayBuffer()).toString('base64')
+    : String(formData.get('file_data') ?? '');
+  if (!fileName || !fileData) {
+    return { status: 'error', message: 'Bitte wähle eine CSV- oder XLSX-Datei aus.' };
+  }
+
+  const fileState: TimeEntryImportFormState = { fileName, fileData };
+  try {
+    const sheet = readTimeEntryImportFile(fileName, Buffer.from(fileData, 'base64'));
+    const mapping = uploaded ? guessTimeEntryImportMapping(sheet.headers) : readMapping(formData, sheet.headers.length);
+    fileState.headers = sheet.headers;
+    fileState.mapping = mapping;
+
+    if (intent === 'commit') {
+      const adminName =
+        [session.user.firstName?.trim(), session.user.lastName?.trim()].filter(Boolean).join(' ') ||
+        session.user.username ||
+        'Admin';
+      const result = await commitTimeEntryImport(tenantId, sheet, mapping, {
+        skipInvalid: formData.get('skip_invalid') === 'on',
+        performedBy: { id: session.user.id, name: adminName },
+      });
+      revalidatePath(withAppBasePath('/admin'));
+      return {
+        status: 'success',
+        message: `${result.imported} ${result.imported === 1 ? 'Tag wurde' : 'Tage wurden'} importiert.${
+          result.skipped ? ` ${result.skipped} fehlerhafte ${result.skipped === 1 ? 'Zeile wurde' : 'Zeilen wurden'} übersprungen.` : ''
+        } Die Überstundenkonten der betroffenen Mitarbeiter wurden neu berechnet.`,
+      };
+    }
+
+    const preview = await previewTimeEntryImport(tenantId, sheet, mapping);
+    return { ...fileState, preview };
+  } catch (error) {
+    console.error('[zeitimport] import failed', error);
+    return {
+      ...fileState,
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Die Datei konnte nicht verarbeitet werden.',
+    };
+  }
+}
@@ -0,0 +1,18 @@
+import { getServerAuthSession } from '@/lib/auth/session';
+
+import TimeEntryImportWizard from './TimeEntryImportWizard';
+import { ensureAdmin, timeEntryImportAction } from './actions';
+import type { TimeEntryImportFormState } from './types';
+
+const INITIAL_FORM_STATE: TimeEntryImportFormState = {};
+
+export default async function AdminZeitimportPage() {
+  const session = await getServerAuthSession();
+  ensureAdmin(session);
+
+  if (!session?.tenantId) {
+    throw new Error('Tenant-Kontext fehlt.');
+  }
+
+  return <TimeEntryImportWizard importAction={timeEntryImportAction} importInitialState={INITIAL_FORM_STATE} />;
+}
@@ -0,0 +1,12 @@
+import type { TimeEntryImportMapping, TimeEntryImportPreview } from '@/lib/services/admin/time-entry-import';
+
+export type TimeEntryImportFormState = {
+  status?: 'success' | 'error';
+  message?: string;
+  /** The uploaded file travels with the state so mapping changes and the import reuse it. */
+  fileName?: string;
+  fileData?: string;
+  headers?: string[];
+  mapping?: TimeEntryImportMapping;
+  preview?: TimeEntryImportPreview;
+};
@@ -0,0 +1,189 @@
+'use client';
+
+import { useActionState, useState } from 'react';
+import { useFormStatus } from 'react-dom';
+
+import type { TimeRoundingRule, TimeRoundingSettings } from '@/lib/data/time-rounding-settings';
+
+import type { saveTimeRoundingSettingsAction } from './actions';
+import type { TimeRoundingFormState } from './types';
+
+const GRANULARITY_OPTIONS = [
+  { value: 0, label: 'Keine Rundung' },
+  { value: 5, label: '5 Minuten' },
+  { value: 10, label: '10 Minuten' },
+  { value: 15, label: '15 Minuten' },
+  { value: 30, label: '30 Minuten' },
+];
+
+const DIRECTION_OPTIONS = [
+  { value: 'up', label: 'aufrunden' },
+  { value: 'down', label: 'abrunden' },
+  { value: 'nearest', label: 'kaufmännisch' },
+];
+
+function SaveButton() {
+  const { pending } = useFormStatus();
+  return (
+    <button
+      type="submit"
+      className="rounded-md bg-brand px-4 py-2 text-sm font-semibold text-white shadow-sm disabled:cursor-not-allowed disabled:opacity-60"
+      disabled={pending}
+    >
+      {pending ? 'Speichern…' : 'Einstellungen speichern'}
+    </button>
+  );
+}
+
+function RuleFields({ prefix, rule, disabled }: { prefix: string; rule: TimeRoundingRule; disabled?: boolean }) {
+  const stamps = [
+    { key: 'kommt', label: 'Kommt', minutes: rule.kommtMinutes, direction: rule.kommtDirection },
+    { key: 'geht', label: 'Geht', minutes: rule.gehtMinutes, direction: rule.gehtDirection },
+  ];
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      {stamps.map((stamp) => (
+        <div key={stamp.key} className="grid grid-cols-2 gap-2">
+          <label className="flex flex-col gap-1 text-sm">
+            <span>{stamp.label}: Raster</span>
+            <select
+              name={`${prefix}${stamp.key}Minutes`}
+              defaultValue={stamp.minutes}
+              disabled={disabled}
+              className="rounded-md border border-slate-300 px-3 py-2 disabled:bg-slate-50"
+            >
+              {GRANULARITY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span>{stamp.label}: Richtung</span>
+            <select
+              name={`${prefix}${stamp.key}Direction`}
+              defaultValue={stamp.direction}
+              disabled={disabled}
+              className="rounded-md border border-slate-300 px-3 py-2 disabled:bg-slate-50"
+            >
+              {DIRECTION_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+type TimeRoundingSettingsFormProps = {
+  initialSettings: TimeRoundingSettings;
+  branches: Array<{ id: number; name: string }>;
+  saveAction: typeof saveTimeRoundingSettingsAction;
+  saveInitialState: TimeRoundingFormState;
+};
+
+export default function TimeRoundingSettingsForm({
+  initialSettings,
+  branches,
+  saveAction,
+  saveInitialState,
+}: TimeRoundingSettingsFormProps) {
+  const [formState, formAction] = useActionState(saveAction, saveInitialState);
+  const settings = formState?.settings ?? initialSettings;
+  const [customBranches, setCustomBranches] = useState<Set<number>>(
+    () => new Set(Object.keys(initialSettings.branchRules).map(Number))
+  );
+
+  const setBranchMode = (branchId: number, custom: boolean) => {
+    setCustomBranches((prev) => {
+      const next = new Set(prev);
+      if (custom) {
+        next.add(branchId);
+      } else {
+        next.delete(branchId);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <section className="space-y-6">
+      <header className="space-y-1">
+        <h2 className="text-2xl font-semibold text-slate-900">Zeitrundung</h2>
+        <p className="text-sm text-slate-500">
+          Kommt- und Geht-Zeiten werden beim Speichern auf das eingestellte Raster gerundet – am Kiosk, bei manueller
+          Erfassung und durch die Verwaltung. Ist-Stunden und Überstunden werden aus den gerundeten Zeiten berechnet;
+          die ursprünglich gestempelten Zeiten bleiben am Eintrag erhalten und werden in der Tagesübersicht angezeigt.
+        </p>
+      </header>
+
+      {formState?.status && formState.message ? (
+        <div
+          className={`rounded-md border px-3 py-2 text-sm ${
+            formState.status === 'success'
+              ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+              : 'border-red-200 bg-red-50 text-red-700'
+          }`}
+        >
+          {formState.message}
+        </div>
+      ) : null}
+
+      <form key={JSON.stringify(settings)} action={formAction} className="space-y-6">
+        <div className="flex items-center gap-3">
+          <input id="enabled" name="enabled" type="checkbox" defaultChecked={settings.enabled} className="h-4 w-4" />
+          <label htmlFor="enabled" className="text-sm text-slate-700">
+            Zeiten beim Speichern runden
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-slate-900">Standard für alle Filialen</h3>
+          <RuleFields prefix="" rule={settings.rule} />
+        </div>
+
+        {branches.length ? (
+          <div className="space-y-4">
+            <h3 className="text-sm font-semibold text-slate-900">Abweichende Regeln je Filiale</h3>
+            {branches.map((branch) => {
+              const custom = customBranches.has(branch.id);
+              return (
+                <div key={branch.id} className="space-y-3 rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+                  <label className="flex items-center justify-between gap-3 text-sm">
+                    <span className="font-medium text-slate-900">{branch.name}</span>
+                    <select
+                      name={`branch_${branch.id}_mode`}
+                      value={custom ? 'custom' : 'inherit'}
+                      onChange={(event) => setBranchMode(branch.id, event.target.value === 'custom')}
+                      className="rounded-md border border-slate-300 px-3 py-1"
+                    >
+                      <option value="inherit">Standard übernehmen</option>
+                      <option value="custom">Eigene Regel</option>
+                    </select>
+                  </label>
+                  <RuleFields
+                    prefix={`branch_${branch.id}_`}
+                    rule={settings.branchRules[branch.id] ?? settings.rule}
+                    disabled={!custom}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        ) : null}
+
+        <p className="text-xs text-slate-500">
+          Gerundet wird innerhalb des Kalendertags; ein Block wird durch die Rundung höchstens auf null Minuten
+          verkürzt. Bereits gespeicherte Einträge bleiben unverändert, bis sie erneut gespeichert werden.
+        </p>
+
+        <SaveButton />
+      </form>
+    </section>
+  );
+}
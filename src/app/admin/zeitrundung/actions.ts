@@ -0,0 +1,64 @@
+import { redirect } from 'next/navigation';
+
+import { getServerAuthSession } from '@/lib/auth/session';
+import { listBranches } from '@/lib/data/branches';
+import { saveTimeRoundingSettings, type TimeRoundingRule } from '@/lib/data/time-rounding-settings';
+import { withAppBasePath } from '@/lib/routes';
+import { sanitizeTimeRoundingRule } from '@/lib/services/time-rounding';
+
+import type { TimeRoundingFormState } from './types';
+
+export function ensureAdmin(session: Awaited<ReturnType<typeof getServerAuthSession>>) {
+  if (!session?.user) {
+    redirect(withAppBasePath('/login'));
+  }
+  if (session.user.roleId !== 2) {
+    redirect(withAppBasePath('/mitarbeiter'));
+  }
+}
+
+function readRule(formData: FormData, prefix: string): TimeRoundingRule {
+  return sanitizeTimeRoundingRule({
+    kommtMinutes: formData.get(`${prefix}kommtMinutes`),
+    kommtDirection: formData.get(`${prefix}kommtDirection`),
+    gehtMinutes: formData.get(`${prefix}gehtMinutes`),
+    gehtDirection: formData.get(`${prefix}gehtDirection`),
+  });
+}
+
+export async function saveTimeRoundingSettingsAction(
+  prevState: TimeRoundingFormState,
+  formData: FormData
+): Promise<TimeRoundingFormState> {
+  'use server';
+
+  const session = await getServerAuthSession();
+  ensureAdmin(session);
+
+  const tenantId = session?.tenantId;
+  if (!tenantId) {
+    redirect(withAppBasePath('/login'));
+  }
+
+  const branches = await listBranches(tenantId);
+  const branchRules: Record<number, TimeRoundingRule> = {};
+  for (const branch of branches) {
+    if (formData.get(`branch_${branch.id}_mode`) === 'custom') {
+      branchRules[branch.id] = readRule(formData, `branch_${branch.id}_`);
+    }
+  }
+
+  const settings = {
+    enabled: formData.get('enabled') === 'on',
+    rule: readRule(formData, ''),
+    branchRules,
+  };
+
+  await saveTimeRoundingSettings(tenantId, settings);
+
+  return {
+    status: 'success',
+    message: 'Einstellungen gespeichert. Die Rundung gilt für alle ab jetzt gespeicherten Einträge.',
+    settings,
+  };
+}
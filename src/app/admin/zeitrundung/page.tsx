@@ -0,0 +1,30 @@
+import { getServerAuthSession } from '@/lib/auth/session';
+import { listBranches } from '@/lib/data/branches';
+import { getTimeRoundingSettings } from '@/lib/data/time-rounding-settings';
+
+import TimeRoundingSettingsForm from './TimeRoundingSettingsForm';
+import { ensureAdmin, saveTimeRoundingSettingsAction } from './actions';
+import type { TimeRoundingFormState } from './types';
+
+const INITIAL_FORM_STATE: TimeRoundingFormState = {};
+
+export default async function AdminZeitrundungPage() {
+  const session = await getServerAuthSession();
+  ensureAdmin(session);
+
+  const tenantId = session?.tenantId;
+  if (!tenantId) {
+    throw new Error('Tenant-Kontext fehlt.');
+  }
+
+  const [settings, branches] = await Promise.all([getTimeRoundingSettings(tenantId), listBranches(tenantId)]);
+
+  return (
+    <TimeRoundingSettingsForm
+      initialSettings={settings}
+      branches={branches.map((branch) => ({ id: branch.id, name: branch.name }))}
+      saveAction={saveTimeRoundingSettingsAction}
+      saveInitialState={INITIAL_FORM_STATE}
+    />
+  );
+}
@@ -0,0 +1,7 @@
+import type { TimeRoundingSettings } from '@/lib/data/time-rounding-settings';
+
+export type TimeRoundingFormState = {
+  status?: 'success' | 'error';
+  message?: string;
+  settings?: TimeRoundingSettings;
+};
@@ -0,0 +1,157 @@
+'use client';
+
+import { useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+
+import type { SurchargeSettings } from '@/lib/data/surcharge-settings';
+
+import type { saveSurchargeSettingsAction } from './actions';
+import type { SurchargeFormState } from './types';
+
+function SaveButton() {
+  const { pending } = useFormStatus();
+  return (
+    <button
+      type="submit"
+      className="rounded-md bg-brand px-4 py-2 text-sm font-semibold text-white shadow-sm disabled:cursor-not-allowed disabled:opacity-60"
+      disabled={pending}
+    >
+      {pending ? 'Speichern…' : 'Einstellungen speichern'}
+    </button>
+  );
+}
+
+type SurchargeSettingsFormProps = {
+  initialSettings: SurchargeSettings;
+  regionOptions: Array<{ code: string; label: string }>;
+  saveAction: typeof saveSurchargeSettingsAction;
+  saveInitialState: SurchargeFormState;
+};
+
+export default function SurchargeSettingsForm({
+  initialSettings,
+  regionOptions,
+  saveAction,
+  saveInitialState,
+}: SurchargeSettingsFormProps) {
+  const [formState, formAction] = useActionState(saveAction, saveInitialState);
+  const settings = formState?.settings ?? initialSettings;
+
+  return (
+    <section className="space-y-6">
+      <header className="space-y-1">
+        <h2 className="text-2xl font-semibold text-slate-900">Zuschläge (SFN)</h2>
+        <p className="text-sm text-slate-500">
+          Gearbeitete Stunden in der Nacht, an Sonntagen und an Feiertagen werden je Mitarbeiter ausgewiesen und als
+          eigene Spalten im Lohnexport des Monatsabschlusses ausgegeben. Feiertage richten sich nach dem Bundesland der
+          Mitarbeitenden, ersatzweise nach dem hier hinterlegten Bundesland.
+        </p>
+      </header>
+
+      {formState?.status && formState.message ? (
+        <div
+          className={`rounded-md border px-3 py-2 text-sm ${
+            formState.status === 'success'
+              ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+              : 'border-red-200 bg-red-50 text-red-700'
+          }`}
+        >
+          {formState.message}
+        </div>
+      ) : null}
+
+      <form key={JSON.stringify(settings)} action={formAction} className="space-y-6">
+        <div className="flex items-center gap-3">
+          <input
+            id="enabled"
+            name="enabled"
+            type="checkbox"
+            defaultChecked={settings.enabled}
+            className="h-4 w-4"
+          />
+          <label htmlFor="enabled" className="text-sm text-slate-700">
+            Zuschläge berechnen und exportieren
+          </label>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <label className="flex flex-col gap-1 text-sm">
+            <span>Nachtarbeit ab</span>
+            <input
+              name="nightStart"
+              type="time"
+              defaultValue={settings.nightStart}
+              className="rounded-md border border-slate-300 px-3 py-2"
+              required
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span>Nachtarbeit bis</span>
+            <input
+              name="nightEnd"
+              type="time"
+              defaultValue={settings.nightEnd}
+              className="rounded-md border border-slate-300 px-3 py-2"
+              required
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span>Nachtzuschlag (%)</span>
+            <input
+              name="nightPercent"
+              type="number"
+              min={0}
+              max={500}
+              defaultValue={settings.nightPercent}
+              className="rounded-md border border-slate-300 px-3 py-2"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span>Sonntagszuschlag (%)</span>
+            <input
+              name="sundayPercent"
+              type="number"
+              min={0}
+              max={500}
+              defaultValue={settings.sundayPercent}
+              className="rounded-md border border-slate-300 px-3 py-2"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span>Feiertagszuschlag (%)</span>
+            <input
+              name="holidayPercent"
+              type="number"
+              min={0}
+              max={500}
+              defaultValue={settings.holidayPercent}
+              className="rounded-md border border-slate-300 px-3 py-2"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span>Bundesland (Standard)</span>
+            <select
+              name="holidayRegion"
+              defaultValue={settings.holidayRegion ?? ''}
+              className="rounded-md border border-slate-300 px-3 py-2"
+            >
+              <option value="">Nur bundesweite Feiertage</option>
+              {regionOptions.map((option) => (
+                <option key={option.code} value={option.code}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <p className="text-xs text-slate-500">
+          Ein Nachtfenster über Mitternacht (z. B. 20:00–06:00) ist möglich. Bei 0 % werden für diese Zuschlagsart
+          keine Stunden ausgewiesen.
+        </p>
+
+        <SaveButton />
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,54 @@
+import { redirect } from 'next/navigation';
+
+import { getServerAuthSession } from '@/lib/auth/session';
+import { saveSurchargeSettings } from '@/lib/data/surcharge-settings';
+import { withAppBasePath } from '@/lib/routes';
+import { sanitizeSurchargeSettings } from '@/lib/services/surcharges';
+
+import type { SurchargeFormState } from './types';
+
+export function ensureAdmin(session: Awaited<ReturnType<typeof getServerAuthSession>>) {
+  if (!session?.user) {
+    redirect(withAppBasePath('/login'));
+  }
+  if (session.user.roleId !== 2) {
+    redirect(withAppBasePath('/mitarbeiter'));
+  }
+}
+
+export async function saveSurchargeSettingsAction(
+  prevState: SurchargeFormState,
+  formData: FormData
+): Promise<SurchargeFormState> {
+  'use server';
+
+  const session = await getServerAuthSession();
+  ensureAdmin(session);
+
+  const tenantId = session?.tenantId;
+  if (!tenantId) {
+    redirect(withAppBasePath('/login'));
+  }
+
+  const { settings, error } = sanitizeSurchargeSettings({
+    enabled: formData.get('enabled') === 'on',
+    nightStart: String(formData.get('nightStart') ?? ''),
+    nightEnd: String(formData.get('nightEnd') ?? ''),
+    nightPercent: Number(formData.get('nightPercent') ?? 0),
+    sundayPercent: Number(formData.get('sundayPercent') ?? 0),
+    holidayPercent: Number(formData.get('holidayPercent') ?? 0),
+    holidayRegion: String(formData.get('holidayRegion') ?? '') || null,
+  });
+
+  if (error) {
+    return { status: 'error', message: error, settings };
+  }
+
+  await saveSurchargeSettings(tenantId, settings);
+
+  return {
+    status: 'success',
+    message: 'Einstellungen gespeichert.',
+    settings,
+  };
+}
@@ -0,0 +1,30 @@
+import { getServerAuthSession } from '@/lib/auth/session';
+import { FEDERAL_STATE_OPTIONS } from '@/lib/constants/federal-states';
+import { getSurchargeSettings } from '@/lib/data/surcharge-settings';
+
+import SurchargeSettingsForm from './SurchargeSettingsForm';
+import { ensureAdmin, saveSurchargeSettingsAction } from './actions';
+import type { SurchargeFormState } from './types';
+
+const INITIAL_FORM_STATE: SurchargeFormState = {};
+
+export default async function AdminZuschlaegePage() {
+  const session = await getServerAuthSession();
+  ensureAdmin(session);
+
+  const tenantId = session?.tenantId;
+  if (!tenantId) {
+    throw new Error('Tenant-Kontext fehlt.');
+  }
+
+  const settings = await getSurchargeSettings(tenantId);
+
+  return (
+    <SurchargeSettingsForm
+      initialSettings={settings}
+      regionOptions={FEDERAL_STATE_OPTIONS.filter((option) => option.code.startsWith('DE-'))}
+      saveAction={saveSurchargeSettingsAction}
+      saveInitialState={INITIAL_FORM_STATE}
+    />
+  );
+}
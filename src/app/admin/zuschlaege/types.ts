@@ -0,0 +1,7 @@
+import type { SurchargeSettings } from '@/lib/data/surcharge-settings';
+
+export type SurchargeFormState = {
+  status?: 'success' | 'error';
+  message?: string;
+  settings?: SurchargeSettings;
+};
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+
+import { getServerAuthSession } from '@/lib/auth/session';
+import { createArbzgReportFile, type ArbzgReportFormat } from '@/lib/services/admin/arbzg-report';
+
+const SUPPORTED_FORMATS: ArbzgReportFormat[] = ['csv', 'xlsx'];
+
+function parseBoundedInt(value: string | null, min: number, max: number): number | null {
+  if (!value) return null;
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed)) return null;
+  if (parsed < min || parsed > max) return null;
+  return parsed;
+}
+
+export async function GET(request: Request) {
+  const session = await getServerAuthSession();
+  if (!session?.user || !session.tenantId) {
+    return NextResponse.json({ ok: false, error: 'unauthorized' }, { status: 401 });
+  }
+  if (session.user.roleId !== 2) {
+    return NextResponse.json({ ok: false, error: 'forbidden' }, { status: 403 });
+  }
+
+  const url = new URL(request.url);
+  const year = parseBoundedInt(url.searchParams.get('year'), 2020, 2100);
+  const month = parseBoundedInt(url.searchParams.get('month'), 1, 12);
+  const branchId = parseBoundedInt(url.searchParams.get('branchId'), 1, Number.MAX_SAFE_INTEGER);
+  const formatParam = (url.searchParams.get('format') ?? 'xlsx').trim().toLowerCase();
+
+  if (!year || !month) {
+    return NextResponse.json({ ok: false, error: 'invalid_year_month' }, { status: 400 });
+  }
+
+  if (!SUPPORTED_FORMATS.includes(formatParam as ArbzgReportFormat)) {
+    return NextResponse.json({ ok: false, error: 'invalid_format' }, { status: 400 });
+  }
+
+  try {
+    const file = await createArbzgReportFile(
+      session.tenantId,
+      year,
+      month,
+      formatParam as ArbzgReportFormat,
+      branchId
+    );
+
+    return new NextResponse(new Uint8Array(file.body), {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('[arbzg-export] failed', error);
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'export_failed',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+
+import { getLatestOvertimeRebuildJob } from '@/lib/data/overtime-rebuild-jobs';
+import { checkTenantOvertimeConsistency, startTenantOvertimeRebuild } from '@/lib/services/overtime-rebuild';
+
+function assertSecret(headers: Headers) {
+  const secret = process.env.PROVISION_SECRET;
+  const incoming = headers.get('x-provision-secret');
+  return Boolean(secret && incoming && incoming === secret);
+}
+
+/**
+ * Overtime checkpoints of one tenant.
+ *
+ * - `{ tenantId }`: queues a full rebuild of all employees and answers right away (202) with the job; the
+ *   overtime rebuild scheduler runs it. Answers 409 with the open job while one is queued or running.
+ * - `{ tenantId, mode: 'check' }`: compares the incrementally stored overtime with a full replay and
+ *   returns the employees that differ. Nothing is written.
+ *
+ * Protected via `x-provision-secret`.
+ */
+export async function POST(req: Request) {
+  if (!assertSecret(req.headers)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const tenantId = typeof body?.tenantId === 'string' ? body.tenantId.trim() : '';
+  if (!tenantId) {
+    return NextResponse.json({ ok: false, error: 'tenantId_missing' }, { status: 400 });
+  }
+
+  if (body?.mode === 'check') {
+    try {
+      const reports = await checkTenantOvertimeConsistency(tenantId);
+      const mismatches = reports.filter((report) => !report.consistent);
+      return NextResponse.json({ ok: true, checked: reports.length, mismatches });
+    } catch (error) {
+      console.error('[internal/overtime/rebuild] check failed', error);
+      return NextResponse.json({ ok: false, error: 'check_failed' }, { status: 500 });
+    }
+  }
+
+  const job = await startTenantOvertimeRebuild(tenantId);
+  if (!job) {
+    const running = await getLatestOvertimeRebuildJob(tenantId);
+    return NextResponse.json({ ok: false, error: 'rebuild_running', job: running }, { status: 409 });
+  }
+  return NextResponse.json({ ok: true, job }, { status: 202 });
+}
+
+/** Latest rebuild job of `?tenantId=`, including the employees whose replay failed. Protected via `x-provision-secret`. */
+export async function GET(req: Request) {
+  if (!assertSecret(req.headers)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const tenantId = new URL(req.url).searchParams.get('tenantId')?.trim() ?? '';
+  if (!tenantId) {
+    return NextResponse.json({ ok: false, error: 'tenantId_missing' }, { status: 400 });
+  }
+
+  const job = await getLatestOvertimeRebuildJob(tenantId);
+  if (!job) {
+    return NextResponse.json({ ok: false, error: 'job_not_found' }, { status: 404 });
+  }
+  return NextResponse.json({ ok: true, job });
+}
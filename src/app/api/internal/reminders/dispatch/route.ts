@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+
+import { dispatchDueReminders, dispatchTenantReminders } from '@/lib/services/reminder-dispatch';
+
+function assertSecret(headers: Headers) {
+  const secret = process.env.PROVISION_SECRET;
+  const incoming = headers.get('x-provision-secret');
+  return Boolean(secret && incoming && incoming === secret);
+}
+
+/**
+ * Triggers the "Stundenliste vervollständigen" reminder dispatch.
+ *
+ * - Without body: runs all tenants whose send window is due (same as the in-process scheduler).
+ * - With `{ tenantId, force: true }`: sends the current month for one tenant, ignoring the send hour. The run is
+ *   logged under a period of its own, so the scheduled run on the last day still goes out.
+ *   Each employee is mailed at most once per period; failed mails are retried (ReminderSendRecipient).
+ *
+ * Protected via `x-provision-secret`.
+ */
+export async function POST(req: Request) {
+  if (!assertSecret(req.headers)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const tenantId = typeof body?.tenantId === 'string' ? body.tenantId.trim() : '';
+  const force = body?.force === true;
+
+  try {
+    if (tenantId) {
+      const result = await dispatchTenantReminders(tenantId, { force });
+      return NextResponse.json({ ok: true, results: [result] });
+    }
+    const results = await dispatchDueReminders();
+    return NextResponse.json({ ok: true, results });
+  } catch (error) {
+    console.error('[internal/reminders/dispatch] failed', error);
+    return NextResponse.json({ ok: false, error: 'dispatch_failed' }, { status: 500 });
+  }
+}
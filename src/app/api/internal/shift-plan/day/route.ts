@@ -87,7 +87,7 @@ export async function POST(req: Request) {
           : Number(body.segmentIndex),
       mode: body?.mode === 'unavailable' ? 'unavailable' : 'available',
     });
-    await recomputeEmployeeOvertime(tenantId, employeeId);
+    await recomputeEmployeeOvertime(tenantId, employeeId, isoDate);
     return NextResponse.json({ ok: true });
   } catch (error) {
     console.error('shift-plan/day failed', error);
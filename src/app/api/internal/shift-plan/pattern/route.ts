@@ -112,6 +112,7 @@ export async function POST(req: Request) {
 
   try {
     const affectedEmployees = new Set<number>();
+    let firstChangedDate: string | null = null;
     for (const employeeId of uniqueEmployeeIds) {
       for (const day of days) {
         const isoDate = (day.isoDate ?? '').trim();
@@ -172,13 +173,16 @@ export async function POST(req: Request) {
           isoDate,
           segments: normalizedSegments,
         });
+        if (!firstChangedDate || isoDate < firstChangedDate) {
+          firstChangedDate = isoDate;
+        }
       }
       affectedEmployees.add(employeeId);
     }
 
     for (const id of affectedEmployees) {
       try {
-        await recomputeEmployeeOvertime(tenantId, id);
+        await recomputeEmployeeOvertime(tenantId, id, firstChangedDate);
       } catch (error) {
         console.error('shift-plan/pattern recompute failed', error);
       }
@@ -90,7 +90,7 @@ export async function POST(req: Request) {
   }
 
   try {
-    await recomputeEmployeeOvertime(tenantId, employeeId);
+    await recomputeEmployeeOvertime(tenantId, employeeId, formatIsoDate(weekStartDate));
   } catch (error) {
     console.error('shift-plan/clear-week recompute failed', error);
     return NextResponse.json({ ok: true, warning: 'overtime_failed' });
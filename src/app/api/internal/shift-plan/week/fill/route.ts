@@ -204,7 +204,7 @@ export async function POST(req: Request) {
       });
     }
 
-    await recomputeEmployeeOvertime(tenantId, employeeId);
+    await recomputeEmployeeOvertime(tenantId, employeeId, weekStartRaw);
     return NextResponse.json({ ok: true });
   } catch (error) {
     console.error('shift-plan/fill-week failed', error);
@@ -0,0 +1,171 @@
+'use client';
+
+import { useActionState, useEffect, useRef, useState } from 'react';
+import { useFormStatus } from 'react-dom';
+import { useRouter } from 'next/navigation';
+
+import type { KioskPresenceEntry } from '@/lib/services/kiosk';
+
+export type KioskActionState = {
+  status: 'success' | 'error';
+  message: string;
+} | null;
+
+type KioskTerminalProps = {
+  branchName: string;
+  presence: KioskPresenceEntry[];
+  action: (prevState: KioskActionState, formData: FormData) => Promise<KioskActionState>;
+};
+
+const LOCK_DELAY_MS = 4000;
+const PRESENCE_REFRESH_MS = 60 * 1000;
+const PIN_LENGTH = 4;
+
+const ACTION_BUTTONS: Array<{ value: string; label: string; className: string }> = [
+  { value: 'arrive', label: 'Kommen', className: 'bg-emerald-600 hover:bg-emerald-700' },
+  { value: 'break_start', label: 'Pause beginnen', className: 'bg-amber-500 hover:bg-amber-600' },
+  { value: 'break_end', label: 'Pause beenden', className: 'bg-sky-600 hover:bg-sky-700' },
+  { value: 'leave', label: 'Gehen', className: 'bg-rose-600 hover:bg-rose-700' },
+];
+
+function ActionButtons({ disabled }: { disabled: boolean }) {
+  const { pending } = useFormStatus();
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {ACTION_BUTTONS.map((button) => (
+        <button
+          key={button.value}
+          type="submit"
+          name="action"
+          value={button.value}
+          disabled={disabled || pending}
+          className={`rounded-xl px-4 py-5 text-lg font-semibold text-white shadow transition disabled:cursor-not-allowed disabled:opacity-50 ${button.className}`}
+        >
+          {button.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default function KioskTerminal({ branchName, presence, action }: KioskTerminalProps) {
+  const [state, formAction] = useActionState(action, null);
+  const [pin, setPin] = useState('');
+  const [visibleState, setVisibleState] = useState<KioskActionState>(null);
+  const router = useRouter();
+  const lockTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Lock the terminal after every booking: clear the PIN, show the result briefly, then reset.
+  useEffect(() => {
+    if (!state) return;
+    setPin('');
+    setVisibleState(state);
+    if (state.status === 'success') {
+      router.refresh();
+    }
+    if (lockTimer.current) clearTimeout(lockTimer.current);
+    lockTimer.current = setTimeout(() => setVisibleState(null), LOCK_DELAY_MS);
+    return () => {
+      if (lockTimer.current) clearTimeout(lockTimer.current);
+    };
+  }, [router, state]);
+
+  useEffect(() => {
+    const interval = setInterval(() => router.refresh(), PRESENCE_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [router]);
+
+  const appendDigit = (digit: string) => {
+    setVisibleState(null);
+    setPin((prev) => (prev.length >= PIN_LENGTH ? prev : `${prev}${digit}`));
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col bg-slate-100 px-6 py-8 lg:flex-row lg:gap-8">
+      <section className="mx-auto w-full max-w-md space-y-6 rounded-2xl border border-slate-200 bg-white p-6 shadow-lg">
+        <header className="space-y-1 text-center">
+          <p className="text-xs font-semibold uppercase tracking-[0.28em] text-brand">Stempeluhr</p>
+          <h1 className="text-2xl font-semibold text-slate-900">{branchName}</h1>
+        </header>
+
+        {visibleState ? (
+          <div
+            className={`rounded-md border px-3 py-3 text-center text-sm font-medium ${
+              visibleState.status === 'success'
+                ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+                : 'border-red-200 bg-red-50 text-red-700'
+            }`}
+            role="status"
+          >
+            {visibleState.message}
+          </div>
+        ) : null}
+
+        <form action={formAction} className="space-y-5" autoComplete="off">
+          <input type="hidden" name="pin" value={pin} />
+          <div className="flex justify-center gap-3" aria-label="PIN">
+            {Array.from({ length: PIN_LENGTH }, (_, index) => (
+              <span
+                key={index}
+                className={`h-4 w-4 rounded-full border border-slate-400 ${index < pin.length ? 'bg-slate-800' : 'bg-white'}`}
+              />
+            ))}
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            {['1', '2', '3', '4', '5', '6', '7', '8', '9'].map((digit) => (
+              <button
+                key={digit}
+                type="button"
+                onClick={() => appendDigit(digit)}
+                className="rounded-xl border border-slate-200 bg-slate-50 py-4 text-2xl font-semibold text-slate-800 hover:bg-slate-100"
+              >
+                {digit}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => setPin('')}
+              className="rounded-xl border border-slate-200 bg-white py-4 text-sm font-semibold text-slate-500 hover:bg-slate-50"
+            >
+              Löschen
+            </button>
+            <button
+              type="button"
+              onClick={() => appendDigit('0')}
+              className="rounded-xl border border-slate-200 bg-slate-50 py-4 text-2xl font-semibold text-slate-800 hover:bg-slate-100"
+            >
+              0
+            </button>
+            <button
+              type="button"
+              onClick={() => setPin((prev) => prev.slice(0, -1))}
+              className="rounded-xl border border-slate-200 bg-white py-4 text-sm font-semibold text-slate-500 hover:bg-slate-50"
+            >
+              ←
+            </button>
+          </div>
+          <ActionButtons disabled={pin.length !== PIN_LENGTH} />
+        </form>
+      </section>
+
+      <aside className="mx-auto mt-6 w-full max-w-md rounded-2xl border border-slate-200 bg-white p-6 shadow-lg lg:mt-0">
+        <h2 className="text-lg font-semibold text-slate-900">Aktuell eingestempelt</h2>
+        {presence.length ? (
+          <ul className="mt-4 divide-y divide-slate-100">
+            {presence.map((entry) => (
+              <li key={entry.employeeId} className="flex items-center justify-between py-2 text-sm">
+                <span className="font-medium text-slate-800">{entry.name}</span>
+                <span className={entry.status === 'break' ? 'text-amber-600' : 'text-emerald-600'}>
+                  {entry.status === 'break' ? 'Pause' : 'Anwesend'}
+                  {entry.since ? ` seit ${entry.since}` : ''}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="mt-4 text-sm text-slate-500">Niemand ist aktuell eingestempelt.</p>
+        )}
+      </aside>
+    </div>
+  );
+}
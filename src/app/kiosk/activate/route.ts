@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+
+import { getServerAuthSession } from '@/lib/auth/session';
+import { getBranchById } from '@/lib/data/branches';
+import { createKioskSessionToken, KIOSK_COOKIE, KIOSK_SESSION_TTL_MS } from '@/lib/kiosk-session';
+import { withAppBasePath } from '@/lib/routes';
+
+/**
+ * Binds the current device to a branch as PIN kiosk. Only admins may activate a kiosk;
+ * the device keeps its own cookie so the admin session can be closed afterwards.
+ */
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const session = await getServerAuthSession();
+  if (!session?.user || session.user.roleId !== 2 || !session.tenantId) {
+    return NextResponse.redirect(new URL(withAppBasePath('/login?mode=admin', 'external'), url.origin));
+  }
+
+  const branchId = Number.parseInt(url.searchParams.get('branchId') ?? '', 10);
+  const branch = Number.isFinite(branchId) ? await getBranchById(session.tenantId, branchId) : null;
+  if (!branch) {
+    return NextResponse.json({ error: 'Standort nicht gefunden.' }, { status: 404 });
+  }
+
+  const expiresMs = Date.now() + KIOSK_SESSION_TTL_MS;
+  const token = await createKioskSessionToken(session.tenantId, branch.id, expiresMs);
+  const response = NextResponse.redirect(new URL(withAppBasePath('/kiosk', 'external'), url.origin));
+  response.cookies.set({
+    name: KIOSK_COOKIE,
+    value: token,
+    httpOnly: true,
+    sameSite: 'lax',
+    path: '/',
+    expires: new Date(expiresMs),
+    secure: process.env.NODE_ENV === 'production',
+  });
+  return response;
+}
@@ -0,0 +1,76 @@
+import { revalidatePath } from 'next/cache';
+
+import { getBranchById } from '@/lib/data/branches';
+import type { TimeClockEventType } from '@/lib/data/time-clock-events';
+import { getKioskSession } from '@/lib/kiosk-session';
+import { withAppBasePath } from '@/lib/routes';
+import { KIOSK_ACTION_LABELS, listKioskPresence, recordKioskStamp } from '@/lib/services/kiosk';
+
+import KioskTerminal, { type KioskActionState } from './KioskTerminal';
+
+export const metadata = {
+  title: 'Stempeluhr – Stundenliste',
+};
+
+export const dynamic = 'force-dynamic';
+
+const KIOSK_ACTIONS = new Set<TimeClockEventType>(['arrive', 'break_start', 'break_end', 'leave']);
+
+async function stampAction(_prevState: KioskActionState, formData: FormData): Promise<KioskActionState> {
+  'use server';
+  const kiosk = await getKioskSession();
+  if (!kiosk) {
+    return { status: 'error', message: 'Dieses Gerät ist nicht als Stempeluhr freigeschaltet.' };
+  }
+
+  const pin = String(formData.get('pin') ?? '').trim();
+  const action = String(formData.get('action') ?? '') as TimeClockEventType;
+  if (!/^\d{4}$/.test(pin)) {
+    return { status: 'error', message: 'Bitte die 4-stellige PIN eingeben.' };
+  }
+  if (!KIOSK_ACTIONS.has(action)) {
+    return { status: 'error', message: 'Unbekannte Buchung.' };
+  }
+
+  try {
+    const result = await recordKioskStamp({
+      tenantId: kiosk.tenantId,
+      branchId: kiosk.branchId,
+      pin,
+      action,
+    });
+    revalidatePath(withAppBasePath('/kiosk'));
+    return {
+      status: 'success',
+      message: `${result.employeeName}: ${KIOSK_ACTION_LABELS[result.action]} um ${result.time} Uhr gebucht.`,
+    };
+  } catch (error) {
+    return {
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Buchung fehlgeschlagen.',
+    };
+  }
+}
+
+export default async function KioskPage() {
+  const kiosk = await getKioskSession();
+  const branch = kiosk ? await getBranchById(kiosk.tenantId, kiosk.branchId) : null;
+
+  if (!kiosk || !branch) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-slate-100 px-6 py-12">
+        <div className="w-full max-w-md rounded-2xl border border-slate-200 bg-white p-8 text-center shadow-lg">
+          <p className="text-xs font-semibold uppercase tracking-[0.28em] text-brand">Stempeluhr</p>
+          <h1 className="mt-2 text-2xl font-semibold text-slate-900">Kein Standort verknüpft</h1>
+          <p className="mt-2 text-sm text-slate-500">
+            Bitte als Admin unter „Standorte“ die Stempeluhr für diesen Standort auf diesem Gerät aktivieren.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const presence = await listKioskPresence(kiosk.tenantId, kiosk.branchId);
+
+  return <KioskTerminal branchName={branch.name} presence={presence} action={stampAction} />;
+}
@@ -4,6 +4,7 @@ import { useActionState, useCallback, useEffect, useMemo, useRef, useState } fro
 import type { ChangeEvent, FormEvent } from 'react';
 
 import type { DailyDaySummary } from '@/lib/data/daily-days';
+import type { AbsenceCodeDefinition } from '@/lib/services/absence-codes';
 import type { ShiftPlanDay } from '@/lib/services/shift-plan';
 import { parseTimeString, timeToDecimalHours } from '@/lib/services/time-calculations';
 import { isHolidayIsoDate, normalizeHolidayRegion } from '@/lib/services/holidays';
@@ -24,6 +25,8 @@ type Props = {
   deleteAction: (prevState: EntryActionState, formData: FormData) => Promise<EntryActionState>;
   deleteInitialState: EntryActionState;
   hiddenFields?: Record<string, string>;
+  /** Tenant code catalog; adds the tenant's own codes and labels to the code selection. */
+  absenceCodes?: AbsenceCodeDefinition[];
 };
 
 const MONTH_NAMES = [
@@ -41,7 +44,9 @@ const MONTH_NAMES = [
   'Dezember',
 ];
 
-const CODE_OPTIONS = [
+type CodeOption = { value: string; label: string; description: string };
+
+const CODE_OPTIONS: CodeOption[] = [
   { value: 'RA', label: 'Reguläre Arbeitszeit', description: 'Standard' },
   { value: 'Ü', label: 'Über-/Minusstundenkorrektur', description: 'Korrektur von Über- oder Minusstunden' },
   { value: 'K', label: 'Krank', description: 'bezahlt, volle Sollstunden' },
@@ -57,12 +62,44 @@ const CODE_OPTIONS = [
 
 const RANGE_ELIGIBLE_CODES = new Set(['U', 'UH', 'K', 'KK', 'KKR', 'KR', 'KU']);
 
-const CODE_HELP_TEXT = CODE_OPTIONS.filter((option) => option.value)
-  .map((option) => {
-    const detail = option.description ? `${option.label} – ${option.description}` : option.label;
-    return `${option.value}: ${detail}`;
-  })
-  .join('\n');
+const EMPTY_ABSENCE_CODES: AbsenceCodeDefinition[] = [];
+
+/** Built-in options under the tenant's labels without deactivated codes, followed by the tenant's own codes. */
+function buildCodeOptions(absenceCodes: AbsenceCodeDefinition[]): CodeOption[] {
+  const catalogByCode = new Map(absenceCodes.map((entry) => [entry.code, entry]));
+  const builtInOptions = CODE_OPTIONS.flatMap((option) => {
+    const entry = catalogByCode.get(option.value);
+    if (!entry) return [option];
+    return entry.isActive ? [{ ...option, label: entry.label }] : [];
+  });
+  const customOptions = absenceCodes
+    .filter((entry) => !entry.builtIn && entry.isActive)
+    .map((entry) => ({
+      value: entry.code,
+      label: entry.label,
+      description: entry.countsAsWorked ? 'bezahlt, ohne Zeiten volle Sollstunden' : 'unbezahlt',
+    }));
+  return [...builtInOptions, ...customOptions];
+}
+
+function buildCodeHelpText(options: CodeOption[]): string {
+  return options
+    .filter((option) => option.value)
+    .map((option) => {
+      const detail = option.description ? `${option.label} – ${option.description}` : option.label;
+      return `${option.value}: ${detail}`;
+    })
+    .join('\n');
+}
+
+function findCustomCode(code: string, absenceCodes: AbsenceCodeDefinition[]): AbsenceCodeDefinition | undefined {
+  return absenceCodes.find((entry) => !entry.builtIn && entry.code === code);
+}
+
+function isMealBlockedCode(code: string | null | undefined, absenceCodes: AbsenceCodeDefinition[]): boolean {
+  const normalized = (code ?? '').trim().toUpperCase();
+  return MEAL_BLOCKED_CODES.has(normalized) || Boolean(findCustomCode(normalized, absenceCodes)?.blocksMeal);
+}
 
 type WizardStepKey = 'status' | 'time' | 'revenue' | 'summary';
 
@@ -210,6 +247,16 @@ function diffHours(start: string | null, end: string | null): number {
   return Math.max(raw, 0);
 }
 
+type TimeBlockValue = { kommt: string; geht: string };
+
+function hasFilledBlocks(blocks: TimeBlockValue[]): boolean {
+  return blocks.some((block) => block.kommt || block.geht);
+}
+
+function sumBlockHours(blocks: TimeBlockValue[]): number {
+  return blocks.reduce((sum, block) => sum + diffHours(block.kommt, block.geht), 0);
+}
+
 const HOURS_EPSILON = 0.01;
 
 function compareTimeValues(a: string | null | undefined, b: string | null | undefined): number {
@@ -365,9 +412,10 @@ function buildAdminChangeInfo(entry: DailyDaySummary): string | null {
   return `${typeLabel} durch ${entry.admin_last_change_by} am ${timestamp}${summary ? ` – ${summary}` : ''}`;
 }
 
-function isRangeCode(code: string | null | undefined): boolean {
+function isRangeCode(code: string | null | undefined, absenceCodes: AbsenceCodeDefinition[]): boolean {
   if (!code) return false;
-  return RANGE_ELIGIBLE_CODES.has(code.trim().toUpperCase());
+  const normalized = code.trim().toUpperCase();
+  return RANGE_ELIGIBLE_CODES.has(normalized) || Boolean(findCustomCode(normalized, absenceCodes)?.rangeEligible);
 }
 
 function parsePauseToMinutes(value: string | null | undefined): number {
@@ -499,7 +547,10 @@ export default function EmployeeEntriesSection({
   deleteAction,
   deleteInitialState,
   hiddenFields = {},
+  absenceCodes = EMPTY_ABSENCE_CODES,
 }: Props) {
+  const codeOptions = useMemo(() => buildCodeOptions(absenceCodes), [absenceCodes]);
+  const codeHelpText = useMemo(() => buildCodeHelpText(codeOptions), [codeOptions]);
   const normalizedFederalState = useMemo(
     () => normalizeHolidayRegion(federalState),
     [federalState]
@@ -556,6 +607,7 @@ export default function EmployeeEntriesSection({
         geht1: plan.end ?? null,
         kommt2: null,
         geht2: null,
+        segments: plan.start || plan.end ? [{ kommt: plan.start ?? null, geht: plan.end ?? null }] : [],
         pause: 'Keine',
         code: derivePlanCode(normalized),
         bemerkungen: null,
@@ -726,8 +778,7 @@ export default function EmployeeEntriesSection({
     dayDate: initialSuggestedDate,
     kommt1: initialDefaults.kommt1,
     geht1: initialDefaults.geht1,
-    kommt2: '',
-    geht2: '',
+    extraSegments: [] as TimeBlockValue[],
     pause: initialDefaults.pause,
     mittag: initialDefaults.mittag,
     code: 'RA',
@@ -864,8 +915,8 @@ export default function EmployeeEntriesSection({
     [formValues.kommt1, formValues.geht1]
   );
   const secondaryHours = useMemo(
-    () => diffHours(formValues.kommt2, formValues.geht2),
-    [formValues.kommt2, formValues.geht2]
+    () => sumBlockHours(formValues.extraSegments),
+    [formValues.extraSegments]
   );
   const totalRecordedHours = useMemo(
     () => actualPrimaryHours + secondaryHours,
@@ -884,8 +935,7 @@ export default function EmployeeEntriesSection({
     return (
       (formValues.kommt1 ?? '') === planStart &&
       (formValues.geht1 ?? '') === planEnd &&
-      !formValues.kommt2 &&
-      !formValues.geht2
+      !hasFilledBlocks(formValues.extraSegments)
     );
   }, [
     normalizedCode,
@@ -894,8 +944,7 @@ export default function EmployeeEntriesSection({
     planMeta.end,
     formValues.kommt1,
     formValues.geht1,
-    formValues.kommt2,
-    formValues.geht2,
+    formValues.extraSegments,
   ]);
   const effectivePrimaryHours = useMemo(
     () => (overtimeMatchesPlan ? 0 : actualPrimaryHours),
@@ -924,8 +973,8 @@ export default function EmployeeEntriesSection({
   );
   const mealBlocked = useMemo(
     () =>
-      normalizedCode !== 'FT' && (MEAL_BLOCKED_CODES.has(normalizedCode) || overtimeFullDay),
-    [normalizedCode, overtimeFullDay]
+      normalizedCode !== 'FT' && (isMealBlockedCode(normalizedCode, absenceCodes) || overtimeFullDay),
+    [normalizedCode, overtimeFullDay, absenceCodes]
   );
   const baseStepFlow = useMemo(() => getWizardFlow(formValues.code), [formValues.code]);
   const stepFlow = useMemo(
@@ -1036,8 +1085,7 @@ export default function EmployeeEntriesSection({
         code: 'FT',
         kommt1: '',
         geht1: '',
-        kommt2: '',
-        geht2: '',
+        extraSegments: [],
         pause: 'Keine',
         mittag: 'Nein',
         brutto: '',
@@ -1064,8 +1112,7 @@ export default function EmployeeEntriesSection({
         code: 'U',
         kommt1: '',
         geht1: '',
-        kommt2: '',
-        geht2: '',
+        extraSegments: [],
         pause: 'Keine',
         mittag: 'Nein',
         brutto: '',
@@ -1255,7 +1302,10 @@ export default function EmployeeEntriesSection({
     return base.slice(0, 7);
   });
 
-  const requiresRangeSelection = useMemo(() => isRangeCode(formValues.code), [formValues.code]);
+  const requiresRangeSelection = useMemo(
+    () => isRangeCode(formValues.code, absenceCodes),
+    [formValues.code, absenceCodes]
+  );
   const requiresTimeEntry = useMemo(
     () => codeRequiresTimeInputs(formValues.code),
     [formValues.code]
@@ -1264,7 +1314,7 @@ export default function EmployeeEntriesSection({
     if (formValues.code !== 'RA') return false;
     if (!planMeta.hasPlan) return false;
     if (!formValues.kommt1 || !formValues.geht1) return false;
-    if (formValues.kommt2 || formValues.geht2) return false;
+    if (hasFilledBlocks(formValues.extraSegments)) return false;
     const planSpan = planMeta.spanHours ?? 0;
     if (planSpan <= 0) return false;
     const actualSpan = diffHours(formValues.kommt1, formValues.geht1);
@@ -1280,20 +1330,19 @@ export default function EmployeeEntriesSection({
     formValues.code,
     formValues.kommt1,
     formValues.geht1,
-    formValues.kommt2,
-    formValues.geht2,
+    formValues.extraSegments,
     planMeta.end,
     planMeta.hasPlan,
     planMeta.spanHours,
     planMeta.start,
   ]);
-  const showSecondTimeBlock = useMemo(() => {
+  const showAdditionalBlocks = useMemo(() => {
     if (normalizedCode === 'Ü') return false;
     if (normalizedCode === 'UH' || normalizedCode === 'KR' || normalizedCode === 'KKR' || normalizedCode === 'KU' || normalizedCode === 'FT') return false;
     if (normalizedCode !== 'RA') return true;
     if (!planMeta.hasPlan) return true;
     if (overtimeExtension) return false;
-    if (formValues.kommt2 || formValues.geht2) return true;
+    if (hasFilledBlocks(formValues.extraSegments)) return true;
     const planStart = planMeta.start;
     const planEnd = planMeta.end;
     if (planStart && formValues.kommt1 && formValues.kommt1 !== planStart) return true;
@@ -1303,8 +1352,7 @@ export default function EmployeeEntriesSection({
     normalizedCode,
     formValues.kommt1,
     formValues.geht1,
-    formValues.kommt2,
-    formValues.geht2,
+    formValues.extraSegments,
     overtimeExtension,
     planMeta.hasPlan,
     planMeta.start,
@@ -1323,21 +1371,20 @@ export default function EmployeeEntriesSection({
     if (planEnd && !actualEnd) return true;
     if (!planStart && actualStart) return true;
     if (!planEnd && actualEnd) return true;
-    if (formValues.kommt2 || formValues.geht2) return true;
+    if (hasFilledBlocks(formValues.extraSegments)) return true;
     return false;
   }, [
     formValues.code,
     formValues.kommt1,
     formValues.geht1,
-    formValues.kommt2,
-    formValues.geht2,
+    formValues.extraSegments,
     planMeta.hasPlan,
     planMeta.start,
     planMeta.end,
   ]);
   const alternativeStatusOptions = useMemo(
-    () => CODE_OPTIONS.filter((option) => option.value && option.value !== 'RA'),
-    []
+    () => codeOptions.filter((option) => option.value && option.value !== 'RA'),
+    [codeOptions]
   );
   const [statusDialogCode, setStatusDialogCode] = useState<string>(() => alternativeStatusOptions[0]?.value ?? 'Ü');
   const [statusDialogOpen, setStatusDialogOpen] = useState(false);
@@ -1364,8 +1411,7 @@ export default function EmployeeEntriesSection({
         planMeta.hasPlan &&
         (formValues.kommt1 !== planMeta.start ||
           formValues.geht1 !== planMeta.end ||
-          Boolean(formValues.kommt2) ||
-          Boolean(formValues.geht2) ||
+          hasFilledBlocks(formValues.extraSegments) ||
           formValues.pause !== String(planMeta.pauseMinutes));
       if (hasDeviationActive) {
         setStatusDialogOpen(true);
@@ -1379,9 +1425,8 @@ export default function EmployeeEntriesSection({
     alternativeStatusOptions,
     formValues.code,
     formValues.geht1,
-    formValues.geht2,
+    formValues.extraSegments,
     formValues.kommt1,
-    formValues.kommt2,
     formValues.pause,
     overtimeExtension,
     planDeviation,
@@ -1395,9 +1440,7 @@ export default function EmployeeEntriesSection({
     if ((formValues.code ?? '').toUpperCase() !== 'Ü') {
       return;
     }
-    const trimmedKommt2 = (formValues.kommt2 ?? '').trim();
-    const trimmedGeht2 = (formValues.geht2 ?? '').trim();
-    if (!trimmedKommt2 && !trimmedGeht2) {
+    if (!formValues.extraSegments.length) {
       return;
     }
     setFormValues((prev) => {
@@ -1405,18 +1448,15 @@ export default function EmployeeEntriesSection({
       if (prevCode !== 'Ü' && prevCode !== 'UH') {
         return prev;
       }
-      const prevKommt2 = (prev.kommt2 ?? '').trim();
-      const prevGeht2 = (prev.geht2 ?? '').trim();
-      if (!prevKommt2 && !prevGeht2) {
+      if (!prev.extraSegments.length) {
         return prev;
       }
       return {
         ...prev,
-        kommt2: '',
-        geht2: '',
+        extraSegments: [],
       };
     });
-  }, [formValues.code, formValues.kommt2, formValues.geht2]);
+  }, [formValues.code, formValues.extraSegments]);
 
   const scheduleAutoAdvance = useCallback(
     (originStep: WizardStepKey, delay = 150) => {
@@ -1458,8 +1498,7 @@ export default function EmployeeEntriesSection({
         const matchesPlanTimes =
           (formValues.kommt1 ?? '') === planMeta.start &&
           (formValues.geht1 ?? '') === planMeta.end &&
-          !formValues.kommt2 &&
-          !formValues.geht2;
+          !hasFilledBlocks(formValues.extraSegments);
         if (matchesPlanTimes) {
           setStepError('KR/KRR mit unveränderten Planzeiten nicht zulässig. Bitte Code wie K oder Zeiten anpassen.');
           return false;
@@ -1497,7 +1536,7 @@ export default function EmployeeEntriesSection({
           return false;
         }
       }
-      const totalRawHours = diffHours(formValues.kommt1, formValues.geht1) + diffHours(formValues.kommt2, formValues.geht2);
+      const totalRawHours = diffHours(formValues.kommt1, formValues.geht1) + sumBlockHours(formValues.extraSegments);
       const legalPauseMinutes = calculateArbzgPauseMinutes(totalRawHours);
       const treatAsOvertimeAbsence =
         normalizedCode === 'Ü' && (overtimeMatchesPlan || effectivePrimaryHours <= HOURS_EPSILON);
@@ -1642,7 +1681,22 @@ export default function EmployeeEntriesSection({
     return monthOptionsByYear.get(Number.parseInt(selectedYear, 10)) ?? [];
   }, [selectedYear, monthOptionsByYear]);
 
-  const nonCountingCodes = useMemo(() => new Set(['U', 'UH', 'K', 'KK', 'KR', 'KKR', 'KU', 'FT', 'UBF']), []);
+  const nonCountingCodes = useMemo(
+    () =>
+      new Set([
+        'U',
+        'UH',
+        'K',
+        'KK',
+        'KR',
+        'KKR',
+        'KU',
+        'FT',
+        'UBF',
+        ...absenceCodes.filter((entry) => !entry.builtIn).map((entry) => entry.code),
+      ]),
+    [absenceCodes]
+  );
 
   const visibleEntries = filteredEntries;
   const displayEntries = visibleEntries;
@@ -1708,8 +1762,8 @@ export default function EmployeeEntriesSection({
 
   const selectedStatusLabel = useMemo(() => {
     const normalized = normalizeCode(formValues.code);
-    return CODE_OPTIONS.find((option) => option.value === normalized)?.label ?? (formValues.code || '—');
-  }, [formValues.code]);
+    return codeOptions.find((option) => option.value === normalized)?.label ?? (formValues.code || '—');
+  }, [formValues.code, codeOptions]);
 
   const stepCardDetails = useCallback(
     (stepKey: WizardStepKey): { lines: Array<{ label: string; value: string }> } => {
@@ -1733,11 +1787,10 @@ export default function EmployeeEntriesSection({
           formValues.kommt1 && formValues.geht1
             ? `${formValues.kommt1} – ${formValues.geht1}`
             : (formValues.kommt1 || formValues.geht1 || '—');
-        const secondary =
-          formValues.kommt2 || formValues.geht2
-            ? `${formValues.kommt2 || '—'} – ${formValues.geht2 || '—'}`
-            : null;
-        const times = secondary ? `${primary} / ${secondary}` : primary;
+        const additional = formValues.extraSegments
+          .filter((block) => block.kommt || block.geht)
+          .map((block) => `${block.kommt || '—'} – ${block.geht || '—'}`);
+        const times = [primary, ...additional].join(' / ');
         const lines: Array<{ label: string; value: string }> = [
           { label: 'Zeiten', value: times },
           { label: 'Pause', value: formValues.pause || 'Keine' },
@@ -1762,10 +1815,9 @@ export default function EmployeeEntriesSection({
       formValues.bemerkungen,
       formValues.brutto,
       formValues.dayDate,
+      formValues.extraSegments,
       formValues.geht1,
-      formValues.geht2,
       formValues.kommt1,
-      formValues.kommt2,
       formValues.mittag,
       formValues.pause,
       rangeSummary,
@@ -1804,8 +1856,7 @@ export default function EmployeeEntriesSection({
           dayDate: nextIsoDate,
           kommt1: defaults.kommt1,
           geht1: defaults.geht1,
-          kommt2: '',
-          geht2: '',
+          extraSegments: [],
           pause: defaults.pause,
           mittag: defaults.mittag,
           code: 'RA',
@@ -1869,8 +1920,7 @@ export default function EmployeeEntriesSection({
         dayDate: nextIsoDate,
         kommt1: defaults.kommt1,
         geht1: defaults.geht1,
-        kommt2: '',
-        geht2: '',
+        extraSegments: [],
         pause: defaults.pause,
         mittag: defaults.mittag,
         code: 'RA',
@@ -1909,8 +1959,33 @@ export default function EmployeeEntriesSection({
     });
   }, [formValues.dayDate, showRangePicker]);
 
+  const handleBlockChange =
+    (index: number, field: keyof TimeBlockValue) => (event: ChangeEvent<HTMLInputElement>) => {
+      const value = event.target.value;
+      setFormValues((prev) => ({
+        ...prev,
+        extraSegments: prev.extraSegments.map((block, blockIndex) =>
+          blockIndex === index ? { ...block, [field]: value } : block
+        ),
+      }));
+    };
+
+  const handleAddBlock = () => {
+    setFormValues((prev) => ({
+      ...prev,
+      extraSegments: [...prev.extraSegments, { kommt: '', geht: '' }],
+    }));
+  };
+
+  const handleRemoveBlock = (index: number) => {
+    setFormValues((prev) => ({
+      ...prev,
+      extraSegments: prev.extraSegments.filter((_, blockIndex) => blockIndex !== index),
+    }));
+  };
+
   const handleInputChange =
-    (name: keyof typeof formValues) =>
+    (name: Exclude<keyof typeof formValues, 'extraSegments'>) =>
     (event: ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
       if (name === 'mittag') {
         mealOverrideRef.current = true;
@@ -1949,8 +2024,7 @@ export default function EmployeeEntriesSection({
             ...next,
             kommt1: '',
             geht1: '',
-            kommt2: '',
-            geht2: '',
+            extraSegments: [],
             pause: 'Keine',
             mittag: 'Nein',
           };
@@ -1959,8 +2033,7 @@ export default function EmployeeEntriesSection({
             ...next,
             kommt1: '00:00',
             geht1: '00:00',
-            kommt2: '',
-            geht2: '',
+            extraSegments: [],
             pause: '0',
             mittag: 'Nein',
           };
@@ -1969,8 +2042,7 @@ export default function EmployeeEntriesSection({
             ...next,
             kommt1: '',
             geht1: '',
-            kommt2: '',
-            geht2: '',
+            extraSegments: [],
             pause: 'Keine',
             mittag: requiresMealFlag ? 'Nein' : prev.mittag,
           };
@@ -1979,8 +2051,7 @@ export default function EmployeeEntriesSection({
             ...next,
             kommt1: '',
             geht1: '',
-            kommt2: '',
-            geht2: '',
+            extraSegments: [],
             pause: 'Keine',
             mittag: requiresMealFlag ? 'Nein' : prev.mittag,
           };
@@ -1989,8 +2060,7 @@ export default function EmployeeEntriesSection({
             ...next,
             kommt1: planMeta.start,
             geht1: planMeta.end,
-            kommt2: '',
-            geht2: '',
+            extraSegments: [],
             pause: planMeta.pauseMinutes > 0 ? String(planMeta.pauseMinutes) : 'Keine',
             mittag: requiresMealFlag ? (planMeta.spanHours > 6 ? 'Ja' : 'Nein') : prev.mittag,
           };
@@ -1999,8 +2069,7 @@ export default function EmployeeEntriesSection({
             ...next,
             kommt1: planMeta.start,
             geht1: planMeta.end,
-            kommt2: '',
-            geht2: '',
+            extraSegments: [],
             pause: '0',
             mittag: 'Nein',
           };
@@ -2009,24 +2078,21 @@ export default function EmployeeEntriesSection({
             ...next,
             kommt1: '',
             geht1: '',
-            kommt2: '',
-            geht2: '',
+            extraSegments: [],
             pause: '0',
             mittag: 'Nein',
           };
         } else if (value === 'KR' || value === 'KKR') {
           next = {
             ...next,
-            kommt2: '',
-            geht2: '',
+            extraSegments: [],
           };
         } else if (value === 'Ü') {
           next = {
             ...next,
-            kommt2: '',
-            geht2: '',
+            extraSegments: [],
           };
-        } else if (MEAL_BLOCKED_CODES.has(value)) {
+        } else if (isMealBlockedCode(value, absenceCodes)) {
           next = {
             ...next,
             mittag: 'Nein',
@@ -2039,7 +2105,7 @@ export default function EmployeeEntriesSection({
       if (value === 'RA') {
         setRangeDraft({ start: null, end: null });
         setShowRangePicker(false);
-      } else if (isRangeCode(value)) {
+      } else if (isRangeCode(value, absenceCodes)) {
         const base = formValues.dayDate || getTodayIsoDate();
         setRangeDraft({
           start: formValues.dayDate || null,
@@ -2061,6 +2127,7 @@ export default function EmployeeEntriesSection({
       planMeta.spanHours,
       planMeta.pauseMinutes,
       requiresMealFlag,
+      absenceCodes,
     ]
   );
 
@@ -2329,8 +2396,7 @@ export default function EmployeeEntriesSection({
         dayDate: '',
         kommt1: defaults.kommt1,
         geht1: defaults.geht1,
-        kommt2: '',
-        geht2: '',
+        extraSegments: [],
         pause: defaults.pause,
         mittag: defaults.mittag,
         code: 'RA',
@@ -2361,8 +2427,7 @@ export default function EmployeeEntriesSection({
       dayDate: value,
       kommt1: defaults.kommt1,
       geht1: defaults.geht1,
-      kommt2: '',
-      geht2: '',
+      extraSegments: [],
       pause: defaults.pause,
       mittag: defaults.mittag,
       code: prev.code,
@@ -2544,10 +2609,9 @@ export default function EmployeeEntriesSection({
       ...prev,
       kommt1: defaults.kommt1,
       geht1: defaults.geht1,
-      kommt2: '',
-      geht2: '',
+      extraSegments: [],
       pause: defaults.pause,
-      mittag: MEAL_BLOCKED_CODES.has((prev.code ?? '').toUpperCase()) ? 'Nein' : defaults.mittag,
+      mittag: isMealBlockedCode(prev.code, absenceCodes) ? 'Nein' : defaults.mittag,
     }));
     setPlanMeta({
       hasPlan: defaults.hasPlan,
@@ -2726,7 +2790,7 @@ export default function EmployeeEntriesSection({
                             onChange={handleCodeChange}
                             className="rounded-md border border-slate-300 px-3 py-2 text-slate-900"
                           >
-                            {CODE_OPTIONS.map((option, index) => (
+                            {codeOptions.map((option, index) => (
                               <option key={`${option.value || 'none'}-${index}`} value={option.value}>
                                 {option.label}
                               </option>
@@ -2738,7 +2802,7 @@ export default function EmployeeEntriesSection({
                               role="note"
                               className="absolute left-0 top-full z-20 mt-2 w-72 rounded-md border border-slate-300 bg-slate-900/95 px-3 py-2 text-xs text-white shadow-lg whitespace-pre-line"
                             >
-                              {CODE_HELP_TEXT}
+                              {codeHelpText}
                             </div>
                           ) : null}
                         </div>
@@ -2796,17 +2860,11 @@ export default function EmployeeEntriesSection({
                   const isOvertimeCode = normalizedCode === 'Ü';
                   const showPauseControls = isFullDay || !(isOvertimeCode && overtimeMatchesPlan);
                   const showMealControl = isFullDay || requiresMealFlag;
-                  const timeGridCols = showSecondTimeBlock
-                    ? showMealControl
-                      ? 'sm:grid-cols-3 lg:grid-cols-6'
-                      : showPauseControls
-                        ? 'sm:grid-cols-3 lg:grid-cols-5'
-                        : 'sm:grid-cols-3 lg:grid-cols-4'
-                    : showMealControl
-                      ? 'sm:grid-cols-3 lg:grid-cols-4'
-                      : showPauseControls
-                        ? 'sm:grid-cols-3 lg:grid-cols-3'
-                        : 'sm:grid-cols-2 lg:grid-cols-2';
+                  const timeGridCols = showMealControl
+                    ? 'sm:grid-cols-3 lg:grid-cols-4'
+                    : showPauseControls
+                      ? 'sm:grid-cols-3 lg:grid-cols-3'
+                      : 'sm:grid-cols-2 lg:grid-cols-2';
 
                   return (
                     <section
@@ -2815,8 +2873,8 @@ export default function EmployeeEntriesSection({
                       className={`${visibilityClass} space-y-4`}
                     >
                       <p className="text-sm text-slate-600">
-                        Trage deine Kommt-/Geht-Zeiten ein. Du kannst einen zweiten Block nutzen, falls du zwischendurch
-                        eine längere Pause hattest.
+                        Trage deine Kommt-/Geht-Zeiten ein. Du kannst weitere Blöcke hinzufügen, falls du zwischendurch
+                        gegangen und wiedergekommen bist.
                       </p>
                       {normalizedCode === 'Ü' && overtimeMessages.length ? (
                         <div className="space-y-2">
@@ -2834,7 +2892,7 @@ export default function EmployeeEntriesSection({
                         <label className="flex flex-col gap-1 text-sm">
                           <span>Kommt</span>
                           <input
-                            name="kommt1"
+                            name="kommt"
                             type="time"
                             className="time-no-placeholder rounded-md border border-slate-300 px-3 py-2 text-slate-900"
                             autoComplete="off"
@@ -2845,7 +2903,7 @@ export default function EmployeeEntriesSection({
                         <label className="flex flex-col gap-1 text-sm">
                           <span>Geht</span>
                           <input
-                            name="geht1"
+                            name="geht"
                             type="time"
                             className="time-no-placeholder rounded-md border border-slate-300 px-3 py-2 text-slate-900"
                             autoComplete="off"
@@ -2853,32 +2911,6 @@ export default function EmployeeEntriesSection({
                             onChange={handleInputChange('geht1')}
                           />
                         </label>
-                        {showSecondTimeBlock ? (
-                          <>
-                            <label className="flex flex-col gap-1 text-sm">
-                              <span>Kommt 2</span>
-                              <input
-                                name="kommt2"
-                                type="time"
-                                className="time-no-placeholder rounded-md border border-slate-300 px-3 py-2 text-slate-900"
-                                autoComplete="off"
-                                value={formValues.kommt2}
-                                onChange={handleInputChange('kommt2')}
-                              />
-                            </label>
-                            <label className="flex flex-col gap-1 text-sm">
-                              <span>Geht 2</span>
-                              <input
-                                name="geht2"
-                                type="time"
-                                className="time-no-placeholder rounded-md border border-slate-300 px-3 py-2 text-slate-900"
-                                autoComplete="off"
-                                value={formValues.geht2}
-                                onChange={handleInputChange('geht2')}
-                              />
-                            </label>
-                          </>
-                        ) : null}
                         {showPauseControls ? (
                           <label className="flex flex-col gap-1 text-sm">
                             <span className="text-red-600">Pause (Minuten oder „Keine“)</span>
@@ -2919,11 +2951,54 @@ export default function EmployeeEntriesSection({
                           Für einen vollständigen Überstundenabbau werden Pause und Verpflegung automatisch auf „Keine/Nein“ gesetzt.
                         </p>
                       ) : null}
-                      {!showSecondTimeBlock ? (
+                      {showAdditionalBlocks ? (
+                        <div className="space-y-3">
+                          {formValues.extraSegments.map((block, index) => (
+                            <div key={`extra-block-${index}`} className="grid grid-cols-1 items-end gap-4 sm:grid-cols-3">
+                              <label className="flex flex-col gap-1 text-sm">
+                                <span>Kommt {index + 2}</span>
+                                <input
+                                  name="kommt"
+                                  type="time"
+                                  className="time-no-placeholder rounded-md border border-slate-300 px-3 py-2 text-slate-900"
+                                  autoComplete="off"
+                                  value={block.kommt}
+                                  onChange={handleBlockChange(index, 'kommt')}
+                                />
+                              </label>
+                              <label className="flex flex-col gap-1 text-sm">
+                                <span>Geht {index + 2}</span>
+                                <input
+                                  name="geht"
+                                  type="time"
+                                  className="time-no-placeholder rounded-md border border-slate-300 px-3 py-2 text-slate-900"
+                                  autoComplete="off"
+                                  value={block.geht}
+                                  onChange={handleBlockChange(index, 'geht')}
+                                />
+                              </label>
+                              <button
+                                type="button"
+                                onClick={() => handleRemoveBlock(index)}
+                                className="rounded-md border border-slate-300 px-3 py-2 text-sm text-slate-600 hover:bg-slate-50"
+                              >
+                                Block entfernen
+                              </button>
+                            </div>
+                          ))}
+                          <button
+                            type="button"
+                            onClick={handleAddBlock}
+                            className="rounded-md border border-dashed border-slate-300 px-3 py-2 text-sm text-slate-600 hover:bg-slate-50"
+                          >
+                            Weiteren Block hinzufügen
+                          </button>
+                        </div>
+                      ) : (
                         <p className="text-xs text-slate-500">
-                          Ein zweiter Block erscheint automatisch, sobald du die eingeplante Zeit anpasst.
+                          Weitere Blöcke sind möglich, sobald du die eingeplante Zeit anpasst.
                         </p>
-                      ) : null}
+                      )}
                       <div className="flex flex-wrap items-center justify-between gap-3 rounded-md border border-slate-200 bg-white px-3 py-2 text-xs text-slate-600">
                         {planMeta.hasPlan ? (
                           <span>
@@ -3020,10 +3095,11 @@ export default function EmployeeEntriesSection({
                   if (stepFlow.includes('time')) {
                     summaryRows.push({ label: 'Kommt', value: formValues.kommt1 || '—' });
                     summaryRows.push({ label: 'Geht', value: formValues.geht1 || '—' });
-                    if (formValues.kommt2 || formValues.geht2) {
-                      summaryRows.push({ label: 'Kommt 2', value: formValues.kommt2 || '—' });
-                      summaryRows.push({ label: 'Geht 2', value: formValues.geht2 || '—' });
-                    }
+                    formValues.extraSegments.forEach((block, index) => {
+                      if (!block.kommt && !block.geht) return;
+                      summaryRows.push({ label: `Kommt ${index + 2}`, value: block.kommt || '—' });
+                      summaryRows.push({ label: `Geht ${index + 2}`, value: block.geht || '—' });
+                    });
                     summaryRows.push({ label: 'Pause', value: formValues.pause || 'Keine' });
                     if (requiresMealFlag) {
                       summaryRows.push({
@@ -3219,9 +3295,10 @@ export default function EmployeeEntriesSection({
                   : entry.kommt1 || entry.geht1 || '—';
               const secondaryTime = hideTimes
                 ? null
-                : entry.kommt2 && entry.geht2
-                  ? `${entry.kommt2} – ${entry.geht2}`
-                  : entry.kommt2 || entry.geht2 || null;
+                : entry.segments
+                    .slice(1)
+                    .map((segment) => `${segment.kommt || '—'} – ${segment.geht || '—'}`)
+                    .join(' / ') || null;
               const dateObj = new Date(`${entry.day_date}T00:00:00`);
               const weekdayShort = Number.isNaN(dateObj.getTime())
                 ? ''
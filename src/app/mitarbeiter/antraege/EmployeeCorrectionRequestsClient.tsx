@@ -0,0 +1,247 @@
+'use client';
+
+import { useActionState, useEffect, useRef, useState } from 'react';
+import { useFormStatus } from 'react-dom';
+
+import type { TimeCorrectionRequestView } from '@/lib/services/time-correction-requests';
+
+import type { LeaveRequestFormState } from './EmployeeLeaveRequestsClient';
+
+type Props = {
+  requests: TimeCorrectionRequestView[];
+  today: string;
+  submitAction: (
+    initialState: LeaveRequestFormState,
+    formData: FormData
+  ) => Promise<LeaveRequestFormState>;
+  withdrawAction: (
+    initialState: LeaveRequestFormState,
+    formData: FormData
+  ) => Promise<LeaveRequestFormState>;
+};
+
+const INITIAL_STATE: LeaveRequestFormState = {
+  status: 'idle',
+  message: null,
+};
+
+const CODE_OPTIONS = [
+  { value: 'RA', label: 'Reguläre Arbeitszeit' },
+  { value: 'Ü', label: 'Über-/Minusstundenkorrektur' },
+  { value: 'K', label: 'Krank' },
+  { value: 'KK', label: 'Kind krank' },
+  { value: 'KKR', label: 'Kind krank Reststunden' },
+  { value: 'KR', label: 'Krank Reststunden' },
+  { value: 'KU', label: 'Kurzarbeit' },
+  { value: 'U', label: 'Urlaub' },
+  { value: 'UH', label: 'Urlaub 1/2 Tag' },
+  { value: 'FT', label: 'Feiertag' },
+  { value: 'UBF', label: 'Abwesend' },
+];
+
+const INPUT_CLASS =
+  'mt-1 w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-800 focus:border-brand focus:outline-none focus:ring-2 focus:ring-brand/20';
+
+function SubmitButton() {
+  const { pending } = useFormStatus();
+  return (
+    <button
+      type="submit"
+      disabled={pending}
+      className="inline-flex items-center justify-center rounded-full bg-brand px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand/90 disabled:cursor-not-allowed disabled:opacity-60"
+    >
+      {pending ? 'Sende Korrektur …' : 'Korrektur beantragen'}
+    </button>
+  );
+}
+
+function formatDate(iso: string): string {
+  const date = new Date(`${iso}T00:00:00`);
+  if (Number.isNaN(date.getTime())) {
+    return iso;
+  }
+  return date.toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit', year: 'numeric' });
+}
+
+function WithdrawForm({ requestId, action }: { requestId: number; action: Props['withdrawAction'] }) {
+  const [state, formAction] = useActionState(action, INITIAL_STATE);
+  return (
+    <form action={formAction} className="space-y-1">
+      <input type="hidden" name="request_id" value={requestId} />
+      <button
+        type="submit"
+        onClick={(event) => {
+          if (!window.confirm('Korrekturantrag zurückziehen?')) {
+            event.preventDefault();
+          }
+        }}
+        className="rounded-md border border-red-200 px-3 py-1 text-xs font-medium text-red-600 hover:bg-red-50"
+      >
+        Zurückziehen
+      </button>
+      {state.status === 'error' && state.message ? <p className="text-xs text-red-600">{state.message}</p> : null}
+    </form>
+  );
+}
+
+export default function EmployeeCorrectionRequestsClient({ requests, today, submitAction, withdrawAction }: Props) {
+  const [formState, formAction] = useActionState(submitAction, INITIAL_STATE);
+  const [segmentCount, setSegmentCount] = useState(1);
+  const formRef = useRef<HTMLFormElement>(null);
+
+  useEffect(() => {
+    if (formState.status === 'success') {
+      formRef.current?.reset();
+      setSegmentCount(1);
+    }
+  }, [formState.status]);
+
+  const feedbackClass =
+    formState.status === 'success'
+      ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+      : 'border-red-200 bg-red-50 text-red-700';
+
+  return (
+    <div className="space-y-8">
+      <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+        <header className="mb-4 space-y-1">
+          <h2 className="text-lg font-semibold text-slate-900">Korrektur für einen vergangenen Tag</h2>
+          <p className="text-sm text-slate-500">
+            Vergangene oder bereits abgeschlossene Tage kannst du nicht mehr selbst ändern. Trage ein, wie der Tag
+            richtig aussehen soll – die Verwaltung prüft die Änderung und übernimmt sie.
+          </p>
+        </header>
+        <form ref={formRef} action={formAction} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+              Datum
+              <input type="date" name="day_date" max={today} required className={INPUT_CLASS} />
+            </label>
+            <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+              Code
+              <select name="code" defaultValue="RA" className={INPUT_CLASS}>
+                {CODE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            {Array.from({ length: segmentCount }, (_, index) => (
+              <div key={index} className="grid grid-cols-2 gap-4">
+                <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Kommt {segmentCount > 1 ? index + 1 : ''}
+                  <input type="time" name="kommt" className={INPUT_CLASS} />
+                </label>
+                <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Geht {segmentCount > 1 ? index + 1 : ''}
+                  <input type="time" name="geht" className={INPUT_CLASS} />
+                </label>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setSegmentCount((count) => count + 1)}
+              className="rounded-md border border-slate-300 px-3 py-1 text-xs font-medium text-slate-700 hover:bg-slate-50"
+            >
+              Weiteren Block hinzufügen
+            </button>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+              Pause (Minuten)
+              <input type="text" name="pause" placeholder="z. B. 30" className={INPUT_CLASS} />
+            </label>
+            <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+              Mittag
+              <select name="mittag" defaultValue="Nein" className={INPUT_CLASS}>
+                <option value="Nein">Nein</option>
+                <option value="Ja">Ja</option>
+              </select>
+            </label>
+          </div>
+
+          <label className="block text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Notiz zum Tag (optional)
+            <input type="text" name="bemerkungen" maxLength={500} className={INPUT_CLASS} />
+          </label>
+
+          <label className="block text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Begründung
+            <textarea
+              name="reason"
+              rows={3}
+              required
+              maxLength={500}
+              placeholder="Was war falsch und warum?"
+              className={INPUT_CLASS}
+            />
+          </label>
+
+          <SubmitButton />
+        </form>
+        {formState.status !== 'idle' && formState.message ? (
+          <p className={`mt-4 rounded-lg border px-4 py-3 text-sm ${feedbackClass}`}>{formState.message}</p>
+        ) : null}
+      </section>
+
+      <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+        <header className="mb-4 space-y-1">
+          <h2 className="text-lg font-semibold text-slate-900">Bisherige Korrekturanträge</h2>
+        </header>
+        {requests.length === 0 ? (
+          <p className="rounded-lg border border-dashed border-slate-300 px-4 py-6 text-center text-sm text-slate-500">
+            Es liegen noch keine Korrekturanträge vor.
+          </p>
+        ) : (
+          <ul className="divide-y divide-slate-200">
+            {requests.map((request) => {
+              const statusBadgeClasses =
+                request.status === 'approved'
+                  ? 'bg-emerald-100 text-emerald-700 border border-emerald-200'
+                  : request.status === 'rejected'
+                    ? 'bg-red-100 text-red-700 border border-red-200'
+                    : 'bg-amber-100 text-amber-700 border border-amber-200';
+              return (
+                <li key={request.id} className="space-y-2 py-3 text-sm">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <p className="font-medium text-slate-900">
+                      {formatDate(request.dayDate)}
+                      <span className="ml-2 text-xs font-normal text-slate-400">
+                        Erstellt am {formatDate(request.createdAt.slice(0, 10))}
+                      </span>
+                    </p>
+                    <span className={`inline-flex rounded-full px-2.5 py-1 text-xs font-semibold ${statusBadgeClasses}`}>
+                      {request.statusLabel}
+                    </span>
+                  </div>
+                  <ul className="text-xs text-slate-600">
+                    {request.changes.map((change) => (
+                      <li key={change.label}>
+                        {change.label}: <span className="line-through">{change.before}</span> →{' '}
+                        <span className="font-medium text-slate-900">{change.after}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-slate-500">Begründung: {request.reason}</p>
+                  {request.adminNote ? (
+                    <p className="text-xs text-slate-500">
+                      Verwaltung: <span className="text-slate-800">{request.adminNote}</span>
+                    </p>
+                  ) : null}
+                  {request.status === 'pending' ? (
+                    <WithdrawForm requestId={request.id} action={withdrawAction} />
+                  ) : null}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
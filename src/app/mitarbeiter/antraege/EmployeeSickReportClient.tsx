@@ -0,0 +1,170 @@
+'use client';
+
+import { useActionState, useEffect, useRef } from 'react';
+import { useFormStatus } from 'react-dom';
+
+import type { SickLeaveEpisodeView } from '@/lib/services/sick-leave';
+
+import type { LeaveRequestFormState } from './EmployeeLeaveRequestsClient';
+
+type FormAction = (initialState: LeaveRequestFormState, formData: FormData) => Promise<LeaveRequestFormState>;
+
+type Props = {
+  episodes: SickLeaveEpisodeView[];
+  /** Ids of the episodes the employee may still extend or end. */
+  changeableIds: number[];
+  today: string;
+  reportAction: FormAction;
+  changeAction: FormAction;
+};
+
+const INITIAL_STATE: LeaveRequestFormState = {
+  status: 'idle',
+  message: null,
+};
+
+const INPUT_CLASS =
+  'mt-1 w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-800 focus:border-brand focus:outline-none focus:ring-2 focus:ring-brand/20';
+
+function SubmitButton({ label, pendingLabel }: { label: string; pendingLabel: string }) {
+  const { pending } = useFormStatus();
+  return (
+    <button
+      type="submit"
+      disabled={pending}
+      className="inline-flex items-center justify-center rounded-full bg-brand px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand/90 disabled:cursor-not-allowed disabled:opacity-60"
+    >
+      {pending ? pendingLabel : label}
+    </button>
+  );
+}
+
+function Feedback({ state }: { state: LeaveRequestFormState }) {
+  if (state.status === 'idle' || !state.message) return null;
+  const feedbackClass =
+    state.status === 'success'
+      ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+      : 'border-red-200 bg-red-50 text-red-700';
+  return <p className={`rounded-lg border px-4 py-3 text-sm ${feedbackClass}`}>{state.message}</p>;
+}
+
+function formatDate(iso: string): string {
+  const date = new Date(`${iso}T00:00:00`);
+  if (Number.isNaN(date.getTime())) {
+    return iso;
+  }
+  return date.toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit', year: 'numeric' });
+}
+
+function ChangeSicknessForm({ episode, action }: { episode: SickLeaveEpisodeView; action: FormAction }) {
+  const [state, formAction] = useActionState(action, INITIAL_STATE);
+  return (
+    <form action={formAction} className="space-y-3 rounded-lg border border-slate-200 bg-slate-50 p-3">
+      <input type="hidden" name="episode_id" value={episode.id} />
+      <div className="grid gap-3 sm:grid-cols-2">
+        <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+          Krank bis einschließlich
+          <input
+            type="date"
+            name="end_date"
+            min={episode.startDate}
+            required
+            defaultValue={episode.endDate ?? ''}
+            className={INPUT_CLASS}
+          />
+        </label>
+        <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+          Folgebescheinigung (optional)
+          <input type="file" name="document" accept=".pdf,.png,.jpg,.jpeg" className={INPUT_CLASS} />
+        </label>
+      </div>
+      <p className="text-xs text-slate-500">
+        Ein späteres Datum verlängert die Krankmeldung, ein früheres beendet sie – deine Schichten danach werden
+        wiederhergestellt.
+      </p>
+      <SubmitButton label="Krankmeldung anpassen" pendingLabel="Speichere …" />
+      <Feedback state={state} />
+    </form>
+  );
+}
+
+export default function EmployeeSickReportClient({ episodes, changeableIds, today, reportAction, changeAction }: Props) {
+  const [formState, formAction] = useActionState(reportAction, INITIAL_STATE);
+  const formRef = useRef<HTMLFormElement>(null);
+
+  useEffect(() => {
+    if (formState.status === 'success') {
+      formRef.current?.reset();
+    }
+  }, [formState.status]);
+
+  const changeable = new Set(changeableIds);
+
+  return (
+    <div className="space-y-8">
+      <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+        <header className="mb-4 space-y-1">
+          <h2 className="text-lg font-semibold text-slate-900">Krankmeldung</h2>
+          <p className="text-sm text-slate-500">
+            Melde dich hier krank. Deine geplanten Schichten werden sofort als krank markiert und die Verwaltung
+            deiner Filiale wird per E-Mail informiert. Die AU-Bescheinigung kannst du direkt oder später hochladen.
+          </p>
+        </header>
+        <form ref={formRef} action={formAction} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+              Erster Krankheitstag
+              <input type="date" name="start_date" max={today} defaultValue={today} required className={INPUT_CLASS} />
+            </label>
+            <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+              Voraussichtlich krank bis
+              <input type="date" name="end_date" defaultValue={today} required className={INPUT_CLASS} />
+            </label>
+          </div>
+          <label className="block text-xs font-semibold uppercase tracking-wide text-slate-500">
+            AU-Bescheinigung (PDF, PNG, JPG – optional)
+            <input type="file" name="document" accept=".pdf,.png,.jpg,.jpeg" className={INPUT_CLASS} />
+          </label>
+          <label className="block text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Hinweis an die Verwaltung (optional)
+            <textarea name="note" rows={2} maxLength={500} className={INPUT_CLASS} />
+          </label>
+          <SubmitButton label="Krankmelden" pendingLabel="Sende Krankmeldung …" />
+        </form>
+        <div className="mt-4">
+          <Feedback state={formState} />
+        </div>
+      </section>
+
+      {episodes.length > 0 ? (
+        <section className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+          <header className="mb-4 space-y-1">
+            <h2 className="text-lg font-semibold text-slate-900">Deine Krankmeldungen</h2>
+          </header>
+          <ul className="divide-y divide-slate-200">
+            {[...episodes].reverse().map((episode) => (
+              <li key={episode.id} className="space-y-2 py-3 text-sm">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <p className="font-medium text-slate-900">
+                    {formatDate(episode.startDate)} – {episode.endDate ? formatDate(episode.endDate) : 'andauernd'}
+                    <span className="ml-2 text-xs font-normal text-slate-400">{episode.days} Tage</span>
+                  </p>
+                  <span
+                    className={`inline-flex rounded-full border px-2.5 py-1 text-xs font-semibold ${
+                      episode.certificateReceivedAt
+                        ? 'border-emerald-200 bg-emerald-100 text-emerald-700'
+                        : 'border-amber-200 bg-amber-100 text-amber-700'
+                    }`}
+                  >
+                    {episode.certificateReceivedAt ? 'AU liegt vor' : 'AU fehlt'}
+                  </span>
+                </div>
+                {changeable.has(episode.id) ? <ChangeSicknessForm episode={episode} action={changeAction} /> : null}
+              </li>
+            ))}
+          </ul>
+        </section>
+      ) : null}
+    </div>
+  );
+}
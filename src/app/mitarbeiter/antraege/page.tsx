@@ -1,5 +1,6 @@
 import { revalidatePath } from 'next/cache';
 import { redirect } from 'next/navigation';
+import { DateTime } from 'luxon';
 
 import { getServerAuthSession } from '@/lib/auth/session';
 import { withAppBasePath } from '@/lib/routes';
@@ -10,10 +11,24 @@ import {
   cancelLeaveRequestAsEmployee,
   type LeaveRequestView,
 } from '@/lib/services/leave-requests';
+import {
+  changeReportedSickness,
+  getSickLeaveEpisodesForEmployee,
+  isSickReportChangeable,
+  reportSickness,
+} from '@/lib/services/sick-leave';
+import {
+  getTimeCorrectionRequestsForEmployee,
+  submitTimeCorrectionRequest,
+  withdrawTimeCorrectionRequest,
+} from '@/lib/services/time-correction-requests';
+import { readSegmentsFromFormData } from '@/lib/services/time-entry';
 
+import EmployeeCorrectionRequestsClient from './EmployeeCorrectionRequestsClient';
 import EmployeeLeaveRequestsClient, {
   type LeaveRequestFormState,
 } from './EmployeeLeaveRequestsClient';
+import EmployeeSickReportClient from './EmployeeSickReportClient';
 
 async function ensureEmployeeSession() {
   const session = await getServerAuthSession();
@@ -176,16 +191,179 @@ async function manageLeaveRequestAction(
   }
 }
 
+async function submitCorrectionRequestAction(
+  _prevState: LeaveRequestFormState,
+  formData: FormData
+): Promise<LeaveRequestFormState> {
+  'use server';
+  try {
+    const { employeeId, tenantId } = await ensureEmployeeSession();
+
+    await submitTimeCorrectionRequest(tenantId, {
+      employeeId,
+      dayDate: String(formData.get('day_date') ?? ''),
+      segmentsRaw: readSegmentsFromFormData(formData),
+      pauseRaw: String(formData.get('pause') ?? ''),
+      codeRaw: String(formData.get('code') ?? ''),
+      mittagRaw: String(formData.get('mittag') ?? ''),
+      bemerkungenRaw: String(formData.get('bemerkungen') ?? ''),
+      reason: String(formData.get('reason') ?? ''),
+    });
+
+    revalidatePath(withAppBasePath('/mitarbeiter/antraege'));
+    revalidatePath(withAppBasePath('/admin/antraege'));
+
+    return {
+      status: 'success',
+      message: 'Dein Korrekturantrag wurde an die Verwaltung übermittelt.',
+    };
+  } catch (error) {
+    console.error('Failed to submit time correction request', error);
+    return {
+      status: 'error',
+      message:
+        error instanceof Error
+          ? error.message
+          : 'Der Korrekturantrag konnte nicht gesendet werden.',
+    };
+  }
+}
+
+async function withdrawCorrectionRequestAction(
+  _prevState: LeaveRequestFormState,
+  formData: FormData
+): Promise<LeaveRequestFormState> {
+  'use server';
+  try {
+    const { employeeId, tenantId } = await ensureEmployeeSession();
+    const requestId = Number.parseInt(String(formData.get('request_id') ?? '').trim(), 10);
+    if (!Number.isFinite(requestId) || requestId <= 0) {
+      return { status: 'error', message: 'Ungültige Antragsnummer.' };
+    }
+
+    await withdrawTimeCorrectionRequest(tenantId, employeeId, requestId);
+
+    revalidatePath(withAppBasePath('/mitarbeiter/antraege'));
+    revalidatePath(withAppBasePath('/admin/antraege'));
+
+    return { status: 'success', message: 'Der Korrekturantrag wurde zurückgezogen.' };
+  } catch (error) {
+    console.error('Failed to withdraw time correction request', error);
+    return {
+      status: 'error',
+      message:
+        error instanceof Error
+          ? error.message
+          : 'Der Korrekturantrag konnte nicht zurückgezogen werden.',
+    };
+  }
+}
+
+function readUploadedFile(formData: FormData): File | null {
+  const value = formData.get('document');
+  return value instanceof File && value.size > 0 ? value : null;
+}
+
+async function reportSicknessAction(
+  _prevState: LeaveRequestFormState,
+  formData: FormData
+): Promise<LeaveRequestFormState> {
+  'use server';
+  try {
+    const { employeeId, tenantId } = await ensureEmployeeSession();
+    const noteValue = formData.get('note');
+
+    await reportSickness(tenantId, {
+      employeeId,
+      startDate: String(formData.get('start_date') ?? '').trim(),
+      expectedEndDate: String(formData.get('end_date') ?? '').trim(),
+      note: typeof noteValue === 'string' ? noteValue.trim() : null,
+      document: readUploadedFile(formData),
+    });
+
+    revalidatePath(withAppBasePath('/mitarbeiter/antraege'));
+    revalidatePath(withAppBasePath('/mitarbeiter/dokumente'));
+    revalidatePath(withAppBasePath('/admin/krankheit'));
+
+    return { status: 'success', message: 'Deine Krankmeldung wurde übermittelt. Gute Besserung!' };
+  } catch (error) {
+    console.error('Failed to report sickness', error);
+    return {
+      status: 'error',
+      message:
+        error instanceof Error
+          ? error.message
+          : 'Die Krankmeldung konnte nicht gesendet werden.',
+    };
+  }
+}
+
+async function changeSicknessAction(
+  _prevState: LeaveRequestFormState,
+  formData: FormData
+): Promise<LeaveRequestFormState> {
+  'use server';
+  try {
+    const { employeeId, tenantId } = await ensureEmployeeSession();
+    const episodeId = Number.parseInt(String(formData.get('episode_id') ?? '').trim(), 10);
+    if (!Number.isFinite(episodeId) || episodeId <= 0) {
+      return { status: 'error', message: 'Ungültige Krankmeldung.' };
+    }
+
+    await changeReportedSickness(tenantId, {
+      employeeId,
+      episodeId,
+      endDate: String(formData.get('end_date') ?? '').trim(),
+      document: readUploadedFile(formData),
+    });
+
+    revalidatePath(withAppBasePath('/mitarbeiter/antraege'));
+    revalidatePath(withAppBasePath('/mitarbeiter/dokumente'));
+    revalidatePath(withAppBasePath('/admin/krankheit'));
+
+    return { status: 'success', message: 'Deine Krankmeldung wurde angepasst.' };
+  } catch (error) {
+    console.error('Failed to change sickness report', error);
+    return {
+      status: 'error',
+      message:
+        error instanceof Error
+          ? error.message
+          : 'Die Krankmeldung konnte nicht angepasst werden.',
+    };
+  }
+}
+
 export default async function EmployeeLeaveRequestsPage() {
   const { employeeId, tenantId } = await ensureEmployeeSession();
   const requests: LeaveRequestView[] =
     await getLeaveRequestsForEmployee(tenantId, employeeId);
+  const corrections = await getTimeCorrectionRequestsForEmployee(tenantId, employeeId);
+  const today = DateTime.now().setZone('Europe/Berlin').toISODate() ?? '';
+  const sickEpisodes = await getSickLeaveEpisodesForEmployee(tenantId, employeeId, today);
 
   return (
-    <EmployeeLeaveRequestsClient
-      requests={requests}
-      submitAction={submitLeaveRequestAction}
-      cancelAction={manageLeaveRequestAction}
-    />
+    <div className="space-y-8">
+      <EmployeeSickReportClient
+        episodes={sickEpisodes}
+        changeableIds={sickEpisodes
+          .filter((episode) => isSickReportChangeable(episode, today))
+          .map((episode) => episode.id)}
+        today={today}
+        reportAction={reportSicknessAction}
+        changeAction={changeSicknessAction}
+      />
+      <EmployeeLeaveRequestsClient
+        requests={requests}
+        submitAction={submitLeaveRequestAction}
+        cancelAction={manageLeaveRequestAction}
+      />
+      <EmployeeCorrectionRequestsClient
+        requests={corrections}
+        today={today}
+        submitAction={submitCorrectionRequestAction}
+        withdrawAction={withdrawCorrectionRequestAction}
+      />
+    </div>
   );
 }
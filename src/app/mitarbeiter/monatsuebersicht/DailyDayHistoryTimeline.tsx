@@ -0,0 +1,144 @@
+'use client';
+
+import { useActionState } from 'react';
+import { useFormStatus } from 'react-dom';
+
+import type { DailyDayChangeAction, DailyDayChangeSource } from '@/lib/data/daily-day-history';
+import type { DailyDayHistoryItem } from '@/lib/services/daily-day-history';
+
+import type { EntryActionState } from '../types';
+
+const SOURCE_LABELS: Record<DailyDayChangeSource, string> = {
+  employee: 'Mitarbeiter',
+  admin: 'Verwaltung',
+  kiosk: 'Kiosk',
+  leave_request: 'Antrag',
+  shift_plan: 'Schichtplan',
+  import: 'Import',
+  sick_report: 'Krankmeldung',
+};
+
+const ACTION_LABELS: Record<DailyDayChangeAction, string> = {
+  create: 'Angelegt',
+  update: 'Geändert',
+  delete: 'Gelöscht',
+  revert: 'Wiederhergestellt',
+};
+
+type Props = {
+  items: DailyDayHistoryItem[];
+  /** Shown for admins only; restores the version an entry produced. */
+  revert?: {
+    employeeId: number;
+    action: (prevState: EntryActionState, formData: FormData) => Promise<EntryActionState>;
+    initialState: EntryActionState;
+  };
+};
+
+function RevertButton() {
+  const { pending } = useFormStatus();
+  return (
+    <button
+      type="submit"
+      disabled={pending}
+      className="rounded-md border border-slate-300 px-3 py-1 text-xs font-semibold text-slate-700 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+    >
+      {pending ? 'Wird zurückgesetzt…' : 'Diesen Stand wiederherstellen'}
+    </button>
+  );
+}
+
+function formatDayLabel(isoDate: string): string {
+  return new Date(`${isoDate}T00:00:00`).toLocaleDateString('de-DE', {
+    weekday: 'short',
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+  });
+}
+
+function RevertForm({ employeeId, historyId, formAction }: {
+  employeeId: number;
+  historyId: number;
+  formAction: (formData: FormData) => void;
+}) {
+  return (
+    <form
+      action={formAction}
+      onSubmit={(event) => {
+        if (!window.confirm('Den Tag auf diesen Stand zurücksetzen? Die Änderung wird ebenfalls protokolliert.')) {
+          event.preventDefault();
+        }
+      }}
+    >
+      <input type="hidden" name="employeeId" value={employeeId} />
+      <input type="hidden" name="historyId" value={historyId} />
+      <RevertButton />
+    </form>
+  );
+}
+
+export default function DailyDayHistoryTimeline({ items, revert }: Props) {
+  const [revertState, revertFormAction] = useActionState(
+    revert?.action ?? (async (prevState: EntryActionState) => prevState),
+    revert?.initialState ?? null
+  );
+
+  if (!items.length) {
+    return <p className="text-sm text-slate-500">Für diesen Monat wurden noch keine Änderungen protokolliert.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {revertState?.message ? (
+        <div
+          className={`rounded-md border px-3 py-2 text-sm ${
+            revertState.status === 'success'
+              ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+              : 'border-red-200 bg-red-50 text-red-700'
+          }`}
+        >
+          {revertState.message}
+        </div>
+      ) : null}
+      <ol className="space-y-3 border-l border-slate-200 pl-4">
+        {items.map((item) => (
+          <li key={item.id} className="relative space-y-2">
+            <span className="absolute -left-[1.3rem] top-1.5 h-2 w-2 rounded-full bg-brand" aria-hidden />
+            <div className="flex flex-wrap items-baseline justify-between gap-2 text-sm">
+              <p className="text-slate-900">
+                <span className="font-semibold">{formatDayLabel(item.dayDate)}</span>
+                {' · '}
+                {ACTION_LABELS[item.action]}
+                {item.revertedFromId ? ` (Stand #${item.revertedFromId})` : ''}
+              </p>
+              <p className="text-xs text-slate-500">
+                #{item.id} · {new Date(item.createdAt).toLocaleString('de-DE')} ·{' '}
+                {SOURCE_LABELS[item.source]}
+                {item.actorName ? ` (${item.actorName})` : ''}
+              </p>
+            </div>
+            {item.changes.length ? (
+              <table className="min-w-full text-xs">
+                <tbody className="divide-y divide-slate-100">
+                  {item.changes.map((change) => (
+                    <tr key={change.field}>
+                      <td className="w-40 py-1 pr-3 font-medium text-slate-600">{change.label}</td>
+                      <td className="py-1 pr-3 text-slate-500 line-through">{change.before}</td>
+                      <td className="py-1 text-slate-900">{change.after}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-xs text-slate-500">Keine inhaltlichen Änderungen.</p>
+            )}
+            {revert && item.revertible ? (
+              <RevertForm employeeId={revert.employeeId} historyId={item.id} formAction={revertFormAction} />
+            ) : null}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
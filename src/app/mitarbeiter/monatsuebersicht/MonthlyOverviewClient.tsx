@@ -5,9 +5,13 @@ import { useRouter, useSearchParams } from 'next/navigation';
 
 import type { EmployeeMonthlyOverview } from '@/lib/services/employee/monthly-overview';
 import type { EmployeeMonthlySummary } from '@/lib/services/employee/monthly-summary';
+import type { EmployeeSurchargeSummary } from '@/lib/services/surcharges';
+import type { ChildSickDayBalance } from '@/lib/services/child-sick-days';
+import type { DailyDayHistoryItem } from '@/lib/services/daily-day-history';
 import type { EntryActionState } from '../types';
 
 import { MonthlyOverviewTable } from './MonthlyOverviewTable';
+import DailyDayHistoryTimeline from './DailyDayHistoryTimeline';
 
 const hoursFormatter = new Intl.NumberFormat('de-DE', {
   minimumFractionDigits: 2,
@@ -40,8 +44,11 @@ type BonusHistoryItem = {
 type Props = {
   overview: EmployeeMonthlyOverview;
   summary: EmployeeMonthlySummary;
+  surcharges: EmployeeSurchargeSummary | null;
+  childSickDays: ChildSickDayBalance;
   bonusHistory: BonusHistoryItem[];
   bonusHistoryYears: number[];
+  dayHistory: DailyDayHistoryItem[];
   requestAction: (prevState: EntryActionState, formData: FormData) => Promise<EntryActionState>;
   requestInitialState: EntryActionState;
   overtimeRequestAction: (prevState: EntryActionState, formData: FormData) => Promise<EntryActionState>;
@@ -75,6 +82,15 @@ function formatCarryExpiryLabel(value: string | null | undefined, year: number):
   return parsed.toLocaleDateString('de-DE');
 }
 
+function formatWorkdays(value: number): string {
+  return `${value.toLocaleString('de-DE', { maximumFractionDigits: 1 })} Tage/Woche`;
+}
+
+function formatIsoDay(isoDate: string): string {
+  const [year, month, day] = isoDate.split('-');
+  return year && month && day ? `${day}.${month}.${year}` : isoDate;
+}
+
 function formatMonthYear(year: number, month: number): string {
   const date = new Date(Date.UTC(year, month - 1, 1));
   return date.toLocaleDateString('de-DE', { month: 'long', year: 'numeric' });
@@ -84,8 +100,11 @@ function formatMonthYear(year: number, month: number): string {
 export default function MonthlyOverviewClient({
   overview,
   summary,
+  surcharges,
+  childSickDays,
   bonusHistory,
   bonusHistoryYears,
+  dayHistory,
   requestAction,
   requestInitialState,
   overtimeRequestAction,
@@ -425,6 +444,34 @@ export default function MonthlyOverviewClient({
               </dd>
             </div>
           </dl>
+          {summary.vacation.segments.length > 1 || summary.vacation.conversions.length ? (
+            <div className="space-y-2 rounded-lg border border-slate-100 bg-slate-50 px-3 py-2 text-sm text-slate-700">
+              <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                Urlaubsanspruch nach Arbeitstagen pro Woche
+              </p>
+              {summary.vacation.segments.length > 1 ? (
+                <ul className="space-y-1">
+                  {summary.vacation.segments.map((segment) => (
+                    <li key={segment.validFrom}>
+                      {formatIsoDay(segment.validFrom)}–{formatIsoDay(segment.validUntil)} (
+                      {formatWorkdays(segment.workdaysPerWeek)}): {formatDays(segment.proRataDays)} von{' '}
+                      {formatDays(segment.annualDays)}
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+              {summary.vacation.conversions.map((conversion) => (
+                <p key={conversion.isoDate} className="text-xs text-slate-500">
+                  Am {formatIsoDay(conversion.isoDate)} wurde der übertragene Resturlaub von{' '}
+                  {formatDays(conversion.remainingBefore)} ({formatWorkdays(conversion.fromWorkdaysPerWeek)}) auf{' '}
+                  {formatDays(conversion.remainingAfter)} ({formatWorkdays(conversion.toWorkdaysPerWeek)}) umgerechnet.
+                  {conversion.remainingAfter === conversion.remainingBefore
+                    ? ' Bereits erworbene Urlaubstage werden durch weniger Arbeitstage nicht gekürzt.'
+                    : null}
+                </p>
+              ))}
+            </div>
+          ) : null}
         </div>
       ) : null}
 
@@ -789,6 +836,65 @@ export default function MonthlyOverviewClient({
             </dl>
           </div>
 
+          {surcharges ? (
+            <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+              <h3 className="text-lg font-semibold text-slate-900">Zuschläge</h3>
+              <p className="text-sm text-slate-500">
+                Gearbeitete Stunden mit Nacht-, Sonntags- oder Feiertagszuschlag. Stunden nach Mitternacht zählen zum
+                Folgetag.
+              </p>
+              <dl className="mt-3 grid gap-3 sm:grid-cols-3">
+                <div className="rounded-lg border border-slate-100 bg-slate-50 px-3 py-2">
+                  <dt className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    Nacht ({surcharges.nightPercent} %)
+                  </dt>
+                  <dd className="text-base font-medium text-slate-900">{formatHours(surcharges.nightHours)}</dd>
+                </div>
+                <div className="rounded-lg border border-slate-100 bg-slate-50 px-3 py-2">
+                  <dt className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    Sonntag ({surcharges.sundayPercent} %)
+                  </dt>
+                  <dd className="text-base font-medium text-slate-900">{formatHours(surcharges.sundayHours)}</dd>
+                </div>
+                <div className="rounded-lg border border-slate-100 bg-slate-50 px-3 py-2">
+                  <dt className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    Feiertag ({surcharges.holidayPercent} %)
+                  </dt>
+                  <dd className="text-base font-medium text-slate-900">{formatHours(surcharges.holidayHours)}</dd>
+                </div>
+              </dl>
+            </div>
+          ) : null}
+
+          {childSickDays.eligibleChildren > 0 || childSickDays.usedDays > 0 ? (
+            <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+              <h3 className="text-lg font-semibold text-slate-900">Kinderkrankentage {childSickDays.year}</h3>
+              <p className="text-sm text-slate-500">
+                Tage, an denen du wegen eines kranken Kindes zu Hause warst (KK, KKR oder Kinderkrank-Stunden).
+              </p>
+              <dl className="mt-3 grid gap-3 sm:grid-cols-3">
+                <div className="rounded-lg border border-slate-100 bg-slate-50 px-3 py-2">
+                  <dt className="text-xs font-semibold uppercase tracking-wide text-slate-500">Anspruch</dt>
+                  <dd className="text-base font-medium text-slate-900">{formatDays(childSickDays.entitlementDays)}</dd>
+                </div>
+                <div className="rounded-lg border border-slate-100 bg-slate-50 px-3 py-2">
+                  <dt className="text-xs font-semibold uppercase tracking-wide text-slate-500">Genommen</dt>
+                  <dd className="text-base font-medium text-slate-900">{formatDays(childSickDays.usedDays)}</dd>
+                </div>
+                <div className="rounded-lg border border-slate-100 bg-slate-50 px-3 py-2">
+                  <dt className="text-xs font-semibold uppercase tracking-wide text-slate-500">Rest</dt>
+                  <dd className="text-base font-medium text-slate-900">{formatDays(childSickDays.remainingDays)}</dd>
+                </div>
+              </dl>
+              {childSickDays.exceededDays > 0 ? (
+                <p className="mt-3 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+                  Dein Anspruch ist um {formatDays(childSickDays.exceededDays)} überschritten. Bitte sprich mit der
+                  Verwaltung.
+                </p>
+              ) : null}
+            </div>
+          ) : null}
+
         </>
       ) : null}
       <div className="space-y-4 rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
@@ -800,6 +906,15 @@ export default function MonthlyOverviewClient({
         </div>
         <MonthlyOverviewTable entries={overview.entries} />
       </div>
+      <div className="space-y-4 rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900">Änderungsverlauf</h3>
+          <p className="text-sm text-slate-500">
+            Wer welchen Tag wann geändert hat – durch dich, die Verwaltung, den Kiosk oder automatisch.
+          </p>
+        </div>
+        <DailyDayHistoryTimeline items={dayHistory} />
+      </div>
     </section>
   );
 }
@@ -31,10 +31,7 @@ export function MonthlyOverviewTable({ entries }: Props) {
         <thead className="bg-slate-50 text-left text-xs font-semibold uppercase tracking-wide text-slate-500">
           <tr>
             <th className="px-4 py-2">Datum</th>
-            <th className="px-4 py-2">Kommt 1</th>
-            <th className="px-4 py-2">Geht 1</th>
-            <th className="px-4 py-2">Kommt 2</th>
-            <th className="px-4 py-2">Geht 2</th>
+            <th className="px-4 py-2">Kommt – Geht</th>
             <th className="px-4 py-2">Pause</th>
             <th className="px-4 py-2">IST (h)</th>
             <th className="px-4 py-2">SOLL (h)</th>
@@ -56,12 +53,24 @@ export function MonthlyOverviewTable({ entries }: Props) {
             return (
               <tr key={entry.isoDate} className="hover:bg-slate-50">
                 <td className="px-4 py-2 font-medium text-slate-900">{entry.displayDate}</td>
-                <td className="px-4 py-2 text-slate-800">{entry.kommt1 ?? '—'}</td>
-                <td className="px-4 py-2 text-slate-800">{entry.geht1 ?? '—'}</td>
-                <td className="px-4 py-2 text-slate-800">{entry.kommt2 ?? '—'}</td>
-                <td className="px-4 py-2 text-slate-800">{entry.geht2 ?? '—'}</td>
+                <td className="px-4 py-2 text-slate-800">
+                  {entry.segments.length
+                    ? entry.segments.map((segment, index) => (
+                        <span key={index} className="block whitespace-nowrap">
+                          {segment.kommt ?? '—'} – {segment.geht ?? '—'}
+                        </span>
+                      ))
+                    : '—'}
+                </td>
                 <td className="px-4 py-2 text-slate-800">{entry.pause ?? 'Keine'}</td>
-                <td className="px-4 py-2 text-slate-900">{hoursFormatter.format(entry.istHours)}</td>
+                <td className="px-4 py-2 text-slate-900">
+                  {hoursFormatter.format(entry.istHours)}
+                  {entry.nextDayHours > 0 ? (
+                    <span className="block text-xs text-slate-500">
+                      davon {hoursFormatter.format(entry.nextDayHours)} h am Folgetag
+                    </span>
+                  ) : null}
+                </td>
                 <td className="px-4 py-2 text-slate-900">{hoursFormatter.format(entry.sollHours)}</td>
                 <td className={`px-4 py-2 font-medium ${deltaClass}`}>
                   {hoursFormatter.format(entry.overtimeDelta)} h
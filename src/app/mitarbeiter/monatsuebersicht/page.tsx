@@ -7,6 +7,9 @@ import { createOvertimePayoutRequest } from '@/lib/data/overtime-payout-requests
 import { listEmployeeBonusHistory } from '@/lib/data/employee-bonus';
 import { getEmployeeMonthlyOverview } from '@/lib/services/employee/monthly-overview';
 import { getEmployeeMonthlySummary, requestEmployeeBonusPayout } from '@/lib/services/employee/monthly-summary';
+import { getEmployeeMonthlySurcharges } from '@/lib/services/surcharges';
+import { getDailyDayHistoryForMonth } from '@/lib/services/daily-day-history';
+import { getChildSickDayBalance } from '@/lib/services/child-sick-days';
 
 import MonthlyOverviewClient from './MonthlyOverviewClient';
 import type { EntryActionState } from '../types';
@@ -48,6 +51,14 @@ export default async function MitarbeiterMonatsuebersichtPage({
 
   const overview = await getEmployeeMonthlyOverview(employeeId, preferredYear, preferredMonth);
   const summary = await getEmployeeMonthlySummary(tenantId, employeeId, overview);
+  const surcharges = await getEmployeeMonthlySurcharges(
+    tenantId,
+    employeeId,
+    overview.selectedYear,
+    overview.selectedMonth
+  );
+  const dayHistory = await getDailyDayHistoryForMonth(employeeId, overview.selectedYear, overview.selectedMonth);
+  const childSickDays = await getChildSickDayBalance(tenantId, employeeId, overview.selectedYear);
 
   const bonusHistory = await listEmployeeBonusHistory(employeeId, { limit: 240 });
   const bonusHistoryYears = Array.from(
@@ -152,8 +163,11 @@ export default async function MitarbeiterMonatsuebersichtPage({
     <MonthlyOverviewClient
       overview={overview}
       summary={summary}
+      surcharges={surcharges}
+      childSickDays={childSickDays}
       bonusHistory={bonusHistory}
       bonusHistoryYears={bonusHistoryYears}
+      dayHistory={dayHistory}
       requestAction={requestBonusPayoutAction}
       requestInitialState={null}
       overtimeRequestAction={requestOvertimePayoutAction}
@@ -6,11 +6,19 @@ import { listMonthlyClosings } from '@/lib/data/monthly-closings';
 import { getEmployeeValidationInfo } from '@/lib/data/employees';
 import { isMonthClosedForEmployee } from '@/lib/services/employee/monthly-closing';
 import { getPlanHoursForDay, getShiftPlan } from '@/lib/services/shift-plan';
-import { deleteTimeEntry, listTimeEntries, saveTimeEntry } from '@/lib/services/time-entry';
+import { deleteTimeEntry, listTimeEntries, readSegmentsFromFormData, saveTimeEntry } from '@/lib/services/time-entry';
 import { getLeaveRequestsForEmployee } from '@/lib/services/leave-requests';
 import { validateTimeEntry } from '@/lib/services/time-entry-validation';
 import { isHolidayIsoDate, normalizeHolidayRegion } from '@/lib/services/holidays';
+import { getArbzgEntryWarnings } from '@/lib/services/arbzg';
 import { fetchTillhubDailyGrossForStaff } from '@/lib/services/tillhub';
+import {
+  getAbsenceCodeCatalog,
+  getCustomAbsenceCodes,
+  isNonRevenueCode,
+  isRangeEligibleCode,
+  type AbsenceCodeCatalog,
+} from '@/lib/services/absence-codes';
 
 import EmployeeEntriesSection from './EmployeeEntriesSection';
 import type { EntryActionState } from './types';
@@ -62,9 +70,6 @@ function extractYearMonth(isoDate: string): { year: number; month: number } | nu
   return { year, month };
 }
 
-const RANGE_ELIGIBLE_CODES = new Set(['U', 'UH', 'K', 'KK', 'KKR', 'KR', 'KU']);
-const NON_REVENUE_CODES = new Set(['U', 'UH', 'FT', 'K', 'KK', 'KKR', 'KR', 'KU', 'UBF']);
-
 function isIsoDate(value: string): boolean {
   return /^\d{4}-\d{2}-\d{2}$/.test(value);
 }
@@ -99,10 +104,10 @@ function enumerateIsoDates(startIso: string, endIso: string): string[] {
   return result;
 }
 
-function shouldAutoImportRevenue(code: string | null | undefined): boolean {
+function shouldAutoImportRevenue(code: string | null | undefined, absenceCodes: AbsenceCodeCatalog): boolean {
   const normalized = (code ?? '').trim().toUpperCase();
   if (!normalized) return true;
-  return !NON_REVENUE_CODES.has(normalized);
+  return !isNonRevenueCode(absenceCodes, normalized);
 }
 
 async function createEntry(
@@ -123,10 +128,9 @@ async function createEntry(
 
   const rangeEndRaw = String(formData.get('rangeEndDate') ?? '').trim();
 
-  const kommt1 = normalizeTimeInput(formData.get('kommt1'));
-  const geht1 = normalizeTimeInput(formData.get('geht1'));
-  const kommt2 = normalizeTimeInput(formData.get('kommt2'));
-  const geht2 = normalizeTimeInput(formData.get('geht2'));
+  const segments = readSegmentsFromFormData(formData)
+    .map((segment) => ({ kommt: normalizeTimeInput(segment.kommt), geht: normalizeTimeInput(segment.geht) }))
+    .filter((segment) => segment.kommt || segment.geht);
   const pause = normalizePause(formData.get('pause'));
   const code = normalizeString(formData.get('code')) ?? 'RA';
   const mittag = normalizeString(formData.get('mittag')) ?? 'Nein';
@@ -135,7 +139,8 @@ async function createEntry(
   let rangeStart = dayDateRaw;
   let rangeEnd = dayDateRaw;
 
-  if (rangeEndRaw && RANGE_ELIGIBLE_CODES.has(normalizedCode)) {
+  const absenceCodes = await getAbsenceCodeCatalog(tenantId);
+  if (rangeEndRaw && isRangeEligibleCode(absenceCodes, normalizedCode)) {
     if (!isIsoDate(rangeEndRaw)) {
       return { status: 'error', message: 'Der Zeitraum konnte nicht gelesen werden.' };
     }
@@ -176,6 +181,7 @@ async function createEntry(
   const bemerkungen = normalizeString(formData.get('bemerkungen'));
 
   const warnings: string[] = [];
+  let arbzgWarning: string | null = null;
   let holidayCount = 0;
 
   const federalState = normalizeHolidayRegion(validationProfile.federalState);
@@ -187,19 +193,13 @@ async function createEntry(
       holidayCount += 1;
     }
 
-    const effectiveKommt1 = effectiveCode === 'FT' || normalizedCode === 'U' ? null : kommt1;
-    const effectiveGeht1 = effectiveCode === 'FT' || normalizedCode === 'U' ? null : geht1;
-    const effectiveKommt2 = effectiveCode === 'FT' || normalizedCode === 'U' ? null : kommt2;
-    const effectiveGeht2 = effectiveCode === 'FT' || normalizedCode === 'U' ? null : geht2;
+    const effectiveSegments = effectiveCode === 'FT' || normalizedCode === 'U' ? [] : segments;
     const effectivePause = effectiveCode === 'FT' || normalizedCode === 'U' ? 'Keine' : pause;
     const effectiveMittag = effectiveCode === 'FT' || normalizedCode === 'U' ? 'Nein' : mittag;
 
     const planInfo = await getPlanHoursForDay(employeeId, isoDate);
     const validation = validateTimeEntry({
-      kommt1: effectiveKommt1,
-      geht1: effectiveGeht1,
-      kommt2: effectiveKommt2,
-      geht2: effectiveGeht2,
+      segments: effectiveSegments,
       pause: effectivePause,
       code: effectiveCode,
       mittag: effectiveMittag,
@@ -207,6 +207,7 @@ async function createEntry(
       mandatoryPauseMinWorkMinutes: validationProfile.mandatoryPauseMinWorkMinutes,
       minPauseUnder6Minutes: validationProfile.minPauseUnder6Minutes,
       requiresMealFlag: validationProfile.sachbezugVerpflegung.toLowerCase() === 'ja',
+      customAbsenceCodes: getCustomAbsenceCodes(absenceCodes),
     });
 
     if (validation.errors.length) {
@@ -218,10 +219,15 @@ async function createEntry(
       warnings.push(validation.warnings[0]);
     }
 
+    if (!arbzgWarning && effectiveSegments.length) {
+      const arbzgWarnings = await getArbzgEntryWarnings(employeeId, isoDate, effectiveSegments, effectivePause);
+      arbzgWarning = arbzgWarnings[0] ?? null;
+    }
+
     const activeCode = effectiveCode || 'RA';
     let effectiveBrutto = brutto;
     const tillhubUserId = validationProfile.tillhubUserId?.trim();
-    if ((effectiveBrutto === null || effectiveBrutto <= 0) && tillhubUserId && shouldAutoImportRevenue(activeCode)) {
+    if ((effectiveBrutto === null || effectiveBrutto <= 0) && tillhubUserId && shouldAutoImportRevenue(activeCode, absenceCodes)) {
       try {
         const { gross } = await fetchTillhubDailyGrossForStaff({
           staffId: tillhubUserId,
@@ -246,14 +252,12 @@ async function createEntry(
         employeeId,
         dayDate: isoDate,
         brutto: effectiveBrutto,
-        kommt1: effectiveKommt1,
-        geht1: effectiveGeht1,
-        kommt2: effectiveKommt2,
-        geht2: effectiveGeht2,
+        segments: effectiveSegments,
         pause: effectivePause,
         code: activeCode,
         bemerkungen,
         mittag: effectiveMittag,
+        performedBy: { type: 'employee', id: employeeId, name: null },
       });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Der Eintrag konnte nicht gespeichert werden.';
@@ -269,9 +273,11 @@ async function createEntry(
     ? `Eintrag am ${firstLabel} wurde gespeichert.`
     : `Zeitraum ${firstLabel} – ${lastLabel} wurde gespeichert.`;
 
+  const notices = arbzgWarning ? [...warnings.slice(0, 1), arbzgWarning] : warnings.slice(0, 1);
+
   return {
     status: 'success',
-    message: `${messageBase}${holidayCount ? ` ${holidayCount} ${holidayCount === 1 ? 'Tag wurde' : 'Tage wurden'} automatisch als Feiertag (FT) erfasst.` : ''}${warnings.length ? ` Hinweis: ${warnings[0]}` : ''}`,
+    message: `${messageBase}${holidayCount ? ` ${holidayCount} ${holidayCount === 1 ? 'Tag wurde' : 'Tage wurden'} automatisch als Feiertag (FT) erfasst.` : ''}${notices.length ? ` Hinweis: ${notices.join(' ')}` : ''}`,
   };
 }
 
@@ -298,7 +304,7 @@ async function removeEntry(
     };
   }
 
-    await deleteTimeEntry(tenantId, employeeId, dayDate);
+  await deleteTimeEntry(tenantId, employeeId, dayDate, { source: 'employee', actorId: employeeId });
   revalidatePath(withAppBasePath('/mitarbeiter'));
   return {
     status: 'success',
@@ -356,6 +362,7 @@ export default async function MitarbeiterHomePage() {
   const shiftPlan = await getShiftPlan(employeeId);
   const closings = await listMonthlyClosings(employeeId, 24);
   const leaveRequests = await getLeaveRequestsForEmployee(tenantId, employeeId);
+  const absenceCodes = await getAbsenceCodeCatalog(tenantId);
   const approvedAbsenceDates = Array.from(
     new Set(
       leaveRequests
@@ -395,6 +402,7 @@ export default async function MitarbeiterHomePage() {
         createInitialState={null}
         deleteAction={removeEntry}
         deleteInitialState={null}
+        absenceCodes={absenceCodes}
         hiddenFields={{
           employeeId: String(employeeId),
           tillhubUserId: validationProfile?.tillhubUserId ?? '',
@@ -0,0 +1,256 @@
+'use client';
+
+import { useEffect, useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+
+import type { EmployeeAvailabilityKind, EmployeeAvailabilityRow } from '@/lib/data/employee-availability';
+
+type SaveAction = (formData: FormData) => Promise<{ success: boolean; error?: string; message?: string }>;
+
+type AvailabilityEditorProps = {
+  entries: EmployeeAvailabilityRow[];
+  saveAction: SaveAction;
+};
+
+const WEEKDAY_LABELS = ['Montag', 'Dienstag', 'Mittwoch', 'Donnerstag', 'Freitag', 'Samstag', 'Sonntag'];
+
+const KIND_OPTIONS: Array<{ value: EmployeeAvailabilityKind; label: string }> = [
+  { value: 'unavailable', label: 'Nicht verfügbar' },
+  { value: 'only', label: 'Nur verfügbar' },
+  { value: 'preferred', label: 'Wunsch' },
+];
+
+type EditorRow = {
+  key: string;
+  weekday: string;
+  date: string;
+  kind: EmployeeAvailabilityKind;
+  start: string;
+  end: string;
+  note: string;
+};
+
+function minutesToTime(minutes: number | null): string {
+  if (minutes === null) return '';
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function toEditorRows(entries: EmployeeAvailabilityRow[]): EditorRow[] {
+  return entries.map((entry) => ({
+    key: `saved-${entry.id}`,
+    weekday: entry.weekday === null ? '' : String(entry.weekday),
+    date: entry.date ?? '',
+    kind: entry.kind,
+    start: minutesToTime(entry.starts_at_minutes),
+    end: minutesToTime(entry.ends_at_minutes),
+    note: entry.note ?? '',
+  }));
+}
+
+let nextRowKey = 0;
+
+function emptyRow(type: 'weekday' | 'date'): EditorRow {
+  nextRowKey += 1;
+  return {
+    key: `new-${nextRowKey}`,
+    weekday: type === 'weekday' ? '0' : '',
+    date: '',
+    kind: 'unavailable',
+    start: '',
+    end: '',
+    note: '',
+  };
+}
+
+export default function AvailabilityEditor({ entries, saveAction }: AvailabilityEditorProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [rows, setRows] = useState<EditorRow[]>(() => toEditorRows(entries));
+  const [feedback, setFeedback] = useState<{ tone: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    setRows(toEditorRows(entries));
+  }, [entries]);
+
+  const weekdayRows = rows.filter((row) => !row.date && row.weekday !== '');
+  const datedRows = rows.filter((row) => row.weekday === '');
+
+  const updateRow = (key: string, field: keyof Omit<EditorRow, 'key'>, value: string) => {
+    setRows((prev) => prev.map((row) => (row.key === key ? { ...row, [field]: value } : row)));
+  };
+  const removeRow = (key: string) => setRows((prev) => prev.filter((row) => row.key !== key));
+  const addRow = (type: 'weekday' | 'date') => setRows((prev) => [...prev, emptyRow(type)]);
+
+  const handleSave = () => {
+    const formData = new FormData();
+    formData.set(
+      'entries',
+      JSON.stringify(
+        [...weekdayRows, ...datedRows].map((row) => ({
+          weekday: row.weekday,
+          date: row.date,
+          kind: row.kind,
+          start: row.start,
+          end: row.end,
+          note: row.note,
+        }))
+      )
+    );
+    startTransition(() => {
+      saveAction(formData).then((result) => {
+        if (result.success) {
+          setFeedback({ tone: 'success', text: result.message ?? 'Verfügbarkeit gespeichert.' });
+          router.refresh();
+        } else {
+          setFeedback({ tone: 'error', text: result.error ?? 'Die Verfügbarkeit konnte nicht gespeichert werden.' });
+        }
+      });
+    });
+  };
+
+  const renderFields = (row: EditorRow) => (
+    <>
+      <select
+        value={row.kind}
+        onChange={(event) => updateRow(row.key, 'kind', event.target.value)}
+        className="rounded-md border border-slate-300 px-2 py-1"
+        aria-label="Art"
+      >
+        {KIND_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <input
+        type="time"
+        value={row.start}
+        onChange={(event) => updateRow(row.key, 'start', event.target.value)}
+        className="rounded-md border border-slate-300 px-2 py-1"
+        aria-label="Von"
+      />
+      <span className="text-slate-400">–</span>
+      <input
+        type="time"
+        value={row.end}
+        onChange={(event) => updateRow(row.key, 'end', event.target.value)}
+        className="rounded-md border border-slate-300 px-2 py-1"
+        aria-label="Bis"
+      />
+      <input
+        type="text"
+        value={row.note}
+        onChange={(event) => updateRow(row.key, 'note', event.target.value)}
+        maxLength={200}
+        placeholder="Notiz (optional)"
+        className="min-w-[10rem] flex-1 rounded-md border border-slate-300 px-2 py-1"
+        aria-label="Notiz"
+      />
+      <button
+        type="button"
+        onClick={() => removeRow(row.key)}
+        className="rounded-md border border-slate-300 px-2 py-1 text-xs text-slate-600 hover:bg-slate-100"
+      >
+        Entfernen
+      </button>
+    </>
+  );
+
+  return (
+    <div className="space-y-4 rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+      <div className="space-y-1">
+        <h3 className="text-sm font-semibold text-slate-900">Meine Verfügbarkeit</h3>
+        <p className="text-xs text-slate-500">
+          Gib an, wann du regelmäßig nicht oder nur zu bestimmten Zeiten arbeiten kannst, und trage Wünsche oder
+          einzelne freie Tage für die nächsten Wochen ein. Ohne Uhrzeit gilt ein Eintrag für den ganzen Tag. Einträge
+          für ein Datum ersetzen an diesem Tag die Angaben derselben Art für den Wochentag, ein Wunsch hebt also ein
+          regelmäßiges „Nicht verfügbar“ nicht auf. Dein Admin sieht sie beim Planen.
+        </p>
+      </div>
+
+      {feedback ? (
+        <p
+          className={`rounded-lg px-3 py-2 text-sm ${
+            feedback.tone === 'success'
+              ? 'border border-emerald-200 bg-emerald-50 text-emerald-700'
+              : 'border border-red-200 bg-red-50 text-red-700'
+          }`}
+        >
+          {feedback.text}
+        </p>
+      ) : null}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-3">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500">Jede Woche</h4>
+          <button
+            type="button"
+            onClick={() => addRow('weekday')}
+            className="rounded-md border border-slate-300 px-3 py-1 text-sm text-slate-700 hover:bg-slate-100"
+          >
+            Wochentag hinzufügen
+          </button>
+        </div>
+        {weekdayRows.length === 0 ? (
+          <p className="text-sm text-slate-500">Keine regelmäßigen Angaben.</p>
+        ) : (
+          weekdayRows.map((row) => (
+            <div key={row.key} className="flex flex-wrap items-center gap-2 text-sm">
+              <select
+                value={row.weekday}
+                onChange={(event) => updateRow(row.key, 'weekday', event.target.value)}
+                className="rounded-md border border-slate-300 px-2 py-1"
+                aria-label="Wochentag"
+              >
+                {WEEKDAY_LABELS.map((label, index) => (
+                  <option key={label} value={index}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              {renderFields(row)}
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-3">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500">Einzelne Tage</h4>
+          <button
+            type="button"
+            onClick={() => addRow('date')}
+            className="rounded-md border border-slate-300 px-3 py-1 text-sm text-slate-700 hover:bg-slate-100"
+          >
+            Datum hinzufügen
+          </button>
+        </div>
+        {datedRows.length === 0 ? (
+          <p className="text-sm text-slate-500">Keine Angaben für einzelne Tage.</p>
+        ) : (
+          datedRows.map((row) => (
+            <div key={row.key} className="flex flex-wrap items-center gap-2 text-sm">
+              <input
+                type="date"
+                value={row.date}
+                onChange={(event) => updateRow(row.key, 'date', event.target.value)}
+                className="rounded-md border border-slate-300 px-2 py-1"
+                aria-label="Datum"
+              />
+              {renderFields(row)}
+            </div>
+          ))
+        )}
+      </div>
+
+      <button
+        type="button"
+        onClick={handleSave}
+        disabled={isPending}
+        className="rounded-full bg-sky-500 px-4 py-1.5 text-sm font-semibold text-white hover:bg-sky-600 disabled:opacity-60"
+      >
+        {isPending ? 'Speichern…' : 'Verfügbarkeit speichern'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+
+import type { OpenShiftView } from '@/lib/services/open-shifts';
+
+type ClaimAction = (formData: FormData) => Promise<{ success: boolean; error?: string; message?: string }>;
+
+type OpenShiftClaimListProps = {
+  shifts: OpenShiftView[];
+  claimAction: ClaimAction;
+};
+
+function formatDate(iso: string): string {
+  const date = new Date(`${iso}T00:00:00`);
+  if (Number.isNaN(date.getTime())) {
+    return iso;
+  }
+  return date.toLocaleDateString('de-DE', { weekday: 'short', day: '2-digit', month: '2-digit' });
+}
+
+export default function OpenShiftClaimList({ shifts, claimAction }: OpenShiftClaimListProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [feedback, setFeedback] = useState<{ tone: 'success' | 'error'; text: string } | null>(null);
+
+  const handleClaim = (shift: OpenShiftView) => {
+    const formData = new FormData();
+    formData.set('openShiftId', String(shift.id));
+    startTransition(() => {
+      claimAction(formData).then((result) => {
+        if (result.success) {
+          setFeedback({ tone: 'success', text: result.message ?? 'Schicht übernommen.' });
+          router.refresh();
+        } else {
+          setFeedback({ tone: 'error', text: result.error ?? 'Die Schicht konnte nicht übernommen werden.' });
+        }
+      });
+    });
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border border-sky-200 bg-sky-50/60 p-4">
+      <h3 className="text-sm font-semibold text-slate-900">Offene Schichten in diesem Monat</h3>
+      {feedback ? (
+        <p
+          className={`rounded-lg px-3 py-2 text-sm ${
+            feedback.tone === 'success'
+              ? 'border border-emerald-200 bg-emerald-50 text-emerald-700'
+              : 'border border-red-200 bg-red-50 text-red-700'
+          }`}
+        >
+          {feedback.text}
+        </p>
+      ) : null}
+      {shifts.length === 0 ? (
+        <p className="text-sm text-slate-500">Für deine Standorte sind in diesem Monat keine Schichten ausgeschrieben.</p>
+      ) : (
+        <ul className="space-y-2">
+          {shifts.map((shift) => (
+            <li
+              key={shift.id}
+              className="flex flex-wrap items-center gap-3 rounded-lg border border-sky-100 bg-white px-3 py-2 text-sm"
+            >
+              <div className="flex-1">
+                <p className="font-medium text-slate-900">
+                  {formatDate(shift.isoDate)}, {shift.start}–{shift.end}
+                  {shift.label ? ` · ${shift.label}` : ''}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {shift.branchName ?? 'Standort'}
+                  {shift.requiredPauseMinutes ? ` · ${shift.requiredPauseMinutes} Min. Pause` : ''}
+                  {shift.claimMode === 'confirm' ? ' · Übernahme mit Bestätigung' : ''}
+                </p>
+              </div>
+              {shift.status === 'claimed' ? (
+                <span className="rounded-full bg-amber-100 px-2.5 py-1 text-xs font-semibold text-amber-700">
+                  {shift.statusLabel}
+                </span>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => handleClaim(shift)}
+                  disabled={isPending}
+                  className="rounded-full bg-sky-500 px-3 py-1 text-xs font-semibold text-white hover:bg-sky-600 disabled:opacity-60"
+                >
+                  Übernehmen
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+
+import type { ShiftSwapOverview, ShiftSwapRequestView, ShiftSwapShiftView } from '@/lib/services/shift-swaps';
+
+type ActionResult = {
+  success: boolean;
+  error?: string;
+  message?: string;
+};
+
+type ShiftSwapPanelProps = {
+  overview: ShiftSwapOverview;
+  employeeId: number;
+  offerAction: (formData: FormData) => Promise<ActionResult>;
+  acceptAction: (formData: FormData) => Promise<ActionResult>;
+  withdrawAction: (formData: FormData) => Promise<ActionResult>;
+};
+
+function formatDate(iso: string): string {
+  const date = new Date(`${iso}T00:00:00`);
+  if (Number.isNaN(date.getTime())) {
+    return iso;
+  }
+  return date.toLocaleDateString('de-DE', { weekday: 'short', day: '2-digit', month: '2-digit', year: 'numeric' });
+}
+
+function formatShift(shift: ShiftSwapShiftView): string {
+  const branch = shift.branchName ? ` · ${shift.branchName}` : '';
+  return `${formatDate(shift.isoDate)}, ${shift.start}–${shift.end}${branch}`;
+}
+
+function shiftKey(shift: ShiftSwapShiftView): string {
+  return `${shift.isoDate}|${shift.segmentIndex}`;
+}
+
+function statusBadgeClass(request: ShiftSwapRequestView): string {
+  switch (request.status) {
+    case 'approved':
+      return 'border border-emerald-200 bg-emerald-100 text-emerald-700';
+    case 'rejected':
+      return 'border border-red-200 bg-red-100 text-red-700';
+    case 'pending':
+      return 'border border-amber-200 bg-amber-100 text-amber-700';
+    default:
+      return 'border border-slate-200 bg-slate-100 text-slate-700';
+  }
+}
+
+export default function ShiftSwapPanel({
+  overview,
+  employeeId,
+  offerAction,
+  acceptAction,
+  withdrawAction,
+}: ShiftSwapPanelProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [feedback, setFeedback] = useState<{ tone: 'success' | 'error'; text: string } | null>(null);
+  const [offerShift, setOfferShift] = useState('');
+  const [offerKind, setOfferKind] = useState<'giveaway' | 'swap'>('giveaway');
+  const [offerNote, setOfferNote] = useState('');
+  const [returnShifts, setReturnShifts] = useState<Record<number, string>>({});
+
+  const run = (action: ShiftSwapPanelProps['offerAction'], formData: FormData, fallback: string, done?: () => void) => {
+    startTransition(() => {
+      action(formData).then((result) => {
+        if (result.success) {
+          setFeedback({ tone: 'success', text: result.message ?? 'Gespeichert.' });
+          done?.();
+          router.refresh();
+        } else {
+          setFeedback({ tone: 'error', text: result.error ?? fallback });
+        }
+      });
+    });
+  };
+
+  const handleOffer = () => {
+    const [dayDate, segmentIndex] = offerShift.split('|');
+    if (!dayDate || segmentIndex === undefined) {
+      setFeedback({ tone: 'error', text: 'Bitte eine Schicht auswählen.' });
+      return;
+    }
+    const formData = new FormData();
+    formData.set('dayDate', dayDate);
+    formData.set('segmentIndex', segmentIndex);
+    formData.set('kind', offerKind);
+    formData.set('note', offerNote);
+    run(offerAction, formData, 'Die Schicht konnte nicht angeboten werden.', () => {
+      setOfferShift('');
+      setOfferNote('');
+    });
+  };
+
+  const handleAccept = (request: ShiftSwapRequestView) => {
+    const formData = new FormData();
+    formData.set('requestId', String(request.id));
+    if (request.kind === 'swap') {
+      const [dayDate, segmentIndex] = (returnShifts[request.id] ?? '').split('|');
+      if (!dayDate || segmentIndex === undefined) {
+        setFeedback({ tone: 'error', text: 'Bitte eine eigene Schicht für den Tausch auswählen.' });
+        return;
+      }
+      formData.set('returnDayDate', dayDate);
+      formData.set('returnSegmentIndex', segmentIndex);
+    }
+    run(acceptAction, formData, 'Das Angebot konnte nicht angenommen werden.');
+  };
+
+  const handleWithdraw = (request: ShiftSwapRequestView) => {
+    if (!window.confirm('Angebot wirklich zurückziehen?')) return;
+    const formData = new FormData();
+    formData.set('requestId', String(request.id));
+    run(withdrawAction, formData, 'Das Angebot konnte nicht zurückgezogen werden.');
+  };
+
+  return (
+    <section className="space-y-6 rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+      <header className="space-y-1">
+        <h2 className="text-xl font-semibold text-slate-900">Schichttausch</h2>
+        <p className="text-sm text-slate-500">
+          Biete eigene Schichten zum Tausch oder zur Abgabe an und übernimm Schichten von Kollegen deines Standorts.
+          Nach der Freigabe werden beide Schichtpläne automatisch angepasst.
+        </p>
+      </header>
+
+      {feedback ? (
+        <p
+          className={`rounded-lg px-3 py-2 text-sm ${
+            feedback.tone === 'success'
+              ? 'border border-emerald-200 bg-emerald-50 text-emerald-700'
+              : 'border border-red-200 bg-red-50 text-red-700'
+          }`}
+        >
+          {feedback.text}
+        </p>
+      ) : null}
+
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold text-slate-900">Schicht anbieten</h3>
+        {overview.offerableShifts.length === 0 ? (
+          <p className="text-sm text-slate-500">In den nächsten Wochen sind keine Schichten für dich geplant.</p>
+        ) : (
+          <div className="flex flex-wrap items-end gap-2 text-sm">
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Schicht</span>
+              <select
+                value={offerShift}
+                onChange={(event) => setOfferShift(event.target.value)}
+                className="rounded-md border border-slate-300 px-2 py-1"
+              >
+                <option value="">Bitte wählen</option>
+                {overview.offerableShifts.map((shift) => (
+                  <option key={shiftKey(shift)} value={shiftKey(shift)}>
+                    {formatShift(shift)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Art</span>
+              <select
+                value={offerKind}
+                onChange={(event) => setOfferKind(event.target.value === 'swap' ? 'swap' : 'giveaway')}
+                className="rounded-md border border-slate-300 px-2 py-1"
+              >
+                <option value="giveaway">Abgeben</option>
+                <option value="swap">Tauschen</option>
+              </select>
+            </label>
+            <label className="flex flex-1 flex-col gap-1">
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Nachricht (optional)</span>
+              <input
+                type="text"
+                value={offerNote}
+                onChange={(event) => setOfferNote(event.target.value)}
+                maxLength={500}
+                className="rounded-md border border-slate-300 px-2 py-1"
+              />
+            </label>
+            <button
+              type="button"
+              onClick={handleOffer}
+              disabled={isPending}
+              className="rounded-full bg-emerald-500 px-4 py-1.5 font-semibold text-white hover:bg-emerald-600 disabled:opacity-60"
+            >
+              Anbieten
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold text-slate-900">Angebote von Kollegen</h3>
+        {overview.openOffers.length === 0 ? (
+          <p className="text-sm text-slate-500">Zurzeit bietet niemand eine Schicht an.</p>
+        ) : (
+          <ul className="space-y-2">
+            {overview.openOffers.map((request) => (
+              <li
+                key={request.id}
+                className="flex flex-wrap items-center gap-3 rounded-lg border border-slate-200 px-3 py-2 text-sm"
+              >
+                <div className="flex-1 space-y-0.5">
+                  <p className="font-medium text-slate-900">{formatShift(request.offered)}</p>
+                  <p className="text-xs text-slate-500">
+                    {request.kindLabel} von {request.employeeName ?? `Mitarbeiter #${request.employeeId}`}
+                    {request.note ? ` – ${request.note}` : ''}
+                  </p>
+                </div>
+                {request.kind === 'swap' ? (
+                  <select
+                    value={returnShifts[request.id] ?? ''}
+                    onChange={(event) =>
+                      setReturnShifts((prev) => ({ ...prev, [request.id]: event.target.value }))
+                    }
+                    className="rounded-md border border-slate-300 px-2 py-1"
+                    aria-label="Eigene Schicht für den Tausch"
+                  >
+                    <option value="">Meine Schicht zum Tausch</option>
+                    {overview.offerableShifts.map((shift) => (
+                      <option key={shiftKey(shift)} value={shiftKey(shift)}>
+                        {formatShift(shift)}
+                      </option>
+                    ))}
+                  </select>
+                ) : null}
+                <button
+                  type="button"
+                  onClick={() => handleAccept(request)}
+                  disabled={isPending}
+                  className="rounded-full border border-emerald-300 px-3 py-1 text-xs font-semibold text-emerald-700 hover:bg-emerald-50 disabled:opacity-60"
+                >
+                  {request.kind === 'swap' ? 'Tauschen' : 'Übernehmen'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {overview.ownRequests.length ? (
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-slate-900">Meine Tauschanfragen</h3>
+          <ul className="space-y-2">
+            {overview.ownRequests.map((request) => {
+              const isOwnOffer = request.employeeId === employeeId;
+              return (
+                <li
+                  key={request.id}
+                  className="flex flex-wrap items-center gap-3 rounded-lg border border-slate-200 px-3 py-2 text-sm"
+                >
+                  <div className="flex-1 space-y-0.5">
+                    <p className="font-medium text-slate-900">
+                      {isOwnOffer ? 'Ich gebe ab' : 'Ich übernehme'}: {formatShift(request.offered)}
+                    </p>
+                    {request.returned ? (
+                      <p className="text-xs text-slate-500">Im Tausch gegen {formatShift(request.returned)}</p>
+                    ) : null}
+                    {request.acceptedById !== null ? (
+                      <p className="text-xs text-slate-500">
+                        {isOwnOffer
+                          ? `Angenommen von ${request.acceptedByName ?? `Mitarbeiter #${request.acceptedById}`}`
+                          : `Angeboten von ${request.employeeName ?? `Mitarbeiter #${request.employeeId}`}`}
+                      </p>
+                    ) : null}
+                    {request.adminNote ? (
+                      <p className="text-xs text-slate-500">Hinweis der Verwaltung: {request.adminNote}</p>
+                    ) : null}
+                  </div>
+                  <span
+                    className={`inline-flex rounded-full px-2.5 py-1 text-xs font-semibold ${statusBadgeClass(request)}`}
+                  >
+                    {request.statusLabel}
+                  </span>
+                  {isOwnOffer && request.status === 'open' ? (
+                    <button
+                      type="button"
+                      onClick={() => handleWithdraw(request)}
+                      disabled={isPending}
+                      className="rounded-full border border-slate-300 px-3 py-1 text-xs font-semibold text-slate-600 hover:bg-slate-100 disabled:opacity-60"
+                    >
+                      Zurückziehen
+                    </button>
+                  ) : null}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -100,16 +100,17 @@ function validateNoOverlaps(segments: SegmentDraft[]): string | null {
       const startMin = parseTimeToMinutes(segment.start ?? null);
       const endMin = parseTimeToMinutes(segment.end ?? null);
       if (startMin === null || endMin === null) return null;
-      if (endMin <= startMin) {
+      if (endMin === startMin) {
         return { startMin, endMin, invalid: true };
       }
-      return { startMin, endMin, invalid: false };
+      // An end before the start is a night shift running into the next day.
+      return { startMin, endMin: endMin < startMin ? endMin + 24 * 60 : endMin, invalid: false };
     })
     .filter(Boolean)
     .sort((a, b) => a!.startMin - b!.startMin);
 
   if (intervals.some((entry) => entry!.invalid)) {
-    return 'Endzeit muss nach der Startzeit liegen.';
+    return 'Start- und Endzeit dürfen nicht identisch sein.';
   }
 
   for (let i = 1; i < intervals.length; i += 1) {
@@ -362,7 +363,7 @@ export async function updateEmployeeShiftPlanDayAction(formData: FormData): Prom
           branchId: segment.branchId ?? null,
         })),
       });
-      await recomputeEmployeeOvertime(context.tenantId, context.employeeId);
+      await recomputeEmployeeOvertime(context.tenantId, context.employeeId, isoDate);
       await syncShiftPlanDaySegments(context, {
         isoDate,
         segments: segments.map((segment) => ({
@@ -401,7 +402,7 @@ export async function updateEmployeeShiftPlanDayAction(formData: FormData): Prom
       branchId: branchId ?? fallbackBranchId ?? null,
       mode,
     });
-    await recomputeEmployeeOvertime(context.tenantId, context.employeeId);
+    await recomputeEmployeeOvertime(context.tenantId, context.employeeId, isoDate);
     await syncShiftPlanDay(context, {
       isoDate,
       start: start ?? null,
@@ -444,7 +445,7 @@ export async function clearEmployeeShiftPlanWeekAction(formData: FormData): Prom
       formatIsoDate(weekStartDate),
       formatIsoDate(weekEndDate)
     );
-    await recomputeEmployeeOvertime(context.tenantId, context.employeeId);
+    await recomputeEmployeeOvertime(context.tenantId, context.employeeId, weekStartRaw);
 
     for (let offset = 0; offset < 7; offset += 1) {
       const isoDate = formatIsoDate(addDays(weekStartDate, offset));
@@ -869,7 +870,7 @@ export async function fillEmployeeShiftPlanWeekAction(formData: FormData): Promi
       });
     }
 
-    await recomputeEmployeeOvertime(context.tenantId, context.employeeId);
+    await recomputeEmployeeOvertime(context.tenantId, context.employeeId, weekStartRaw);
     revalidatePath(withAppBasePath('/mitarbeiter/schichtplan'));
     return { success: true };
   } catch (actionError) {
@@ -944,11 +945,15 @@ export async function createEmployeeWeekPatternAction(formData: FormData): Promi
   }
 
   try {
+    let firstChangedDate: string | null = null;
     for (const day of days) {
       const isoDate = (day.isoDate ?? '').trim();
       if (!ISO_DATE_PATTERN.test(isoDate)) {
         continue;
       }
+      if (!firstChangedDate || isoDate < firstChangedDate) {
+        firstChangedDate = isoDate;
+      }
 
       const rawSegments = Array.isArray(day.segments) ? day.segments : [];
       const hasLegacyPayload = Boolean(day.mode || day.start || day.end || day.label || day.pause !== undefined);
@@ -1031,7 +1036,7 @@ export async function createEmployeeWeekPatternAction(formData: FormData): Promi
       });
     }
 
-    await recomputeEmployeeOvertime(context.tenantId, context.employeeId);
+    await recomputeEmployeeOvertime(context.tenantId, context.employeeId, firstChangedDate);
     revalidatePath(withAppBasePath('/mitarbeiter/schichtplan'));
     return { success: true };
   } catch (actionError) {
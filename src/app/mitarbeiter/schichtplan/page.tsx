@@ -11,6 +11,14 @@ import { listBranchesForEmployee } from '@/lib/data/branches';
 import { listShiftPlanDays } from '@/lib/data/shift-plan-days';
 import { listLeaveRequestsForEmployeeInDateRange } from '@/lib/data/leave-requests';
 import { deriveCodeFromPlanLabel, listWeeklyShiftTemplatesForEmployee } from '@/lib/services/shift-plan';
+import {
+  acceptShiftSwap,
+  getShiftSwapOverview,
+  offerShiftSwap,
+  withdrawShiftSwapRequest,
+} from '@/lib/services/shift-swaps';
+import { claimOpenShift, getOpenShiftsForEmployee } from '@/lib/services/open-shifts';
+import { getEmployeeAvailability, saveEmployeeAvailability } from '@/lib/services/employee-availability';
 
 import EmployeeShiftPlanCalendar, { type ShiftPlanDayInfo } from './shiftplan-calendar';
 import {
@@ -21,6 +29,8 @@ import {
 } from './actions';
 import EmployeeTemplateManager from './TemplateManager';
 import CreateTemplateButton from './CreateTemplateButton';
+import ShiftSwapPanel from './ShiftSwapPanel';
+import AvailabilityEditor from './AvailabilityEditor';
 
 function toIsoDate(date: Date): string {
   const year = date.getFullYear();
@@ -32,6 +42,7 @@ function toIsoDate(date: Date): string {
 type ActionResult = {
   success: boolean;
   error?: string;
+  message?: string;
 };
 
 type TemplatePayload = {
@@ -145,6 +156,133 @@ async function deleteEmployeeTemplateAction(formData: FormData): Promise<ActionR
   }
 }
 
+async function offerShiftSwapAction(formData: FormData): Promise<ActionResult> {
+  'use server';
+
+  const session = await getServerAuthSession();
+  if (!session?.user || !session.user.employeeId || !session.tenantId) {
+    return { success: false, error: 'Nicht angemeldet.' };
+  }
+
+  try {
+    await offerShiftSwap(session.tenantId, session.user.employeeId, {
+      dayDate: String(formData.get('dayDate') ?? ''),
+      segmentIndex: Number(formData.get('segmentIndex')),
+      kind: String(formData.get('kind') ?? ''),
+      note: typeof formData.get('note') === 'string' ? String(formData.get('note')) : null,
+    });
+    return { success: true, message: 'Die Schicht wird deinen Kollegen angeboten.' };
+  } catch (error) {
+    console.error('offerShiftSwapAction', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Die Schicht konnte nicht angeboten werden.',
+    };
+  }
+}
+
+async function acceptShiftSwapAction(formData: FormData): Promise<ActionResult> {
+  'use server';
+
+  const session = await getServerAuthSession();
+  if (!session?.user || !session.user.employeeId || !session.tenantId) {
+    return { success: false, error: 'Nicht angemeldet.' };
+  }
+
+  const returnSegmentRaw = formData.get('returnSegmentIndex');
+  try {
+    const message = await acceptShiftSwap(session.tenantId, session.user.employeeId, {
+      requestId: Number(formData.get('requestId')),
+      returnDayDate: typeof formData.get('returnDayDate') === 'string' ? String(formData.get('returnDayDate')) : null,
+      returnSegmentIndex: typeof returnSegmentRaw === 'string' && returnSegmentRaw ? Number(returnSegmentRaw) : null,
+    });
+    return { success: true, message };
+  } catch (error) {
+    console.error('acceptShiftSwapAction', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Das Angebot konnte nicht angenommen werden.',
+    };
+  }
+}
+
+async function withdrawShiftSwapAction(formData: FormData): Promise<ActionResult> {
+  'use server';
+
+  const session = await getServerAuthSession();
+  if (!session?.user || !session.user.employeeId || !session.tenantId) {
+    return { success: false, error: 'Nicht angemeldet.' };
+  }
+
+  const requestId = Number(formData.get('requestId'));
+  if (!Number.isFinite(requestId) || requestId <= 0) {
+    return { success: false, error: 'Ungültige Tauschanfrage.' };
+  }
+
+  try {
+    await withdrawShiftSwapRequest(session.tenantId, session.user.employeeId, requestId);
+    return { success: true, message: 'Das Angebot wurde zurückgezogen.' };
+  } catch (error) {
+    console.error('withdrawShiftSwapAction', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Das Angebot konnte nicht zurückgezogen werden.',
+    };
+  }
+}
+
+async function claimOpenShiftAction(formData: FormData): Promise<ActionResult> {
+  'use server';
+
+  const session = await getServerAuthSession();
+  if (!session?.user || !session.user.employeeId || !session.tenantId) {
+    return { success: false, error: 'Nicht angemeldet.' };
+  }
+
+  const openShiftId = Number(formData.get('openShiftId'));
+  if (!Number.isFinite(openShiftId) || openShiftId <= 0) {
+    return { success: false, error: 'Ungültige Schicht.' };
+  }
+
+  try {
+    const message = await claimOpenShift(session.tenantId, session.user.employeeId, openShiftId);
+    return { success: true, message };
+  } catch (error) {
+    console.error('claimOpenShiftAction', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Die Schicht konnte nicht übernommen werden.',
+    };
+  }
+}
+
+async function saveAvailabilityAction(formData: FormData): Promise<ActionResult> {
+  'use server';
+
+  const session = await getServerAuthSession();
+  if (!session?.user || !session.user.employeeId || !session.tenantId) {
+    return { success: false, error: 'Nicht angemeldet.' };
+  }
+
+  try {
+    const raw = JSON.parse(String(formData.get('entries') ?? '[]'));
+    await saveEmployeeAvailability(session.tenantId, session.user.employeeId, Array.isArray(raw) ? raw : []);
+    revalidatePath(withAppBasePath('/mitarbeiter/schichtplan'));
+    return { success: true, message: 'Verfügbarkeit gespeichert.' };
+  } catch (error) {
+    console.error('saveAvailabilityAction', error);
+    return {
+      success: false,
+      error:
+        error instanceof SyntaxError
+          ? 'Die Angaben konnten nicht gelesen werden.'
+          : error instanceof Error
+            ? error.message
+            : 'Die Verfügbarkeit konnte nicht gespeichert werden.',
+    };
+  }
+}
+
 export default async function EmployeeShiftPlanPage() {
   const session = await getServerAuthSession();
   if (!session?.user) {
@@ -181,6 +319,8 @@ export default async function EmployeeShiftPlanPage() {
 
   const templates = await listWeeklyShiftTemplatesForEmployee(employeeId);
   const branches = await listBranchesForEmployee(tenantId, employeeId);
+  const shiftSwapOverview = await getShiftSwapOverview(tenantId, employeeId);
+  const availability = await getEmployeeAvailability(tenantId, employeeId);
 
   const today = new Date();
   // Employee self-planning should not be constrained to a few months.
@@ -191,6 +331,7 @@ export default async function EmployeeShiftPlanPage() {
   const rangeEnd = toIsoDate(rangeEndDate);
 
   const shiftPlanRecords = await listShiftPlanDays(employeeId, rangeStart, rangeEnd);
+  const openShifts = await getOpenShiftsForEmployee(tenantId, employeeId, rangeEnd);
   const leaveRequests = await listLeaveRequestsForEmployeeInDateRange(
     tenantId,
     employeeId,
@@ -324,7 +465,17 @@ export default async function EmployeeShiftPlanPage() {
         clearWeekAction={clearEmployeeShiftPlanWeekAction}
         syncRangeAction={shiftPlanSettings.allowEmployeeSelfPlan ? syncEmployeeShiftPlanRangeAction : undefined}
         branches={branches}
+        openShifts={openShifts}
+        claimOpenShiftAction={claimOpenShiftAction}
+      />
+      <ShiftSwapPanel
+        overview={shiftSwapOverview}
+        employeeId={employeeId}
+        offerAction={offerShiftSwapAction}
+        acceptAction={acceptShiftSwapAction}
+        withdrawAction={withdrawShiftSwapAction}
       />
+      <AvailabilityEditor entries={availability} saveAction={saveAvailabilityAction} />
       {shiftPlanSettings.allowEmployeeSelfPlan ? (
         <EmployeeTemplateManager
           templates={templates}
@@ -4,6 +4,9 @@ import { jsPDF } from 'jspdf';
 import { useEffect, useMemo, useRef, useState, useTransition } from 'react';
 import { useRouter } from 'next/navigation';
 import type { BranchSummary } from '@/lib/data/branches';
+import type { OpenShiftView } from '@/lib/services/open-shifts';
+
+import OpenShiftClaimList from './OpenShiftClaimList';
 
 const WEEKDAY_LABELS = ['Mo', 'Di', 'Mi', 'Do', 'Fr', 'Sa', 'So'];
 
@@ -61,6 +64,9 @@ type Props = {
   clearWeekAction?: (formData: FormData) => Promise<{ success: boolean; error?: string }>;
   syncRangeAction?: (formData: FormData) => Promise<{ success: boolean; error?: string }>;
   branches?: BranchSummary[];
+  /** Open shifts of the employee's branches; listed below the month with a claim button. */
+  openShifts?: OpenShiftView[];
+  claimOpenShiftAction?: (formData: FormData) => Promise<{ success: boolean; error?: string; message?: string }>;
 };
 
 function toDate(iso: string): Date {
@@ -142,8 +148,8 @@ function hasOverlappingWorkTimes(segments: SegmentEditorRow[]): boolean {
       const startMin = parseTimeToMinutes(segment.start);
       const endMin = parseTimeToMinutes(segment.end);
       if (startMin === null || endMin === null) return null;
-      if (endMin <= startMin) return null;
-      return { startMin, endMin };
+      if (endMin === startMin) return null;
+      return { startMin, endMin: endMin < startMin ? endMin + 24 * 60 : endMin };
     })
     .filter(Boolean)
     .sort((a, b) => a!.startMin - b!.startMin);
@@ -244,6 +250,8 @@ export default function EmployeeShiftPlanCalendar({
   clearWeekAction,
   syncRangeAction,
   branches = [],
+  openShifts = [],
+  claimOpenShiftAction,
 }: Props) {
   const router = useRouter();
   const syncedRangesRef = useRef<Set<string>>(new Set());
@@ -331,6 +339,10 @@ export default function EmployeeShiftPlanCalendar({
   }, [currentMonthIso]);
 
   const todayIso = useMemo(() => toIso(new Date()), []);
+  const monthOpenShifts = useMemo(
+    () => openShifts.filter((shift) => shift.isoDate >= currentMonthStart && shift.isoDate <= currentMonthEnd),
+    [currentMonthEnd, currentMonthStart, openShifts]
+  );
   const canEdit = editable && typeof updateAction === 'function';
   const holidayCheckRequestRef = useRef(0);
   const [editing, setEditing] = useState<ShiftPlanDayInfo | null>(null);
@@ -562,10 +574,10 @@ export default function EmployeeShiftPlanCalendar({
         const startMin = parseTimeToMinutes(segment.start);
         const endMin = parseTimeToMinutes(segment.end);
         if (startMin === null || endMin === null) return false;
-        return endMin <= startMin;
+        return endMin === startMin;
       });
       if (invalidOrder) {
-        setError('Endzeit muss nach der Startzeit liegen.');
+        setError('Start- und Endzeit dürfen nicht identisch sein.');
         return;
       }
 
@@ -638,10 +650,10 @@ export default function EmployeeShiftPlanCalendar({
       const startMin = parseTimeToMinutes(segment.start);
       const endMin = parseTimeToMinutes(segment.end);
       if (startMin === null || endMin === null) return false;
-      return endMin <= startMin;
+      return endMin === startMin;
     });
     if (invalidOrder) {
-      setError('Endzeit muss nach der Startzeit liegen.');
+      setError('Start- und Endzeit dürfen nicht identisch sein.');
       return;
     }
 
@@ -793,6 +805,9 @@ export default function EmployeeShiftPlanCalendar({
             const hasLabel = Boolean(info?.label && info.label.trim().length > 0);
             const isAbsence = Boolean(info) && !info?.isAvailable;
             const hasPendingVacation = Boolean(info?.hasPendingVacationRequest);
+            const openShiftCount = monthOpenShifts.filter(
+              (shift) => shift.isoDate === isoDate && shift.status === 'open'
+            ).length;
 
             let primaryLine = '';
             if (isAbsence) {
@@ -870,6 +885,11 @@ export default function EmployeeShiftPlanCalendar({
                       Urlaub angefragt
                     </span>
                   ) : null}
+                  {openShiftCount ? (
+                    <span className="mt-2 inline-flex items-center rounded-full bg-sky-100 px-2 py-0.5 text-[11px] font-semibold uppercase tracking-wide text-sky-700">
+                      {openShiftCount === 1 ? 'Offene Schicht' : `${openShiftCount} offene Schichten`}
+                    </span>
+                  ) : null}
                 </div>
                 <p className="text-[11px] text-slate-400">{isoDate}</p>
               </>
@@ -899,6 +919,10 @@ export default function EmployeeShiftPlanCalendar({
         </div>
       </div>
 
+      {claimOpenShiftAction && openShifts.length ? (
+        <OpenShiftClaimList shifts={monthOpenShifts} claimAction={claimOpenShiftAction} />
+      ) : null}
+
       <p className="text-xs text-slate-500">
         Anzeige umfasst den Zeitraum {rangeStart} bis {rangeEnd}.{' '}
         {canEdit
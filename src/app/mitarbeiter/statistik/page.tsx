@@ -346,13 +346,7 @@ export default async function MitarbeiterStatistikPage({ searchParams }: { searc
       if (Number.isNaN(date.getTime())) {
         return null;
       }
-      const { netHours, effectivePauseHours } = calculateIstHours(
-        record.kommt1,
-        record.geht1,
-        record.kommt2,
-        record.geht2,
-        record.pause
-      );
+      const { netHours, effectivePauseHours } = calculateIstHours(record.segments, record.pause);
       const code = normalizeCode(record.code);
       return {
         isoDate: record.day_date,
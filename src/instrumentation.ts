@@ -0,0 +1,9 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+  const { startReminderScheduler } = await import('@/lib/services/reminder-scheduler');
+  startReminderScheduler();
+  const { startOvertimeRebuildScheduler } = await import('@/lib/services/overtime-rebuild-scheduler');
+  startOvertimeRebuildScheduler();
+}
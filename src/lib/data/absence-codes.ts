@@ -0,0 +1,89 @@
+import type { AbsenceCode } from '@prisma/client';
+
+import { getPrisma } from '@/lib/prisma';
+
+export interface AbsenceCodeRow {
+  id: number;
+  tenant_id: string;
+  code: string;
+  label: string;
+  color: string;
+  counts_as_worked: boolean;
+  reduces_vacation: boolean;
+  counts_as_sick: boolean;
+  blocks_meal: boolean;
+  range_eligible: boolean;
+  payroll_column: string | null;
+  is_active: boolean;
+  sort_order: number;
+}
+
+export interface SaveAbsenceCodeInput {
+  code: string;
+  label: string;
+  color: string;
+  countsAsWorked: boolean;
+  reducesVacation: boolean;
+  countsAsSick: boolean;
+  blocksMeal: boolean;
+  rangeEligible: boolean;
+  payrollColumn: string | null;
+  isActive: boolean;
+  sortOrder: number;
+}
+
+function mapRow(row: AbsenceCode): AbsenceCodeRow {
+  return {
+    id: row.id,
+    tenant_id: row.tenantId,
+    code: row.code,
+    label: row.label,
+    color: row.color,
+    counts_as_worked: row.countsAsWorked === 1,
+    reduces_vacation: row.reducesVacation === 1,
+    counts_as_sick: row.countsAsSick === 1,
+    blocks_meal: row.blocksMeal === 1,
+    range_eligible: row.rangeEligible === 1,
+    payroll_column: row.payrollColumn ?? null,
+    is_active: row.isActive === 1,
+    sort_order: row.sortOrder,
+  };
+}
+
+export async function listAbsenceCodes(tenantId: string): Promise<AbsenceCodeRow[]> {
+  const prisma = getPrisma();
+  const rows = await prisma.absenceCode.findMany({
+    where: { tenantId },
+    orderBy: [{ sortOrder: 'asc' }, { code: 'asc' }],
+  });
+  return rows.map(mapRow);
+}
+
+export async function saveAbsenceCode(tenantId: string, input: SaveAbsenceCodeInput): Promise<void> {
+  const prisma = getPrisma();
+  const data = {
+    label: input.label,
+    color: input.color,
+    countsAsWorked: input.countsAsWorked ? 1 : 0,
+    reducesVacation: input.reducesVacation ? 1 : 0,
+    countsAsSick: input.countsAsSick ? 1 : 0,
+    blocksMeal: input.blocksMeal ? 1 : 0,
+    rangeEligible: input.rangeEligible ? 1 : 0,
+    payrollColumn: input.payrollColumn,
+    isActive: input.isActive ? 1 : 0,
+    sortOrder: input.sortOrder,
+  };
+  await prisma.absenceCode.upsert({
+    where: { tenantId_code: { tenantId, code: input.code } },
+    update: data,
+    create: { tenantId, code: input.code, ...data },
+  });
+}
+
+export async function deleteAbsenceCode(tenantId: string, code: string): Promise<void> {
+  const prisma = getPrisma();
+  const result = await prisma.absenceCode.deleteMany({ where: { tenantId, code } });
+  if (result.count === 0) {
+    throw new Error('Code wurde nicht gefunden.');
+  }
+}
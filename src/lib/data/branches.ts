@@ -12,6 +12,8 @@ export interface BranchScheduleRule {
   startsAtMinutes: number | null;
   endsAtMinutes: number | null;
   isActive: boolean;
+  /** Employees needed during the segment. */
+  minStaff: number;
 }
 
 export interface BranchRecord {
@@ -46,6 +48,7 @@ export interface BranchScheduleInput {
   startsAtMinutes: number | null;
   endsAtMinutes: number | null;
   isActive?: boolean;
+  minStaff?: number | null;
 }
 
 export interface BranchInput {
@@ -133,16 +136,31 @@ function normalizeMinutes(value: number | null | undefined, field: string): numb
   return minutes;
 }
 
+const MAX_MIN_STAFF = 99;
+
+function normalizeMinStaff(value: number | null | undefined): number {
+  if (value == null) return 1;
+  const staff = Math.floor(Number(value));
+  if (!Number.isFinite(staff) || staff < 0 || staff > MAX_MIN_STAFF) {
+    throw new Error(`Mindestbesetzung muss zwischen 0 und ${MAX_MIN_STAFF} liegen.`);
+  }
+  return staff;
+}
+
 function sanitizeScheduleInput(schedule: BranchScheduleInput[] | null | undefined) {
   if (!schedule?.length) return [];
 
-  const perDay = new Map<number, Array<{ startsAtMinutes: number | null; endsAtMinutes: number | null; isActive: boolean }>>();
+  const perDay = new Map<
+    number,
+    Array<{ startsAtMinutes: number | null; endsAtMinutes: number | null; isActive: boolean; minStaff: number }>
+  >();
 
   for (const entry of schedule) {
     const weekday = normalizeWeekday(entry.weekday);
     const startsAtMinutes = normalizeMinutes(entry.startsAtMinutes, 'startsAtMinutes');
     const endsAtMinutes = normalizeMinutes(entry.endsAtMinutes, 'endsAtMinutes');
     const isActive = entry.isActive === false ? false : !(startsAtMinutes == null && endsAtMinutes == null);
+    const minStaff = normalizeMinStaff(entry.minStaff);
 
     if (isActive) {
       if (startsAtMinutes == null || endsAtMinutes == null) throw new Error('Aktive Öffnungszeiten benötigen Start- und Endzeit.');
@@ -150,11 +168,23 @@ function sanitizeScheduleInput(schedule: BranchScheduleInput[] | null | undefine
     }
 
     const list = perDay.get(weekday) ?? [];
-    list.push({ startsAtMinutes: isActive ? startsAtMinutes : null, endsAtMinutes: isActive ? endsAtMinutes : null, isActive });
+    list.push({
+      startsAtMinutes: isActive ? startsAtMinutes : null,
+      endsAtMinutes: isActive ? endsAtMinutes : null,
+      isActive,
+      minStaff,
+    });
     perDay.set(weekday, list);
   }
 
-  const sanitized: Array<{ weekday: number; segmentIndex: number; startsAtMinutes: number | null; endsAtMinutes: number | null; isActive: boolean }> = [];
+  const sanitized: Array<{
+    weekday: number;
+    segmentIndex: number;
+    startsAtMinutes: number | null;
+    endsAtMinutes: number | null;
+    isActive: boolean;
+    minStaff: number;
+  }> = [];
   for (const weekday of Array.from(perDay.keys()).sort((a, b) => a - b)) {
     const list = perDay.get(weekday) ?? [];
     list.sort((a, b) => {
@@ -177,6 +207,7 @@ function sanitizeScheduleInput(schedule: BranchScheduleInput[] | null | undefine
         startsAtMinutes: entry.isActive ? entry.startsAtMinutes : null,
         endsAtMinutes: entry.isActive ? entry.endsAtMinutes : null,
         isActive: entry.isActive,
+        minStaff: entry.minStaff,
       });
     });
   }
@@ -213,13 +244,23 @@ function writeFederalStateToMetadata(
   return hasKeys ? JSON.stringify(base) : null;
 }
 
-function mapScheduleRows(rows: { weekday: number; segmentIndex: number; startsAtMinutes: number | null; endsAtMinutes: number | null; isActive: number | boolean }[]): BranchScheduleRule[] {
+type BranchScheduleDbRow = {
+  weekday: number;
+  segmentIndex: number;
+  startsAtMinutes: number | null;
+  endsAtMinutes: number | null;
+  isActive: number | boolean;
+  minStaff: number;
+};
+
+function mapScheduleRows(rows: BranchScheduleDbRow[]): BranchScheduleRule[] {
   return rows.map((row) => ({
     weekday: weekdayToLabel(row.weekday),
     segmentIndex: row.segmentIndex,
     startsAtMinutes: row.startsAtMinutes,
     endsAtMinutes: row.endsAtMinutes,
     isActive: Boolean(row.isActive),
+    minStaff: row.minStaff,
   }));
 }
 
@@ -238,7 +279,7 @@ function mapBranchRecord(branch: {
   metadata: string | null;
   createdAt: Date | string;
   updatedAt: Date | string | null;
-  branchSchedules?: Array<{ weekday: number; segmentIndex: number; startsAtMinutes: number | null; endsAtMinutes: number | null; isActive: number | boolean }>;
+  branchSchedules?: BranchScheduleDbRow[];
 }): BranchRecord {
   const parsedMetadata = parseMetadata(branch.metadata);
   const country = normalizeCountry(branch.country ?? 'DE');
@@ -372,6 +413,7 @@ export async function createBranch(tenantId: string, input: BranchInput): Promis
           startsAtMinutes: entry.startsAtMinutes,
           endsAtMinutes: entry.endsAtMinutes,
           isActive: entry.isActive ? 1 : 0,
+          minStaff: entry.minStaff,
         })),
       },
     },
@@ -412,6 +454,7 @@ export async function updateBranch(tenantId: string, id: number, input: BranchIn
             startsAtMinutes: entry.startsAtMinutes,
             endsAtMinutes: entry.endsAtMinutes,
             isActive: entry.isActive ? 1 : 0,
+            minStaff: entry.minStaff,
           })),
         },
       },
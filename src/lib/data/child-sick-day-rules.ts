@@ -0,0 +1,65 @@
+import type { ChildSickDayRule } from '@prisma/client';
+
+import { getPrisma } from '@/lib/prisma';
+
+export interface ChildSickDayRuleRow {
+  id: number;
+  tenant_id: string;
+  year: number;
+  per_child_days: number;
+  per_parent_cap_days: number;
+  single_parent_per_child_days: number;
+  single_parent_cap_days: number;
+}
+
+export interface SaveChildSickDayRuleInput {
+  year: number;
+  perChildDays: number;
+  perParentCapDays: number;
+  singleParentPerChildDays: number;
+  singleParentCapDays: number;
+}
+
+function mapRow(row: ChildSickDayRule): ChildSickDayRuleRow {
+  return {
+    id: row.id,
+    tenant_id: row.tenantId,
+    year: row.year,
+    per_child_days: row.perChildDays,
+    per_parent_cap_days: row.perParentCapDays,
+    single_parent_per_child_days: row.singleParentPerChildDays,
+    single_parent_cap_days: row.singleParentCapDays,
+  };
+}
+
+export async function listChildSickDayRules(tenantId: string): Promise<ChildSickDayRuleRow[]> {
+  const prisma = getPrisma();
+  const rows = await prisma.childSickDayRule.findMany({
+    where: { tenantId },
+    orderBy: { year: 'asc' },
+  });
+  return rows.map(mapRow);
+}
+
+export async function saveChildSickDayRule(tenantId: string, input: SaveChildSickDayRuleInput): Promise<void> {
+  const prisma = getPrisma();
+  const data = {
+    perChildDays: input.perChildDays,
+    perParentCapDays: input.perParentCapDays,
+    singleParentPerChildDays: input.singleParentPerChildDays,
+    singleParentCapDays: input.singleParentCapDays,
+  };
+  await prisma.childSickDayRule.upsert({
+    where: { tenantId_year: { tenantId, year: input.year } },
+    update: data,
+    create: { tenantId, year: input.year, ...data },
+  });
+}
+
+export async function deleteChildSickDayRule(tenantId: string, year: number): Promise<void> {
+  const prisma = getPrisma();
+  const result = await prisma.childSickDayRule.deleteMany({ where: { tenantId, year } });
+  if (result.count === 0) {
+    throw new Error('Regel wurde nicht gefunden.');
+  }
+}
@@ -0,0 +1,110 @@
+import type { DailyDayHistory } from '@prisma/client';
+
+import type { DailyDayRecord } from '@/lib/data/daily-days';
+import { getPrisma } from '@/lib/prisma';
+
+export type DailyDayChangeAction = 'create' | 'update' | 'delete' | 'revert';
+
+export type DailyDayChangeSource =
+  | 'employee'
+  | 'admin'
+  | 'kiosk'
+  | 'leave_request'
+  | 'shift_plan'
+  | 'import'
+  | 'sick_report';
+
+/** A day as stored, without ids and the admin-change columns the history replaces. */
+export type DailyDaySnapshot = Omit<
+  DailyDayRecord,
+  'id' | 'employee_id' | 'admin_last_change_at' | 'admin_last_change_by' | 'admin_last_change_type' | 'admin_last_change_summary'
+>;
+
+export interface DailyDayHistoryRecord {
+  id: number;
+  employee_id: number;
+  day_date: string;
+  action: DailyDayChangeAction;
+  source: DailyDayChangeSource;
+  actor_id: number | null;
+  actor_name: string | null;
+  before: DailyDaySnapshot | null;
+  after: DailyDaySnapshot | null;
+  reverted_from_id: number | null;
+  created_at: string;
+}
+
+export interface CreateDailyDayHistoryInput {
+  employeeId: number;
+  dayDate: string;
+  action: DailyDayChangeAction;
+  source: DailyDayChangeSource;
+  actorId?: number | null;
+  actorName?: string | null;
+  before: DailyDaySnapshot | null;
+  after: DailyDaySnapshot | null;
+  revertedFromId?: number | null;
+}
+
+function parseSnapshot(value: string | null): DailyDaySnapshot | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as DailyDaySnapshot;
+  } catch {
+    return null;
+  }
+}
+
+function mapRow(row: DailyDayHistory): DailyDayHistoryRecord {
+  return {
+    id: row.id,
+    employee_id: row.employeeId,
+    day_date: row.dayDate,
+    action: row.action as DailyDayChangeAction,
+    source: row.source as DailyDayChangeSource,
+    actor_id: row.actorId ?? null,
+    actor_name: row.actorName ?? null,
+    before: parseSnapshot(row.before),
+    after: parseSnapshot(row.after),
+    reverted_from_id: row.revertedFromId ?? null,
+    created_at: row.createdAt.toISOString(),
+  };
+}
+
+export async function createDailyDayHistoryEntry(input: CreateDailyDayHistoryInput): Promise<number> {
+  const prisma = getPrisma();
+  const row = await prisma.dailyDayHistory.create({
+    data: {
+      employeeId: input.employeeId,
+      dayDate: input.dayDate,
+      action: input.action,
+      source: input.source,
+      actorId: input.actorId ?? null,
+      actorName: input.actorName ?? null,
+      before: input.before ? JSON.stringify(input.before) : null,
+      after: input.after ? JSON.stringify(input.after) : null,
+      revertedFromId: input.revertedFromId ?? null,
+    },
+  });
+  return row.id;
+}
+
+/** Newest first; `start`/`end` limit the days, not the time of the change. */
+export async function listDailyDayHistory(
+  employeeId: number,
+  start: string,
+  end: string
+): Promise<DailyDayHistoryRecord[]> {
+  const prisma = getPrisma();
+  const rows = await prisma.dailyDayHistory.findMany({
+    where: { employeeId, dayDate: { gte: start, lte: end } },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+  });
+  return rows.map(mapRow);
+}
+
+export async function getDailyDayHistoryEntry(employeeId: number, id: number): Promise<DailyDayHistoryRecord | null> {
+  const prisma = getPrisma();
+  const row = await prisma.dailyDayHistory.findFirst({ where: { id, employeeId } });
+  return row ? mapRow(row) : null;
+}
@@ -1,7 +1,11 @@
-import type { DailyDay } from '@prisma/client';
+import type { DailyDay, DailyDaySegment, Prisma } from '@prisma/client';
 
 import { getPrisma } from '@/lib/prisma';
-import { calculateIstHours as calculateIstHoursService } from '@/lib/services/time-calculations';
+import {
+  calculateIstHours as calculateIstHoursService,
+  segmentsFromPairs,
+  type WorkSegment,
+} from '@/lib/services/time-calculations';
 
 export interface DailyDayRecord {
   id: number;
@@ -12,6 +16,8 @@ export interface DailyDayRecord {
   geht1: string | null;
   kommt2: string | null;
   geht2: string | null;
+  /** All Kommt/Geht blocks of the day; kommt1..geht2 only mirror the first two. */
+  segments: WorkSegment[];
   pause: string | null;
   code: string | null;
   bemerkungen: string | null;
@@ -46,6 +52,8 @@ export interface UpsertDailyDayInput {
   geht1?: string | null;
   kommt2?: string | null;
   geht2?: string | null;
+  /** Takes precedence over kommt1..geht2 when given. */
+  segments?: WorkSegment[] | null;
   pause?: string | null;
   code?: string | null;
   bemerkungen?: string | null;
@@ -81,7 +89,39 @@ function toStringOrNull(value: unknown): string | null {
   return str.length ? str : null;
 }
 
-function mapRow(row: DailyDay): DailyDayRecord {
+type DailyDayRow = DailyDay & { segments?: DailyDaySegment[] };
+
+const SEGMENT_INCLUDE = { segments: { orderBy: { segmentIndex: 'asc' } } } as const;
+
+function mapSegments(row: DailyDayRow): WorkSegment[] {
+  if (row.segments?.length) {
+    return row.segments.map((segment) => ({
+      kommt: toStringOrNull(segment.kommt),
+      geht: toStringOrNull(segment.geht),
+      ...(segment.kommtRaw !== null ? { kommtRaw: segment.kommtRaw } : {}),
+      ...(segment.gehtRaw !== null ? { gehtRaw: segment.gehtRaw } : {}),
+    }));
+  }
+  return segmentsFromPairs(
+    toStringOrNull(row.kommt1),
+    toStringOrNull(row.geht1),
+    toStringOrNull(row.kommt2),
+    toStringOrNull(row.geht2)
+  );
+}
+
+function normalizeSegments(segments: WorkSegment[]): WorkSegment[] {
+  return segments
+    .map((segment) => ({
+      kommt: toStringOrNull(segment.kommt?.trim()),
+      geht: toStringOrNull(segment.geht?.trim()),
+      kommtRaw: toStringOrNull(segment.kommtRaw?.trim()),
+      gehtRaw: toStringOrNull(segment.gehtRaw?.trim()),
+    }))
+    .filter((segment) => segment.kommt || segment.geht);
+}
+
+function mapRow(row: DailyDayRow): DailyDayRecord {
   return {
     id: row.id,
     employee_id: row.employeeId,
@@ -91,6 +131,7 @@ function mapRow(row: DailyDay): DailyDayRecord {
     geht1: toStringOrNull(row.geht1),
     kommt2: toStringOrNull(row.kommt2),
     geht2: toStringOrNull(row.geht2),
+    segments: mapSegments(row),
     pause: toStringOrNull(row.pause),
     code: toStringOrNull(row.code),
     bemerkungen: toStringOrNull(row.bemerkungen),
@@ -118,13 +159,7 @@ function computeIstHours(row: DailyDayRecord): number {
   if (code === 'u' || code === 'ubf') {
     return 0;
   }
-  const result = calculateIstHoursService(
-    row.kommt1 ?? '',
-    row.geht1 ?? '',
-    row.kommt2 ?? '',
-    row.geht2 ?? '',
-    row.pause ?? 'Keine'
-  );
+  const result = calculateIstHoursService(row.segments, row.pause ?? 'Keine');
   return Number(result.netHours.toFixed(2));
 }
 
@@ -134,6 +169,7 @@ export async function listDailyDays(employeeId: number, limit = 60): Promise<Dai
     where: { employeeId },
     orderBy: [{ dayDate: 'desc' }, { id: 'desc' }],
     take: limit,
+    include: SEGMENT_INCLUDE,
   });
   return rows.map((row) => {
     const mapped = mapRow(row);
@@ -141,26 +177,51 @@ export async function listDailyDays(employeeId: number, limit = 60): Promise<Dai
   });
 }
 
-export async function listDailyDayRecords(employeeId: number): Promise<DailyDayRecord[]> {
+export async function listDailyDayRecords(employeeId: number, from?: string): Promise<DailyDayRecord[]> {
   const prisma = getPrisma();
   const rows = await prisma.dailyDay.findMany({
-    where: { employeeId },
+    where: { employeeId, ...(from ? { dayDate: { gte: from } } : {}) },
     orderBy: [{ dayDate: 'desc' }, { id: 'desc' }],
+    include: SEGMENT_INCLUDE,
   });
   return rows.map(mapRow);
 }
 
-export async function upsertDailyDay(payload: UpsertDailyDayInput): Promise<number> {
+export async function listDailyDayRecordsForEmployees(
+  employeeIds: number[],
+  start: string,
+  end: string
+): Promise<DailyDayRecord[]> {
+  if (!employeeIds.length) return [];
   const prisma = getPrisma();
+  const rows = await prisma.dailyDay.findMany({
+    where: {
+      employeeId: { in: employeeIds },
+      dayDate: { gte: start, lte: end },
+    },
+    orderBy: [{ employeeId: 'asc' }, { dayDate: 'asc' }],
+    include: SEGMENT_INCLUDE,
+  });
+  return rows.map(mapRow);
+}
+
+async function upsertDailyDayWithClient(tx: Prisma.TransactionClient, payload: UpsertDailyDayInput): Promise<number> {
   const bruttoValue = toNumber(payload.brutto, 0);
-  const result = await prisma.dailyDay.upsert({
+  const segments = normalizeSegments(
+    payload.segments ?? segmentsFromPairs(payload.kommt1, payload.geht1, payload.kommt2, payload.geht2)
+  );
+  const [first, second] = segments;
+  const times = {
+    kommt1: first?.kommt ?? null,
+    geht1: first?.geht ?? null,
+    kommt2: second?.kommt ?? null,
+    geht2: second?.geht ?? null,
+  };
+  const day = await tx.dailyDay.upsert({
     where: { employeeId_dayDate: { employeeId: payload.employeeId, dayDate: payload.dayDate } },
     update: {
       brutto: bruttoValue,
-      kommt1: payload.kommt1 ?? null,
-      geht1: payload.geht1 ?? null,
-      kommt2: payload.kommt2 ?? null,
-      geht2: payload.geht2 ?? null,
+      ...times,
       pause: payload.pause ?? null,
       code: payload.code ?? null,
       bemerkungen: payload.bemerkungen ?? null,
@@ -181,10 +242,7 @@ export async function upsertDailyDay(payload: UpsertDailyDayInput): Promise<numb
       employee: { connect: { id: payload.employeeId } },
       dayDate: payload.dayDate,
       brutto: bruttoValue,
-      kommt1: payload.kommt1 ?? null,
-      geht1: payload.geht1 ?? null,
-      kommt2: payload.kommt2 ?? null,
-      geht2: payload.geht2 ?? null,
+      ...times,
       pause: payload.pause ?? null,
       code: payload.code ?? null,
       bemerkungen: payload.bemerkungen ?? null,
@@ -202,13 +260,46 @@ export async function upsertDailyDay(payload: UpsertDailyDayInput): Promise<numb
       requiredPauseUnder6Minutes: toNumber(payload.requiredPauseUnder6Minutes, 0),
     },
   });
-  return result.id;
+  await tx.dailyDaySegment.deleteMany({ where: { dailyDayId: day.id } });
+  if (segments.length) {
+    await tx.dailyDaySegment.createMany({
+      data: segments.map((segment, segmentIndex) => ({
+        dailyDayId: day.id,
+        segmentIndex,
+        kommt: segment.kommt,
+        geht: segment.geht,
+        kommtRaw: segment.kommtRaw,
+        gehtRaw: segment.gehtRaw,
+      })),
+    });
+  }
+  return day.id;
+}
+
+export async function upsertDailyDay(payload: UpsertDailyDayInput): Promise<number> {
+  return getPrisma().$transaction((tx) => upsertDailyDayWithClient(tx, payload));
+}
+
+/** Stores several days in one transaction, so either all of them are written or none. */
+export async function upsertDailyDays(payloads: UpsertDailyDayInput[]): Promise<number[]> {
+  if (!payloads.length) return [];
+  return getPrisma().$transaction(
+    async (tx) => {
+      const ids: number[] = [];
+      for (const payload of payloads) {
+        ids.push(await upsertDailyDayWithClient(tx, payload));
+      }
+      return ids;
+    },
+    { timeout: 60_000 }
+  );
 }
 
 export async function getDailyDay(employeeId: number, dayDate: string): Promise<DailyDayRecord | null> {
   const prisma = getPrisma();
   const row = await prisma.dailyDay.findUnique({
     where: { employeeId_dayDate: { employeeId, dayDate } },
+    include: SEGMENT_INCLUDE,
   });
   return row ? mapRow(row) : null;
 }
@@ -252,3 +343,43 @@ export async function deleteDailyDayByDate(employeeId: number, dayDate: string):
   const prisma = getPrisma();
   await prisma.dailyDay.deleteMany({ where: { employeeId, dayDate } });
 }
+
+export async function listDailyDayDatesForEmployees(
+  employeeIds: number[],
+  start: string,
+  end: string
+): Promise<Map<number, Set<string>>> {
+  const map = new Map<number, Set<string>>();
+  if (!employeeIds.length) return map;
+  const prisma = getPrisma();
+  const rows = await prisma.dailyDay.findMany({
+    where: {
+      employeeId: { in: employeeIds },
+      dayDate: { gte: start, lte: end },
+    },
+    select: { employeeId: true, dayDate: true },
+  });
+  for (const row of rows) {
+    const dates = map.get(row.employeeId) ?? new Set<string>();
+    dates.add(row.dayDate);
+    map.set(row.employeeId, dates);
+  }
+  return map;
+}
+
+/** Earliest day per employee of the tenant on which the code is recorded. */
+export async function listFirstDailyDayDatesWithCode(tenantId: string, code: string): Promise<Map<number, string>> {
+  const prisma = getPrisma();
+  const rows = await prisma.dailyDay.groupBy({
+    by: ['employeeId'],
+    where: { code, employee: { tenantId } },
+    _min: { dayDate: true },
+  });
+  const map = new Map<number, string>();
+  for (const row of rows) {
+    if (row._min.dayDate) {
+      map.set(row.employeeId, row._min.dayDate);
+    }
+  }
+  return map;
+}
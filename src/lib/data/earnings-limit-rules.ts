@@ -0,0 +1,57 @@
+import type { EarningsLimitRule } from '@prisma/client';
+
+import { getPrisma } from '@/lib/prisma';
+
+export interface EarningsLimitRuleRow {
+  id: number;
+  tenant_id: string;
+  year: number;
+  minijob_monthly_limit: number;
+  midijob_monthly_limit: number;
+}
+
+export interface SaveEarningsLimitRuleInput {
+  year: number;
+  minijobMonthlyLimit: number;
+  midijobMonthlyLimit: number;
+}
+
+function mapRow(row: EarningsLimitRule): EarningsLimitRuleRow {
+  return {
+    id: row.id,
+    tenant_id: row.tenantId,
+    year: row.year,
+    minijob_monthly_limit: row.minijobMonthlyLimit,
+    midijob_monthly_limit: row.midijobMonthlyLimit,
+  };
+}
+
+export async function listEarningsLimitRules(tenantId: string): Promise<EarningsLimitRuleRow[]> {
+  const prisma = getPrisma();
+  const rows = await prisma.earningsLimitRule.findMany({
+    where: { tenantId },
+    orderBy: { year: 'asc' },
+  });
+  return rows.map(mapRow);
+}
+
+export async function saveEarningsLimitRule(tenantId: string, input: SaveEarningsLimitRuleInput): Promise<void> {
+  const prisma = getPrisma();
+  const data = {
+    minijobMonthlyLimit: input.minijobMonthlyLimit,
+    midijobMonthlyLimit: input.midijobMonthlyLimit,
+  };
+  await prisma.earningsLimitRule.upsert({
+    where: { tenantId_year: { tenantId, year: input.year } },
+    update: data,
+    create: { tenantId, year: input.year, ...data },
+  });
+}
+
+export async function deleteEarningsLimitRule(tenantId: string, year: number): Promise<void> {
+  const prisma = getPrisma();
+  const result = await prisma.earningsLimitRule.deleteMany({ where: { tenantId, year } });
+  if (result.count === 0) {
+    throw new Error('Regel wurde nicht gefunden.');
+  }
+}
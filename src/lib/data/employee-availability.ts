@@ -0,0 +1,79 @@
+import type { EmployeeAvailability } from '@prisma/client';
+
+import { getPrisma } from '@/lib/prisma';
+
+export type EmployeeAvailabilityKind = 'unavailable' | 'only' | 'preferred';
+
+export type EmployeeAvailabilityRow = {
+  id: number;
+  employee_id: number;
+  /** 0 = Monday; null for dated entries. */
+  weekday: number | null;
+  date: string | null;
+  kind: EmployeeAvailabilityKind;
+  /** Null start and end cover the whole day. */
+  starts_at_minutes: number | null;
+  ends_at_minutes: number | null;
+  note: string | null;
+};
+
+export type EmployeeAvailabilityInput = {
+  weekday: number | null;
+  date: string | null;
+  kind: EmployeeAvailabilityKind;
+  startsAtMinutes: number | null;
+  endsAtMinutes: number | null;
+  note: string | null;
+};
+
+function mapRow(row: EmployeeAvailability): EmployeeAvailabilityRow {
+  return {
+    id: row.id,
+    employee_id: row.employeeId,
+    weekday: row.weekday ?? null,
+    date: row.date ?? null,
+    kind: row.kind === 'only' || row.kind === 'preferred' ? row.kind : 'unavailable',
+    starts_at_minutes: row.startsAtMinutes ?? null,
+    ends_at_minutes: row.endsAtMinutes ?? null,
+    note: row.note ?? null,
+  };
+}
+
+/** Weekday entries and the dated entries between both dates; without a range all dated entries are returned. */
+export async function listEmployeeAvailability(
+  tenantId: string,
+  employeeIds: number[],
+  range?: { from: string; to: string }
+): Promise<EmployeeAvailabilityRow[]> {
+  if (!employeeIds.length) return [];
+  const prisma = getPrisma();
+  const rows = await prisma.employeeAvailability.findMany({
+    where: {
+      employeeId: { in: employeeIds },
+      employee: { tenantId },
+      ...(range ? { OR: [{ date: null }, { date: { gte: range.from, lte: range.to } }] } : {}),
+    },
+    orderBy: [{ employeeId: 'asc' }, { date: 'asc' }, { weekday: 'asc' }, { startsAtMinutes: 'asc' }],
+  });
+  return rows.map(mapRow);
+}
+
+export async function replaceEmployeeAvailability(
+  tenantId: string,
+  employeeId: number,
+  entries: EmployeeAvailabilityInput[]
+): Promise<void> {
+  const prisma = getPrisma();
+  const employee = await prisma.employee.findFirst({ where: { id: employeeId, tenantId }, select: { id: true } });
+  if (!employee) {
+    throw new Error('Mitarbeiter wurde nicht gefunden.');
+  }
+  await prisma.$transaction(async (tx) => {
+    await tx.employeeAvailability.deleteMany({ where: { employeeId } });
+    if (entries.length) {
+      await tx.employeeAvailability.createMany({
+        data: entries.map((entry) => ({ employeeId, ...entry })),
+      });
+    }
+  });
+}
@@ -0,0 +1,57 @@
+import { getPrisma } from '@/lib/prisma';
+
+export interface EmployeeChildRow {
+  id: number;
+  employee_id: number;
+  birth_year: number;
+}
+
+export async function listEmployeeChildren(tenantId: string, employeeId: number): Promise<EmployeeChildRow[]> {
+  const prisma = getPrisma();
+  const rows = await prisma.employeeChild.findMany({
+    where: { employeeId, employee: { tenantId } },
+    orderBy: [{ birthYear: 'asc' }, { id: 'asc' }],
+  });
+  return rows.map((row) => ({ id: row.id, employee_id: row.employeeId, birth_year: row.birthYear }));
+}
+
+export async function createEmployeeChild(employeeId: number, birthYear: number): Promise<number> {
+  const prisma = getPrisma();
+  const created = await prisma.employeeChild.create({
+    data: { employeeId, birthYear },
+    select: { id: true },
+  });
+  return created.id;
+}
+
+export async function deleteEmployeeChild(tenantId: string, employeeId: number, id: number): Promise<void> {
+  const prisma = getPrisma();
+  const deleted = await prisma.employeeChild.deleteMany({ where: { id, employeeId, employee: { tenantId } } });
+  if (deleted.count === 0) {
+    throw new Error('Kind wurde nicht gefunden.');
+  }
+}
+
+export async function getEmployeeSingleParent(tenantId: string, employeeId: number): Promise<boolean> {
+  const prisma = getPrisma();
+  const row = await prisma.employee.findFirst({
+    where: { id: employeeId, tenantId },
+    select: { singleParent: true },
+  });
+  return row?.singleParent === 1;
+}
+
+export async function updateEmployeeSingleParent(
+  tenantId: string,
+  employeeId: number,
+  singleParent: boolean
+): Promise<void> {
+  const prisma = getPrisma();
+  const updated = await prisma.employee.updateMany({
+    where: { id: employeeId, tenantId },
+    data: { singleParent: singleParent ? 1 : 0 },
+  });
+  if (updated.count === 0) {
+    throw new Error('Mitarbeiter wurde nicht gefunden.');
+  }
+}
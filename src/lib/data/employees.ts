@@ -5,6 +5,9 @@ import { getPrisma } from '@/lib/prisma';
 import { fetchStaffProfileFromControlPlane } from '@/lib/control-plane';
 import { listBranchesForEmployee, listBranchesForEmployees, type BranchSummary } from '@/lib/data/branches';
 
+/** PIN new employees get before they choose their own; it never books at the kiosk. */
+export const DEFAULT_BOOKING_PIN = '0000';
+
 type EmployeeRecordRow = Pick<
   PrismaEmployee,
   | 'id'
@@ -402,6 +405,91 @@ export async function getEmployeeDisplayNamesByIds(
   return map;
 }
 
+export interface EmployeeEmploymentTypeRow {
+  id: number;
+  first_name: string;
+  last_name: string;
+  personnel_number: string | null;
+  /** Einstellungsart such as "minijob"; null when none is set. */
+  employment_type: string | null;
+  overtime_balance: number;
+  /** Weekly hours of the employee record; dated contract versions may deviate. */
+  weekly_hours: number;
+}
+
+export async function listActiveEmployeeEmploymentTypes(tenantId: string): Promise<EmployeeEmploymentTypeRow[]> {
+  const prisma = getPrisma();
+  const rows = await prisma.employee.findMany({
+    where: { tenantId, isActive: 1 },
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      personnelNumber: true,
+      employmentType: true,
+      overtimeBalance: true,
+      arbeitsstundenProWoche: true,
+    },
+    orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }],
+  });
+  return rows.map((row) => ({
+    id: row.id,
+    first_name: row.firstName ?? '',
+    last_name: row.lastName ?? '',
+    personnel_number: row.personnelNumber ?? null,
+    employment_type: row.employmentType?.trim() || null,
+    overtime_balance: Number(row.overtimeBalance ?? 0),
+    weekly_hours: Number(row.arbeitsstundenProWoche ?? 0),
+  }));
+}
+
+export async function getEmployeeEmploymentType(tenantId: string, employeeId: number): Promise<string | null> {
+  const prisma = getPrisma();
+  const row = await prisma.employee.findFirst({
+    where: { id: employeeId, tenantId },
+    select: { employmentType: true },
+  });
+  return row?.employmentType?.trim() || null;
+}
+
+/** Employment type of an active employee; null when the employee is inactive or unknown. */
+export async function getActiveEmployeeEmploymentType(
+  tenantId: string,
+  employeeId: number
+): Promise<{ employmentType: string | null } | null> {
+  const prisma = getPrisma();
+  const row = await prisma.employee.findFirst({
+    where: { id: employeeId, tenantId, isActive: 1 },
+    select: { employmentType: true },
+  });
+  return row ? { employmentType: row.employmentType?.trim() || null } : null;
+}
+
+/** E-mail addresses of active admins assigned to at least one branch of the given employee. */
+export async function listBranchAdminEmails(tenantId: string, employeeId: number): Promise<string[]> {
+  const prisma = getPrisma();
+  const branches = await prisma.employeeBranch.findMany({
+    where: { employeeId, employee: { tenantId } },
+    select: { branchId: true },
+  });
+  if (!branches.length) {
+    return [];
+  }
+  const rows = await prisma.employee.findMany({
+    where: {
+      tenantId,
+      Rolle: 2,
+      isActive: 1,
+      id: { not: employeeId },
+      employeeBranches: { some: { branchId: { in: branches.map((branch) => branch.branchId) } } },
+    },
+    select: { email: true },
+  });
+  return Array.from(
+    new Set(rows.map((row) => row.email?.trim().toLowerCase() ?? '').filter((email) => email.includes('@')))
+  );
+}
+
 export async function getEmployeeById(
   tenantId: string,
   id: number
@@ -436,6 +524,83 @@ export async function getEmployeeById(
   return mapEmployeeRecord(row);
 }
 
+export async function listActiveEmployeeRecords(tenantId: string): Promise<EmployeeRecord[]> {
+  const prisma = getPrisma();
+  const rows = await prisma.employee.findMany({
+    where: { tenantId, isActive: 1 },
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+      phone: true,
+      username: true,
+      Rolle: true,
+      personnelNumber: true,
+      controlPlaneStaffId: true,
+      entryDate: true,
+      exitDate: true,
+      onboardingStatus: true,
+      arbeitsstundenProWoche: true,
+      vacationDaysTotal: true,
+      federalState: true,
+      showInCalendar: true,
+    },
+    orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }],
+  });
+
+  return rows.map(mapEmployeeRecord);
+}
+
+
+/**
+ * The only active employee of the tenant with this PIN. The default PIN and PINs shared by several employees
+ * never match, so a stamp cannot land on the wrong person.
+ */
+export async function findActiveEmployeeByBookingPin(
+  tenantId: string,
+  bookingPin: string
+): Promise<EmployeeRecord | null> {
+  const pin = bookingPin.trim();
+  if (!pin || pin === DEFAULT_BOOKING_PIN) {
+    return null;
+  }
+  const prisma = getPrisma();
+  const rows = await prisma.employee.findMany({
+    where: { tenantId, bookingPin: pin, isActive: 1 },
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+      phone: true,
+      username: true,
+      Rolle: true,
+      personnelNumber: true,
+      controlPlaneStaffId: true,
+      entryDate: true,
+      exitDate: true,
+      onboardingStatus: true,
+      arbeitsstundenProWoche: true,
+      vacationDaysTotal: true,
+      federalState: true,
+      showInCalendar: true,
+    },
+    take: 2,
+  });
+
+  return rows.length === 1 ? mapEmployeeRecord(rows[0]!) : null;
+}
+
+/** Whether another employee of the tenant already uses the PIN. */
+export async function isBookingPinTaken(tenantId: string, bookingPin: string, exceptEmployeeId: number): Promise<boolean> {
+  const prisma = getPrisma();
+  const duplicate = await prisma.employee.findFirst({
+    where: { tenantId, bookingPin: bookingPin.trim(), id: { not: exceptEmployeeId } },
+    select: { id: true },
+  });
+  return Boolean(duplicate);
+}
 
 export async function getEmployeeSelfSummaryData(
   tenantId: string,
@@ -553,7 +718,7 @@ export async function getEmployeeAdminDetails(
     exit_date: row.exitDate ?? null,
     onboarding_status: row.onboardingStatus?.trim() || 'active',
     control_plane_staff_id: typeof row.controlPlaneStaffId === 'string' ? row.controlPlaneStaffId.trim() : null,
-    booking_pin: row.bookingPin ?? '0000',
+    booking_pin: row.bookingPin ?? DEFAULT_BOOKING_PIN,
     weekly_hours: row.arbeitsstundenProWoche,
     street: row.street ?? null,
     house_number: row.houseNumber ?? null,
@@ -0,0 +1,136 @@
+import type { EmploymentContract } from '@prisma/client';
+
+import { getPrisma } from '@/lib/prisma';
+
+export type EmploymentContractRow = {
+  id: number;
+  employee_id: number;
+  valid_from: string;
+  weekly_hours: number;
+  workdays_per_week: number;
+  compensation_type: 'hourly' | 'fixed';
+  hourly_wage: number | null;
+  monthly_salary_gross: number | null;
+  vacation_days: number;
+  note: string | null;
+};
+
+/** Weekly hours from `change_date` on, as recorded in the employee history before contract versions existed. */
+export type WeeklyHoursHistoryRow = {
+  employee_id: number;
+  change_date: string;
+  weekly_hours: number;
+};
+
+export type SaveEmploymentContractInput = {
+  validFrom: string;
+  weeklyHours: number;
+  workdaysPerWeek: number;
+  compensationType: 'hourly' | 'fixed';
+  hourlyWage: number | null;
+  monthlySalaryGross: number | null;
+  vacationDays: number;
+  note: string | null;
+};
+
+function mapPrismaRow(row: EmploymentContract): EmploymentContractRow {
+  return {
+    id: row.id,
+    employee_id: row.employeeId,
+    valid_from: row.validFrom,
+    weekly_hours: Number(row.weeklyHours ?? 0),
+    workdays_per_week: Number(row.workdaysPerWeek ?? 5),
+    compensation_type: row.compensationType === 'fixed' ? 'fixed' : 'hourly',
+    hourly_wage: row.hourlyWage ?? null,
+    monthly_salary_gross: row.monthlySalaryGross ?? null,
+    vacation_days: Number(row.vacationDays ?? 0),
+    note: row.note ?? null,
+  };
+}
+
+export async function listEmploymentContracts(tenantId: string, employeeId: number): Promise<EmploymentContractRow[]> {
+  const prisma = getPrisma();
+  const rows = await prisma.employmentContract.findMany({
+    where: { employeeId, employee: { tenantId } },
+    orderBy: { validFrom: 'asc' },
+  });
+  return rows.map(mapPrismaRow);
+}
+
+export async function listEmploymentContractsForEmployees(
+  tenantId: string,
+  employeeIds: number[]
+): Promise<EmploymentContractRow[]> {
+  if (!employeeIds.length) return [];
+  const prisma = getPrisma();
+  const rows = await prisma.employmentContract.findMany({
+    where: { employeeId: { in: employeeIds }, employee: { tenantId } },
+    orderBy: [{ employeeId: 'asc' }, { validFrom: 'asc' }],
+  });
+  return rows.map(mapPrismaRow);
+}
+
+export async function listWeeklyHoursHistory(
+  tenantId: string,
+  employeeIds: number[]
+): Promise<WeeklyHoursHistoryRow[]> {
+  if (!employeeIds.length) return [];
+  const prisma = getPrisma();
+  const rows = await prisma.weeklyHoursHistory.findMany({
+    where: { employeeId: { in: employeeIds }, employee: { tenantId } },
+    orderBy: [{ employeeId: 'asc' }, { changeDate: 'asc' }, { id: 'asc' }],
+  });
+  return rows.map((row) => ({
+    employee_id: row.employeeId,
+    change_date: row.changeDate,
+    weekly_hours: Number(row.weeklyHours ?? 0),
+  }));
+}
+
+/** A version with the same valid-from date is replaced. */
+export async function saveEmploymentContract(employeeId: number, input: SaveEmploymentContractInput): Promise<void> {
+  const prisma = getPrisma();
+  const data = {
+    weeklyHours: input.weeklyHours,
+    workdaysPerWeek: input.workdaysPerWeek,
+    compensationType: input.compensationType,
+    hourlyWage: input.hourlyWage,
+    monthlySalaryGross: input.monthlySalaryGross,
+    vacationDays: input.vacationDays,
+    note: input.note,
+  };
+  await prisma.employmentContract.upsert({
+    where: { employeeId_validFrom: { employeeId, validFrom: input.validFrom } },
+    create: { employeeId, validFrom: input.validFrom, ...data },
+    update: data,
+  });
+}
+
+export async function deleteEmploymentContract(tenantId: string, employeeId: number, id: number): Promise<void> {
+  const prisma = getPrisma();
+  const result = await prisma.employmentContract.deleteMany({
+    where: { id, employeeId, employee: { tenantId } },
+  });
+  if (result.count === 0) {
+    throw new Error('Vertragsstand wurde nicht gefunden.');
+  }
+}
+
+/** Mirrors the version in force into the Employee columns read by screens without a date context. */
+export async function applyCurrentEmploymentContract(
+  tenantId: string,
+  employeeId: number,
+  contract: EmploymentContractRow
+): Promise<void> {
+  const prisma = getPrisma();
+  await prisma.employee.updateMany({
+    where: { id: employeeId, tenantId },
+    data: {
+      arbeitsstundenProWoche: contract.weekly_hours,
+      compensationType: contract.compensation_type,
+      hourlyWage: contract.hourly_wage ?? 0,
+      monthlySalaryGross: contract.monthly_salary_gross,
+      vacationDaysTotal: Math.round(contract.vacation_days),
+    },
+  });
+}
@@ -120,6 +120,16 @@ export async function listMonthlyClosings(
   return rows.map((row) => mapRow(row)!).filter((row): row is MonthlyClosingRow => !!row);
 }
 
+/** Months of the employee that are currently closed, as `YYYY-MM`; reopened months are not included. */
+export async function listClosedMonths(employeeId: number): Promise<Set<string>> {
+  const prisma = getPrisma();
+  const rows = await prisma.monthlyClosing.findMany({
+    where: { employeeId, status: 'closed' },
+    select: { year: true, month: true },
+  });
+  return new Set(rows.map((row) => `${row.year}-${String(row.month).padStart(2, '0')}`));
+}
+
 export async function listMonthlyClosingsForPeriod(
   employeeIds: number[],
   year: number,
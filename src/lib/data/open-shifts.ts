@@ -0,0 +1,148 @@
+import type { OpenShift } from '@prisma/client';
+
+import { getPrisma } from '@/lib/prisma';
+
+export type OpenShiftClaimMode = 'first_come' | 'confirm';
+
+/** claimed: an employee claimed a shift that needs confirmation by an admin. */
+export type OpenShiftStatus = 'open' | 'claimed' | 'filled' | 'cancelled';
+
+export type OpenShiftRow = {
+  id: number;
+  branch_id: number;
+  day_date: string;
+  start_time: string;
+  end_time: string;
+  required_pause_minutes: number;
+  label: string | null;
+  claim_mode: OpenShiftClaimMode;
+  status: OpenShiftStatus;
+  claimed_by: number | null;
+  claimed_at: string | null;
+  filled_at: string | null;
+  created_at: string;
+};
+
+export type CreateOpenShiftInput = {
+  branchId: number;
+  dayDate: string;
+  startTime: string;
+  endTime: string;
+  requiredPauseMinutes: number;
+  label: string | null;
+  claimMode: OpenShiftClaimMode;
+  createdBy: number | null;
+};
+
+function mapPrismaRow(row: OpenShift): OpenShiftRow {
+  return {
+    id: row.id,
+    branch_id: row.branchId,
+    day_date: row.dayDate,
+    start_time: row.startTime,
+    end_time: row.endTime,
+    required_pause_minutes: row.requiredPauseMinutes,
+    label: row.label ?? null,
+    claim_mode: row.claimMode === 'confirm' ? 'confirm' : 'first_come',
+    status: row.status as OpenShiftStatus,
+    claimed_by: row.claimedById ?? null,
+    claimed_at: row.claimedAt ?? null,
+    filled_at: row.filledAt ?? null,
+    created_at: row.createdAt.toISOString(),
+  };
+}
+
+export async function createOpenShift(tenantId: string, input: CreateOpenShiftInput): Promise<number> {
+  const prisma = getPrisma();
+  const branch = await prisma.branch.findFirst({ where: { id: input.branchId, tenantId }, select: { id: true } });
+  if (!branch) {
+    throw new Error('Der Standort wurde nicht gefunden.');
+  }
+  const created = await prisma.openShift.create({
+    data: {
+      branchId: input.branchId,
+      dayDate: input.dayDate,
+      startTime: input.startTime,
+      endTime: input.endTime,
+      requiredPauseMinutes: input.requiredPauseMinutes,
+      label: input.label,
+      claimMode: input.claimMode,
+      createdBy: input.createdBy,
+    },
+    select: { id: true },
+  });
+  return created.id;
+}
+
+export async function getOpenShiftById(tenantId: string, id: number): Promise<OpenShiftRow | null> {
+  const prisma = getPrisma();
+  const row = await prisma.openShift.findFirst({ where: { id, branch: { tenantId } } });
+  return row ? mapPrismaRow(row) : null;
+}
+
+/** Shifts of all branches in the date range, except cancelled ones. */
+export async function listOpenShifts(
+  tenantId: string,
+  range: { from: string; to: string },
+  options: { branchIds?: number[]; statuses?: OpenShiftStatus[] } = {}
+): Promise<OpenShiftRow[]> {
+  const prisma = getPrisma();
+  const rows = await prisma.openShift.findMany({
+    where: {
+      branch: { tenantId },
+      dayDate: { gte: range.from, lte: range.to },
+      status: { in: options.statuses ?? ['open', 'claimed', 'filled'] },
+      ...(options.branchIds ? { branchId: { in: options.branchIds } } : {}),
+    },
+    orderBy: [{ dayDate: 'asc' }, { startTime: 'asc' }, { id: 'asc' }],
+  });
+  return rows.map(mapPrismaRow);
+}
+
+/**
+ * Moves a shift from one status to the next; the expected current status guards against two employees
+ * claiming the same shift at once.
+ */
+export async function transitionOpenShift(
+  tenantId: string,
+  input: {
+    id: number;
+    from: OpenShiftStatus[];
+    to: OpenShiftStatus;
+    claimedById?: number | null;
+  }
+): Promise<boolean> {
+  const prisma = getPrisma();
+  const now = new Date();
+  const updated = await prisma.openShift.updateMany({
+    where: { id: input.id, status: { in: input.from }, branch: { tenantId } },
+    data: {
+      status: input.to,
+      ...(input.claimedById !== undefined
+        ? { claimedById: input.claimedById, claimedAt: input.claimedById ? now.toISOString() : null }
+        : {}),
+      filledAt: input.to === 'filled' ? now.toISOString() : null,
+      updatedAt: now,
+    },
+  });
+  return updated.count > 0;
+}
+
+/** Active employees assigned to the branch, i.e. everyone who may claim its open shifts. */
+export async function listOpenShiftCandidates(
+  tenantId: string,
+  branchId: number
+): Promise<Array<{ id: number; first_name: string; last_name: string; email: string | null }>> {
+  const prisma = getPrisma();
+  const rows = await prisma.employee.findMany({
+    where: { tenantId, isActive: 1, employeeBranches: { some: { branchId } } },
+    select: { id: true, firstName: true, lastName: true, email: true },
+    orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }],
+  });
+  return rows.map((row) => ({
+    id: row.id,
+    first_name: row.firstName ?? '',
+    last_name: row.lastName ?? '',
+    email: row.email ?? null,
+  }));
+}
@@ -0,0 +1,74 @@
+import type { OvertimeCheckpoint } from '@prisma/client';
+
+import { getPrisma } from '@/lib/prisma';
+
+export interface OvertimeCheckpointRow {
+  id: number;
+  employee_id: number;
+  month: string;
+  balance_hours: number;
+  payout_bank_hours: number;
+}
+
+export interface OvertimeCheckpointInput {
+  month: string;
+  balanceHours: number;
+  payoutBankHours: number;
+}
+
+function mapRow(row: OvertimeCheckpoint): OvertimeCheckpointRow {
+  return {
+    id: row.id,
+    employee_id: row.employeeId,
+    month: row.month,
+    balance_hours: row.balanceHours,
+    payout_bank_hours: row.payoutBankHours,
+  };
+}
+
+export async function listOvertimeCheckpoints(employeeId: number): Promise<OvertimeCheckpointRow[]> {
+  const prisma = getPrisma();
+  const rows = await prisma.overtimeCheckpoint.findMany({
+    where: { employeeId },
+    orderBy: { month: 'asc' },
+  });
+  return rows.map(mapRow);
+}
+
+/** Latest checkpoint of a month before `month` (YYYY-MM). */
+export async function getOvertimeCheckpointBefore(
+  employeeId: number,
+  month: string
+): Promise<OvertimeCheckpointRow | null> {
+  const prisma = getPrisma();
+  const row = await prisma.overtimeCheckpoint.findFirst({
+    where: { employeeId, month: { lt: month } },
+    orderBy: { month: 'desc' },
+  });
+  return row ? mapRow(row) : null;
+}
+
+/** Replaces the checkpoints from `fromMonth` on; without `fromMonth`, all checkpoints of the employee. */
+export async function replaceOvertimeCheckpoints(
+  employeeId: number,
+  fromMonth: string | null,
+  checkpoints: OvertimeCheckpointInput[]
+): Promise<void> {
+  const prisma = getPrisma();
+  await prisma.$transaction(async (tx) => {
+    await tx.overtimeCheckpoint.deleteMany({
+      where: fromMonth ? { employeeId, month: { gte: fromMonth } } : { employeeId },
+    });
+    if (!checkpoints.length) {
+      return;
+    }
+    await tx.overtimeCheckpoint.createMany({
+      data: checkpoints.map((checkpoint) => ({
+        employeeId,
+        month: checkpoint.month,
+        balanceHours: checkpoint.balanceHours,
+        payoutBankHours: checkpoint.payoutBankHours,
+      })),
+    });
+  });
+}
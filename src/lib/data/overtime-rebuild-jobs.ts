@@ -0,0 +1,147 @@
+import type { OvertimeRebuildJob } from '@prisma/client';
+
+import { getPrisma } from '@/lib/prisma';
+
+export type OvertimeRebuildJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export type OvertimeRebuildFailure = {
+  employee_id: number;
+  error: string;
+};
+
+export type OvertimeRebuildJobRow = {
+  id: number;
+  tenant_id: string;
+  status: OvertimeRebuildJobStatus;
+  employee_count: number;
+  processed_count: number;
+  /** Employees whose replay failed; the job still finishes as done. */
+  failed: OvertimeRebuildFailure[];
+  /** Set when the job itself failed. */
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+};
+
+function parseFailures(value: string | null): OvertimeRebuildFailure[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed)
+      ? parsed.filter((entry): entry is OvertimeRebuildFailure => {
+          const candidate = entry as Partial<OvertimeRebuildFailure> | null;
+          return typeof candidate?.employee_id === 'number' && typeof candidate?.error === 'string';
+        })
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function mapPrismaRow(row: OvertimeRebuildJob): OvertimeRebuildJobRow {
+  return {
+    id: row.id,
+    tenant_id: row.tenantId,
+    status: row.status as OvertimeRebuildJobStatus,
+    employee_count: row.employeeCount,
+    processed_count: row.processedCount,
+    failed: parseFailures(row.failedJson),
+    error: row.error ?? null,
+    created_at: row.createdAt.toISOString(),
+    started_at: row.startedAt?.toISOString() ?? null,
+    finished_at: row.finishedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Queues a rebuild for the tenant. `activeTenantId` is unique, so the insert fails while another job of the
+ * tenant is queued or running, also when several instances enqueue at the same time. Returns null in that case.
+ */
+export async function enqueueOvertimeRebuildJob(tenantId: string): Promise<OvertimeRebuildJobRow | null> {
+  const prisma = getPrisma();
+  try {
+    const row = await prisma.overtimeRebuildJob.create({
+      data: { tenantId, status: 'queued', activeTenantId: tenantId },
+    });
+    return mapPrismaRow(row);
+  } catch (error) {
+    const maybeCode =
+      typeof error === 'object' && error !== null && 'code' in error
+        ? String((error as { code?: unknown }).code ?? '')
+        : '';
+    if (maybeCode === 'P2002') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function getLatestOvertimeRebuildJob(tenantId: string): Promise<OvertimeRebuildJobRow | null> {
+  const prisma = getPrisma();
+  const row = await prisma.overtimeRebuildJob.findFirst({
+    where: { tenantId },
+    orderBy: { id: 'desc' },
+  });
+  return row ? mapPrismaRow(row) : null;
+}
+
+/** Claims the oldest queued job for this worker. Returns null when nothing is queued or another worker won. */
+export async function claimNextOvertimeRebuildJob(): Promise<OvertimeRebuildJobRow | null> {
+  const prisma = getPrisma();
+  const next = await prisma.overtimeRebuildJob.findFirst({
+    where: { status: 'queued' },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true },
+  });
+  if (!next) return null;
+  const claimed = await prisma.overtimeRebuildJob.updateMany({
+    where: { id: next.id, status: 'queued' },
+    data: { status: 'running', startedAt: new Date(), processedCount: 0 },
+  });
+  if (claimed.count === 0) return null;
+  const row = await prisma.overtimeRebuildJob.findUnique({ where: { id: next.id } });
+  return row ? mapPrismaRow(row) : null;
+}
+
+/** Records the progress of a running job; `updatedAt` doubles as its heartbeat. */
+export async function updateOvertimeRebuildJobProgress(
+  id: number,
+  progress: { employeeCount: number; processedCount: number }
+): Promise<void> {
+  const prisma = getPrisma();
+  await prisma.overtimeRebuildJob.updateMany({
+    where: { id, status: 'running' },
+    data: progress,
+  });
+}
+
+export async function finishOvertimeRebuildJob(
+  id: number,
+  result: { status: 'done' | 'failed'; failed: OvertimeRebuildFailure[]; error: string | null }
+): Promise<void> {
+  const prisma = getPrisma();
+  await prisma.overtimeRebuildJob.updateMany({
+    where: { id, status: 'running' },
+    data: {
+      status: result.status,
+      activeTenantId: null,
+      failedJson: result.failed.length ? JSON.stringify(result.failed) : null,
+      error: result.error,
+      finishedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Puts running jobs without a heartbeat since `staleBefore` back into the queue, e.g. after the instance running
+ * them was restarted. The replay is idempotent, so the next worker simply starts over.
+ */
+export async function requeueStaleOvertimeRebuildJobs(staleBefore: Date): Promise<number> {
+  const prisma = getPrisma();
+  const requeued = await prisma.overtimeRebuildJob.updateMany({
+    where: { status: 'running', updatedAt: { lt: staleBefore } },
+    data: { status: 'queued', startedAt: null },
+  });
+  return requeued.count;
+}
@@ -0,0 +1,122 @@
+import { getPrisma } from '@/lib/prisma';
+
+export type OvertimeTrafficLightColor = 'green' | 'yellow' | 'red';
+
+export interface OvertimeTrafficLightRule {
+  /** Balance from which the account is yellow. */
+  yellowPlusHours: number;
+  /** Balance from which the account is red. */
+  redPlusHours: number;
+  /** Minus hours from which the account is yellow, as a positive value. */
+  yellowMinusHours: number;
+  /** Minus hours from which the account is red, as a positive value. */
+  redMinusHours: number;
+}
+
+export interface OvertimeTrafficLightSettings {
+  notifyByMail: boolean;
+  rule: OvertimeTrafficLightRule;
+  /** Rules of employee groups that deviate from the tenant rule, keyed by employment type. */
+  groupRules: Record<string, OvertimeTrafficLightRule>;
+}
+
+export interface OvertimeTrafficLightStateRow {
+  employee_id: number;
+  state: OvertimeTrafficLightColor;
+  balance_hours: number;
+  changed_at: string;
+}
+
+export const DEFAULT_OVERTIME_TRAFFIC_LIGHT_RULE: OvertimeTrafficLightRule = {
+  yellowPlusHours: 20,
+  redPlusHours: 40,
+  yellowMinusHours: 10,
+  redMinusHours: 20,
+};
+
+const COLORS: OvertimeTrafficLightColor[] = ['green', 'yellow', 'red'];
+
+function mapRule(row: OvertimeTrafficLightRule): OvertimeTrafficLightRule {
+  return {
+    yellowPlusHours: row.yellowPlusHours,
+    redPlusHours: row.redPlusHours,
+    yellowMinusHours: row.yellowMinusHours,
+    redMinusHours: row.redMinusHours,
+  };
+}
+
+export async function getOvertimeTrafficLightSettings(tenantId: string): Promise<OvertimeTrafficLightSettings> {
+  const prisma = getPrisma();
+  const [row, groupRows] = await Promise.all([
+    prisma.overtimeTrafficLightSettings.findUnique({ where: { tenantId } }),
+    prisma.overtimeTrafficLightGroupRule.findMany({ where: { tenantId } }),
+  ]);
+
+  const groupRules: Record<string, OvertimeTrafficLightRule> = {};
+  for (const groupRow of groupRows) {
+    groupRules[groupRow.employmentType] = mapRule(groupRow);
+  }
+
+  return {
+    notifyByMail: Boolean(row?.notifyByMail),
+    rule: row ? mapRule(row) : { ...DEFAULT_OVERTIME_TRAFFIC_LIGHT_RULE },
+    groupRules,
+  };
+}
+
+export async function saveOvertimeTrafficLightSettings(
+  tenantId: string,
+  settings: OvertimeTrafficLightSettings
+): Promise<void> {
+  const prisma = getPrisma();
+  const data = { notifyByMail: settings.notifyByMail ? 1 : 0, ...settings.rule };
+  const employmentTypes = Object.keys(settings.groupRules);
+
+  await prisma.$transaction(async (tx) => {
+    await tx.overtimeTrafficLightSettings.upsert({
+      where: { tenantId },
+      update: data,
+      create: { tenantId, ...data },
+    });
+    await tx.overtimeTrafficLightGroupRule.deleteMany({
+      where: { tenantId, employmentType: { notIn: employmentTypes } },
+    });
+    for (const employmentType of employmentTypes) {
+      const rule = settings.groupRules[employmentType]!;
+      await tx.overtimeTrafficLightGroupRule.upsert({
+        where: { tenantId_employmentType: { tenantId, employmentType } },
+        update: rule,
+        create: { tenantId, employmentType, ...rule },
+      });
+    }
+  });
+}
+
+export async function getOvertimeTrafficLightState(employeeId: number): Promise<OvertimeTrafficLightStateRow | null> {
+  const prisma = getPrisma();
+  const row = await prisma.overtimeTrafficLightState.findUnique({ where: { employeeId } });
+  if (!row) {
+    return null;
+  }
+  return {
+    employee_id: row.employeeId,
+    state: COLORS.includes(row.state as OvertimeTrafficLightColor) ? (row.state as OvertimeTrafficLightColor) : 'green',
+    balance_hours: row.balanceHours,
+    changed_at: row.changedAt.toISOString(),
+  };
+}
+
+/** `changedAt` only moves when the color changes; the balance is kept current on every call. */
+export async function saveOvertimeTrafficLightState(
+  employeeId: number,
+  state: OvertimeTrafficLightColor,
+  balanceHours: number,
+  changed: boolean
+): Promise<void> {
+  const prisma = getPrisma();
+  await prisma.overtimeTrafficLightState.upsert({
+    where: { employeeId },
+    update: { state, balanceHours, ...(changed ? { changedAt: new Date() } : {}) },
+    create: { employeeId, state, balanceHours },
+  });
+}
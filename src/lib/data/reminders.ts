@@ -121,3 +121,101 @@ export async function listReminderLogs(tenantId: string, limit = 12): Promise<Re
     sentAt: row.sentAt.toISOString(),
   }));
 }
+
+export async function listReminderTenantIds(): Promise<string[]> {
+  const prisma = getPrisma();
+  const rows = await prisma.reminderSettings.findMany({
+    where: { enabled: 1 },
+    select: { tenantId: true },
+    orderBy: { tenantId: 'asc' },
+  });
+  return Array.from(new Set(rows.map((row) => row.tenantId)));
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  const maybeCode =
+    typeof error === 'object' && error !== null && 'code' in error
+      ? String((error as { code?: unknown }).code ?? '')
+      : '';
+  return maybeCode === 'P2002';
+}
+
+/** Creates the log row of a reminder period unless it exists; it sums up the mails of the period. */
+export async function ensureReminderSendLog(tenantId: string, periodKey: string): Promise<void> {
+  const prisma = getPrisma();
+  try {
+    await prisma.reminderSendLog.create({
+      data: {
+        tenantId,
+        periodKey,
+        sentCount: 0,
+        errorCount: 0,
+        sentAt: new Date(),
+      },
+    });
+  } catch (error) {
+    if (!isUniqueViolation(error)) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Claims the reminder of one employee for a period. The composite primary key makes the claim atomic, so parallel
+ * dispatcher runs cannot mail the same employee twice; a failed mail can be claimed again. Returns false when the
+ * mail was already sent or another run is sending it.
+ */
+export async function claimReminderRecipient(
+  tenantId: string,
+  periodKey: string,
+  employeeId: number
+): Promise<boolean> {
+  const prisma = getPrisma();
+  try {
+    await prisma.reminderSendRecipient.create({
+      data: { tenantId, periodKey, employeeId, status: 'sending' },
+    });
+    return true;
+  } catch (error) {
+    if (!isUniqueViolation(error)) {
+      throw error;
+    }
+  }
+  const retried = await prisma.reminderSendRecipient.updateMany({
+    where: { tenantId, periodKey, employeeId, status: 'failed' },
+    data: { status: 'sending', error: null },
+  });
+  return retried.count > 0;
+}
+
+export async function finishReminderRecipient(
+  tenantId: string,
+  periodKey: string,
+  employeeId: number,
+  result: { status: 'sent' | 'failed'; error: string | null }
+): Promise<void> {
+  const prisma = getPrisma();
+  await prisma.reminderSendRecipient.updateMany({
+    where: { tenantId, periodKey, employeeId, status: 'sending' },
+    data: result,
+  });
+}
+
+/** Stores the sent and failed mails of the period in its log row. */
+export async function refreshReminderSendLog(tenantId: string, periodKey: string): Promise<void> {
+  const prisma = getPrisma();
+  const counts = await prisma.reminderSendRecipient.groupBy({
+    by: ['status'],
+    where: { tenantId, periodKey },
+    _count: { _all: true },
+  });
+  const countOf = (status: string) => counts.find((row) => row.status === status)?._count._all ?? 0;
+  await prisma.reminderSendLog.update({
+    where: { tenantId_periodKey: { tenantId, periodKey } },
+    data: {
+      sentCount: countOf('sent'),
+      errorCount: countOf('failed'),
+      sentAt: new Date(),
+    },
+  });
+}
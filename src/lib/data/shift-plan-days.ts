@@ -152,6 +152,33 @@ export async function upsertShiftPlanDays(employeeId: number, entries: ShiftPlan
   });
 }
 
+/** Replaces the segments of several plan days, of one or more employees, in one transaction. */
+export async function replaceShiftPlanDays(
+  days: Array<{ employeeId: number; dayDate: string; entries: ShiftPlanDayInput[] }>
+): Promise<void> {
+  if (!days.length) return;
+  const prisma = getPrisma();
+  await prisma.$transaction(async (tx) => {
+    for (const day of days) {
+      await tx.shiftPlanDay.deleteMany({ where: { employeeId: day.employeeId, dayDate: day.dayDate } });
+      if (!day.entries.length) continue;
+      await tx.shiftPlanDay.createMany({
+        data: day.entries.map((entry, index) => ({
+          employeeId: day.employeeId,
+          dayDate: day.dayDate,
+          segmentIndex: Math.max(0, Math.floor(Number(entry.segmentIndex ?? index) || 0)),
+          mode: entry.mode === 'unavailable' ? 'unavailable' : 'available',
+          startTime: sanitizeTime(entry.startTime),
+          endTime: sanitizeTime(entry.endTime),
+          requiredPauseMinutes: sanitizePause(entry.requiredPauseMinutes),
+          label: entry.label?.trim() || null,
+          branchId: entry.branchId ?? null,
+        })),
+      });
+    }
+  });
+}
+
 export async function deleteShiftPlanDays(employeeId: number, start: string, end: string): Promise<void> {
   const prisma = getPrisma();
   await prisma.shiftPlanDay.deleteMany({
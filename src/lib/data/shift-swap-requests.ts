@@ -0,0 +1,251 @@
+import type { ShiftSwapRequest } from '@prisma/client';
+
+import { getPrisma } from '@/lib/prisma';
+
+export type ShiftSwapKind = 'swap' | 'giveaway';
+
+/** open: offered to colleagues; pending: accepted and waiting for an admin. */
+export type ShiftSwapRequestStatus = 'open' | 'pending' | 'approved' | 'rejected';
+
+export type ShiftSwapShiftRow = {
+  day_date: string;
+  segment_index: number;
+  start_time: string;
+  end_time: string;
+  required_pause_minutes: number;
+  branch_id: number | null;
+};
+
+export type ShiftSwapRequestRow = {
+  id: number;
+  employee_id: number;
+  kind: ShiftSwapKind;
+  offered: ShiftSwapShiftRow;
+  note: string | null;
+  status: ShiftSwapRequestStatus;
+  accepted_by: number | null;
+  accepted_at: string | null;
+  returned: ShiftSwapShiftRow | null;
+  rule_violations: string[];
+  admin_note: string | null;
+  decided_by: number | null;
+  decided_at: string | null;
+  created_at: string;
+};
+
+export type CreateShiftSwapRequestInput = {
+  employeeId: number;
+  kind: ShiftSwapKind;
+  offered: ShiftSwapShiftRow;
+  note: string | null;
+};
+
+function parseViolations(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed) ? parsed.filter((entry): entry is string => typeof entry === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function mapPrismaRow(row: ShiftSwapRequest): ShiftSwapRequestRow {
+  return {
+    id: row.id,
+    employee_id: row.employeeId,
+    kind: row.kind === 'swap' ? 'swap' : 'giveaway',
+    offered: {
+      day_date: row.dayDate,
+      segment_index: row.segmentIndex,
+      start_time: row.startTime,
+      end_time: row.endTime,
+      required_pause_minutes: row.requiredPauseMinutes,
+      branch_id: row.branchId ?? null,
+    },
+    note: row.note ?? null,
+    status: row.status as ShiftSwapRequestStatus,
+    accepted_by: row.acceptedById ?? null,
+    accepted_at: row.acceptedAt ?? null,
+    returned:
+      row.returnDayDate && row.returnStartTime && row.returnEndTime
+        ? {
+            day_date: row.returnDayDate,
+            segment_index: row.returnSegmentIndex ?? 0,
+            start_time: row.returnStartTime,
+            end_time: row.returnEndTime,
+            required_pause_minutes: row.returnPauseMinutes ?? 0,
+            branch_id: row.returnBranchId ?? null,
+          }
+        : null,
+    rule_violations: parseViolations(row.ruleViolations),
+    admin_note: row.adminNote ?? null,
+    decided_by: row.decidedBy ?? null,
+    decided_at: row.decidedAt ?? null,
+    created_at: row.createdAt.toISOString(),
+  };
+}
+
+export async function createShiftSwapRequest(input: CreateShiftSwapRequestInput): Promise<number> {
+  const prisma = getPrisma();
+  const created = await prisma.shiftSwapRequest.create({
+    data: {
+      employeeId: input.employeeId,
+      kind: input.kind,
+      dayDate: input.offered.day_date,
+      segmentIndex: input.offered.segment_index,
+      startTime: input.offered.start_time,
+      endTime: input.offered.end_time,
+      requiredPauseMinutes: input.offered.required_pause_minutes,
+      branchId: input.offered.branch_id,
+      note: input.note,
+    },
+    select: { id: true },
+  });
+  return created.id;
+}
+
+export async function getShiftSwapRequestById(tenantId: string, id: number): Promise<ShiftSwapRequestRow | null> {
+  const prisma = getPrisma();
+  const row = await prisma.shiftSwapRequest.findFirst({ where: { id, employee: { tenantId } } });
+  return row ? mapPrismaRow(row) : null;
+}
+
+/** Open or pending request that already covers the shift segment. */
+export async function findActiveShiftSwapRequest(
+  employeeId: number,
+  dayDate: string,
+  segmentIndex: number
+): Promise<ShiftSwapRequestRow | null> {
+  const prisma = getPrisma();
+  const row = await prisma.shiftSwapRequest.findFirst({
+    where: { employeeId, dayDate, segmentIndex, status: { in: ['open', 'pending'] } },
+  });
+  return row ? mapPrismaRow(row) : null;
+}
+
+/** Offers still open from `fromDate` on, from all employees of the tenant. */
+export async function listOpenShiftSwapRequests(tenantId: string, fromDate: string): Promise<ShiftSwapRequestRow[]> {
+  const prisma = getPrisma();
+  const rows = await prisma.shiftSwapRequest.findMany({
+    where: { status: 'open', dayDate: { gte: fromDate }, employee: { tenantId } },
+    orderBy: [{ dayDate: 'asc' }, { startTime: 'asc' }, { id: 'asc' }],
+  });
+  return rows.map(mapPrismaRow);
+}
+
+/** Requests the employee offered or accepted, newest first. */
+export async function listShiftSwapRequestsForEmployee(
+  tenantId: string,
+  employeeId: number,
+  limit = 50
+): Promise<ShiftSwapRequestRow[]> {
+  const prisma = getPrisma();
+  const rows = await prisma.shiftSwapRequest.findMany({
+    where: { employee: { tenantId }, OR: [{ employeeId }, { acceptedById: employeeId }] },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: limit,
+  });
+  return rows.map(mapPrismaRow);
+}
+
+export async function listShiftSwapRequests(
+  tenantId: string,
+  status: ShiftSwapRequestStatus | 'all' = 'pending',
+  limit = 100
+): Promise<ShiftSwapRequestRow[]> {
+  const prisma = getPrisma();
+  const rows = await prisma.shiftSwapRequest.findMany({
+    where: status === 'all' ? { employee: { tenantId } } : { status, employee: { tenantId } },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: limit,
+  });
+  return rows.map(mapPrismaRow);
+}
+
+/** Records the colleague taking over an open offer; fails when someone else was faster. */
+export async function markShiftSwapRequestAccepted(
+  tenantId: string,
+  input: { id: number; acceptedById: number; returned: ShiftSwapShiftRow | null; ruleViolations: string[] }
+): Promise<void> {
+  const prisma = getPrisma();
+  const updated = await prisma.shiftSwapRequest.updateMany({
+    where: { id: input.id, status: 'open', employee: { tenantId } },
+    data: {
+      status: 'pending',
+      acceptedById: input.acceptedById,
+      acceptedAt: new Date().toISOString(),
+      returnDayDate: input.returned?.day_date ?? null,
+      returnSegmentIndex: input.returned?.segment_index ?? null,
+      returnStartTime: input.returned?.start_time ?? null,
+      returnEndTime: input.returned?.end_time ?? null,
+      returnPauseMinutes: input.returned?.required_pause_minutes ?? null,
+      returnBranchId: input.returned?.branch_id ?? null,
+      ruleViolations: input.ruleViolations.length ? JSON.stringify(input.ruleViolations) : null,
+      updatedAt: new Date(),
+    },
+  });
+  if (updated.count === 0) {
+    throw new Error('Das Angebot ist nicht mehr offen.');
+  }
+}
+
+export async function updateShiftSwapRequestStatus(
+  tenantId: string,
+  input: {
+    id: number;
+    status: Exclude<ShiftSwapRequestStatus, 'open' | 'pending'>;
+    adminNote?: string | null;
+    decidedBy?: number | null;
+  }
+): Promise<void> {
+  const prisma = getPrisma();
+  const updated = await prisma.shiftSwapRequest.updateMany({
+    where: { id: input.id, status: 'pending', employee: { tenantId } },
+    data: {
+      status: input.status,
+      adminNote: input.adminNote ?? null,
+      decidedBy: input.decidedBy ?? null,
+      decidedAt: new Date().toISOString(),
+      updatedAt: new Date(),
+    },
+  });
+  if (updated.count === 0) {
+    throw new Error('Die Tauschanfrage wurde nicht gefunden oder ist bereits entschieden.');
+  }
+}
+
+/** Puts an approval back to pending when the plan could not be changed after the request was claimed. */
+export async function reopenShiftSwapRequest(tenantId: string, id: number): Promise<void> {
+  const prisma = getPrisma();
+  await prisma.shiftSwapRequest.updateMany({
+    where: { id, status: 'approved', employee: { tenantId } },
+    data: { status: 'pending', adminNote: null, decidedBy: null, decidedAt: null, updatedAt: new Date() },
+  });
+}
+
+/** Employees can only withdraw their own open offers; admins may delete any request. */
+export async function deleteShiftSwapRequest(tenantId: string, id: number, employeeId?: number): Promise<void> {
+  const prisma = getPrisma();
+  const deleted = await prisma.shiftSwapRequest.deleteMany({
+    where: { id, employee: { tenantId }, ...(employeeId ? { employeeId, status: 'open' } : {}) },
+  });
+  if (deleted.count === 0) {
+    throw new Error('Die Tauschanfrage wurde nicht gefunden.');
+  }
+}
+
+export async function getShiftSwapAutoApprove(tenantId: string): Promise<boolean> {
+  const prisma = getPrisma();
+  const row = await prisma.shiftSwapSettings.findUnique({ where: { tenantId } });
+  return Boolean(row?.autoApprove);
+}
+
+export async function saveShiftSwapAutoApprove(tenantId: string, autoApprove: boolean): Promise<void> {
+  const prisma = getPrisma();
+  await prisma.shiftSwapSettings.upsert({
+    where: { tenantId },
+    update: { autoApprove: autoApprove ? 1 : 0 },
+    create: { tenantId, autoApprove: autoApprove ? 1 : 0 },
+  });
+}
@@ -0,0 +1,210 @@
+import type { SickLeaveEpisode, SickLeaveShiftPlanBackup } from '@prisma/client';
+
+import { getPrisma } from '@/lib/prisma';
+
+export type SickLeaveEpisodeRow = {
+  id: number;
+  employee_id: number;
+  start_date: string;
+  end_date: string | null;
+  certificate_received_at: string | null;
+  continues_episode_id: number | null;
+  document_file_name: string | null;
+  note: string | null;
+  reported_by_employee: number;
+  created_at: string;
+  updated_at: string;
+};
+
+export type SaveSickLeaveEpisodeInput = {
+  employeeId: number;
+  startDate: string;
+  endDate: string | null;
+  certificateReceivedAt: string | null;
+  continuesEpisodeId: number | null;
+  documentFileName: string | null;
+  note: string | null;
+  reportedByEmployee?: boolean;
+};
+
+export type SickLeaveShiftPlanBackupRow = {
+  id: number;
+  episode_id: number;
+  day_date: string;
+  segment_index: number;
+  mode: 'available' | 'unavailable';
+  start_time: string | null;
+  end_time: string | null;
+  required_pause_minutes: number;
+  label: string | null;
+  branch_id: number | null;
+};
+
+export type SickLeaveShiftPlanBackupInput = {
+  dayDate: string;
+  segmentIndex: number;
+  mode: 'available' | 'unavailable';
+  startTime: string | null;
+  endTime: string | null;
+  requiredPauseMinutes: number;
+  label: string | null;
+  branchId: number | null;
+};
+
+function mapPrismaRow(row: SickLeaveEpisode): SickLeaveEpisodeRow {
+  return {
+    id: row.id,
+    employee_id: row.employeeId,
+    start_date: row.startDate,
+    end_date: row.endDate ?? null,
+    certificate_received_at: row.certificateReceivedAt ?? null,
+    continues_episode_id: row.continuesEpisodeId ?? null,
+    document_file_name: row.documentFileName ?? null,
+    note: row.note ?? null,
+    reported_by_employee: row.reportedByEmployee ?? 0,
+    created_at: row.createdAt.toISOString(),
+    updated_at: row.updatedAt.toISOString(),
+  };
+}
+
+function mapBackupRow(row: SickLeaveShiftPlanBackup): SickLeaveShiftPlanBackupRow {
+  return {
+    id: row.id,
+    episode_id: row.episodeId,
+    day_date: row.dayDate,
+    segment_index: row.segmentIndex,
+    mode: row.mode === 'unavailable' ? 'unavailable' : 'available',
+    start_time: row.startTime ?? null,
+    end_time: row.endTime ?? null,
+    required_pause_minutes: row.requiredPauseMinutes ?? 0,
+    label: row.label ?? null,
+    branch_id: row.branchId ?? null,
+  };
+}
+
+export async function listSickLeaveEpisodesForEmployee(
+  tenantId: string,
+  employeeId: number
+): Promise<SickLeaveEpisodeRow[]> {
+  const prisma = getPrisma();
+  const rows = await prisma.sickLeaveEpisode.findMany({
+    where: { employeeId, employee: { tenantId } },
+    orderBy: [{ startDate: 'asc' }, { id: 'asc' }],
+  });
+  return rows.map(mapPrismaRow);
+}
+
+/** Episodes of all employees that were still running on or after `sinceIso`. */
+export async function listSickLeaveEpisodesSince(tenantId: string, sinceIso: string): Promise<SickLeaveEpisodeRow[]> {
+  const prisma = getPrisma();
+  const rows = await prisma.sickLeaveEpisode.findMany({
+    where: {
+      employee: { tenantId },
+      OR: [{ endDate: null }, { endDate: { gte: sinceIso } }],
+    },
+    orderBy: [{ employeeId: 'asc' }, { startDate: 'asc' }, { id: 'asc' }],
+  });
+  return rows.map(mapPrismaRow);
+}
+
+export async function getSickLeaveEpisodeById(tenantId: string, id: number): Promise<SickLeaveEpisodeRow | null> {
+  const prisma = getPrisma();
+  const row = await prisma.sickLeaveEpisode.findFirst({ where: { id, employee: { tenantId } } });
+  return row ? mapPrismaRow(row) : null;
+}
+
+export async function createSickLeaveEpisode(input: SaveSickLeaveEpisodeInput): Promise<number> {
+  const prisma = getPrisma();
+  const created = await prisma.sickLeaveEpisode.create({
+    data: {
+      employeeId: input.employeeId,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      certificateReceivedAt: input.certificateReceivedAt,
+      continuesEpisodeId: input.continuesEpisodeId,
+      documentFileName: input.documentFileName,
+      note: input.note,
+      reportedByEmployee: input.reportedByEmployee ? 1 : 0,
+    },
+    select: { id: true },
+  });
+  return created.id;
+}
+
+export async function updateSickLeaveEpisode(
+  tenantId: string,
+  id: number,
+  input: Omit<SaveSickLeaveEpisodeInput, 'employeeId'>
+): Promise<void> {
+  const prisma = getPrisma();
+  const updated = await prisma.sickLeaveEpisode.updateMany({
+    where: { id, employee: { tenantId } },
+    data: {
+      startDate: input.startDate,
+      endDate: input.endDate,
+      certificateReceivedAt: input.certificateReceivedAt,
+      continuesEpisodeId: input.continuesEpisodeId,
+      documentFileName: input.documentFileName,
+      note: input.note,
+      ...(input.reportedByEmployee === undefined ? {} : { reportedByEmployee: input.reportedByEmployee ? 1 : 0 }),
+      updatedAt: new Date(),
+    },
+  });
+  if (updated.count === 0) {
+    throw new Error('Die Krankmeldung wurde nicht gefunden.');
+  }
+}
+
+export async function deleteSickLeaveEpisode(tenantId: string, id: number): Promise<void> {
+  const prisma = getPrisma();
+  const deleted = await prisma.sickLeaveEpisode.deleteMany({ where: { id, employee: { tenantId } } });
+  if (deleted.count === 0) {
+    throw new Error('Die Krankmeldung wurde nicht gefunden.');
+  }
+}
+
+export async function listSickLeaveShiftPlanBackups(
+  tenantId: string,
+  episodeId: number
+): Promise<SickLeaveShiftPlanBackupRow[]> {
+  const prisma = getPrisma();
+  const rows = await prisma.sickLeaveShiftPlanBackup.findMany({
+    where: { episodeId, episode: { employee: { tenantId } } },
+    orderBy: [{ dayDate: 'asc' }, { segmentIndex: 'asc' }],
+  });
+  return rows.map(mapBackupRow);
+}
+
+export async function createSickLeaveShiftPlanBackups(
+  episodeId: number,
+  entries: SickLeaveShiftPlanBackupInput[]
+): Promise<void> {
+  if (!entries.length) return;
+  const prisma = getPrisma();
+  await prisma.sickLeaveShiftPlanBackup.createMany({
+    data: entries.map((entry) => ({
+      episodeId,
+      dayDate: entry.dayDate,
+      segmentIndex: entry.segmentIndex,
+      mode: entry.mode,
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+      requiredPauseMinutes: entry.requiredPauseMinutes,
+      label: entry.label,
+      branchId: entry.branchId,
+    })),
+    skipDuplicates: true,
+  });
+}
+
+export async function deleteSickLeaveShiftPlanBackups(
+  tenantId: string,
+  episodeId: number,
+  dayDates: string[]
+): Promise<void> {
+  if (!dayDates.length) return;
+  const prisma = getPrisma();
+  await prisma.sickLeaveShiftPlanBackup.deleteMany({
+    where: { episodeId, dayDate: { in: dayDates }, episode: { employee: { tenantId } } },
+  });
+}
@@ -0,0 +1,70 @@
+import type { StaffingRequirement } from '@prisma/client';
+
+import { getPrisma } from '@/lib/prisma';
+
+export type StaffingRequirementRow = {
+  id: number;
+  branch_id: number;
+  /** 0 = Monday; null for date overrides. */
+  weekday: number | null;
+  date: string | null;
+  starts_at_minutes: number;
+  ends_at_minutes: number;
+  min_staff: number;
+};
+
+export type StaffingRequirementInput = {
+  weekday: number | null;
+  date: string | null;
+  startsAtMinutes: number;
+  endsAtMinutes: number;
+  minStaff: number;
+};
+
+function mapRow(row: StaffingRequirement): StaffingRequirementRow {
+  return {
+    id: row.id,
+    branch_id: row.branchId,
+    weekday: row.weekday ?? null,
+    date: row.date ?? null,
+    starts_at_minutes: row.startsAtMinutes,
+    ends_at_minutes: row.endsAtMinutes,
+    min_staff: row.minStaff,
+  };
+}
+
+/** Weekday windows and the date overrides between both dates; without a range all overrides are returned. */
+export async function listStaffingRequirements(
+  tenantId: string,
+  range?: { from: string; to: string }
+): Promise<StaffingRequirementRow[]> {
+  const prisma = getPrisma();
+  const rows = await prisma.staffingRequirement.findMany({
+    where: {
+      branch: { tenantId },
+      ...(range ? { OR: [{ date: null }, { date: { gte: range.from, lte: range.to } }] } : {}),
+    },
+    orderBy: [{ branchId: 'asc' }, { date: 'asc' }, { weekday: 'asc' }, { startsAtMinutes: 'asc' }],
+  });
+  return rows.map(mapRow);
+}
+
+export async function replaceBranchStaffingRequirements(
+  tenantId: string,
+  branchId: number,
+  requirements: StaffingRequirementInput[]
+): Promise<void> {
+  const prisma = getPrisma();
+  const branch = await prisma.branch.findFirst({ where: { id: branchId, tenantId }, select: { id: true } });
+  if (!branch) {
+    throw new Error('Standort wurde nicht gefunden.');
+  }
+  await prisma.$transaction(async (tx) => {
+    await tx.staffingRequirement.deleteMany({ where: { branchId } });
+    if (requirements.length) {
+      await tx.staffingRequirement.createMany({
+        data: requirements.map((requirement) => ({ branchId, ...requirement })),
+      });
+    }
+  });
+}
@@ -0,0 +1,60 @@
+import { getPrisma } from '@/lib/prisma';
+
+export interface SurchargeSettings {
+  enabled: boolean;
+  nightStart: string;
+  nightEnd: string;
+  nightPercent: number;
+  sundayPercent: number;
+  holidayPercent: number;
+  /** Used for employees without their own federal state, e.g. "DE-NW". */
+  holidayRegion: string | null;
+}
+
+export const DEFAULT_SURCHARGE_SETTINGS: SurchargeSettings = {
+  enabled: false,
+  nightStart: '20:00',
+  nightEnd: '06:00',
+  nightPercent: 25,
+  sundayPercent: 50,
+  holidayPercent: 125,
+  holidayRegion: null,
+};
+
+export async function getSurchargeSettings(tenantId: string): Promise<SurchargeSettings> {
+  const prisma = getPrisma();
+  const row = await prisma.surchargeSettings.findUnique({ where: { tenantId } });
+
+  if (!row) {
+    return { ...DEFAULT_SURCHARGE_SETTINGS };
+  }
+
+  return {
+    enabled: Boolean(row.enabled),
+    nightStart: row.nightStart || DEFAULT_SURCHARGE_SETTINGS.nightStart,
+    nightEnd: row.nightEnd || DEFAULT_SURCHARGE_SETTINGS.nightEnd,
+    nightPercent: row.nightPercent,
+    sundayPercent: row.sundayPercent,
+    holidayPercent: row.holidayPercent,
+    holidayRegion: row.holidayRegion ?? null,
+  };
+}
+
+export async function saveSurchargeSettings(tenantId: string, settings: SurchargeSettings): Promise<void> {
+  const prisma = getPrisma();
+  const data = {
+    enabled: settings.enabled ? 1 : 0,
+    nightStart: settings.nightStart,
+    nightEnd: settings.nightEnd,
+    nightPercent: settings.nightPercent,
+    sundayPercent: settings.sundayPercent,
+    holidayPercent: settings.holidayPercent,
+    holidayRegion: settings.holidayRegion,
+  };
+
+  await prisma.surchargeSettings.upsert({
+    where: { tenantId },
+    update: data,
+    create: { tenantId, ...data },
+  });
+}
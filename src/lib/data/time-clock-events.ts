@@ -0,0 +1,91 @@
+import type { TimeClockEvent } from '@prisma/client';
+
+import { getPrisma } from '@/lib/prisma';
+
+export type TimeClockEventType = 'arrive' | 'break_start' | 'break_end' | 'leave';
+
+export interface TimeClockEventRow {
+  id: number;
+  tenantId: string;
+  employeeId: number;
+  branchId: number | null;
+  dayDate: string;
+  eventType: TimeClockEventType;
+  time: string;
+  stampedAt: string;
+}
+
+const EVENT_TYPES = new Set<TimeClockEventType>(['arrive', 'break_start', 'break_end', 'leave']);
+
+function normalizeEventType(value: string): TimeClockEventType {
+  return EVENT_TYPES.has(value as TimeClockEventType) ? (value as TimeClockEventType) : 'arrive';
+}
+
+function mapRow(row: TimeClockEvent): TimeClockEventRow {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    employeeId: row.employeeId,
+    branchId: row.branchId ?? null,
+    dayDate: row.dayDate,
+    eventType: normalizeEventType(row.eventType),
+    time: row.time,
+    stampedAt: row.stampedAt.toISOString(),
+  };
+}
+
+export async function createTimeClockEvent(input: {
+  tenantId: string;
+  employeeId: number;
+  branchId: number | null;
+  dayDate: string;
+  eventType: TimeClockEventType;
+  time: string;
+  stampedAt: Date;
+}): Promise<TimeClockEventRow> {
+  const prisma = getPrisma();
+  const created = await prisma.timeClockEvent.create({
+    data: {
+      tenantId: input.tenantId,
+      employeeId: input.employeeId,
+      branchId: input.branchId,
+      dayDate: input.dayDate,
+      eventType: input.eventType,
+      time: input.time,
+      stampedAt: input.stampedAt,
+    },
+  });
+  return mapRow(created);
+}
+
+/** Removes a stamp whose time entry could not be saved, so the day is not left with an orphaned event. */
+export async function deleteTimeClockEvent(tenantId: string, id: number): Promise<void> {
+  const prisma = getPrisma();
+  await prisma.timeClockEvent.deleteMany({ where: { id, tenantId } });
+}
+
+export async function listTimeClockEventsForDay(
+  tenantId: string,
+  employeeId: number,
+  dayDate: string
+): Promise<TimeClockEventRow[]> {
+  const prisma = getPrisma();
+  const rows = await prisma.timeClockEvent.findMany({
+    where: { tenantId, employeeId, dayDate },
+    orderBy: [{ stampedAt: 'asc' }, { id: 'asc' }],
+  });
+  return rows.map(mapRow);
+}
+
+export async function listTimeClockEventsForBranchDay(
+  tenantId: string,
+  branchId: number,
+  dayDate: string
+): Promise<TimeClockEventRow[]> {
+  const prisma = getPrisma();
+  const rows = await prisma.timeClockEvent.findMany({
+    where: { tenantId, branchId, dayDate },
+    orderBy: [{ employeeId: 'asc' }, { stampedAt: 'asc' }, { id: 'asc' }],
+  });
+  return rows.map(mapRow);
+}
@@ -0,0 +1,179 @@
+import type { TimeCorrectionRequest } from '@prisma/client';
+
+import type { DailyDaySnapshot } from '@/lib/data/daily-day-history';
+import { getPrisma } from '@/lib/prisma';
+import type { WorkSegment } from '@/lib/services/time-calculations';
+
+export type TimeCorrectionRequestStatus = 'pending' | 'approved' | 'rejected';
+
+/** Values the employee wants the day to have; the same fields an admin can enter. */
+export interface TimeCorrectionProposal {
+  segments: WorkSegment[];
+  pause: string | null;
+  code: string | null;
+  mittag: string | null;
+  bemerkungen: string | null;
+}
+
+export type TimeCorrectionRequestRow = {
+  id: number;
+  employee_id: number;
+  day_date: string;
+  reason: string;
+  proposed: TimeCorrectionProposal;
+  /** The day as it was when the request was submitted; null when there was no entry. */
+  current: DailyDaySnapshot | null;
+  status: TimeCorrectionRequestStatus;
+  admin_note: string | null;
+  decided_by: number | null;
+  decided_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type CreateTimeCorrectionRequestInput = {
+  employeeId: number;
+  dayDate: string;
+  reason: string;
+  proposed: TimeCorrectionProposal;
+  current: DailyDaySnapshot | null;
+};
+
+const EMPTY_PROPOSAL: TimeCorrectionProposal = {
+  segments: [],
+  pause: null,
+  code: null,
+  mittag: null,
+  bemerkungen: null,
+};
+
+function parseJson<T>(value: string | null): T | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+function mapPrismaRow(row: TimeCorrectionRequest): TimeCorrectionRequestRow {
+  return {
+    id: row.id,
+    employee_id: row.employeeId,
+    day_date: row.dayDate,
+    reason: row.reason,
+    proposed: { ...EMPTY_PROPOSAL, ...parseJson<TimeCorrectionProposal>(row.proposed) },
+    current: parseJson<DailyDaySnapshot>(row.current),
+    status: row.status as TimeCorrectionRequestStatus,
+    admin_note: row.adminNote ?? null,
+    decided_by: row.decidedBy ?? null,
+    decided_at: row.decidedAt ?? null,
+    created_at: row.createdAt.toISOString(),
+    updated_at: row.updatedAt.toISOString(),
+  };
+}
+
+export async function createTimeCorrectionRequest(input: CreateTimeCorrectionRequestInput): Promise<number> {
+  const prisma = getPrisma();
+  const created = await prisma.timeCorrectionRequest.create({
+    data: {
+      employeeId: input.employeeId,
+      dayDate: input.dayDate,
+      reason: input.reason,
+      proposed: JSON.stringify(input.proposed),
+      current: input.current ? JSON.stringify(input.current) : null,
+    },
+    select: { id: true },
+  });
+  return created.id;
+}
+
+export async function getTimeCorrectionRequestById(
+  tenantId: string,
+  id: number
+): Promise<TimeCorrectionRequestRow | null> {
+  const prisma = getPrisma();
+  const row = await prisma.timeCorrectionRequest.findFirst({ where: { id, employee: { tenantId } } });
+  return row ? mapPrismaRow(row) : null;
+}
+
+export async function findPendingTimeCorrectionRequest(
+  employeeId: number,
+  dayDate: string
+): Promise<TimeCorrectionRequestRow | null> {
+  const prisma = getPrisma();
+  const row = await prisma.timeCorrectionRequest.findFirst({ where: { employeeId, dayDate, status: 'pending' } });
+  return row ? mapPrismaRow(row) : null;
+}
+
+export async function listTimeCorrectionRequestsForEmployee(
+  tenantId: string,
+  employeeId: number,
+  limit = 50
+): Promise<TimeCorrectionRequestRow[]> {
+  const prisma = getPrisma();
+  const rows = await prisma.timeCorrectionRequest.findMany({
+    where: { employeeId, employee: { tenantId } },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: limit,
+  });
+  return rows.map(mapPrismaRow);
+}
+
+export async function listTimeCorrectionRequests(
+  tenantId: string,
+  status: TimeCorrectionRequestStatus | 'all' = 'pending',
+  limit = 100
+): Promise<TimeCorrectionRequestRow[]> {
+  const prisma = getPrisma();
+  const rows = await prisma.timeCorrectionRequest.findMany({
+    where: status === 'all' ? { employee: { tenantId } } : { status, employee: { tenantId } },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: limit,
+  });
+  return rows.map(mapPrismaRow);
+}
+
+export async function countPendingTimeCorrectionRequests(tenantId: string): Promise<number> {
+  const prisma = getPrisma();
+  return prisma.timeCorrectionRequest.count({ where: { status: 'pending', employee: { tenantId } } });
+}
+
+export async function updateTimeCorrectionRequestStatus(
+  tenantId: string,
+  input: { id: number; status: Exclude<TimeCorrectionRequestStatus, 'pending'>; adminNote?: string | null; decidedBy?: number | null }
+): Promise<void> {
+  const prisma = getPrisma();
+  const updated = await prisma.timeCorrectionRequest.updateMany({
+    where: { id: input.id, status: 'pending', employee: { tenantId } },
+    data: {
+      status: input.status,
+      adminNote: input.adminNote ?? null,
+      decidedBy: input.decidedBy ?? null,
+      decidedAt: new Date().toISOString(),
+      updatedAt: new Date(),
+    },
+  });
+  if (updated.count === 0) {
+    throw new Error('Der Korrekturantrag wurde nicht gefunden oder ist bereits entschieden.');
+  }
+}
+
+/** Puts an approval back to pending when the correction could not be applied after the request was claimed. */
+export async function reopenTimeCorrectionRequest(tenantId: string, id: number): Promise<void> {
+  const prisma = getPrisma();
+  await prisma.timeCorrectionRequest.updateMany({
+    where: { id, status: 'approved', employee: { tenantId } },
+    data: { status: 'pending', adminNote: null, decidedBy: null, decidedAt: null, updatedAt: new Date() },
+  });
+}
+
+export async function deleteTimeCorrectionRequest(tenantId: string, id: number, employeeId?: number): Promise<void> {
+  const prisma = getPrisma();
+  const deleted = await prisma.timeCorrectionRequest.deleteMany({
+    where: { id, employee: { tenantId }, ...(employeeId ? { employeeId, status: 'pending' } : {}) },
+  });
+  if (deleted.count === 0) {
+    throw new Error('Der Korrekturantrag wurde nicht gefunden.');
+  }
+}
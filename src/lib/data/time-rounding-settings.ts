@@ -0,0 +1,92 @@
+import { getPrisma } from '@/lib/prisma';
+
+export type TimeRoundingDirection = 'up' | 'down' | 'nearest';
+
+export interface TimeRoundingRule {
+  /** Granularity for Kommt stamps in minutes; 0 keeps the stamp as recorded. */
+  kommtMinutes: number;
+  kommtDirection: TimeRoundingDirection;
+  /** Granularity for Geht stamps in minutes; 0 keeps the stamp as recorded. */
+  gehtMinutes: number;
+  gehtDirection: TimeRoundingDirection;
+}
+
+export interface TimeRoundingSettings {
+  enabled: boolean;
+  rule: TimeRoundingRule;
+  /** Rules of branches that deviate from the tenant rule, keyed by branch id. */
+  branchRules: Record<number, TimeRoundingRule>;
+}
+
+export const TIME_ROUNDING_DIRECTIONS: TimeRoundingDirection[] = ['up', 'down', 'nearest'];
+
+export const DEFAULT_TIME_ROUNDING_RULE: TimeRoundingRule = {
+  kommtMinutes: 15,
+  kommtDirection: 'up',
+  gehtMinutes: 15,
+  gehtDirection: 'down',
+};
+
+function toDirection(value: string | null | undefined, fallback: TimeRoundingDirection): TimeRoundingDirection {
+  return TIME_ROUNDING_DIRECTIONS.includes(value as TimeRoundingDirection)
+    ? (value as TimeRoundingDirection)
+    : fallback;
+}
+
+function mapRule(row: {
+  kommtMinutes: number;
+  kommtDirection: string;
+  gehtMinutes: number;
+  gehtDirection: string;
+}): TimeRoundingRule {
+  return {
+    kommtMinutes: row.kommtMinutes,
+    kommtDirection: toDirection(row.kommtDirection, DEFAULT_TIME_ROUNDING_RULE.kommtDirection),
+    gehtMinutes: row.gehtMinutes,
+    gehtDirection: toDirection(row.gehtDirection, DEFAULT_TIME_ROUNDING_RULE.gehtDirection),
+  };
+}
+
+export async function getTimeRoundingSettings(tenantId: string): Promise<TimeRoundingSettings> {
+  const prisma = getPrisma();
+  const [row, branchRows] = await Promise.all([
+    prisma.timeRoundingSettings.findUnique({ where: { tenantId } }),
+    prisma.branchTimeRounding.findMany({ where: { branch: { tenantId } } }),
+  ]);
+
+  const branchRules: Record<number, TimeRoundingRule> = {};
+  for (const branchRow of branchRows) {
+    branchRules[branchRow.branchId] = mapRule(branchRow);
+  }
+
+  return {
+    enabled: Boolean(row?.enabled),
+    rule: row ? mapRule(row) : { ...DEFAULT_TIME_ROUNDING_RULE },
+    branchRules,
+  };
+}
+
+export async function saveTimeRoundingSettings(tenantId: string, settings: TimeRoundingSettings): Promise<void> {
+  const prisma = getPrisma();
+  const data = { enabled: settings.enabled ? 1 : 0, ...settings.rule };
+  const branchIds = Object.keys(settings.branchRules).map(Number);
+
+  await prisma.$transaction(async (tx) => {
+    await tx.timeRoundingSettings.upsert({
+      where: { tenantId },
+      update: data,
+      create: { tenantId, ...data },
+    });
+    await tx.branchTimeRounding.deleteMany({
+      where: { branch: { tenantId }, branchId: { notIn: branchIds } },
+    });
+    for (const branchId of branchIds) {
+      const rule = settings.branchRules[branchId]!;
+      await tx.branchTimeRounding.upsert({
+        where: { branchId },
+        update: rule,
+        create: { branchId, ...rule },
+      });
+    }
+  });
+}
@@ -0,0 +1,45 @@
+import { cookies } from 'next/headers';
+
+import { createTeamSessionToken, verifyTeamSession } from '@/lib/team-session';
+
+export const KIOSK_COOKIE = process.env.KIOSK_SESSION_COOKIE ?? 'sl_kiosk';
+export const KIOSK_SESSION_TTL_MS = 180 * 24 * 60 * 60 * 1000;
+
+export interface KioskSession {
+  tenantId: string;
+  branchId: number;
+  expiresAt: number;
+}
+
+/**
+ * A kiosk device (tablet at the counter) carries its own signed cookie bound to one
+ * tenant and branch. It grants PIN stamping only, never a user session.
+ */
+export async function createKioskSessionToken(
+  tenantId: string,
+  branchId: number,
+  expiresAt: number
+): Promise<string> {
+  return createTeamSessionToken({
+    username: `kiosk:${branchId}`,
+    app: 'KIOSK',
+    tenantId,
+    branchId,
+    expiresAt,
+  });
+}
+
+export async function getKioskSession(): Promise<KioskSession | null> {
+  const cookieStore = await cookies();
+  const cookieValue = cookieStore.get(KIOSK_COOKIE)?.value ?? null;
+  const payload = await verifyTeamSession(cookieValue);
+  if (!payload || payload.app !== 'KIOSK') {
+    return null;
+  }
+  const tenantId = typeof payload.tenantId === 'string' ? payload.tenantId.trim() : '';
+  const branchId = Number(payload.branchId);
+  if (!tenantId || !Number.isInteger(branchId) || branchId <= 0) {
+    return null;
+  }
+  return { tenantId, branchId, expiresAt: payload.expiresAt };
+}
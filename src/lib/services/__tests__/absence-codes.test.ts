@@ -0,0 +1,94 @@
+import type { AbsenceCodeRow } from '@/lib/data/absence-codes';
+import {
+  getCustomAbsenceCodeRules,
+  getVacationDayCodes,
+  isMealBlockedCode,
+  isNonRevenueCode,
+  mergeAbsenceCodeCatalog,
+} from '@/lib/services/absence-codes';
+import { recalculateOvertime } from '@/lib/services/overtime';
+
+function row(overrides: Partial<AbsenceCodeRow>): AbsenceCodeRow {
+  return {
+    id: 1,
+    tenant_id: 't1',
+    code: 'BS',
+    label: 'Berufsschule',
+    color: '#2563eb',
+    counts_as_worked: true,
+    reduces_vacation: false,
+    counts_as_sick: false,
+    blocks_meal: true,
+    range_eligible: true,
+    payroll_column: null,
+    is_active: true,
+    sort_order: 500,
+    ...overrides,
+  };
+}
+
+describe('mergeAbsenceCodeCatalog', () => {
+  it('applies tenant overrides to built-in codes without changing their behaviour', () => {
+    const catalog = mergeAbsenceCodeCatalog([
+      row({ code: 'U', label: 'Erholungsurlaub', reduces_vacation: false, payroll_column: 'Urlaub' }),
+    ]);
+    const vacation = catalog.find((entry) => entry.code === 'U');
+    expect(vacation).toMatchObject({
+      label: 'Erholungsurlaub',
+      reducesVacation: true,
+      payrollColumn: 'Urlaub',
+      builtIn: true,
+      customized: true,
+    });
+  });
+
+  it('appends custom codes and drives the lookups from their flags', () => {
+    const catalog = mergeAbsenceCodeCatalog([
+      row({ code: 'bs' }),
+      row({ code: 'SU', label: 'Sonderurlaub', reduces_vacation: true, blocks_meal: false }),
+    ]);
+    expect(catalog.map((entry) => entry.code)).toEqual(expect.arrayContaining(['BS', 'SU']));
+    expect(isMealBlockedCode(catalog, 'BS')).toBe(true);
+    expect(isMealBlockedCode(catalog, 'SU')).toBe(false);
+    expect(isNonRevenueCode(catalog, 'BS')).toBe(true);
+    expect(isNonRevenueCode(catalog, 'Ü')).toBe(false);
+    expect(Object.fromEntries(getVacationDayCodes(catalog))).toEqual({ U: 1, UH: 0.5, SU: 1 });
+  });
+});
+
+describe('recalculateOvertime with custom absence codes', () => {
+  const settings = { maxMinusHours: 10, maxOvertimeHours: 20 };
+  const catalog = mergeAbsenceCodeCatalog([
+    row({ code: 'BS' }),
+    row({ code: 'UA', label: 'Unbezahlt', counts_as_worked: false }),
+  ]);
+  const options = { customAbsenceCodes: getCustomAbsenceCodeRules(catalog) };
+
+  it('credits planned hours for a paid code without times', () => {
+    const result = recalculateOvertime(
+      [{ dayDate: '2026-04-01', planHours: 8, code: 'BS', overtimeDelta: -8 }],
+      settings,
+      options
+    );
+    expect(result.updatedDays[0]).toMatchObject({ overtimeDelta: 0, planHours: 8 });
+    expect(result.balanceHours).toBe(0);
+  });
+
+  it('clears the plan for an unpaid code without times', () => {
+    const result = recalculateOvertime(
+      [{ dayDate: '2026-04-01', planHours: 8, code: 'UA', overtimeDelta: -8 }],
+      settings,
+      options
+    );
+    expect(result.updatedDays[0]).toMatchObject({ overtimeDelta: 0, planHours: 0 });
+  });
+
+  it('counts recorded times as worked time', () => {
+    const result = recalculateOvertime(
+      [{ dayDate: '2026-04-01', planHours: 8, code: 'BS', kommt1: '08:00', geht1: '12:00', overtimeDelta: 0 }],
+      settings,
+      options
+    );
+    expect(result.updatedDays[0].overtimeDelta).toBe(-4);
+  });
+});
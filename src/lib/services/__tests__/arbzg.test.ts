@@ -0,0 +1,91 @@
+import {
+  evaluateArbzgCompliance,
+  mergeWorkDays,
+  workDaysFromPlan,
+  type ArbzgWorkDay,
+} from '@/lib/services/arbzg';
+
+function day(dayDate: string, kommt: string, geht: string, pause = 'Keine'): ArbzgWorkDay {
+  return { dayDate, segments: [{ kommt, geht }], pause, source: 'actual' };
+}
+
+const march = { start: '2025-03-01', end: '2025-03-31' };
+
+describe('evaluateArbzgCompliance', () => {
+  it('flags more than 10 net hours on one day', () => {
+    const violations = evaluateArbzgCompliance([day('2025-03-03', '06:00', '17:30', '45min')], march);
+    expect(violations.map((violation) => violation.rule)).toEqual(['daily_max']);
+  });
+
+  it('accepts exactly 10 net hours', () => {
+    const violations = evaluateArbzgCompliance([day('2025-03-03', '07:00', '17:45', '45min')], march);
+    expect(violations).toEqual([]);
+  });
+
+  it('flags less than 11 hours of rest, including after a night shift', () => {
+    const violations = evaluateArbzgCompliance(
+      [day('2025-03-03', '14:00', '23:00', '30min'), day('2025-03-04', '08:00', '12:00')],
+      march
+    );
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({ rule: 'rest_period', dayDate: '2025-03-04' });
+
+    const afterNight = evaluateArbzgCompliance(
+      [day('2025-03-07', '22:00', '06:00', '30min'), day('2025-03-08', '14:00', '18:00')],
+      march
+    );
+    expect(afterNight.map((violation) => violation.rule)).toEqual(['rest_period']);
+  });
+
+  it('only reports days inside the range', () => {
+    const violations = evaluateArbzgCompliance(
+      [day('2025-02-28', '06:00', '18:00', '30min'), day('2025-03-01', '04:00', '08:00')],
+      march
+    );
+    expect(violations.map((violation) => [violation.rule, violation.dayDate])).toEqual([
+      ['rest_period', '2025-03-01'],
+    ]);
+  });
+
+  it('flags a weekly average above 48 hours over six months', () => {
+    const days: ArbzgWorkDay[] = [];
+    for (let date = new Date('2024-10-01T00:00:00Z'); date <= new Date('2025-03-31T00:00:00Z'); ) {
+      if (date.getUTCDay() !== 0) {
+        days.push(day(date.toISOString().slice(0, 10), '08:00', '17:45', '45min'));
+      }
+      date.setUTCDate(date.getUTCDate() + 1);
+    }
+    const violations = evaluateArbzgCompliance(days, march);
+    expect(violations.filter((violation) => violation.rule === 'weekly_average')).toHaveLength(1);
+    expect(violations.filter((violation) => violation.rule === 'daily_max')).toHaveLength(0);
+  });
+
+  it('flags Sundays beyond the 15 that must stay free', () => {
+    const days: ArbzgWorkDay[] = [];
+    // 2025 has 52 Sundays, so the 38th worked Sunday is the first violation.
+    for (let date = new Date('2025-01-05T00:00:00Z'); days.length < 38; ) {
+      days.push(day(date.toISOString().slice(0, 10), '10:00', '14:00'));
+      date.setUTCDate(date.getUTCDate() + 7);
+    }
+    const violations = evaluateArbzgCompliance(days, { start: '2025-01-01', end: '2025-12-31' });
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({ rule: 'free_sundays', dayDate: days[37].dayDate });
+  });
+});
+
+describe('plan work days', () => {
+  it('ignores absence labels and lets recorded days win', () => {
+    const plan = workDaysFromPlan([
+      { day_date: '2025-03-03', mode: 'available', start_time: '08:00', end_time: '16:00', required_pause_minutes: 30, label: null },
+      { day_date: '2025-03-04', mode: 'available', start_time: '08:00', end_time: '16:00', required_pause_minutes: 0, label: 'Urlaub' },
+      { day_date: '2025-03-05', mode: 'unavailable', start_time: null, end_time: null, required_pause_minutes: 0, label: null },
+    ]);
+    expect(plan).toEqual([
+      { dayDate: '2025-03-03', segments: [{ kommt: '08:00', geht: '16:00' }], pause: '30min.', source: 'plan' },
+    ]);
+
+    const merged = mergeWorkDays([day('2025-03-03', '09:00', '12:00')], plan);
+    expect(merged).toHaveLength(1);
+    expect(merged[0].source).toBe('actual');
+  });
+});
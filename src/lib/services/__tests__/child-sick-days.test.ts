@@ -0,0 +1,67 @@
+import {
+  buildChildSickDayBalance,
+  countChildSickDays,
+  countEligibleChildren,
+  resolveChildSickDayRule,
+  statutoryChildSickDayRule,
+} from '@/lib/services/child-sick-days';
+
+describe('child sick day rules', () => {
+  it('uses the statutory values unless the tenant stored its own', () => {
+    expect(statutoryChildSickDayRule(2026)).toMatchObject({ perChildDays: 15, perParentCapDays: 35, singleParentCapDays: 70 });
+    expect(statutoryChildSickDayRule(2027)).toMatchObject({ perChildDays: 10, perParentCapDays: 25 });
+    const rule = resolveChildSickDayRule(2027, [
+      {
+        id: 1,
+        tenant_id: 't',
+        year: 2027,
+        per_child_days: 15,
+        per_parent_cap_days: 35,
+        single_parent_per_child_days: 30,
+        single_parent_cap_days: 70,
+      },
+    ]);
+    expect(rule).toMatchObject({ perChildDays: 15, customized: true });
+  });
+
+  it('counts children younger than twelve on at least one day of the year', () => {
+    expect(countEligibleChildren([2014, 2013, 2027], 2026)).toBe(1);
+  });
+});
+
+describe('buildChildSickDayBalance', () => {
+  it('caps the entitlement per parent and reports days beyond it', () => {
+    const balance = buildChildSickDayBalance({
+      year: 2026,
+      rule: statutoryChildSickDayRule(2026),
+      birthYears: [2016, 2018, 2020],
+      singleParent: false,
+      usedDays: 37,
+    });
+    expect(balance).toMatchObject({ eligibleChildren: 3, entitlementDays: 35, remainingDays: 0, exceededDays: 2 });
+  });
+
+  it('doubles the entitlement for single parents', () => {
+    const balance = buildChildSickDayBalance({
+      year: 2026,
+      rule: statutoryChildSickDayRule(2026),
+      birthYears: [2019],
+      singleParent: true,
+      usedDays: 4,
+    });
+    expect(balance).toMatchObject({ entitlementDays: 30, remainingDays: 26, exceededDays: 0 });
+  });
+
+  it('counts each child sick day once per year', () => {
+    const used = countChildSickDays(
+      [
+        { day_date: '2026-03-02', code: 'KK', child_sick_hours: 8 },
+        { day_date: '2026-03-03', code: 'KKR', child_sick_hours: 2.5 },
+        { day_date: '2026-03-04', code: 'RA', child_sick_hours: 0 },
+        { day_date: '2025-12-30', code: 'KK', child_sick_hours: 8 },
+      ],
+      2026
+    );
+    expect(used).toBe(2);
+  });
+});
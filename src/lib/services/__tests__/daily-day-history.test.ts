@@ -0,0 +1,88 @@
+import type { DailyDayHistoryRecord, DailyDaySnapshot } from '@/lib/data/daily-day-history';
+import { buildDailyDayHistoryItems, diffDailyDaySnapshots } from '@/lib/services/daily-day-history';
+
+function snapshot(overrides: Partial<DailyDaySnapshot> = {}): DailyDaySnapshot {
+  return {
+    day_date: '2026-03-10',
+    brutto: null,
+    kommt1: '08:00',
+    geht1: '16:30',
+    kommt2: null,
+    geht2: null,
+    segments: [{ kommt: '08:00', geht: '16:30' }],
+    pause: '30',
+    code: 'RA',
+    bemerkungen: null,
+    mittag: 'Nein',
+    schicht: '08:00-16:30',
+    sick_hours: 0,
+    child_sick_hours: 0,
+    short_work_hours: 0,
+    vacation_hours: 0,
+    holiday_hours: 0,
+    overtime_delta: 0,
+    plan_hours: 8,
+    forced_overflow: 0,
+    forced_overflow_real: 0,
+    required_pause_under6_minutes: 0,
+    ...overrides,
+  };
+}
+
+function historyRecord(id: number, overrides: Partial<DailyDayHistoryRecord> = {}): DailyDayHistoryRecord {
+  return {
+    id,
+    employee_id: 1,
+    day_date: '2026-03-10',
+    action: 'update',
+    source: 'admin',
+    actor_id: 7,
+    actor_name: 'Admin',
+    before: snapshot(),
+    after: snapshot({ pause: '45' }),
+    reverted_from_id: null,
+    created_at: '2026-03-11T08:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('diffDailyDaySnapshots', () => {
+  it('lists only the changed fields', () => {
+    const changes = diffDailyDaySnapshots(
+      snapshot(),
+      snapshot({ segments: [{ kommt: '08:00', geht: '17:00' }], overtime_delta: 0.5 })
+    );
+    expect(changes.map((change) => change.field)).toEqual(['segments', 'overtime_delta']);
+    expect(changes[1]).toMatchObject({ before: '0,00', after: '0,50' });
+  });
+
+  it('shows the raw stamps next to rounded times', () => {
+    const [change] = diffDailyDaySnapshots(
+      snapshot(),
+      snapshot({ segments: [{ kommt: '08:15', geht: '16:30', kommtRaw: '08:03' }] })
+    );
+    expect(change.after).toContain('gestempelt');
+    expect(change.after).toContain('08:03');
+  });
+
+  it('treats a missing day as empty', () => {
+    const changes = diffDailyDaySnapshots(null, snapshot());
+    expect(changes.every((change) => change.before === '—')).toBe(true);
+  });
+});
+
+describe('buildDailyDayHistoryItems', () => {
+  it('marks older versions as revertible but not the current one or deletions', () => {
+    const items = buildDailyDayHistoryItems([
+      historyRecord(3, { action: 'delete', after: null, day_date: '2026-03-12' }),
+      historyRecord(2),
+      historyRecord(1, { action: 'create', before: null }),
+    ]);
+    expect(items.map((item) => [item.id, item.revertible])).toEqual([
+      [3, false],
+      [2, false],
+      [1, true],
+    ]);
+    expect(items[1].changes).toHaveLength(1);
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  buildEarningsDays,
+  earningsLimitKind,
+  evaluateEarningsLimit,
+  statutoryEarningsLimitRule,
+  type EarningsDay,
+} from '@/lib/services/earnings-limits';
+import type { EmploymentContractVersion } from '@/lib/services/employment-contracts';
+
+const hourlyContract: EmploymentContractVersion = {
+  id: null,
+  validFrom: '2025-01-01',
+  validUntil: null,
+  weeklyHours: 10,
+  workdaysPerWeek: 2,
+  compensationType: 'hourly',
+  hourlyWage: 13.9,
+  monthlySalaryGross: null,
+  vacationDays: 8,
+  note: null,
+};
+
+function plannedDays(monthKey: string, count: number, hours: number): EarningsDay[] {
+  return Array.from({ length: count }, (_, index) => ({
+    isoDate: `${monthKey}-${String(index + 1).padStart(2, '0')}`,
+    hours,
+    source: 'plan' as const,
+  }));
+}
+
+describe('earnings limits', () => {
+  it('detects monitored employment types', () => {
+    expect(earningsLimitKind('Minijob')).toBe('minijob');
+    expect(earningsLimitKind('midijob')).toBe('midijob');
+    expect(earningsLimitKind('unbefristet')).toBeNull();
+  });
+
+  it('prefers recorded days over planned shifts', () => {
+    const days = buildEarningsDays(
+      [
+        {
+          day_date: '2026-06-02',
+          segments: [{ kommt: '08:00', geht: '12:00' }],
+          pause: 'Keine',
+          sick_hours: 0,
+          vacation_hours: 0,
+          holiday_hours: 0,
+        },
+      ],
+      [
+        {
+          day_date: '2026-06-02',
+          mode: 'available',
+          start_time: '08:00',
+          end_time: '14:00',
+          required_pause_minutes: 0,
+          label: null,
+        },
+        {
+          day_date: '2026-06-03',
+          mode: 'available',
+          start_time: '08:00',
+          end_time: '13:00',
+          required_pause_minutes: 0,
+          label: null,
+        },
+      ]
+    );
+    expect(days).toEqual([
+      { isoDate: '2026-06-02', hours: 4, source: 'actual' },
+      { isoDate: '2026-06-03', hours: 5, source: 'plan' },
+    ]);
+  });
+
+  it('flags the planned shift that passes the monthly Minijob limit', () => {
+    const evaluation = evaluateEarningsLimit({
+      kind: 'minijob',
+      rule: statutoryEarningsLimitRule(2026),
+      year: 2026,
+      days: plannedDays('2026-06', 10, 5),
+      contracts: [hourlyContract],
+      todayIso: '2026-05-15',
+    });
+    const june = evaluation.months[5]!;
+    expect(june.projectedEarnings).toBe(695);
+    // 9 × 5 h × 13,90 € = 625,50 € is the first total above 603 €.
+    expect(june.crossingDate).toBe('2026-06-09');
+    expect(evaluation.status).toBe('warning');
+  });
+
+  it('treats more than two months above the limit as exceeded', () => {
+    const evaluation = evaluateEarningsLimit({
+      kind: 'minijob',
+      rule: statutoryEarningsLimitRule(2026),
+      year: 2026,
+      days: ['2026-03', '2026-04', '2026-05'].flatMap((monthKey) => plannedDays(monthKey, 10, 5)),
+      contracts: [hourlyContract],
+      todayIso: '2026-01-15',
+    });
+    expect(evaluation.exceededMonths).toBe(3);
+    expect(evaluation.status).toBe('exceeded');
+  });
+
+  it('prorates a fixed salary regardless of hours', () => {
+    const evaluation = evaluateEarningsLimit({
+      kind: 'midijob',
+      rule: statutoryEarningsLimitRule(2026),
+      year: 2026,
+      days: [],
+      contracts: [{ ...hourlyContract, compensationType: 'fixed', hourlyWage: null, monthlySalaryGross: 1500 }],
+      todayIso: '2026-04-15',
+    });
+    expect(evaluation.months[3]).toMatchObject({ recordedEarnings: 750, plannedEarnings: 750, exceeded: false });
+    expect(evaluation.projectedAnnualEarnings).toBe(18000);
+    expect(evaluation.status).toBe('ok');
+  });
+});
@@ -0,0 +1,90 @@
+import type { EmployeeAvailabilityRow } from '@/lib/data/employee-availability';
+import {
+  describeAvailability,
+  findAvailabilityConflicts,
+  resolveAvailability,
+  sanitizeEmployeeAvailability,
+} from '@/lib/services/employee-availability';
+
+function row(overrides: Partial<EmployeeAvailabilityRow>): EmployeeAvailabilityRow {
+  return {
+    id: 1,
+    employee_id: 7,
+    weekday: 1,
+    date: null,
+    kind: 'unavailable',
+    starts_at_minutes: null,
+    ends_at_minutes: null,
+    note: null,
+    ...overrides,
+  };
+}
+
+describe('sanitizeEmployeeAvailability', () => {
+  it('normalizes weekday and dated entries', () => {
+    expect(
+      sanitizeEmployeeAvailability(
+        [
+          { weekday: '1', kind: 'unavailable', start: '', end: '', note: ' Uni ' },
+          { date: '2026-11-20', weekday: '3', kind: 'only', start: '6:00', end: '12:00' },
+        ],
+        '2026-11-01'
+      )
+    ).toEqual([
+      { weekday: 1, date: null, kind: 'unavailable', startsAtMinutes: null, endsAtMinutes: null, note: 'Uni' },
+      { weekday: null, date: '2026-11-20', kind: 'only', startsAtMinutes: 360, endsAtMinutes: 720, note: null },
+    ]);
+  });
+
+  it('rejects incomplete windows, past dates and "only" without a window', () => {
+    expect(() => sanitizeEmployeeAvailability([{ weekday: '0', kind: 'sometimes' }], '2026-11-01')).toThrow(
+      'Zeile 1: Bitte eine Art wählen.'
+    );
+    expect(() =>
+      sanitizeEmployeeAvailability([{ weekday: '0', kind: 'preferred', start: '08:00' }], '2026-11-01')
+    ).toThrow('Zeile 1: Bitte Start- und Endzeit angeben oder beide leer lassen.');
+    expect(() => sanitizeEmployeeAvailability([{ date: '2026-10-31', kind: 'unavailable' }], '2026-11-01')).toThrow(
+      'Zeile 1: Das Datum liegt in der Vergangenheit.'
+    );
+    expect(() => sanitizeEmployeeAvailability([{ weekday: '4', kind: 'only' }], '2026-11-01')).toThrow(
+      'Zeile 1: Bitte das Zeitfenster angeben, in dem du arbeiten kannst.'
+    );
+  });
+});
+
+describe('resolveAvailability', () => {
+  it('lets dated entries replace the weekday entries of the same kind', () => {
+    const weekly = row({ id: 1, weekday: 1 });
+    const wish = row({ id: 2, weekday: null, date: '2026-11-17', kind: 'preferred' });
+    const dayOff = row({ id: 3, weekday: null, date: '2026-11-17', starts_at_minutes: 480, ends_at_minutes: 720 });
+    expect(resolveAvailability([weekly, wish], '2026-11-17', 1)).toEqual([weekly, wish]);
+    expect(resolveAvailability([weekly, wish, dayOff], '2026-11-17', 1)).toEqual([wish, dayOff]);
+    expect(resolveAvailability([weekly, wish], '2026-11-24', 1)).toEqual([weekly]);
+    expect(resolveAvailability([weekly, wish], '2026-11-18', 2)).toEqual([]);
+  });
+});
+
+describe('findAvailabilityConflicts', () => {
+  const morning = { startMinutes: 360, endMinutes: 720 };
+  const evening = { startMinutes: 1020, endMinutes: 1320 };
+
+  it('flags shifts overlapping an unavailable window or the whole day', () => {
+    const wholeDay = row({});
+    const afternoon = row({ id: 2, starts_at_minutes: 840, ends_at_minutes: 1080 });
+    expect(findAvailabilityConflicts([wholeDay], [morning])).toEqual([wholeDay]);
+    expect(findAvailabilityConflicts([afternoon], [morning])).toEqual([]);
+    expect(findAvailabilityConflicts([afternoon], [evening])).toEqual([afternoon]);
+  });
+
+  it('flags shifts outside "only" windows and ignores wishes', () => {
+    const onlyMornings = row({ kind: 'only', starts_at_minutes: 360, ends_at_minutes: 720 });
+    const wish = row({ id: 2, kind: 'preferred', starts_at_minutes: 1020, ends_at_minutes: 1320 });
+    expect(findAvailabilityConflicts([onlyMornings, wish], [morning])).toEqual([]);
+    expect(findAvailabilityConflicts([onlyMornings, wish], [evening])).toEqual([onlyMornings]);
+    expect(findAvailabilityConflicts([onlyMornings], [{ startMinutes: 1320, endMinutes: 360 }])).toEqual([
+      onlyMornings,
+    ]);
+    expect(describeAvailability(onlyMornings)).toBe('Nur 06:00–12:00');
+    expect(describeAvailability(row({}))).toBe('Nicht verfügbar (ganztags)');
+  });
+});
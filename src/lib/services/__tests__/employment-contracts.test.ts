@@ -0,0 +1,89 @@
+import {
+  buildContractTimeline,
+  contractDailyTargetHours,
+  implicitContractVersions,
+  monthlyCompensationForPayroll,
+  resolveContractForDate,
+  vacationEntitlementSegments,
+  type EmploymentContractVersion,
+} from '@/lib/services/employment-contracts';
+
+function version(validFrom: string, overrides: Partial<EmploymentContractVersion> = {}): EmploymentContractVersion {
+  return {
+    id: null,
+    validFrom,
+    validUntil: null,
+    weeklyHours: 40,
+    workdaysPerWeek: 5,
+    compensationType: 'hourly',
+    hourlyWage: 15,
+    monthlySalaryGross: null,
+    vacationDays: 30,
+    note: null,
+    ...overrides,
+  };
+}
+
+describe('employment contract timeline', () => {
+  const timeline = buildContractTimeline([
+    version('2026-05-16', { weeklyHours: 30, hourlyWage: 16, vacationDays: 24 }),
+    version('2024-01-01'),
+  ]);
+
+  it('resolves the version in force on each day', () => {
+    expect(timeline.map((entry) => entry.validUntil)).toEqual(['2026-05-15', null]);
+    expect(contractDailyTargetHours(resolveContractForDate(timeline, '2026-05-15')!)).toBe(8);
+    expect(contractDailyTargetHours(resolveContractForDate(timeline, '2026-05-16')!)).toBe(6);
+    expect(resolveContractForDate(timeline, '2023-06-01')?.validFrom).toBe('2024-01-01');
+  });
+
+  it('derives vacation entitlement segments from versions that change vacation terms', () => {
+    const withWageChange = buildContractTimeline([
+      ...timeline,
+      version('2027-01-01', { weeklyHours: 30, hourlyWage: 17, vacationDays: 24 }),
+    ]);
+    expect(vacationEntitlementSegments(withWageChange)).toEqual([
+      { validFrom: '2024-01-01', annualDays: 30, workdaysPerWeek: 5 },
+      { validFrom: '2026-05-16', annualDays: 24, workdaysPerWeek: 5 },
+    ]);
+  });
+
+  it('prorates a fixed salary and uses the closing hourly wage for payroll', () => {
+    expect(monthlyCompensationForPayroll(timeline, 2026, 5)).toBe(16);
+
+    const salaried = buildContractTimeline([
+      version('2026-01-01', { compensationType: 'fixed', monthlySalaryGross: 3100, hourlyWage: null }),
+      version('2026-03-11', { compensationType: 'fixed', monthlySalaryGross: 2480, hourlyWage: null }),
+    ]);
+    expect(monthlyCompensationForPayroll(salaried, 2026, 3)).toBe(1000 + 1680);
+  });
+});
+
+describe('implicitContractVersions', () => {
+  const terms = {
+    weeklyHours: 20,
+    workdaysPerWeek: 5,
+    compensationType: 'hourly' as const,
+    hourlyWage: 15,
+    monthlySalaryGross: null,
+    vacationDays: 30,
+  };
+
+  it('keeps the recorded weekly hours of past periods instead of the current ones', () => {
+    const timeline = buildContractTimeline(
+      implicitContractVersions('2022-03-01', terms, [
+        { change_date: '2024-01-01', weekly_hours: 30 },
+        { change_date: '2022-06-01', weekly_hours: 40 },
+      ])
+    );
+    expect(timeline.map((entry) => [entry.validFrom, entry.weeklyHours])).toEqual([
+      ['2022-03-01', 40],
+      ['2022-06-01', 40],
+      ['2024-01-01', 30],
+    ]);
+    expect(resolveContractForDate(timeline, '2023-05-10')?.weeklyHours).toBe(40);
+    expect(implicitContractVersions('2022-03-01', terms, [])).toEqual([
+      { ...terms, id: null, validFrom: '2022-03-01', validUntil: null, note: null },
+    ]);
+  });
+});
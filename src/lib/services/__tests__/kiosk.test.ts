@@ -0,0 +1,70 @@
+import type { TimeClockEventRow, TimeClockEventType } from '@/lib/data/time-clock-events';
+import { allowedKioskActions, buildEntryTimesFromEvents, deriveClockState } from '@/lib/services/kiosk';
+
+function stamps(...entries: Array<[TimeClockEventType, string]>): TimeClockEventRow[] {
+  return entries.map(([eventType, time], index) => ({
+    id: index + 1,
+    tenantId: 't1',
+    employeeId: 1,
+    branchId: 1,
+    dayDate: '2025-03-03',
+    eventType,
+    time,
+    stampedAt: `2025-03-03T${time}:00.000Z`,
+  }));
+}
+
+describe('deriveClockState', () => {
+  it('follows arrive, break and leave stamps', () => {
+    expect(deriveClockState([]).status).toBe('off');
+    expect(deriveClockState(stamps(['arrive', '08:00'])).status).toBe('working');
+    expect(deriveClockState(stamps(['arrive', '08:00'], ['break_start', '12:00']))).toEqual({
+      status: 'break',
+      since: '12:00',
+      completedBlocks: 0,
+    });
+    expect(
+      deriveClockState(
+        stamps(['arrive', '08:00'], ['leave', '12:00'], ['arrive', '14:00'], ['leave', '18:00'], ['arrive', '19:00'])
+      )
+    ).toEqual({ status: 'working', since: '19:00', completedBlocks: 2 });
+  });
+
+  it('only offers actions matching the current state', () => {
+    expect(allowedKioskActions('off')).toEqual(['arrive']);
+    expect(allowedKioskActions('working')).toEqual(['break_start', 'leave']);
+    expect(allowedKioskActions('break')).toEqual(['break_end']);
+  });
+});
+
+describe('buildEntryTimesFromEvents', () => {
+  it('maps breaks to pause minutes and every re-entry to a new segment', () => {
+    const times = buildEntryTimesFromEvents(
+      stamps(
+        ['arrive', '08:00'],
+        ['break_start', '12:00'],
+        ['break_end', '12:30'],
+        ['leave', '14:00'],
+        ['arrive', '17:00'],
+        ['leave', '19:00'],
+        ['arrive', '20:00'],
+        ['leave', '21:00']
+      )
+    );
+    expect(times).toEqual({
+      segments: [
+        { kommt: '08:00', geht: '14:00' },
+        { kommt: '17:00', geht: '19:00' },
+        { kommt: '20:00', geht: '21:00' },
+      ],
+      pause: '30min.',
+    });
+  });
+
+  it('keeps an open block without end time', () => {
+    expect(buildEntryTimesFromEvents(stamps(['arrive', '09:15']))).toEqual({
+      segments: [{ kommt: '09:15', geht: null }],
+      pause: 'Keine',
+    });
+  });
+});
@@ -177,7 +177,9 @@ describe('leave-request shift orchestrator', () => {
       mode: 'unavailable',
     });
     expect(mocks.markLeaveRequestShiftPlanApplied).toHaveBeenCalledWith('tenant-a', row.id, true);
-    expect(mocks.recomputeLeaveRequestEmployeeOvertime).toHaveBeenCalledWith('tenant-a', row.employee_id);
+    expect(mocks.recomputeLeaveRequestEmployeeOvertime).toHaveBeenCalledWith('tenant-a', row.employee_id, [
+      row.start_date,
+    ]);
     expect(mocks.revalidatePath).toHaveBeenCalledWith('/mitarbeiter/schichtplan');
     expect(callLog.indexOf('replaceBackups')).toBeLessThan(callLog.indexOf('saveDay'));
     expect(callLog.indexOf('saveDay')).toBeLessThan(callLog.indexOf('syncDay'));
@@ -286,7 +288,9 @@ describe('leave-request shift orchestrator', () => {
     );
     expect(mocks.saveLeaveRequestShiftPlanDay).not.toHaveBeenCalled();
     expect(mocks.markLeaveRequestShiftPlanApplied).toHaveBeenCalledWith('tenant-a', row.id, true);
-    expect(mocks.recomputeLeaveRequestEmployeeOvertime).toHaveBeenCalledWith('tenant-a', row.employee_id);
+    expect(mocks.recomputeLeaveRequestEmployeeOvertime).toHaveBeenCalledWith('tenant-a', row.employee_id, [
+      row.start_date,
+    ]);
     expect(callLog.indexOf('saveSegments')).toBeLessThan(callLog.indexOf('syncSegments'));
     expect(callLog.indexOf('syncSegments')).toBeLessThan(callLog.indexOf('mark:true'));
   });
@@ -342,7 +346,9 @@ describe('leave-request shift orchestrator', () => {
     );
     expect(mocks.deleteLeaveRequestShiftPlanBackups).toHaveBeenCalledWith('tenant-a', row.id);
     expect(mocks.markLeaveRequestShiftPlanApplied).toHaveBeenCalledWith('tenant-a', row.id, false);
-    expect(mocks.recomputeLeaveRequestEmployeeOvertime).toHaveBeenCalledWith('tenant-a', row.employee_id);
+    expect(mocks.recomputeLeaveRequestEmployeeOvertime).toHaveBeenCalledWith('tenant-a', row.employee_id, [
+      row.start_date,
+    ]);
     expect(mocks.revalidatePath).toHaveBeenCalledWith('/mitarbeiter/schichtplan');
     expect(callLog.indexOf('saveSegments')).toBeLessThan(callLog.indexOf('syncSegments'));
     expect(callLog.indexOf('syncSegments')).toBeLessThan(callLog.indexOf('deleteBackups'));
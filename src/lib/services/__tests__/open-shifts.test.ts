@@ -0,0 +1,43 @@
+import { sanitizeOpenShiftInput } from '@/lib/services/open-shifts';
+
+describe('sanitizeOpenShiftInput', () => {
+  const base = {
+    branchId: '3',
+    dayDate: '2026-11-14',
+    start: '9:00',
+    end: '17:30',
+    pause: '30',
+    label: ' Inventur ',
+    claimMode: 'confirm',
+  };
+
+  it('normalizes times and the label', () => {
+    expect(sanitizeOpenShiftInput(base)).toEqual({
+      branchId: 3,
+      dayDate: '2026-11-14',
+      startTime: '09:00',
+      endTime: '17:30',
+      requiredPauseMinutes: 30,
+      label: 'Inventur',
+      claimMode: 'confirm',
+    });
+    expect(sanitizeOpenShiftInput({ ...base, label: '', claimMode: 'anything' })).toMatchObject({
+      label: null,
+      claimMode: 'first_come',
+    });
+  });
+
+  it('accepts overnight shifts but rejects empty windows and absences', () => {
+    expect(sanitizeOpenShiftInput({ ...base, start: '22:00', end: '06:00' })).toMatchObject({
+      startTime: '22:00',
+      endTime: '06:00',
+    });
+    expect(() => sanitizeOpenShiftInput({ ...base, end: '09:00' })).toThrow(
+      'Start- und Endzeit dürfen nicht identisch sein.'
+    );
+    expect(() => sanitizeOpenShiftInput({ ...base, branchId: '' })).toThrow('Bitte einen Standort wählen.');
+    expect(() => sanitizeOpenShiftInput({ ...base, label: 'Urlaub' })).toThrow(
+      'Abwesenheiten können nicht als offene Schicht ausgeschrieben werden.'
+    );
+  });
+});
@@ -0,0 +1,45 @@
+import {
+  evaluateOvertimeTrafficLight,
+  resolveOvertimeTrafficLightRule,
+  sanitizeOvertimeTrafficLightRule,
+} from '@/lib/services/overtime-traffic-light';
+
+describe('overtime traffic light', () => {
+  const settings = {
+    notifyByMail: true,
+    rule: { yellowPlusHours: 20, redPlusHours: 40, yellowMinusHours: 10, redMinusHours: 20 },
+    groupRules: {
+      minijob: { yellowPlusHours: 5, redPlusHours: 10, yellowMinusHours: 3, redMinusHours: 6 },
+    },
+  };
+
+  it('uses the group rule of the employment type and the tenant rule otherwise', () => {
+    expect(resolveOvertimeTrafficLightRule(settings, ' Minijob ')).toBe(settings.groupRules.minijob);
+    expect(resolveOvertimeTrafficLightRule(settings, 'vollzeit')).toBe(settings.rule);
+    expect(resolveOvertimeTrafficLightRule(settings, null)).toBe(settings.rule);
+  });
+
+  it('switches colors at the plus and minus thresholds', () => {
+    const rule = settings.rule;
+    expect(evaluateOvertimeTrafficLight(19.99, rule)).toBe('green');
+    expect(evaluateOvertimeTrafficLight(20, rule)).toBe('yellow');
+    expect(evaluateOvertimeTrafficLight(40, rule)).toBe('red');
+    expect(evaluateOvertimeTrafficLight(-9.5, rule)).toBe('green');
+    expect(evaluateOvertimeTrafficLight(-10, rule)).toBe('yellow');
+    expect(evaluateOvertimeTrafficLight(-25, rule)).toBe('red');
+  });
+
+  it('rejects red thresholds before yellow and accepts comma decimals', () => {
+    expect(
+      sanitizeOvertimeTrafficLightRule({
+        yellowPlusHours: '12,5',
+        redPlusHours: '30',
+        yellowMinusHours: '5',
+        redMinusHours: '5',
+      })
+    ).toEqual({ yellowPlusHours: 12.5, redPlusHours: 30, yellowMinusHours: 5, redMinusHours: 5 });
+    expect(() =>
+      sanitizeOvertimeTrafficLightRule({ yellowPlusHours: 30, redPlusHours: 20, yellowMinusHours: 5, redMinusHours: 8 })
+    ).toThrow('Rot darf bei Plusstunden nicht vor Gelb beginnen.');
+  });
+});
@@ -1,4 +1,8 @@
-import { recalculateOvertime } from '@/lib/services/overtime';
+import {
+  diffOvertimeCheckpoints,
+  recalculateOvertime,
+  resolveOvertimeReplayStart,
+} from '@/lib/services/overtime';
 
 const settings = {
   maxMinusHours: 10,
@@ -115,4 +119,67 @@ describe('recalculateOvertime', () => {
     expect(result.balanceHours).toBeLessThanOrEqual(customSettings.maxOvertimeHours);
     expect(result.payoutBankHours).toBeGreaterThan(0);
   });
+
+  it('resumes from a monthly checkpoint with the same result as a full replay', () => {
+    const customSettings = { maxMinusHours: 10, maxOvertimeHours: 2 };
+    const day = (dayDate: string, geht2: string) => ({
+      dayDate,
+      planHours: 8,
+      kommt1: '08:00',
+      geht1: '12:00',
+      kommt2: '12:30',
+      geht2,
+      pause: '30min',
+      code: '',
+    });
+    const entries = [
+      day('2025-01-10', '19:00'),
+      day('2025-01-20', '18:00'),
+      day('2025-02-03', '15:00'),
+      day('2025-03-05', '19:00'),
+      day('2025-03-06', '17:00'),
+    ];
+
+    const full = recalculateOvertime(entries, customSettings);
+    expect(full.monthlyCheckpoints).toEqual([
+      { month: '2025-01', balanceHours: 2, payoutBankHours: 0.5 },
+      { month: '2025-02', balanceHours: 0.5, payoutBankHours: 0 },
+      { month: '2025-03', balanceHours: 2, payoutBankHours: 0.25 },
+    ]);
+
+    const january = full.monthlyCheckpoints[0]!;
+    const resumed = recalculateOvertime(
+      entries.filter((entry) => entry.dayDate >= '2025-02-01'),
+      customSettings,
+      { startState: { balanceHours: january.balanceHours, payoutBankHours: january.payoutBankHours } }
+    );
+    expect(resumed.balanceHours).toBe(full.balanceHours);
+    expect(resumed.payoutBankHours).toBe(full.payoutBankHours);
+    expect(resumed.monthlyCheckpoints).toEqual(full.monthlyCheckpoints.slice(1));
+  });
+
+  it('reports months whose stored checkpoint differs from the replay', () => {
+    const expected = [
+      { month: '2025-01', balanceHours: 3, payoutBankHours: 1 },
+      { month: '2025-02', balanceHours: 2, payoutBankHours: 0 },
+    ];
+    const stored = [
+      { month: '2025-01', balanceHours: 3.001, payoutBankHours: 1 },
+      { month: '2025-02', balanceHours: 2.5, payoutBankHours: 0 },
+      { month: '2025-04', balanceHours: 1, payoutBankHours: 0 },
+    ];
+    expect(diffOvertimeCheckpoints(expected, stored)).toEqual(['2025-02', '2025-04']);
+    expect(diffOvertimeCheckpoints(expected, expected)).toEqual([]);
+  });
+});
+
+describe('resolveOvertimeReplayStart', () => {
+  it('skips closed months at the start but replays a reopened month before a closed one', () => {
+    const closed = new Set(['2026-01', '2026-02', '2026-04']);
+    expect(resolveOvertimeReplayStart('2026-01-15', closed)).toBe('2026-03-01');
+    // March was reopened while April stays closed: the edit must still reach the balance.
+    expect(resolveOvertimeReplayStart('2026-03-10', closed)).toBe('2026-03-10');
+    expect(resolveOvertimeReplayStart('2026-04-02', closed)).toBe('2026-05-01');
+    expect(resolveOvertimeReplayStart(null, closed)).toBeNull();
+  });
 });
@@ -0,0 +1,90 @@
+import { comparePlanWithActual, groupPlannedSegments, sumPlanActualDays } from '@/lib/services/plan-actual';
+
+const planned = { segments: [{ kommt: '08:00', geht: '16:30' }], pauseMinutes: 30 };
+
+describe('comparePlanWithActual', () => {
+  it('flags late arrival and early leave from the unrounded stamps', () => {
+    const day = comparePlanWithActual({
+      dayDate: '2026-03-10',
+      planned,
+      actual: {
+        segments: [{ kommt: '08:15', geht: '16:00', kommtRaw: '08:12', gehtRaw: '16:05' }],
+        pause: '30min.',
+        code: 'RA',
+      },
+      today: '2026-03-31',
+    });
+    expect(day.deviations).toEqual(['late_arrival', 'early_leave']);
+    expect(day.lateMinutes).toBe(12);
+    expect(day.earlyLeaveMinutes).toBe(25);
+    expect(day.plannedHours).toBe(8);
+  });
+
+  it('tolerates small deviations', () => {
+    const day = comparePlanWithActual({
+      dayDate: '2026-03-10',
+      planned,
+      actual: { segments: [{ kommt: '08:04', geht: '16:27' }], pause: '30min.', code: 'RA' },
+      today: '2026-03-31',
+    });
+    expect(day.deviations).toEqual([]);
+  });
+
+  it('reports no-shows only for past days without an absence code', () => {
+    const base = { dayDate: '2026-03-10', planned, today: '2026-03-31' };
+    expect(comparePlanWithActual({ ...base, actual: null }).deviations).toEqual(['no_show']);
+    expect(
+      comparePlanWithActual({
+        ...base,
+        actual: { segments: [{ kommt: '00:00', geht: '00:00' }], pause: 'Keine', code: 'K' },
+      }).deviations
+    ).toEqual([]);
+    expect(comparePlanWithActual({ ...base, actual: null, today: '2026-03-09' }).deviations).toEqual([]);
+  });
+
+  it('reports unplanned work', () => {
+    const day = comparePlanWithActual({
+      dayDate: '2026-03-14',
+      planned: null,
+      actual: { segments: [{ kommt: '10:00', geht: '14:00' }], pause: 'Keine', code: 'RA' },
+      today: '2026-03-31',
+    });
+    expect(day.deviations).toEqual(['unplanned']);
+    expect(day.deltaHours).toBe(4);
+  });
+});
+
+describe('groupPlannedSegments', () => {
+  it('skips absences and unavailable rows', () => {
+    const grouped = groupPlannedSegments([
+      { day_date: '2026-03-10', mode: 'available', start_time: '08:00', end_time: '12:00', required_pause_minutes: 0, label: null },
+      { day_date: '2026-03-10', mode: 'available', start_time: '13:00', end_time: '17:00', required_pause_minutes: 0, label: null },
+      { day_date: '2026-03-11', mode: 'available', start_time: '08:00', end_time: '16:00', required_pause_minutes: 0, label: 'Urlaub' },
+      { day_date: '2026-03-12', mode: 'unavailable', start_time: null, end_time: null, required_pause_minutes: 0, label: null },
+    ]);
+    expect([...grouped.keys()]).toEqual(['2026-03-10']);
+    expect(grouped.get('2026-03-10')?.segments).toHaveLength(2);
+  });
+});
+
+describe('sumPlanActualDays', () => {
+  it('adds up hours and deviation counts', () => {
+    const days = [
+      comparePlanWithActual({ dayDate: '2026-03-10', planned, actual: null, today: '2026-03-31' }),
+      comparePlanWithActual({
+        dayDate: '2026-03-11',
+        planned,
+        actual: { segments: [{ kommt: '08:30', geht: '16:30' }], pause: '30min.', code: 'RA' },
+        today: '2026-03-31',
+      }),
+    ];
+    expect(sumPlanActualDays(days)).toMatchObject({
+      plannedHours: 16,
+      actualHours: 7.5,
+      deltaHours: -8.5,
+      noShows: 1,
+      lateArrivals: 1,
+      lateMinutes: 30,
+    });
+  });
+});
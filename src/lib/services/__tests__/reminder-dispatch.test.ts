@@ -0,0 +1,94 @@
+import { DateTime } from 'luxon';
+
+import type { EmployeeRecord } from '@/lib/data/employees';
+import type { ShiftPlanDayRecord } from '@/lib/data/shift-plan-days';
+import { collectMissingPlanDates, isReminderDue, reminderPeriodKey } from '@/lib/services/reminder-dispatch';
+
+const settings = {
+  enabled: true,
+  sendHour: 18,
+  subject: 'Erinnerung',
+  contentTemplate: 'Hallo {first_name}',
+};
+
+const employee: EmployeeRecord = {
+  id: 1,
+  first_name: 'Alex',
+  last_name: 'Muster',
+  email: 'alex@example.com',
+  phone: null,
+  username: 'alex',
+  role_id: 1,
+  personnel_number: '1',
+  control_plane_staff_id: null,
+  entry_date: '2025-01-05',
+  exit_date: null,
+  onboarding_status: 'active',
+  weekly_hours: 40,
+  vacation_days_total: 20,
+  federal_state: null,
+  show_in_calendar: true,
+};
+
+function planDay(dayDate: string, overrides: Partial<ShiftPlanDayRecord> = {}): ShiftPlanDayRecord {
+  return {
+    id: 0,
+    employee_id: 1,
+    day_date: dayDate,
+    segment_index: 0,
+    mode: 'available',
+    start_time: '09:00',
+    end_time: '17:00',
+    required_pause_minutes: 30,
+    label: null,
+    branch_id: null,
+    created_at: '',
+    updated_at: '',
+    ...overrides,
+  };
+}
+
+describe('isReminderDue', () => {
+  it('is due on the last day of the month from the send hour on', () => {
+    const zone = 'Europe/Berlin';
+    expect(isReminderDue(settings, DateTime.fromISO('2025-01-31T17:59', { zone }))).toBe(false);
+    expect(isReminderDue(settings, DateTime.fromISO('2025-01-31T18:00', { zone }))).toBe(true);
+    expect(isReminderDue(settings, DateTime.fromISO('2025-01-31T23:30', { zone }))).toBe(true);
+    expect(isReminderDue(settings, DateTime.fromISO('2025-01-30T20:00', { zone }))).toBe(false);
+  });
+
+  it('is never due when disabled', () => {
+    const now = DateTime.fromISO('2025-02-28T20:00');
+    expect(isReminderDue({ ...settings, enabled: false }, now)).toBe(false);
+  });
+});
+
+describe('collectMissingPlanDates', () => {
+  it('returns planned work days without booking', () => {
+    const days = [
+      planDay('2025-01-06'),
+      planDay('2025-01-06', { segment_index: 1, start_time: '18:00', end_time: '20:00' }),
+      planDay('2025-01-07'),
+      planDay('2025-01-08', { label: 'Urlaub' }),
+      planDay('2025-01-09', { mode: 'unavailable', label: 'Kein Arbeitstag' }),
+      planDay('2025-01-10', { start_time: null, end_time: null }),
+    ];
+    expect(collectMissingPlanDates(employee, days, new Set(['2025-01-07']))).toEqual(['2025-01-06']);
+  });
+
+  it('ignores days outside the employment period', () => {
+    const days = [planDay('2025-01-03'), planDay('2025-01-20')];
+    const leaving = { ...employee, exit_date: '2025-01-15' };
+    expect(collectMissingPlanDates(leaving, days, new Set())).toEqual([]);
+  });
+});
+
+describe('reminderPeriodKey', () => {
+  it('uses year and month', () => {
+    expect(reminderPeriodKey(DateTime.fromISO('2025-03-31T18:00'))).toBe('2025-03');
+  });
+
+  it('keeps forced runs apart from the regular run of the month', () => {
+    expect(reminderPeriodKey(DateTime.fromISO('2025-03-12T09:41'), { forced: true })).toBe('2025-03-manual-120941');
+  });
+});
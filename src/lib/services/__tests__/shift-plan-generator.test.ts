@@ -0,0 +1,195 @@
+import {
+  generateShiftPlanDraft,
+  splitOpeningSegment,
+  type ShiftPlanGeneratorBranch,
+  type ShiftPlanGeneratorEmployee,
+} from '@/lib/services/shift-plan-generator';
+
+describe('shift plan generator', () => {
+  const branch: ShiftPlanGeneratorBranch = {
+    id: 1,
+    name: 'Mitte',
+    closedDays: {},
+    schedule: [
+      { weekday: 'MONDAY', segmentIndex: 0, startsAtMinutes: 540, endsAtMinutes: 1020, isActive: true, minStaff: 2 },
+      { weekday: 'TUESDAY', segmentIndex: 0, startsAtMinutes: 540, endsAtMinutes: 1020, isActive: true, minStaff: 1 },
+    ],
+  };
+
+  const employee = (overrides: Partial<ShiftPlanGeneratorEmployee> & { id: number }): ShiftPlanGeneratorEmployee => ({
+    name: `MA ${overrides.id}`,
+    branchIds: [1],
+    weeklyHours: 40,
+    workdaysPerWeek: 5,
+    blockedDays: {},
+    existingShifts: [],
+    ...overrides,
+  });
+
+  it('splits opening segments longer than ten hours on half-hour boundaries', () => {
+    expect(splitOpeningSegment(480, 1200)).toEqual([
+      [480, 840],
+      [840, 1200],
+    ]);
+    expect(splitOpeningSegment(420, 1290)).toEqual([
+      [420, 870],
+      [870, 1290],
+    ]);
+    expect(splitOpeningSegment(540, 1020)).toEqual([[540, 1020]]);
+  });
+
+  it('staffs scarce slots first and explains what stays open', () => {
+    const draft = generateShiftPlanDraft({
+      weekStart: '2026-01-05',
+      branches: [branch],
+      employees: [
+        employee({ id: 1, name: 'Anna', weeklyHours: 16, blockedDays: { '2026-01-05': 'Urlaub' } }),
+        employee({ id: 2, name: 'Ben' }),
+        employee({ id: 3, name: 'Cem', branchIds: [] }),
+      ],
+    });
+
+    expect(draft.shifts.map((shift) => [shift.isoDate, shift.employeeId, shift.requiredPauseMinutes])).toEqual([
+      ['2026-01-05', 2, 30],
+      ['2026-01-06', 1, 30],
+      ['2026-01-06', 2, 30],
+    ]);
+    expect(draft.issues.filter((issue) => issue.kind === 'understaffed').map((issue) => issue.message)).toEqual([
+      'Mo 05.01. Mitte 09:00–17:00: 1 von 2 besetzt. Anna: Urlaub.',
+    ]);
+    expect(draft.issues.filter((issue) => issue.kind === 'under_target').map((issue) => issue.employeeId)).toEqual([
+      1, 2, 3,
+    ]);
+    expect(draft.employees.find((entry) => entry.employeeId === 2)).toMatchObject({ draftHours: 15, targetHours: 40 });
+  });
+
+  it('keeps existing entries and skips closed days', () => {
+    const draft = generateShiftPlanDraft({
+      weekStart: '2026-01-05',
+      branches: [{ ...branch, closedDays: { '2026-01-06': 'Feiertag' } }],
+      employees: [
+        employee({ id: 1, weeklyHours: 16 }),
+        employee({
+          id: 2,
+          existingShifts: [
+            {
+              isoDate: '2026-01-05',
+              branchId: 1,
+              start: '09:00',
+              end: '17:00',
+              requiredPauseMinutes: 0,
+              mode: 'available',
+            },
+          ],
+        }),
+      ],
+    });
+
+    expect(draft.slots).toHaveLength(1);
+    expect(draft.slots[0]).toMatchObject({ existingEmployeeIds: [2], draftEmployeeIds: [1] });
+    expect(draft.shifts).toHaveLength(1);
+    expect(draft.employees.find((entry) => entry.employeeId === 2)).toMatchObject({
+      existingHours: 7.5,
+      draftHours: 0,
+    });
+    expect(draft.issues.filter((issue) => issue.kind === 'understaffed')).toEqual([]);
+  });
+
+  it('keeps eleven hours of rest after a night shift before the week', () => {
+    const draft = generateShiftPlanDraft({
+      weekStart: '2026-01-05',
+      branches: [branch],
+      employees: [
+        employee({
+          id: 1,
+          name: 'Anna',
+          weeklyHours: 16,
+          adjacentShifts: [
+            {
+              isoDate: '2026-01-04',
+              branchId: 1,
+              start: '22:00',
+              end: '06:00',
+              requiredPauseMinutes: 30,
+              mode: 'available',
+            },
+          ],
+        }),
+      ],
+    });
+
+    expect(draft.shifts.map((shift) => shift.isoDate)).toEqual(['2026-01-06']);
+    expect(draft.issues.find((issue) => issue.kind === 'understaffed')?.message).toBe(
+      'Mo 05.01. Mitte 09:00–17:00: 0 von 2 besetzt. Anna: Ruhezeit unter 11 Stunden.'
+    );
+  });
+
+  it('leaves out slots that run against the stated availability', () => {
+    const availability = (
+      id: number,
+      kind: 'unavailable' | 'only' | 'preferred',
+      window: [number, number] | null,
+      slot: { weekday: number } | { date: string }
+    ) => ({
+      id,
+      employee_id: 1,
+      weekday: 'weekday' in slot ? slot.weekday : null,
+      date: 'date' in slot ? slot.date : null,
+      kind,
+      starts_at_minutes: window?.[0] ?? null,
+      ends_at_minutes: window?.[1] ?? null,
+      note: null,
+    });
+    const draft = generateShiftPlanDraft({
+      weekStart: '2026-01-05',
+      branches: [branch],
+      employees: [
+        employee({
+          id: 1,
+          name: 'Anna',
+          availability: [
+            availability(1, 'unavailable', [720, 1440], { weekday: 0 }),
+            availability(2, 'only', [480, 900], { date: '2026-01-06' }),
+            availability(3, 'preferred', [540, 720], { weekday: 1 }),
+          ],
+        }),
+        employee({ id: 2, name: 'Ben', availability: [availability(4, 'preferred', null, { weekday: 0 })] }),
+      ],
+    });
+
+    expect(draft.shifts.map((shift) => [shift.isoDate, shift.employeeId])).toEqual([
+      ['2026-01-05', 2],
+      ['2026-01-06', 2],
+    ]);
+    expect(draft.issues.filter((issue) => issue.kind === 'understaffed').map((issue) => issue.message)).toEqual([
+      'Mo 05.01. Mitte 09:00–17:00: 1 von 2 besetzt. Anna: Nicht verfügbar 12:00–24:00.',
+    ]);
+  });
+
+  it('builds slots from staffing requirements instead of the opening hours', () => {
+    const draft = generateShiftPlanDraft({
+      weekStart: '2026-01-05',
+      branches: [
+        {
+          ...branch,
+          requirements: [
+            {
+              id: 1,
+              branch_id: 1,
+              weekday: 0,
+              date: null,
+              starts_at_minutes: 600,
+              ends_at_minutes: 840,
+              min_staff: 1,
+            },
+          ],
+        },
+      ],
+      employees: [employee({ id: 1 })],
+    });
+
+    expect(draft.slots.map((slot) => [slot.isoDate, slot.start, slot.end, slot.minStaff])).toEqual([
+      ['2026-01-05', '10:00', '14:00', 1],
+    ]);
+  });
+});
@@ -6,6 +6,7 @@ describe('getPlanHoursForDayFromPlan', () => {
     days: {
       '2025-01-06': { start: '08:00', end: '16:00', requiredPauseMinutes: 0, label: null },
       '2025-01-07': { start: '08:30', end: '16:30', requiredPauseMinutes: 30, label: null },
+      '2025-01-08': { start: '18:00', end: '02:00', requiredPauseMinutes: 0, label: null },
     },
   };
 
@@ -24,6 +25,12 @@ describe('getPlanHoursForDayFromPlan', () => {
     expect(info?.sollHours).toBeCloseTo(7.5);
   });
 
+  it('counts night shifts across midnight', () => {
+    const info = getPlanHoursForDayFromPlan(samplePlan, '2025-01-08');
+    expect(info?.rawHours).toBeCloseTo(8);
+    expect(info?.sollHours).toBeCloseTo(7.5);
+  });
+
   it('returns null when kein Eintrag existiert', () => {
     const info = getPlanHoursForDayFromPlan(samplePlan, '2025-01-05');
     expect(info).toBeNull();
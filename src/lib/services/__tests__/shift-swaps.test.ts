@@ -0,0 +1,89 @@
+import type { ShiftSwapShiftRow } from '@/lib/data/shift-swap-requests';
+import { evaluateShiftSwapRules, type ShiftSwapParty } from '@/lib/services/shift-swaps';
+
+describe('evaluateShiftSwapRules', () => {
+  const shift = (overrides: Partial<ShiftSwapShiftRow> = {}): ShiftSwapShiftRow => ({
+    day_date: '2026-11-10',
+    segment_index: 0,
+    start_time: '09:00',
+    end_time: '17:00',
+    required_pause_minutes: 30,
+    branch_id: 1,
+    ...overrides,
+  });
+
+  const planRow = (dayDate: string, start: string, end: string, pause: number) => ({
+    day_date: dayDate,
+    segment_index: 0,
+    mode: 'available' as const,
+    start_time: start,
+    end_time: end,
+    required_pause_minutes: pause,
+    label: null,
+  });
+
+  const party = (overrides: Partial<ShiftSwapParty> = {}): ShiftSwapParty => ({
+    name: 'Anna',
+    branchIds: [1],
+    overtimeBalance: 0,
+    maxOvertimeHours: 0,
+    plan: [],
+    ...overrides,
+  });
+
+  it('passes a giveaway between colleagues of the same branch', () => {
+    const offered = shift();
+    const offerer = party({ plan: [planRow('2026-11-10', '09:00', '17:00', 30)] });
+
+    expect(evaluateShiftSwapRules({ offered, returned: null, offerer, acceptor: party({ name: 'Ben' }) })).toEqual([]);
+  });
+
+  it('flags branch mismatches and the overtime cap of the receiving employee', () => {
+    const violations = evaluateShiftSwapRules({
+      offered: shift(),
+      returned: shift({
+        day_date: '2026-11-12',
+        start_time: '10:00',
+        end_time: '14:00',
+        required_pause_minutes: 0,
+        branch_id: 2,
+      }),
+      offerer: party({ branchIds: [1, 2] }),
+      acceptor: party({ name: 'Ben', branchIds: [2], overtimeBalance: 18, maxOvertimeHours: 20 }),
+    });
+
+    expect(violations).toEqual([
+      'Ben ist dem Standort der Schicht nicht zugeordnet.',
+      'Die getauschten Schichten liegen an unterschiedlichen Standorten.',
+      'Ben würde die Überstundengrenze von 20,00 Std. überschreiten (Saldo 18,00 Std., +3,50 Std.).',
+    ]);
+  });
+
+  it('reports a rest period shorter than 11 hours after the swap', () => {
+    const acceptor = party({ name: 'Ben', plan: [planRow('2026-11-09', '14:00', '23:00', 45)] });
+
+    const violations = evaluateShiftSwapRules({
+      offered: shift({ start_time: '06:00', end_time: '12:00', required_pause_minutes: 0 }),
+      returned: null,
+      offerer: party(),
+      acceptor,
+    });
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatch(/^Ben: Nur 7.* Ruhezeit/);
+  });
+
+  it('reports more than ten hours of work on the day of the received shift', () => {
+    const acceptor = party({ name: 'Ben', plan: [planRow('2026-11-10', '06:00', '12:00', 0)] });
+
+    const violations = evaluateShiftSwapRules({
+      offered: shift({ start_time: '13:00', end_time: '19:00', required_pause_minutes: 0 }),
+      returned: null,
+      offerer: party(),
+      acceptor,
+    });
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatch(/^Ben: 11,25 h Arbeitszeit/);
+  });
+});
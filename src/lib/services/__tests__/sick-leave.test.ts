@@ -0,0 +1,116 @@
+import type { SickLeaveEpisodeRow } from '@/lib/data/sick-leave-episodes';
+import {
+  buildSickLeaveWarnings,
+  computeSickLeaveStatuses,
+  countSickDaysInLastYear,
+  isSickReportChangeable,
+  listSickReportDateChanges,
+  summarizeSickLeaveForPayroll,
+  validateSickReportRange,
+} from '@/lib/services/sick-leave';
+
+function episode(
+  id: number,
+  startDate: string,
+  endDate: string | null,
+  continuesEpisodeId: number | null = null
+): SickLeaveEpisodeRow {
+  return {
+    id,
+    employee_id: 7,
+    start_date: startDate,
+    end_date: endDate,
+    certificate_received_at: null,
+    continues_episode_id: continuesEpisodeId,
+    document_file_name: null,
+    note: null,
+    reported_by_employee: 0,
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+describe('computeSickLeaveStatuses', () => {
+  it('adds up linked episodes of the same illness', () => {
+    const [first, second] = computeSickLeaveStatuses(
+      [episode(1, '2026-01-05', '2026-01-30'), episode(2, '2026-03-02', '2026-03-31', 1)],
+      '2026-04-15'
+    );
+    expect(first).toMatchObject({ days: 26, continuedPayEndDate: null, continuedPayDaysRemaining: 16 });
+    expect(second).toMatchObject({
+      periodStartDate: '2026-01-05',
+      continuedPayDaysBefore: 26,
+      continuedPayEndDate: '2026-03-17',
+      continuedPayDaysRemaining: 0,
+    });
+  });
+
+  it('starts a new period six months after the last episode of the illness', () => {
+    const [, second] = computeSickLeaveStatuses(
+      [episode(1, '2025-09-01', '2025-10-10'), episode(2, '2026-04-20', '2026-04-24', 1)],
+      '2026-04-30'
+    );
+    expect(second).toMatchObject({ periodStartDate: '2026-04-20', continuedPayDaysBefore: 0 });
+  });
+
+  it('projects the end of continued pay for a running episode', () => {
+    const [status] = computeSickLeaveStatuses([episode(1, '2026-04-01', null)], '2026-04-10');
+    expect(status).toMatchObject({ days: 10, continuedPayEndDate: '2026-05-12' });
+  });
+});
+
+describe('sick leave warnings', () => {
+  it('warns shortly before continued pay ends and when the BEM threshold is passed', () => {
+    const episodes = [episode(1, '2025-11-03', '2025-11-14'), episode(2, '2026-04-01', null)];
+    const kinds = buildSickLeaveWarnings(7, 'Anna', episodes, '2026-05-08').map((warning) => warning.kind);
+    expect(kinds).toEqual(['continued-pay-ending', 'bem']);
+    expect(countSickDaysInLastYear(episodes, '2026-05-08')).toBe(50);
+  });
+});
+
+describe('summarizeSickLeaveForPayroll', () => {
+  it('counts sick days of the month after continued pay ran out', () => {
+    const summary = summarizeSickLeaveForPayroll([episode(1, '2026-04-01', null)], '2026-05-01', '2026-05-31');
+    expect(summary).toEqual({
+      ranges: [{ start: '2026-04-01', end: '2026-05-31' }],
+      continuedPayEndDates: ['2026-05-12'],
+      daysWithoutContinuedPay: 19,
+    });
+  });
+});
+
+describe('self-reported sickness', () => {
+  it('marks added days and restores days that are no longer covered', () => {
+    const extended = listSickReportDateChanges(
+      { start: '2026-05-04', end: '2026-05-06' },
+      { start: '2026-05-04', end: '2026-05-08' }
+    );
+    expect(extended).toEqual({ mark: ['2026-05-07', '2026-05-08'], restore: [] });
+
+    const ended = listSickReportDateChanges(
+      { start: '2026-05-04', end: '2026-05-08' },
+      { start: '2026-05-04', end: '2026-05-05' }
+    );
+    expect(ended).toEqual({ mark: [], restore: ['2026-05-06', '2026-05-07', '2026-05-08'] });
+  });
+
+  it('lets employees change only their own recent reports', () => {
+    expect(isSickReportChangeable({ reportedByEmployee: true, endDate: '2026-05-01' }, '2026-05-10')).toBe(true);
+    expect(isSickReportChangeable({ reportedByEmployee: true, endDate: '2026-04-20' }, '2026-05-10')).toBe(false);
+    expect(isSickReportChangeable({ reportedByEmployee: false, endDate: null }, '2026-05-10')).toBe(false);
+  });
+
+  it('rejects impossible dates instead of looping over them', () => {
+    expect(() => validateSickReportRange('2026-02-20', '2026-02-30')).toThrow('Bitte ein gültiges Enddatum angeben.');
+    expect(() => listSickReportDateChanges(null, { start: '2026-02-30', end: '2026-03-02' })).toThrow(
+      'Ungültiges Datum'
+    );
+  });
+
+  it('caps the duration employees can report themselves', () => {
+    expect(() => validateSickReportRange('2026-05-04', '2026-06-14')).not.toThrow();
+    expect(() => validateSickReportRange('2026-05-04', '2026-06-15')).toThrow('höchstens 42 Tage');
+    expect(() => validateSickReportRange('2026-05-04', '2099-12-31')).toThrow('höchstens 42 Tage');
+    expect(() => validateSickReportRange('2026-05-04', '2026-05-03')).toThrow('Das Ende darf nicht vor dem Beginn liegen.');
+  });
+});
@@ -0,0 +1,99 @@
+import type { BranchScheduleRule } from '@/lib/data/branches';
+import type { StaffingRequirementRow } from '@/lib/data/staffing-requirements';
+import {
+  buildStaffingCoverage,
+  resolveStaffingWindows,
+  sanitizeStaffingRequirements,
+  splitShiftAtMidnight,
+} from '@/lib/services/staffing-requirements';
+
+describe('staffing requirements', () => {
+  const schedule: BranchScheduleRule[] = [
+    { weekday: 'SATURDAY', segmentIndex: 0, startsAtMinutes: 540, endsAtMinutes: 960, isActive: true, minStaff: 2 },
+  ];
+
+  const requirement = (overrides: Partial<StaffingRequirementRow> & { id: number }): StaffingRequirementRow => ({
+    branch_id: 1,
+    weekday: 5,
+    date: null,
+    starts_at_minutes: 540,
+    ends_at_minutes: 840,
+    min_staff: 4,
+    ...overrides,
+  });
+
+  it('prefers date overrides, then weekday windows, then the opening hours', () => {
+    const weekly = requirement({ id: 1 });
+    const override = requirement({ id: 2, weekday: null, date: '2026-12-19', min_staff: 6 });
+
+    expect(resolveStaffingWindows(schedule, [], '2026-12-12', 5)).toEqual([
+      { startsAtMinutes: 540, endsAtMinutes: 960, minStaff: 2 },
+    ]);
+    expect(resolveStaffingWindows(schedule, [weekly, override], '2026-12-12', 5)).toEqual([
+      { startsAtMinutes: 540, endsAtMinutes: 840, minStaff: 4 },
+    ]);
+    expect(resolveStaffingWindows(schedule, [weekly, override], '2026-12-19', 5)).toEqual([
+      { startsAtMinutes: 540, endsAtMinutes: 840, minStaff: 6 },
+    ]);
+    expect(resolveStaffingWindows(schedule, [weekly], '2026-12-11', 4)).toEqual([]);
+  });
+
+  it('validates the entered windows', () => {
+    expect(
+      sanitizeStaffingRequirements([
+        { weekday: '5', start: '09:00', end: '14:00', minStaff: '4' },
+        { weekday: '', date: '2026-12-24', start: '08:00', end: '12:30', minStaff: 2 },
+      ])
+    ).toEqual([
+      { weekday: 5, date: null, startsAtMinutes: 540, endsAtMinutes: 840, minStaff: 4 },
+      { weekday: null, date: '2026-12-24', startsAtMinutes: 480, endsAtMinutes: 750, minStaff: 2 },
+    ]);
+    expect(() => sanitizeStaffingRequirements([{ weekday: '5', start: '14:00', end: '09:00', minStaff: 1 }])).toThrow(
+      'Zeile 1: Die Endzeit muss nach der Startzeit liegen.'
+    );
+    expect(() => sanitizeStaffingRequirements([{ weekday: '', start: '09:00', end: '10:00', minStaff: 1 }])).toThrow(
+      'Zeile 1: Bitte einen Wochentag oder ein Datum wählen.'
+    );
+  });
+
+  it('counts planned staff per half hour against the requirement', () => {
+    const [branch] = buildStaffingCoverage({
+      days: ['2026-12-12', '2026-12-13'],
+      branches: [
+        {
+          id: 1,
+          name: 'Mitte',
+          windowsByDate: { '2026-12-12': [{ startsAtMinutes: 540, endsAtMinutes: 660, minStaff: 2 }] },
+          closedDays: {},
+        },
+        { id: 2, name: 'Nord', windowsByDate: {}, closedDays: {} },
+      ],
+      shifts: [
+        { employeeId: 1, isoDate: '2026-12-12', branchId: 1, startMinutes: 540, endMinutes: 720 },
+        { employeeId: 2, isoDate: '2026-12-12', branchId: 1, startMinutes: 600, endMinutes: 660 },
+      ],
+    });
+
+    expect(branch).toMatchObject({ branchId: 1, fromMinutes: 540, toMinutes: 720, understaffedCells: 2 });
+    expect(branch!.days[0]!.cells.map((cell) => [cell.startMinutes, cell.planned, cell.required])).toEqual([
+      [540, 1, 2],
+      [570, 1, 2],
+      [600, 2, 2],
+      [630, 2, 2],
+      [660, 1, 0],
+      [690, 1, 0],
+    ]);
+    expect(branch!.overstaffedCells).toBe(2);
+    expect(branch!.days[1]!.cells.every((cell) => cell.planned === 0 && cell.required === 0)).toBe(true);
+  });
+
+  it('splits overnight shifts at midnight', () => {
+    const night = { employeeId: 1, isoDate: '2026-12-12', branchId: 1, startMinutes: 1320, endMinutes: 360 };
+    expect(splitShiftAtMidnight(night, '2026-12-13')).toEqual([
+      { ...night, endMinutes: 1440 },
+      { ...night, isoDate: '2026-12-13', startMinutes: 0 },
+    ]);
+    expect(splitShiftAtMidnight(night, null)).toEqual([{ ...night, endMinutes: 1440 }]);
+    expect(splitShiftAtMidnight({ ...night, endMinutes: 0 }, '2026-12-13')).toEqual([{ ...night, endMinutes: 1440 }]);
+  });
+});
@@ -0,0 +1,71 @@
+import { DEFAULT_SURCHARGE_SETTINGS } from '@/lib/data/surcharge-settings';
+import { calculateDaySurcharges, resolveSurchargeRegion, sanitizeSurchargeSettings } from '@/lib/services/surcharges';
+
+const settings = { ...DEFAULT_SURCHARGE_SETTINGS, enabled: true };
+const noHolidays = () => false;
+
+function entry(dayDate: string, kommt1: string, geht1: string, pause = 'Keine') {
+  return { day_date: dayDate, segments: [{ kommt: kommt1, geht: geht1 }], pause };
+}
+
+describe('calculateDaySurcharges', () => {
+  it('counts night hours inside the night window only', () => {
+    // Monday 2025-03-03, 16:00–22:00 → 2 h after 20:00
+    const result = calculateDaySurcharges(entry('2025-03-03', '16:00', '22:00'), settings, noHolidays);
+    expect(result.nightHours).toBeCloseTo(2);
+    expect(result.sundayHours).toBe(0);
+    expect(result.holidayHours).toBe(0);
+  });
+
+  it('attributes the part after midnight to the following day', () => {
+    // Saturday 2025-03-08 18:00 → Sunday 02:00; 30 min pause spread over 8 h
+    const result = calculateDaySurcharges(entry('2025-03-08', '18:00', '02:00', '30min'), settings, noHolidays);
+    expect(result.nightHours).toBeCloseTo(6 * (7.5 / 8), 2);
+    expect(result.sundayHours).toBeCloseTo(2 * (7.5 / 8), 2);
+  });
+
+  it('prefers holiday over sunday for the same minutes', () => {
+    const isHoliday = (isoDate: string) => isoDate === '2025-12-25';
+    // Wednesday 2025-12-24 22:00 → Thursday (Christmas) 04:00
+    const result = calculateDaySurcharges(entry('2025-12-24', '22:00', '04:00'), settings, isHoliday);
+    expect(result.holidayHours).toBeCloseTo(4);
+    expect(result.nightHours).toBeCloseTo(6);
+    expect(result.sundayHours).toBe(0);
+  });
+
+  it('skips buckets configured with 0 %', () => {
+    const result = calculateDaySurcharges(
+      entry('2025-03-09', '10:00', '14:00'),
+      { ...settings, sundayPercent: 0 },
+      noHolidays
+    );
+    expect(result.sundayHours).toBe(0);
+  });
+});
+
+describe('sanitizeSurchargeSettings', () => {
+  it('rejects invalid night window times', () => {
+    const { error } = sanitizeSurchargeSettings({ ...settings, nightStart: '25:00' });
+    expect(error).not.toBeNull();
+  });
+
+  it('normalizes the holiday region and clamps percentages', () => {
+    const { settings: normalized, error } = sanitizeSurchargeSettings({
+      ...settings,
+      holidayRegion: 'by',
+      nightPercent: -5,
+    });
+    expect(error).toBeNull();
+    expect(normalized.holidayRegion).toBe('DE-BY');
+    expect(normalized.nightPercent).toBe(0);
+  });
+});
+
+describe('resolveSurchargeRegion', () => {
+  it('prefers the branch state over the employee state and the tenant default', () => {
+    const defaults = { holidayRegion: 'DE-NW' };
+    expect(resolveSurchargeRegion('BY', 'BE', defaults)).toBe('DE-BY');
+    expect(resolveSurchargeRegion(null, 'BE', defaults)).toBe('DE-BE');
+    expect(resolveSurchargeRegion(null, null, defaults)).toBe('DE-NW');
+  });
+});
@@ -1,9 +1,14 @@
 import {
+  buildShiftIntervals,
   calcHoursLegalGermany,
   calculateIstHours,
   calculateLegalPauseHours,
+  formatWorkSegments,
   parseTimeString,
   pauseStringToHours,
+  plannedHoursOnFollowingHolidays,
+  segmentsFromPairs,
+  splitHoursByCalendarDay,
   timeToDecimalHours,
 } from '@/lib/services/time-calculations';
 
@@ -43,25 +48,92 @@ describe('calculateLegalPauseHours', () => {
 
 describe('calculateIstHours', () => {
   it('enforces legal minimum pause', () => {
-    const result = calculateIstHours('08:00', '12:00', '12:30', '17:00', 'keine');
+    const result = calculateIstHours(segmentsFromPairs('08:00', '12:00', '12:30', '17:00'), 'keine');
     expect(result.rawHours).toBeCloseTo(8.5);
     expect(result.effectivePauseHours).toBeCloseTo(0.5);
     expect(result.netHours).toBeCloseTo(8);
   });
 
   it('respects manual pause when longer than legal', () => {
-    const result = calculateIstHours('08:00', '12:00', '12:30', '17:00', '60min');
+    const result = calculateIstHours(segmentsFromPairs('08:00', '12:00', '12:30', '17:00'), '60min');
     expect(result.effectivePauseHours).toBeCloseTo(1);
     expect(result.netHours).toBeCloseTo(7.5);
   });
 
+  it('sums any number of segments', () => {
+    const result = calculateIstHours(
+      [
+        { kommt: '06:00', geht: '09:00' },
+        { kommt: '11:00', geht: '14:00' },
+        { kommt: '17:00', geht: '20:30' },
+      ],
+      'Keine'
+    );
+    expect(result.rawHours).toBeCloseTo(9.5);
+    expect(result.effectivePauseHours).toBeCloseTo(0.75);
+    expect(result.netHours).toBeCloseTo(8.75);
+  });
+
   it('handles overnight spans', () => {
-    const result = calculateIstHours('22:00', '23:59', '00:15', '02:00', '15min');
+    const result = calculateIstHours(segmentsFromPairs('22:00', '23:59', '00:15', '02:00'), '15min');
     expect(result.rawHours).toBeCloseTo(3.73, 1);
     expect(result.netHours).toBeGreaterThan(0);
   });
 });
 
+describe('buildShiftIntervals', () => {
+  it('moves the end of a block past midnight onto the next day', () => {
+    expect(buildShiftIntervals(segmentsFromPairs('18:00', '02:00'))).toEqual([
+      { startMinutes: 1080, endMinutes: 1560 },
+    ]);
+  });
+
+  it('places a second block starting after midnight on the next day', () => {
+    expect(buildShiftIntervals(segmentsFromPairs('22:00', '23:30', '00:15', '04:00'))).toEqual([
+      { startMinutes: 1320, endMinutes: 1410 },
+      { startMinutes: 1455, endMinutes: 1680 },
+    ]);
+  });
+});
+
+describe('formatWorkSegments', () => {
+  it('lists complete and open segments and skips empty ones', () => {
+    expect(
+      formatWorkSegments([
+        { kommt: '08:00', geht: '12:00' },
+        { kommt: null, geht: null },
+        { kommt: '13:00', geht: null },
+      ])
+    ).toBe('08:00–12:00, 13:00–—');
+  });
+});
+
+describe('splitHoursByCalendarDay', () => {
+  it('attributes the hours after midnight to the following day', () => {
+    const parts = splitHoursByCalendarDay('2025-12-24', segmentsFromPairs('18:00', '02:00'), '30min');
+    expect(parts.map((part) => part.dayDate)).toEqual(['2025-12-24', '2025-12-25']);
+    expect(parts[0].rawHours).toBeCloseTo(6);
+    expect(parts[1].rawHours).toBeCloseTo(2);
+    expect(parts[0].netHours + parts[1].netHours).toBeCloseTo(7.5);
+  });
+
+  it('keeps day shifts on their own date', () => {
+    const parts = splitHoursByCalendarDay('2025-03-31', segmentsFromPairs('08:00', '12:00', '12:30', '17:00'), 'Keine');
+    expect(parts).toEqual([{ dayDate: '2025-03-31', rawHours: 8.5, netHours: 8 }]);
+  });
+});
+
+describe('plannedHoursOnFollowingHolidays', () => {
+  const christmas = (isoDate: string) => isoDate === '2025-12-25';
+
+  it('returns the planned share after midnight when the next day is a holiday', () => {
+    const plan = { start: '20:00', end: '04:00' };
+    expect(plannedHoursOnFollowingHolidays('2025-12-24', plan, 7.5, christmas)).toBeCloseTo(3.75);
+    expect(plannedHoursOnFollowingHolidays('2025-12-23', plan, 7.5, christmas)).toBe(0);
+    expect(plannedHoursOnFollowingHolidays('2025-12-24', { start: '08:00', end: '16:00' }, 7.5, christmas)).toBe(0);
+  });
+});
+
 describe('calcHoursLegalGermany', () => {
   it('applies legal deductions for single span', () => {
     const start = parseTimeString('08:00');
@@ -0,0 +1,37 @@
+import type { DailyDaySnapshot } from '@/lib/data/daily-day-history';
+import { diffTimeCorrection } from '@/lib/services/time-correction-requests';
+
+const current = {
+  segments: [{ kommt: '08:00', geht: '16:30' }],
+  pause: '30min.',
+  code: 'RA',
+  mittag: 'Nein',
+  bemerkungen: null,
+} as unknown as DailyDaySnapshot;
+
+describe('diffTimeCorrection', () => {
+  it('lists only the fields the employee wants changed', () => {
+    const changes = diffTimeCorrection(current, {
+      segments: [{ kommt: '08:00', geht: '17:00' }],
+      pause: '30min.',
+      code: 'RA',
+      mittag: 'Nein',
+      bemerkungen: 'Inventur',
+    });
+    expect(changes).toEqual([
+      { label: 'Zeiten', before: '08:00–16:30', after: '08:00–17:00' },
+      { label: 'Notiz', before: '—', after: 'Inventur' },
+    ]);
+  });
+
+  it('compares against an empty day when nothing was recorded', () => {
+    const changes = diffTimeCorrection(null, {
+      segments: [],
+      pause: null,
+      code: 'K',
+      mittag: null,
+      bemerkungen: null,
+    });
+    expect(changes).toEqual([{ label: 'Code', before: '—', after: 'K' }]);
+  });
+});
@@ -0,0 +1,65 @@
+import {
+  guessTimeEntryImportMapping,
+  mapTimeEntryImportRow,
+  parseImportDate,
+  parseImportTime,
+  readTimeEntryImportFile,
+} from '@/lib/services/admin/time-entry-import';
+
+describe('readTimeEntryImportFile', () => {
+  it('reads a semicolon separated CSV without converting values', () => {
+    const csv = 'Personal-Nr.;Datum;Kommt;Geht;Pause\n0042;01.04.2026;8:00;16:30;30\n';
+    const sheet = readTimeEntryImportFile('stunden.csv', Buffer.from(csv));
+    expect(sheet.headers).toEqual(['Personal-Nr.', 'Datum', 'Kommt', 'Geht', 'Pause']);
+    expect(sheet.rows).toEqual([['0042', '01.04.2026', '8:00', '16:30', '30']]);
+  });
+});
+
+describe('guessTimeEntryImportMapping', () => {
+  it('matches common German headers', () => {
+    expect(
+      guessTimeEntryImportMapping(['Personalnummer', 'Datum', 'Kommt 1', 'Geht 1', 'Kommt 2', 'Geht 2', 'Bemerkung', 'Kürzel'])
+    ).toEqual({ personalNr: 0, dayDate: 1, kommt1: 2, geht1: 3, kommt2: 4, geht2: 5, code: 7, bemerkungen: 6 });
+  });
+});
+
+describe('parseImportDate / parseImportTime', () => {
+  it('accepts German, ISO and Excel values', () => {
+    expect(parseImportDate('1.4.26')).toBe('2026-04-01');
+    expect(parseImportDate('2026-04-01')).toBe('2026-04-01');
+    expect(parseImportDate(46113)).toBe('2026-04-01');
+    expect(parseImportDate('31.02.2026')).toBeNull();
+    expect(parseImportTime(0.5)).toBe('12:00');
+    expect(parseImportTime('7.45')).toBe('07:45');
+    expect(parseImportTime('08:15:00')).toBe('08:15');
+    expect(parseImportTime('abc')).toBeNull();
+  });
+});
+
+describe('mapTimeEntryImportRow', () => {
+  const mapping = { personalNr: 0, dayDate: 1, kommt1: 2, geht1: 3, pause: 4, code: 5, brutto: 6 };
+
+  it('maps a row to an entry', () => {
+    const row = mapTimeEntryImportRow(['42', '01.04.2026', '8:00', '16:30', '30', '', '1.234,50'], mapping, 2);
+    expect(row.errors).toEqual([]);
+    expect(row).toMatchObject({
+      personalNr: '42',
+      dayDate: '2026-04-01',
+      segments: [{ kommt: '08:00', geht: '16:30' }],
+      pause: '30min.',
+      code: 'RA',
+      brutto: 1234.5,
+    });
+  });
+
+  it('reports unreadable values', () => {
+    const row = mapTimeEntryImportRow(['', '2026-13-01', '8 Uhr', '16:30', '', 'u', 'viel'], mapping, 3);
+    expect(row.errors).toEqual([
+      'Personal-Nr. fehlt.',
+      'Datum „2026-13-01“ ist ungültig.',
+      'Uhrzeit „8 Uhr“ ist ungültig.',
+      'Brutto „viel“ ist keine Zahl.',
+    ]);
+    expect(row.code).toBe('U');
+  });
+});
@@ -0,0 +1,26 @@
+import { segmentsFromPairs } from '@/lib/services/time-calculations';
+import { validateTimeEntry } from '@/lib/services/time-entry-validation';
+
+function validate(...pairs: string[]) {
+  return validateTimeEntry({
+    segments: segmentsFromPairs(pairs[0], pairs[1], pairs[2], pairs[3]),
+    pause: '30',
+    code: null,
+    mittag: null,
+    planInfo: null,
+    mandatoryPauseMinWorkMinutes: 0,
+    minPauseUnder6Minutes: 0,
+    requiresMealFlag: false,
+  });
+}
+
+describe('validateTimeEntry', () => {
+  it('rejects blocks out of order unless the day runs past midnight', () => {
+    expect(validate('13:00', '17:00', '08:00', '12:00').errors).toContain(
+      'Kommt 2 muss nach Geht 1 liegen. Bitte die Zeiten prüfen.'
+    );
+    expect(validate('22:00', '01:00', '01:30', '04:00').errors).toEqual([]);
+    expect(validate('22:00', '23:30', '00:15', '04:00').errors).toEqual([]);
+    expect(validate('08:00', '12:00', '12:30', '17:00').errors).toEqual([]);
+  });
+});
@@ -0,0 +1,65 @@
+import { DEFAULT_TIME_ROUNDING_RULE } from '@/lib/data/time-rounding-settings';
+import { calculateIstHours } from '@/lib/services/time-calculations';
+import { applyTimeRounding, resolveTimeRoundingRule, roundClockTime } from '@/lib/services/time-rounding';
+
+describe('roundClockTime', () => {
+  it('rounds up, down and to the nearest step', () => {
+    expect(roundClockTime('08:03', 15, 'up')).toBe('08:15');
+    expect(roundClockTime('16:58', 15, 'down')).toBe('16:45');
+    expect(roundClockTime('16:58', 5, 'nearest')).toBe('17:00');
+    expect(roundClockTime('08:15', 15, 'up')).toBe('08:15');
+  });
+
+  it('keeps the stamp when rounding would cross midnight or is disabled', () => {
+    expect(roundClockTime('23:58', 15, 'up')).toBe('23:58');
+    expect(roundClockTime('08:03', 0, 'up')).toBe('08:03');
+  });
+});
+
+describe('applyTimeRounding', () => {
+  it('stores rounded times and keeps the raw stamps', () => {
+    const [segment] = applyTimeRounding([{ kommt: '08:03', geht: '16:58' }], DEFAULT_TIME_ROUNDING_RULE);
+    expect(segment).toEqual({ kommt: '08:15', geht: '16:45', kommtRaw: '08:03', gehtRaw: '16:58' });
+    expect(calculateIstHours([segment], '30min').netHours).toBe(8);
+  });
+
+  it('omits raw values when nothing changed', () => {
+    expect(applyTimeRounding([{ kommt: '08:00', geht: '16:30' }], DEFAULT_TIME_ROUNDING_RULE)).toEqual([
+      { kommt: '08:00', geht: '16:30' },
+    ]);
+  });
+
+  it('keeps the original raw stamps when a rounded entry is saved again', () => {
+    const stored = applyTimeRounding([{ kommt: '08:03', geht: '16:58' }], DEFAULT_TIME_ROUNDING_RULE);
+    const resaved = applyTimeRounding([{ kommt: '08:15', geht: '16:45' }], DEFAULT_TIME_ROUNDING_RULE, stored);
+    expect(resaved).toEqual(stored);
+  });
+
+  it('keeps the raw stamp of the unchanged side when only one stamp is edited', () => {
+    const stored = applyTimeRounding([{ kommt: '08:03', geht: '16:58' }], DEFAULT_TIME_ROUNDING_RULE);
+    const [segment] = applyTimeRounding([{ kommt: '08:15', geht: '18:00' }], DEFAULT_TIME_ROUNDING_RULE, stored);
+    expect(segment).toEqual({ kommt: '08:15', geht: '18:00', kommtRaw: '08:03' });
+  });
+
+  it('collapses a block that rounding would turn around instead of creating a night shift', () => {
+    const [segment] = applyTimeRounding([{ kommt: '08:05', geht: '08:10' }], DEFAULT_TIME_ROUNDING_RULE);
+    expect(segment.kommt).toBe(segment.geht);
+    expect(calculateIstHours([segment], 'Keine').rawHours).toBe(0);
+  });
+
+  it('rounds night shifts without changing their day', () => {
+    const [segment] = applyTimeRounding([{ kommt: '21:52', geht: '06:07' }], DEFAULT_TIME_ROUNDING_RULE);
+    expect(segment).toMatchObject({ kommt: '22:00', geht: '06:00' });
+  });
+});
+
+describe('resolveTimeRoundingRule', () => {
+  const branchRule = { ...DEFAULT_TIME_ROUNDING_RULE, kommtMinutes: 5, gehtMinutes: 5 };
+  const settings = { enabled: true, rule: DEFAULT_TIME_ROUNDING_RULE, branchRules: { 3: branchRule } };
+
+  it('prefers the branch rule and falls back to the tenant rule', () => {
+    expect(resolveTimeRoundingRule(settings, 3)).toBe(branchRule);
+    expect(resolveTimeRoundingRule(settings, 4)).toBe(DEFAULT_TIME_ROUNDING_RULE);
+    expect(resolveTimeRoundingRule({ ...settings, enabled: false }, 3)).toBeNull();
+  });
+});
@@ -0,0 +1,84 @@
+import { computeVacationBalance, type VacationBalanceInput } from '@/lib/services/vacation-balance';
+
+function vacationDays(startIso: string, count: number): VacationBalanceInput['records'] {
+  const start = new Date(`${startIso}T00:00:00Z`);
+  return Array.from({ length: count }, (_, index) => {
+    const day = new Date(start);
+    day.setUTCDate(start.getUTCDate() + index);
+    return { day_date: day.toISOString().slice(0, 10), code: 'U' };
+  });
+}
+
+function balanceInput(overrides: Partial<VacationBalanceInput>): VacationBalanceInput {
+  return {
+    annualDays: 30,
+    importedCarryDays: 0,
+    entryDate: '2020-01-01',
+    exitDate: null,
+    carryExpiryEnabled: false,
+    carryExpiryDate: null,
+    year: 2026,
+    records: [],
+    ...overrides,
+  };
+}
+
+describe('vacation balance with working-day pattern changes', () => {
+  it('keeps a single segment without pattern history', () => {
+    const balance = computeVacationBalance(balanceInput({ records: vacationDays('2026-02-02', 10) }));
+    expect(balance.remainingDays).toBe(20);
+    expect(balance.segments).toHaveLength(1);
+  });
+
+  it('pro-rates the entitlement per segment and keeps the days accrued before the change', () => {
+    const balance = computeVacationBalance(
+      balanceInput({
+        asOfDate: '2026-12-31',
+        records: vacationDays('2026-02-02', 10),
+        entitlementSegments: [
+          { validFrom: '2020-01-01', annualDays: 30, workdaysPerWeek: 5 },
+          { validFrom: '2026-07-01', annualDays: 18, workdaysPerWeek: 3 },
+        ],
+      })
+    );
+    expect(balance.segments.map((segment) => segment.proRataDays)).toEqual([14.88, 9.07]);
+    expect(balance.annualDays).toBe(24);
+    expect(balance.remainingDays).toBe(14);
+  });
+
+  it('keeps the carry-over when the pattern changes on January 1', () => {
+    const balance = computeVacationBalance(
+      balanceInput({
+        records: [...vacationDays('2025-03-03', 25), ...vacationDays('2026-02-02', 2)],
+        entitlementSegments: [
+          { validFrom: '2020-01-01', annualDays: 30, workdaysPerWeek: 5 },
+          { validFrom: '2026-01-01', annualDays: 24, workdaysPerWeek: 4 },
+        ],
+      })
+    );
+    expect(balance.carryStartDays).toBe(5);
+    expect(balance.carryRemainingDays).toBe(3);
+    expect(balance.remainingDays).toBe(27);
+    expect(balance.conversions).toEqual([
+      { isoDate: '2026-01-01', fromWorkdaysPerWeek: 5, toWorkdaysPerWeek: 4, remainingBefore: 5, remainingAfter: 5 },
+    ]);
+  });
+
+  it('converts the carry-over into days of a pattern with more working days', () => {
+    const balance = computeVacationBalance(
+      balanceInput({
+        asOfDate: '2026-12-31',
+        records: [...vacationDays('2025-03-03', 12), ...vacationDays('2026-09-01', 2)],
+        entitlementSegments: [
+          { validFrom: '2020-01-01', annualDays: 18, workdaysPerWeek: 3 },
+          { validFrom: '2026-07-01', annualDays: 30, workdaysPerWeek: 5 },
+        ],
+      })
+    );
+    expect(balance.carryStartDays).toBe(6);
+    expect(balance.conversions).toEqual([
+      { isoDate: '2026-07-01', fromWorkdaysPerWeek: 3, toWorkdaysPerWeek: 5, remainingBefore: 6, remainingAfter: 10 },
+    ]);
+    expect(balance.carryRemainingDays).toBe(8);
+  });
+});
@@ -0,0 +1,251 @@
+import {
+  deleteAbsenceCode,
+  listAbsenceCodes,
+  saveAbsenceCode,
+  type AbsenceCodeRow,
+} from '@/lib/data/absence-codes';
+import { listFirstDailyDayDatesWithCode } from '@/lib/data/daily-days';
+import type { CustomAbsenceCodeRule } from '@/lib/services/overtime';
+
+export interface AbsenceCodeDefinition {
+  code: string;
+  label: string;
+  color: string;
+  /** Planned hours are credited as worked when the day has no times, so no minus hours arise. */
+  countsAsWorked: boolean;
+  /** A full day with this code is taken from the vacation entitlement. */
+  reducesVacation: boolean;
+  /** Credited hours are reported as sick hours. */
+  countsAsSick: boolean;
+  /** No meal allowance (Verpflegung) on days with this code. */
+  blocksMeal: boolean;
+  /** Can be entered for a date range in one go. */
+  rangeEligible: boolean;
+  /** Column heading in the payroll export listing the hours of this code; none when empty. */
+  payrollColumn: string | null;
+  /**
+   * Built-in codes keep their behaviour from the time entry and overtime logic; a tenant can only
+   * rename, recolour, deactivate or export them.
+   */
+  builtIn: boolean;
+  /** The tenant has stored this code (own code or override of a built-in one). */
+  customized: boolean;
+  isActive: boolean;
+  sortOrder: number;
+}
+
+export type AbsenceCodeCatalog = AbsenceCodeDefinition[];
+
+function builtIn(
+  code: string,
+  label: string,
+  color: string,
+  flags: Partial<Pick<AbsenceCodeDefinition, 'countsAsWorked' | 'reducesVacation' | 'countsAsSick' | 'blocksMeal' | 'rangeEligible'>>,
+  sortOrder: number
+): AbsenceCodeDefinition {
+  return {
+    code,
+    label,
+    color,
+    countsAsWorked: flags.countsAsWorked ?? false,
+    reducesVacation: flags.reducesVacation ?? false,
+    countsAsSick: flags.countsAsSick ?? false,
+    blocksMeal: flags.blocksMeal ?? true,
+    rangeEligible: flags.rangeEligible ?? false,
+    payrollColumn: null,
+    builtIn: true,
+    customized: false,
+    isActive: true,
+    sortOrder,
+  };
+}
+
+export const BUILT_IN_ABSENCE_CODES: readonly AbsenceCodeDefinition[] = [
+  builtIn('Ü', 'Über-/Minusstundenkorrektur', '#7c3aed', { blocksMeal: false }, 10),
+  builtIn('K', 'Krank', '#dc2626', { countsAsWorked: true, countsAsSick: true, rangeEligible: true }, 20),
+  builtIn('KK', 'Kind krank', '#e11d48', { countsAsWorked: true, rangeEligible: true }, 30),
+  builtIn('KKR', 'Kind krank Reststunden', '#f43f5e', { countsAsWorked: true, rangeEligible: true }, 40),
+  builtIn('KR', 'Krank Reststunden', '#ef4444', { countsAsWorked: true, countsAsSick: true, rangeEligible: true }, 50),
+  builtIn('KU', 'Kurzarbeit', '#ca8a04', { rangeEligible: true }, 60),
+  builtIn('U', 'Urlaub', '#059669', { countsAsWorked: true, reducesVacation: true, rangeEligible: true }, 70),
+  builtIn('UH', 'Urlaub 1/2 Tag', '#10b981', { countsAsWorked: true, reducesVacation: true, rangeEligible: true }, 80),
+  builtIn('FT', 'Feiertag', '#0284c7', { countsAsWorked: true }, 90),
+  builtIn('UBF', 'Abwesend', '#64748b', {}, 100),
+];
+
+/** Codes a tenant cannot define itself because the time entry treats them specially. */
+const RESERVED_CODES = new Set(['RA', 'PLAN', ...BUILT_IN_ABSENCE_CODES.map((entry) => entry.code)]);
+
+function normalizeCode(code: string | null | undefined): string {
+  return (code ?? '').trim().toUpperCase();
+}
+
+/** Built-in codes with the tenant's overrides applied, followed by the tenant's own codes. */
+export function mergeAbsenceCodeCatalog(rows: AbsenceCodeRow[]): AbsenceCodeCatalog {
+  const rowsByCode = new Map(rows.map((row) => [normalizeCode(row.code), row]));
+  const catalog: AbsenceCodeCatalog = BUILT_IN_ABSENCE_CODES.map((entry) => {
+    const override = rowsByCode.get(entry.code);
+    if (!override) return { ...entry };
+    return {
+      ...entry,
+      customized: true,
+      label: override.label || entry.label,
+      color: override.color || entry.color,
+      payrollColumn: override.payroll_column,
+      isActive: override.is_active,
+    };
+  });
+  for (const row of rows) {
+    const code = normalizeCode(row.code);
+    if (RESERVED_CODES.has(code)) continue;
+    catalog.push({
+      code,
+      label: row.label,
+      color: row.color,
+      countsAsWorked: row.counts_as_worked,
+      reducesVacation: row.reduces_vacation,
+      countsAsSick: row.counts_as_sick,
+      blocksMeal: row.blocks_meal,
+      rangeEligible: row.range_eligible,
+      payrollColumn: row.payroll_column,
+      builtIn: false,
+      customized: true,
+      isActive: row.is_active,
+      sortOrder: row.sort_order,
+    });
+  }
+  return catalog.sort((a, b) => a.sortOrder - b.sortOrder || a.code.localeCompare(b.code, 'de'));
+}
+
+export async function getAbsenceCodeCatalog(tenantId: string): Promise<AbsenceCodeCatalog> {
+  return mergeAbsenceCodeCatalog(await listAbsenceCodes(tenantId));
+}
+
+/** Looks a code up regardless of whether it is still active, so existing entries keep their meaning. */
+export function findAbsenceCode(catalog: AbsenceCodeCatalog, code: string | null | undefined): AbsenceCodeDefinition | null {
+  const normalized = normalizeCode(code);
+  return catalog.find((entry) => entry.code === normalized) ?? null;
+}
+
+export function findCustomAbsenceCode(
+  catalog: AbsenceCodeCatalog,
+  code: string | null | undefined
+): AbsenceCodeDefinition | null {
+  const entry = findAbsenceCode(catalog, code);
+  return entry && !entry.builtIn ? entry : null;
+}
+
+/** Deactivated codes can no longer be entered, but a day that already carries the code may be saved again. */
+export function isSelectableAbsenceCode(
+  catalog: AbsenceCodeCatalog,
+  code: string | null | undefined,
+  currentCode: string | null | undefined
+): boolean {
+  const entry = findAbsenceCode(catalog, code);
+  return !entry || entry.isActive || entry.code === normalizeCode(currentCode);
+}
+
+export function isMealBlockedCode(catalog: AbsenceCodeCatalog, code: string | null | undefined): boolean {
+  return findAbsenceCode(catalog, code)?.blocksMeal ?? false;
+}
+
+export function isRangeEligibleCode(catalog: AbsenceCodeCatalog, code: string | null | undefined): boolean {
+  return findAbsenceCode(catalog, code)?.rangeEligible ?? false;
+}
+
+/** Absence days bring no revenue, so no Tillhub gross is fetched for them; Ü days are worked days. */
+export function isNonRevenueCode(catalog: AbsenceCodeCatalog, code: string | null | undefined): boolean {
+  const entry = findAbsenceCode(catalog, code);
+  return Boolean(entry && entry.code !== 'Ü');
+}
+
+/** Vacation days a single entry of each code uses up. */
+export function getVacationDayCodes(catalog: AbsenceCodeCatalog): Map<string, number> {
+  const codes = new Map<string, number>();
+  for (const entry of catalog) {
+    if (!entry.reducesVacation) continue;
+    codes.set(entry.code, entry.code === 'UH' ? 0.5 : 1);
+  }
+  return codes;
+}
+
+export function getCustomAbsenceCodeRules(catalog: AbsenceCodeCatalog): Map<string, CustomAbsenceCodeRule> {
+  return new Map(
+    catalog
+      .filter((entry) => !entry.builtIn)
+      .map((entry) => [
+        entry.code,
+        {
+          countsAsWorked: entry.countsAsWorked,
+          reducesVacation: entry.reducesVacation,
+          countsAsSick: entry.countsAsSick,
+        },
+      ])
+  );
+}
+
+export function getCustomAbsenceCodes(catalog: AbsenceCodeCatalog): string[] {
+  return catalog.filter((entry) => !entry.builtIn).map((entry) => entry.code);
+}
+
+/**
+ * Stores a tenant code. Resolves to true when the overtime-relevant behaviour of an own code changed, so the
+ * overtime of the employees using it has to be replayed.
+ */
+export async function saveTenantAbsenceCode(
+  tenantId: string,
+  input: Omit<AbsenceCodeDefinition, 'builtIn' | 'customized'>
+): Promise<boolean> {
+  const code = normalizeCode(input.code);
+  if (!/^[A-ZÄÖÜ0-9]{1,6}$/.test(code)) {
+    throw new Error('Der Code darf nur aus bis zu 6 Buchstaben oder Ziffern bestehen.');
+  }
+  if (code === 'RA' || code === 'PLAN') {
+    throw new Error(`„${code}“ ist reserviert.`);
+  }
+  const label = input.label.trim();
+  if (!label) {
+    throw new Error('Bitte eine Bezeichnung angeben.');
+  }
+  const color = /^#[0-9a-f]{6}$/i.test(input.color) ? input.color.toLowerCase() : '#64748b';
+  const payrollColumn = input.payrollColumn?.trim().slice(0, 60) || null;
+
+  const builtInEntry = BUILT_IN_ABSENCE_CODES.find((entry) => entry.code === code);
+  // Behaviour of built-in codes is fixed; the stored flags only mirror it.
+  const flags = builtInEntry ?? input;
+  const previous = builtInEntry ? null : findCustomAbsenceCode(await getAbsenceCodeCatalog(tenantId), code);
+  await saveAbsenceCode(tenantId, {
+    code,
+    label,
+    color,
+    countsAsWorked: flags.countsAsWorked,
+    reducesVacation: flags.reducesVacation,
+    countsAsSick: flags.countsAsSick,
+    blocksMeal: flags.blocksMeal,
+    rangeEligible: flags.rangeEligible,
+    payrollColumn,
+    isActive: input.isActive,
+    sortOrder: builtInEntry ? builtInEntry.sortOrder : input.sortOrder,
+  });
+  return Boolean(
+    previous &&
+      (previous.countsAsWorked !== flags.countsAsWorked ||
+        previous.reducesVacation !== flags.reducesVacation ||
+        previous.countsAsSick !== flags.countsAsSick)
+  );
+}
+
+/**
+ * Removes a tenant code; for a built-in code this only resets label, colour and export column. Own codes that
+ * are still recorded on days cannot be removed, otherwise those days would lose their meaning.
+ */
+export async function deleteTenantAbsenceCode(tenantId: string, code: string): Promise<void> {
+  const normalized = normalizeCode(code);
+  const isBuiltIn = BUILT_IN_ABSENCE_CODES.some((entry) => entry.code === normalized);
+  if (!isBuiltIn && (await listFirstDailyDayDatesWithCode(tenantId, normalized)).size > 0) {
+    throw new Error(
+      `Der Code ${normalized} wird noch in Zeiteinträgen verwendet und kann nicht entfernt werden. Bitte deaktiviere ihn stattdessen.`
+    );
+  }
+  await deleteAbsenceCode(tenantId, normalized);
+}
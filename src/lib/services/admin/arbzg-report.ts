@@ -0,0 +1,156 @@
+import * as XLSX from 'xlsx';
+
+import { listBranchesForEmployees } from '@/lib/data/branches';
+import { listDailyDayRecordsForEmployees, type DailyDayRecord } from '@/lib/data/daily-days';
+import { listActiveEmployeeRecords } from '@/lib/data/employees';
+import { listShiftPlanDaysForEmployees, type ShiftPlanDayRecord } from '@/lib/data/shift-plan-days';
+import {
+  ARBZG_RULE_LABELS,
+  arbzgContextStart,
+  evaluateArbzgCompliance,
+  mergeWorkDays,
+  workDaysFromPlan,
+  workDaysFromRecords,
+  type ArbzgViolation,
+} from '@/lib/services/arbzg';
+
+export type ArbzgReportFormat = 'csv' | 'xlsx';
+
+export type ArbzgReportRow = ArbzgViolation & {
+  employeeId: number;
+  personalNr: string;
+  mitarbeiter: string;
+  branches: string;
+};
+
+function monthBounds(year: number, month: number): { startIso: string; endIso: string } {
+  const paddedMonth = String(month).padStart(2, '0');
+  const lastDay = new Date(year, month, 0).getDate();
+  return {
+    startIso: `${year}-${paddedMonth}-01`,
+    endIso: `${year}-${paddedMonth}-${String(lastDay).padStart(2, '0')}`,
+  };
+}
+
+function formatGermanDate(iso: string): string {
+  const [year, month, day] = iso.split('-');
+  if (!year || !month || !day) return iso;
+  return `${day}.${month}.${year}`;
+}
+
+function csvEscape(value: string): string {
+  if (value.includes(';') || value.includes('"') || value.includes('\n')) {
+    return `"${value.replaceAll('"', '""')}"`;
+  }
+  return value;
+}
+
+const REPORT_HEADER = ['Personal-Nr.', 'Mitarbeiter', 'Filiale', 'Datum', 'Regel', 'Quelle', 'Hinweis'];
+
+function toRowValues(row: ArbzgReportRow): string[] {
+  return [
+    row.personalNr,
+    row.mitarbeiter,
+    row.branches,
+    formatGermanDate(row.dayDate),
+    ARBZG_RULE_LABELS[row.rule],
+    row.source === 'plan' ? 'Schichtplan' : 'Erfasst',
+    row.message,
+  ];
+}
+
+/**
+ * Collects ArbZG violations of all active employees for one month, optionally limited to one branch.
+ * Recorded days win over the shift plan; planned days without a record are checked as well, so
+ * violations can be fixed before the shift is worked.
+ */
+export async function getArbzgReport(
+  tenantId: string,
+  year: number,
+  month: number,
+  branchId?: number | null
+): Promise<ArbzgReportRow[]> {
+  const { startIso, endIso } = monthBounds(year, month);
+  const contextStart = arbzgContextStart(startIso);
+  const employees = await listActiveEmployeeRecords(tenantId);
+  const branchesByEmployee = await listBranchesForEmployees(
+    tenantId,
+    employees.map((employee) => employee.id)
+  );
+  const targets = branchId
+    ? employees.filter((employee) =>
+        (branchesByEmployee.get(employee.id) ?? []).some((branch) => branch.id === branchId)
+      )
+    : employees;
+  if (!targets.length) {
+    return [];
+  }
+
+  const targetIds = targets.map((employee) => employee.id);
+  const [planRows, dayRecords] = await Promise.all([
+    listShiftPlanDaysForEmployees(targetIds, contextStart, endIso),
+    listDailyDayRecordsForEmployees(targetIds, contextStart, endIso),
+  ]);
+  const planByEmployee = new Map<number, ShiftPlanDayRecord[]>();
+  for (const row of planRows) {
+    const list = planByEmployee.get(row.employee_id) ?? [];
+    list.push(row);
+    planByEmployee.set(row.employee_id, list);
+  }
+  const recordsByEmployee = new Map<number, DailyDayRecord[]>();
+  for (const record of dayRecords) {
+    const list = recordsByEmployee.get(record.employee_id) ?? [];
+    list.push(record);
+    recordsByEmployee.set(record.employee_id, list);
+  }
+
+  const rows: ArbzgReportRow[] = [];
+  for (const employee of targets) {
+    const days = mergeWorkDays(
+      workDaysFromRecords(recordsByEmployee.get(employee.id) ?? []),
+      workDaysFromPlan(planByEmployee.get(employee.id) ?? [])
+    );
+    const violations = evaluateArbzgCompliance(days, { start: startIso, end: endIso });
+    const branches = (branchesByEmployee.get(employee.id) ?? []).map((branch) => branch.name).join(', ');
+    for (const violation of violations) {
+      rows.push({
+        ...violation,
+        employeeId: employee.id,
+        personalNr: employee.personnel_number ?? '',
+        mitarbeiter: `${employee.last_name}, ${employee.first_name}`,
+        branches,
+      });
+    }
+  }
+  return rows;
+}
+
+export async function createArbzgReportFile(
+  tenantId: string,
+  year: number,
+  month: number,
+  format: ArbzgReportFormat,
+  branchId?: number | null
+): Promise<{ filename: string; contentType: string; body: Buffer }> {
+  const rows = await getArbzgReport(tenantId, year, month, branchId);
+  const base = `arbzg-verstoesse-${year}-${String(month).padStart(2, '0')}${branchId ? `-filiale-${branchId}` : ''}`;
+
+  if (format === 'xlsx') {
+    const sheet = XLSX.utils.aoa_to_sheet([REPORT_HEADER, ...rows.map(toRowValues)]);
+    sheet['!cols'] = [{ wch: 14 }, { wch: 30 }, { wch: 24 }, { wch: 12 }, { wch: 28 }, { wch: 12 }, { wch: 80 }];
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, `ArbZG ${String(month).padStart(2, '0')}-${year}`);
+    return {
+      filename: `${base}.xlsx`,
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      body: Buffer.from(XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })),
+    };
+  }
+
+  const lines = rows.map((row) => toRowValues(row).map(csvEscape).join('; '));
+  return {
+    filename: `${base}.csv`,
+    contentType: 'text/csv; charset=utf-8',
+    body: Buffer.from([REPORT_HEADER.join('; '), ...lines].join('\n'), 'utf8'),
+  };
+}
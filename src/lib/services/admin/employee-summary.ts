@@ -20,10 +20,12 @@ import {
 } from '@/lib/data/employee-overtime-payouts';
 import { createEmployeeOvertimeAdjustment, listEmployeeOvertimeAdjustments } from '@/lib/data/employee-overtime-adjustments';
 import { listMonthlyClosings } from '@/lib/data/monthly-closings';
-import { calculateIstHours, calculateLegalPauseHours } from '@/lib/services/time-calculations';
+import { calculateIstHours, calculateLegalPauseHours, type WorkSegment } from '@/lib/services/time-calculations';
 import { toLocalIsoDate } from '@/lib/date/local-iso';
 import { getAdminEmployeeDetails, getEmployeeBonusConfiguration, saveEmployeeOvertimeBalance, type EmployeeAdminDetails, type BonusScheme, type BonusTier } from './employee';
 import { computeVacationBalance, resolveCarryExpiryIsoForYear } from '@/lib/services/vacation-balance';
+import { getVacationEntitlementSegments } from '@/lib/services/employment-contracts';
+import { getAbsenceCodeCatalog, getVacationDayCodes, isMealBlockedCode } from '@/lib/services/absence-codes';
 import { sendVacationCarryExpiryNotification } from '@/lib/services/vacation-carry-notification';
 
 type SummaryGroupId = 'sales' | 'bonus' | 'worktime' | 'absences';
@@ -117,14 +119,12 @@ const MONTH_NAMES = [
   'Dezember',
 ];
 
-const NON_WORK_CODES = new Set(['U', 'UH', 'FT', 'K', 'KK', 'KKR', 'KR', 'KU', 'UBF']);
-
 const MIN_EFFECTIVE_HOURS = 0.005;
 
 const formatPauseString = (minutes: number): string => (minutes > 0 ? `${minutes}min.` : 'Keine');
 
 const computeNetHours = (start: string | null | undefined, end: string | null | undefined, pauseMinutes: number): number => {
-  const result = calculateIstHours(start ?? '', end ?? '', null, null, formatPauseString(pauseMinutes));
+  const result = calculateIstHours([{ kommt: start ?? null, geht: end ?? null }], formatPauseString(pauseMinutes));
   return result.netHours;
 };
 
@@ -246,6 +246,15 @@ function formatDateLabel(expiryValue: string | null | undefined, year: number):
   return parsed.toLocaleDateString('de-DE');
 }
 
+function formatWorkdays(value: number): string {
+  return `${value.toLocaleString('de-DE', { maximumFractionDigits: 1 })} Tage/Woche`;
+}
+
+function formatIsoDay(isoDate: string): string {
+  const [year, month, day] = isoDate.split('-');
+  return year && month && day ? `${day}.${month}.${year}` : isoDate;
+}
+
 function monthName(month: number): string {
   const index = month - 1;
   return MONTH_NAMES[index] ?? '';
@@ -507,6 +516,7 @@ export async function getMonthlyAdminSummary(
       geht1: null,
       kommt2: null,
       geht2: null,
+      segments: [] as WorkSegment[],
       pause: 'Keine',
       code: syntheticCode,
       bemerkungen: null,
@@ -582,13 +592,7 @@ export async function getMonthlyAdminSummary(
 
   const monthlyIst = roundTwo(
     combinedRecords.reduce((acc, row) => {
-      const result = calculateIstHours(
-        row.kommt1 ?? '',
-        row.geht1 ?? '',
-        row.kommt2 ?? '',
-        row.geht2 ?? '',
-        row.pause ?? 'Keine'
-      );
+      const result = calculateIstHours(row.segments, row.pause ?? 'Keine');
       return acc + result.netHours;
     }, 0)
   );
@@ -679,27 +683,20 @@ export async function getMonthlyAdminSummary(
     combinedRecords.reduce((acc, row) => acc + Number(row.holiday_hours ?? 0), 0)
   );
 
+  const absenceCodes = await getAbsenceCodeCatalog(tenantId);
   const allowMittag = (employee.sachbezug_verpflegung ?? '').toLowerCase() === 'ja';
   const verpflegungCount = allowMittag
     ? combinedRecords.filter((row) => {
         if ((row.mittag ?? '').toLowerCase() !== 'ja') {
           return false;
         }
-        const code = (row.code ?? '').trim().toUpperCase();
-        if (NON_WORK_CODES.has(code)) {
-          return false;
-        }
-        return true;
+        return !isMealBlockedCode(absenceCodes, row.code);
       }).length
     : 0;
 
+  const vacationCodes = getVacationDayCodes(absenceCodes);
   const monthlyVacationDays = roundTwo(
-    combinedRecords.reduce((acc, row) => {
-      const code = (row.code ?? '').trim().toUpperCase();
-      if (code === 'U') return acc + 1;
-      if (code === 'UH') return acc + 0.5;
-      return acc;
-    }, 0)
+    combinedRecords.reduce((acc, row) => acc + (vacationCodes.get((row.code ?? '').trim().toUpperCase()) ?? 0), 0)
   );
 
   const yearlyVacationDays = roundTwo(Number(employee.vacation_days_total ?? 0));
@@ -720,6 +717,7 @@ export async function getMonthlyAdminSummary(
 
   const vacationBalance = computeVacationBalance({
     annualDays: yearlyVacationDays,
+    entitlementSegments: await getVacationEntitlementSegments(tenantId, employeeId),
     importedCarryDays: roundTwo(
       Number(employee.opening_vacation_carry_days ?? employee.vacation_days_last_year ?? 0)
     ),
@@ -732,6 +730,7 @@ export async function getMonthlyAdminSummary(
     carryExpiryNotified,
     year,
     records: allRecords,
+    vacationCodes,
   });
 
   const monthEndIso = `${year}-${String(month).padStart(2, '0')}-${String(lastDay).padStart(2, '0')}`;
@@ -844,6 +843,29 @@ export async function getMonthlyAdminSummary(
       ? formatDateLabel(employee.vacation_carry_expiry_date, year)
       : null;
 
+  const vacationPatternMetrics: SummaryMetric[] = [
+    ...(vacationBalance.segments.length > 1
+      ? vacationBalance.segments.map((segment) => ({
+          id: `vacation-segment-${segment.validFrom}`,
+          label: `Anspruch ${formatIsoDay(segment.validFrom)}–${formatIsoDay(segment.validUntil)} (${formatWorkdays(
+            segment.workdaysPerWeek
+          )})`,
+          value: `${hoursFormatter.format(segment.proRataDays)} von ${hoursFormatter.format(segment.annualDays)} Tagen`,
+          rawValue: segment.proRataDays,
+        }))
+      : []),
+    ...vacationBalance.conversions.map((conversion) => ({
+      id: `vacation-conversion-${conversion.isoDate}`,
+      label: `Übertrag umgerechnet am ${formatIsoDay(conversion.isoDate)} (${formatWorkdays(
+        conversion.fromWorkdaysPerWeek
+      )} → ${formatWorkdays(conversion.toWorkdaysPerWeek)})`,
+      value: `${hoursFormatter.format(conversion.remainingBefore)} → ${hoursFormatter.format(
+        conversion.remainingAfter
+      )} Tage`,
+      rawValue: conversion.remainingAfter,
+    })),
+  ];
+
   const preferences = ensurePreferences(await getFooterPreferences(employeeId));
 
   const groups: SummaryGroup[] = [
@@ -983,6 +1005,7 @@ export async function getMonthlyAdminSummary(
           value: `${hoursFormatter.format(yearlyVacationDays)} Tage`,
           rawValue: yearlyVacationDays,
         },
+        ...vacationPatternMetrics,
         {
           id: 'vacation-carry-over',
           label: carryExpiryLabel
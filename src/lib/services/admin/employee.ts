@@ -51,7 +51,8 @@ import {
   getEmployeeOnboardingSubmissionSnapshot,
   type EmployeeOnboardingSubmissionSnapshot,
 } from '@/lib/services/employee-onboarding';
-import { calculateIstHours, calculateLegalPauseHours } from '@/lib/services/time-calculations';
+import { calculateIstHours, calculateLegalPauseHours, type WorkSegment } from '@/lib/services/time-calculations';
+import { recordEmploymentContractChange } from '@/lib/services/employment-contracts';
 import {
   deleteShiftPlanDaysAfter,
   deriveCodeFromPlanLabel,
@@ -196,7 +197,7 @@ function resolveFallbackShiftPlanDay(
 const formatPauseString = (minutes: number): string => (minutes > 0 ? `${minutes}min.` : 'Keine');
 
 const computeNetHours = (start: string | null | undefined, end: string | null | undefined, pauseMinutes: number): number => {
-  const result = calculateIstHours(start ?? '', end ?? '', null, null, formatPauseString(pauseMinutes));
+  const result = calculateIstHours([{ kommt: start ?? null, geht: end ?? null }], formatPauseString(pauseMinutes));
   return result.netHours;
 };
 
@@ -351,10 +352,7 @@ export interface DailyOverviewEntry {
   displayDate: string;
   brutto: number;
   bruttoFormatted: string;
-  kommt1: string | null;
-  geht1: string | null;
-  kommt2: string | null;
-  geht2: string | null;
+  segments: WorkSegment[];
   pause: string | null;
   mittag: string | null;
   planStatus: string | null;
@@ -397,7 +395,7 @@ function formatCodeDisplay(row: DailyDayRecord): string {
 }
 
 function toDailyOverviewEntry(row: DailyDayRecord): DailyOverviewEntry {
-  const istResult = calculateIstHours(row.kommt1, row.geht1, row.kommt2, row.geht2, row.pause ?? 'Keine');
+  const istResult = calculateIstHours(row.segments, row.pause ?? 'Keine');
   const sollHours = Number(row.plan_hours ?? 0);
 
   return {
@@ -405,10 +403,7 @@ function toDailyOverviewEntry(row: DailyDayRecord): DailyOverviewEntry {
     displayDate: new Date(`${row.day_date}T00:00:00`).toLocaleDateString('de-DE'),
     brutto: Number(row.brutto ?? 0),
     bruttoFormatted: `${Number(row.brutto ?? 0).toFixed(2)} €`.replace('.', ','),
-    kommt1: row.kommt1,
-    geht1: row.geht1,
-    kommt2: row.kommt2,
-    geht2: row.geht2,
+    segments: row.segments,
     pause: row.pause ?? 'Keine',
     mittag: row.mittag ?? null,
     planStatus: (row.schicht ?? '').trim() || null,
@@ -661,10 +656,7 @@ export async function getDailyOverview(
       displayDate,
       brutto: 0,
       bruttoFormatted: '0,00 €',
-      kommt1: planDay.start ?? null,
-      geht1: planDay.end ?? null,
-      kommt2: null,
-      geht2: null,
+      segments: [{ kommt: planDay.start ?? null, geht: planDay.end ?? null }],
       pause: 'Keine',
       mittag: 'Nein',
       planStatus: planLabel,
@@ -905,6 +897,15 @@ export async function updateAdminEmployeeProfile(
     show_in_calendar: input.showInCalendar,
   };
 
+  // Runs before the save: changed contract terms become a new version from today, earlier days keep theirs.
+  await recordEmploymentContractChange(tenantId, input.employeeId, {
+    weeklyHours: Number(input.weeklyHours ?? existing.weekly_hours ?? 0),
+    compensationType,
+    hourlyWage: compensationResolution.hourlyWage ?? existing.hourly_wage,
+    monthlySalaryGross: compensationResolution.monthlySalaryGross,
+    vacationDays: Number(payload.vacation_days_total ?? 0),
+  });
+
   await saveAdminEmployeeDetails(tenantId, payload);
 
   await syncAdminEmployeeProfileToControlPlane(tenantId, {
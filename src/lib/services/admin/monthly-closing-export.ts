@@ -1,13 +1,24 @@
 import { jsPDF } from 'jspdf';
 import * as XLSX from 'xlsx';
 
+import { listBranchesForEmployees } from '@/lib/data/branches';
 import { listDailyDayRecords, type DailyDayRecord } from '@/lib/data/daily-days';
 import { getEmployeeBonusEntry } from '@/lib/data/employee-bonus';
 import { getEmployeeOvertimePayout } from '@/lib/data/employee-overtime-payouts';
+import { listSickLeaveEpisodesForEmployee } from '@/lib/data/sick-leave-episodes';
+import { getSurchargeSettings, type SurchargeSettings } from '@/lib/data/surcharge-settings';
+import { getAbsenceCodeCatalog, type AbsenceCodeCatalog } from '@/lib/services/absence-codes';
 import { getMonthlyClosingStates } from '@/lib/services/admin/monthly-closing';
 import { getMonthlyAdminSummary } from '@/lib/services/admin/employee-summary';
 import { getAdminEmployeeList } from '@/lib/services/admin/employee';
 import { getShiftPlan, getPlanHoursForDayFromPlan } from '@/lib/services/shift-plan';
+import {
+  getEmploymentContractTimeline,
+  monthlyCompensationForPayroll,
+  type EmploymentContractVersion,
+} from '@/lib/services/employment-contracts';
+import { summarizeSickLeaveForPayroll } from '@/lib/services/sick-leave';
+import { resolveSurchargeRegion, summarizeSurcharges } from '@/lib/services/surcharges';
 import { getPrisma } from '@/lib/prisma';
 
 export type PayrollExportFormat = 'csv' | 'xlsx' | 'pdf';
@@ -16,6 +27,8 @@ export type PayrollExportRow = {
   personalNr: string;
   mitarbeiter: string;
   verguetungEuro: number;
+  /** Contract versions that start within the month, e.g. a change of weekly hours or wage. */
+  vertragsaenderungen: string;
   sollStunden: number;
   sachbezugEuro: number;
   verpflegungAnzahl: number;
@@ -26,9 +39,21 @@ export type PayrollExportRow = {
   kranktageZeitraeume: string;
   kindKrankStunden: number;
   kindKranktageZeitraeume: string;
+  auZeitraeume: string;
+  entgeltfortzahlungBis: string;
+  krankengeldTage: number;
   unbezahlteFehlstunden: number;
+  nachtStunden: number;
+  sonntagStunden: number;
+  feiertagStunden: number;
+  /** Hours per absence code that has a payroll column in the tenant's catalog. */
+  codeStunden: Record<string, number>;
 };
 
+type SurchargeColumns = Pick<SurchargeSettings, 'nightPercent' | 'sundayPercent' | 'holidayPercent'> | null;
+
+type AbsenceCodeColumns = Array<{ code: string; heading: string }>;
+
 const HOURS_DECIMALS = 2;
 const NON_BREAKING_SPACE = '\u00a0';
 
@@ -80,6 +105,10 @@ function toRanges(isoDates: string[]): string {
   }
   ranges.push({ start, end: prev });
 
+  return formatRanges(ranges);
+}
+
+function formatRanges(ranges: Array<{ start: string; end: string }>): string {
   return ranges
     .map((range) =>
       range.start === range.end
@@ -89,6 +118,19 @@ function toRanges(isoDates: string[]): string {
     .join('; ');
 }
 
+function describeContractChanges(timeline: EmploymentContractVersion[], startIso: string, endIso: string): string {
+  return timeline
+    .filter((version, index) => index > 0 && version.validFrom >= startIso && version.validFrom <= endIso)
+    .map((version) => {
+      const pay =
+        version.compensationType === 'fixed'
+          ? `${formatDecimal(Number(version.monthlySalaryGross ?? 0))} €/Monat`
+          : `${formatDecimal(Number(version.hourlyWage ?? 0))} €/h`;
+      return `ab ${formatGermanDate(version.validFrom)}: ${formatDecimal(version.weeklyHours)} h/Woche, ${pay}`;
+    })
+    .join('; ');
+}
+
 function getMetricRaw(summary: Awaited<ReturnType<typeof getMonthlyAdminSummary>>, metricId: string): number {
   for (const group of summary.groups) {
     const metric = group.metrics.find((entry) => entry.id === metricId);
@@ -112,12 +154,37 @@ function csvEscape(value: string): string {
   return value;
 }
 
-function toCsv(rows: PayrollExportRow[]): string {
+function surchargeHeaders(columns: SurchargeColumns): string[] {
+  if (!columns) return [];
+  return [
+    `Nachtzuschlag ${columns.nightPercent} % (h)`,
+    `Sonntagszuschlag ${columns.sundayPercent} % (h)`,
+    `Feiertagszuschlag ${columns.holidayPercent} % (h)`,
+  ];
+}
+
+function surchargeValues(row: PayrollExportRow, columns: SurchargeColumns): number[] {
+  if (!columns) return [];
+  return [row.nachtStunden, row.sonntagStunden, row.feiertagStunden];
+}
+
+function absenceCodeColumns(catalog: AbsenceCodeCatalog): AbsenceCodeColumns {
+  return catalog
+    .filter((entry) => entry.payrollColumn)
+    .map((entry) => ({ code: entry.code, heading: `${entry.payrollColumn} (h)` }));
+}
+
+function absenceCodeValues(row: PayrollExportRow, columns: AbsenceCodeColumns): number[] {
+  return columns.map((column) => row.codeStunden[column.code] ?? 0);
+}
+
+function toCsv(rows: PayrollExportRow[], surcharges: SurchargeColumns, codeColumns: AbsenceCodeColumns): string {
   const header = [
     'Personal-Nr.',
     'Mitarbeiter',
     'SOLL-Stunden',
     'Vergütung (€)',
+    'Vertragsänderung',
     'Sachbezug (€)',
     'Verpflegung (Anz.)',
     'Ausgezahlte Überstunden (h)',
@@ -127,7 +194,12 @@ function toCsv(rows: PayrollExportRow[]): string {
     'Kranktage Zeiträume',
     'Kind krank (h)',
     'Kindkranktage Zeiträume',
+    'AU-Zeiträume',
+    'Entgeltfortzahlung bis',
+    'Krankengeldtage',
     'unbezahlte Fehlstunden (h)',
+    ...surchargeHeaders(surcharges),
+    ...codeColumns.map((column) => column.heading),
   ];
 
   const lines = rows.map((row) =>
@@ -136,6 +208,7 @@ function toCsv(rows: PayrollExportRow[]): string {
       row.mitarbeiter,
       formatDecimal(row.sollStunden),
       formatDecimal(row.verguetungEuro),
+      row.vertragsaenderungen,
       formatDecimal(row.sachbezugEuro),
       String(row.verpflegungAnzahl),
       formatDecimal(row.ausgezahlteUeberstunden),
@@ -145,7 +218,12 @@ function toCsv(rows: PayrollExportRow[]): string {
       row.kranktageZeitraeume,
       formatDecimal(row.kindKrankStunden),
       row.kindKranktageZeitraeume,
+      row.auZeitraeume,
+      row.entgeltfortzahlungBis,
+      String(row.krankengeldTage),
       formatDecimal(row.unbezahlteFehlstunden),
+      ...surchargeValues(row, surcharges).map(formatDecimal),
+      ...absenceCodeValues(row, codeColumns).map(formatDecimal),
     ]
       .map((value) => csvEscape(value))
       .join('; ')
@@ -154,13 +232,20 @@ function toCsv(rows: PayrollExportRow[]): string {
   return [header.join('; '), ...lines].join('\n');
 }
 
-function toXlsx(rows: PayrollExportRow[], year: number, month: number): Buffer {
+function toXlsx(
+  rows: PayrollExportRow[],
+  year: number,
+  month: number,
+  surcharges: SurchargeColumns,
+  codeColumns: AbsenceCodeColumns
+): Buffer {
   const aoa: Array<Array<string | number>> = [
     [
       'Personal-Nr.',
       'Mitarbeiter',
       'SOLL-Stunden',
       'Vergütung (€)',
+      'Vertragsänderung',
       'Sachbezug (€)',
       'Verpflegung (Anz.)',
       'Ausgezahlte Überstunden (h)',
@@ -170,7 +255,12 @@ function toXlsx(rows: PayrollExportRow[], year: number, month: number): Buffer {
       'Kranktage Zeiträume',
       'Kind krank (h)',
       'Kindkranktage Zeiträume',
+      'AU-Zeiträume',
+      'Entgeltfortzahlung bis',
+      'Krankengeldtage',
       'unbezahlte Fehlstunden (h)',
+      ...surchargeHeaders(surcharges),
+      ...codeColumns.map((column) => column.heading),
     ],
   ];
 
@@ -180,6 +270,7 @@ function toXlsx(rows: PayrollExportRow[], year: number, month: number): Buffer {
       row.mitarbeiter,
       row.sollStunden,
       row.verguetungEuro,
+      row.vertragsaenderungen,
       row.sachbezugEuro,
       row.verpflegungAnzahl,
       row.ausgezahlteUeberstunden,
@@ -189,7 +280,12 @@ function toXlsx(rows: PayrollExportRow[], year: number, month: number): Buffer {
       row.kranktageZeitraeume,
       row.kindKrankStunden,
       row.kindKranktageZeitraeume,
+      row.auZeitraeume,
+      row.entgeltfortzahlungBis,
+      row.krankengeldTage,
       row.unbezahlteFehlstunden,
+      ...surchargeValues(row, surcharges),
+      ...absenceCodeValues(row, codeColumns),
     ]);
   }
 
@@ -199,6 +295,7 @@ function toXlsx(rows: PayrollExportRow[], year: number, month: number): Buffer {
     { wch: 30 },
     { wch: 12 },
     { wch: 12 },
+    { wch: 36 },
     { wch: 12 },
     { wch: 12 },
     { wch: 16 },
@@ -208,7 +305,12 @@ function toXlsx(rows: PayrollExportRow[], year: number, month: number): Buffer {
     { wch: 36 },
     { wch: 12 },
     { wch: 36 },
+    { wch: 36 },
+    { wch: 16 },
+    { wch: 14 },
     { wch: 14 },
+    ...surchargeHeaders(surcharges).map(() => ({ wch: 16 })),
+    ...codeColumns.map(() => ({ wch: 16 })),
   ];
 
   const workbook = XLSX.utils.book_new();
@@ -216,7 +318,13 @@ function toXlsx(rows: PayrollExportRow[], year: number, month: number): Buffer {
   return Buffer.from(XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }));
 }
 
-function toPdf(rows: PayrollExportRow[], year: number, month: number): Buffer {
+function toPdf(
+  rows: PayrollExportRow[],
+  year: number,
+  month: number,
+  surcharges: SurchargeColumns,
+  codeColumns: AbsenceCodeColumns
+): Buffer {
   const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
   const pageWidth = 297;
   const pageHeight = 210;
@@ -229,6 +337,7 @@ function toPdf(rows: PayrollExportRow[], year: number, month: number): Buffer {
     'Mitarbeiter',
     'SOLL (h)',
     'Vergütung (€)',
+    'Vertragsänderung',
     'Sachbez. (€)',
     'Verpfl.',
     'Ausgez. Ü (h)',
@@ -238,9 +347,18 @@ function toPdf(rows: PayrollExportRow[], year: number, month: number): Buffer {
     'Kranktage Zeiträume',
     'Kind krank (h)',
     'Kindkranktage Zeiträume',
+    'AU-Zeiträume',
+    'EFZ bis',
+    'Krankengeld (Tage)',
     'UBF (h)',
+    ...surchargeHeaders(surcharges),
+    ...codeColumns.map((column) => column.heading),
+  ];
+  const widths = [
+    14, 26, 14, 15, 30, 14, 11, 15, 14, 13, 12, 30, 14, 30, 30, 14, 13, 12,
+    ...surchargeHeaders(surcharges).map(() => 14),
+    ...codeColumns.map(() => 14),
   ];
-  const widths = [14, 26, 14, 15, 14, 11, 15, 14, 13, 12, 30, 14, 30, 12];
   const widthTotal = widths.reduce((sum, value) => sum + value, 0);
   const scale = printableWidth / widthTotal;
   const scaledWidths = widths.map((width) => width * scale);
@@ -297,6 +415,7 @@ function toPdf(rows: PayrollExportRow[], year: number, month: number): Buffer {
       row.mitarbeiter,
       formatDecimal(row.sollStunden),
       formatDecimal(row.verguetungEuro),
+      row.vertragsaenderungen,
       formatDecimal(row.sachbezugEuro),
       String(row.verpflegungAnzahl),
       formatDecimal(row.ausgezahlteUeberstunden),
@@ -306,7 +425,12 @@ function toPdf(rows: PayrollExportRow[], year: number, month: number): Buffer {
       row.kranktageZeitraeume,
       formatDecimal(row.kindKrankStunden),
       row.kindKranktageZeitraeume,
+      row.auZeitraeume,
+      row.entgeltfortzahlungBis,
+      String(row.krankengeldTage),
       formatDecimal(row.unbezahlteFehlstunden),
+      ...surchargeValues(row, surcharges).map(formatDecimal),
+      ...absenceCodeValues(row, codeColumns).map(formatDecimal),
     ]);
   }
 
@@ -358,11 +482,18 @@ export async function buildPayrollExportRows(
       monthlySalaryGross: true,
       sachbezuege: true,
       sachbezuegeAmount: true,
+      federalState: true,
     },
     orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }],
   });
 
   const { startIso, endIso } = monthBounds(year, month);
+  const surchargeSettings = await getSurchargeSettings(tenantId);
+  const branchesByEmployee = await listBranchesForEmployees(
+    tenantId,
+    employeeRows.map((employee) => employee.id)
+  );
+  const codeColumns = absenceCodeColumns(await getAbsenceCodeCatalog(tenantId));
   const rows: PayrollExportRow[] = [];
 
   for (const employee of employeeRows) {
@@ -377,11 +508,14 @@ export async function buildPayrollExportRows(
     const sickHours = round2(getMetricRaw(summary, 'sick-hours'));
     const childSickHours = round2(getMetricRaw(summary, 'child-sick-hours'));
     const sollHours = round2(getMetricRaw(summary, 'soll-hours'));
-    const verguetungEuro = round2(
-      employee.compensationType === 'fixed'
-        ? Number(employee.monthlySalaryGross ?? 0)
-        : Number(employee.hourlyWage ?? 0)
-    );
+    const contracts = await getEmploymentContractTimeline(tenantId, employee.id);
+    const verguetungEuro = contracts.length
+      ? monthlyCompensationForPayroll(contracts, year, month)
+      : round2(
+          employee.compensationType === 'fixed'
+            ? Number(employee.monthlySalaryGross ?? 0)
+            : Number(employee.hourlyWage ?? 0)
+        );
 
     const sickDates = monthlyRecords
       .filter((record) => {
@@ -397,25 +531,45 @@ export async function buildPayrollExportRows(
       })
       .map((record) => record.day_date);
 
+    const sickLeave = summarizeSickLeaveForPayroll(
+      await listSickLeaveEpisodesForEmployee(tenantId, employee.id),
+      startIso,
+      endIso
+    );
+
     const autoPayoutHours = round2(
       monthlyRecords.reduce((sum, record) => sum + Number(record.forced_overflow_real ?? 0), 0)
     );
 
-    const unpaidHours = round2(
-      monthlyRecords.reduce((sum, record) => {
-        const code = (record.code ?? '').trim().toUpperCase();
-        if (code !== 'UBF') return sum;
-        const storedPlanHours = Number(record.plan_hours ?? 0);
-        if (storedPlanHours > 0) return sum + storedPlanHours;
-        const fallbackPlan = getPlanHoursForDayFromPlan(shiftPlan, record.day_date, record.schicht ?? '');
-        return sum + Number(fallbackPlan?.sollHours ?? 0);
-      }, 0)
-    );
+    const planHoursForCode = (code: string) =>
+      round2(
+        monthlyRecords.reduce((sum, record) => {
+          if ((record.code ?? '').trim().toUpperCase() !== code) return sum;
+          const storedPlanHours = Number(record.plan_hours ?? 0);
+          if (storedPlanHours > 0) return sum + storedPlanHours;
+          const fallbackPlan = getPlanHoursForDayFromPlan(shiftPlan, record.day_date, record.schicht ?? '');
+          return sum + Number(fallbackPlan?.sollHours ?? 0);
+        }, 0)
+      );
+    const unpaidHours = planHoursForCode('UBF');
+
+    const surcharges = surchargeSettings.enabled
+      ? summarizeSurcharges(
+          monthlyRecords,
+          surchargeSettings,
+          resolveSurchargeRegion(
+            branchesByEmployee.get(employee.id)?.[0]?.federalState,
+            employee.federalState,
+            surchargeSettings
+          )
+        )
+      : null;
 
     rows.push({
       personalNr: employee.personnelNumber ?? '',
       mitarbeiter: `${employee.firstName ?? ''} ${employee.lastName ?? ''}`.trim(),
       verguetungEuro,
+      vertragsaenderungen: describeContractChanges(contracts, startIso, endIso),
       sollStunden: sollHours,
       sachbezugEuro:
         (employee.sachbezuege ?? '').trim().toLowerCase() === 'ja'
@@ -429,7 +583,14 @@ export async function buildPayrollExportRows(
       kranktageZeitraeume: toRanges(sickDates),
       kindKrankStunden: childSickHours,
       kindKranktageZeitraeume: toRanges(childSickDates),
+      auZeitraeume: formatRanges(sickLeave.ranges),
+      entgeltfortzahlungBis: sickLeave.continuedPayEndDates.map(formatGermanDate).join('; '),
+      krankengeldTage: sickLeave.daysWithoutContinuedPay,
       unbezahlteFehlstunden: unpaidHours,
+      nachtStunden: surcharges?.nightHours ?? 0,
+      sonntagStunden: surcharges?.sundayHours ?? 0,
+      feiertagStunden: surcharges?.holidayHours ?? 0,
+      codeStunden: Object.fromEntries(codeColumns.map((column) => [column.code, planHoursForCode(column.code)])),
     });
   }
 
@@ -444,13 +605,16 @@ export async function createPayrollExportFile(
   selectedEmployeeIds?: number[]
 ): Promise<{ filename: string; contentType: string; body: Buffer }> {
   const rows = await buildPayrollExportRows(tenantId, year, month, selectedEmployeeIds);
+  const surchargeSettings = await getSurchargeSettings(tenantId);
+  const surcharges: SurchargeColumns = surchargeSettings.enabled ? surchargeSettings : null;
+  const codeColumns = absenceCodeColumns(await getAbsenceCodeCatalog(tenantId));
   const base = `monatsabschluss-lohnexport-${year}-${String(month).padStart(2, '0')}`;
 
   if (format === 'xlsx') {
     return {
       filename: `${base}.xlsx`,
       contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-      body: toXlsx(rows, year, month),
+      body: toXlsx(rows, year, month, surcharges, codeColumns),
     };
   }
 
@@ -458,13 +622,13 @@ export async function createPayrollExportFile(
     return {
       filename: `${base}.pdf`,
       contentType: 'application/pdf',
-      body: toPdf(rows, year, month),
+      body: toPdf(rows, year, month, surcharges, codeColumns),
     };
   }
 
   return {
     filename: `${base}.csv`,
     contentType: 'text/csv; charset=utf-8',
-    body: Buffer.from(toCsv(rows), 'utf8'),
+    body: Buffer.from(toCsv(rows, surcharges, codeColumns), 'utf8'),
   };
 }
@@ -0,0 +1,275 @@
+import { DateTime } from 'luxon';
+import * as XLSX from 'xlsx';
+
+import { listBranchesForEmployees } from '@/lib/data/branches';
+import { listDailyDayRecordsForEmployees, type DailyDayRecord } from '@/lib/data/daily-days';
+import { listActiveEmployeeRecords } from '@/lib/data/employees';
+import { listShiftPlanDaysForEmployees, type ShiftPlanDayRecord } from '@/lib/data/shift-plan-days';
+import {
+  comparePlanWithActual,
+  groupPlannedSegments,
+  PLAN_ACTUAL_DEVIATION_LABELS,
+  sumPlanActualDays,
+  type PlanActualDay,
+  type PlanActualTotals,
+} from '@/lib/services/plan-actual';
+import { formatWorkSegments } from '@/lib/services/time-calculations';
+
+export type PlanActualPeriod =
+  | { kind: 'week'; isoWeek: string }
+  | { kind: 'month'; year: number; month: number };
+
+export type PlanActualEmployeeReport = {
+  employeeId: number;
+  personalNr: string;
+  mitarbeiter: string;
+  branches: string;
+  days: PlanActualDay[];
+  totals: PlanActualTotals;
+};
+
+export type PlanActualReport = {
+  startIso: string;
+  endIso: string;
+  label: string;
+  employees: PlanActualEmployeeReport[];
+  totals: PlanActualTotals;
+};
+
+/** Resolves a week (`2026-W14`) or a calendar month to its first and last day. */
+export function resolvePlanActualPeriod(period: PlanActualPeriod): { startIso: string; endIso: string; label: string } {
+  if (period.kind === 'week') {
+    const start = DateTime.fromISO(period.isoWeek);
+    if (!start.isValid) {
+      throw new Error('Ungültige Kalenderwoche.');
+    }
+    const weekStart = start.startOf('week');
+    return {
+      startIso: weekStart.toISODate() ?? '',
+      endIso: weekStart.plus({ days: 6 }).toISODate() ?? '',
+      label: `KW ${weekStart.weekNumber}/${weekStart.weekYear}`,
+    };
+  }
+  const start = DateTime.fromObject({ year: period.year, month: period.month, day: 1 });
+  if (!start.isValid) {
+    throw new Error('Ungültiger Monat.');
+  }
+  return {
+    startIso: start.toISODate() ?? '',
+    endIso: start.endOf('month').toISODate() ?? '',
+    label: start.toFormat('MM/yyyy'),
+  };
+}
+
+function enumerateDates(startIso: string, endIso: string): string[] {
+  const dates: string[] = [];
+  let cursor = DateTime.fromISO(startIso);
+  const end = DateTime.fromISO(endIso);
+  while (cursor <= end) {
+    dates.push(cursor.toISODate() ?? '');
+    cursor = cursor.plus({ days: 1 });
+  }
+  return dates;
+}
+
+/**
+ * Compares shift plan and recorded times of all active employees for one week or month, optionally
+ * limited to one branch. With a branch filter, days planned for another branch are left out, so an
+ * employee working in two branches only shows up with the shifts of the selected one.
+ */
+export async function getPlanActualReport(
+  tenantId: string,
+  period: PlanActualPeriod,
+  branchId?: number | null
+): Promise<PlanActualReport> {
+  const { startIso, endIso, label } = resolvePlanActualPeriod(period);
+  const employees = await listActiveEmployeeRecords(tenantId);
+  const branchesByEmployee = await listBranchesForEmployees(
+    tenantId,
+    employees.map((employee) => employee.id)
+  );
+  const targets = branchId
+    ? employees.filter((employee) =>
+        (branchesByEmployee.get(employee.id) ?? []).some((branch) => branch.id === branchId)
+      )
+    : employees;
+
+  const planRows = await listShiftPlanDaysForEmployees(
+    targets.map((employee) => employee.id),
+    startIso,
+    endIso
+  );
+  const planByEmployee = new Map<number, ShiftPlanDayRecord[]>();
+  for (const row of planRows) {
+    const list = planByEmployee.get(row.employee_id) ?? [];
+    list.push(row);
+    planByEmployee.set(row.employee_id, list);
+  }
+
+  const actualRows = await listDailyDayRecordsForEmployees(
+    targets.map((employee) => employee.id),
+    startIso,
+    endIso
+  );
+  const actualByEmployee = new Map<number, Map<string, DailyDayRecord>>();
+  for (const record of actualRows) {
+    const byDate = actualByEmployee.get(record.employee_id) ?? new Map<string, DailyDayRecord>();
+    byDate.set(record.day_date, record);
+    actualByEmployee.set(record.employee_id, byDate);
+  }
+
+  const today = DateTime.now().setZone('Europe/Berlin').toISODate() ?? '';
+  const dates = enumerateDates(startIso, endIso);
+  const reports: PlanActualEmployeeReport[] = [];
+
+  for (const employee of targets) {
+    const employeePlan = planByEmployee.get(employee.id) ?? [];
+    const otherBranchDays = new Set(
+      branchId
+        ? employeePlan
+            .filter((row) => row.branch_id !== null && row.branch_id !== branchId)
+            .map((row) => row.day_date)
+        : []
+    );
+    const planned = groupPlannedSegments(
+      branchId ? employeePlan.filter((row) => row.branch_id === null || row.branch_id === branchId) : employeePlan
+    );
+    const recordsByDate = actualByEmployee.get(employee.id) ?? new Map<string, DailyDayRecord>();
+
+    const days: PlanActualDay[] = [];
+    for (const dayDate of dates) {
+      const plannedDay = planned.get(dayDate) ?? null;
+      if (!plannedDay && otherBranchDays.has(dayDate)) continue;
+      const actual = recordsByDate.get(dayDate) ?? null;
+      if (!plannedDay && !actual) continue;
+      days.push(comparePlanWithActual({ dayDate, planned: plannedDay, actual, today }));
+    }
+    if (!days.length) continue;
+
+    reports.push({
+      employeeId: employee.id,
+      personalNr: employee.personnel_number ?? '',
+      mitarbeiter: `${employee.last_name}, ${employee.first_name}`,
+      branches: (branchesByEmployee.get(employee.id) ?? []).map((branch) => branch.name).join(', '),
+      days,
+      totals: sumPlanActualDays(days),
+    });
+  }
+
+  reports.sort((a, b) => a.mitarbeiter.localeCompare(b.mitarbeiter, 'de'));
+  return {
+    startIso,
+    endIso,
+    label,
+    employees: reports,
+    totals: sumPlanActualDays(reports.flatMap((report) => report.days)),
+  };
+}
+
+function formatGermanDate(iso: string): string {
+  const [year, month, day] = iso.split('-');
+  if (!year || !month || !day) return iso;
+  return `${day}.${month}.${year}`;
+}
+
+const DAY_HEADER = [
+  'Personal-Nr.',
+  'Mitarbeiter',
+  'Datum',
+  'Geplant',
+  'Gestempelt',
+  'Code',
+  'Soll (h)',
+  'Ist (h)',
+  'Differenz (h)',
+  'Verspätung (min)',
+  'Früher gegangen (min)',
+  'Abweichung',
+];
+
+const TOTALS_HEADER = [
+  'Personal-Nr.',
+  'Mitarbeiter',
+  'Filiale',
+  'Soll (h)',
+  'Ist (h)',
+  'Differenz (h)',
+  'Verspätungen',
+  'Verspätung (min)',
+  'Früher gegangen',
+  'Früher gegangen (min)',
+  'Nicht erschienen',
+  'Ungeplant gearbeitet',
+];
+
+function totalsValues(totals: PlanActualTotals): Array<number> {
+  return [
+    totals.plannedHours,
+    totals.actualHours,
+    totals.deltaHours,
+    totals.lateArrivals,
+    totals.lateMinutes,
+    totals.earlyLeaves,
+    totals.earlyLeaveMinutes,
+    totals.noShows,
+    totals.unplannedDays,
+  ];
+}
+
+export async function createPlanActualReportFile(
+  tenantId: string,
+  period: PlanActualPeriod,
+  branchId?: number | null
+): Promise<{ filename: string; contentType: string; body: Buffer }> {
+  const report = await getPlanActualReport(tenantId, period, branchId);
+
+  const dayRows = report.employees.flatMap((employee) =>
+    employee.days.map((day) => [
+      employee.personalNr,
+      employee.mitarbeiter,
+      formatGermanDate(day.dayDate),
+      formatWorkSegments(day.plannedSegments),
+      formatWorkSegments(day.actualSegments),
+      day.actualCode ?? '',
+      day.plannedHours,
+      day.actualHours,
+      day.deltaHours,
+      day.lateMinutes,
+      day.earlyLeaveMinutes,
+      day.deviations.map((deviation) => PLAN_ACTUAL_DEVIATION_LABELS[deviation]).join(', '),
+    ])
+  );
+  const totalRows = [
+    ...report.employees.map((employee) => [
+      employee.personalNr,
+      employee.mitarbeiter,
+      employee.branches,
+      ...totalsValues(employee.totals),
+    ]),
+    ['', 'Gesamt', '', ...totalsValues(report.totals)],
+  ];
+
+  const workbook = XLSX.utils.book_new();
+  const totalsSheet = XLSX.utils.aoa_to_sheet([TOTALS_HEADER, ...totalRows]);
+  totalsSheet['!cols'] = [{ wch: 14 }, { wch: 30 }, { wch: 24 }, ...Array.from({ length: 9 }, () => ({ wch: 14 }))];
+  XLSX.utils.book_append_sheet(workbook, totalsSheet, 'Summen');
+  const daySheet = XLSX.utils.aoa_to_sheet([DAY_HEADER, ...dayRows]);
+  daySheet['!cols'] = [
+    { wch: 14 },
+    { wch: 30 },
+    { wch: 12 },
+    { wch: 24 },
+    { wch: 24 },
+    { wch: 8 },
+    ...Array.from({ length: 5 }, () => ({ wch: 12 })),
+    { wch: 40 },
+  ];
+  XLSX.utils.book_append_sheet(workbook, daySheet, 'Tage');
+
+  const base = `soll-ist-${report.startIso}-bis-${report.endIso}${branchId ? `-filiale-${branchId}` : ''}`;
+  return {
+    filename: `${base}.xlsx`,
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    body: Buffer.from(XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })),
+  };
+}
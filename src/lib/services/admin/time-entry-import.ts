@@ -0,0 +1,412 @@
+import * as XLSX from 'xlsx';
+
+import { getDailyDay, upsertDailyDays, type DailyDayRecord, type UpsertDailyDayInput } from '@/lib/data/daily-days';
+import { getEmployeeValidationInfo, listActiveEmployeeRecords } from '@/lib/data/employees';
+import { recordDailyDayChange } from '@/lib/services/daily-day-history';
+import { isMonthClosedForEmployee } from '@/lib/services/employee/monthly-closing';
+import { getPlanHoursForDay } from '@/lib/services/shift-plan-hours';
+import type { WorkSegment } from '@/lib/services/time-calculations';
+import {
+  buildTimeEntryPayload,
+  normalizePause,
+  normalizeTimeInput,
+  recomputeEmployeeOvertime,
+} from '@/lib/services/time-entry';
+import { validateTimeEntry } from '@/lib/services/time-entry-validation';
+import { getAbsenceCodeCatalog, getCustomAbsenceCodes } from '@/lib/services/absence-codes';
+
+export type TimeEntryImportField =
+  | 'personalNr'
+  | 'dayDate'
+  | 'kommt1'
+  | 'geht1'
+  | 'kommt2'
+  | 'geht2'
+  | 'pause'
+  | 'code'
+  | 'brutto'
+  | 'mittag'
+  | 'bemerkungen';
+
+/** Column index per field; fields without a column are not imported. */
+export type TimeEntryImportMapping = Partial<Record<TimeEntryImportField, number>>;
+
+export type TimeEntryImportCell = string | number | boolean | null;
+
+export interface TimeEntryImportSheet {
+  headers: string[];
+  rows: TimeEntryImportCell[][];
+}
+
+export interface TimeEntryImportRow {
+  /** Line in the file, counting the header as line 1. */
+  line: number;
+  personalNr: string;
+  employeeId: number | null;
+  employeeName: string | null;
+  dayDate: string | null;
+  segments: WorkSegment[];
+  pause: string | null;
+  code: string;
+  brutto: number | null;
+  mittag: string;
+  bemerkungen: string | null;
+  /** An entry for this day already exists and is overwritten. */
+  overwrites: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface TimeEntryImportPreview {
+  rows: TimeEntryImportRow[];
+  validCount: number;
+  invalidCount: number;
+}
+
+export const TIME_ENTRY_IMPORT_FIELDS: Array<{ key: TimeEntryImportField; label: string; required?: boolean }> = [
+  { key: 'personalNr', label: 'Personal-Nr.', required: true },
+  { key: 'dayDate', label: 'Datum', required: true },
+  { key: 'kommt1', label: 'Kommt 1' },
+  { key: 'geht1', label: 'Geht 1' },
+  { key: 'kommt2', label: 'Kommt 2' },
+  { key: 'geht2', label: 'Geht 2' },
+  { key: 'pause', label: 'Pause' },
+  { key: 'code', label: 'Code' },
+  { key: 'brutto', label: 'Brutto' },
+  { key: 'mittag', label: 'Verpflegung' },
+  { key: 'bemerkungen', label: 'Bemerkungen' },
+];
+
+export const TIME_ENTRY_IMPORT_MAX_ROWS = 5000;
+
+const HEADER_ALIASES: Record<TimeEntryImportField, string[]> = {
+  personalNr: ['personalnr', 'personalnummer', 'persnr', 'pnr', 'personnelnumber'],
+  dayDate: ['datum', 'tag', 'date'],
+  kommt1: ['kommt', 'kommt1', 'beginn', 'start', 'von'],
+  geht1: ['geht', 'geht1', 'ende', 'end', 'bis'],
+  kommt2: ['kommt2', 'beginn2', 'start2', 'von2'],
+  geht2: ['geht2', 'ende2', 'end2', 'bis2'],
+  pause: ['pause', 'pausemin', 'pauseminuten'],
+  code: ['code', 'kurzel', 'kuerzel'],
+  brutto: ['brutto', 'umsatz', 'bruttoumsatz'],
+  mittag: ['mittag', 'verpflegung'],
+  bemerkungen: ['bemerkungen', 'bemerkung', 'notiz', 'kommentar'],
+};
+
+function normalizeHeader(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+/** Reads the first sheet of an XLSX file or a CSV file (`;` or `,` separated) as plain cells. */
+export function readTimeEntryImportFile(fileName: string, data: Buffer): TimeEntryImportSheet {
+  const isCsv = /\.(csv|txt)$/i.test(fileName);
+  const workbook = XLSX.read(data, { type: 'buffer', raw: isCsv });
+  const sheetName = workbook.SheetNames[0];
+  if (!sheetName) {
+    throw new Error('Die Datei enthält keine Tabelle.');
+  }
+  const cells = XLSX.utils.sheet_to_json<TimeEntryImportCell[]>(workbook.Sheets[sheetName], {
+    header: 1,
+    raw: true,
+    defval: null,
+    blankrows: false,
+  });
+  const [headerRow, ...rows] = cells;
+  if (!headerRow) {
+    throw new Error('Die Datei enthält keine Kopfzeile.');
+  }
+  if (rows.length > TIME_ENTRY_IMPORT_MAX_ROWS) {
+    throw new Error(`Es können höchstens ${TIME_ENTRY_IMPORT_MAX_ROWS} Zeilen auf einmal importiert werden.`);
+  }
+  return {
+    headers: headerRow.map((cell) => String(cell ?? '').trim()),
+    rows,
+  };
+}
+
+/** Suggests a column for every field whose header matches one of the known German or English names. */
+export function guessTimeEntryImportMapping(headers: string[]): TimeEntryImportMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: TimeEntryImportMapping = {};
+  const used = new Set<number>();
+  for (const { key } of TIME_ENTRY_IMPORT_FIELDS) {
+    const index = normalized.findIndex(
+      (header, position) => !used.has(position) && HEADER_ALIASES[key].includes(header)
+    );
+    if (index >= 0) {
+      mapping[key] = index;
+      used.add(index);
+    }
+  }
+  return mapping;
+}
+
+function cellText(value: TimeEntryImportCell | undefined): string {
+  if (value === null || value === undefined) return '';
+  return String(value).trim();
+}
+
+/** Accepts ISO and German dates as well as Excel date serials. */
+export function parseImportDate(value: TimeEntryImportCell | undefined): string | null {
+  if (typeof value === 'number') {
+    const parsed = XLSX.SSF.parse_date_code(value);
+    if (!parsed || value < 1) return null;
+    return `${parsed.y}-${String(parsed.m).padStart(2, '0')}-${String(parsed.d).padStart(2, '0')}`;
+  }
+  const text = cellText(value);
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  const german = /^(\d{1,2})\.(\d{1,2})\.(\d{2}|\d{4})$/.exec(text);
+  let year: number;
+  let month: number;
+  let day: number;
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (german) {
+    year = german[3].length === 2 ? 2000 + Number(german[3]) : Number(german[3]);
+    [month, day] = [Number(german[2]), Number(german[1])];
+  } else {
+    return null;
+  }
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/** Accepts `8:00`, `0800`, `8.00` and Excel time fractions. */
+export function parseImportTime(value: TimeEntryImportCell | undefined): string | null {
+  if (typeof value === 'number' && value >= 0 && value < 1) {
+    const minutes = Math.round(value * 24 * 60) % (24 * 60);
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  }
+  const text = cellText(value).replace(/^(\d{1,2})\.(\d{2})$/, '$1:$2').replace(/^(\d{1,2}:\d{2}):\d{2}$/, '$1');
+  return normalizeTimeInput(text);
+}
+
+function parseBrutto(value: TimeEntryImportCell | undefined): number | null {
+  if (typeof value === 'number') return value;
+  const text = cellText(value).replace(/\s|€/g, '');
+  if (!text) return null;
+  const normalized = text.includes(',') ? text.replace(/\./g, '').replace(',', '.') : text;
+  const parsed = Number.parseFloat(normalized);
+  return Number.isFinite(parsed) ? parsed : Number.NaN;
+}
+
+/** Turns one file row into an entry; structural problems end up in `errors`. */
+export function mapTimeEntryImportRow(
+  cells: TimeEntryImportCell[],
+  mapping: TimeEntryImportMapping,
+  line: number
+): TimeEntryImportRow {
+  const cell = (field: TimeEntryImportField) => (mapping[field] === undefined ? undefined : cells[mapping[field]!]);
+  const errors: string[] = [];
+
+  const personalNr = cellText(cell('personalNr'));
+  if (!personalNr) {
+    errors.push('Personal-Nr. fehlt.');
+  }
+  const dayDate = parseImportDate(cell('dayDate') ?? null);
+  if (!dayDate) {
+    errors.push(cellText(cell('dayDate')) ? `Datum „${cellText(cell('dayDate'))}“ ist ungültig.` : 'Datum fehlt.');
+  }
+
+  const segments: WorkSegment[] = [];
+  for (const [kommtField, gehtField] of [
+    ['kommt1', 'geht1'],
+    ['kommt2', 'geht2'],
+  ] as const) {
+    const kommtText = cellText(cell(kommtField));
+    const gehtText = cellText(cell(gehtField));
+    const kommt = parseImportTime(cell(kommtField));
+    const geht = parseImportTime(cell(gehtField));
+    if ((kommtText && !kommt) || (gehtText && !geht)) {
+      errors.push(`Uhrzeit „${kommt ? gehtText : kommtText}“ ist ungültig.`);
+    }
+    if (kommt || geht) {
+      segments.push({ kommt, geht });
+    }
+  }
+
+  const pauseCell = cell('pause');
+  const pause =
+    typeof pauseCell === 'number' && pauseCell > 0 && pauseCell < 1
+      ? normalizePause(String(Math.round(pauseCell * 24 * 60)))
+      : normalizePause(cellText(pauseCell));
+
+  const brutto = parseBrutto(cell('brutto'));
+  if (brutto !== null && Number.isNaN(brutto)) {
+    errors.push(`Brutto „${cellText(cell('brutto'))}“ ist keine Zahl.`);
+  }
+
+  return {
+    line,
+    personalNr,
+    employeeId: null,
+    employeeName: null,
+    dayDate,
+    segments,
+    pause,
+    code: cellText(cell('code')).toUpperCase() || 'RA',
+    brutto: brutto !== null && Number.isNaN(brutto) ? null : brutto,
+    mittag: cellText(cell('mittag')).toLowerCase() === 'ja' ? 'Ja' : 'Nein',
+    bemerkungen: cellText(cell('bemerkungen')) || null,
+    overwrites: false,
+    errors,
+    warnings: [],
+  };
+}
+
+function isBlankRow(cells: TimeEntryImportCell[]): boolean {
+  return cells.every((value) => cellText(value) === '');
+}
+
+/**
+ * Dry run of an import: maps every row, resolves employees by personnel number and checks each day
+ * with the same validation as a manual admin entry. Nothing is written.
+ */
+export async function previewTimeEntryImport(
+  tenantId: string,
+  sheet: TimeEntryImportSheet,
+  mapping: TimeEntryImportMapping
+): Promise<TimeEntryImportPreview> {
+  if (mapping.personalNr === undefined || mapping.dayDate === undefined) {
+    throw new Error('Bitte mindestens die Spalten für Personal-Nr. und Datum zuordnen.');
+  }
+
+  const employees = await listActiveEmployeeRecords(tenantId);
+  const employeesByNumber = new Map(
+    employees
+      .filter((employee) => employee.personnel_number?.trim())
+      .map((employee) => [employee.personnel_number!.trim(), employee])
+  );
+  const validationInfoCache = new Map<number, Awaited<ReturnType<typeof getEmployeeValidationInfo>>>();
+  const closedMonthCache = new Map<string, boolean>();
+  const seenDays = new Map<string, number>();
+  const customAbsenceCodes = getCustomAbsenceCodes(await getAbsenceCodeCatalog(tenantId));
+
+  const rows: TimeEntryImportRow[] = [];
+  for (const [index, cells] of sheet.rows.entries()) {
+    if (isBlankRow(cells)) continue;
+    const row = mapTimeEntryImportRow(cells, mapping, index + 2);
+    rows.push(row);
+
+    const employee = row.personalNr ? employeesByNumber.get(row.personalNr) : undefined;
+    if (row.personalNr && !employee) {
+      row.errors.push(`Kein aktiver Mitarbeiter mit Personal-Nr. ${row.personalNr}.`);
+    }
+    if (!employee || !row.dayDate || row.errors.length) continue;
+    row.employeeId = employee.id;
+    row.employeeName = `${employee.last_name}, ${employee.first_name}`;
+
+    const dayKey = `${employee.id}:${row.dayDate}`;
+    const firstLine = seenDays.get(dayKey);
+    if (firstLine) {
+      row.errors.push(`Der Tag kommt bereits in Zeile ${firstLine} vor.`);
+      continue;
+    }
+    seenDays.set(dayKey, row.line);
+
+    const monthKey = `${employee.id}:${row.dayDate.slice(0, 7)}`;
+    if (!closedMonthCache.has(monthKey)) {
+      const [year, month] = row.dayDate.split('-').map(Number);
+      closedMonthCache.set(monthKey, await isMonthClosedForEmployee(employee.id, year, month));
+    }
+    if (closedMonthCache.get(monthKey)) {
+      row.errors.push('Der Monat ist bereits abgeschlossen.');
+      continue;
+    }
+
+    if (!validationInfoCache.has(employee.id)) {
+      validationInfoCache.set(employee.id, await getEmployeeValidationInfo(tenantId, employee.id));
+    }
+    const profile = validationInfoCache.get(employee.id);
+    if (!profile) {
+      row.errors.push('Mitarbeiterdaten konnten nicht geladen werden.');
+      continue;
+    }
+
+    const validation = validateTimeEntry({
+      segments: row.segments,
+      pause: row.pause,
+      code: row.code,
+      mittag: row.mittag,
+      planInfo: await getPlanHoursForDay(employee.id, row.dayDate),
+      mandatoryPauseMinWorkMinutes: profile.mandatoryPauseMinWorkMinutes,
+      minPauseUnder6Minutes: profile.minPauseUnder6Minutes,
+      requiresMealFlag: (profile.sachbezugVerpflegung ?? 'Nein').toLowerCase() === 'ja',
+      customAbsenceCodes,
+    });
+    row.errors.push(...validation.errors);
+    row.warnings.push(...validation.warnings);
+    row.overwrites = (await getDailyDay(employee.id, row.dayDate)) !== null;
+  }
+
+  const invalidCount = rows.filter((row) => row.errors.length).length;
+  return { rows, validCount: rows.length - invalidCount, invalidCount };
+}
+
+/**
+ * Writes all valid rows of an import in one transaction and recomputes the overtime balance of every
+ * affected employee afterwards. Unless `skipInvalid` is set, a single invalid row aborts the import.
+ */
+export async function commitTimeEntryImport(
+  tenantId: string,
+  sheet: TimeEntryImportSheet,
+  mapping: TimeEntryImportMapping,
+  options: { skipInvalid: boolean; performedBy: { id: number | null; name: string | null } }
+): Promise<{ imported: number; skipped: number }> {
+  const preview = await previewTimeEntryImport(tenantId, sheet, mapping);
+  if (preview.invalidCount && !options.skipInvalid) {
+    throw new Error(
+      `${preview.invalidCount} ${preview.invalidCount === 1 ? 'Zeile enthält' : 'Zeilen enthalten'} Fehler. Es wurde nichts importiert.`
+    );
+  }
+  const validRows = preview.rows.filter((row) => !row.errors.length && row.employeeId && row.dayDate);
+  if (!validRows.length) {
+    throw new Error('Die Datei enthält keine gültigen Zeilen.');
+  }
+
+  const prepared: Array<{ payload: UpsertDailyDayInput; before: DailyDayRecord | null }> = [];
+  for (const row of validRows) {
+    const { payload, existingRecord } = await buildTimeEntryPayload({
+      tenantId,
+      employeeId: row.employeeId!,
+      dayDate: row.dayDate!,
+      brutto: row.brutto,
+      segments: row.segments,
+      pause: row.pause ?? 'Keine',
+      code: row.code,
+      bemerkungen: row.bemerkungen,
+      mittag: row.mittag,
+    });
+    prepared.push({ payload, before: existingRecord });
+  }
+
+  await upsertDailyDays(prepared.map((item) => item.payload));
+
+  const earliestDayByEmployee = new Map<number, string>();
+  for (const { payload } of prepared) {
+    const earliest = earliestDayByEmployee.get(payload.employeeId);
+    if (!earliest || payload.dayDate < earliest) {
+      earliestDayByEmployee.set(payload.employeeId, payload.dayDate);
+    }
+  }
+  for (const [employeeId, earliestDay] of earliestDayByEmployee) {
+    await recomputeEmployeeOvertime(tenantId, employeeId, earliestDay, { notifyTrafficLight: false });
+  }
+  for (const { payload, before } of prepared) {
+    const after = await getDailyDay(payload.employeeId, payload.dayDate);
+    await recordDailyDayChange(payload.employeeId, payload.dayDate, before, after, {
+      source: 'import',
+      actorId: options.performedBy.id,
+      actorName: options.performedBy.name,
+    });
+  }
+
+  return { imported: prepared.length, skipped: preview.invalidCount };
+}
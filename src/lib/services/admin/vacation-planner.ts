@@ -7,6 +7,8 @@ import {
 } from '@/lib/services/leave-requests';
 import { isHolidayIsoDate, normalizeHolidayRegion } from '@/lib/services/holidays';
 import { computeVacationBalance, resolveCarryExpiryIsoForYear } from '@/lib/services/vacation-balance';
+import { getVacationEntitlementSegmentsByEmployee } from '@/lib/services/employment-contracts';
+import { getAbsenceCodeCatalog, getVacationDayCodes } from '@/lib/services/absence-codes';
 
 export type VacationPlannerEmployeeSummary = {
   employeeId: number;
@@ -218,6 +220,10 @@ export async function getVacationPlannerData(
     year,
     employeeRows.map((row) => row.id),
   );
+  const entitlementSegmentsByEmployee = await getVacationEntitlementSegmentsByEmployee(
+    tenantId,
+    employeeRows.map((row) => row.id),
+  );
   const [dailyRows, dailyVacationRows] = await Promise.all([
     prisma.dailyDay.findMany({
       where: {
@@ -237,6 +243,7 @@ export async function getVacationPlannerData(
       orderBy: [{ employeeId: 'asc' }, { dayDate: 'asc' }],
     }),
   ]);
+  const vacationCodes = getVacationDayCodes(await getAbsenceCodeCatalog(tenantId));
   const dailyRecordsByEmployee = new Map<number, Array<{ day_date: string; code: string | null }>>();
   for (const row of dailyRows) {
     const list = dailyRecordsByEmployee.get(row.employeeId) ?? [];
@@ -326,6 +333,7 @@ export async function getVacationPlannerData(
     const carryExpiryDate = resolveCarryExpiryIsoForYear(year, row.vacationCarryExpiryDate ?? null);
     const vacationBalance = computeVacationBalance({
       annualDays: Number(row.vacationDaysTotal ?? 0),
+      entitlementSegments: entitlementSegmentsByEmployee.get(row.id),
       importedCarryDays: Number(row.openingVacationCarryDays ?? row.vacationDaysLastYear ?? 0),
       openingTakenDays,
       entryDate: row.openingEffectiveDate ?? row.entryDate ?? null,
@@ -335,6 +343,7 @@ export async function getVacationPlannerData(
       carryExpiryDate: row.vacationCarryExpiryDate ?? null,
       year,
       records: dailyRecordsByEmployee.get(row.id) ?? [],
+      vacationCodes,
     });
     const requestedVacationDays = ownRequests.reduce((acc, item) => {
       if (item.type !== 'vacation' || item.status !== 'pending') return acc;
@@ -0,0 +1,251 @@
+import { DateTime } from 'luxon';
+
+import { listDailyDayRecordsForEmployees, type DailyDayRecord } from '@/lib/data/daily-days';
+import { listShiftPlanDays, type ShiftPlanDayRecord } from '@/lib/data/shift-plan-days';
+import { deriveCodeFromPlanLabel } from '@/lib/services/shift-plan-hours';
+import {
+  buildShiftIntervals,
+  calculateIstHours,
+  splitHoursByCalendarDay,
+  type WorkSegment,
+} from '@/lib/services/time-calculations';
+
+export type ArbzgRule = 'daily_max' | 'rest_period' | 'weekly_average' | 'free_sundays';
+
+export type ArbzgSource = 'actual' | 'plan';
+
+export interface ArbzgWorkDay {
+  dayDate: string;
+  segments: WorkSegment[];
+  pause: string | null;
+  source: ArbzgSource;
+}
+
+export interface ArbzgViolation {
+  rule: ArbzgRule;
+  dayDate: string;
+  source: ArbzgSource;
+  message: string;
+}
+
+export const ARBZG_LIMITS = {
+  dailyMaxHours: 10,
+  minRestHours: 11,
+  weeklyAverageHours: 48,
+  averagingMonths: 6,
+  minFreeSundays: 15,
+} as const;
+
+export const ARBZG_RULE_LABELS: Record<ArbzgRule, string> = {
+  daily_max: 'Tageshöchstarbeitszeit (§ 3)',
+  rest_period: 'Ruhezeit (§ 5)',
+  weekly_average: 'Wochendurchschnitt (§ 3)',
+  free_sundays: 'Freie Sonntage (§ 11)',
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+const HOURS_EPSILON = 0.01;
+
+function formatHours(value: number): string {
+  return value.toFixed(2).replace('.', ',');
+}
+
+function formatDate(isoDate: string): string {
+  return DateTime.fromISO(isoDate).toFormat('dd.MM.yyyy');
+}
+
+function dayNumber(isoDate: string): number {
+  return Math.round(DateTime.fromISO(isoDate, { zone: 'utc' }).toMillis() / 86_400_000);
+}
+
+function countSundays(year: number): number {
+  const newYear = DateTime.fromObject({ year, month: 1, day: 1 });
+  const firstSunday = newYear.plus({ days: (7 - newYear.weekday) % 7 });
+  return Math.floor(newYear.endOf('year').diff(firstSunday, 'days').days / 7) + 1;
+}
+
+function inRange(isoDate: string, range: { start: string; end: string }): boolean {
+  return isoDate >= range.start && isoDate <= range.end;
+}
+
+/** Maps recorded entries to work days; absence codes carry 00:00–00:00 times and therefore no work. */
+export function workDaysFromRecords(
+  records: Array<Pick<DailyDayRecord, 'day_date' | 'segments' | 'pause'>>
+): ArbzgWorkDay[] {
+  return records.map((record) => ({
+    dayDate: record.day_date,
+    segments: record.segments,
+    pause: record.pause,
+    source: 'actual' as const,
+  }));
+}
+
+/** Maps planned shift segments to work days, skipping unavailable rows and absence labels such as "Urlaub". */
+export function workDaysFromPlan(
+  rows: Array<Pick<ShiftPlanDayRecord, 'day_date' | 'mode' | 'start_time' | 'end_time' | 'required_pause_minutes' | 'label'>>
+): ArbzgWorkDay[] {
+  const byDate = new Map<string, { segments: WorkSegment[]; pauseMinutes: number }>();
+  for (const row of rows) {
+    if (row.mode === 'unavailable' || !row.start_time || !row.end_time) continue;
+    if (deriveCodeFromPlanLabel(row.label)) continue;
+    const day = byDate.get(row.day_date) ?? { segments: [], pauseMinutes: 0 };
+    day.segments.push({ kommt: row.start_time, geht: row.end_time });
+    day.pauseMinutes += Math.max(row.required_pause_minutes ?? 0, 0);
+    byDate.set(row.day_date, day);
+  }
+  return Array.from(byDate.entries()).map(([dayDate, day]) => ({
+    dayDate,
+    segments: day.segments,
+    pause: day.pauseMinutes > 0 ? `${day.pauseMinutes}min.` : 'Keine',
+    source: 'plan' as const,
+  }));
+}
+
+/** Recorded days take precedence; the plan fills the days nobody has recorded yet. */
+export function mergeWorkDays(actual: ArbzgWorkDay[], plan: ArbzgWorkDay[]): ArbzgWorkDay[] {
+  const byDate = new Map<string, ArbzgWorkDay>();
+  for (const day of plan) byDate.set(day.dayDate, day);
+  for (const day of actual) byDate.set(day.dayDate, day);
+  return Array.from(byDate.values()).sort((a, b) => a.dayDate.localeCompare(b.dayDate));
+}
+
+/**
+ * Checks work days against the Arbeitszeitgesetz: at most 10 h per day, 11 h rest between two working
+ * days, 48 h per week on average over six months and at least 15 work-free Sundays per calendar year.
+ * Days outside `range` only serve as context, e.g. the previous evening for the rest period;
+ * violations are reported for days inside `range` only.
+ */
+export function evaluateArbzgCompliance(
+  days: ArbzgWorkDay[],
+  range: { start: string; end: string }
+): ArbzgViolation[] {
+  const violations: ArbzgViolation[] = [];
+  const sorted = [...days].sort((a, b) => a.dayDate.localeCompare(b.dayDate));
+
+  const worked = sorted
+    .map((day) => {
+      const offset = dayNumber(day.dayDate) * MINUTES_PER_DAY;
+      const intervals = buildShiftIntervals(day.segments).filter(
+        (interval) => interval.endMinutes > interval.startMinutes
+      );
+      return {
+        day,
+        netHours: calculateIstHours(day.segments, day.pause).netHours,
+        start: intervals.length ? offset + intervals[0].startMinutes : null,
+        end: intervals.length ? offset + intervals[intervals.length - 1].endMinutes : null,
+      };
+    })
+    .filter((item) => item.start !== null && item.end !== null);
+
+  for (const item of worked) {
+    if (inRange(item.day.dayDate, range) && item.netHours > ARBZG_LIMITS.dailyMaxHours + HOURS_EPSILON) {
+      violations.push({
+        rule: 'daily_max',
+        dayDate: item.day.dayDate,
+        source: item.day.source,
+        message: `${formatHours(item.netHours)} h Arbeitszeit – zulässig sind höchstens ${ARBZG_LIMITS.dailyMaxHours} h pro Tag.`,
+      });
+    }
+  }
+
+  for (let index = 1; index < worked.length; index += 1) {
+    const previous = worked[index - 1];
+    const current = worked[index];
+    const restMinutes = Math.max(current.start! - previous.end!, 0);
+    if (inRange(current.day.dayDate, range) && restMinutes < ARBZG_LIMITS.minRestHours * 60) {
+      violations.push({
+        rule: 'rest_period',
+        dayDate: current.day.dayDate,
+        source: current.day.source,
+        message: `Nur ${formatHours(restMinutes / 60)} h Ruhezeit nach dem Einsatz am ${formatDate(previous.day.dayDate)} – mindestens ${ARBZG_LIMITS.minRestHours} h sind vorgeschrieben.`,
+      });
+    }
+  }
+
+  let monthEnd = DateTime.fromISO(range.start).endOf('month');
+  const rangeEnd = DateTime.fromISO(range.end);
+  while (monthEnd.startOf('month') <= rangeEnd) {
+    const windowEnd = monthEnd.toISODate() ?? '';
+    const windowStart = monthEnd.minus({ months: ARBZG_LIMITS.averagingMonths }).plus({ days: 1 }).toISODate() ?? '';
+    const windowDays = worked.filter((item) => item.day.dayDate >= windowStart && item.day.dayDate <= windowEnd);
+    const weeks = (dayNumber(windowEnd) - dayNumber(windowStart) + 1) / 7;
+    const averageHours = windowDays.reduce((sum, item) => sum + item.netHours, 0) / weeks;
+    if (windowDays.length && averageHours > ARBZG_LIMITS.weeklyAverageHours + HOURS_EPSILON) {
+      const last = windowDays[windowDays.length - 1];
+      violations.push({
+        rule: 'weekly_average',
+        dayDate: windowEnd > range.end ? range.end : windowEnd,
+        source: last.day.source,
+        message: `Durchschnittlich ${formatHours(averageHours)} h pro Woche in den ${ARBZG_LIMITS.averagingMonths} Monaten bis ${formatDate(windowEnd)} – zulässig sind ${ARBZG_LIMITS.weeklyAverageHours} h.`,
+      });
+    }
+    monthEnd = monthEnd.plus({ months: 1 }).endOf('month');
+  }
+
+  // A night shift from Saturday into Sunday also uses up a Sunday, so count by calendar day.
+  const workedSundays = new Map<string, ArbzgSource>();
+  for (const item of worked) {
+    for (const part of splitHoursByCalendarDay(item.day.dayDate, item.day.segments, item.day.pause)) {
+      if (part.rawHours > 0 && DateTime.fromISO(part.dayDate).weekday === 7 && !workedSundays.has(part.dayDate)) {
+        workedSundays.set(part.dayDate, item.day.source);
+      }
+    }
+  }
+  const sundaysByYear = new Map<number, string[]>();
+  for (const sunday of Array.from(workedSundays.keys()).sort()) {
+    const year = Number(sunday.slice(0, 4));
+    sundaysByYear.set(year, [...(sundaysByYear.get(year) ?? []), sunday]);
+  }
+  for (const [year, sundays] of sundaysByYear) {
+    const allowed = countSundays(year) - ARBZG_LIMITS.minFreeSundays;
+    sundays.forEach((sunday, index) => {
+      if (index + 1 > allowed && inRange(sunday, range)) {
+        violations.push({
+          rule: 'free_sundays',
+          dayDate: sunday,
+          source: workedSundays.get(sunday) ?? 'actual',
+          message: `${index + 1}. Sonntagseinsatz im Jahr ${year} – mindestens ${ARBZG_LIMITS.minFreeSundays} Sonntage müssen beschäftigungsfrei bleiben.`,
+        });
+      }
+    });
+  }
+
+  return violations.sort((a, b) => a.dayDate.localeCompare(b.dayDate));
+}
+
+/** Start of the data needed to judge `rangeStart`: six months for the average, the calendar year for Sundays. */
+export function arbzgContextStart(rangeStart: string): string {
+  const start = DateTime.fromISO(rangeStart);
+  const averagingStart = start.endOf('month').minus({ months: ARBZG_LIMITS.averagingMonths }).plus({ days: 1 });
+  const yearStart = start.startOf('year');
+  return (averagingStart < yearStart ? averagingStart : yearStart).minus({ days: 1 }).toISODate() ?? rangeStart;
+}
+
+/**
+ * Non-blocking ArbZG hints for an entry that is about to be saved. The entry replaces the recorded day,
+ * and planned shifts of the following day are included so a late finish before an early shift is flagged.
+ */
+export async function getArbzgEntryWarnings(
+  employeeId: number,
+  dayDate: string,
+  segments: WorkSegment[],
+  pause: string | null
+): Promise<string[]> {
+  const contextStart = arbzgContextStart(dayDate);
+  const nextDay = DateTime.fromISO(dayDate).plus({ days: 1 }).toISODate() ?? dayDate;
+  const [records, planRows] = await Promise.all([
+    listDailyDayRecordsForEmployees([employeeId], contextStart, nextDay),
+    listShiftPlanDays(employeeId, contextStart, nextDay),
+  ]);
+  const actual = workDaysFromRecords(records.filter((record) => record.day_date !== dayDate));
+  actual.push({ dayDate, segments, pause, source: 'actual' });
+  const days = mergeWorkDays(actual, workDaysFromPlan(planRows));
+
+  return evaluateArbzgCompliance(days, { start: dayDate, end: nextDay })
+    .filter((violation) => violation.dayDate === dayDate || violation.rule === 'rest_period')
+    .map((violation) =>
+      violation.dayDate === dayDate
+        ? `ArbZG: ${violation.message}`
+        : `ArbZG (geplanter Einsatz am ${formatDate(violation.dayDate)}): ${violation.message}`
+    );
+}
@@ -0,0 +1,206 @@
+import { DateTime } from 'luxon';
+
+import {
+  deleteChildSickDayRule,
+  listChildSickDayRules,
+  saveChildSickDayRule,
+  type ChildSickDayRuleRow,
+} from '@/lib/data/child-sick-day-rules';
+import { listDailyDayRecordsForEmployees, type DailyDayRecord } from '@/lib/data/daily-days';
+import {
+  createEmployeeChild,
+  deleteEmployeeChild,
+  getEmployeeSingleParent,
+  listEmployeeChildren,
+  updateEmployeeSingleParent,
+  type EmployeeChildRow,
+} from '@/lib/data/employee-children';
+import { getEmployeeById } from '@/lib/data/employees';
+
+/** Child-sick pay (§ 45 SGB V) is granted for children younger than twelve. */
+export const CHILD_SICK_AGE_LIMIT = 12;
+
+export type ChildSickDayRule = {
+  year: number;
+  perChildDays: number;
+  perParentCapDays: number;
+  singleParentPerChildDays: number;
+  singleParentCapDays: number;
+  /** The tenant stored its own values for this year instead of the statutory ones. */
+  customized: boolean;
+};
+
+export type ChildSickDayRuleInput = Omit<ChildSickDayRule, 'customized'>;
+
+export type ChildSickDayBalance = {
+  year: number;
+  eligibleChildren: number;
+  singleParent: boolean;
+  perChildDays: number;
+  capDays: number;
+  entitlementDays: number;
+  /** Days with a child-sick entry (KK, KKR or child-sick hours), each counted once. */
+  usedDays: number;
+  remainingDays: number;
+  /** Days taken beyond the entitlement. */
+  exceededDays: number;
+};
+
+export type EmployeeChildSickDayProfile = {
+  /** `eligible` tells whether the child counts towards the entitlement of the balance year. */
+  children: Array<EmployeeChildRow & { eligible: boolean }>;
+  singleParent: boolean;
+  balance: ChildSickDayBalance;
+};
+
+const CHILD_SICK_CODES = new Set(['KK', 'KKR']);
+
+/** Statutory days per year: per child, cap per parent, and both doubled for single parents. */
+export function statutoryChildSickDayRule(year: number): ChildSickDayRule {
+  const rule = (perChildDays: number, perParentCapDays: number): ChildSickDayRule => ({
+    year,
+    perChildDays,
+    perParentCapDays,
+    singleParentPerChildDays: perChildDays * 2,
+    singleParentCapDays: perParentCapDays * 2,
+    customized: false,
+  });
+  if (year >= 2021 && year <= 2023) return rule(30, 65);
+  if (year === 2020 || (year >= 2024 && year <= 2026)) return rule(15, 35);
+  return rule(10, 25);
+}
+
+export function resolveChildSickDayRule(year: number, rows: ChildSickDayRuleRow[]): ChildSickDayRule {
+  const row = rows.find((entry) => entry.year === year);
+  if (!row) return statutoryChildSickDayRule(year);
+  return {
+    year,
+    perChildDays: row.per_child_days,
+    perParentCapDays: row.per_parent_cap_days,
+    singleParentPerChildDays: row.single_parent_per_child_days,
+    singleParentCapDays: row.single_parent_cap_days,
+    customized: true,
+  };
+}
+
+/** A child counts in every year in which it is younger than the age limit on at least one day. */
+export function countEligibleChildren(birthYears: number[], year: number): number {
+  return birthYears.filter((birthYear) => birthYear <= year && year - birthYear <= CHILD_SICK_AGE_LIMIT).length;
+}
+
+export function countChildSickDays(records: Pick<DailyDayRecord, 'day_date' | 'code' | 'child_sick_hours'>[], year: number): number {
+  const prefix = `${year}-`;
+  const days = new Set<string>();
+  for (const record of records) {
+    if (!record.day_date.startsWith(prefix)) continue;
+    const code = (record.code ?? '').trim().toUpperCase();
+    if (CHILD_SICK_CODES.has(code) || Number(record.child_sick_hours ?? 0) > 0) {
+      days.add(record.day_date);
+    }
+  }
+  return days.size;
+}
+
+export function buildChildSickDayBalance(params: {
+  year: number;
+  rule: ChildSickDayRule;
+  birthYears: number[];
+  singleParent: boolean;
+  usedDays: number;
+}): ChildSickDayBalance {
+  const eligibleChildren = countEligibleChildren(params.birthYears, params.year);
+  const perChildDays = params.singleParent ? params.rule.singleParentPerChildDays : params.rule.perChildDays;
+  const capDays = params.singleParent ? params.rule.singleParentCapDays : params.rule.perParentCapDays;
+  const entitlementDays = Math.min(eligibleChildren * perChildDays, capDays);
+  return {
+    year: params.year,
+    eligibleChildren,
+    singleParent: params.singleParent,
+    perChildDays,
+    capDays,
+    entitlementDays,
+    usedDays: params.usedDays,
+    remainingDays: Math.max(entitlementDays - params.usedDays, 0),
+    exceededDays: Math.max(params.usedDays - entitlementDays, 0),
+  };
+}
+
+export async function getChildSickDayRules(tenantId: string, years: number[]): Promise<ChildSickDayRule[]> {
+  const rows = await listChildSickDayRules(tenantId);
+  const allYears = Array.from(new Set([...years, ...rows.map((row) => row.year)])).sort((a, b) => b - a);
+  return allYears.map((year) => resolveChildSickDayRule(year, rows));
+}
+
+export async function saveTenantChildSickDayRule(tenantId: string, input: ChildSickDayRuleInput): Promise<void> {
+  if (!Number.isInteger(input.year) || input.year < 2000 || input.year > 2100) {
+    throw new Error('Ungültiges Jahr.');
+  }
+  const values = [input.perChildDays, input.perParentCapDays, input.singleParentPerChildDays, input.singleParentCapDays];
+  if (values.some((value) => !Number.isFinite(value) || value < 0 || value > 366)) {
+    throw new Error('Bitte für alle Werte eine Tageszahl zwischen 0 und 366 angeben.');
+  }
+  if (input.perParentCapDays < input.perChildDays || input.singleParentCapDays < input.singleParentPerChildDays) {
+    throw new Error('Die Obergrenze darf nicht unter dem Anspruch je Kind liegen.');
+  }
+  await saveChildSickDayRule(tenantId, input);
+}
+
+export async function resetTenantChildSickDayRule(tenantId: string, year: number): Promise<void> {
+  await deleteChildSickDayRule(tenantId, year);
+}
+
+export async function getChildSickDayBalance(
+  tenantId: string,
+  employeeId: number,
+  year: number
+): Promise<ChildSickDayBalance> {
+  return (await getEmployeeChildSickDayProfile(tenantId, employeeId, year)).balance;
+}
+
+export async function getEmployeeChildSickDayProfile(
+  tenantId: string,
+  employeeId: number,
+  year: number
+): Promise<EmployeeChildSickDayProfile> {
+  const [children, singleParent, rules, records] = await Promise.all([
+    listEmployeeChildren(tenantId, employeeId),
+    getEmployeeSingleParent(tenantId, employeeId),
+    listChildSickDayRules(tenantId),
+    listDailyDayRecordsForEmployees([employeeId], `${year}-01-01`, `${year}-12-31`),
+  ]);
+  return {
+    children: children.map((child) => ({ ...child, eligible: countEligibleChildren([child.birth_year], year) > 0 })),
+    singleParent,
+    balance: buildChildSickDayBalance({
+      year,
+      rule: resolveChildSickDayRule(year, rules),
+      birthYears: children.map((child) => child.birth_year),
+      singleParent,
+      usedDays: countChildSickDays(records, year),
+    }),
+  };
+}
+
+export async function addEmployeeChild(tenantId: string, employeeId: number, birthYear: number): Promise<void> {
+  const employee = await getEmployeeById(tenantId, employeeId);
+  if (!employee) {
+    throw new Error('Mitarbeiter wurde nicht gefunden.');
+  }
+  const currentYear = DateTime.now().setZone('Europe/Berlin').year;
+  if (!Number.isInteger(birthYear) || birthYear < currentYear - 60 || birthYear > currentYear) {
+    throw new Error('Bitte ein gültiges Geburtsjahr angeben.');
+  }
+  await createEmployeeChild(employeeId, birthYear);
+}
+
+export async function removeEmployeeChild(tenantId: string, employeeId: number, childId: number): Promise<void> {
+  await deleteEmployeeChild(tenantId, employeeId, childId);
+}
+
+export async function setEmployeeSingleParent(
+  tenantId: string,
+  employeeId: number,
+  singleParent: boolean
+): Promise<void> {
+  await updateEmployeeSingleParent(tenantId, employeeId, singleParent);
+}
@@ -0,0 +1,194 @@
+import {
+  createDailyDayHistoryEntry,
+  listDailyDayHistory,
+  type DailyDayChangeAction,
+  type DailyDayChangeSource,
+  type DailyDayHistoryRecord,
+  type DailyDaySnapshot,
+} from '@/lib/data/daily-day-history';
+import type { DailyDayRecord } from '@/lib/data/daily-days';
+import { formatWorkSegments, type WorkSegment } from '@/lib/services/time-calculations';
+
+export interface DailyDayFieldChange {
+  field: keyof DailyDaySnapshot;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface DailyDayHistoryItem {
+  id: number;
+  dayDate: string;
+  action: DailyDayChangeAction;
+  source: DailyDayChangeSource;
+  actorName: string | null;
+  createdAt: string;
+  revertedFromId: number | null;
+  changes: DailyDayFieldChange[];
+  /** False when this version is what the day currently looks like, or the change was a deletion. */
+  revertible: boolean;
+}
+
+export interface DailyDayChangeActor {
+  source: DailyDayChangeSource;
+  actorId?: number | null;
+  actorName?: string | null;
+  revertedFromId?: number | null;
+}
+
+function formatHoursValue(value: unknown): string {
+  const num = Number(value ?? 0);
+  return Number.isFinite(num) ? num.toFixed(2).replace('.', ',') : '—';
+}
+
+function formatSegmentsValue(value: unknown): string {
+  const segments = Array.isArray(value) ? (value as WorkSegment[]) : [];
+  const formatted = formatWorkSegments(segments);
+  const rawSegments = segments.filter((segment) => segment.kommtRaw || segment.gehtRaw);
+  if (!rawSegments.length) {
+    return formatted;
+  }
+  const raw = formatWorkSegments(
+    segments.map((segment) => ({ kommt: segment.kommtRaw ?? segment.kommt, geht: segment.gehtRaw ?? segment.geht }))
+  );
+  return `${formatted} (gestempelt ${raw})`;
+}
+
+const HISTORY_FIELDS: Array<{ key: keyof DailyDaySnapshot; label: string; formatter?: (value: unknown) => string }> = [
+  { key: 'segments', label: 'Zeiten', formatter: formatSegmentsValue },
+  { key: 'pause', label: 'Pause' },
+  { key: 'mittag', label: 'Mittag' },
+  { key: 'code', label: 'Code' },
+  { key: 'schicht', label: 'Schicht' },
+  {
+    key: 'brutto',
+    label: 'Umsatz',
+    formatter: (value) => (value === null || value === undefined ? '—' : `${formatHoursValue(value)} €`),
+  },
+  { key: 'bemerkungen', label: 'Notiz' },
+  { key: 'plan_hours', label: 'Soll (h)', formatter: formatHoursValue },
+  { key: 'overtime_delta', label: 'Überstunden-Delta (h)', formatter: formatHoursValue },
+  { key: 'sick_hours', label: 'Krank (h)', formatter: formatHoursValue },
+  { key: 'child_sick_hours', label: 'Kind krank (h)', formatter: formatHoursValue },
+  { key: 'short_work_hours', label: 'Kurzarbeit (h)', formatter: formatHoursValue },
+  { key: 'vacation_hours', label: 'Urlaub (h)', formatter: formatHoursValue },
+  { key: 'holiday_hours', label: 'Feiertag (h)', formatter: formatHoursValue },
+  { key: 'forced_overflow', label: 'Erzwungener Überlauf (h)', formatter: formatHoursValue },
+  { key: 'forced_overflow_real', label: 'Erzwungener Überlauf real (h)', formatter: formatHoursValue },
+  { key: 'required_pause_under6_minutes', label: 'Pflichtpause (min)', formatter: (value) => String(value ?? 0) },
+];
+
+function formatValue(field: (typeof HISTORY_FIELDS)[number], snapshot: DailyDaySnapshot | null): string {
+  if (!snapshot) {
+    return '—';
+  }
+  const value = snapshot[field.key];
+  if (field.formatter) {
+    return field.formatter(value) || '—';
+  }
+  if (value === null || value === undefined) {
+    return '—';
+  }
+  const str = String(value).trim();
+  return str.length ? str : '—';
+}
+
+const NON_SNAPSHOT_FIELDS = [
+  'id',
+  'employee_id',
+  'admin_last_change_at',
+  'admin_last_change_by',
+  'admin_last_change_type',
+  'admin_last_change_summary',
+] as const;
+
+export function toDailyDaySnapshot(record: DailyDayRecord | null): DailyDaySnapshot | null {
+  if (!record) {
+    return null;
+  }
+  const snapshot: Partial<DailyDayRecord> = { ...record };
+  for (const key of NON_SNAPSHOT_FIELDS) {
+    delete snapshot[key];
+  }
+  return snapshot as DailyDaySnapshot;
+}
+
+/** Lists every field whose displayed value differs; kommt1..geht2 are covered by the segments. */
+export function diffDailyDaySnapshots(
+  before: DailyDaySnapshot | null,
+  after: DailyDaySnapshot | null
+): DailyDayFieldChange[] {
+  return HISTORY_FIELDS.map((field) => ({
+    field: field.key,
+    label: field.label,
+    before: formatValue(field, before),
+    after: formatValue(field, after),
+  })).filter((change) => change.before !== change.after);
+}
+
+/** Appends a history entry unless the day ends up exactly as it was. */
+export async function recordDailyDayChange(
+  employeeId: number,
+  dayDate: string,
+  before: DailyDayRecord | null,
+  after: DailyDayRecord | null,
+  actor: DailyDayChangeActor
+): Promise<void> {
+  const beforeSnapshot = toDailyDaySnapshot(before);
+  const afterSnapshot = toDailyDaySnapshot(after);
+  if (!beforeSnapshot && !afterSnapshot) {
+    return;
+  }
+  if (!actor.revertedFromId && !diffDailyDaySnapshots(beforeSnapshot, afterSnapshot).length) {
+    return;
+  }
+  const action: DailyDayChangeAction = actor.revertedFromId
+    ? 'revert'
+    : !afterSnapshot
+      ? 'delete'
+      : beforeSnapshot
+        ? 'update'
+        : 'create';
+
+  await createDailyDayHistoryEntry({
+    employeeId,
+    dayDate,
+    action,
+    source: actor.source,
+    actorId: actor.actorId ?? null,
+    actorName: actor.actorName ?? null,
+    before: beforeSnapshot,
+    after: afterSnapshot,
+    revertedFromId: actor.revertedFromId ?? null,
+  });
+}
+
+export function buildDailyDayHistoryItems(records: DailyDayHistoryRecord[]): DailyDayHistoryItem[] {
+  const latestByDay = new Map<string, number>();
+  for (const record of records) {
+    if (!latestByDay.has(record.day_date)) {
+      latestByDay.set(record.day_date, record.id);
+    }
+  }
+  return records.map((record) => ({
+    id: record.id,
+    dayDate: record.day_date,
+    action: record.action,
+    source: record.source,
+    actorName: record.actor_name,
+    createdAt: record.created_at,
+    revertedFromId: record.reverted_from_id,
+    changes: diffDailyDaySnapshots(record.before, record.after),
+    revertible: Boolean(record.after) && latestByDay.get(record.day_date) !== record.id,
+  }));
+}
+
+export async function getDailyDayHistoryForMonth(
+  employeeId: number,
+  year: number,
+  month: number
+): Promise<DailyDayHistoryItem[]> {
+  const prefix = `${year}-${String(month).padStart(2, '0')}`;
+  const records = await listDailyDayHistory(employeeId, `${prefix}-01`, `${prefix}-31`);
+  return buildDailyDayHistoryItems(records);
+}
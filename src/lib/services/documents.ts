@@ -11,7 +11,7 @@ const MAX_DOCUMENT_SIZE_BYTES = Number.parseInt(process.env.MAX_DOCUMENT_SIZE ??
 
 export type AllowedExtension = (typeof ALLOWED_DOCUMENT_EXTENSIONS)[number];
 
-export type DocumentTypeKey = 'general' | 'payroll' | 'salary' | 'settlement';
+export type DocumentTypeKey = 'general' | 'payroll' | 'salary' | 'settlement' | 'sick_note';
 
 type DocumentTypeDefinition = {
   key: DocumentTypeKey;
@@ -26,6 +26,7 @@ const DOCUMENT_TYPES: DocumentTypeDefinition[] = [
   { key: 'payroll', label: 'Lohnzettel', slug: 'lohnzettel', sensitive: true, forcePreviousMonth: true },
   { key: 'salary', label: 'Gehaltsabrechnung', slug: 'gehaltsabrechnung', sensitive: true, forcePreviousMonth: true },
   { key: 'settlement', label: 'Abrechnung', slug: 'abrechnung', sensitive: true, forcePreviousMonth: false },
+  { key: 'sick_note', label: 'AU-Bescheinigung', slug: 'au', sensitive: true, forcePreviousMonth: false },
 ];
 
 const DOCUMENT_TYPE_MAP = new Map<DocumentTypeKey, DocumentTypeDefinition>(
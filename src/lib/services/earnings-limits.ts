@@ -0,0 +1,400 @@
+import { DateTime } from 'luxon';
+
+import { listDailyDayRecordsForEmployees, type DailyDayRecord } from '@/lib/data/daily-days';
+import {
+  deleteEarningsLimitRule,
+  listEarningsLimitRules,
+  saveEarningsLimitRule,
+  type EarningsLimitRuleRow,
+} from '@/lib/data/earnings-limit-rules';
+import { listActiveEmployeeEmploymentTypes } from '@/lib/data/employees';
+import { listShiftPlanDaysForEmployees, type ShiftPlanDayRecord } from '@/lib/data/shift-plan-days';
+import { toLocalIsoDate } from '@/lib/date/local-iso';
+import { workDaysFromPlan } from '@/lib/services/arbzg';
+import {
+  getEmploymentContractTimeline,
+  resolveContractForDate,
+  type EmploymentContractVersion,
+} from '@/lib/services/employment-contracts';
+import { calculateIstHours } from '@/lib/services/time-calculations';
+
+export type EarningsLimitKind = 'minijob' | 'midijob';
+
+export const EARNINGS_LIMIT_KIND_LABELS: Record<EarningsLimitKind, string> = {
+  minijob: 'Minijob',
+  midijob: 'Midijob',
+};
+
+/** A Minijob may exceed its monthly limit in at most two months per year, by up to twice the limit. */
+export const OCCASIONAL_EXCEEDANCE_MONTHS = 2;
+
+export type EarningsLimitRule = {
+  year: number;
+  minijobMonthlyLimit: number;
+  /** Upper end of the Übergangsbereich; above it the employment is no longer a Midijob. */
+  midijobMonthlyLimit: number;
+  /** The tenant stored its own values for this year instead of the statutory ones. */
+  customized: boolean;
+};
+
+export type EarningsLimitRuleInput = Omit<EarningsLimitRule, 'customized'>;
+
+export type EarningsDay = {
+  isoDate: string;
+  /** Paid hours: worked time plus paid absence hours for recorded days, planned net hours otherwise. */
+  hours: number;
+  source: 'actual' | 'plan';
+};
+
+export type EarningsLimitMonth = {
+  month: number;
+  recordedEarnings: number;
+  plannedEarnings: number;
+  projectedEarnings: number;
+  exceeded: boolean;
+  /** First day on which the projected earnings of the month pass the monthly limit. */
+  crossingDate: string | null;
+};
+
+export type EarningsLimitStatus = 'ok' | 'warning' | 'exceeded';
+
+export type EarningsLimitEvaluation = {
+  kind: EarningsLimitKind;
+  year: number;
+  monthlyLimit: number;
+  annualLimit: number;
+  months: EarningsLimitMonth[];
+  projectedAnnualEarnings: number;
+  exceededMonths: number;
+  status: EarningsLimitStatus;
+};
+
+export type EarningsLimitReportRow = EarningsLimitEvaluation & {
+  employeeId: number;
+  personalNr: string;
+  mitarbeiter: string;
+};
+
+export type ShiftPlanEarningsWarning = {
+  employeeId: number;
+  kind: EarningsLimitKind;
+  messages: string[];
+  /** Planned days of the requested range that lie on or after the day the limit is passed. */
+  dayDates: string[];
+};
+
+const MONTH_NAMES = [
+  'Januar',
+  'Februar',
+  'März',
+  'April',
+  'Mai',
+  'Juni',
+  'Juli',
+  'August',
+  'September',
+  'Oktober',
+  'November',
+  'Dezember',
+];
+
+const currencyFormatter = new Intl.NumberFormat('de-DE', { style: 'currency', currency: 'EUR' });
+
+function roundTwo(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Statutory monthly limits; the Minijob limit follows the minimum wage since October 2022. */
+export function statutoryEarningsLimitRule(year: number): EarningsLimitRule {
+  const rule = (minijobMonthlyLimit: number, midijobMonthlyLimit: number): EarningsLimitRule => ({
+    year,
+    minijobMonthlyLimit,
+    midijobMonthlyLimit,
+    customized: false,
+  });
+  if (year <= 2021) return rule(450, 1300);
+  if (year === 2022) return rule(520, 1600);
+  if (year === 2023) return rule(520, 2000);
+  if (year === 2024) return rule(538, 2000);
+  if (year === 2025) return rule(556, 2000);
+  return rule(603, 2000);
+}
+
+export function resolveEarningsLimitRule(year: number, rows: EarningsLimitRuleRow[]): EarningsLimitRule {
+  const row = rows.find((entry) => entry.year === year);
+  if (!row) return statutoryEarningsLimitRule(year);
+  return {
+    year,
+    minijobMonthlyLimit: row.minijob_monthly_limit,
+    midijobMonthlyLimit: row.midijob_monthly_limit,
+    customized: true,
+  };
+}
+
+/** Reads the Einstellungsart; only Minijob and Midijob employees are monitored. */
+export function earningsLimitKind(employmentType: string | null | undefined): EarningsLimitKind | null {
+  const normalized = (employmentType ?? '').trim().toLowerCase();
+  if (normalized.includes('minijob')) return 'minijob';
+  if (normalized.includes('midijob')) return 'midijob';
+  return null;
+}
+
+/** Recorded days win over the plan; the plan fills the days nobody has recorded yet. */
+export function buildEarningsDays(
+  records: Array<
+    Pick<DailyDayRecord, 'day_date' | 'segments' | 'pause' | 'sick_hours' | 'vacation_hours' | 'holiday_hours'>
+  >,
+  planRows: Array<
+    Pick<ShiftPlanDayRecord, 'day_date' | 'mode' | 'start_time' | 'end_time' | 'required_pause_minutes' | 'label'>
+  >
+): EarningsDay[] {
+  const byDate = new Map<string, EarningsDay>();
+  for (const day of workDaysFromPlan(planRows)) {
+    byDate.set(day.dayDate, {
+      isoDate: day.dayDate,
+      hours: calculateIstHours(day.segments, day.pause).netHours,
+      source: 'plan',
+    });
+  }
+  for (const record of records) {
+    const worked = calculateIstHours(record.segments, record.pause ?? 'Keine').netHours;
+    byDate.set(record.day_date, {
+      isoDate: record.day_date,
+      hours: roundTwo(worked + record.sick_hours + record.vacation_hours + record.holiday_hours),
+      source: 'actual',
+    });
+  }
+  return Array.from(byDate.values()).sort((a, b) => a.isoDate.localeCompare(b.isoDate));
+}
+
+/**
+ * Projects the earnings of every month of the year: hourly pay from the paid hours of each day with the wage of
+ * the contract version in force, fixed salaries pro rata by calendar day. A month above the monthly limit is a
+ * warning, since occasional exceedances are allowed; the projection is exceeded when the year passes twelve
+ * monthly limits, more than two months are over the limit or a month reaches twice the limit.
+ */
+export function evaluateEarningsLimit(params: {
+  kind: EarningsLimitKind;
+  rule: EarningsLimitRule;
+  year: number;
+  days: EarningsDay[];
+  contracts: EmploymentContractVersion[];
+  todayIso: string;
+}): EarningsLimitEvaluation {
+  const monthlyLimit = params.kind === 'minijob' ? params.rule.minijobMonthlyLimit : params.rule.midijobMonthlyLimit;
+  const hoursByDate = new Map(params.days.map((day) => [day.isoDate, day]));
+  const months: EarningsLimitMonth[] = [];
+
+  for (let month = 1; month <= 12; month += 1) {
+    const start = DateTime.fromObject({ year: params.year, month, day: 1 });
+    let recorded = 0;
+    let planned = 0;
+    let crossingDate: string | null = null;
+    for (let day = 1; day <= start.daysInMonth!; day += 1) {
+      const isoDate = start.set({ day }).toISODate()!;
+      const contract = resolveContractForDate(params.contracts, isoDate);
+      if (!contract) continue;
+      const entry = hoursByDate.get(isoDate);
+      if (contract.compensationType === 'fixed') {
+        const share = Number(contract.monthlySalaryGross ?? 0) / start.daysInMonth!;
+        if (isoDate <= params.todayIso) recorded += share;
+        else planned += share;
+      } else if (entry) {
+        const amount = entry.hours * Number(contract.hourlyWage ?? 0);
+        if (entry.source === 'actual') recorded += amount;
+        else planned += amount;
+      }
+      if (!crossingDate && recorded + planned > monthlyLimit + 0.005) {
+        crossingDate = isoDate;
+      }
+    }
+    const projected = roundTwo(recorded + planned);
+    months.push({
+      month,
+      recordedEarnings: roundTwo(recorded),
+      plannedEarnings: roundTwo(planned),
+      projectedEarnings: projected,
+      exceeded: crossingDate !== null,
+      crossingDate,
+    });
+  }
+
+  const annualLimit = roundTwo(monthlyLimit * 12);
+  const projectedAnnualEarnings = roundTwo(months.reduce((sum, month) => sum + month.projectedEarnings, 0));
+  const exceededMonths = months.filter((month) => month.exceeded).length;
+  const exceeded =
+    projectedAnnualEarnings > annualLimit + 0.005 ||
+    exceededMonths > OCCASIONAL_EXCEEDANCE_MONTHS ||
+    months.some((month) => month.projectedEarnings > monthlyLimit * 2 + 0.005);
+
+  return {
+    kind: params.kind,
+    year: params.year,
+    monthlyLimit,
+    annualLimit,
+    months,
+    projectedAnnualEarnings,
+    exceededMonths,
+    status: exceeded ? 'exceeded' : exceededMonths > 0 ? 'warning' : 'ok',
+  };
+}
+
+function describeMonth(evaluation: EarningsLimitEvaluation, month: EarningsLimitMonth): string {
+  return `${EARNINGS_LIMIT_KIND_LABELS[evaluation.kind]}: ${MONTH_NAMES[month.month - 1]} ${
+    evaluation.year
+  } voraussichtlich ${currencyFormatter.format(month.projectedEarnings)} (Grenze ${currencyFormatter.format(
+    evaluation.monthlyLimit
+  )})`;
+}
+
+function describeYear(evaluation: EarningsLimitEvaluation): string {
+  return `${EARNINGS_LIMIT_KIND_LABELS[evaluation.kind]}: Jahresverdienst ${
+    evaluation.year
+  } voraussichtlich ${currencyFormatter.format(evaluation.projectedAnnualEarnings)} (Grenze ${currencyFormatter.format(
+    evaluation.annualLimit
+  )})`;
+}
+
+export async function getEarningsLimitRules(tenantId: string, years: number[]): Promise<EarningsLimitRule[]> {
+  const rows = await listEarningsLimitRules(tenantId);
+  const allYears = Array.from(new Set([...years, ...rows.map((row) => row.year)])).sort((a, b) => b - a);
+  return allYears.map((year) => resolveEarningsLimitRule(year, rows));
+}
+
+export async function saveTenantEarningsLimitRule(tenantId: string, input: EarningsLimitRuleInput): Promise<void> {
+  if (!Number.isInteger(input.year) || input.year < 2000 || input.year > 2100) {
+    throw new Error('Ungültiges Jahr.');
+  }
+  const values = [input.minijobMonthlyLimit, input.midijobMonthlyLimit];
+  if (values.some((value) => !Number.isFinite(value) || value <= 0 || value > 10000)) {
+    throw new Error('Bitte für beide Grenzen einen Betrag zwischen 0 und 10.000 € angeben.');
+  }
+  if (input.midijobMonthlyLimit <= input.minijobMonthlyLimit) {
+    throw new Error('Die Midijob-Grenze muss über der Minijob-Grenze liegen.');
+  }
+  await saveEarningsLimitRule(tenantId, input);
+}
+
+export async function resetTenantEarningsLimitRule(tenantId: string, year: number): Promise<void> {
+  await deleteEarningsLimitRule(tenantId, year);
+}
+
+async function evaluateEmployees(
+  tenantId: string,
+  employees: Array<{ id: number; kind: EarningsLimitKind }>,
+  year: number
+): Promise<Map<number, EarningsLimitEvaluation>> {
+  const result = new Map<number, EarningsLimitEvaluation>();
+  if (!employees.length) return result;
+  const startIso = `${year}-01-01`;
+  const endIso = `${year}-12-31`;
+  const ids = employees.map((employee) => employee.id);
+  const [rules, records, planRows] = await Promise.all([
+    listEarningsLimitRules(tenantId),
+    listDailyDayRecordsForEmployees(ids, startIso, endIso),
+    listShiftPlanDaysForEmployees(ids, startIso, endIso),
+  ]);
+  const rule = resolveEarningsLimitRule(year, rules);
+  const todayIso = toLocalIsoDate();
+  for (const employee of employees) {
+    result.set(
+      employee.id,
+      evaluateEarningsLimit({
+        kind: employee.kind,
+        rule,
+        year,
+        days: buildEarningsDays(
+          records.filter((record) => record.employee_id === employee.id),
+          planRows.filter((row) => row.employee_id === employee.id)
+        ),
+        contracts: await getEmploymentContractTimeline(tenantId, employee.id),
+        todayIso,
+      })
+    );
+  }
+  return result;
+}
+
+async function listMonitoredEmployees(tenantId: string, employeeIds?: number[]) {
+  const wanted = employeeIds ? new Set(employeeIds) : null;
+  return (await listActiveEmployeeEmploymentTypes(tenantId)).flatMap((employee) => {
+    const kind = earningsLimitKind(employee.employment_type);
+    return kind && (!wanted || wanted.has(employee.id)) ? [{ ...employee, kind }] : [];
+  });
+}
+
+/** Projection of all active Minijob and Midijob employees for the year. */
+export async function getEarningsLimitReport(tenantId: string, year: number): Promise<EarningsLimitReportRow[]> {
+  const employees = await listMonitoredEmployees(tenantId);
+  const evaluations = await evaluateEmployees(tenantId, employees, year);
+  return employees.flatMap((employee) => {
+    const evaluation = evaluations.get(employee.id);
+    return evaluation
+      ? [
+          {
+            ...evaluation,
+            employeeId: employee.id,
+            personalNr: employee.personnel_number ?? '',
+            mitarbeiter: `${employee.last_name}, ${employee.first_name}`,
+          },
+        ]
+      : [];
+  });
+}
+
+/**
+ * Warnings for the shift plan board: months touched by the range whose projection passes the monthly limit,
+ * and years whose projection is exceeded. Planned shifts on or after the crossing day are flagged.
+ */
+export async function getShiftPlanEarningsWarnings(
+  tenantId: string,
+  employeeIds: number[],
+  startIso: string,
+  endIso: string
+): Promise<ShiftPlanEarningsWarning[]> {
+  const employees = await listMonitoredEmployees(tenantId, employeeIds);
+  if (!employees.length) return [];
+  const years = Array.from(new Set([Number(startIso.slice(0, 4)), Number(endIso.slice(0, 4))]));
+  const firstMonth = startIso.slice(0, 7);
+  const lastMonth = endIso.slice(0, 7);
+  const planRows = await listShiftPlanDaysForEmployees(
+    employees.map((employee) => employee.id),
+    startIso,
+    endIso
+  );
+  const warnings = new Map<number, ShiftPlanEarningsWarning>();
+
+  for (const year of years) {
+    const evaluations = await evaluateEmployees(tenantId, employees, year);
+    for (const employee of employees) {
+      const evaluation = evaluations.get(employee.id);
+      if (!evaluation || evaluation.status === 'ok') continue;
+      const plannedDates = workDaysFromPlan(planRows.filter((row) => row.employee_id === employee.id)).map(
+        (day) => day.dayDate
+      );
+      const warning = warnings.get(employee.id) ?? {
+        employeeId: employee.id,
+        kind: employee.kind,
+        messages: [],
+        dayDates: [],
+      };
+      for (const month of evaluation.months) {
+        const monthKey = `${year}-${String(month.month).padStart(2, '0')}`;
+        if (!month.exceeded || monthKey < firstMonth || monthKey > lastMonth) continue;
+        warning.messages.push(describeMonth(evaluation, month));
+        for (const isoDate of plannedDates) {
+          if (isoDate.startsWith(monthKey) && isoDate >= month.crossingDate!) {
+            warning.dayDates.push(isoDate);
+          }
+        }
+      }
+      if (evaluation.status === 'exceeded') {
+        warning.messages.push(describeYear(evaluation));
+      }
+      if (warning.messages.length) {
+        warnings.set(employee.id, warning);
+      }
+    }
+  }
+  return Array.from(warnings.values());
+}
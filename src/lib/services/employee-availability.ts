@@ -0,0 +1,305 @@
+import { DateTime } from 'luxon';
+
+import {
+  listEmployeeAvailability,
+  replaceEmployeeAvailability,
+  type EmployeeAvailabilityInput,
+  type EmployeeAvailabilityKind,
+  type EmployeeAvailabilityRow,
+} from '@/lib/data/employee-availability';
+import { getEmployeeDisplayNamesByIds } from '@/lib/data/employees';
+import { deriveCodeFromPlanLabel, type WeeklyShiftPlan } from '@/lib/services/shift-plan';
+
+const MAX_ENTRIES = 60;
+const MAX_NOTE_LENGTH = 200;
+const KINDS: EmployeeAvailabilityKind[] = ['unavailable', 'only', 'preferred'];
+const MAX_LISTED_CONFLICTS = 5;
+
+export type AvailabilityShift = {
+  startMinutes: number;
+  endMinutes: number;
+};
+
+/** A shift an admin planned for an employee, as checked by `getAvailabilityWarningForShifts`. */
+export type PlannedAvailabilityShift = {
+  employeeId: number;
+  isoDate: string;
+  start: string | null;
+  end: string | null;
+  label: string | null;
+};
+
+/** Stated availability of one employee on one day of the admin shift plan. */
+export type ShiftPlanAvailabilityDay = {
+  employeeId: number;
+  isoDate: string;
+  /** Strongest kind of the day: unavailable before only before preferred. */
+  kind: EmployeeAvailabilityKind;
+  labels: string[];
+  notes: string[];
+  /** Labels of the entries the planned shifts of the day run against. */
+  conflicts: string[];
+};
+
+function parseTime(value: unknown): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(String(value ?? '').trim());
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes >= 0 && minutes <= 1440 ? minutes : null;
+}
+
+function minutesToTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Validates the entries of an employee. Every line needs either a weekday (0 = Monday) or a date that is not in
+ * the past; without start and end the entry covers the whole day, except for "only" which needs a window.
+ */
+export function sanitizeEmployeeAvailability(
+  entries: Array<{ weekday?: unknown; date?: unknown; kind?: unknown; start?: unknown; end?: unknown; note?: unknown }>,
+  today: string
+): EmployeeAvailabilityInput[] {
+  if (entries.length > MAX_ENTRIES) {
+    throw new Error(`Es können höchstens ${MAX_ENTRIES} Einträge gespeichert werden.`);
+  }
+  return entries.map((entry, index) => {
+    const line = `Zeile ${index + 1}`;
+    const kind = KINDS.find((candidate) => candidate === entry.kind);
+    if (!kind) {
+      throw new Error(`${line}: Bitte eine Art wählen.`);
+    }
+    const date = String(entry.date ?? '').trim();
+    const weekdayRaw = String(entry.weekday ?? '').trim();
+    if (date && !DateTime.fromISO(date).isValid) {
+      throw new Error(`${line}: Bitte ein gültiges Datum angeben.`);
+    }
+    if (date && date < today) {
+      throw new Error(`${line}: Das Datum liegt in der Vergangenheit.`);
+    }
+    const weekday = date ? null : Number.parseInt(weekdayRaw, 10);
+    if (weekday !== null && !(weekday >= 0 && weekday <= 6)) {
+      throw new Error(`${line}: Bitte einen Wochentag oder ein Datum wählen.`);
+    }
+    const startRaw = String(entry.start ?? '').trim();
+    const endRaw = String(entry.end ?? '').trim();
+    let startsAtMinutes: number | null = null;
+    let endsAtMinutes: number | null = null;
+    if (startRaw || endRaw) {
+      startsAtMinutes = parseTime(startRaw);
+      endsAtMinutes = parseTime(endRaw);
+      if (startsAtMinutes === null || endsAtMinutes === null) {
+        throw new Error(`${line}: Bitte Start- und Endzeit angeben oder beide leer lassen.`);
+      }
+      if (endsAtMinutes <= startsAtMinutes) {
+        throw new Error(`${line}: Die Endzeit muss nach der Startzeit liegen.`);
+      }
+    } else if (kind === 'only') {
+      throw new Error(`${line}: Bitte das Zeitfenster angeben, in dem du arbeiten kannst.`);
+    }
+    const note = String(entry.note ?? '').trim().slice(0, MAX_NOTE_LENGTH);
+    return { weekday, date: date || null, kind, startsAtMinutes, endsAtMinutes, note: note || null };
+  });
+}
+
+/**
+ * Entries of one employee that apply on a day. A dated entry replaces the weekday entries of the same kind only,
+ * so a wish for one date leaves a regular "not available" of that weekday in place.
+ */
+export function resolveAvailability(
+  rows: EmployeeAvailabilityRow[],
+  isoDate: string,
+  weekdayIndex: number
+): EmployeeAvailabilityRow[] {
+  const dated = rows.filter((row) => row.date === isoDate);
+  const datedKinds = new Set(dated.map((row) => row.kind));
+  const weekly = rows.filter(
+    (row) => row.date === null && row.weekday === weekdayIndex && !datedKinds.has(row.kind)
+  );
+  return [...weekly, ...dated];
+}
+
+export function describeAvailability(row: EmployeeAvailabilityRow): string {
+  const window =
+    row.starts_at_minutes !== null && row.ends_at_minutes !== null
+      ? `${minutesToTime(row.starts_at_minutes)}–${minutesToTime(row.ends_at_minutes)}`
+      : null;
+  switch (row.kind) {
+    case 'only':
+      return `Nur ${window ?? 'ganztags'}`;
+    case 'preferred':
+      return `Wunsch ${window ?? 'ganztags'}`;
+    default:
+      return window ? `Nicht verfügbar ${window}` : 'Nicht verfügbar (ganztags)';
+  }
+}
+
+/**
+ * Entries the shifts of a day run against. A shift conflicts with an "unavailable" entry it overlaps and, as
+ * soon as the day has "only" entries, with every "only" entry when it does not fit into one of their windows.
+ * Wishes never conflict.
+ */
+export function findAvailabilityConflicts(
+  entries: EmployeeAvailabilityRow[],
+  shifts: AvailabilityShift[]
+): EmployeeAvailabilityRow[] {
+  const conflicts = new Set<EmployeeAvailabilityRow>();
+  const onlyEntries = entries.filter((entry) => entry.kind === 'only');
+  for (const shift of shifts) {
+    const endMinutes = shift.endMinutes > shift.startMinutes ? shift.endMinutes : 1440;
+    for (const entry of entries) {
+      if (entry.kind !== 'unavailable') continue;
+      const from = entry.starts_at_minutes ?? 0;
+      const to = entry.ends_at_minutes ?? 1440;
+      if (from < endMinutes && shift.startMinutes < to) {
+        conflicts.add(entry);
+      }
+    }
+    const fits = onlyEntries.some(
+      (entry) =>
+        (entry.starts_at_minutes ?? 0) <= shift.startMinutes && endMinutes <= (entry.ends_at_minutes ?? 1440)
+    );
+    if (!fits) {
+      onlyEntries.forEach((entry) => conflicts.add(entry));
+    }
+  }
+  return entries.filter((entry) => conflicts.has(entry));
+}
+
+function weekdayIndexOf(isoDate: string): number {
+  return DateTime.fromISO(isoDate).weekday - 1;
+}
+
+function toAvailabilityShift(segment: {
+  mode: string;
+  start: string | null;
+  end: string | null;
+  label: string | null;
+}): AvailabilityShift | null {
+  if (segment.mode !== 'available' || deriveCodeFromPlanLabel(segment.label)) return null;
+  const startMinutes = parseTime(segment.start);
+  const endMinutes = parseTime(segment.end);
+  if (startMinutes === null || endMinutes === null) return null;
+  return { startMinutes, endMinutes };
+}
+
+/** Availability overlay of the admin board, one entry per employee and day with stated availability. */
+export async function getShiftPlanAvailability(
+  tenantId: string,
+  plan: WeeklyShiftPlan
+): Promise<ShiftPlanAvailabilityDay[]> {
+  const rows = await listEmployeeAvailability(
+    tenantId,
+    plan.rows.map((row) => row.employeeId),
+    { from: plan.weekStart, to: plan.weekEnd }
+  );
+  const result: ShiftPlanAvailabilityDay[] = [];
+  for (const planRow of plan.rows) {
+    const employeeRows = rows.filter((row) => row.employee_id === planRow.employeeId);
+    if (!employeeRows.length) continue;
+    for (const cell of planRow.cells) {
+      const entries = resolveAvailability(employeeRows, cell.isoDate, weekdayIndexOf(cell.isoDate));
+      if (!entries.length) continue;
+      const shifts = cell.segments
+        .map(toAvailabilityShift)
+        .filter((shift): shift is AvailabilityShift => shift !== null);
+      result.push({
+        employeeId: planRow.employeeId,
+        isoDate: cell.isoDate,
+        kind: KINDS.find((kind) => entries.some((entry) => entry.kind === kind)) ?? 'preferred',
+        labels: entries.map(describeAvailability),
+        notes: entries.map((entry) => entry.note).filter((note): note is string => Boolean(note)),
+        conflicts: findAvailabilityConflicts(entries, shifts).map(describeAvailability),
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * Warning for a shift an admin just planned against the stated availability of the employee, or null when the
+ * shift fits.
+ */
+export async function getAvailabilityWarning(
+  tenantId: string,
+  employeeId: number,
+  isoDate: string,
+  shift: { start: string | null; end: string | null; label: string | null }
+): Promise<string | null> {
+  const planned = toAvailabilityShift({ mode: 'available', ...shift });
+  if (!planned) return null;
+  const rows = await listEmployeeAvailability(tenantId, [employeeId], { from: isoDate, to: isoDate });
+  const entries = resolveAvailability(rows, isoDate, weekdayIndexOf(isoDate));
+  const conflicts = findAvailabilityConflicts(entries, [planned]);
+  if (!conflicts.length) return null;
+  return `Gespeichert, aber die Schicht liegt außerhalb der Verfügbarkeit: ${conflicts
+    .map(describeAvailability)
+    .join(', ')}.`;
+}
+
+/**
+ * Warning for several shifts an admin just planned, e.g. by filling a week, applying a pattern or accepting a
+ * generated draft. Lists employee, day and the entries each day runs against; null when every shift fits.
+ */
+export async function getAvailabilityWarningForShifts(
+  tenantId: string,
+  shifts: PlannedAvailabilityShift[]
+): Promise<string | null> {
+  const shiftsByDay = new Map<string, { employeeId: number; isoDate: string; planned: AvailabilityShift[] }>();
+  for (const shift of shifts) {
+    const planned = toAvailabilityShift({ mode: 'available', ...shift });
+    if (!planned) continue;
+    const key = `${shift.employeeId}:${shift.isoDate}`;
+    const day = shiftsByDay.get(key) ?? { employeeId: shift.employeeId, isoDate: shift.isoDate, planned: [] };
+    day.planned.push(planned);
+    shiftsByDay.set(key, day);
+  }
+  if (!shiftsByDay.size) return null;
+
+  const days = Array.from(shiftsByDay.values()).sort(
+    (a, b) => a.isoDate.localeCompare(b.isoDate) || a.employeeId - b.employeeId
+  );
+  const employeeIds = Array.from(new Set(days.map((day) => day.employeeId)));
+  const rows = await listEmployeeAvailability(tenantId, employeeIds, {
+    from: days[0]!.isoDate,
+    to: days[days.length - 1]!.isoDate,
+  });
+  const conflicts = days
+    .map((day) => {
+      const employeeRows = rows.filter((row) => row.employee_id === day.employeeId);
+      const entries = resolveAvailability(employeeRows, day.isoDate, weekdayIndexOf(day.isoDate));
+      return { ...day, labels: findAvailabilityConflicts(entries, day.planned).map(describeAvailability) };
+    })
+    .filter((day) => day.labels.length);
+  if (!conflicts.length) return null;
+
+  const names = await getEmployeeDisplayNamesByIds(tenantId, conflicts.map((day) => day.employeeId));
+  const listed = conflicts
+    .slice(0, MAX_LISTED_CONFLICTS)
+    .map(
+      (day) =>
+        `${names.get(day.employeeId) ?? 'Mitarbeiter'} am ${DateTime.fromISO(day.isoDate).toFormat('dd.MM.')} ` +
+        `(${day.labels.join(', ')})`
+    );
+  const more = conflicts.length - listed.length;
+  return `Gespeichert, aber ${
+    conflicts.length === 1 ? 'ein Tag liegt' : `${conflicts.length} Tage liegen`
+  } außerhalb der Verfügbarkeit: ${listed.join('; ')}${more > 0 ? ` und ${more} weitere` : ''}.`;
+}
+
+/** Entries shown in the employee's editor: all weekday entries and dated entries from today on. */
+export async function getEmployeeAvailability(tenantId: string, employeeId: number): Promise<EmployeeAvailabilityRow[]> {
+  const today = DateTime.now().setZone('Europe/Berlin').toISODate()!;
+  return listEmployeeAvailability(tenantId, [employeeId], { from: today, to: '9999-12-31' });
+}
+
+/** Replaces the employee's entries; dated entries that lie in the past are dropped with the save. */
+export async function saveEmployeeAvailability(
+  tenantId: string,
+  employeeId: number,
+  entries: Parameters<typeof sanitizeEmployeeAvailability>[0]
+): Promise<EmployeeAvailabilityRow[]> {
+  const today = DateTime.now().setZone('Europe/Berlin').toISODate()!;
+  await replaceEmployeeAvailability(tenantId, employeeId, sanitizeEmployeeAvailability(entries, today));
+  return getEmployeeAvailability(tenantId, employeeId);
+}
@@ -1,6 +1,6 @@
 import { listDailyDayRecords, type DailyDayRecord } from '@/lib/data/daily-days';
 import { getEmployeeOvertimePayout } from '@/lib/data/employee-overtime-payouts';
-import { calculateIstHours } from '@/lib/services/time-calculations';
+import { calculateIstHours, splitHoursByCalendarDay, type WorkSegment } from '@/lib/services/time-calculations';
 
 const MONTH_NAMES = [
   'Januar',
@@ -21,12 +21,11 @@ export interface EmployeeMonthlyOverviewEntry {
   isoDate: string;
   displayDate: string;
   brutto: number;
-  kommt1: string | null;
-  geht1: string | null;
-  kommt2: string | null;
-  geht2: string | null;
+  segments: WorkSegment[];
   pause: string | null;
   istHours: number;
+  /** Part of `istHours` worked after midnight, i.e. on the following calendar day. */
+  nextDayHours: number;
   sollHours: number;
   overtimeDelta: number;
   code: string;
@@ -117,24 +116,19 @@ function ensureSelection(records: DailyDayRecord[], preferredYear?: number, pref
 }
 
 function toEntry(row: DailyDayRecord): EmployeeMonthlyOverviewEntry {
-  const istResult = calculateIstHours(
-    row.kommt1 ?? '',
-    row.geht1 ?? '',
-    row.kommt2 ?? '',
-    row.geht2 ?? '',
-    row.pause ?? 'Keine'
-  );
+  const istResult = calculateIstHours(row.segments, row.pause ?? 'Keine');
+  const nextDayHours = splitHoursByCalendarDay(row.day_date, row.segments, row.pause ?? 'Keine')
+    .filter((part) => part.dayDate !== row.day_date)
+    .reduce((sum, part) => sum + part.netHours, 0);
 
   return {
     isoDate: row.day_date,
     displayDate: new Date(`${row.day_date}T00:00:00`).toLocaleDateString('de-DE'),
     brutto: Number(row.brutto ?? 0),
-    kommt1: row.kommt1,
-    geht1: row.geht1,
-    kommt2: row.kommt2,
-    geht2: row.geht2,
+    segments: row.segments,
     pause: row.pause ?? null,
     istHours: Number(istResult.netHours.toFixed(2)),
+    nextDayHours: Number(nextDayHours.toFixed(2)),
     sollHours: Number(Number(row.plan_hours ?? 0).toFixed(2)),
     overtimeDelta: Number(Number(row.overtime_delta ?? 0).toFixed(2)),
     code: (row.code ?? '').trim(),
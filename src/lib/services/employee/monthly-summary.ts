@@ -13,7 +13,13 @@ import {
 import { sumEmployeeOvertimePayoutsUpTo } from '@/lib/data/employee-overtime-payouts';
 import { toLocalIsoDate } from '@/lib/date/local-iso';
 import { getPlanHoursForDayFromPlan, getShiftPlan } from '@/lib/services/shift-plan';
-import { computeVacationBalance } from '@/lib/services/vacation-balance';
+import {
+  computeVacationBalance,
+  type VacationConversion,
+  type VacationSegmentBreakdown,
+} from '@/lib/services/vacation-balance';
+import { getVacationEntitlementSegments } from '@/lib/services/employment-contracts';
+import { getAbsenceCodeCatalog, getVacationDayCodes } from '@/lib/services/absence-codes';
 import { sendVacationCarryExpiryNotification } from '@/lib/services/vacation-carry-notification';
 
 import { getEmployeeMonthlyOverview, type EmployeeMonthlyOverview } from './monthly-overview';
@@ -222,6 +228,8 @@ export interface EmployeeMonthlySummary {
     remainingDays: number;
     carryExpiryEnabled: boolean;
     carryExpiryDate: string | null;
+    segments: VacationSegmentBreakdown[];
+    conversions: VacationConversion[];
   };
 }
 
@@ -308,6 +316,7 @@ export async function getEmployeeMonthlySummary(
       ? roundTwo(meta?.openingVacationTakenYtd ?? 0)
       : 0;
 
+  const vacationCodes = getVacationDayCodes(await getAbsenceCodeCatalog(tenantId));
   const vacationBalance = computeVacationBalance({
     carryExpiryNotified:
       meta?.vacationCarryExpiryEnabled && meta?.vacationCarryExpiryDate
@@ -319,6 +328,7 @@ export async function getEmployeeMonthlySummary(
           })
         : false,
     annualDays: roundTwo(meta?.vacationDaysTotal ?? 0),
+    entitlementSegments: await getVacationEntitlementSegments(tenantId, employeeId),
     importedCarryDays: roundTwo(meta?.openingVacationCarryDays ?? meta?.vacationDaysLastYear ?? 0),
     openingTakenDays: openingTakenDaysForYear,
     entryDate: meta?.openingEffectiveDate ?? meta?.entryDate ?? null,
@@ -328,6 +338,7 @@ export async function getEmployeeMonthlySummary(
     carryExpiryDate: meta?.vacationCarryExpiryDate ?? null,
     year,
     records: allRecords,
+    vacationCodes,
   });
 
   if (meta?.vacationCarryExpiryEnabled && meta.vacationCarryExpiryDate) {
@@ -407,6 +418,8 @@ export async function getEmployeeMonthlySummary(
       remainingDays: vacationBalance.remainingDays,
       carryExpiryEnabled: Boolean(meta?.vacationCarryExpiryEnabled),
       carryExpiryDate: meta?.vacationCarryExpiryDate ?? null,
+      segments: vacationBalance.segments,
+      conversions: vacationBalance.conversions,
     },
   };
 }
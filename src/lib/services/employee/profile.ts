@@ -1,6 +1,7 @@
 import { verifyPassword } from '@/lib/auth';
 import { FEDERAL_STATE_OPTIONS } from '@/lib/constants/federal-states';
 import { getPrisma } from '@/lib/prisma';
+import { DEFAULT_BOOKING_PIN, isBookingPinTaken } from '@/lib/data/employees';
 import { pushStaffProfileUpdateToControlPlane } from '@/lib/control-plane';
 import { createHash } from 'crypto';
 
@@ -83,7 +84,7 @@ export async function getEmployeeProfile(
     entryDate: row.entryDate,
     personnelNumber: row.personnelNumber,
     federalState: row.federalState ?? null,
-    bookingPin: row.bookingPin ?? '0000',
+    bookingPin: row.bookingPin ?? DEFAULT_BOOKING_PIN,
   };
 }
 
@@ -258,15 +259,11 @@ export async function updateEmployeeBookingPin(
     return { success: false, message: 'Die neue Buchungs-PIN muss sich von der bisherigen unterscheiden.' };
   }
 
-  const duplicate = await prisma.employee.findFirst({
-    where: {
-      bookingPin: normalizedNew,
-      ...(tenantId ? { tenantId } : {}),
-      id: { not: employeeId },
-    },
-    select: { id: true },
-  });
-  if (duplicate) {
+  if (normalizedNew === DEFAULT_BOOKING_PIN) {
+    return { success: false, message: `Die Buchungs-PIN ${DEFAULT_BOOKING_PIN} ist nicht erlaubt.` };
+  }
+
+  if (await isBookingPinTaken(row.tenantId, normalizedNew, employeeId)) {
     return { success: false, message: 'Diese Buchungs-PIN wird bereits verwendet.' };
   }
 
@@ -331,15 +328,11 @@ export async function completeEmployeeInitialBookingPin(
     return { success: false, message: 'Die Buchungs-PIN muss aus genau 4 Ziffern bestehen.' };
   }
 
-  const duplicate = await prisma.employee.findFirst({
-    where: {
-      bookingPin: normalizedNew,
-      ...(tenantId ? { tenantId } : {}),
-      id: { not: employeeId },
-    },
-    select: { id: true },
-  });
-  if (duplicate) {
+  if (normalizedNew === DEFAULT_BOOKING_PIN) {
+    return { success: false, message: `Die Buchungs-PIN ${DEFAULT_BOOKING_PIN} ist nicht erlaubt.` };
+  }
+
+  if (await isBookingPinTaken(row.tenantId, normalizedNew, employeeId)) {
     return { success: false, message: 'Diese Buchungs-PIN wird bereits verwendet.' };
   }
 
@@ -0,0 +1,426 @@
+import { DateTime } from 'luxon';
+
+import {
+  applyCurrentEmploymentContract,
+  deleteEmploymentContract,
+  listEmploymentContracts,
+  listEmploymentContractsForEmployees,
+  listWeeklyHoursHistory,
+  saveEmploymentContract,
+  type EmploymentContractRow,
+  type WeeklyHoursHistoryRow,
+} from '@/lib/data/employment-contracts';
+import { getEmployeeAdminDetails, type EmployeeAdminDetails } from '@/lib/data/employees';
+import { toLocalIsoDate } from '@/lib/date/local-iso';
+import type { VacationEntitlementSegment } from '@/lib/services/vacation-balance';
+
+export type EmploymentContractTerms = {
+  weeklyHours: number;
+  workdaysPerWeek: number;
+  compensationType: 'hourly' | 'fixed';
+  hourlyWage: number | null;
+  monthlySalaryGross: number | null;
+  /** Annual vacation entitlement of a full year under these terms. */
+  vacationDays: number;
+};
+
+export type EmploymentContractVersion = EmploymentContractTerms & {
+  /** Null for the implicit version built from the employee record when no version is stored yet. */
+  id: number | null;
+  validFrom: string;
+  /** Last day before the next version, null for the latest one. */
+  validUntil: string | null;
+  note: string | null;
+};
+
+export type SaveEmploymentContractVersionInput = EmploymentContractTerms & {
+  validFrom: string;
+  note?: string | null;
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+/** Working days per week when no contract version states them. */
+export const DEFAULT_WORKDAYS_PER_WEEK = 5;
+
+function dayBefore(isoDate: string): string {
+  return DateTime.fromISO(isoDate, { zone: 'utc' }).minus({ days: 1 }).toISODate()!;
+}
+
+function daysBetween(startIso: string, endIso: string): number {
+  const start = DateTime.fromISO(startIso, { zone: 'utc' });
+  const end = DateTime.fromISO(endIso, { zone: 'utc' });
+  return Math.max(Math.round(end.diff(start, 'days').days) + 1, 0);
+}
+
+function roundTwo(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function mapRowToVersion(row: EmploymentContractRow): EmploymentContractVersion {
+  return {
+    id: row.id,
+    validFrom: row.valid_from,
+    validUntil: null,
+    weeklyHours: row.weekly_hours,
+    workdaysPerWeek: row.workdays_per_week,
+    compensationType: row.compensation_type,
+    hourlyWage: row.hourly_wage,
+    monthlySalaryGross: row.monthly_salary_gross,
+    vacationDays: row.vacation_days,
+    note: row.note,
+  };
+}
+
+function termsFromEmployee(employee: EmployeeAdminDetails): EmploymentContractTerms {
+  return {
+    weeklyHours: Number(employee.weekly_hours ?? 0),
+    workdaysPerWeek: DEFAULT_WORKDAYS_PER_WEEK,
+    compensationType: employee.compensation_type,
+    hourlyWage: employee.hourly_wage,
+    monthlySalaryGross: employee.monthly_salary_gross,
+    vacationDays: Number(employee.vacation_days_total ?? 0),
+  };
+}
+
+/**
+ * Implicit versions of an employee without stored versions: the employee terms from the entry date, with the
+ * weekly hours taken from the recorded history from each change on. Days before the first change keep the hours
+ * of that change, as the history holds no earlier value.
+ */
+export function implicitContractVersions(
+  entryDate: string,
+  terms: EmploymentContractTerms,
+  history: Array<Pick<WeeklyHoursHistoryRow, 'change_date' | 'weekly_hours'>>
+): EmploymentContractVersion[] {
+  const changes = new Map<string, number>();
+  for (const row of history) {
+    if (ISO_DATE.test(row.change_date) && Number.isFinite(row.weekly_hours)) {
+      changes.set(row.change_date, row.weekly_hours);
+    }
+  }
+  const sorted = Array.from(changes.entries()).sort(([a], [b]) => a.localeCompare(b));
+  const validFrom = ISO_DATE.test(entryDate) ? entryDate : '1970-01-01';
+  const base = { id: null, validUntil: null, note: null, ...terms };
+  if (!sorted.length) {
+    return [{ ...base, validFrom }];
+  }
+  const versions = sorted.map(([changeDate, weeklyHours]) => ({ ...base, validFrom: changeDate, weeklyHours }));
+  if (validFrom < sorted[0]![0]) {
+    versions.unshift({ ...base, validFrom, weeklyHours: sorted[0]![1] });
+  }
+  return versions;
+}
+
+/** Sorts the versions and fills in `validUntil` from the following version. */
+export function buildContractTimeline(versions: EmploymentContractVersion[]): EmploymentContractVersion[] {
+  const sorted = [...versions].sort((a, b) => a.validFrom.localeCompare(b.validFrom));
+  return sorted.map((version, index) => ({
+    ...version,
+    validUntil: index < sorted.length - 1 ? dayBefore(sorted[index + 1]!.validFrom) : null,
+  }));
+}
+
+/** Version in force on the day; days before the first version use the earliest terms. */
+export function resolveContractForDate<T extends { validFrom: string }>(versions: T[], isoDate: string): T | null {
+  let resolved: T | null = null;
+  for (const version of versions) {
+    if (version.validFrom <= isoDate) {
+      resolved = version;
+    } else if (!resolved) {
+      return version;
+    } else {
+      break;
+    }
+  }
+  return resolved;
+}
+
+/** Target hours of a regular working day: weekly hours spread over the agreed working days. */
+export function contractDailyTargetHours(
+  terms: Pick<EmploymentContractTerms, 'weeklyHours' | 'workdaysPerWeek'>
+): number {
+  if (!(terms.workdaysPerWeek > 0) || !(terms.weeklyHours > 0)) return 0;
+  return roundTwo(terms.weeklyHours / terms.workdaysPerWeek);
+}
+
+/** Calendar-day share of each version that is in force between both dates (inclusive). */
+export function splitContractPeriod(
+  timeline: EmploymentContractVersion[],
+  startIso: string,
+  endIso: string
+): Array<{ version: EmploymentContractVersion; startIso: string; endIso: string; days: number }> {
+  const parts: Array<{ version: EmploymentContractVersion; startIso: string; endIso: string; days: number }> = [];
+  timeline.forEach((version, index) => {
+    const from = index === 0 || version.validFrom < startIso ? startIso : version.validFrom;
+    const until = version.validUntil && version.validUntil < endIso ? version.validUntil : endIso;
+    if (from > until) return;
+    parts.push({ version, startIso: from, endIso: until, days: daysBetween(from, until) });
+  });
+  return parts;
+}
+
+/** Vacation terms of the timeline; versions that only change hours or pay are merged into the previous segment. */
+export function vacationEntitlementSegments(timeline: EmploymentContractVersion[]): VacationEntitlementSegment[] {
+  const segments: VacationEntitlementSegment[] = [];
+  for (const version of timeline) {
+    const previous = segments[segments.length - 1];
+    if (
+      previous &&
+      previous.annualDays === version.vacationDays &&
+      previous.workdaysPerWeek === version.workdaysPerWeek
+    ) {
+      continue;
+    }
+    segments.push({
+      validFrom: version.validFrom,
+      annualDays: version.vacationDays,
+      workdaysPerWeek: version.workdaysPerWeek,
+    });
+  }
+  return segments;
+}
+
+/**
+ * Pay of the month for the payroll export: fixed salaries pro rata by calendar days, hourly employees with the
+ * wage in force at the end of the month.
+ */
+export function monthlyCompensationForPayroll(
+  timeline: EmploymentContractVersion[],
+  year: number,
+  month: number
+): number {
+  const start = DateTime.fromObject({ year, month, day: 1 }, { zone: 'utc' });
+  const startIso = start.toISODate()!;
+  const endIso = start.endOf('month').toISODate()!;
+  const closing = resolveContractForDate(timeline, endIso);
+  if (!closing) return 0;
+  if (closing.compensationType !== 'fixed') {
+    return roundTwo(Number(closing.hourlyWage ?? 0));
+  }
+  const monthDays = daysBetween(startIso, endIso);
+  return roundTwo(
+    splitContractPeriod(timeline, startIso, endIso).reduce(
+      (sum, part) =>
+        part.version.compensationType === 'fixed'
+          ? sum + (Number(part.version.monthlySalaryGross ?? 0) * part.days) / monthDays
+          : sum,
+      0
+    )
+  );
+}
+
+/** Same conversion as the employee profile: a month has 13/3 weeks on average. */
+function derivedHourlyWage(monthlySalaryGross: number | null, weeklyHours: number): number | null {
+  if (monthlySalaryGross === null || !(weeklyHours > 0)) return null;
+  return roundTwo(monthlySalaryGross / ((weeklyHours * 13) / 3));
+}
+
+function sameTerms(a: EmploymentContractTerms, b: EmploymentContractTerms): boolean {
+  return (
+    a.weeklyHours === b.weeklyHours &&
+    a.workdaysPerWeek === b.workdaysPerWeek &&
+    a.compensationType === b.compensationType &&
+    (a.hourlyWage ?? null) === (b.hourlyWage ?? null) &&
+    (a.monthlySalaryGross ?? null) === (b.monthlySalaryGross ?? null) &&
+    a.vacationDays === b.vacationDays
+  );
+}
+
+function validateTerms(input: SaveEmploymentContractVersionInput): void {
+  if (!ISO_DATE.test(input.validFrom)) {
+    throw new Error('Bitte ein gültiges Datum für "gültig ab" angeben.');
+  }
+  if (!Number.isFinite(input.weeklyHours) || input.weeklyHours < 0 || input.weeklyHours > 80) {
+    throw new Error('Die Wochenstunden müssen zwischen 0 und 80 liegen.');
+  }
+  if (!Number.isFinite(input.workdaysPerWeek) || input.workdaysPerWeek < 0.5 || input.workdaysPerWeek > 7) {
+    throw new Error('Die Arbeitstage pro Woche müssen zwischen 0,5 und 7 liegen.');
+  }
+  if (!Number.isFinite(input.vacationDays) || input.vacationDays < 0 || input.vacationDays > 365) {
+    throw new Error('Bitte einen gültigen Urlaubsanspruch angeben.');
+  }
+  if (input.compensationType === 'fixed') {
+    const salary = input.monthlySalaryGross;
+    if (salary === null || !Number.isFinite(salary) || salary < 0) {
+      throw new Error('Bitte ein gültiges Monatsgehalt angeben.');
+    }
+  } else if (input.hourlyWage !== null && (!Number.isFinite(input.hourlyWage) || input.hourlyWage < 0)) {
+    throw new Error('Bitte einen gültigen Stundenlohn eingeben.');
+  }
+}
+
+/**
+ * Contract versions of the employee. Without stored versions the current employee values count from the entry
+ * date, with the weekly hours of the recorded history, so every caller can resolve terms per day.
+ */
+export async function getEmploymentContractTimeline(
+  tenantId: string,
+  employeeId: number
+): Promise<EmploymentContractVersion[]> {
+  const rows = await listEmploymentContracts(tenantId, employeeId);
+  if (rows.length) {
+    return buildContractTimeline(rows.map(mapRowToVersion));
+  }
+  const [employee, history] = await Promise.all([
+    getEmployeeAdminDetails(tenantId, employeeId),
+    listWeeklyHoursHistory(tenantId, [employeeId]),
+  ]);
+  if (!employee) return [];
+  return buildContractTimeline(implicitContractVersions(employee.entry_date, termsFromEmployee(employee), history));
+}
+
+export async function getVacationEntitlementSegments(
+  tenantId: string,
+  employeeId: number
+): Promise<VacationEntitlementSegment[]> {
+  return vacationEntitlementSegments(await getEmploymentContractTimeline(tenantId, employeeId));
+}
+
+/** Entitlement segments per employee; employees without stored versions are missing and keep their annual days. */
+export async function getVacationEntitlementSegmentsByEmployee(
+  tenantId: string,
+  employeeIds: number[]
+): Promise<Map<number, VacationEntitlementSegment[]>> {
+  const rows = await listEmploymentContractsForEmployees(tenantId, employeeIds);
+  const versionsByEmployee = new Map<number, EmploymentContractVersion[]>();
+  for (const row of rows) {
+    const list = versionsByEmployee.get(row.employee_id) ?? [];
+    list.push(mapRowToVersion(row));
+    versionsByEmployee.set(row.employee_id, list);
+  }
+  const result = new Map<number, VacationEntitlementSegment[]>();
+  for (const [employeeId, versions] of versionsByEmployee) {
+    result.set(employeeId, vacationEntitlementSegments(buildContractTimeline(versions)));
+  }
+  return result;
+}
+
+/**
+ * Weekly hours and working days in force on the day per employee. Employees without stored versions take the
+ * weekly hours from their recorded history, else from their employee record, and the default working days.
+ */
+export async function getWorkingTimeTermsByEmployee(
+  tenantId: string,
+  employees: Array<{ id: number; weeklyHours: number }>,
+  isoDate: string
+): Promise<Map<number, Pick<EmploymentContractTerms, 'weeklyHours' | 'workdaysPerWeek'>>> {
+  const rows = await listEmploymentContractsForEmployees(
+    tenantId,
+    employees.map((employee) => employee.id)
+  );
+  const versionsByEmployee = new Map<number, EmploymentContractVersion[]>();
+  for (const row of rows) {
+    const list = versionsByEmployee.get(row.employee_id) ?? [];
+    list.push(mapRowToVersion(row));
+    versionsByEmployee.set(row.employee_id, list);
+  }
+  const history = await listWeeklyHoursHistory(
+    tenantId,
+    employees.map((employee) => employee.id).filter((id) => !versionsByEmployee.has(id))
+  );
+  const result = new Map<number, Pick<EmploymentContractTerms, 'weeklyHours' | 'workdaysPerWeek'>>();
+  for (const employee of employees) {
+    const version = resolveContractForDate(versionsByEmployee.get(employee.id) ?? [], isoDate);
+    const change = resolveContractForDate(
+      history
+        .filter((row) => row.employee_id === employee.id)
+        .map((row) => ({ validFrom: row.change_date, weeklyHours: row.weekly_hours })),
+      isoDate
+    );
+    result.set(
+      employee.id,
+      version
+        ? { weeklyHours: version.weeklyHours, workdaysPerWeek: version.workdaysPerWeek }
+        : { weeklyHours: change?.weeklyHours ?? employee.weeklyHours, workdaysPerWeek: DEFAULT_WORKDAYS_PER_WEEK }
+    );
+  }
+  return result;
+}
+
+/** Stores the implicit versions before the first explicit one, so earlier days keep their terms. */
+async function ensureBaselineContract(tenantId: string, employeeId: number): Promise<void> {
+  const rows = await listEmploymentContracts(tenantId, employeeId);
+  if (rows.length) return;
+  const implicit = await getEmploymentContractTimeline(tenantId, employeeId);
+  if (!implicit.length) {
+    throw new Error('Mitarbeiter wurde nicht gefunden.');
+  }
+  for (const version of implicit) {
+    await saveEmploymentContract(employeeId, { ...version, note: 'Ausgangsstand' });
+  }
+}
+
+async function syncCurrentContract(tenantId: string, employeeId: number): Promise<void> {
+  const rows = await listEmploymentContracts(tenantId, employeeId);
+  const current = resolveContractForDate(rows.map((row) => ({ ...row, validFrom: row.valid_from })), toLocalIsoDate());
+  if (current) {
+    await applyCurrentEmploymentContract(tenantId, employeeId, current);
+  }
+}
+
+/** Adds or replaces the version starting on `validFrom`; callers recompute overtime afterwards. */
+export async function saveEmploymentContractVersion(
+  tenantId: string,
+  employeeId: number,
+  input: SaveEmploymentContractVersionInput
+): Promise<void> {
+  validateTerms(input);
+  await ensureBaselineContract(tenantId, employeeId);
+  await saveEmploymentContract(employeeId, {
+    validFrom: input.validFrom,
+    weeklyHours: input.weeklyHours,
+    workdaysPerWeek: input.workdaysPerWeek,
+    compensationType: input.compensationType,
+    hourlyWage:
+      input.compensationType === 'fixed'
+        ? derivedHourlyWage(input.monthlySalaryGross, input.weeklyHours)
+        : input.hourlyWage ?? 0,
+    monthlySalaryGross: input.compensationType === 'fixed' ? input.monthlySalaryGross : null,
+    vacationDays: input.vacationDays,
+    note: input.note?.trim() || null,
+  });
+  await syncCurrentContract(tenantId, employeeId);
+}
+
+/** Returns the start of the removed version, the first day whose terms change. */
+export async function removeEmploymentContractVersion(tenantId: string, employeeId: number, id: number): Promise<string> {
+  const rows = await listEmploymentContracts(tenantId, employeeId);
+  if (rows.length <= 1) {
+    throw new Error('Der einzige Vertragsstand kann nicht gelöscht werden.');
+  }
+  const removed = rows.find((row) => row.id === id);
+  if (!removed) {
+    throw new Error('Vertragsstand wurde nicht gefunden.');
+  }
+  await deleteEmploymentContract(tenantId, employeeId, id);
+  await syncCurrentContract(tenantId, employeeId);
+  return removed.valid_from;
+}
+
+/**
+ * Records terms changed in the employee profile as a new version from today, so days before keep the terms that
+ * were in force then. Returns whether a version was written.
+ */
+export async function recordEmploymentContractChange(
+  tenantId: string,
+  employeeId: number,
+  terms: Omit<EmploymentContractTerms, 'workdaysPerWeek'>
+): Promise<boolean> {
+  const timeline = await getEmploymentContractTimeline(tenantId, employeeId);
+  const today = toLocalIsoDate();
+  const current = resolveContractForDate(timeline, today);
+  if (!current) {
+    throw new Error('Mitarbeiter wurde nicht gefunden.');
+  }
+  // The profile form has no working days per week; they stay as in the version in force.
+  if (sameTerms(current, { ...terms, workdaysPerWeek: current.workdaysPerWeek })) {
+    return false;
+  }
+  await saveEmploymentContractVersion(tenantId, employeeId, {
+    ...terms,
+    workdaysPerWeek: current.workdaysPerWeek,
+    validFrom: today,
+    note: 'Geändert im Personalstamm',
+  });
+  return true;
+}
@@ -0,0 +1,314 @@
+import { DateTime } from 'luxon';
+
+import { getBranchById, listBranchesForEmployee } from '@/lib/data/branches';
+import { getDailyDay } from '@/lib/data/daily-days';
+import { findActiveEmployeeByBookingPin, getEmployeeDisplayNamesByIds } from '@/lib/data/employees';
+import {
+  createTimeClockEvent,
+  deleteTimeClockEvent,
+  listTimeClockEventsForBranchDay,
+  listTimeClockEventsForDay,
+  type TimeClockEventRow,
+  type TimeClockEventType,
+} from '@/lib/data/time-clock-events';
+import { isMonthClosedForEmployee } from '@/lib/services/employee/monthly-closing';
+import type { WorkSegment } from '@/lib/services/time-calculations';
+import { saveTimeEntry } from '@/lib/services/time-entry';
+
+export type KioskClockStatus = 'off' | 'working' | 'break';
+
+export interface KioskClockState {
+  status: KioskClockStatus;
+  since: string | null;
+  completedBlocks: number;
+}
+
+export interface KioskEntryTimes {
+  segments: WorkSegment[];
+  pause: string;
+}
+
+export interface KioskPresenceEntry {
+  employeeId: number;
+  name: string;
+  status: KioskClockStatus;
+  since: string | null;
+}
+
+export interface KioskStampResult {
+  employeeName: string;
+  action: TimeClockEventType;
+  time: string;
+  status: KioskClockStatus;
+}
+
+// Every Kommen/Gehen pair becomes a DailyDay segment; breaks within a segment go into "pause".
+const MAX_FAILED_PIN_ATTEMPTS = 5;
+const PIN_LOCK_MS = 60 * 1000;
+
+export const KIOSK_ACTION_LABELS: Record<TimeClockEventType, string> = {
+  arrive: 'Kommen',
+  break_start: 'Pause beginnen',
+  break_end: 'Pause beenden',
+  leave: 'Gehen',
+};
+
+const failedPinAttempts = new Map<string, { count: number; lockedUntil: number }>();
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map((part) => Number.parseInt(part, 10));
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+/** Breaks may run past midnight during a night shift, so a smaller end time wraps to the next day. */
+function minutesBetween(start: string, end: string): number {
+  const diff = toMinutes(end) - toMinutes(start);
+  return diff < 0 ? diff + 24 * 60 : diff;
+}
+
+export function deriveClockState(events: TimeClockEventRow[]): KioskClockState {
+  let status: KioskClockStatus = 'off';
+  let since: string | null = null;
+  let completedBlocks = 0;
+
+  for (const event of events) {
+    if (event.eventType === 'arrive' && status === 'off') {
+      status = 'working';
+      since = event.time;
+    } else if (event.eventType === 'break_start' && status === 'working') {
+      status = 'break';
+      since = event.time;
+    } else if (event.eventType === 'break_end' && status === 'break') {
+      status = 'working';
+      since = event.time;
+    } else if (event.eventType === 'leave' && status === 'working') {
+      status = 'off';
+      since = event.time;
+      completedBlocks += 1;
+    }
+  }
+
+  return { status, since, completedBlocks };
+}
+
+export function allowedKioskActions(status: KioskClockStatus): TimeClockEventType[] {
+  switch (status) {
+    case 'off':
+      return ['arrive'];
+    case 'working':
+      return ['break_start', 'leave'];
+    case 'break':
+      return ['break_end'];
+    default:
+      return [];
+  }
+}
+
+export function buildEntryTimesFromEvents(events: TimeClockEventRow[]): KioskEntryTimes {
+  const segments: WorkSegment[] = [];
+  let breakMinutes = 0;
+  let breakStart: string | null = null;
+
+  for (const event of events) {
+    const current = segments[segments.length - 1];
+    switch (event.eventType) {
+      case 'arrive':
+        if (!current || current.geht) {
+          segments.push({ kommt: event.time, geht: null });
+        }
+        break;
+      case 'break_start':
+        if (current && !current.geht && !breakStart) {
+          breakStart = event.time;
+        }
+        break;
+      case 'break_end':
+        if (breakStart) {
+          breakMinutes += minutesBetween(breakStart, event.time);
+          breakStart = null;
+        }
+        break;
+      case 'leave':
+        if (current && !current.geht && !breakStart) {
+          current.geht = event.time;
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  return {
+    segments,
+    pause: breakMinutes > 0 ? `${breakMinutes}min.` : 'Keine',
+  };
+}
+
+function assertPinNotLocked(branchKey: string, nowMs: number) {
+  const entry = failedPinAttempts.get(branchKey);
+  if (entry && entry.lockedUntil > nowMs) {
+    throw new Error('Zu viele falsche PIN-Eingaben. Bitte kurz warten.');
+  }
+}
+
+function registerFailedPin(branchKey: string, nowMs: number) {
+  const entry = failedPinAttempts.get(branchKey) ?? { count: 0, lockedUntil: 0 };
+  entry.count += 1;
+  if (entry.count >= MAX_FAILED_PIN_ATTEMPTS) {
+    entry.count = 0;
+    entry.lockedUntil = nowMs + PIN_LOCK_MS;
+  }
+  failedPinAttempts.set(branchKey, entry);
+}
+
+async function resolveBranchNow(tenantId: string, branchId: number, now?: DateTime) {
+  const branch = await getBranchById(tenantId, branchId);
+  if (!branch) {
+    throw new Error('Standort wurde nicht gefunden.');
+  }
+  const zone = branch.timezone?.trim() || 'Europe/Berlin';
+  const localNow = (now ?? DateTime.now()).setZone(zone);
+  return { branch, localNow, dayDate: localNow.toISODate() ?? '', time: localNow.toFormat('HH:mm') };
+}
+
+export async function listKioskPresence(
+  tenantId: string,
+  branchId: number,
+  now?: DateTime
+): Promise<KioskPresenceEntry[]> {
+  const { localNow, dayDate } = await resolveBranchNow(tenantId, branchId, now);
+  const previousDayDate = localNow.minus({ days: 1 }).toISODate() ?? '';
+  const [previousEvents, events] = await Promise.all([
+    listTimeClockEventsForBranchDay(tenantId, branchId, previousDayDate),
+    listTimeClockEventsForBranchDay(tenantId, branchId, dayDate),
+  ]);
+  // Night shifts started yesterday stay present until their "Gehen" is stamped; a booking from
+  // today replaces yesterday's state for that employee.
+  const byEmployee = new Map<number, TimeClockEventRow[]>();
+  for (const event of previousEvents) {
+    const list = byEmployee.get(event.employeeId) ?? [];
+    list.push(event);
+    byEmployee.set(event.employeeId, list);
+  }
+  const todayEmployees = new Set<number>();
+  for (const event of events) {
+    if (!todayEmployees.has(event.employeeId)) {
+      todayEmployees.add(event.employeeId);
+      const yesterday = byEmployee.get(event.employeeId) ?? [];
+      const carried = deriveClockState(yesterday).status;
+      byEmployee.set(event.employeeId, carried === 'working' || carried === 'break' ? yesterday : []);
+    }
+    byEmployee.get(event.employeeId)!.push(event);
+  }
+
+  const names = await getEmployeeDisplayNamesByIds(tenantId, Array.from(byEmployee.keys()));
+  const presence: KioskPresenceEntry[] = [];
+  for (const [employeeId, employeeEvents] of byEmployee) {
+    const state = deriveClockState(employeeEvents);
+    if (state.status !== 'working' && state.status !== 'break') continue;
+    presence.push({
+      employeeId,
+      name: names.get(employeeId) || `#${employeeId}`,
+      status: state.status,
+      since: state.since,
+    });
+  }
+  return presence.sort((a, b) => a.name.localeCompare(b.name, 'de'));
+}
+
+export async function recordKioskStamp(input: {
+  tenantId: string;
+  branchId: number;
+  pin: string;
+  action: TimeClockEventType;
+  now?: DateTime;
+}): Promise<KioskStampResult> {
+  const branchKey = `${input.tenantId}:${input.branchId}`;
+  const nowMs = Date.now();
+  assertPinNotLocked(branchKey, nowMs);
+
+  const { localNow, dayDate, time } = await resolveBranchNow(input.tenantId, input.branchId, input.now);
+
+  const employee = await findActiveEmployeeByBookingPin(input.tenantId, input.pin);
+  if (!employee || employee.onboarding_status === 'pin_setup_required') {
+    registerFailedPin(branchKey, nowMs);
+    throw new Error('PIN unbekannt.');
+  }
+  failedPinAttempts.delete(branchKey);
+
+  const employeeBranches = await listBranchesForEmployee(input.tenantId, employee.id);
+  if (employeeBranches.length && !employeeBranches.some((branch) => branch.id === input.branchId)) {
+    throw new Error('Du bist diesem Standort nicht zugeordnet.');
+  }
+
+  // A shift still open from yesterday is a night shift: keep booking onto yesterday's entry.
+  let entryDate = dayDate;
+  let events = await listTimeClockEventsForDay(input.tenantId, employee.id, dayDate);
+  if (!events.length) {
+    const previousDayDate = localNow.minus({ days: 1 }).toISODate() ?? '';
+    const previousEvents = await listTimeClockEventsForDay(input.tenantId, employee.id, previousDayDate);
+    const previousStatus = deriveClockState(previousEvents).status;
+    if (previousStatus === 'working' || previousStatus === 'break') {
+      entryDate = previousDayDate;
+      events = previousEvents;
+    }
+  }
+  const existing = await getDailyDay(employee.id, entryDate);
+  if (!events.length && existing?.segments.length) {
+    throw new Error('Für heute gibt es bereits einen manuellen Eintrag. Bitte dort weiterpflegen.');
+  }
+
+  const entryMonth = DateTime.fromISO(entryDate);
+  if (await isMonthClosedForEmployee(employee.id, entryMonth.year, entryMonth.month)) {
+    throw new Error('Der aktuelle Monat ist bereits abgeschlossen. Bitte wende dich an die Verwaltung.');
+  }
+
+  const state = deriveClockState(events);
+  if (!allowedKioskActions(state.status).includes(input.action)) {
+    throw new Error(`„${KIOSK_ACTION_LABELS[input.action]}“ ist gerade nicht möglich.`);
+  }
+  const lastEvent = events[events.length - 1];
+  if (lastEvent && localNow.toMillis() - DateTime.fromISO(lastEvent.stampedAt).toMillis() < 60 * 1000) {
+    throw new Error('Zwischen zwei Buchungen muss mindestens eine Minute liegen.');
+  }
+
+  const created = await createTimeClockEvent({
+    tenantId: input.tenantId,
+    employeeId: employee.id,
+    branchId: input.branchId,
+    dayDate: entryDate,
+    eventType: input.action,
+    time,
+    stampedAt: localNow.toJSDate(),
+  });
+  const allEvents = [...events, created];
+  const times = buildEntryTimesFromEvents(allEvents);
+
+  try {
+    await saveTimeEntry({
+      tenantId: input.tenantId,
+      employeeId: employee.id,
+      dayDate: entryDate,
+      brutto: existing?.brutto ?? null,
+      segments: times.segments,
+      pause: times.pause,
+      code: existing?.code || 'RA',
+      bemerkungen: existing?.bemerkungen ?? null,
+      mittag: existing?.mittag ?? 'Nein',
+      schicht: existing?.schicht ?? '',
+      branchId: input.branchId,
+      source: 'kiosk',
+      performedBy: { type: 'employee', id: employee.id, name: null },
+    });
+  } catch (error) {
+    await deleteTimeClockEvent(input.tenantId, created.id);
+    throw error;
+  }
+
+  return {
+    employeeName: `${employee.first_name} ${employee.last_name}`.trim(),
+    action: input.action,
+    time,
+    status: deriveClockState(allEvents).status,
+  };
+}
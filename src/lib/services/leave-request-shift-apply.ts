@@ -63,6 +63,6 @@ export async function applyApprovedRequestToShiftPlanWorkflow(
   }
 
   await markLeaveRequestShiftPlanApplied(tenantId, latestRow.id, true);
-  await recomputeLeaveRequestEmployeeOvertime(tenantId, latestRow.employee_id);
+  await recomputeLeaveRequestEmployeeOvertime(tenantId, latestRow.employee_id, dates);
   revalidatePath('/mitarbeiter/schichtplan');
 }
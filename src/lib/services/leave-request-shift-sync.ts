@@ -22,7 +22,7 @@ export async function saveLeaveRequestShiftPlanSegments(
     segments: LeaveRequestShiftPlanSegmentInput[];
   },
 ): Promise<void> {
-  await saveShiftPlanDaySegments(tenantId, employeeId, input);
+  await saveShiftPlanDaySegments(tenantId, employeeId, input, { source: 'leave_request' });
 }
 
 export async function saveLeaveRequestShiftPlanDay(
@@ -39,12 +39,15 @@ export async function saveLeaveRequestShiftPlanDay(
     mode?: 'available' | 'unavailable' | null;
   },
 ): Promise<void> {
-  await saveShiftPlanDay(tenantId, employeeId, input);
+  await saveShiftPlanDay(tenantId, employeeId, input, { source: 'leave_request' });
 }
 
+/** `dates` are the days of the request; the recomputation resumes at the earliest of them. */
 export async function recomputeLeaveRequestEmployeeOvertime(
   tenantId: string,
   employeeId: number,
+  dates: string[] = [],
 ): Promise<void> {
-  await recomputeEmployeeOvertime(tenantId, employeeId);
+  const earliest = dates.reduce<string | null>((min, isoDate) => (!min || isoDate < min ? isoDate : min), null);
+  await recomputeEmployeeOvertime(tenantId, employeeId, earliest);
 }
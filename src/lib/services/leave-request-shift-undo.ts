@@ -105,6 +105,6 @@ export async function removeApprovedRequestFromShiftPlanWorkflow(
 
   await deleteLeaveRequestShiftPlanBackups(tenantId, row.id);
   await markLeaveRequestShiftPlanApplied(tenantId, row.id, false);
-  await recomputeLeaveRequestEmployeeOvertime(tenantId, row.employee_id);
+  await recomputeLeaveRequestEmployeeOvertime(tenantId, row.employee_id, dates);
   revalidatePath('/mitarbeiter/schichtplan');
 }
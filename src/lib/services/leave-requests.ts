@@ -32,6 +32,8 @@ import { listShiftPlanDays } from '@/lib/data/shift-plan-days';
 import { listDailyDayRecords } from '@/lib/data/daily-days';
 import { isHolidayIsoDate, normalizeHolidayRegion } from '@/lib/services/holidays';
 import { computeVacationBalance } from '@/lib/services/vacation-balance';
+import { getVacationEntitlementSegments } from '@/lib/services/employment-contracts';
+import { getAbsenceCodeCatalog, getVacationDayCodes } from '@/lib/services/absence-codes';
 import { sendTextMail } from '@/lib/services/email';
 import {
   applyApprovedRequestToShiftPlan,
@@ -401,7 +403,7 @@ type LeaveDecisionMailType =
 
 const TENANT_MAIL_CONTEXT_CACHE = new Map<string, string>();
 
-async function getTenantMailDisplayName(tenantId: string): Promise<string> {
+export async function getTenantMailDisplayName(tenantId: string): Promise<string> {
   const cached = TENANT_MAIL_CONTEXT_CACHE.get(tenantId);
   if (cached) return cached;
 
@@ -591,6 +593,7 @@ async function validateVacationRequestAndResolveUnpaid(params: {
       '',
   );
   const allDailyRecords = await listDailyDayRecords(params.employeeId);
+  const vacationCodes = getVacationDayCodes(await getAbsenceCodeCatalog(params.tenantId));
   const requestedByYear = new Map<number, number>();
   for (const isoDate of chargeableDates) {
     const year = Number.parseInt(isoDate.slice(0, 4), 10);
@@ -599,6 +602,7 @@ async function validateVacationRequestAndResolveUnpaid(params: {
 
   let availableTotal = 0;
   let unpaidDays = 0;
+  const entitlementSegments = await getVacationEntitlementSegments(params.tenantId, params.employeeId);
   for (const [year, requestedDays] of requestedByYear.entries()) {
     const asOfIso =
       year === currentYear
@@ -610,6 +614,7 @@ async function validateVacationRequestAndResolveUnpaid(params: {
         : 0;
     const balance = computeVacationBalance({
       annualDays: Number(employeeSummary?.vacationDaysTotal ?? employee.vacation_days_total ?? 0),
+      entitlementSegments,
       importedCarryDays: Number(employeeSummary?.openingVacationCarryDays ?? 0),
       openingTakenDays: openingTakenDaysForYear,
       entryDate: employeeSummary?.entryDate ?? employee.entry_date ?? null,
@@ -619,6 +624,7 @@ async function validateVacationRequestAndResolveUnpaid(params: {
       carryExpiryDate: employeeSummary?.vacationCarryExpiryDate ?? null,
       year,
       records: allDailyRecords,
+      vacationCodes,
     });
     const pendingPaidDays = Number(paidRequestedByYear.get(year) ?? 0);
     const approvedPaidDays = Number(approvedPaidByYear.get(year) ?? 0);
@@ -0,0 +1,406 @@
+import { revalidatePath } from 'next/cache';
+import { DateTime } from 'luxon';
+
+import { listBranches, listBranchesForEmployee } from '@/lib/data/branches';
+import { getEmployeeById, getEmployeeDisplayNamesByIds } from '@/lib/data/employees';
+import {
+  createOpenShift,
+  getOpenShiftById,
+  listOpenShiftCandidates,
+  listOpenShifts,
+  transitionOpenShift,
+  type CreateOpenShiftInput,
+  type OpenShiftClaimMode,
+  type OpenShiftRow,
+  type OpenShiftStatus,
+} from '@/lib/data/open-shifts';
+import { listShiftPlanDays } from '@/lib/data/shift-plan-days';
+import { sendTextMail } from '@/lib/services/email';
+import { getTenantMailDisplayName } from '@/lib/services/leave-requests';
+import { deriveCodeFromPlanLabel } from '@/lib/services/shift-plan';
+import {
+  hasPlannedAbsence,
+  overlapsPlannedShift,
+  pushShiftPlanDayToControlPlane,
+  rewriteShiftPlanDay,
+  type PlannedShift,
+} from '@/lib/services/shift-plan-assignment';
+import { recomputeEmployeeOvertime } from '@/lib/services/time-entry';
+
+const STATUS_LABEL: Record<OpenShiftStatus, string> = {
+  open: 'Offen',
+  claimed: 'Wartet auf Bestätigung',
+  filled: 'Besetzt',
+  cancelled: 'Zurückgezogen',
+};
+
+const CLAIM_MODE_LABEL: Record<OpenShiftClaimMode, string> = {
+  first_come: 'Wer zuerst kommt',
+  confirm: 'Mit Bestätigung',
+};
+
+const MAX_LABEL_LENGTH = 100;
+
+export type OpenShiftView = {
+  id: number;
+  branchId: number;
+  branchName: string | null;
+  isoDate: string;
+  start: string;
+  end: string;
+  requiredPauseMinutes: number;
+  label: string | null;
+  claimMode: OpenShiftClaimMode;
+  claimModeLabel: string;
+  status: OpenShiftStatus;
+  statusLabel: string;
+  claimedById: number | null;
+  claimedByName: string | null;
+};
+
+function parseTime(value: unknown): string | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(String(value ?? '').trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+function todayIso(): string {
+  return DateTime.now().setZone('Europe/Berlin').toISODate() ?? '';
+}
+
+function formatDate(isoDate: string): string {
+  return DateTime.fromISO(isoDate).setLocale('de').toFormat('ccc dd.MM.yyyy');
+}
+
+/**
+ * Validates an open shift entered on the shift plan board. Overnight shifts are allowed; absence labels such as
+ * "Urlaub" are not, since the shift becomes a worked segment of the employee claiming it.
+ */
+export function sanitizeOpenShiftInput(raw: {
+  branchId?: unknown;
+  dayDate?: unknown;
+  start?: unknown;
+  end?: unknown;
+  pause?: unknown;
+  label?: unknown;
+  claimMode?: unknown;
+}): Omit<CreateOpenShiftInput, 'createdBy'> {
+  const branchId = Number(raw.branchId);
+  if (!Number.isInteger(branchId) || branchId <= 0) {
+    throw new Error('Bitte einen Standort wählen.');
+  }
+  const dayDate = String(raw.dayDate ?? '').trim();
+  if (!dayDate || !DateTime.fromISO(dayDate).isValid) {
+    throw new Error('Bitte ein gültiges Datum angeben.');
+  }
+  const startTime = parseTime(raw.start);
+  const endTime = parseTime(raw.end);
+  if (!startTime || !endTime) {
+    throw new Error('Bitte Start- und Endzeit angeben.');
+  }
+  if (startTime === endTime) {
+    throw new Error('Start- und Endzeit dürfen nicht identisch sein.');
+  }
+  const pause = Number(raw.pause ?? 0);
+  if (!Number.isInteger(pause) || pause < 0 || pause > 240) {
+    throw new Error('Die Pause muss zwischen 0 und 240 Minuten liegen.');
+  }
+  const label = String(raw.label ?? '').trim() || null;
+  if (label && label.length > MAX_LABEL_LENGTH) {
+    throw new Error(`Die Bezeichnung darf maximal ${MAX_LABEL_LENGTH} Zeichen enthalten.`);
+  }
+  if (deriveCodeFromPlanLabel(label)) {
+    throw new Error('Abwesenheiten können nicht als offene Schicht ausgeschrieben werden.');
+  }
+  return {
+    branchId,
+    dayDate,
+    startTime,
+    endTime,
+    requiredPauseMinutes: pause,
+    label,
+    claimMode: raw.claimMode === 'confirm' ? 'confirm' : 'first_come',
+  };
+}
+
+function toPlannedShift(row: OpenShiftRow): PlannedShift {
+  return {
+    day_date: row.day_date,
+    start_time: row.start_time,
+    end_time: row.end_time,
+    required_pause_minutes: row.required_pause_minutes,
+    branch_id: row.branch_id,
+    label: row.label,
+  };
+}
+
+async function mapRowsToViews(tenantId: string, rows: OpenShiftRow[]): Promise<OpenShiftView[]> {
+  const claimantIds = Array.from(
+    new Set(rows.map((row) => row.claimed_by).filter((id): id is number => id !== null))
+  );
+  const [names, branches] = await Promise.all([
+    getEmployeeDisplayNamesByIds(tenantId, claimantIds),
+    listBranches(tenantId),
+  ]);
+  const branchNames = new Map(branches.map((branch) => [branch.id, branch.name]));
+  return rows.map((row) => ({
+    id: row.id,
+    branchId: row.branch_id,
+    branchName: branchNames.get(row.branch_id) ?? null,
+    isoDate: row.day_date,
+    start: row.start_time,
+    end: row.end_time,
+    requiredPauseMinutes: row.required_pause_minutes,
+    label: row.label,
+    claimMode: row.claim_mode,
+    claimModeLabel: CLAIM_MODE_LABEL[row.claim_mode],
+    status: row.status,
+    statusLabel: STATUS_LABEL[row.status],
+    claimedById: row.claimed_by,
+    claimedByName: row.claimed_by !== null ? names.get(row.claimed_by) ?? null : null,
+  }));
+}
+
+function revalidateOpenShiftPaths() {
+  revalidatePath('/admin/schichtplan');
+  revalidatePath('/mitarbeiter/schichtplan');
+}
+
+function describeShiftForMail(view: OpenShiftView): string {
+  const branch = view.branchName ? ` (${view.branchName})` : '';
+  const label = view.label ? `, ${view.label}` : '';
+  return `${formatDate(view.isoDate)} ${view.start}–${view.end}${branch}${label}`;
+}
+
+async function sendMailSafely(recipient: string, subject: string, body: string, fromName?: string) {
+  try {
+    await sendTextMail(recipient, subject, body, fromName ? { fromName } : undefined);
+  } catch (error) {
+    console.error('[open-shifts] failed to send mail', { recipient, subject, error });
+  }
+}
+
+async function notifyAdminAboutClaim(view: OpenShiftView): Promise<void> {
+  const adminEmail = process.env.ADMIN_EMAIL?.trim();
+  if (!adminEmail) return;
+  await sendMailSafely(
+    adminEmail,
+    'Offene Schicht wartet auf Bestätigung',
+    [
+      `${view.claimedByName ?? 'Ein Mitarbeiter'} möchte die offene Schicht übernehmen:`,
+      describeShiftForMail(view),
+      '',
+      'Die Bestätigung erfolgt im Schichtplan.',
+    ].join('\n')
+  );
+}
+
+async function notifyClaimant(
+  tenantId: string,
+  view: OpenShiftView,
+  employeeId: number,
+  approved: boolean
+): Promise<void> {
+  const employee = await getEmployeeById(tenantId, employeeId);
+  const recipient = employee?.email?.trim();
+  if (!employee || !recipient) return;
+  const companyName = await getTenantMailDisplayName(tenantId);
+  await sendMailSafely(
+    recipient,
+    approved ? `${companyName}: Schicht übernommen` : `${companyName}: Schicht nicht übernommen`,
+    [
+      `Hallo ${`${employee.first_name} ${employee.last_name}`.trim() || 'Mitarbeiter'},`,
+      '',
+      approved
+        ? 'die offene Schicht wurde dir zugeteilt und steht in deinem Schichtplan:'
+        : 'die offene Schicht wurde dir leider nicht zugeteilt:',
+      describeShiftForMail(view),
+      '',
+      'Viele Grüße',
+      companyName,
+    ].join('\n'),
+    companyName
+  );
+}
+
+/** Tells the other employees of the branch that the shift is no longer available. */
+async function notifyRemainingCandidates(tenantId: string, view: OpenShiftView, claimantId: number): Promise<void> {
+  const candidates = await listOpenShiftCandidates(tenantId, view.branchId);
+  if (!candidates.length) return;
+  const companyName = await getTenantMailDisplayName(tenantId);
+  for (const candidate of candidates) {
+    const recipient = candidate.email?.trim();
+    if (candidate.id === claimantId || !recipient) continue;
+    await sendMailSafely(
+      recipient,
+      `${companyName}: Offene Schicht besetzt`,
+      [
+        `Hallo ${`${candidate.first_name} ${candidate.last_name}`.trim() || 'Mitarbeiter'},`,
+        '',
+        'die folgende offene Schicht ist inzwischen besetzt:',
+        describeShiftForMail(view),
+        '',
+        'Viele Grüße',
+        companyName,
+      ].join('\n'),
+      companyName
+    );
+  }
+}
+
+/** Checks that the shift fits into the employee's plan: no absence that day and no overlapping shift. */
+async function assertShiftFitsPlan(employeeId: number, row: OpenShiftRow, name: string | null = null): Promise<void> {
+  const plan = await listShiftPlanDays(employeeId, row.day_date, row.day_date);
+  if (hasPlannedAbsence(plan)) {
+    throw new Error(`${name ? `${name} hat` : 'Du hast'} am ${formatDate(row.day_date)} eine Abwesenheit eingetragen.`);
+  }
+  if (overlapsPlannedShift(plan, toPlannedShift(row), null)) {
+    throw new Error(`${name ? `${name} ist` : 'Du bist'} zu dieser Zeit bereits eingeplant.`);
+  }
+}
+
+/** Adds the shift as a normal plan segment, pushes the day and recomputes the overtime account. */
+async function assignOpenShift(tenantId: string, row: OpenShiftRow, employeeId: number): Promise<void> {
+  await rewriteShiftPlanDay(tenantId, employeeId, row.day_date, { add: toPlannedShift(row) });
+  await pushShiftPlanDayToControlPlane(tenantId, employeeId, row.day_date);
+  await recomputeEmployeeOvertime(tenantId, employeeId, row.day_date);
+}
+
+async function loadView(tenantId: string, id: number): Promise<OpenShiftView> {
+  const row = await getOpenShiftById(tenantId, id);
+  if (!row) {
+    throw new Error('Die offene Schicht wurde nicht gefunden.');
+  }
+  const [view] = await mapRowsToViews(tenantId, [row]);
+  return view!;
+}
+
+export async function publishOpenShift(
+  tenantId: string,
+  raw: Parameters<typeof sanitizeOpenShiftInput>[0],
+  adminId: number | null
+): Promise<void> {
+  const input = sanitizeOpenShiftInput(raw);
+  if (input.dayDate < todayIso()) {
+    throw new Error('Offene Schichten können nur für heute oder später ausgeschrieben werden.');
+  }
+  await createOpenShift(tenantId, { ...input, createdBy: adminId });
+  revalidateOpenShiftPaths();
+}
+
+export async function cancelOpenShift(tenantId: string, id: number): Promise<void> {
+  const cancelled = await transitionOpenShift(tenantId, { id, from: ['open', 'claimed'], to: 'cancelled' });
+  if (!cancelled) {
+    throw new Error('Die Schicht ist bereits besetzt oder wurde zurückgezogen.');
+  }
+  revalidateOpenShiftPaths();
+}
+
+/** Open, claimed and filled shifts of all branches for the admin board. */
+export async function getOpenShiftsForRange(tenantId: string, from: string, to: string): Promise<OpenShiftView[]> {
+  const rows = await listOpenShifts(tenantId, { from, to });
+  return mapRowsToViews(tenantId, rows);
+}
+
+/** Open shifts of the employee's branches from today on, plus the shifts the employee claimed. */
+export async function getOpenShiftsForEmployee(
+  tenantId: string,
+  employeeId: number,
+  to: string
+): Promise<OpenShiftView[]> {
+  const branches = await listBranchesForEmployee(tenantId, employeeId);
+  if (!branches.length) return [];
+  const rows = await listOpenShifts(
+    tenantId,
+    { from: todayIso(), to },
+    { branchIds: branches.map((branch) => branch.id), statuses: ['open', 'claimed'] }
+  );
+  return mapRowsToViews(
+    tenantId,
+    rows.filter((row) => row.status === 'open' || row.claimed_by === employeeId)
+  );
+}
+
+/**
+ * An employee of the branch claims an open shift. First-come shifts go straight into the plan; the others
+ * wait for an admin.
+ */
+export async function claimOpenShift(tenantId: string, employeeId: number, id: number): Promise<string> {
+  const row = await getOpenShiftById(tenantId, id);
+  if (!row || row.status !== 'open') {
+    throw new Error('Die Schicht ist nicht mehr offen.');
+  }
+  if (row.day_date < todayIso()) {
+    throw new Error('Die Schicht liegt in der Vergangenheit.');
+  }
+  const branches = await listBranchesForEmployee(tenantId, employeeId);
+  if (!branches.some((branch) => branch.id === row.branch_id)) {
+    throw new Error('Du bist dem Standort dieser Schicht nicht zugeordnet.');
+  }
+  await assertShiftFitsPlan(employeeId, row);
+
+  if (row.claim_mode === 'confirm') {
+    const claimed = await transitionOpenShift(tenantId, {
+      id,
+      from: ['open'],
+      to: 'claimed',
+      claimedById: employeeId,
+    });
+    if (!claimed) {
+      throw new Error('Die Schicht ist nicht mehr offen.');
+    }
+    await notifyAdminAboutClaim(await loadView(tenantId, id));
+    revalidateOpenShiftPaths();
+    return 'Die Schicht ist für dich vorgemerkt. Die Verwaltung muss die Übernahme noch bestätigen.';
+  }
+
+  const filled = await transitionOpenShift(tenantId, { id, from: ['open'], to: 'filled', claimedById: employeeId });
+  if (!filled) {
+    throw new Error('Die Schicht wurde gerade von jemand anderem übernommen.');
+  }
+  try {
+    await assignOpenShift(tenantId, row, employeeId);
+  } catch (error) {
+    await transitionOpenShift(tenantId, { id, from: ['filled'], to: 'open', claimedById: null });
+    throw error;
+  }
+  await notifyRemainingCandidates(tenantId, await loadView(tenantId, id), employeeId);
+  revalidateOpenShiftPaths();
+  return 'Die Schicht wurde in deinen Schichtplan übernommen.';
+}
+
+/** Admin decision on a claim of a shift that needs confirmation. Rejected shifts are open again. */
+export async function decideOpenShiftClaim(tenantId: string, id: number, approve: boolean): Promise<string> {
+  const row = await getOpenShiftById(tenantId, id);
+  if (!row || row.status !== 'claimed' || row.claimed_by === null) {
+    throw new Error('Für diese Schicht liegt keine Übernahme zur Bestätigung vor.');
+  }
+  const claimantId = row.claimed_by;
+  const view = await loadView(tenantId, id);
+
+  if (!approve) {
+    await transitionOpenShift(tenantId, { id, from: ['claimed'], to: 'open', claimedById: null });
+    await notifyClaimant(tenantId, view, claimantId, false);
+    revalidateOpenShiftPaths();
+    return 'Die Übernahme wurde abgelehnt; die Schicht ist wieder offen.';
+  }
+
+  await assertShiftFitsPlan(claimantId, row, view.claimedByName ?? `Mitarbeiter #${claimantId}`);
+  const filled = await transitionOpenShift(tenantId, { id, from: ['claimed'], to: 'filled' });
+  if (!filled) {
+    throw new Error('Für diese Schicht liegt keine Übernahme zur Bestätigung vor.');
+  }
+  try {
+    await assignOpenShift(tenantId, row, claimantId);
+  } catch (error) {
+    await transitionOpenShift(tenantId, { id, from: ['filled'], to: 'claimed' });
+    throw error;
+  }
+  await notifyClaimant(tenantId, view, claimantId, true);
+  await notifyRemainingCandidates(tenantId, view, claimantId);
+  revalidateOpenShiftPaths();
+  return 'Die Schicht wurde zugeteilt und im Schichtplan eingetragen.';
+}
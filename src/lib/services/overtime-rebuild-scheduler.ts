@@ -0,0 +1,58 @@
+import { requeueStaleOvertimeRebuildJobs } from '@/lib/data/overtime-rebuild-jobs';
+import { runNextOvertimeRebuildJob } from '@/lib/services/overtime-rebuild';
+
+const DEFAULT_INTERVAL_SECONDS = 60;
+const STALE_AFTER_MS = 30 * 60 * 1000;
+
+type SchedulerState = { timer: ReturnType<typeof setInterval> | null; running: boolean };
+
+declare global {
+  var __overtime_rebuild_scheduler_stundenliste__: SchedulerState | undefined;
+}
+
+function resolveIntervalMs(): number {
+  const raw = Number.parseInt(process.env.OVERTIME_REBUILD_SCHEDULER_INTERVAL_SECONDS ?? '', 10);
+  const seconds = Number.isFinite(raw) && raw > 0 ? raw : DEFAULT_INTERVAL_SECONDS;
+  return seconds * 1000;
+}
+
+async function tick(state: SchedulerState): Promise<void> {
+  if (state.running) return;
+  state.running = true;
+  try {
+    const requeued = await requeueStaleOvertimeRebuildJobs(new Date(Date.now() - STALE_AFTER_MS));
+    if (requeued > 0) {
+      console.info('[overtime] requeued stale rebuild jobs', { requeued });
+    }
+    while ((await runNextOvertimeRebuildJob()) !== null) {
+      // Work off the queue before the next tick.
+    }
+  } catch (error) {
+    console.error('[overtime] rebuild scheduler tick failed', error);
+  } finally {
+    state.running = false;
+  }
+}
+
+/**
+ * Starts the in-process worker for queued overtime rebuilds. Jobs live in OvertimeRebuildJob and are claimed
+ * one by one, so several app instances may run the worker side by side; jobs of a restarted instance are queued
+ * again once their heartbeat is older than 30 minutes.
+ * Disable with OVERTIME_REBUILD_SCHEDULER=off (e.g. when a separate worker instance runs the jobs).
+ */
+export function startOvertimeRebuildScheduler(): void {
+  const mode = (process.env.OVERTIME_REBUILD_SCHEDULER ?? 'on').trim().toLowerCase();
+  if (mode === 'off' || mode === '0' || mode === 'false') {
+    return;
+  }
+  if (global.__overtime_rebuild_scheduler_stundenliste__?.timer) {
+    return;
+  }
+
+  const state: SchedulerState = { timer: null, running: false };
+  state.timer = setInterval(() => {
+    void tick(state);
+  }, resolveIntervalMs());
+  state.timer.unref?.();
+  global.__overtime_rebuild_scheduler_stundenliste__ = state;
+}
@@ -0,0 +1,119 @@
+import { listFirstDailyDayDatesWithCode } from '@/lib/data/daily-days';
+import { listEmployees } from '@/lib/data/employees';
+import {
+  claimNextOvertimeRebuildJob,
+  enqueueOvertimeRebuildJob,
+  finishOvertimeRebuildJob,
+  updateOvertimeRebuildJobProgress,
+  type OvertimeRebuildJobRow,
+} from '@/lib/data/overtime-rebuild-jobs';
+import {
+  checkEmployeeOvertimeConsistency,
+  recomputeEmployeeOvertime,
+  type OvertimeConsistencyReport,
+} from '@/lib/services/time-entry';
+
+export type OvertimeRebuildResult = {
+  employeeId: number;
+  status: 'rebuilt' | 'failed';
+  error?: string;
+};
+
+/**
+ * Replays the whole overtime history of every employee of the tenant, including inactive ones, and rewrites
+ * the day values, monthly checkpoints and balances. One failing employee does not stop the others.
+ */
+export async function rebuildTenantOvertime(
+  tenantId: string,
+  onProgress?: (progress: { employeeCount: number; processedCount: number }) => Promise<void>
+): Promise<OvertimeRebuildResult[]> {
+  const employees = await listEmployees(tenantId, { includeInactive: true });
+  const results: OvertimeRebuildResult[] = [];
+  for (const employee of employees) {
+    await onProgress?.({ employeeCount: employees.length, processedCount: results.length });
+    try {
+      await recomputeEmployeeOvertime(tenantId, employee.id, null, { notifyTrafficLight: false });
+      results.push({ employeeId: employee.id, status: 'rebuilt' });
+    } catch (error) {
+      results.push({
+        employeeId: employee.id,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return results;
+}
+
+/**
+ * Replays the overtime of every employee who recorded the code, each from the first day with it. Used after the
+ * counting behaviour of an own absence code changed.
+ */
+export async function recomputeOvertimeForAbsenceCode(
+  tenantId: string,
+  code: string
+): Promise<OvertimeRebuildResult[]> {
+  const firstDates = await listFirstDailyDayDatesWithCode(tenantId, code);
+  const results: OvertimeRebuildResult[] = [];
+  for (const [employeeId, fromIso] of firstDates) {
+    try {
+      await recomputeEmployeeOvertime(tenantId, employeeId, fromIso, { notifyTrafficLight: false });
+      results.push({ employeeId, status: 'rebuilt' });
+    } catch (error) {
+      results.push({
+        employeeId,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return results;
+}
+
+/**
+ * Queues a full rebuild of the tenant; the overtime rebuild scheduler picks it up. Returns null while a rebuild
+ * of the tenant is still queued or running on any instance.
+ */
+export async function startTenantOvertimeRebuild(tenantId: string): Promise<OvertimeRebuildJobRow | null> {
+  return enqueueOvertimeRebuildJob(tenantId);
+}
+
+/**
+ * Runs the oldest queued rebuild job, if any, and stores its outcome: employees that failed are kept on the job,
+ * an error of the whole run marks the job as failed. Returns the finished job id or null when nothing was queued.
+ */
+export async function runNextOvertimeRebuildJob(): Promise<number | null> {
+  const job = await claimNextOvertimeRebuildJob();
+  if (!job) return null;
+  try {
+    const results = await rebuildTenantOvertime(job.tenant_id, (progress) =>
+      updateOvertimeRebuildJobProgress(job.id, progress)
+    );
+    await updateOvertimeRebuildJobProgress(job.id, { employeeCount: results.length, processedCount: results.length });
+    const failed = results
+      .filter((result) => result.status === 'failed')
+      .map((result) => ({ employee_id: result.employeeId, error: result.error ?? 'Unbekannter Fehler' }));
+    await finishOvertimeRebuildJob(job.id, { status: 'done', failed, error: null });
+    if (failed.length) {
+      console.error('[overtime] tenant rebuild finished with failures', { tenantId: job.tenant_id, failed });
+    }
+  } catch (error) {
+    console.error('[overtime] tenant rebuild failed', { tenantId: job.tenant_id, error });
+    await finishOvertimeRebuildJob(job.id, {
+      status: 'failed',
+      failed: [],
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  return job.id;
+}
+
+/** Compares the incrementally stored overtime of every employee of the tenant with a full replay. */
+export async function checkTenantOvertimeConsistency(tenantId: string): Promise<OvertimeConsistencyReport[]> {
+  const employees = await listEmployees(tenantId, { includeInactive: true });
+  const reports: OvertimeConsistencyReport[] = [];
+  for (const employee of employees) {
+    reports.push(await checkEmployeeOvertimeConsistency(tenantId, employee.id));
+  }
+  return reports;
+}
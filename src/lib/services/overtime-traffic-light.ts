@@ -0,0 +1,300 @@
+import {
+  getActiveEmployeeEmploymentType,
+  getEmployeeById,
+  getEmployeeEmploymentType,
+  listActiveEmployeeEmploymentTypes,
+  listBranchAdminEmails,
+} from '@/lib/data/employees';
+import { listOvertimeCheckpoints } from '@/lib/data/overtime-checkpoints';
+import {
+  getOvertimeTrafficLightSettings,
+  getOvertimeTrafficLightState,
+  saveOvertimeTrafficLightState,
+  type OvertimeTrafficLightColor,
+  type OvertimeTrafficLightRule,
+  type OvertimeTrafficLightSettings,
+} from '@/lib/data/overtime-traffic-light';
+import { sendTextMail } from '@/lib/services/email';
+import { getTenantMailDisplayName } from '@/lib/services/leave-requests';
+
+/** Employee groups with their own ranges; the key is the Einstellungsart of the employee. */
+export const OVERTIME_TRAFFIC_LIGHT_GROUPS: Array<{ employmentType: string; label: string }> = [
+  { employmentType: 'befristet', label: 'Befristet' },
+  { employmentType: 'unbefristet', label: 'Unbefristet' },
+  { employmentType: 'minijob', label: 'Minijob' },
+  { employmentType: 'midijob', label: 'Midijob' },
+  { employmentType: 'werkstudent', label: 'Werkstudent' },
+  { employmentType: 'teilzeit', label: 'Teilzeit' },
+  { employmentType: 'vollzeit', label: 'Vollzeit' },
+];
+
+export const OVERTIME_TRAFFIC_LIGHT_LABELS: Record<OvertimeTrafficLightColor, string> = {
+  green: 'Grün',
+  yellow: 'Gelb',
+  red: 'Rot',
+};
+
+const MAX_THRESHOLD_HOURS = 1000;
+
+export type OvertimeTrafficLightDashboardRow = {
+  employeeId: number;
+  name: string;
+  employmentType: string | null;
+  balanceHours: number;
+  color: OvertimeTrafficLightColor;
+  rule: OvertimeTrafficLightRule;
+};
+
+export type OvertimeBalanceHistoryPoint = {
+  month: string;
+  balanceHours: number;
+  payoutBankHours: number;
+  color: OvertimeTrafficLightColor;
+};
+
+export type OvertimeBalanceHistory = {
+  rule: OvertimeTrafficLightRule;
+  points: OvertimeBalanceHistoryPoint[];
+};
+
+export function resolveOvertimeTrafficLightRule(
+  settings: OvertimeTrafficLightSettings,
+  employmentType: string | null | undefined
+): OvertimeTrafficLightRule {
+  const key = (employmentType ?? '').trim().toLowerCase();
+  return (key ? settings.groupRules[key] : undefined) ?? settings.rule;
+}
+
+export function evaluateOvertimeTrafficLight(
+  balanceHours: number,
+  rule: OvertimeTrafficLightRule
+): OvertimeTrafficLightColor {
+  if (balanceHours >= rule.redPlusHours || balanceHours <= -rule.redMinusHours) {
+    return 'red';
+  }
+  if (balanceHours >= rule.yellowPlusHours || balanceHours <= -rule.yellowMinusHours) {
+    return 'yellow';
+  }
+  return 'green';
+}
+
+function readThreshold(value: unknown, label: string): number {
+  const numeric = typeof value === 'string' ? Number.parseFloat(value.replace(',', '.')) : Number(value);
+  if (!Number.isFinite(numeric) || numeric < 0 || numeric > MAX_THRESHOLD_HOURS) {
+    throw new Error(`${label} muss zwischen 0 und ${MAX_THRESHOLD_HOURS} Stunden liegen.`);
+  }
+  return Math.round(numeric * 100) / 100;
+}
+
+/** Red must start at or beyond yellow on both sides. */
+export function sanitizeOvertimeTrafficLightRule(
+  input: Partial<Record<keyof OvertimeTrafficLightRule, unknown>>
+): OvertimeTrafficLightRule {
+  const rule = {
+    yellowPlusHours: readThreshold(input.yellowPlusHours, 'Gelb ab Plusstunden'),
+    redPlusHours: readThreshold(input.redPlusHours, 'Rot ab Plusstunden'),
+    yellowMinusHours: readThreshold(input.yellowMinusHours, 'Gelb ab Minusstunden'),
+    redMinusHours: readThreshold(input.redMinusHours, 'Rot ab Minusstunden'),
+  };
+  if (rule.redPlusHours < rule.yellowPlusHours) {
+    throw new Error('Rot darf bei Plusstunden nicht vor Gelb beginnen.');
+  }
+  if (rule.redMinusHours < rule.yellowMinusHours) {
+    throw new Error('Rot darf bei Minusstunden nicht vor Gelb beginnen.');
+  }
+  return rule;
+}
+
+/** Active employees whose account is yellow or red, red first and then by the size of the balance. */
+export async function getOvertimeTrafficLightDashboard(tenantId: string): Promise<OvertimeTrafficLightDashboardRow[]> {
+  const [settings, employees] = await Promise.all([
+    getOvertimeTrafficLightSettings(tenantId),
+    listActiveEmployeeEmploymentTypes(tenantId),
+  ]);
+  const rows: OvertimeTrafficLightDashboardRow[] = [];
+  for (const employee of employees) {
+    const rule = resolveOvertimeTrafficLightRule(settings, employee.employment_type);
+    const color = evaluateOvertimeTrafficLight(employee.overtime_balance, rule);
+    if (color === 'green') continue;
+    rows.push({
+      employeeId: employee.id,
+      name: `${employee.first_name} ${employee.last_name}`.trim() || `ID ${employee.id}`,
+      employmentType: employee.employment_type,
+      balanceHours: employee.overtime_balance,
+      color,
+      rule,
+    });
+  }
+  return rows.sort(
+    (a, b) =>
+      Number(b.color === 'red') - Number(a.color === 'red') || Math.abs(b.balanceHours) - Math.abs(a.balanceHours)
+  );
+}
+
+function nextMonth(month: string): string {
+  const [year, monthNumber] = month.split('-').map((part) => Number.parseInt(part, 10));
+  const next = new Date(year!, monthNumber!, 1);
+  return `${next.getFullYear()}-${String(next.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Month-end balances from the overtime checkpoints of the last `months` months. Months without entries keep
+ * the balance of the month before.
+ */
+export async function getOvertimeBalanceHistory(
+  tenantId: string,
+  employeeId: number,
+  months = 24
+): Promise<OvertimeBalanceHistory> {
+  const [settings, employmentType, checkpoints] = await Promise.all([
+    getOvertimeTrafficLightSettings(tenantId),
+    getEmployeeEmploymentType(tenantId, employeeId),
+    listOvertimeCheckpoints(employeeId),
+  ]);
+  const rule = resolveOvertimeTrafficLightRule(settings, employmentType);
+
+  const points: OvertimeBalanceHistoryPoint[] = [];
+  for (const checkpoint of checkpoints) {
+    const previous = points[points.length - 1];
+    if (previous) {
+      for (let month = nextMonth(previous.month); month < checkpoint.month; month = nextMonth(month)) {
+        points.push({ ...previous, month });
+      }
+    }
+    points.push({
+      month: checkpoint.month,
+      balanceHours: checkpoint.balance_hours,
+      payoutBankHours: checkpoint.payout_bank_hours,
+      color: evaluateOvertimeTrafficLight(checkpoint.balance_hours, rule),
+    });
+  }
+  return { rule, points: points.slice(-months) };
+}
+
+function formatHours(value: number): string {
+  const formatted = Math.abs(value).toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${value < 0 ? '-' : '+'}${formatted} Std.`;
+}
+
+function describeRange(color: OvertimeTrafficLightColor, rule: OvertimeTrafficLightRule): string {
+  if (color === 'red') {
+    return `Rot gilt ab ${formatHours(rule.redPlusHours)} bzw. ${formatHours(-rule.redMinusHours)}.`;
+  }
+  if (color === 'yellow') {
+    return `Gelb gilt ab ${formatHours(rule.yellowPlusHours)} bzw. ${formatHours(-rule.yellowMinusHours)}.`;
+  }
+  return `Grün gilt zwischen ${formatHours(-rule.yellowMinusHours)} und ${formatHours(rule.yellowPlusHours)}.`;
+}
+
+async function notifyOvertimeTrafficLightChange(
+  tenantId: string,
+  employeeId: number,
+  from: OvertimeTrafficLightColor,
+  to: OvertimeTrafficLightColor,
+  balanceHours: number,
+  rule: OvertimeTrafficLightRule
+): Promise<void> {
+  const employee = await getEmployeeById(tenantId, employeeId);
+  if (!employee) return;
+
+  const companyName = await getTenantMailDisplayName(tenantId);
+  const employeeName = `${employee.first_name ?? ''} ${employee.last_name ?? ''}`.trim() || `ID ${employee.id}`;
+  const change = `von ${OVERTIME_TRAFFIC_LIGHT_LABELS[from]} auf ${OVERTIME_TRAFFIC_LIGHT_LABELS[to]}`;
+  const mails: Array<{ recipient: string; subject: string; body: string }> = [];
+
+  const employeeEmail = employee.email?.trim();
+  if (employeeEmail) {
+    mails.push({
+      recipient: employeeEmail,
+      subject: `${companyName}: Dein Stundenkonto steht auf ${OVERTIME_TRAFFIC_LIGHT_LABELS[to]}`,
+      body: [
+        `Hallo ${employeeName},`,
+        '',
+        `die Ampel deines Stundenkontos hat ${change} gewechselt. Aktueller Saldo: ${formatHours(balanceHours)}.`,
+        describeRange(to, rule),
+        to === 'green' ? '' : 'Bitte sprich den Ausgleich mit deiner Verwaltung ab.',
+        '',
+        'Viele Grüße',
+        companyName,
+      ]
+        .filter((line, index, all) => !(line === '' && all[index - 1] === ''))
+        .join('\n'),
+    });
+  }
+
+  const adminRecipients = await listBranchAdminEmails(tenantId, employeeId);
+  const fallback = process.env.ADMIN_EMAIL?.trim();
+  if (!adminRecipients.length && fallback) {
+    adminRecipients.push(fallback);
+  }
+  for (const recipient of adminRecipients) {
+    mails.push({
+      recipient,
+      subject: `Ampelkonto von ${employeeName}: ${OVERTIME_TRAFFIC_LIGHT_LABELS[to]}`,
+      body: [
+        `Das Stundenkonto von ${employeeName} hat ${change} gewechselt.`,
+        `Aktueller Saldo: ${formatHours(balanceHours)}.`,
+        describeRange(to, rule),
+      ].join('\n'),
+    });
+  }
+
+  const results = await Promise.allSettled(
+    mails.map((mail) => sendTextMail(mail.recipient, mail.subject, mail.body, { fromName: companyName }))
+  );
+  const failed = results.filter((result) => result.status === 'rejected');
+  if (failed.length) {
+    console.error('[overtime-traffic-light] failed to send mail', { employeeId, to, failed: failed.length });
+  }
+}
+
+/**
+ * Stores the traffic-light color for a new balance and, when mails are enabled and `notify` is set, notifies
+ * employee and admins about a color change without waiting for the mails. The first evaluation of an employee
+ * only records the color; inactive employees are skipped.
+ */
+export async function updateOvertimeTrafficLight(
+  tenantId: string,
+  employeeId: number,
+  balanceHours: number,
+  options: { notify?: boolean } = {}
+): Promise<void> {
+  const [settings, employee, previous] = await Promise.all([
+    getOvertimeTrafficLightSettings(tenantId),
+    getActiveEmployeeEmploymentType(tenantId, employeeId),
+    getOvertimeTrafficLightState(employeeId),
+  ]);
+  if (!employee) return;
+  const rule = resolveOvertimeTrafficLightRule(settings, employee.employmentType);
+  const color = evaluateOvertimeTrafficLight(balanceHours, rule);
+  const changed = previous !== null && previous.state !== color;
+
+  await saveOvertimeTrafficLightState(employeeId, color, balanceHours, changed);
+  if (changed && settings.notifyByMail && (options.notify ?? true)) {
+    void notifyOvertimeTrafficLightChange(tenantId, employeeId, previous.state, color, balanceHours, rule).catch(
+      (error) => {
+        console.error('[overtime-traffic-light] notification failed', { tenantId, employeeId, error });
+      }
+    );
+  }
+}
+
+/**
+ * Re-evaluates the stored balances of all active employees, e.g. after the ranges changed, and records the
+ * colors without mails, so the next save does not report a change the admin caused.
+ */
+export async function reevaluateOvertimeTrafficLights(tenantId: string): Promise<void> {
+  const [settings, employees] = await Promise.all([
+    getOvertimeTrafficLightSettings(tenantId),
+    listActiveEmployeeEmploymentTypes(tenantId),
+  ]);
+  for (const employee of employees) {
+    const color = evaluateOvertimeTrafficLight(
+      employee.overtime_balance,
+      resolveOvertimeTrafficLightRule(settings, employee.employment_type)
+    );
+    const previous = await getOvertimeTrafficLightState(employee.id);
+    if (previous?.state === color) continue;
+    await saveOvertimeTrafficLightState(employee.id, color, employee.overtime_balance, previous !== null);
+  }
+}
@@ -1,4 +1,4 @@
-import { calculateIstHours } from '@/lib/services/time-calculations';
+import { calculateIstHours, segmentsFromPairs, type WorkSegment } from '@/lib/services/time-calculations';
 
 export interface DailyOvertimeInput {
   id?: number;
@@ -8,6 +8,8 @@ export interface DailyOvertimeInput {
   geht1?: string | null;
   kommt2?: string | null;
   geht2?: string | null;
+  /** Preferred over kommt1..geht2 when present. */
+  segments?: WorkSegment[] | null;
   pause?: string | null;
   schicht?: string | null;
   brutto?: number | null;
@@ -30,8 +32,29 @@ export interface PlanHoursProvider {
   (entry: DailyOvertimeInput): number;
 }
 
+/** Behaviour of a tenant-defined absence code; built-in codes are handled by the switch below. */
+export interface CustomAbsenceCodeRule {
+  countsAsWorked: boolean;
+  reducesVacation: boolean;
+  countsAsSick: boolean;
+}
+
+/** Running balance and payout bank before clamping, i.e. what the replay carries from day to day. */
+export interface OvertimeRunningState {
+  balanceHours: number;
+  payoutBankHours: number;
+}
+
+/** Running state at the end of a month (YYYY-MM). */
+export interface OvertimeMonthCheckpoint extends OvertimeRunningState {
+  month: string;
+}
+
 export interface OvertimeComputationOptions {
   planHoursProvider?: PlanHoursProvider;
+  customAbsenceCodes?: ReadonlyMap<string, CustomAbsenceCodeRule>;
+  /** State at the end of the last month that is not replayed; the entries must all lie after that month. */
+  startState?: OvertimeRunningState;
 }
 
 export interface RecalculatedDay {
@@ -53,6 +76,8 @@ export interface RecalculateOvertimeResult {
   updatedDays: RecalculatedDay[];
   balanceHours: number;
   payoutBankHours: number;
+  /** One checkpoint per month that has entries, in date order. */
+  monthlyCheckpoints: OvertimeMonthCheckpoint[];
 }
 
 const FLOAT_TOLERANCE = 0.0001;
@@ -77,9 +102,10 @@ export function recalculateOvertime(
 ): RecalculateOvertimeResult {
   const sortedEntries = [...entries].sort((a, b) => a.dayDate.localeCompare(b.dayDate));
   const updatedDays: RecalculatedDay[] = [];
+  const monthlyCheckpoints: OvertimeMonthCheckpoint[] = [];
 
-  let currentBalance = 0;
-  let payoutSaldo = 0;
+  let currentBalance = options.startState?.balanceHours ?? 0;
+  let payoutSaldo = options.startState?.payoutBankHours ?? 0;
 
   for (const entry of sortedEntries) {
     const planHoursFromRow = toNumber(entry.planHours, 0);
@@ -93,7 +119,8 @@ export function recalculateOvertime(
     const code = (entry.code ?? '').trim().toUpperCase();
     const pauseValue = entry.pause ?? 'Keine';
 
-    const ist = calculateIstHours(entry.kommt1 ?? '', entry.geht1 ?? '', entry.kommt2 ?? '', entry.geht2 ?? '', pauseValue);
+    const segments = entry.segments ?? segmentsFromPairs(entry.kommt1, entry.geht1, entry.kommt2, entry.geht2);
+    const ist = calculateIstHours(segments, pauseValue);
     const actualNetHours = ist.netHours;
 
     let storePlan = planHours;
@@ -111,7 +138,8 @@ export function recalculateOvertime(
       case 'U':
         netWorked = storePlan;
         deltaPlan = storePlan;
-        newVacationHours = storePlan;
+        // Planned hours on a holiday after midnight were booked as holiday hours when the entry was saved.
+        newVacationHours = Math.max(storePlan - holidayHours, 0);
         break;
       case 'UH': {
         const halfPlan = storePlan / 2;
@@ -159,8 +187,25 @@ export function recalculateOvertime(
         storePlan = 0;
         deltaPlan = 0;
         break;
-      default:
+      default: {
+        // A custom code only replaces the day when no times were recorded; with times it is worked time.
+        const rule = options.customAbsenceCodes?.get(code);
+        if (!rule || actualNetHours > FLOAT_TOLERANCE) break;
+        if (rule.countsAsWorked) {
+          netWorked = storePlan;
+          deltaPlan = storePlan;
+          if (rule.reducesVacation) {
+            newVacationHours = storePlan;
+          } else if (rule.countsAsSick) {
+            newSickHours = storePlan;
+          }
+        } else {
+          netWorked = 0;
+          storePlan = 0;
+          deltaPlan = 0;
+        }
         break;
+      }
     }
 
     const delta = netWorked - deltaPlan;
@@ -223,6 +268,15 @@ export function recalculateOvertime(
     if (changed) {
       updatedDays.push(updates);
     }
+
+    const month = entry.dayDate.slice(0, 7);
+    const lastCheckpoint = monthlyCheckpoints[monthlyCheckpoints.length - 1];
+    if (lastCheckpoint?.month === month) {
+      lastCheckpoint.balanceHours = currentBalance;
+      lastCheckpoint.payoutBankHours = payoutSaldo;
+    } else {
+      monthlyCheckpoints.push({ month, balanceHours: currentBalance, payoutBankHours: payoutSaldo });
+    }
   }
 
   const clampedBalance = Math.min(Math.max(currentBalance, -settings.maxMinusHours), settings.maxOvertimeHours);
@@ -231,5 +285,53 @@ export function recalculateOvertime(
     updatedDays,
     balanceHours: clampedBalance,
     payoutBankHours: payoutSaldo,
+    monthlyCheckpoints,
   };
 }
+
+/** First day (YYYY-MM-DD) of the month after `month` (YYYY-MM). */
+export function nextMonthStart(month: string): string {
+  const [year, monthNumber] = month.split('-').map((part) => Number.parseInt(part, 10));
+  const next = new Date(year!, monthNumber!, 1);
+  return `${next.getFullYear()}-${String(next.getMonth() + 1).padStart(2, '0')}-01`;
+}
+
+/**
+ * Earliest day a replay from `fromIso` has to cover. Closed months are final, so a run of closed months at the
+ * start is skipped; a reopened month keeps its place even when later months are still closed. Null (the whole
+ * history) stays null.
+ */
+export function resolveOvertimeReplayStart(fromIso: string | null, closedMonths: ReadonlySet<string>): string | null {
+  let from = fromIso;
+  while (from && closedMonths.has(from.slice(0, 7))) {
+    from = nextMonthStart(from.slice(0, 7));
+  }
+  return from;
+}
+
+/** Checkpoints and balances are compared to this precision, so floating point noise is no difference. */
+export const OVERTIME_CHECKPOINT_TOLERANCE = 0.005;
+
+/** Months whose checkpoint is missing in one of the lists or differs in balance or payout bank. */
+export function diffOvertimeCheckpoints(
+  expected: OvertimeMonthCheckpoint[],
+  stored: OvertimeMonthCheckpoint[]
+): string[] {
+  const storedByMonth = new Map(stored.map((checkpoint) => [checkpoint.month, checkpoint]));
+  const mismatched = new Set<string>();
+  for (const checkpoint of expected) {
+    const match = storedByMonth.get(checkpoint.month);
+    storedByMonth.delete(checkpoint.month);
+    if (
+      !match ||
+      !almostEqual(match.balanceHours, checkpoint.balanceHours, OVERTIME_CHECKPOINT_TOLERANCE) ||
+      !almostEqual(match.payoutBankHours, checkpoint.payoutBankHours, OVERTIME_CHECKPOINT_TOLERANCE)
+    ) {
+      mismatched.add(checkpoint.month);
+    }
+  }
+  for (const month of storedByMonth.keys()) {
+    mismatched.add(month);
+  }
+  return Array.from(mismatched).sort();
+}
@@ -0,0 +1,161 @@
+import type { DailyDayRecord } from '@/lib/data/daily-days';
+import type { ShiftPlanDayRecord } from '@/lib/data/shift-plan-days';
+import { deriveCodeFromPlanLabel } from '@/lib/services/shift-plan-hours';
+import { buildShiftIntervals, calculateIstHours, type WorkSegment } from '@/lib/services/time-calculations';
+
+export type PlanActualDeviation = 'late_arrival' | 'early_leave' | 'no_show' | 'unplanned';
+
+export interface PlanActualDay {
+  dayDate: string;
+  plannedSegments: WorkSegment[];
+  /** Recorded blocks with the stamps as taken, i.e. before time rounding. */
+  actualSegments: WorkSegment[];
+  actualCode: string | null;
+  plannedHours: number;
+  actualHours: number;
+  deltaHours: number;
+  lateMinutes: number;
+  earlyLeaveMinutes: number;
+  deviations: PlanActualDeviation[];
+}
+
+export interface PlanActualTotals {
+  plannedHours: number;
+  actualHours: number;
+  deltaHours: number;
+  lateArrivals: number;
+  lateMinutes: number;
+  earlyLeaves: number;
+  earlyLeaveMinutes: number;
+  noShows: number;
+  unplannedDays: number;
+}
+
+export const PLAN_ACTUAL_DEVIATION_LABELS: Record<PlanActualDeviation, string> = {
+  late_arrival: 'Verspätet',
+  early_leave: 'Früher gegangen',
+  no_show: 'Nicht erschienen',
+  unplanned: 'Ungeplant gearbeitet',
+};
+
+/** Stamps within this many minutes of the plan count as on time. */
+export const PLAN_ACTUAL_TOLERANCE_MINUTES = 5;
+
+function roundHours(value: number): number {
+  return Number(value.toFixed(2));
+}
+
+function toStampedSegments(segments: readonly WorkSegment[]): WorkSegment[] {
+  return segments.map((segment) => ({
+    kommt: segment.kommtRaw ?? segment.kommt,
+    geht: segment.gehtRaw ?? segment.geht,
+  }));
+}
+
+function workedIntervals(segments: readonly WorkSegment[]) {
+  return buildShiftIntervals(segments).filter((interval) => interval.endMinutes > interval.startMinutes);
+}
+
+/** Planned work per day; unavailable rows and absences such as "Urlaub" are not planned work. */
+export function groupPlannedSegments(
+  rows: Array<Pick<ShiftPlanDayRecord, 'day_date' | 'mode' | 'start_time' | 'end_time' | 'required_pause_minutes' | 'label'>>
+): Map<string, { segments: WorkSegment[]; pauseMinutes: number }> {
+  const byDate = new Map<string, { segments: WorkSegment[]; pauseMinutes: number }>();
+  for (const row of rows) {
+    if (row.mode === 'unavailable' || !row.start_time || !row.end_time) continue;
+    if (deriveCodeFromPlanLabel(row.label)) continue;
+    const day = byDate.get(row.day_date) ?? { segments: [], pauseMinutes: 0 };
+    day.segments.push({ kommt: row.start_time, geht: row.end_time });
+    day.pauseMinutes += Math.max(row.required_pause_minutes ?? 0, 0);
+    byDate.set(row.day_date, day);
+  }
+  return byDate;
+}
+
+/**
+ * Compares one planned day with what was recorded. Arrival and departure are taken from the unrounded
+ * stamps, so rounding never hides a late arrival. A recorded absence code without worked time (Urlaub,
+ * Krank, …) is not a no-show; days after `today` are not checked for no-shows as they lie ahead.
+ */
+export function comparePlanWithActual(input: {
+  dayDate: string;
+  planned: { segments: WorkSegment[]; pauseMinutes: number } | null;
+  actual: Pick<DailyDayRecord, 'segments' | 'pause' | 'code'> | null;
+  today: string;
+}): PlanActualDay {
+  const plannedSegments = input.planned?.segments ?? [];
+  const plannedIntervals = workedIntervals(plannedSegments);
+  const plannedMinutes = plannedIntervals.reduce((sum, interval) => sum + interval.endMinutes - interval.startMinutes, 0);
+  const plannedHours = roundHours(Math.max(plannedMinutes - (input.planned?.pauseMinutes ?? 0), 0) / 60);
+
+  const actualSegments = toStampedSegments(input.actual?.segments ?? []);
+  const actualIntervals = workedIntervals(actualSegments);
+  const actualHours = input.actual ? calculateIstHours(input.actual.segments, input.actual.pause).netHours : 0;
+
+  const deviations: PlanActualDeviation[] = [];
+  let lateMinutes = 0;
+  let earlyLeaveMinutes = 0;
+
+  if (plannedIntervals.length && actualIntervals.length) {
+    const lateBy = actualIntervals[0].startMinutes - plannedIntervals[0].startMinutes;
+    if (lateBy > PLAN_ACTUAL_TOLERANCE_MINUTES) {
+      lateMinutes = lateBy;
+      deviations.push('late_arrival');
+    }
+    const earlyBy =
+      plannedIntervals[plannedIntervals.length - 1].endMinutes - actualIntervals[actualIntervals.length - 1].endMinutes;
+    if (earlyBy > PLAN_ACTUAL_TOLERANCE_MINUTES) {
+      earlyLeaveMinutes = earlyBy;
+      deviations.push('early_leave');
+    }
+  } else if (plannedIntervals.length) {
+    const code = input.actual?.code?.trim().toUpperCase() ?? '';
+    const excused = code.length > 0 && code !== 'RA';
+    if (!excused && input.dayDate <= input.today) {
+      deviations.push('no_show');
+    }
+  } else if (actualIntervals.length) {
+    deviations.push('unplanned');
+  }
+
+  return {
+    dayDate: input.dayDate,
+    plannedSegments,
+    actualSegments,
+    actualCode: input.actual?.code ?? null,
+    plannedHours,
+    actualHours,
+    deltaHours: roundHours(actualHours - plannedHours),
+    lateMinutes,
+    earlyLeaveMinutes,
+    deviations,
+  };
+}
+
+export function sumPlanActualDays(days: PlanActualDay[]): PlanActualTotals {
+  const totals: PlanActualTotals = {
+    plannedHours: 0,
+    actualHours: 0,
+    deltaHours: 0,
+    lateArrivals: 0,
+    lateMinutes: 0,
+    earlyLeaves: 0,
+    earlyLeaveMinutes: 0,
+    noShows: 0,
+    unplannedDays: 0,
+  };
+  for (const day of days) {
+    totals.plannedHours += day.plannedHours;
+    totals.actualHours += day.actualHours;
+    totals.lateMinutes += day.lateMinutes;
+    totals.earlyLeaveMinutes += day.earlyLeaveMinutes;
+    if (day.deviations.includes('late_arrival')) totals.lateArrivals += 1;
+    if (day.deviations.includes('early_leave')) totals.earlyLeaves += 1;
+    if (day.deviations.includes('no_show')) totals.noShows += 1;
+    if (day.deviations.includes('unplanned')) totals.unplannedDays += 1;
+  }
+  totals.plannedHours = roundHours(totals.plannedHours);
+  totals.actualHours = roundHours(totals.actualHours);
+  totals.deltaHours = roundHours(totals.actualHours - totals.plannedHours);
+  return totals;
+}
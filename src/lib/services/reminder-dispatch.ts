@@ -0,0 +1,214 @@
+import { DateTime } from 'luxon';
+
+import { listDailyDayDatesForEmployees } from '@/lib/data/daily-days';
+import { listActiveEmployeeRecords, type EmployeeRecord } from '@/lib/data/employees';
+import { listMonthlyClosingsForPeriod } from '@/lib/data/monthly-closings';
+import {
+  claimReminderRecipient,
+  ensureReminderSendLog,
+  finishReminderRecipient,
+  listReminderTenantIds,
+  refreshReminderSendLog,
+  type ReminderSettings,
+} from '@/lib/data/reminders';
+import { listShiftPlanDaysForEmployees, type ShiftPlanDayRecord } from '@/lib/data/shift-plan-days';
+import { sendTextMailWithResult } from '@/lib/services/email';
+import { buildPreview, getReminderSettings } from '@/lib/services/reminder';
+import { deriveCodeFromPlanLabel } from '@/lib/services/shift-plan-hours';
+
+const DEFAULT_TZ = process.env.REMINDER_TZ || 'Europe/Berlin';
+
+export type ReminderDispatchStatus = 'sent' | 'failed' | 'disabled' | 'not_due' | 'already_sent';
+
+export interface ReminderDispatchResult {
+  tenantId: string;
+  periodKey: string;
+  status: ReminderDispatchStatus;
+  recipientCount: number;
+  sentCount: number;
+  errorCount: number;
+}
+
+export interface ReminderRecipient {
+  employee: EmployeeRecord;
+  missingDates: string[];
+}
+
+/**
+ * Key of the regular run of the month. A forced run gets a key of its own, so sending by hand during the month
+ * leaves the scheduled run on the last day untouched.
+ */
+export function reminderPeriodKey(now: DateTime, options: { forced?: boolean } = {}): string {
+  return options.forced ? now.toFormat("yyyy-LL-'manual'-ddHHmm") : now.toFormat('yyyy-LL');
+}
+
+/**
+ * Reminders go out once per month on its last day, starting at the configured hour.
+ * Later runs on the same day still count as due so a missed tick is caught up.
+ */
+export function isReminderDue(settings: ReminderSettings, now: DateTime): boolean {
+  if (!settings.enabled) {
+    return false;
+  }
+  const lastDay = now.endOf('month');
+  if (!now.hasSame(lastDay, 'day')) {
+    return false;
+  }
+  const clampedHour = Math.min(Math.max(settings.sendHour, 0), 23);
+  return now.hour >= clampedHour;
+}
+
+function isPlannedWorkDay(day: ShiftPlanDayRecord): boolean {
+  if (day.mode !== 'available') return false;
+  if (!day.start_time || !day.end_time) return false;
+  return !deriveCodeFromPlanLabel(day.label);
+}
+
+function isEmployedOn(employee: EmployeeRecord, isoDate: string): boolean {
+  if (employee.entry_date && isoDate < employee.entry_date) return false;
+  if (employee.exit_date && isoDate > employee.exit_date) return false;
+  return true;
+}
+
+export function collectMissingPlanDates(
+  employee: EmployeeRecord,
+  planDays: ShiftPlanDayRecord[],
+  bookedDates: Set<string>
+): string[] {
+  const missing = new Set<string>();
+  for (const day of planDays) {
+    if (!isPlannedWorkDay(day)) continue;
+    if (!isEmployedOn(employee, day.day_date)) continue;
+    if (bookedDates.has(day.day_date)) continue;
+    missing.add(day.day_date);
+  }
+  return Array.from(missing).sort();
+}
+
+export async function listReminderRecipients(
+  tenantId: string,
+  now: DateTime
+): Promise<ReminderRecipient[]> {
+  const employees = (await listActiveEmployeeRecords(tenantId)).filter(
+    (employee) => Boolean(employee.email?.trim()) && employee.onboarding_status === 'active'
+  );
+  if (!employees.length) {
+    return [];
+  }
+
+  const employeeIds = employees.map((employee) => employee.id);
+  const start = now.startOf('month').toISODate() ?? '';
+  const end = now.toISODate() ?? '';
+
+  const closings = await listMonthlyClosingsForPeriod(employeeIds, now.year, now.month);
+  const closedIds = new Set(
+    closings.filter((closing) => closing.status === 'closed').map((closing) => closing.employeeId)
+  );
+
+  const [planDays, bookedDates] = await Promise.all([
+    listShiftPlanDaysForEmployees(employeeIds, start, end),
+    listDailyDayDatesForEmployees(employeeIds, start, end),
+  ]);
+
+  const planDaysByEmployee = new Map<number, ShiftPlanDayRecord[]>();
+  for (const day of planDays) {
+    const list = planDaysByEmployee.get(day.employee_id) ?? [];
+    list.push(day);
+    planDaysByEmployee.set(day.employee_id, list);
+  }
+
+  const recipients: ReminderRecipient[] = [];
+  for (const employee of employees) {
+    if (closedIds.has(employee.id)) continue;
+    const missingDates = collectMissingPlanDates(
+      employee,
+      planDaysByEmployee.get(employee.id) ?? [],
+      bookedDates.get(employee.id) ?? new Set<string>()
+    );
+    if (missingDates.length) {
+      recipients.push({ employee, missingDates });
+    }
+  }
+  return recipients;
+}
+
+export async function dispatchTenantReminders(
+  tenantId: string,
+  options: { now?: DateTime; force?: boolean } = {}
+): Promise<ReminderDispatchResult> {
+  const now = options.now ?? DateTime.now().setZone(DEFAULT_TZ);
+  const periodKey = reminderPeriodKey(now, { forced: options.force });
+  const result: ReminderDispatchResult = {
+    tenantId,
+    periodKey,
+    status: 'sent',
+    recipientCount: 0,
+    sentCount: 0,
+    errorCount: 0,
+  };
+
+  const settings = await getReminderSettings(tenantId);
+  if (!settings.enabled) {
+    return { ...result, status: 'disabled' };
+  }
+  if (!options.force && !isReminderDue(settings, now)) {
+    return { ...result, status: 'not_due' };
+  }
+
+  await ensureReminderSendLog(tenantId, periodKey);
+  const recipients = await listReminderRecipients(tenantId, now);
+  result.recipientCount = recipients.length;
+
+  // Every employee is claimed on its own: sent mails are skipped by later runs, failed ones are tried again.
+  let claimedCount = 0;
+  for (const recipient of recipients) {
+    const employeeId = recipient.employee.id;
+    if (!(await claimReminderRecipient(tenantId, periodKey, employeeId))) continue;
+    claimedCount += 1;
+    const to = recipient.employee.email?.trim() ?? '';
+    let error: string | null = null;
+    try {
+      const mail = buildPreview(settings, recipient.employee.first_name, now);
+      const delivery = await sendTextMailWithResult(to, mail.subject, mail.body);
+      const accepted = delivery.accepted.map((value) => value.toLowerCase());
+      if (!accepted.some((value) => value.includes(to.toLowerCase()))) {
+        error = 'Die Mail wurde nicht angenommen.';
+      }
+    } catch (sendError) {
+      error = sendError instanceof Error ? sendError.message : String(sendError);
+      console.error('[reminder] send failed', { tenantId, employeeId, error });
+    }
+    if (error) {
+      result.errorCount += 1;
+    } else {
+      result.sentCount += 1;
+    }
+    await finishReminderRecipient(tenantId, periodKey, employeeId, { status: error ? 'failed' : 'sent', error });
+  }
+
+  await refreshReminderSendLog(tenantId, periodKey);
+
+  if (recipients.length > 0 && claimedCount === 0) {
+    return { ...result, status: 'already_sent' };
+  }
+  if (claimedCount > 0 && result.sentCount === 0) {
+    return { ...result, status: 'failed' };
+  }
+  return result;
+}
+
+export async function dispatchDueReminders(now?: DateTime): Promise<ReminderDispatchResult[]> {
+  const tenantIds = await listReminderTenantIds();
+  const results: ReminderDispatchResult[] = [];
+  for (const tenantId of tenantIds) {
+    try {
+      results.push(await dispatchTenantReminders(tenantId, { now }));
+    } catch (error) {
+      console.error('[reminder] dispatch failed', {
+        tenantId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,57 @@
+import { dispatchDueReminders } from '@/lib/services/reminder-dispatch';
+
+const DEFAULT_INTERVAL_MINUTES = 10;
+
+type SchedulerState = { timer: ReturnType<typeof setInterval> | null; running: boolean };
+
+declare global {
+  var __reminder_scheduler_stundenliste__: SchedulerState | undefined;
+}
+
+function resolveIntervalMs(): number {
+  const raw = Number.parseInt(process.env.REMINDER_SCHEDULER_INTERVAL_MINUTES ?? '', 10);
+  const minutes = Number.isFinite(raw) && raw > 0 ? raw : DEFAULT_INTERVAL_MINUTES;
+  return minutes * 60 * 1000;
+}
+
+async function tick(state: SchedulerState): Promise<void> {
+  if (state.running) return;
+  state.running = true;
+  try {
+    const results = await dispatchDueReminders();
+    for (const result of results) {
+      if (result.status === 'sent') {
+        console.info('[reminder] dispatched', result);
+      } else if (result.status === 'failed') {
+        console.error('[reminder] no reminder could be sent, retrying next tick', result);
+      }
+    }
+  } catch (error) {
+    console.error('[reminder] scheduler tick failed', error);
+  } finally {
+    state.running = false;
+  }
+}
+
+/**
+ * Starts the in-process reminder scheduler. Each tick dispatches all tenants whose
+ * send window is due; ReminderSendLog guarantees one run per tenant and month, so
+ * several app instances may run the scheduler side by side.
+ * Disable with REMINDER_SCHEDULER=off (e.g. when the internal route is called by an external cron).
+ */
+export function startReminderScheduler(): void {
+  const mode = (process.env.REMINDER_SCHEDULER ?? 'on').trim().toLowerCase();
+  if (mode === 'off' || mode === '0' || mode === 'false') {
+    return;
+  }
+  if (global.__reminder_scheduler_stundenliste__?.timer) {
+    return;
+  }
+
+  const state: SchedulerState = { timer: null, running: false };
+  state.timer = setInterval(() => {
+    void tick(state);
+  }, resolveIntervalMs());
+  state.timer.unref?.();
+  global.__reminder_scheduler_stundenliste__ = state;
+}
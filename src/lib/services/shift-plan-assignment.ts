@@ -0,0 +1,188 @@
+import { listShiftPlanDays, replaceShiftPlanDays, type ShiftPlanDayRecord } from '@/lib/data/shift-plan-days';
+import {
+  resolveLeaveRequestControlPlaneShiftSyncContext,
+  syncLeaveRequestSegmentsToControlPlane,
+} from '@/lib/services/leave-request-control-plane-sync';
+import { assertShiftPlanDateAllowed, deriveCodeFromPlanLabel, saveShiftPlanDaySegments } from '@/lib/services/shift-plan';
+import { syncShiftPlanAbsenceWithDailyDay } from '@/lib/services/shift-plan-daily-sync';
+
+/** A worked shift moved into or out of an employee's plan by swaps and open shifts. */
+export type PlannedShift = {
+  day_date: string;
+  start_time: string;
+  end_time: string;
+  required_pause_minutes: number;
+  branch_id: number | null;
+  label?: string | null;
+};
+
+type PlanRow = Pick<ShiftPlanDayRecord, 'day_date' | 'mode' | 'start_time' | 'end_time'>;
+
+export type ShiftPlanDayChange = { remove?: PlannedShift; add?: PlannedShift };
+
+type PlanDaySegment = {
+  mode: 'available' | 'unavailable';
+  start: string | null;
+  end: string | null;
+  requiredPauseMinutes: number;
+  label: string | null;
+  branchId: number | null;
+};
+
+function timeToMinutes(value: string | null | undefined): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec((value ?? '').trim());
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+export function isSamePlannedShift(row: PlanRow, shift: PlannedShift): boolean {
+  return (
+    row.mode === 'available' &&
+    row.day_date === shift.day_date &&
+    row.start_time === shift.start_time &&
+    row.end_time === shift.end_time
+  );
+}
+
+/** Whether the shift overlaps another worked segment on the same day; `ignore` is the shift given away. */
+export function overlapsPlannedShift(plan: PlanRow[], shift: PlannedShift, ignore: PlannedShift | null): boolean {
+  const interval = (start: string | null, end: string | null): [number, number] | null => {
+    const from = timeToMinutes(start);
+    const to = timeToMinutes(end);
+    if (from === null || to === null) return null;
+    return [from, to > from ? to : to + 1440];
+  };
+  const target = interval(shift.start_time, shift.end_time);
+  if (!target) return false;
+  return plan.some((row) => {
+    if (row.day_date !== shift.day_date || row.mode !== 'available') return false;
+    if (ignore && isSamePlannedShift(row, ignore)) return false;
+    const other = interval(row.start_time, row.end_time);
+    return Boolean(other && other[0] < target[1] && target[0] < other[1]);
+  });
+}
+
+export function hasPlannedAbsence(records: Array<Pick<ShiftPlanDayRecord, 'label'>> | undefined): boolean {
+  return (records ?? []).some((record) => Boolean(deriveCodeFromPlanLabel(record.label)));
+}
+
+function toPlanDaySegment(record: ShiftPlanDayRecord): PlanDaySegment {
+  return {
+    mode: record.mode,
+    start: record.start_time,
+    end: record.end_time,
+    requiredPauseMinutes: record.required_pause_minutes,
+    label: record.label,
+    branchId: record.branch_id,
+  };
+}
+
+/** Segments of a plan day after the change; a received shift replaces "not available" markers. */
+function applyShiftPlanDayChange(segments: PlanDaySegment[], day: string, change: ShiftPlanDayChange): PlanDaySegment[] {
+  const kept = segments.filter((segment) => {
+    const row = { day_date: day, mode: segment.mode, start_time: segment.start, end_time: segment.end };
+    if (change.remove && isSamePlannedShift(row, change.remove)) return false;
+    if (change.add && segment.mode === 'unavailable') return false;
+    return true;
+  });
+  if (change.add) {
+    kept.push({
+      mode: 'available',
+      start: change.add.start_time,
+      end: change.add.end_time,
+      requiredPauseMinutes: change.add.required_pause_minutes,
+      label: change.add.label ?? null,
+      branchId: change.add.branch_id,
+    });
+  }
+  return kept.sort((a, b) => (a.start ?? '').localeCompare(b.start ?? ''));
+}
+
+/**
+ * Removes and/or adds a shift on one plan day and stores the day with re-numbered segments. A received shift
+ * replaces "not available" markers; callers rule out absences before.
+ */
+export async function rewriteShiftPlanDay(
+  tenantId: string,
+  employeeId: number,
+  isoDate: string,
+  change: ShiftPlanDayChange
+): Promise<void> {
+  const records = await listShiftPlanDays(employeeId, isoDate, isoDate);
+  const segments = applyShiftPlanDayChange(records.map(toPlanDaySegment), isoDate, change);
+  await saveShiftPlanDaySegments(tenantId, employeeId, {
+    isoDate,
+    segments: segments.map((segment, index) => ({ ...segment, segmentIndex: index })),
+  });
+}
+
+/**
+ * Applies changes to several plan days at once: either every day is stored or none. Changes of the same
+ * employee and day are applied one after the other. The recorded days follow the plan afterwards.
+ */
+export async function rewriteShiftPlanDays(
+  tenantId: string,
+  changes: Array<{ employeeId: number; isoDate: string; change: ShiftPlanDayChange }>
+): Promise<void> {
+  const days = new Map<string, { employeeId: number; isoDate: string; segments: PlanDaySegment[] }>();
+  for (const { employeeId, isoDate, change } of changes) {
+    const key = `${employeeId}:${isoDate}`;
+    let day = days.get(key);
+    if (!day) {
+      await assertShiftPlanDateAllowed(tenantId, employeeId, isoDate);
+      const records = await listShiftPlanDays(employeeId, isoDate, isoDate);
+      day = { employeeId, isoDate, segments: records.map(toPlanDaySegment) };
+      days.set(key, day);
+    }
+    day.segments = applyShiftPlanDayChange(day.segments, isoDate, change);
+  }
+
+  await replaceShiftPlanDays(
+    Array.from(days.values()).map((day) => ({
+      employeeId: day.employeeId,
+      dayDate: day.isoDate,
+      entries: day.segments.map((segment, index) => ({
+        dayDate: day.isoDate,
+        segmentIndex: index,
+        mode: segment.mode,
+        startTime: segment.start,
+        endTime: segment.end,
+        requiredPauseMinutes: segment.requiredPauseMinutes,
+        label: segment.label,
+        branchId: segment.branchId,
+      })),
+    }))
+  );
+
+  for (const day of days.values()) {
+    const worked = day.segments.some((segment) => segment.mode === 'available' && segment.start && segment.end);
+    await syncShiftPlanAbsenceWithDailyDay({
+      tenantId,
+      employeeId: day.employeeId,
+      isoDate: day.isoDate,
+      label: worked ? null : day.segments.find((segment) => segment.label)?.label ?? null,
+    });
+  }
+}
+
+/** Pushes the stored plan day of the employee to the control plane. */
+export async function pushShiftPlanDayToControlPlane(
+  tenantId: string,
+  employeeId: number,
+  isoDate: string
+): Promise<void> {
+  const context = await resolveLeaveRequestControlPlaneShiftSyncContext(tenantId, employeeId);
+  const records = await listShiftPlanDays(employeeId, isoDate, isoDate);
+  await syncLeaveRequestSegmentsToControlPlane(
+    tenantId,
+    context,
+    isoDate,
+    records.map((record) => ({
+      mode: record.mode,
+      start: record.start_time,
+      end: record.end_time,
+      requiredPauseMinutes: record.required_pause_minutes,
+      label: record.label,
+      branchId: record.branch_id,
+    }))
+  );
+}
@@ -1,3 +1,4 @@
+import type { DailyDayChangeSource } from '@/lib/data/daily-day-history';
 import { getDailyDay } from '@/lib/data/daily-days';
 import { deriveCodeFromPlanLabel } from '@/lib/services/shift-plan-hours';
 import { isHolidayIsoDate } from '@/lib/services/holidays';
@@ -8,6 +9,8 @@ export type ShiftPlanDailyDaySyncInput = {
   isoDate: string;
   label: string | null;
   holidayRegion?: string | null;
+  /** Recorded in the day's change history; leave requests and sick reports write the plan through this sync too. */
+  source?: Extract<DailyDayChangeSource, 'shift_plan' | 'leave_request' | 'sick_report'>;
 };
 
 export async function syncShiftPlanAbsenceWithDailyDay({
@@ -16,6 +19,7 @@ export async function syncShiftPlanAbsenceWithDailyDay({
   isoDate,
   label,
   holidayRegion,
+  source = 'shift_plan',
 }: ShiftPlanDailyDaySyncInput): Promise<void> {
   let derivedCode = deriveCodeFromPlanLabel(label);
   const existing = await getDailyDay(employeeId, isoDate);
@@ -33,7 +37,7 @@ export async function syncShiftPlanAbsenceWithDailyDay({
 
   if (!derivedCode) {
     if (existing && isShiftPlanManaged) {
-      await deleteTimeEntry(tenantId, employeeId, isoDate);
+      await deleteTimeEntry(tenantId, employeeId, isoDate, { source, actorName: 'Schichtplan' });
     }
     return;
   }
@@ -49,12 +53,10 @@ export async function syncShiftPlanAbsenceWithDailyDay({
       dayDate: isoDate,
       code: derivedCode,
       schicht: label ?? '',
-      kommt1: '00:00',
-      geht1: '00:00',
-      kommt2: null,
-      geht2: null,
+      segments: [{ kommt: '00:00', geht: '00:00' }],
       pause: 'Keine',
       mittag: 'Nein',
+      source,
       performedBy: { type: 'admin', id: null, name: 'Schichtplan' },
     });
   } catch (error) {
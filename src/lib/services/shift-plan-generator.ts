@@ -0,0 +1,646 @@
+import { DateTime } from 'luxon';
+
+import { listBranches, type BranchScheduleRule } from '@/lib/data/branches';
+import { listEmployeeAvailability, type EmployeeAvailabilityRow } from '@/lib/data/employee-availability';
+import { listActiveEmployeeEmploymentTypes, listEmployees } from '@/lib/data/employees';
+import { listLeaveRequestsForEmployeesInDateRange } from '@/lib/data/leave-requests';
+import { listShiftPlanDaysForEmployees } from '@/lib/data/shift-plan-days';
+import { listStaffingRequirements, type StaffingRequirementRow } from '@/lib/data/staffing-requirements';
+import { listVacationLocksForDateRange } from '@/lib/data/vacation-locks';
+import { ARBZG_LIMITS, evaluateArbzgCompliance, workDaysFromPlan } from '@/lib/services/arbzg';
+import {
+  describeAvailability,
+  findAvailabilityConflicts,
+  getAvailabilityWarningForShifts,
+  resolveAvailability,
+  type PlannedAvailabilityShift,
+} from '@/lib/services/employee-availability';
+import { DEFAULT_WORKDAYS_PER_WEEK, getWorkingTimeTermsByEmployee } from '@/lib/services/employment-contracts';
+import { saveShiftPlanDaySegments } from '@/lib/services/shift-plan';
+import { branchClosedDays, resolveStaffingWindows } from '@/lib/services/staffing-requirements';
+import { calculateLegalPauseHours } from '@/lib/services/time-calculations';
+import { recomputeEmployeeOvertime } from '@/lib/services/time-entry';
+
+const WEEKDAY_SHORT = ['Mo', 'Di', 'Mi', 'Do', 'Fr', 'Sa', 'So'];
+
+/** Opening segments longer than this are split into consecutive shifts (§ 3 ArbZG: at most 10 hours a day). */
+const MAX_SHIFT_MINUTES = 10 * 60;
+/** § 9 ArbZG: at least one day off per week. */
+const MAX_DAYS_PER_WEEK = 6;
+const HOURS_TOLERANCE = 0.01;
+/** Employees further below their weekly target than this are reported. */
+const UNDER_TARGET_TOLERANCE = 0.5;
+
+export type ShiftPlanGeneratorBranch = {
+  id: number;
+  name: string;
+  schedule: BranchScheduleRule[];
+  /** Staffing requirement windows; without any the minimum staffing of the opening segments applies. */
+  requirements?: StaffingRequirementRow[];
+  /** Days the branch stays closed although the schedule is open, e.g. public holidays, with the reason. */
+  closedDays: Record<string, string>;
+};
+
+export type ShiftPlanGeneratorExistingShift = {
+  isoDate: string;
+  branchId: number | null;
+  start: string | null;
+  end: string | null;
+  requiredPauseMinutes: number;
+  /** Absences and "Kein Arbeitstag" are unavailable; they block the day without counting as work. */
+  mode: 'available' | 'unavailable';
+};
+
+export type ShiftPlanGeneratorEmployee = {
+  id: number;
+  name: string;
+  branchIds: number[];
+  weeklyHours: number;
+  workdaysPerWeek: number;
+  /** Days the employee cannot be planned, with the reason used in the explanation. */
+  blockedDays: Record<string, string>;
+  /** Entries already in the plan; their days are kept as they are and worked hours count towards the target. */
+  existingShifts: ShiftPlanGeneratorExistingShift[];
+  /** Entries on the days before and after the week; they only count for the rest period (§ 5 ArbZG). */
+  adjacentShifts?: ShiftPlanGeneratorExistingShift[];
+  /** Stated availability; slots that run against an "unavailable" or "only" entry are not proposed. */
+  availability?: EmployeeAvailabilityRow[];
+};
+
+export type ShiftPlanGeneratorInput = {
+  weekStart: string;
+  branches: ShiftPlanGeneratorBranch[];
+  employees: ShiftPlanGeneratorEmployee[];
+};
+
+export type ShiftPlanDraftShift = {
+  employeeId: number;
+  isoDate: string;
+  branchId: number;
+  start: string;
+  end: string;
+  requiredPauseMinutes: number;
+};
+
+export type ShiftPlanDraftSlot = {
+  isoDate: string;
+  branchId: number;
+  start: string;
+  end: string;
+  minStaff: number;
+  /** Employees whose existing shift already covers the slot. */
+  existingEmployeeIds: number[];
+  draftEmployeeIds: number[];
+};
+
+export type ShiftPlanDraftIssueKind = 'understaffed' | 'under_target' | 'vacation_lock';
+
+export type ShiftPlanDraftIssue = {
+  kind: ShiftPlanDraftIssueKind;
+  isoDate: string | null;
+  branchId: number | null;
+  employeeId: number | null;
+  message: string;
+};
+
+export type ShiftPlanDraftEmployee = {
+  employeeId: number;
+  name: string;
+  targetHours: number;
+  existingHours: number;
+  draftHours: number;
+};
+
+export type ShiftPlanDraft = {
+  weekStart: string;
+  weekEnd: string;
+  days: string[];
+  branches: Array<{ id: number; name: string }>;
+  shifts: ShiftPlanDraftShift[];
+  slots: ShiftPlanDraftSlot[];
+  employees: ShiftPlanDraftEmployee[];
+  issues: ShiftPlanDraftIssue[];
+};
+
+type Slot = ShiftPlanDraftSlot & {
+  startMinutes: number;
+  endMinutes: number;
+  requiredPauseMinutes: number;
+  netHours: number;
+};
+
+type EmployeeState = {
+  employee: ShiftPlanGeneratorEmployee;
+  plannedHours: number;
+  existingHours: number;
+  workDays: Set<string>;
+  takenDays: Set<string>;
+  assignedSlots: Slot[];
+};
+
+function roundTwo(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function minutesToTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function timeToMinutes(value: string | null | undefined): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec((value ?? '').trim());
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes >= 0 && minutes <= 1440 ? minutes : null;
+}
+
+/** Pause and net hours of a shift; the stored pause never falls below the statutory one. */
+export function shiftPauseAndNetHours(
+  startMinutes: number,
+  endMinutes: number,
+  requiredPauseMinutes = 0
+): { requiredPauseMinutes: number; netHours: number } {
+  const grossMinutes = endMinutes > startMinutes ? endMinutes - startMinutes : endMinutes + 1440 - startMinutes;
+  const pause = Math.max(Math.round(calculateLegalPauseHours(grossMinutes / 60) * 60), requiredPauseMinutes);
+  return { requiredPauseMinutes: pause, netHours: roundTwo(Math.max(grossMinutes - pause, 0) / 60) };
+}
+
+/** Splits an opening segment into equally long shifts of at most ten hours, on half-hour boundaries. */
+export function splitOpeningSegment(startMinutes: number, endMinutes: number): Array<[number, number]> {
+  const duration = endMinutes - startMinutes;
+  const parts = Math.max(1, Math.ceil(duration / MAX_SHIFT_MINUTES));
+  const result: Array<[number, number]> = [];
+  let from = startMinutes;
+  for (let index = 1; index <= parts; index += 1) {
+    const to = index === parts ? endMinutes : startMinutes + Math.round((duration * index) / parts / 30) * 30;
+    result.push([from, to]);
+    from = to;
+  }
+  return result;
+}
+
+function formatDay(isoDate: string, dayIndex: number): string {
+  const [, month, day] = isoDate.split('-');
+  return `${WEEKDAY_SHORT[dayIndex] ?? ''} ${day}.${month}.`;
+}
+
+function formatHours(value: number): string {
+  return value.toLocaleString('de-DE', { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+}
+
+/**
+ * Proposes shifts for the week: first the minimum staffing of every opening segment, scarce slots first and
+ * the employee furthest from the weekly target first, then further shifts for employees still below their
+ * target. Days with existing entries are never touched and no shift shortens the rest period to the shifts around
+ * it. Everything that could not be met ends up in `issues`.
+ */
+export function generateShiftPlanDraft(input: ShiftPlanGeneratorInput): ShiftPlanDraft {
+  const start = DateTime.fromISO(input.weekStart);
+  const days = Array.from({ length: 7 }, (_, index) => start.plus({ days: index }).toISODate()!);
+  const branchNames = new Map(input.branches.map((branch) => [branch.id, branch.name]));
+
+  const states = new Map<number, EmployeeState>();
+  for (const employee of input.employees) {
+    const state: EmployeeState = {
+      employee,
+      plannedHours: 0,
+      existingHours: 0,
+      workDays: new Set(),
+      takenDays: new Set(),
+      assignedSlots: [],
+    };
+    for (const shift of employee.existingShifts) {
+      state.takenDays.add(shift.isoDate);
+      const from = timeToMinutes(shift.start);
+      const to = timeToMinutes(shift.end);
+      if (shift.mode !== 'available' || from === null || to === null) continue;
+      state.existingHours += shiftPauseAndNetHours(from, to, shift.requiredPauseMinutes).netHours;
+      state.workDays.add(shift.isoDate);
+    }
+    state.plannedHours = state.existingHours;
+    states.set(employee.id, state);
+  }
+
+  const slots: Slot[] = [];
+  days.forEach((isoDate, dayIndex) => {
+    for (const branch of input.branches) {
+      if (branch.closedDays[isoDate]) continue;
+      const windows = resolveStaffingWindows(branch.schedule, branch.requirements ?? [], isoDate, dayIndex);
+      for (const window of windows) {
+        if (window.minStaff <= 0) continue;
+        for (const [from, to] of splitOpeningSegment(window.startsAtMinutes, window.endsAtMinutes)) {
+          const existingEmployeeIds = input.employees
+            .filter((employee) =>
+              employee.existingShifts.some((shift) => {
+                const shiftStart = timeToMinutes(shift.start);
+                const shiftEnd = timeToMinutes(shift.end);
+                return (
+                  shift.mode === 'available' &&
+                  shift.isoDate === isoDate &&
+                  shift.branchId === branch.id &&
+                  shiftStart !== null &&
+                  shiftEnd !== null &&
+                  shiftStart <= from &&
+                  shiftEnd >= to
+                );
+              })
+            )
+            .map((employee) => employee.id);
+          slots.push({
+            isoDate,
+            branchId: branch.id,
+            start: minutesToTime(from),
+            end: minutesToTime(to),
+            startMinutes: from,
+            endMinutes: to,
+            minStaff: window.minStaff,
+            existingEmployeeIds,
+            draftEmployeeIds: [],
+            ...shiftPauseAndNetHours(from, to),
+          });
+        }
+      }
+    }
+  });
+
+  const previousDay = start.minus({ days: 1 }).toISODate()!;
+  const nextDay = start.plus({ days: 7 }).toISODate()!;
+  const neighbours = new Map<string, [string, string]>(
+    days.map((isoDate, index) => [isoDate, [days[index - 1] ?? previousDay, days[index + 1] ?? nextDay]])
+  );
+
+  // The slot may not shorten the rest before its day or after it to the next shift.
+  const breaksRestPeriod = (state: EmployeeState, slot: Slot): boolean => {
+    const [before, after] = neighbours.get(slot.isoDate)!;
+    const planned = [
+      ...state.employee.existingShifts,
+      ...(state.employee.adjacentShifts ?? []),
+      ...[...state.assignedSlots, slot].map((entry) => ({
+        isoDate: entry.isoDate,
+        start: entry.start,
+        end: entry.end,
+        requiredPauseMinutes: entry.requiredPauseMinutes,
+        mode: 'available' as const,
+      })),
+    ].filter((shift) => shift.isoDate >= before && shift.isoDate <= after);
+    const workDays = workDaysFromPlan(
+      planned.map((shift) => ({
+        day_date: shift.isoDate,
+        mode: shift.mode,
+        start_time: shift.start,
+        end_time: shift.end,
+        required_pause_minutes: shift.requiredPauseMinutes,
+        label: null,
+      }))
+    );
+    return evaluateArbzgCompliance(workDays, { start: slot.isoDate, end: after }).some(
+      (violation) => violation.rule === 'rest_period'
+    );
+  };
+
+  const blockingReason = (state: EmployeeState, slot: Slot): string | null => {
+    const { employee } = state;
+    if (!employee.branchIds.includes(slot.branchId)) return 'nicht zugeordnet';
+    const blocked = employee.blockedDays[slot.isoDate];
+    if (blocked) return blocked;
+    if (state.takenDays.has(slot.isoDate)) return 'bereits eingeplant';
+    const [conflict] = findAvailabilityConflicts(
+      resolveAvailability(employee.availability ?? [], slot.isoDate, days.indexOf(slot.isoDate)),
+      [{ startMinutes: slot.startMinutes, endMinutes: slot.endMinutes }]
+    );
+    if (conflict) return describeAvailability(conflict);
+    const maxDays = Math.min(MAX_DAYS_PER_WEEK, Math.ceil(employee.workdaysPerWeek || DEFAULT_WORKDAYS_PER_WEEK));
+    if (state.workDays.size >= maxDays) return 'maximale Arbeitstage erreicht';
+    if (state.plannedHours + slot.netHours > employee.weeklyHours + HOURS_TOLERANCE) return 'Wochensoll erreicht';
+    if (breaksRestPeriod(state, slot)) return `Ruhezeit unter ${ARBZG_LIMITS.minRestHours} Stunden`;
+    return null;
+  };
+  const candidatesFor = (slot: Slot) =>
+    Array.from(states.values()).filter((state) => blockingReason(state, slot) === null);
+  const byRemainingHours = (a: EmployeeState, b: EmployeeState) =>
+    b.employee.weeklyHours - b.plannedHours - (a.employee.weeklyHours - a.plannedHours) ||
+    a.workDays.size - b.workDays.size ||
+    a.employee.id - b.employee.id;
+  const assign = (slot: Slot, state: EmployeeState) => {
+    slot.draftEmployeeIds.push(state.employee.id);
+    state.assignedSlots.push(slot);
+    state.plannedHours = roundTwo(state.plannedHours + slot.netHours);
+    state.workDays.add(slot.isoDate);
+    state.takenDays.add(slot.isoDate);
+  };
+  const openNeed = (slot: Slot) => slot.minStaff - slot.existingEmployeeIds.length - slot.draftEmployeeIds.length;
+
+  for (;;) {
+    let next: { slot: Slot; candidates: EmployeeState[] } | null = null;
+    for (const slot of slots) {
+      const need = openNeed(slot);
+      if (need <= 0) continue;
+      const candidates = candidatesFor(slot);
+      if (!candidates.length) continue;
+      if (!next || candidates.length - need < next.candidates.length - openNeed(next.slot)) {
+        next = { slot, candidates };
+      }
+    }
+    if (!next) break;
+    assign(next.slot, next.candidates.sort(byRemainingHours)[0]!);
+  }
+
+  for (const state of Array.from(states.values()).sort(byRemainingHours)) {
+    for (;;) {
+      const options = slots
+        .filter((slot) => blockingReason(state, slot) === null)
+        .sort(
+          (a, b) =>
+            (a.existingEmployeeIds.length + a.draftEmployeeIds.length) / a.minStaff -
+              (b.existingEmployeeIds.length + b.draftEmployeeIds.length) / b.minStaff ||
+            b.netHours - a.netHours ||
+            a.isoDate.localeCompare(b.isoDate)
+        );
+      if (!options.length) break;
+      assign(options[0]!, state);
+    }
+  }
+
+  const issues: ShiftPlanDraftIssue[] = [];
+  for (const slot of slots) {
+    const need = openNeed(slot);
+    if (need <= 0) continue;
+    const covered = slot.minStaff - need;
+    const branchName = branchNames.get(slot.branchId) ?? `Filiale ${slot.branchId}`;
+    const reasons = Array.from(states.values())
+      .filter((state) => state.employee.branchIds.includes(slot.branchId))
+      .filter((state) => !slot.draftEmployeeIds.includes(state.employee.id))
+      .map((state) => `${state.employee.name}: ${blockingReason(state, slot) ?? 'verfügbar'}`);
+    issues.push({
+      kind: 'understaffed',
+      isoDate: slot.isoDate,
+      branchId: slot.branchId,
+      employeeId: null,
+      message:
+        `${formatDay(slot.isoDate, days.indexOf(slot.isoDate))} ${branchName} ${slot.start}–${slot.end}: ` +
+        `${covered} von ${slot.minStaff} besetzt. ` +
+        (reasons.length ? `${reasons.join('; ')}.` : 'Der Filiale ist niemand zugeordnet.'),
+    });
+  }
+
+  for (const state of states.values()) {
+    const missing = state.employee.weeklyHours - state.plannedHours;
+    if (missing <= UNDER_TARGET_TOLERANCE) continue;
+    issues.push({
+      kind: 'under_target',
+      isoDate: null,
+      branchId: null,
+      employeeId: state.employee.id,
+      message:
+        `${state.employee.name} kommt auf ${formatHours(state.plannedHours)} von ` +
+        `${formatHours(state.employee.weeklyHours)} Wochenstunden.` +
+        (state.employee.branchIds.length ? '' : ' Es ist keine Filiale zugeordnet.'),
+    });
+  }
+
+  const shifts: ShiftPlanDraftShift[] = slots
+    .flatMap((slot) =>
+      slot.draftEmployeeIds.map((employeeId) => ({
+        employeeId,
+        isoDate: slot.isoDate,
+        branchId: slot.branchId,
+        start: slot.start,
+        end: slot.end,
+        requiredPauseMinutes: slot.requiredPauseMinutes,
+      }))
+    )
+    .sort(
+      (a, b) => a.isoDate.localeCompare(b.isoDate) || a.start.localeCompare(b.start) || a.employeeId - b.employeeId
+    );
+
+  return {
+    weekStart: days[0]!,
+    weekEnd: days[6]!,
+    days,
+    branches: input.branches.map((branch) => ({ id: branch.id, name: branch.name })),
+    shifts,
+    slots: slots.map((slot) => ({
+      isoDate: slot.isoDate,
+      branchId: slot.branchId,
+      start: slot.start,
+      end: slot.end,
+      minStaff: slot.minStaff,
+      existingEmployeeIds: slot.existingEmployeeIds,
+      draftEmployeeIds: slot.draftEmployeeIds,
+    })),
+    employees: Array.from(states.values()).map((state) => ({
+      employeeId: state.employee.id,
+      name: state.employee.name,
+      targetHours: state.employee.weeklyHours,
+      existingHours: roundTwo(state.existingHours),
+      draftHours: roundTwo(state.plannedHours - state.existingHours),
+    })),
+    issues,
+  };
+}
+
+/** Monday of the week that contains the date; today when the value is missing or invalid. */
+export function resolveGeneratorWeekStart(raw?: string | null): string {
+  const parsed = raw ? DateTime.fromISO(raw) : DateTime.invalid('missing');
+  const base = parsed.isValid ? parsed : DateTime.now();
+  return base.startOf('week').toISODate()!;
+}
+
+/**
+ * Loads branches, calendar employees, contracts, availability, the existing plan, leave and vacation locks of the
+ * week and generates a draft. Approved leave blocks the day; a pending vacation request blocks it too unless a vacation
+ * lock of one of the employee's branches covers the day, which is reported instead.
+ */
+export async function buildShiftPlanDraft(tenantId: string, weekStartRaw?: string | null): Promise<ShiftPlanDraft> {
+  const weekStart = resolveGeneratorWeekStart(weekStartRaw);
+  const weekEnd = DateTime.fromISO(weekStart).plus({ days: 6 }).toISODate()!;
+  const days = Array.from({ length: 7 }, (_, index) => DateTime.fromISO(weekStart).plus({ days: index }).toISODate()!);
+
+  const [branches, allEmployees, employmentRows, locks, requirements] = await Promise.all([
+    listBranches(tenantId),
+    listEmployees(tenantId),
+    listActiveEmployeeEmploymentTypes(tenantId),
+    listVacationLocksForDateRange(tenantId, weekStart, weekEnd),
+    listStaffingRequirements(tenantId, { from: weekStart, to: weekEnd }),
+  ]);
+  const employees = allEmployees.filter((employee) => employee.showInCalendar);
+  const employeeIds = employees.map((employee) => employee.id);
+  const weeklyHoursById = new Map(employmentRows.map((row) => [row.id, row.weekly_hours]));
+
+  const [terms, planRecords, leaveRequests, availability] = await Promise.all([
+    getWorkingTimeTermsByEmployee(
+      tenantId,
+      employees.map((employee) => ({ id: employee.id, weeklyHours: weeklyHoursById.get(employee.id) ?? 0 })),
+      weekStart
+    ),
+    listShiftPlanDaysForEmployees(
+      employeeIds,
+      DateTime.fromISO(weekStart).minus({ days: 1 }).toISODate()!,
+      DateTime.fromISO(weekEnd).plus({ days: 1 }).toISODate()!
+    ),
+    listLeaveRequestsForEmployeesInDateRange(tenantId, employeeIds, weekStart, weekEnd, 5000),
+    listEmployeeAvailability(tenantId, employeeIds, { from: weekStart, to: weekEnd }),
+  ]);
+  const activeLocks = locks.filter((lock) => lock.is_active === 1);
+
+  const issues: ShiftPlanDraftIssue[] = [];
+  const generatorEmployees: ShiftPlanGeneratorEmployee[] = employees.map((employee) => {
+    const branchIds = employee.branches.map((branch) => branch.id);
+    const blockedDays: Record<string, string> = {};
+    for (const request of leaveRequests) {
+      if (request.employee_id !== employee.id || request.cancelled_at || request.status === 'rejected') continue;
+      const label = request.type === 'overtime' ? 'Überstundenabbau' : 'Urlaub';
+      days.forEach((isoDate, dayIndex) => {
+        if (isoDate < request.start_date || isoDate > request.end_date) return;
+        if (request.status === 'approved') {
+          blockedDays[isoDate] = label;
+          return;
+        }
+        const lock = activeLocks.find(
+          (entry) =>
+            entry.start_date <= isoDate &&
+            entry.end_date >= isoDate &&
+            (entry.branch_id === null || branchIds.includes(entry.branch_id))
+        );
+        if (!lock) {
+          blockedDays[isoDate] ??= `${label} beantragt`;
+          return;
+        }
+        issues.push({
+          kind: 'vacation_lock',
+          isoDate,
+          branchId: lock.branch_id,
+          employeeId: employee.id,
+          message:
+            `${formatDay(isoDate, dayIndex)}: Der offene Antrag (${label}) von ${employee.displayName} liegt in ` +
+            `einer Urlaubssperre${lock.branch_name ? ` (${lock.branch_name})` : ''} und wurde nicht berücksichtigt.`,
+        });
+      });
+    }
+    const employeeTerms = terms.get(employee.id);
+    const toExistingShift = (record: (typeof planRecords)[number]): ShiftPlanGeneratorExistingShift => ({
+      isoDate: record.day_date,
+      branchId: record.branch_id,
+      start: record.start_time,
+      end: record.end_time,
+      requiredPauseMinutes: record.required_pause_minutes,
+      mode: record.mode,
+    });
+    const employeeRecords = planRecords.filter((record) => record.employee_id === employee.id);
+    return {
+      id: employee.id,
+      name: employee.displayName || employee.username,
+      branchIds,
+      weeklyHours: employeeTerms?.weeklyHours ?? 0,
+      workdaysPerWeek: employeeTerms?.workdaysPerWeek ?? DEFAULT_WORKDAYS_PER_WEEK,
+      blockedDays,
+      existingShifts: employeeRecords
+        .filter((record) => record.day_date >= weekStart && record.day_date <= weekEnd)
+        .map(toExistingShift),
+      adjacentShifts: employeeRecords
+        .filter((record) => record.day_date < weekStart || record.day_date > weekEnd)
+        .map(toExistingShift),
+      availability: availability.filter((row) => row.employee_id === employee.id),
+    };
+  });
+
+  const draft = generateShiftPlanDraft({
+    weekStart,
+    employees: generatorEmployees,
+    branches: branches.map((branch) => ({
+      id: branch.id,
+      name: branch.name,
+      schedule: branch.schedule,
+      requirements: requirements.filter((row) => row.branch_id === branch.id),
+      closedDays: branchClosedDays(branch, days),
+    })),
+  });
+  return { ...draft, issues: [...draft.issues, ...issues] };
+}
+
+export type AcceptShiftPlanDraftResult = {
+  saved: number;
+  /** Shifts on days that got an entry after the draft was generated; they are left alone. */
+  skipped: number;
+  /**
+   * Saved shifts that run against the stated availability. The generator leaves those out, so this only happens
+   * after the admin edited the draft or the availability changed since it was generated.
+   */
+  warning?: string;
+};
+
+/**
+ * Writes the reviewed shifts into the plan. Days that got an entry in the meantime are skipped, so accepting
+ * never overwrites a manual change. Overtime is recomputed from the start of the week.
+ */
+export async function acceptShiftPlanDraft(
+  tenantId: string,
+  weekStart: string,
+  shifts: ShiftPlanDraftShift[]
+): Promise<AcceptShiftPlanDraftResult> {
+  const weekEnd = DateTime.fromISO(weekStart).plus({ days: 6 }).toISODate()!;
+  const employees = await listEmployees(tenantId);
+  const branchesByEmployee = new Map(
+    employees.map((employee) => [employee.id, new Set(employee.branches.map((branch) => branch.id))])
+  );
+
+  const byEmployeeDay = new Map<string, ShiftPlanDraftShift[]>();
+  for (const shift of shifts) {
+    if (shift.isoDate < weekStart || shift.isoDate > weekEnd) {
+      throw new Error('Die Schicht liegt nicht in der gewählten Woche.');
+    }
+    if (!branchesByEmployee.get(shift.employeeId)?.has(shift.branchId)) {
+      throw new Error('Mitarbeiter ist der Filiale nicht zugeordnet.');
+    }
+    const from = timeToMinutes(shift.start);
+    const to = timeToMinutes(shift.end);
+    // A shift ending at or before its start runs past midnight.
+    if (from === null || to === null || to === from) {
+      throw new Error('Bitte gültige Start- und Endzeiten angeben.');
+    }
+    const key = `${shift.employeeId}:${shift.isoDate}`;
+    byEmployeeDay.set(key, [...(byEmployeeDay.get(key) ?? []), shift]);
+  }
+
+  const employeeIds = Array.from(new Set(shifts.map((shift) => shift.employeeId)));
+  const existing = await listShiftPlanDaysForEmployees(employeeIds, weekStart, weekEnd);
+  const takenDays = new Set(existing.map((record) => `${record.employee_id}:${record.day_date}`));
+
+  const result: AcceptShiftPlanDraftResult = { saved: 0, skipped: 0 };
+  const changed = new Set<number>();
+  const plannedShifts: PlannedAvailabilityShift[] = [];
+  for (const [key, dayShifts] of byEmployeeDay) {
+    if (takenDays.has(key)) {
+      result.skipped += dayShifts.length;
+      continue;
+    }
+    const [employeeId, isoDate] = [dayShifts[0]!.employeeId, dayShifts[0]!.isoDate];
+    const segments = dayShifts
+      .sort((a, b) => a.start.localeCompare(b.start))
+      .map((shift, index) => ({
+        segmentIndex: index,
+        mode: 'available' as const,
+        start: shift.start,
+        end: shift.end,
+        requiredPauseMinutes: shiftPauseAndNetHours(
+          timeToMinutes(shift.start)!,
+          timeToMinutes(shift.end)!,
+          shift.requiredPauseMinutes
+        ).requiredPauseMinutes,
+        label: null,
+        branchId: shift.branchId,
+      }));
+    await saveShiftPlanDaySegments(tenantId, employeeId, { isoDate, segments });
+    result.saved += dayShifts.length;
+    changed.add(employeeId);
+    segments.forEach((segment) => plannedShifts.push({ employeeId, isoDate, ...segment }));
+  }
+
+  for (const employeeId of changed) {
+    await recomputeEmployeeOvertime(tenantId, employeeId, weekStart);
+  }
+  const warning = await getAvailabilityWarningForShifts(tenantId, plannedShifts);
+  if (warning) {
+    result.warning = warning;
+  }
+  return result;
+}
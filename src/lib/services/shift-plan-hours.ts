@@ -73,10 +73,11 @@ export function buildPlanHours(start: string | null, end: string | null, require
     };
   }
 
-  const raw = Math.max(
-    0,
-    (endTime.hour + endTime.minute / 60) - (startTime.hour + startTime.minute / 60)
-  );
+  // An end before the start is a night shift ending on the following day.
+  let raw = (endTime.hour + endTime.minute / 60) - (startTime.hour + startTime.minute / 60);
+  if (raw < 0) {
+    raw += 24;
+  }
 
   if (raw <= 0.01) {
     return {
@@ -20,7 +20,7 @@ import {
   getWeeklyFallbackDayFromRow,
   getWeeklyFallbackPlanHoursForDay as resolveWeeklyFallbackPlanHours,
 } from '@/lib/services/shift-plan-hours';
-import { syncShiftPlanAbsenceWithDailyDay } from '@/lib/services/shift-plan-daily-sync';
+import { syncShiftPlanAbsenceWithDailyDay, type ShiftPlanDailyDaySyncInput } from '@/lib/services/shift-plan-daily-sync';
 import { listBranchesForEmployee, type BranchSummary } from '@/lib/data/branches';
 import { normalizeHolidayRegion } from '@/lib/services/holidays';
 export {
@@ -155,6 +155,11 @@ function ensureShiftPlanDateAllowed(isoDate: string, exitDate: string | null): v
   }
 }
 
+/** Throws when the day lies after the exit date of the employee. */
+export async function assertShiftPlanDateAllowed(tenantId: string, employeeId: number, isoDate: string): Promise<void> {
+  ensureShiftPlanDateAllowed(isoDate, await getEmployeeExitDateByTenant(tenantId, employeeId));
+}
+
 function daysOfMonth(monthKey: string): string[] {
   const year = Number.parseInt(monthKey.slice(0, 4), 10);
   const month = Number.parseInt(monthKey.slice(5, 7), 10);
@@ -251,7 +256,8 @@ export async function saveShiftPlanDaySegments(
   input: {
     isoDate: string;
     segments: ShiftPlanDaySegmentInput[];
-  }
+  },
+  options: { source?: ShiftPlanDailyDaySyncInput['source'] } = {}
 ): Promise<void> {
   const isoDate = (input.isoDate ?? '').trim();
   if (!/^\d{4}-\d{2}-\d{2}$/.test(isoDate)) {
@@ -416,7 +422,14 @@ export async function saveShiftPlanDaySegments(
 
   if (!normalizedSegments.length) {
     await deleteShiftPlanDay(employeeId, isoDate);
-    await syncShiftPlanAbsenceWithDailyDay({ tenantId, employeeId, isoDate, label: null, holidayRegion });
+    await syncShiftPlanAbsenceWithDailyDay({
+      tenantId,
+      employeeId,
+      isoDate,
+      label: null,
+      holidayRegion,
+      source: options.source,
+    });
     return;
   }
 
@@ -431,6 +444,7 @@ export async function saveShiftPlanDaySegments(
     isoDate,
     label: hasAvailableTimeSegment ? null : absenceLabel,
     holidayRegion,
+    source: options.source,
   });
 }
 
@@ -450,22 +464,28 @@ export async function saveShiftPlanDay(
     branchId?: number | null;
     segmentIndex?: number | null;
     mode?: 'available' | 'unavailable' | null;
-  }
+  },
+  options: { source?: ShiftPlanDailyDaySyncInput['source'] } = {}
 ): Promise<void> {
-  await saveShiftPlanDaySegments(tenantId, employeeId, {
-    isoDate: input.isoDate,
-    segments: [
-      {
-        segmentIndex: input.segmentIndex ?? 0,
-        mode: input.mode ?? 'available',
-        start: input.start ?? null,
-        end: input.end ?? null,
-        requiredPauseMinutes: input.requiredPauseMinutes ?? 0,
-        label: input.label ?? null,
-        branchId: input.branchId ?? null,
-      },
-    ],
-  });
+  await saveShiftPlanDaySegments(
+    tenantId,
+    employeeId,
+    {
+      isoDate: input.isoDate,
+      segments: [
+        {
+          segmentIndex: input.segmentIndex ?? 0,
+          mode: input.mode ?? 'available',
+          start: input.start ?? null,
+          end: input.end ?? null,
+          requiredPauseMinutes: input.requiredPauseMinutes ?? 0,
+          label: input.label ?? null,
+          branchId: input.branchId ?? null,
+        },
+      ],
+    },
+    options
+  );
 }
 
 const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
@@ -0,0 +1,679 @@
+import { revalidatePath } from 'next/cache';
+import { DateTime } from 'luxon';
+
+import { listBranches, listBranchesForEmployee, listBranchesForEmployees } from '@/lib/data/branches';
+import {
+  getEmployeeById,
+  getEmployeeDisplayNamesByIds,
+  getEmployeeOvertimeSettings,
+  listBranchAdminEmails,
+} from '@/lib/data/employees';
+import { listShiftPlanDays, type ShiftPlanDayRecord } from '@/lib/data/shift-plan-days';
+import {
+  createShiftSwapRequest,
+  deleteShiftSwapRequest,
+  findActiveShiftSwapRequest,
+  getShiftSwapAutoApprove,
+  getShiftSwapRequestById,
+  listOpenShiftSwapRequests,
+  listShiftSwapRequests,
+  listShiftSwapRequestsForEmployee,
+  markShiftSwapRequestAccepted,
+  reopenShiftSwapRequest,
+  updateShiftSwapRequestStatus,
+  type ShiftSwapKind,
+  type ShiftSwapRequestRow,
+  type ShiftSwapRequestStatus,
+  type ShiftSwapShiftRow,
+} from '@/lib/data/shift-swap-requests';
+import { evaluateArbzgCompliance, workDaysFromPlan } from '@/lib/services/arbzg';
+import { sendTextMail } from '@/lib/services/email';
+import { getTenantMailDisplayName } from '@/lib/services/leave-requests';
+import { deriveCodeFromPlanLabel } from '@/lib/services/shift-plan';
+import {
+  hasPlannedAbsence,
+  isSamePlannedShift,
+  overlapsPlannedShift,
+  pushShiftPlanDayToControlPlane,
+  rewriteShiftPlanDays,
+} from '@/lib/services/shift-plan-assignment';
+import { shiftPauseAndNetHours } from '@/lib/services/shift-plan-generator';
+import { recomputeEmployeeOvertime } from '@/lib/services/time-entry';
+
+const STATUS_LABEL: Record<ShiftSwapRequestStatus, string> = {
+  open: 'Angeboten',
+  pending: 'Wartet auf Freigabe',
+  approved: 'Genehmigt',
+  rejected: 'Abgelehnt',
+};
+
+const KIND_LABEL: Record<ShiftSwapKind, string> = {
+  swap: 'Tausch',
+  giveaway: 'Abgabe',
+};
+
+/** How far ahead employees can offer their own shifts. */
+const OFFER_WINDOW_DAYS = 56;
+const HOURS_TOLERANCE = 0.005;
+
+export type ShiftSwapPlanRow = Pick<
+  ShiftPlanDayRecord,
+  'day_date' | 'segment_index' | 'mode' | 'start_time' | 'end_time' | 'required_pause_minutes' | 'label'
+>;
+
+/** One side of a swap: who receives or gives a shift, with the plan around the affected days. */
+export type ShiftSwapParty = {
+  name: string;
+  branchIds: number[];
+  overtimeBalance: number;
+  /** Upper limit of the overtime account; 0 means no limit is configured. */
+  maxOvertimeHours: number;
+  plan: ShiftSwapPlanRow[];
+};
+
+export type ShiftSwapShiftView = {
+  isoDate: string;
+  segmentIndex: number;
+  start: string;
+  end: string;
+  branchId: number | null;
+  branchName: string | null;
+  netHours: number;
+};
+
+export type ShiftSwapRequestView = {
+  id: number;
+  kind: ShiftSwapKind;
+  kindLabel: string;
+  status: ShiftSwapRequestStatus;
+  statusLabel: string;
+  employeeId: number;
+  employeeName: string | null;
+  acceptedById: number | null;
+  acceptedByName: string | null;
+  offered: ShiftSwapShiftView;
+  returned: ShiftSwapShiftView | null;
+  note: string | null;
+  ruleViolations: string[];
+  adminNote: string | null;
+  decidedAt: string | null;
+  createdAt: string;
+};
+
+export type ShiftSwapOverview = {
+  /** Own upcoming shifts that are not offered yet. */
+  offerableShifts: ShiftSwapShiftView[];
+  /** Open offers of colleagues sharing a branch with the employee. */
+  openOffers: ShiftSwapRequestView[];
+  /** Requests the employee offered or accepted. */
+  ownRequests: ShiftSwapRequestView[];
+};
+
+export type DecideShiftSwapRequestInput = {
+  requestId: number;
+  status: 'approved' | 'rejected';
+  adminId: number | null;
+  adminNote?: string | null;
+};
+
+function timeToMinutes(value: string | null | undefined): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec((value ?? '').trim());
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+function todayIso(): string {
+  return DateTime.now().setZone('Europe/Berlin').toISODate() ?? '';
+}
+
+function shiftDay(isoDate: string, days: number): string {
+  return DateTime.fromISO(isoDate).plus({ days }).toISODate() ?? isoDate;
+}
+
+function formatHours(value: number): string {
+  return value.toFixed(2).replace('.', ',');
+}
+
+function formatDate(isoDate: string): string {
+  return DateTime.fromISO(isoDate).setLocale('de').toFormat('ccc dd.MM.yyyy');
+}
+
+function shiftNetHours(shift: ShiftSwapShiftRow): number {
+  const from = timeToMinutes(shift.start_time);
+  const to = timeToMinutes(shift.end_time);
+  if (from === null || to === null) return 0;
+  return shiftPauseAndNetHours(from, to, shift.required_pause_minutes).netHours;
+}
+
+/** Worked shift segments only; absences such as "Urlaub" and unavailable rows cannot be offered. */
+function toShiftRow(record: ShiftPlanDayRecord): ShiftSwapShiftRow | null {
+  if (record.mode !== 'available' || !record.start_time || !record.end_time) return null;
+  if (deriveCodeFromPlanLabel(record.label)) return null;
+  return {
+    day_date: record.day_date,
+    segment_index: record.segment_index,
+    start_time: record.start_time,
+    end_time: record.end_time,
+    required_pause_minutes: record.required_pause_minutes,
+    branch_id: record.branch_id,
+  };
+}
+
+function planAfterSwap(
+  plan: ShiftSwapPlanRow[],
+  given: ShiftSwapShiftRow | null,
+  received: ShiftSwapShiftRow
+): ShiftSwapPlanRow[] {
+  const rows = plan.filter((row) => !given || !isSamePlannedShift(row, given));
+  rows.push({
+    day_date: received.day_date,
+    segment_index: rows.filter((row) => row.day_date === received.day_date).length,
+    mode: 'available',
+    start_time: received.start_time,
+    end_time: received.end_time,
+    required_pause_minutes: received.required_pause_minutes,
+    label: null,
+  });
+  return rows;
+}
+
+/**
+ * Rules a swap has to pass for automatic approval: the shifts stay at the same branch and the receiving
+ * employee is assigned to it, nobody exceeds the upper limit of the overtime account, the day of the received
+ * shift stays within 10 h of work and the 11 h rest period around it holds. Returns one message per violation.
+ */
+export function evaluateShiftSwapRules(input: {
+  offered: ShiftSwapShiftRow;
+  returned: ShiftSwapShiftRow | null;
+  offerer: ShiftSwapParty;
+  acceptor: ShiftSwapParty;
+}): string[] {
+  const { offered, returned, offerer, acceptor } = input;
+  const violations: string[] = [];
+
+  if (offered.branch_id !== null && !acceptor.branchIds.includes(offered.branch_id)) {
+    violations.push(`${acceptor.name} ist dem Standort der Schicht nicht zugeordnet.`);
+  }
+  if (returned && returned.branch_id !== offered.branch_id) {
+    violations.push('Die getauschten Schichten liegen an unterschiedlichen Standorten.');
+  }
+
+  const sides = [
+    { party: offerer, given: offered, received: returned },
+    { party: acceptor, given: returned, received: offered },
+  ];
+  for (const { party, given, received } of sides) {
+    if (!received) continue;
+    const delta = shiftNetHours(received) - (given ? shiftNetHours(given) : 0);
+    if (
+      party.maxOvertimeHours > 0 &&
+      delta > HOURS_TOLERANCE &&
+      party.overtimeBalance + delta > party.maxOvertimeHours + HOURS_TOLERANCE
+    ) {
+      violations.push(
+        `${party.name} würde die Überstundengrenze von ${formatHours(party.maxOvertimeHours)} Std. überschreiten ` +
+          `(Saldo ${formatHours(party.overtimeBalance)} Std., +${formatHours(delta)} Std.).`
+      );
+    }
+
+    const arbzgViolations = evaluateArbzgCompliance(workDaysFromPlan(planAfterSwap(party.plan, given, received)), {
+      start: received.day_date,
+      end: shiftDay(received.day_date, 1),
+    }).filter(
+      (violation) =>
+        violation.rule === 'rest_period' || (violation.rule === 'daily_max' && violation.dayDate === received.day_date)
+    );
+    for (const violation of arbzgViolations) {
+      violations.push(`${party.name}: ${violation.message}`);
+    }
+  }
+
+  return violations;
+}
+
+function toShiftView(shift: ShiftSwapShiftRow, branchNames: Map<number, string>): ShiftSwapShiftView {
+  return {
+    isoDate: shift.day_date,
+    segmentIndex: shift.segment_index,
+    start: shift.start_time,
+    end: shift.end_time,
+    branchId: shift.branch_id,
+    branchName: shift.branch_id !== null ? branchNames.get(shift.branch_id) ?? null : null,
+    netHours: shiftNetHours(shift),
+  };
+}
+
+function mapRowToView(
+  row: ShiftSwapRequestRow,
+  names: Map<number, string>,
+  branchNames: Map<number, string>
+): ShiftSwapRequestView {
+  return {
+    id: row.id,
+    kind: row.kind,
+    kindLabel: KIND_LABEL[row.kind],
+    status: row.status,
+    statusLabel: STATUS_LABEL[row.status],
+    employeeId: row.employee_id,
+    employeeName: names.get(row.employee_id) ?? null,
+    acceptedById: row.accepted_by,
+    acceptedByName: row.accepted_by !== null ? names.get(row.accepted_by) ?? null : null,
+    offered: toShiftView(row.offered, branchNames),
+    returned: row.returned ? toShiftView(row.returned, branchNames) : null,
+    note: row.note,
+    ruleViolations: row.rule_violations,
+    adminNote: row.admin_note,
+    decidedAt: row.decided_at,
+    createdAt: row.created_at,
+  };
+}
+
+async function loadViewContext(
+  tenantId: string,
+  rows: ShiftSwapRequestRow[]
+): Promise<{ names: Map<number, string>; branchNames: Map<number, string> }> {
+  const employeeIds = new Set<number>();
+  for (const row of rows) {
+    employeeIds.add(row.employee_id);
+    if (row.accepted_by !== null) employeeIds.add(row.accepted_by);
+  }
+  const [names, branches] = await Promise.all([
+    getEmployeeDisplayNamesByIds(tenantId, Array.from(employeeIds)),
+    listBranches(tenantId),
+  ]);
+  return { names, branchNames: new Map(branches.map((branch) => [branch.id, branch.name])) };
+}
+
+function formatShiftForMail(shift: ShiftSwapShiftView): string {
+  const branch = shift.branchName ? ` (${shift.branchName})` : '';
+  return `${formatDate(shift.isoDate)} ${shift.start}–${shift.end}${branch}`;
+}
+
+function describeSwapForMail(view: ShiftSwapRequestView): string[] {
+  const lines = [`${view.employeeName ?? 'Mitarbeiter'} gibt ab: ${formatShiftForMail(view.offered)}`];
+  if (view.returned) {
+    lines.push(`${view.acceptedByName ?? 'Mitarbeiter'} gibt zurück: ${formatShiftForMail(view.returned)}`);
+  } else {
+    lines.push(`Übernimmt: ${view.acceptedByName ?? 'Mitarbeiter'}`);
+  }
+  return lines;
+}
+
+/** Goes to the admins of the branches of both employees, or to ADMIN_EMAIL when no branch has one. */
+async function notifyAdminAboutShiftSwap(tenantId: string, view: ShiftSwapRequestView): Promise<void> {
+  const employeeIds = [view.employeeId, ...(view.acceptedById !== null ? [view.acceptedById] : [])];
+  const recipients = Array.from(
+    new Set((await Promise.all(employeeIds.map((id) => listBranchAdminEmails(tenantId, id)))).flat())
+  );
+  const fallback = process.env.ADMIN_EMAIL?.trim();
+  if (!recipients.length && fallback) {
+    recipients.push(fallback);
+  }
+  if (!recipients.length) return;
+
+  const subject = `Schicht${view.kind === 'swap' ? 'tausch' : 'abgabe'} wartet auf Freigabe`;
+  const body = [
+    ...describeSwapForMail(view),
+    ...(view.ruleViolations.length ? ['', 'Hinweise:', ...view.ruleViolations.map((entry) => `- ${entry}`)] : []),
+  ].join('\n');
+  const results = await Promise.allSettled(recipients.map((recipient) => sendTextMail(recipient, subject, body)));
+  const failed = results.filter((result) => result.status === 'rejected');
+  if (failed.length) {
+    console.error('[shift-swaps] failed to send admin mail', { requestId: view.id, failed: failed.length });
+  }
+}
+
+async function notifyEmployeesAboutShiftSwapDecision(
+  tenantId: string,
+  view: ShiftSwapRequestView,
+  decision: 'approved' | 'rejected',
+  adminNote?: string | null
+): Promise<void> {
+  const companyName = await getTenantMailDisplayName(tenantId);
+  const subject =
+    decision === 'approved'
+      ? `${companyName}: Schicht${view.kind === 'swap' ? 'tausch' : 'abgabe'} genehmigt`
+      : `${companyName}: Schicht${view.kind === 'swap' ? 'tausch' : 'abgabe'} abgelehnt`;
+  const statusLine =
+    decision === 'approved'
+      ? 'Die Änderung wurde genehmigt und im Schichtplan eingetragen.'
+      : 'Die Änderung wurde abgelehnt; der Schichtplan bleibt unverändert.';
+
+  for (const employeeId of [view.employeeId, view.acceptedById]) {
+    if (employeeId === null) continue;
+    const employee = await getEmployeeById(tenantId, employeeId);
+    const recipient = employee?.email?.trim();
+    if (!employee || !recipient) continue;
+    const body = [
+      `Hallo ${`${employee.first_name} ${employee.last_name}`.trim() || 'Mitarbeiter'},`,
+      '',
+      statusLine,
+      '',
+      ...describeSwapForMail(view),
+      ...(adminNote?.trim() ? ['', `Hinweis der Verwaltung: ${adminNote.trim()}`] : []),
+      '',
+      'Viele Grüße',
+      companyName,
+    ].join('\n');
+    try {
+      await sendTextMail(recipient, subject, body, { fromName: companyName });
+    } catch (error) {
+      console.error('[shift-swaps] failed to send decision mail', { requestId: view.id, employeeId, error });
+    }
+  }
+}
+
+/** Branches an offer belongs to: the branch of the shift or, without one, all branches of the employee. */
+function offerBranchIds(row: ShiftSwapRequestRow, branchesByEmployee: Map<number, Array<{ id: number }>>): number[] {
+  if (row.offered.branch_id !== null) return [row.offered.branch_id];
+  return (branchesByEmployee.get(row.employee_id) ?? []).map((branch) => branch.id);
+}
+
+export async function getShiftSwapOverview(tenantId: string, employeeId: number): Promise<ShiftSwapOverview> {
+  const today = todayIso();
+  const [records, ownBranches, ownRows, openRows] = await Promise.all([
+    listShiftPlanDays(employeeId, today, shiftDay(today, OFFER_WINDOW_DAYS)),
+    listBranchesForEmployee(tenantId, employeeId),
+    listShiftSwapRequestsForEmployee(tenantId, employeeId),
+    listOpenShiftSwapRequests(tenantId, today),
+  ]);
+  const ownBranchIds = new Set(ownBranches.map((branch) => branch.id));
+  const colleagueRows = openRows.filter((row) => row.employee_id !== employeeId);
+  const branchesByEmployee = await listBranchesForEmployees(
+    tenantId,
+    Array.from(new Set(colleagueRows.map((row) => row.employee_id)))
+  );
+  const openOffers = colleagueRows.filter((row) =>
+    offerBranchIds(row, branchesByEmployee).some((branchId) => ownBranchIds.has(branchId))
+  );
+  const { names, branchNames } = await loadViewContext(tenantId, [...ownRows, ...openOffers]);
+
+  const offered = new Set(
+    ownRows
+      .filter((row) => row.status === 'open' || row.status === 'pending')
+      .flatMap((row) => [
+        row.employee_id === employeeId ? `${row.offered.day_date}:${row.offered.start_time}` : null,
+        row.accepted_by === employeeId && row.returned ? `${row.returned.day_date}:${row.returned.start_time}` : null,
+      ])
+      .filter((key): key is string => Boolean(key))
+  );
+  const offerableShifts = records
+    .map(toShiftRow)
+    .filter((shift): shift is ShiftSwapShiftRow => Boolean(shift))
+    .filter((shift) => !offered.has(`${shift.day_date}:${shift.start_time}`))
+    .map((shift) => toShiftView(shift, branchNames));
+
+  return {
+    offerableShifts,
+    openOffers: openOffers.map((row) => mapRowToView(row, names, branchNames)),
+    ownRequests: ownRows.map((row) => mapRowToView(row, names, branchNames)),
+  };
+}
+
+async function findOwnShift(
+  employeeId: number,
+  isoDate: string,
+  segmentIndex: number
+): Promise<ShiftSwapShiftRow | null> {
+  const records = await listShiftPlanDays(employeeId, isoDate, isoDate);
+  const record = records.find((entry) => entry.segment_index === segmentIndex);
+  return record ? toShiftRow(record) : null;
+}
+
+export async function offerShiftSwap(
+  tenantId: string,
+  employeeId: number,
+  input: { dayDate: string; segmentIndex: number; kind: string; note?: string | null }
+): Promise<void> {
+  const employee = await getEmployeeById(tenantId, employeeId);
+  if (!employee) {
+    throw new Error('Mitarbeiter wurde nicht gefunden.');
+  }
+  if (input.kind !== 'swap' && input.kind !== 'giveaway') {
+    throw new Error('Bitte Tausch oder Abgabe wählen.');
+  }
+  const note = input.note?.trim() || null;
+  if (note && note.length > 500) {
+    throw new Error('Die Nachricht darf maximal 500 Zeichen enthalten.');
+  }
+  if (input.dayDate < todayIso()) {
+    throw new Error('Vergangene Schichten können nicht angeboten werden.');
+  }
+
+  const shift = await findOwnShift(employeeId, input.dayDate, input.segmentIndex);
+  if (!shift) {
+    throw new Error('Die Schicht wurde im Schichtplan nicht gefunden.');
+  }
+  if (await findActiveShiftSwapRequest(employeeId, shift.day_date, shift.segment_index)) {
+    throw new Error('Für diese Schicht gibt es bereits ein offenes Angebot.');
+  }
+
+  await createShiftSwapRequest({ employeeId, kind: input.kind, offered: shift, note });
+  revalidatePath('/mitarbeiter/schichtplan');
+}
+
+async function loadParty(
+  tenantId: string,
+  employeeId: number,
+  dates: string[]
+): Promise<ShiftSwapParty & { recordsByDate: Map<string, ShiftPlanDayRecord[]> }> {
+  const sorted = [...dates].sort();
+  const [names, branches, overtime, plan] = await Promise.all([
+    getEmployeeDisplayNamesByIds(tenantId, [employeeId]),
+    listBranchesForEmployee(tenantId, employeeId),
+    getEmployeeOvertimeSettings(tenantId, employeeId),
+    listShiftPlanDays(employeeId, shiftDay(sorted[0]!, -1), shiftDay(sorted[sorted.length - 1]!, 1)),
+  ]);
+  const recordsByDate = new Map<string, ShiftPlanDayRecord[]>();
+  for (const record of plan) {
+    recordsByDate.set(record.day_date, [...(recordsByDate.get(record.day_date) ?? []), record]);
+  }
+  return {
+    name: names.get(employeeId) ?? `Mitarbeiter #${employeeId}`,
+    branchIds: branches.map((branch) => branch.id),
+    overtimeBalance: overtime.overtimeBalance,
+    maxOvertimeHours: overtime.maxOvertimeHours,
+    plan,
+    recordsByDate,
+  };
+}
+
+/**
+ * Checks that both shifts are still planned as offered and that nobody receives a shift overlapping another
+ * shift or an absence. Returns the rule violations of the swap.
+ */
+async function validateShiftSwap(
+  tenantId: string,
+  row: ShiftSwapRequestRow,
+  acceptorId: number,
+  returned: ShiftSwapShiftRow | null
+): Promise<string[]> {
+  const dates = [row.offered.day_date, ...(returned ? [returned.day_date] : [])];
+  const [offerer, acceptor] = await Promise.all([
+    loadParty(tenantId, row.employee_id, dates),
+    loadParty(tenantId, acceptorId, dates),
+  ]);
+
+  if (!offerer.plan.some((record) => isSamePlannedShift(record, row.offered))) {
+    throw new Error('Die angebotene Schicht wurde inzwischen im Schichtplan geändert.');
+  }
+  if (returned && !acceptor.plan.some((record) => isSamePlannedShift(record, returned))) {
+    throw new Error('Die Schicht für den Tausch wurde inzwischen im Schichtplan geändert.');
+  }
+  if (hasPlannedAbsence(acceptor.recordsByDate.get(row.offered.day_date))) {
+    throw new Error(`${acceptor.name} hat am ${formatDate(row.offered.day_date)} eine Abwesenheit eingetragen.`);
+  }
+  if (overlapsPlannedShift(acceptor.plan, row.offered, returned)) {
+    throw new Error(`${acceptor.name} ist zur Zeit der angebotenen Schicht bereits eingeplant.`);
+  }
+  if (returned && hasPlannedAbsence(offerer.recordsByDate.get(returned.day_date))) {
+    throw new Error(`${offerer.name} hat am ${formatDate(returned.day_date)} eine Abwesenheit eingetragen.`);
+  }
+  if (returned && overlapsPlannedShift(offerer.plan, returned, row.offered)) {
+    throw new Error(`${offerer.name} ist zur Zeit der Tauschschicht bereits eingeplant.`);
+  }
+
+  return evaluateShiftSwapRules({ offered: row.offered, returned, offerer, acceptor });
+}
+
+/**
+ * Claims the pending request as approved before anything changes, so two approvals cannot apply the swap twice.
+ * Then moves the shifts between both plans in one transaction; when that fails the request waits for a decision
+ * again. Finally pushes the changed days and recomputes both overtime accounts.
+ */
+async function approveShiftSwap(
+  tenantId: string,
+  row: ShiftSwapRequestRow,
+  decision: { adminNote: string | null; decidedBy?: number | null }
+): Promise<void> {
+  const acceptorId = row.accepted_by;
+  if (acceptorId === null) {
+    throw new Error('Das Angebot wurde noch nicht angenommen.');
+  }
+  await updateShiftSwapRequestStatus(tenantId, { id: row.id, status: 'approved', ...decision });
+  try {
+    await validateShiftSwap(tenantId, row, acceptorId, row.returned);
+    await rewriteShiftPlanDays(tenantId, [
+      { employeeId: row.employee_id, isoDate: row.offered.day_date, change: { remove: row.offered } },
+      { employeeId: acceptorId, isoDate: row.offered.day_date, change: { add: row.offered } },
+      ...(row.returned
+        ? [
+            { employeeId: acceptorId, isoDate: row.returned.day_date, change: { remove: row.returned } },
+            { employeeId: row.employee_id, isoDate: row.returned.day_date, change: { add: row.returned } },
+          ]
+        : []),
+    ]);
+  } catch (error) {
+    await reopenShiftSwapRequest(tenantId, row.id);
+    throw error;
+  }
+
+  const dates = Array.from(new Set([row.offered.day_date, ...(row.returned ? [row.returned.day_date] : [])])).sort();
+  for (const employeeId of [row.employee_id, acceptorId]) {
+    for (const isoDate of dates) {
+      await pushShiftPlanDayToControlPlane(tenantId, employeeId, isoDate);
+    }
+    await recomputeEmployeeOvertime(tenantId, employeeId, dates[0]);
+  }
+}
+
+async function loadView(tenantId: string, requestId: number): Promise<ShiftSwapRequestView> {
+  const row = await getShiftSwapRequestById(tenantId, requestId);
+  if (!row) {
+    throw new Error('Die Tauschanfrage wurde nicht gefunden.');
+  }
+  const { names, branchNames } = await loadViewContext(tenantId, [row]);
+  return mapRowToView(row, names, branchNames);
+}
+
+function revalidateShiftSwapPaths() {
+  revalidatePath('/mitarbeiter/schichtplan');
+  revalidatePath('/admin/antraege');
+  revalidatePath('/admin/schichtplan');
+}
+
+/**
+ * A colleague takes over an open offer, for swaps together with one of their own shifts. With automatic
+ * approval enabled and no rule violated the plans change right away; otherwise an admin decides.
+ */
+export async function acceptShiftSwap(
+  tenantId: string,
+  employeeId: number,
+  input: { requestId: number; returnDayDate?: string | null; returnSegmentIndex?: number | null }
+): Promise<string> {
+  const row = await getShiftSwapRequestById(tenantId, input.requestId);
+  if (!row || row.status !== 'open') {
+    throw new Error('Das Angebot ist nicht mehr offen.');
+  }
+  if (row.employee_id === employeeId) {
+    throw new Error('Eigene Angebote können nicht angenommen werden.');
+  }
+  const today = todayIso();
+  if (row.offered.day_date < today) {
+    throw new Error('Die Schicht liegt in der Vergangenheit.');
+  }
+
+  const [ownBranches, branchesByEmployee] = await Promise.all([
+    listBranchesForEmployee(tenantId, employeeId),
+    listBranchesForEmployees(tenantId, [row.employee_id]),
+  ]);
+  const ownBranchIds = new Set(ownBranches.map((branch) => branch.id));
+  if (!offerBranchIds(row, branchesByEmployee).some((branchId) => ownBranchIds.has(branchId))) {
+    throw new Error('Du bist dem Standort dieser Schicht nicht zugeordnet.');
+  }
+
+  let returned: ShiftSwapShiftRow | null = null;
+  if (row.kind === 'swap') {
+    const returnDayDate = input.returnDayDate?.trim() ?? '';
+    returned =
+      returnDayDate && input.returnSegmentIndex !== null && input.returnSegmentIndex !== undefined
+        ? await findOwnShift(employeeId, returnDayDate, input.returnSegmentIndex)
+        : null;
+    if (!returned || returned.day_date < today) {
+      throw new Error('Bitte eine eigene Schicht für den Tausch auswählen.');
+    }
+    if (await findActiveShiftSwapRequest(employeeId, returned.day_date, returned.segment_index)) {
+      throw new Error('Diese Schicht hast du bereits selbst angeboten.');
+    }
+  }
+
+  const ruleViolations = await validateShiftSwap(tenantId, row, employeeId, returned);
+  await markShiftSwapRequestAccepted(tenantId, { id: row.id, acceptedById: employeeId, returned, ruleViolations });
+  const accepted = await getShiftSwapRequestById(tenantId, row.id);
+  if (!accepted) {
+    throw new Error('Die Tauschanfrage konnte nicht gespeichert werden.');
+  }
+
+  if (!ruleViolations.length && (await getShiftSwapAutoApprove(tenantId))) {
+    await approveShiftSwap(tenantId, accepted, { adminNote: 'Automatisch genehmigt' });
+    await notifyEmployeesAboutShiftSwapDecision(tenantId, await loadView(tenantId, accepted.id), 'approved');
+    revalidateShiftSwapPaths();
+    return 'Die Schicht wurde übernommen und im Schichtplan eingetragen.';
+  }
+
+  await notifyAdminAboutShiftSwap(tenantId, await loadView(tenantId, accepted.id));
+  revalidateShiftSwapPaths();
+  return 'Angebot angenommen. Die Verwaltung muss die Änderung noch freigeben.';
+}
+
+export async function withdrawShiftSwapRequest(tenantId: string, employeeId: number, requestId: number): Promise<void> {
+  await deleteShiftSwapRequest(tenantId, requestId, employeeId);
+  revalidatePath('/mitarbeiter/schichtplan');
+}
+
+export async function getShiftSwapRequestsForAdmin(tenantId: string): Promise<ShiftSwapRequestView[]> {
+  const rows = await listShiftSwapRequests(tenantId, 'all');
+  const { names, branchNames } = await loadViewContext(tenantId, rows);
+  const weight = (status: ShiftSwapRequestStatus) => (status === 'pending' ? 0 : status === 'open' ? 1 : 2);
+  return rows
+    .map((row) => mapRowToView(row, names, branchNames))
+    .sort((a, b) => weight(a.status) - weight(b.status) || b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function decideShiftSwapRequest(tenantId: string, input: DecideShiftSwapRequestInput): Promise<string> {
+  const row = await getShiftSwapRequestById(tenantId, input.requestId);
+  if (!row) {
+    throw new Error('Die Tauschanfrage wurde nicht gefunden.');
+  }
+  if (row.status !== 'pending') {
+    throw new Error('Die Tauschanfrage wartet nicht auf eine Freigabe.');
+  }
+
+  const decision = { adminNote: input.adminNote?.trim() || null, decidedBy: input.adminId };
+  if (input.status === 'approved') {
+    await approveShiftSwap(tenantId, row, decision);
+  } else {
+    await updateShiftSwapRequestStatus(tenantId, { id: row.id, status: 'rejected', ...decision });
+  }
+  const view = await loadView(tenantId, row.id);
+  await notifyEmployeesAboutShiftSwapDecision(tenantId, view, input.status, input.adminNote);
+
+  revalidateShiftSwapPaths();
+  return input.status === 'approved'
+    ? 'Die Änderung wurde genehmigt und in beiden Schichtplänen eingetragen.'
+    : 'Die Tauschanfrage wurde abgelehnt.';
+}
+
+export async function adminDeleteShiftSwapRequest(tenantId: string, requestId: number): Promise<void> {
+  await deleteShiftSwapRequest(tenantId, requestId);
+  revalidateShiftSwapPaths();
+}
@@ -0,0 +1,138 @@
+import { revalidatePath } from 'next/cache';
+
+import { listShiftPlanDays } from '@/lib/data/shift-plan-days';
+import {
+  createSickLeaveShiftPlanBackups,
+  deleteSickLeaveShiftPlanBackups,
+  listSickLeaveShiftPlanBackups,
+  type SickLeaveShiftPlanBackupInput,
+  type SickLeaveShiftPlanBackupRow,
+} from '@/lib/data/sick-leave-episodes';
+import { saveShiftPlanDaySegments } from '@/lib/services/shift-plan';
+import { getWeeklyFallbackPlanHoursForDay } from '@/lib/services/shift-plan-hours';
+import { recomputeEmployeeOvertime } from '@/lib/services/time-entry';
+
+/** Plan label for reported sick days; the daily sync derives the K entry from it. */
+export const SICK_PLAN_LABEL = 'Krank';
+
+/** Segments the employee was planned to work on the day, or the weekly plan when the day has no entry. */
+async function collectPlannedSegments(employeeId: number, isoDate: string): Promise<SickLeaveShiftPlanBackupInput[]> {
+  const segments = await listShiftPlanDays(employeeId, isoDate, isoDate);
+  if (segments.length > 0) {
+    const plannedToWork = segments.some(
+      (segment) => segment.mode !== 'unavailable' && segment.start_time && segment.end_time
+    );
+    if (!plannedToWork) return [];
+    return segments.map((segment) => ({
+      dayDate: isoDate,
+      segmentIndex: segment.segment_index ?? 0,
+      mode: segment.mode === 'unavailable' ? 'unavailable' : 'available',
+      startTime: segment.start_time ?? null,
+      endTime: segment.end_time ?? null,
+      requiredPauseMinutes: Number(segment.required_pause_minutes ?? 0),
+      label: segment.label ?? null,
+      branchId: segment.branch_id ?? null,
+    }));
+  }
+
+  const fallback = await getWeeklyFallbackPlanHoursForDay(employeeId, isoDate);
+  if (!fallback?.start || !fallback.end || fallback.rawHours <= 0.001) return [];
+  return [
+    {
+      dayDate: isoDate,
+      segmentIndex: 0,
+      mode: 'available',
+      startTime: fallback.start,
+      endTime: fallback.end,
+      requiredPauseMinutes: Number(fallback.requiredPauseMinutes ?? 0),
+      label: null,
+      branchId: null,
+    },
+  ];
+}
+
+function mapBackupToSegment(backup: SickLeaveShiftPlanBackupRow) {
+  return {
+    segmentIndex: backup.segment_index,
+    mode: backup.mode,
+    start: backup.start_time,
+    end: backup.end_time,
+    requiredPauseMinutes: backup.required_pause_minutes,
+    label: backup.label,
+    branchId: backup.branch_id,
+  };
+}
+
+/**
+ * Replaces the planned shifts of the given days with a sick marker and keeps the original segments so they can
+ * be restored. Days without a planned shift stay untouched. Returns the number of marked days.
+ */
+export async function markSickDaysInShiftPlan(
+  tenantId: string,
+  employeeId: number,
+  episodeId: number,
+  dates: string[]
+): Promise<number> {
+  let marked = 0;
+  for (const isoDate of dates) {
+    const planned = await collectPlannedSegments(employeeId, isoDate);
+    if (!planned.length) continue;
+    await createSickLeaveShiftPlanBackups(episodeId, planned);
+    // Start and end are taken over from the planned shift, so the sick day counts the planned hours.
+    await saveShiftPlanDaySegments(
+      tenantId,
+      employeeId,
+      {
+        isoDate,
+        segments: [
+          {
+            mode: 'unavailable',
+            label: SICK_PLAN_LABEL,
+            branchId: planned.find((segment) => segment.branchId)?.branchId ?? null,
+          },
+        ],
+      },
+      { source: 'sick_report' }
+    );
+    marked += 1;
+  }
+
+  if (marked > 0) {
+    await recomputeEmployeeOvertime(tenantId, employeeId, [...dates].sort()[0]);
+    revalidatePath('/mitarbeiter/schichtplan');
+  }
+  return marked;
+}
+
+/** Puts the planned shifts back for days no longer covered by the sick report; without dates, for all days. */
+export async function restoreSickDaysInShiftPlan(
+  tenantId: string,
+  employeeId: number,
+  episodeId: number,
+  dates?: string[]
+): Promise<number> {
+  const wanted = dates ? new Set(dates) : null;
+  const backupsByDate = new Map<string, SickLeaveShiftPlanBackupRow[]>();
+  for (const backup of await listSickLeaveShiftPlanBackups(tenantId, episodeId)) {
+    if (wanted && !wanted.has(backup.day_date)) continue;
+    const list = backupsByDate.get(backup.day_date) ?? [];
+    list.push(backup);
+    backupsByDate.set(backup.day_date, list);
+  }
+
+  for (const [isoDate, backups] of backupsByDate) {
+    await saveShiftPlanDaySegments(
+      tenantId,
+      employeeId,
+      { isoDate, segments: backups.map(mapBackupToSegment) },
+      { source: 'sick_report' }
+    );
+  }
+  await deleteSickLeaveShiftPlanBackups(tenantId, episodeId, Array.from(backupsByDate.keys()));
+
+  if (backupsByDate.size > 0) {
+    await recomputeEmployeeOvertime(tenantId, employeeId, Array.from(backupsByDate.keys()).sort()[0]);
+    revalidatePath('/mitarbeiter/schichtplan');
+  }
+  return backupsByDate.size;
+}
@@ -0,0 +1,586 @@
+import { DateTime } from 'luxon';
+
+import {
+  getEmployeeById,
+  getEmployeeDisplayNamesByIds,
+  listBranchAdminEmails,
+  type EmployeeRecord,
+} from '@/lib/data/employees';
+import {
+  createSickLeaveEpisode,
+  deleteSickLeaveEpisode,
+  getSickLeaveEpisodeById,
+  listSickLeaveEpisodesForEmployee,
+  listSickLeaveEpisodesSince,
+  updateSickLeaveEpisode,
+  type SickLeaveEpisodeRow,
+} from '@/lib/data/sick-leave-episodes';
+import { saveAdminDocumentFromFile, saveEmployeeDocumentFromFile, type UploadedBy } from '@/lib/services/documents';
+import { sendTextMail } from '@/lib/services/email';
+import { getTenantMailDisplayName } from '@/lib/services/leave-requests';
+import { markSickDaysInShiftPlan, restoreSickDaysInShiftPlan } from '@/lib/services/sick-leave-shift-plan';
+
+/** Continued pay by the employer (§ 3 EFZG) covers six weeks per illness. */
+export const CONTINUED_PAY_DAYS = 42;
+/** Admins are warned this many days before continued pay runs out. */
+export const CONTINUED_PAY_WARNING_DAYS = 7;
+/** More than six weeks of incapacity within twelve months requires a BEM offer (§ 167 SGB IX). */
+export const BEM_THRESHOLD_DAYS = 42;
+/** Employees can report, extend or end their own sickness up to this many days back. */
+export const SICK_REPORT_CHANGE_WINDOW_DAYS = 14;
+/** Longest sickness employees can report or extend themselves; longer periods are entered by the admins. */
+export const SICK_REPORT_MAX_DAYS = 42;
+
+export type SickLeaveEpisodeStatus = {
+  id: number;
+  employeeId: number;
+  startDate: string;
+  endDate: string | null;
+  /** Calendar days of the episode; a running episode is counted up to the reference date. */
+  days: number;
+  /** Start of the illness whose six-week period this episode shares. */
+  periodStartDate: string;
+  /** Continued-pay days already used by earlier episodes of the same illness. */
+  continuedPayDaysBefore: number;
+  /** Continued-pay days left after this episode (as counted so far). */
+  continuedPayDaysRemaining: number;
+  /**
+   * Last day with continued pay when the six weeks run out within this episode; projected for a running
+   * episode. Null when the episode ends before the limit.
+   */
+  continuedPayEndDate: string | null;
+};
+
+export type SickLeaveEpisodeView = SickLeaveEpisodeStatus & {
+  certificateReceivedAt: string | null;
+  continuesEpisodeId: number | null;
+  documentFileName: string | null;
+  note: string | null;
+  reportedByEmployee: boolean;
+};
+
+export type SickLeaveWarningKind = 'continued-pay-ending' | 'continued-pay-exhausted' | 'bem';
+
+export type SickLeaveWarning = {
+  employeeId: number;
+  employeeName: string | null;
+  kind: SickLeaveWarningKind;
+  message: string;
+};
+
+export type SickLeavePayrollSummary = {
+  /** Episodes overlapping the month as ISO ranges; a running episode ends at the month end. */
+  ranges: Array<{ start: string; end: string }>;
+  /** Last day of continued pay when it ends within or before the month for an episode of the month. */
+  continuedPayEndDates: string[];
+  /** Sick days in the month after continued pay ran out (sick pay by the health insurance). */
+  daysWithoutContinuedPay: number;
+};
+
+export type SaveSickLeaveEpisodeInput = {
+  id?: number | null;
+  employeeId: number;
+  startDate: string;
+  endDate: string | null;
+  certificateReceivedAt: string | null;
+  continuesEpisodeId: number | null;
+  note: string | null;
+  document?: File | null;
+  /** Employee uploads land in the employee's own upload area instead of the admin documents. */
+  documentUploadedBy?: UploadedBy;
+  reportedByEmployee?: boolean;
+};
+
+export type ReportSicknessInput = {
+  employeeId: number;
+  startDate: string;
+  expectedEndDate: string;
+  note: string | null;
+  document?: File | null;
+};
+
+export type ChangeReportedSicknessInput = {
+  employeeId: number;
+  episodeId: number;
+  endDate: string;
+  document?: File | null;
+};
+
+type SickReportMailKind = 'reported' | 'extended' | 'shortened';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function toDate(iso: string): DateTime {
+  return DateTime.fromISO(iso, { zone: 'utc' });
+}
+
+/** Whether `value` is a `YYYY-MM-DD` date that exists, so 2026-02-30 is rejected. */
+function isIsoDate(value: string | null | undefined): value is string {
+  return Boolean(value && ISO_DATE.test(value) && toDate(value).isValid);
+}
+
+function addDays(iso: string, days: number): string {
+  const result = toDate(iso).plus({ days }).toISODate();
+  if (!result) {
+    // Falling back to the input would let the day loops below run forever.
+    throw new Error(`Ungültiges Datum: ${iso}`);
+  }
+  return result;
+}
+
+function daysBetweenInclusive(startIso: string, endIso: string): number {
+  if (endIso < startIso) return 0;
+  return Math.round(toDate(endIso).diff(toDate(startIso), 'days').days) + 1;
+}
+
+function formatGermanDate(iso: string): string {
+  return toDate(iso).toFormat('dd.MM.yyyy');
+}
+
+function todayIso(): string {
+  return DateTime.now().setZone('Europe/Berlin').toISODate() ?? '';
+}
+
+function listDates(startIso: string, endIso: string): string[] {
+  const dates: string[] = [];
+  for (let day = startIso; day <= endIso; day = addDays(day, 1)) {
+    dates.push(day);
+  }
+  return dates;
+}
+
+/** Days to mark as sick in the shift plan and days to restore when a reported sickness changes its range. */
+export function listSickReportDateChanges(
+  previous: { start: string; end: string } | null,
+  next: { start: string; end: string } | null
+): { mark: string[]; restore: string[] } {
+  const before = previous ? listDates(previous.start, previous.end) : [];
+  const after = next ? listDates(next.start, next.end) : [];
+  const beforeSet = new Set(before);
+  const afterSet = new Set(after);
+  return {
+    mark: after.filter((day) => !beforeSet.has(day)),
+    restore: before.filter((day) => !afterSet.has(day)),
+  };
+}
+
+/** Checks the range of a sickness the employee reports or changes; throws the message to show otherwise. */
+export function validateSickReportRange(startIso: string, endIso: string): void {
+  if (!isIsoDate(endIso)) {
+    throw new Error('Bitte ein gültiges Enddatum angeben.');
+  }
+  if (endIso < startIso) {
+    throw new Error('Das Ende darf nicht vor dem Beginn liegen.');
+  }
+  if (daysBetweenInclusive(startIso, endIso) > SICK_REPORT_MAX_DAYS) {
+    throw new Error(
+      `Eine Krankmeldung im Portal kann höchstens ${SICK_REPORT_MAX_DAYS} Tage umfassen. ` +
+        'Längere Zeiten trägt die Verwaltung ein.'
+    );
+  }
+}
+
+/** Whether the employee may still extend or end a sickness they reported themselves. */
+export function isSickReportChangeable(
+  episode: { reportedByEmployee: boolean; endDate: string | null },
+  asOfIso: string
+): boolean {
+  if (!episode.reportedByEmployee) return false;
+  const earliest = addDays(asOfIso, -SICK_REPORT_CHANGE_WINDOW_DAYS);
+  return !episode.endDate || episode.endDate >= earliest;
+}
+
+/**
+ * Follows each episode to the first episode of its illness and counts the continued-pay days used so far. A
+ * linked episode starts a new six-week period when the employee was not sick with that illness for six months,
+ * or when twelve months have passed since the illness first began (§ 3 Abs. 1 Satz 2 EFZG).
+ */
+export function computeSickLeaveStatuses(episodes: SickLeaveEpisodeRow[], asOfIso: string): SickLeaveEpisodeStatus[] {
+  const sorted = [...episodes].sort((a, b) => a.start_date.localeCompare(b.start_date) || a.id - b.id);
+  const byId = new Map<number, SickLeaveEpisodeStatus>();
+  const result: SickLeaveEpisodeStatus[] = [];
+
+  for (const episode of sorted) {
+    const days = daysBetweenInclusive(episode.start_date, episode.end_date ?? asOfIso);
+
+    let periodStartDate = episode.start_date;
+    let continuedPayDaysBefore = 0;
+    const previous = episode.continues_episode_id ? byId.get(episode.continues_episode_id) : undefined;
+    if (previous && previous.startDate < episode.start_date) {
+      const previousEnd = previous.endDate ?? addDays(previous.startDate, previous.days - 1);
+      const sixMonthsAfterPrevious = toDate(previousEnd).plus({ months: 6 }).toISODate() ?? previousEnd;
+      const twelveMonthsAfterStart =
+        toDate(previous.periodStartDate).plus({ months: 12 }).toISODate() ?? previous.periodStartDate;
+      if (episode.start_date <= sixMonthsAfterPrevious && episode.start_date < twelveMonthsAfterStart) {
+        periodStartDate = previous.periodStartDate;
+        continuedPayDaysBefore = Math.min(previous.continuedPayDaysBefore + previous.days, CONTINUED_PAY_DAYS);
+      }
+    }
+
+    const remainingAtStart = CONTINUED_PAY_DAYS - continuedPayDaysBefore;
+    const continuedPayEndDate =
+      !episode.end_date || days > remainingAtStart ? addDays(episode.start_date, remainingAtStart - 1) : null;
+
+    const status: SickLeaveEpisodeStatus = {
+      id: episode.id,
+      employeeId: episode.employee_id,
+      startDate: episode.start_date,
+      endDate: episode.end_date,
+      days,
+      periodStartDate,
+      continuedPayDaysBefore,
+      continuedPayDaysRemaining: Math.max(remainingAtStart - days, 0),
+      continuedPayEndDate,
+    };
+    byId.set(episode.id, status);
+    result.push(status);
+  }
+
+  return result;
+}
+
+/** Sick calendar days of all episodes within the twelve months up to `asOfIso`; overlaps count once. */
+export function countSickDaysInLastYear(episodes: SickLeaveEpisodeRow[], asOfIso: string): number {
+  const windowStart = addDays(toDate(asOfIso).minus({ years: 1 }).toISODate() ?? asOfIso, 1);
+  const days = new Set<string>();
+  for (const episode of episodes) {
+    const start = episode.start_date > windowStart ? episode.start_date : windowStart;
+    const rawEnd = episode.end_date ?? asOfIso;
+    const end = rawEnd < asOfIso ? rawEnd : asOfIso;
+    for (let day = start; day <= end; day = addDays(day, 1)) {
+      days.add(day);
+    }
+  }
+  return days.size;
+}
+
+export function buildSickLeaveWarnings(
+  employeeId: number,
+  employeeName: string | null,
+  episodes: SickLeaveEpisodeRow[],
+  asOfIso: string
+): SickLeaveWarning[] {
+  const warnings: SickLeaveWarning[] = [];
+  for (const status of computeSickLeaveStatuses(episodes, asOfIso)) {
+    const running = status.startDate <= asOfIso && (!status.endDate || status.endDate >= asOfIso);
+    if (!running || !status.continuedPayEndDate) continue;
+    if (status.continuedPayEndDate < asOfIso) {
+      warnings.push({
+        employeeId,
+        employeeName,
+        kind: 'continued-pay-exhausted',
+        message: `Entgeltfortzahlung endete am ${formatGermanDate(status.continuedPayEndDate)}; seitdem Krankengeld der Krankenkasse.`,
+      });
+    } else if (daysBetweenInclusive(asOfIso, status.continuedPayEndDate) <= CONTINUED_PAY_WARNING_DAYS) {
+      warnings.push({
+        employeeId,
+        employeeName,
+        kind: 'continued-pay-ending',
+        message: `Entgeltfortzahlung endet am ${formatGermanDate(status.continuedPayEndDate)} (sechs Wochen seit ${formatGermanDate(status.periodStartDate)}).`,
+      });
+    }
+  }
+
+  const sickDays = countSickDaysInLastYear(episodes, asOfIso);
+  if (sickDays > BEM_THRESHOLD_DAYS) {
+    warnings.push({
+      employeeId,
+      employeeName,
+      kind: 'bem',
+      message: `${sickDays} Tage arbeitsunfähig in den letzten zwölf Monaten – betriebliches Eingliederungsmanagement anbieten.`,
+    });
+  }
+  return warnings;
+}
+
+export function summarizeSickLeaveForPayroll(
+  episodes: SickLeaveEpisodeRow[],
+  startIso: string,
+  endIso: string
+): SickLeavePayrollSummary {
+  const summary: SickLeavePayrollSummary = { ranges: [], continuedPayEndDates: [], daysWithoutContinuedPay: 0 };
+  for (const status of computeSickLeaveStatuses(episodes, endIso)) {
+    const episodeEnd = status.endDate ?? endIso;
+    if (status.startDate > endIso || episodeEnd < startIso) continue;
+    summary.ranges.push({ start: status.startDate, end: episodeEnd });
+    if (!status.continuedPayEndDate || status.continuedPayEndDate >= episodeEnd) continue;
+    summary.continuedPayEndDates.push(status.continuedPayEndDate);
+    const unpaidStart = addDays(status.continuedPayEndDate, 1);
+    summary.daysWithoutContinuedPay += daysBetweenInclusive(
+      unpaidStart > startIso ? unpaidStart : startIso,
+      episodeEnd < endIso ? episodeEnd : endIso
+    );
+  }
+  return summary;
+}
+
+export async function getSickLeaveEpisodesForEmployee(
+  tenantId: string,
+  employeeId: number,
+  asOfIso = todayIso()
+): Promise<SickLeaveEpisodeView[]> {
+  const rows = await listSickLeaveEpisodesForEmployee(tenantId, employeeId);
+  const rowsById = new Map(rows.map((row) => [row.id, row]));
+  return computeSickLeaveStatuses(rows, asOfIso).map((status) => {
+    const row = rowsById.get(status.id)!;
+    return {
+      ...status,
+      certificateReceivedAt: row.certificate_received_at,
+      continuesEpisodeId: row.continues_episode_id,
+      documentFileName: row.document_file_name,
+      note: row.note,
+      reportedByEmployee: row.reported_by_employee === 1,
+    };
+  });
+}
+
+export async function getSickLeaveWarnings(tenantId: string, asOfIso = todayIso()): Promise<SickLeaveWarning[]> {
+  // Periods reset after twelve months, so older episodes never affect today's figures.
+  const since = toDate(asOfIso).minus({ months: 18 }).toISODate() ?? asOfIso;
+  const rows = await listSickLeaveEpisodesSince(tenantId, since);
+  const byEmployee = new Map<number, SickLeaveEpisodeRow[]>();
+  for (const row of rows) {
+    const list = byEmployee.get(row.employee_id) ?? [];
+    list.push(row);
+    byEmployee.set(row.employee_id, list);
+  }
+  const names = await getEmployeeDisplayNamesByIds(tenantId, Array.from(byEmployee.keys()));
+  return Array.from(byEmployee.entries()).flatMap(([employeeId, episodes]) =>
+    buildSickLeaveWarnings(employeeId, names.get(employeeId) ?? null, episodes, asOfIso)
+  );
+}
+
+export async function getEmployeeSickLeaveWarnings(
+  tenantId: string,
+  employeeId: number,
+  asOfIso = todayIso()
+): Promise<SickLeaveWarning[]> {
+  const rows = await listSickLeaveEpisodesForEmployee(tenantId, employeeId);
+  return buildSickLeaveWarnings(employeeId, null, rows, asOfIso);
+}
+
+export async function saveSickLeaveEpisode(tenantId: string, input: SaveSickLeaveEpisodeInput): Promise<number> {
+  const employee = await getEmployeeById(tenantId, input.employeeId);
+  if (!employee) {
+    throw new Error('Mitarbeiter wurde nicht gefunden.');
+  }
+  if (!isIsoDate(input.startDate)) {
+    throw new Error('Bitte den ersten Krankheitstag angeben.');
+  }
+  if (input.endDate && !isIsoDate(input.endDate)) {
+    throw new Error('Bitte ein gültiges Enddatum angeben.');
+  }
+  if (input.endDate && input.endDate < input.startDate) {
+    throw new Error('Das Ende darf nicht vor dem Beginn liegen.');
+  }
+  if (input.certificateReceivedAt && !isIsoDate(input.certificateReceivedAt)) {
+    throw new Error('Das Eingangsdatum der AU ist ungültig.');
+  }
+
+  const existing = await listSickLeaveEpisodesForEmployee(tenantId, input.employeeId);
+  const others = existing.filter((episode) => episode.id !== input.id);
+  if (input.id && others.length === existing.length) {
+    throw new Error('Die Krankmeldung wurde nicht gefunden.');
+  }
+  const endDate = input.endDate ?? '9999-12-31';
+  const overlapping = others.find(
+    (episode) => episode.start_date <= endDate && (episode.end_date ?? '9999-12-31') >= input.startDate
+  );
+  if (overlapping) {
+    throw new Error(`Der Zeitraum überschneidet sich mit der Krankmeldung ab ${formatGermanDate(overlapping.start_date)}.`);
+  }
+  if (input.continuesEpisodeId) {
+    const previous = others.find((episode) => episode.id === input.continuesEpisodeId);
+    if (!previous || previous.start_date >= input.startDate) {
+      throw new Error('Eine Fortsetzungserkrankung muss an eine frühere Krankmeldung anschließen.');
+    }
+  }
+
+  const previous = input.id ? (existing.find((episode) => episode.id === input.id) ?? null) : null;
+  let documentFileName = previous?.document_file_name ?? null;
+  if (input.document && input.document.size > 0) {
+    const saved =
+      input.documentUploadedBy === 'employee'
+        ? await saveEmployeeDocumentFromFile(input.employeeId, input.document)
+        : await saveAdminDocumentFromFile({
+            tenantId,
+            employeeId: input.employeeId,
+            file: input.document,
+            documentType: 'sick_note',
+          });
+    documentFileName = saved.storedFileName;
+  }
+
+  const data = {
+    startDate: input.startDate,
+    endDate: input.endDate,
+    certificateReceivedAt: input.certificateReceivedAt,
+    continuesEpisodeId: input.continuesEpisodeId,
+    documentFileName,
+    note: input.note?.trim().slice(0, 500) || null,
+  };
+  let id: number;
+  if (input.id) {
+    await updateSickLeaveEpisode(tenantId, input.id, data);
+    id = input.id;
+  } else {
+    id = await createSickLeaveEpisode({
+      employeeId: input.employeeId,
+      ...data,
+      reportedByEmployee: input.reportedByEmployee ?? false,
+    });
+  }
+
+  // Only self-reported sickness is mirrored into the shift plan; an open end leaves the plan as it is.
+  const reported = previous ? previous.reported_by_employee === 1 : Boolean(input.reportedByEmployee);
+  if (reported && input.endDate) {
+    const changes = listSickReportDateChanges(
+      previous?.end_date ? { start: previous.start_date, end: previous.end_date } : null,
+      { start: input.startDate, end: input.endDate }
+    );
+    await restoreSickDaysInShiftPlan(tenantId, input.employeeId, id, changes.restore);
+    await markSickDaysInShiftPlan(tenantId, input.employeeId, id, changes.mark);
+  }
+  return id;
+}
+
+async function notifyAdminsAboutSickReport(
+  tenantId: string,
+  employee: EmployeeRecord,
+  kind: SickReportMailKind,
+  range: { start: string; end: string },
+  hasDocument: boolean
+): Promise<void> {
+  const recipients = await listBranchAdminEmails(tenantId, employee.id);
+  const fallback = process.env.ADMIN_EMAIL?.trim();
+  if (!recipients.length && fallback) {
+    recipients.push(fallback);
+  }
+  if (!recipients.length) return;
+
+  const companyName = await getTenantMailDisplayName(tenantId);
+  const employeeName = `${employee.first_name ?? ''} ${employee.last_name ?? ''}`.trim() || `ID ${employee.id}`;
+  const subjects: Record<SickReportMailKind, string> = {
+    reported: `Krankmeldung von ${employeeName}`,
+    extended: `Krankmeldung von ${employeeName} verlängert`,
+    shortened: `Krankmeldung von ${employeeName} beendet`,
+  };
+  const statusLines: Record<SickReportMailKind, string> = {
+    reported: `${employeeName} hat sich ab dem ${formatGermanDate(range.start)} krankgemeldet, voraussichtlich bis zum ${formatGermanDate(range.end)}.`,
+    extended: `${employeeName} ist weiterhin krank, voraussichtlich bis zum ${formatGermanDate(range.end)}.`,
+    shortened: `${employeeName} ist wieder gesund; letzter Krankheitstag ist der ${formatGermanDate(range.end)}.`,
+  };
+  const body = [
+    statusLines[kind],
+    '',
+    kind === 'shortened'
+      ? 'Die geplanten Schichten nach dem letzten Krankheitstag wurden im Schichtplan wiederhergestellt.'
+      : 'Die geplanten Schichten des Zeitraums sind im Schichtplan als krank markiert.',
+    hasDocument ? 'Eine AU-Bescheinigung wurde im Dokumentenbereich hochgeladen.' : 'Eine AU-Bescheinigung liegt noch nicht vor.',
+  ].join('\n');
+
+  const results = await Promise.allSettled(
+    recipients.map((recipient) => sendTextMail(recipient, subjects[kind], body, { fromName: companyName }))
+  );
+  const failed = results.filter((result) => result.status === 'rejected');
+  if (failed.length) {
+    console.error('[sick-leave] failed to send admin mail', { employeeId: employee.id, kind, failed: failed.length });
+  }
+}
+
+/** Sickness reported by the employee in the portal; the planned shifts of the period are marked as sick. */
+export async function reportSickness(tenantId: string, input: ReportSicknessInput): Promise<number> {
+  const employee = await getEmployeeById(tenantId, input.employeeId);
+  if (!employee) {
+    throw new Error('Mitarbeiter wurde nicht gefunden.');
+  }
+  const today = todayIso();
+  if (!isIsoDate(input.startDate)) {
+    throw new Error('Bitte den ersten Krankheitstag angeben.');
+  }
+  if (input.startDate > today) {
+    throw new Error('Eine Krankmeldung ist erst ab dem ersten Krankheitstag möglich.');
+  }
+  if (input.startDate < addDays(today, -SICK_REPORT_CHANGE_WINDOW_DAYS)) {
+    throw new Error('Ältere Krankheitszeiten trägt die Verwaltung nach.');
+  }
+  if (!input.expectedEndDate) {
+    throw new Error('Bitte angeben, bis wann du voraussichtlich krank bist.');
+  }
+  validateSickReportRange(input.startDate, input.expectedEndDate);
+
+  const hasDocument = Boolean(input.document && input.document.size > 0);
+  const id = await saveSickLeaveEpisode(tenantId, {
+    employeeId: input.employeeId,
+    startDate: input.startDate,
+    endDate: input.expectedEndDate,
+    certificateReceivedAt: hasDocument ? today : null,
+    continuesEpisodeId: null,
+    note: input.note,
+    document: input.document,
+    documentUploadedBy: 'employee',
+    reportedByEmployee: true,
+  });
+  await notifyAdminsAboutSickReport(
+    tenantId,
+    employee,
+    'reported',
+    { start: input.startDate, end: input.expectedEndDate },
+    hasDocument
+  );
+  return id;
+}
+
+/** Extends or ends a sickness the employee reported; a follow-up certificate can be attached. */
+export async function changeReportedSickness(tenantId: string, input: ChangeReportedSicknessInput): Promise<void> {
+  const employee = await getEmployeeById(tenantId, input.employeeId);
+  const episode = await getSickLeaveEpisodeById(tenantId, input.episodeId);
+  if (!employee || !episode || episode.employee_id !== input.employeeId) {
+    throw new Error('Die Krankmeldung wurde nicht gefunden.');
+  }
+  const today = todayIso();
+  if (
+    !isSickReportChangeable({ reportedByEmployee: episode.reported_by_employee === 1, endDate: episode.end_date }, today)
+  ) {
+    throw new Error('Diese Krankmeldung kann nur noch die Verwaltung ändern.');
+  }
+  if (!input.endDate) {
+    throw new Error('Bitte den letzten Krankheitstag angeben.');
+  }
+  validateSickReportRange(episode.start_date, input.endDate);
+
+  const hasDocument = Boolean(input.document && input.document.size > 0);
+  await saveSickLeaveEpisode(tenantId, {
+    id: episode.id,
+    employeeId: input.employeeId,
+    startDate: episode.start_date,
+    endDate: input.endDate,
+    certificateReceivedAt: hasDocument ? today : episode.certificate_received_at,
+    continuesEpisodeId: episode.continues_episode_id,
+    note: episode.note,
+    document: input.document,
+    documentUploadedBy: 'employee',
+  });
+
+  if (input.endDate === episode.end_date && !hasDocument) return;
+  const kind: SickReportMailKind = episode.end_date && input.endDate < episode.end_date ? 'shortened' : 'extended';
+  await notifyAdminsAboutSickReport(
+    tenantId,
+    employee,
+    kind,
+    { start: episode.start_date, end: input.endDate },
+    hasDocument || Boolean(episode.document_file_name)
+  );
+}
+
+export async function removeSickLeaveEpisode(tenantId: string, id: number): Promise<SickLeaveEpisodeRow> {
+  const episode = await getSickLeaveEpisodeById(tenantId, id);
+  if (!episode) {
+    throw new Error('Die Krankmeldung wurde nicht gefunden.');
+  }
+  if (episode.reported_by_employee === 1) {
+    await restoreSickDaysInShiftPlan(tenantId, episode.employee_id, episode.id);
+  }
+  await deleteSickLeaveEpisode(tenantId, id);
+  return episode;
+}
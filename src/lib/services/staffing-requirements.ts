@@ -0,0 +1,299 @@
+import { DateTime } from 'luxon';
+
+import { listBranches, type BranchScheduleRule, type BranchWeekday } from '@/lib/data/branches';
+import { listLeaveRequestsForEmployeesInDateRange } from '@/lib/data/leave-requests';
+import {
+  listStaffingRequirements,
+  type StaffingRequirementInput,
+  type StaffingRequirementRow,
+} from '@/lib/data/staffing-requirements';
+import { isHolidayIsoDate, normalizeHolidayRegion } from '@/lib/services/holidays';
+import { deriveCodeFromPlanLabel, type WeeklyShiftPlan } from '@/lib/services/shift-plan';
+
+const WEEKDAYS: BranchWeekday[] = ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY', 'SUNDAY'];
+const MAX_MIN_STAFF = 99;
+
+/** Width of a heatmap cell. */
+export const STAFFING_SLOT_MINUTES = 30;
+
+export type StaffingWindow = {
+  startsAtMinutes: number;
+  endsAtMinutes: number;
+  minStaff: number;
+};
+
+export type StaffingCoverageShift = {
+  employeeId: number;
+  isoDate: string;
+  branchId: number;
+  startMinutes: number;
+  endMinutes: number;
+};
+
+export type StaffingCoverageCell = {
+  startMinutes: number;
+  required: number;
+  planned: number;
+};
+
+export type StaffingCoverageBranch = {
+  branchId: number;
+  name: string;
+  fromMinutes: number;
+  toMinutes: number;
+  days: Array<{ isoDate: string; closedReason: string | null; cells: StaffingCoverageCell[] }>;
+  understaffedCells: number;
+  overstaffedCells: number;
+};
+
+function parseTime(value: unknown): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(String(value ?? '').trim());
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes >= 0 && minutes <= 1440 ? minutes : null;
+}
+
+/**
+ * Validates the windows entered for a branch. Every line needs either a weekday (0 = Monday) or a date, a
+ * time window and the number of employees.
+ */
+export function sanitizeStaffingRequirements(
+  entries: Array<{ weekday?: unknown; date?: unknown; start?: unknown; end?: unknown; minStaff?: unknown }>
+): StaffingRequirementInput[] {
+  return entries.map((entry, index) => {
+    const line = `Zeile ${index + 1}`;
+    const date = String(entry.date ?? '').trim();
+    const weekdayRaw = String(entry.weekday ?? '').trim();
+    if (date && !DateTime.fromISO(date).isValid) {
+      throw new Error(`${line}: Bitte ein gültiges Datum angeben.`);
+    }
+    const weekday = date ? null : Number.parseInt(weekdayRaw, 10);
+    if (weekday !== null && !(weekday >= 0 && weekday <= 6)) {
+      throw new Error(`${line}: Bitte einen Wochentag oder ein Datum wählen.`);
+    }
+    const startsAtMinutes = parseTime(entry.start);
+    const endsAtMinutes = parseTime(entry.end);
+    if (startsAtMinutes === null || endsAtMinutes === null) {
+      throw new Error(`${line}: Bitte Start- und Endzeit angeben.`);
+    }
+    if (endsAtMinutes <= startsAtMinutes) {
+      throw new Error(`${line}: Die Endzeit muss nach der Startzeit liegen.`);
+    }
+    const minStaff = Number(entry.minStaff);
+    if (!Number.isInteger(minStaff) || minStaff < 0 || minStaff > MAX_MIN_STAFF) {
+      throw new Error(`${line}: Die Besetzung muss zwischen 0 und ${MAX_MIN_STAFF} liegen.`);
+    }
+    return { weekday, date: date || null, startsAtMinutes, endsAtMinutes, minStaff };
+  });
+}
+
+/**
+ * Staffing windows of a branch on one day. Date overrides win; otherwise the weekday windows apply as soon as
+ * the branch has any, and branches without requirements fall back to the minimum staffing of their opening
+ * segments.
+ */
+export function resolveStaffingWindows(
+  schedule: BranchScheduleRule[],
+  requirements: StaffingRequirementRow[],
+  isoDate: string,
+  weekdayIndex: number
+): StaffingWindow[] {
+  const toWindow = (row: StaffingRequirementRow): StaffingWindow => ({
+    startsAtMinutes: row.starts_at_minutes,
+    endsAtMinutes: row.ends_at_minutes,
+    minStaff: row.min_staff,
+  });
+  const overrides = requirements.filter((row) => row.date === isoDate);
+  if (overrides.length) {
+    return overrides.map(toWindow);
+  }
+  const weekly = requirements.filter((row) => row.date === null);
+  if (weekly.length) {
+    return weekly.filter((row) => row.weekday === weekdayIndex).map(toWindow);
+  }
+  return schedule
+    .filter(
+      (rule) =>
+        rule.weekday === WEEKDAYS[weekdayIndex] &&
+        rule.isActive &&
+        rule.startsAtMinutes != null &&
+        rule.endsAtMinutes != null
+    )
+    .sort((a, b) => a.segmentIndex - b.segmentIndex)
+    .map((rule) => ({
+      startsAtMinutes: rule.startsAtMinutes!,
+      endsAtMinutes: rule.endsAtMinutes!,
+      minStaff: rule.minStaff,
+    }));
+}
+
+/** Public holidays in the region of the branch, with the reason shown to admins. */
+export function branchClosedDays(
+  branch: { federalState: string | null; country: string | null },
+  days: string[]
+): Record<string, string> {
+  const region = normalizeHolidayRegion(branch.federalState ?? branch.country ?? null);
+  const closedDays: Record<string, string> = {};
+  if (!region) return closedDays;
+  for (const isoDate of days) {
+    const holiday = isHolidayIsoDate(isoDate, region);
+    if (holiday.isHoliday) {
+      closedDays[isoDate] = holiday.name ? `Feiertag (${holiday.name})` : 'Feiertag';
+    }
+  }
+  return closedDays;
+}
+
+/**
+ * Half-hour grid of required against planned staff per branch and day. A window or shift that touches a cell
+ * counts for the whole cell. Branches without windows and shifts in the week are left out.
+ */
+export function buildStaffingCoverage(input: {
+  days: string[];
+  branches: Array<{
+    id: number;
+    name: string;
+    windowsByDate: Record<string, StaffingWindow[]>;
+    closedDays: Record<string, string>;
+  }>;
+  shifts: StaffingCoverageShift[];
+}): StaffingCoverageBranch[] {
+  const result: StaffingCoverageBranch[] = [];
+  for (const branch of input.branches) {
+    const shifts = input.shifts.filter((shift) => shift.branchId === branch.id);
+    const windows = input.days.flatMap((isoDate) => branch.windowsByDate[isoDate] ?? []);
+    const starts = [...windows.map((window) => window.startsAtMinutes), ...shifts.map((shift) => shift.startMinutes)];
+    const ends = [...windows.map((window) => window.endsAtMinutes), ...shifts.map((shift) => shift.endMinutes)];
+    if (!starts.length) continue;
+
+    const fromMinutes = Math.floor(Math.min(...starts) / STAFFING_SLOT_MINUTES) * STAFFING_SLOT_MINUTES;
+    const toMinutes = Math.ceil(Math.max(...ends) / STAFFING_SLOT_MINUTES) * STAFFING_SLOT_MINUTES;
+    let understaffedCells = 0;
+    let overstaffedCells = 0;
+
+    const days = input.days.map((isoDate) => {
+      const dayWindows = branch.windowsByDate[isoDate] ?? [];
+      const dayShifts = shifts.filter((shift) => shift.isoDate === isoDate);
+      const cells: StaffingCoverageCell[] = [];
+      for (let start = fromMinutes; start < toMinutes; start += STAFFING_SLOT_MINUTES) {
+        const end = start + STAFFING_SLOT_MINUTES;
+        const required = Math.max(
+          0,
+          ...dayWindows
+            .filter((window) => window.startsAtMinutes < end && window.endsAtMinutes > start)
+            .map((window) => window.minStaff)
+        );
+        const planned = new Set(
+          dayShifts
+            .filter((shift) => shift.startMinutes < end && shift.endMinutes > start)
+            .map((shift) => shift.employeeId)
+        ).size;
+        if (planned < required) understaffedCells += 1;
+        if (planned > required) overstaffedCells += 1;
+        cells.push({ startMinutes: start, required, planned });
+      }
+      return { isoDate, closedReason: branch.closedDays[isoDate] ?? null, cells };
+    });
+
+    result.push({
+      branchId: branch.id,
+      name: branch.name,
+      fromMinutes,
+      toMinutes,
+      days,
+      understaffedCells,
+      overstaffedCells,
+    });
+  }
+  return result;
+}
+
+function timeToMinutes(value: string | null): number | null {
+  return value ? parseTime(value) : null;
+}
+
+/**
+ * Coverage pieces of a shift: a shift ending at or before its start runs past midnight and also covers the
+ * next day up to its end. Without a next day in the plan the part after midnight is dropped.
+ */
+export function splitShiftAtMidnight(
+  shift: StaffingCoverageShift,
+  nextIsoDate: string | null
+): StaffingCoverageShift[] {
+  if (shift.endMinutes > shift.startMinutes) {
+    return [shift];
+  }
+  const pieces: StaffingCoverageShift[] = [{ ...shift, endMinutes: 1440 }];
+  if (nextIsoDate && shift.endMinutes > 0) {
+    pieces.push({ ...shift, isoDate: nextIsoDate, startMinutes: 0 });
+  }
+  return pieces;
+}
+
+/**
+ * Coverage of the weekly plan shown on the admin board. Shifts without a branch count for the only branch of
+ * the employee; shifts on days with approved leave do not count.
+ */
+export async function getStaffingCoverage(tenantId: string, plan: WeeklyShiftPlan): Promise<StaffingCoverageBranch[]> {
+  const days = plan.days.map((day) => day.isoDate);
+  const [branches, requirements, leaveRequests] = await Promise.all([
+    listBranches(tenantId),
+    listStaffingRequirements(tenantId, { from: plan.weekStart, to: plan.weekEnd }),
+    listLeaveRequestsForEmployeesInDateRange(
+      tenantId,
+      plan.rows.map((row) => row.employeeId),
+      plan.weekStart,
+      plan.weekEnd,
+      5000
+    ),
+  ]);
+
+  const onLeave = new Set<string>();
+  for (const request of leaveRequests) {
+    if (request.status !== 'approved' || request.cancelled_at) continue;
+    for (const isoDate of days) {
+      if (isoDate >= request.start_date && isoDate <= request.end_date) {
+        onLeave.add(`${request.employee_id}:${isoDate}`);
+      }
+    }
+  }
+
+  const shifts: StaffingCoverageShift[] = [];
+  for (const row of plan.rows) {
+    const fallbackBranchId = row.branches.length === 1 ? row.branches[0]!.id : null;
+    for (const cell of row.cells) {
+      if (onLeave.has(`${row.employeeId}:${cell.isoDate}`)) continue;
+      const nextIsoDate = days[days.indexOf(cell.isoDate) + 1] ?? null;
+      for (const segment of cell.segments) {
+        const branchId = segment.branchId ?? fallbackBranchId;
+        const startMinutes = timeToMinutes(segment.start);
+        const endMinutes = timeToMinutes(segment.end);
+        // Labelled shifts count; only labels that stand for an absence code keep the employee off the floor.
+        if (segment.mode !== 'available' || deriveCodeFromPlanLabel(segment.label) || !branchId) continue;
+        if (startMinutes === null || endMinutes === null) continue;
+        shifts.push(
+          ...splitShiftAtMidnight(
+            { employeeId: row.employeeId, isoDate: cell.isoDate, branchId, startMinutes, endMinutes },
+            nextIsoDate
+          )
+        );
+      }
+    }
+  }
+
+  return buildStaffingCoverage({
+    days,
+    shifts,
+    branches: branches.map((branch) => {
+      const closedDays = branchClosedDays(branch, days);
+      const branchRequirements = requirements.filter((row) => row.branch_id === branch.id);
+      const windowsByDate: Record<string, StaffingWindow[]> = {};
+      days.forEach((isoDate, index) => {
+        windowsByDate[isoDate] = closedDays[isoDate]
+          ? []
+          : resolveStaffingWindows(branch.schedule, branchRequirements, isoDate, index);
+      });
+      return { id: branch.id, name: branch.name, windowsByDate, closedDays };
+    }),
+  });
+}
@@ -0,0 +1,211 @@
+import { DateTime } from 'luxon';
+
+import { listBranchesForEmployee } from '@/lib/data/branches';
+import { listDailyDayRecordsForEmployees, type DailyDayRecord } from '@/lib/data/daily-days';
+import { getEmployeeFederalState } from '@/lib/data/employees';
+import { getSurchargeSettings, type SurchargeSettings } from '@/lib/data/surcharge-settings';
+import { isHolidayIsoDate, normalizeHolidayRegion } from '@/lib/services/holidays';
+import { buildShiftIntervals, calculateIstHours, parseTimeString } from '@/lib/services/time-calculations';
+
+export interface SurchargeHours {
+  nightHours: number;
+  sundayHours: number;
+  holidayHours: number;
+}
+
+export interface EmployeeSurchargeSummary extends SurchargeHours {
+  nightPercent: number;
+  sundayPercent: number;
+  holidayPercent: number;
+}
+
+type SurchargeDayInput = Pick<DailyDayRecord, 'day_date' | 'segments' | 'pause'>;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+function toMinutesOfDay(value: string): number | null {
+  const parsed = parseTimeString(value);
+  return parsed ? parsed.hour * 60 + parsed.minute : null;
+}
+
+function round2(value: number): number {
+  return Number(value.toFixed(2));
+}
+
+function isNightMinute(minuteOfDay: number, nightStart: number, nightEnd: number): boolean {
+  if (nightStart === nightEnd) return false;
+  if (nightStart < nightEnd) {
+    return minuteOfDay >= nightStart && minuteOfDay < nightEnd;
+  }
+  return minuteOfDay >= nightStart || minuteOfDay < nightEnd;
+}
+
+function clampPercent(value: unknown, fallback: number): number {
+  const numeric = Number(value);
+  if (!Number.isFinite(numeric)) return fallback;
+  return Math.min(Math.max(Math.round(numeric), 0), 500);
+}
+
+export function sanitizeSurchargeSettings(input: Partial<SurchargeSettings>): {
+  settings: SurchargeSettings;
+  error: string | null;
+} {
+  const nightStart = (input.nightStart ?? '').trim();
+  const nightEnd = (input.nightEnd ?? '').trim();
+  const settings: SurchargeSettings = {
+    enabled: Boolean(input.enabled),
+    nightStart,
+    nightEnd,
+    nightPercent: clampPercent(input.nightPercent, 0),
+    sundayPercent: clampPercent(input.sundayPercent, 0),
+    holidayPercent: clampPercent(input.holidayPercent, 0),
+    holidayRegion: normalizeHolidayRegion(input.holidayRegion),
+  };
+
+  if (!parseTimeString(nightStart) || !parseTimeString(nightEnd)) {
+    return { settings, error: 'Bitte Beginn und Ende der Nachtarbeit im Format HH:MM angeben.' };
+  }
+  return { settings, error: null };
+}
+
+/**
+ * Holidays follow the federal state of the employee's (first) branch, as that is where the work is done; the
+ * state stored on the employee and the tenant's default region only apply when the branch has none.
+ */
+export function resolveSurchargeRegion(
+  branchFederalState: string | null | undefined,
+  employeeFederalState: string | null | undefined,
+  settings: Pick<SurchargeSettings, 'holidayRegion'>
+): string | null {
+  return (
+    normalizeHolidayRegion(branchFederalState) ??
+    normalizeHolidayRegion(employeeFederalState) ??
+    normalizeHolidayRegion(settings.holidayRegion)
+  );
+}
+
+/**
+ * Splits the worked time of one entry into surcharge buckets. Every minute is judged by the calendar
+ * day it falls on, so the part of a night shift after midnight counts for the following day.
+ * Holiday minutes are not counted as Sunday minutes; night minutes are counted on top of either.
+ * The pause is spread proportionally because the entry does not record when it was taken.
+ */
+export function calculateDaySurcharges(
+  entry: SurchargeDayInput,
+  settings: SurchargeSettings,
+  isHoliday: (isoDate: string) => boolean
+): SurchargeHours {
+  const result: SurchargeHours = { nightHours: 0, sundayHours: 0, holidayHours: 0 };
+  const intervals = buildShiftIntervals(entry.segments);
+  const ist = calculateIstHours(entry.segments, entry.pause ?? 'Keine');
+  if (!intervals.length || ist.rawHours <= 0) {
+    return result;
+  }
+
+  const nightStart = toMinutesOfDay(settings.nightStart);
+  const nightEnd = toMinutesOfDay(settings.nightEnd);
+  const dayStart = DateTime.fromISO(entry.day_date);
+  let nightMinutes = 0;
+  let sundayMinutes = 0;
+  let holidayMinutes = 0;
+
+  for (const interval of intervals) {
+    const cuts = new Set<number>([interval.startMinutes, interval.endMinutes]);
+    const firstDay = Math.floor(interval.startMinutes / MINUTES_PER_DAY);
+    const lastDay = Math.floor(interval.endMinutes / MINUTES_PER_DAY);
+    for (let day = firstDay; day <= lastDay; day += 1) {
+      for (const offset of [0, nightStart, nightEnd]) {
+        if (offset === null) continue;
+        const cut = day * MINUTES_PER_DAY + offset;
+        if (cut > interval.startMinutes && cut < interval.endMinutes) {
+          cuts.add(cut);
+        }
+      }
+    }
+
+    const points = Array.from(cuts).sort((a, b) => a - b);
+    for (let index = 1; index < points.length; index += 1) {
+      const start = points[index - 1]!;
+      const minutes = points[index]! - start;
+      const dayOffset = Math.floor(start / MINUTES_PER_DAY);
+      const calendarDay = dayStart.plus({ days: dayOffset });
+      const holiday = isHoliday(calendarDay.toISODate() ?? '');
+
+      if (nightStart !== null && nightEnd !== null && isNightMinute(start % MINUTES_PER_DAY, nightStart, nightEnd)) {
+        nightMinutes += minutes;
+      }
+      if (holiday) {
+        holidayMinutes += minutes;
+      } else if (calendarDay.weekday === 7) {
+        sundayMinutes += minutes;
+      }
+    }
+  }
+
+  const ratio = ist.netHours / ist.rawHours;
+  const toNetHours = (minutes: number) => round2((minutes / 60) * ratio);
+  return {
+    nightHours: settings.nightPercent > 0 ? toNetHours(nightMinutes) : 0,
+    sundayHours: settings.sundayPercent > 0 ? toNetHours(sundayMinutes) : 0,
+    holidayHours: settings.holidayPercent > 0 ? toNetHours(holidayMinutes) : 0,
+  };
+}
+
+export function summarizeSurcharges(
+  records: SurchargeDayInput[],
+  settings: SurchargeSettings,
+  region: string | null
+): EmployeeSurchargeSummary {
+  const holidayCache = new Map<string, boolean>();
+  const isHoliday = (isoDate: string) => {
+    const cached = holidayCache.get(isoDate);
+    if (cached !== undefined) return cached;
+    const value = isHolidayIsoDate(isoDate, region).isHoliday;
+    holidayCache.set(isoDate, value);
+    return value;
+  };
+
+  const totals = records.reduce<SurchargeHours>(
+    (acc, record) => {
+      const day = calculateDaySurcharges(record, settings, isHoliday);
+      acc.nightHours += day.nightHours;
+      acc.sundayHours += day.sundayHours;
+      acc.holidayHours += day.holidayHours;
+      return acc;
+    },
+    { nightHours: 0, sundayHours: 0, holidayHours: 0 }
+  );
+
+  return {
+    nightHours: round2(totals.nightHours),
+    sundayHours: round2(totals.sundayHours),
+    holidayHours: round2(totals.holidayHours),
+    nightPercent: settings.nightPercent,
+    sundayPercent: settings.sundayPercent,
+    holidayPercent: settings.holidayPercent,
+  };
+}
+
+export async function getEmployeeMonthlySurcharges(
+  tenantId: string,
+  employeeId: number,
+  year: number,
+  month: number
+): Promise<EmployeeSurchargeSummary | null> {
+  const settings = await getSurchargeSettings(tenantId);
+  if (!settings.enabled) {
+    return null;
+  }
+
+  const monthStart = DateTime.fromObject({ year, month, day: 1 });
+  const [records, branches, federalState] = await Promise.all([
+    listDailyDayRecordsForEmployees([employeeId], monthStart.toISODate()!, monthStart.endOf('month').toISODate()!),
+    listBranchesForEmployee(tenantId, employeeId),
+    getEmployeeFederalState(tenantId, employeeId),
+  ]);
+  return summarizeSurcharges(
+    records,
+    settings,
+    resolveSurchargeRegion(branches[0]?.federalState, federalState, settings)
+  );
+}
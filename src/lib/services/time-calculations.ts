@@ -75,27 +75,152 @@ export interface IstCalculationResult {
   effectivePauseHours: number;
 }
 
-function spanHours(start: string | null | undefined, end: string | null | undefined): number {
-  const startTime = parseTimeString(start ?? undefined);
-  const endTime = parseTimeString(end ?? undefined);
-  if (!startTime || !endTime) {
-    return 0;
+export interface ShiftInterval {
+  /** Minutes relative to 00:00 of the entry's day; values >= 1440 fall on the following day. */
+  startMinutes: number;
+  endMinutes: number;
+}
+
+export interface CalendarDayHours {
+  dayDate: string;
+  rawHours: number;
+  netHours: number;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+function toMinutesOfDay(value: string | null | undefined): number | null {
+  const parsed = parseTimeString(value ?? undefined);
+  return parsed ? parsed.hour * 60 + parsed.minute : null;
+}
+
+export interface WorkSegment {
+  kommt: string | null;
+  geht: string | null;
+  /** Stamps before time rounding; only present when rounding changed kommt/geht. */
+  kommtRaw?: string | null;
+  gehtRaw?: string | null;
+}
+
+/** Builds a segment list from the legacy two-block Kommt/Geht fields, skipping empty blocks. */
+export function segmentsFromPairs(
+  kommt1: string | null | undefined,
+  geht1: string | null | undefined,
+  kommt2?: string | null | undefined,
+  geht2?: string | null | undefined
+): WorkSegment[] {
+  return [
+    { kommt: kommt1 ?? null, geht: geht1 ?? null },
+    { kommt: kommt2 ?? null, geht: geht2 ?? null },
+  ].filter((segment) => segment.kommt || segment.geht);
+}
+
+/** Formats segments for display and change summaries, e.g. "08:00–12:00, 13:00–17:00". */
+export function formatWorkSegments(segments: readonly WorkSegment[]): string {
+  return segments
+    .filter((segment) => segment.kommt || segment.geht)
+    .map((segment) => `${segment.kommt || '—'}–${segment.geht || '—'}`)
+    .join(', ');
+}
+
+/**
+ * Lays the Kommt/Geht segments of one entry onto a continuous timeline starting at 00:00 of the entry day.
+ * A segment ending before it starts runs past midnight, and a segment starting before the previous one
+ * ended is taken to begin on the following day, so 22:00–01:00 / 01:30–04:00 is one night shift.
+ */
+export function buildShiftIntervals(segments: readonly WorkSegment[]): ShiftInterval[] {
+  const intervals: ShiftInterval[] = [];
+  let cursor = 0;
+  for (const segment of segments) {
+    const startOfDay = toMinutesOfDay(segment.kommt);
+    const endOfDay = toMinutesOfDay(segment.geht);
+    if (startOfDay === null || endOfDay === null) continue;
+    let startMinutes = startOfDay;
+    while (startMinutes < cursor) {
+      startMinutes += MINUTES_PER_DAY;
+    }
+    let endMinutes = startMinutes - startOfDay + endOfDay;
+    if (endMinutes < startMinutes) {
+      endMinutes += MINUTES_PER_DAY;
+    }
+    intervals.push({ startMinutes, endMinutes });
+    cursor = endMinutes;
   }
-  let diff = timeToDecimalHours(endTime) - timeToDecimalHours(startTime);
-  if (diff < 0) {
-    diff += 24;
+  return intervals;
+}
+
+function addDaysIso(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Attributes the worked time of one entry to the calendar days it actually touches.
+ * The pause is spread proportionally, as the entry does not record when it was taken.
+ */
+export function splitHoursByCalendarDay(
+  dayDate: string,
+  segments: readonly WorkSegment[],
+  pause: string | null | undefined
+): CalendarDayHours[] {
+  const minutesByOffset = new Map<number, number>();
+  for (const interval of buildShiftIntervals(segments)) {
+    let start = interval.startMinutes;
+    while (start < interval.endMinutes) {
+      const offset = Math.floor(start / MINUTES_PER_DAY);
+      const end = Math.min(interval.endMinutes, (offset + 1) * MINUTES_PER_DAY);
+      minutesByOffset.set(offset, (minutesByOffset.get(offset) ?? 0) + (end - start));
+      start = end;
+    }
   }
-  return Math.max(diff, 0);
+
+  const ist = calculateIstHours(segments, pause);
+  const ratio = ist.rawHours > 0 ? ist.netHours / ist.rawHours : 0;
+  const parts = Array.from(minutesByOffset.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([offset, minutes]) => ({
+      dayDate: addDaysIso(dayDate, offset),
+      rawHours: Number((minutes / 60).toFixed(2)),
+      netHours: Number(((minutes / 60) * ratio).toFixed(2)),
+    }));
+  // The last day takes the rounding remainder so the parts always add up to the entry's net hours.
+  if (parts.length > 1) {
+    const leading = parts.slice(0, -1).reduce((sum, part) => sum + part.netHours, 0);
+    parts[parts.length - 1].netHours = Number(Math.max(ist.netHours - leading, 0).toFixed(2));
+  }
+  return parts;
+}
+
+/**
+ * Share of the planned net hours that falls after midnight on a day for which `isHoliday` holds. Those hours are
+ * holiday hours even though the shift is booked on the day it starts.
+ */
+export function plannedHoursOnFollowingHolidays(
+  dayDate: string,
+  plan: { start: string | null; end: string | null },
+  planNetHours: number,
+  isHoliday: (isoDate: string) => boolean
+): number {
+  if (!plan.start || !plan.end || planNetHours <= 0) return 0;
+  const parts = splitHoursByCalendarDay(dayDate, [{ kommt: plan.start, geht: plan.end }], 'Keine');
+  const rawTotal = parts.reduce((sum, part) => sum + part.rawHours, 0);
+  const holidayRaw = parts
+    .filter((part) => part.dayDate !== dayDate && isHoliday(part.dayDate))
+    .reduce((sum, part) => sum + part.rawHours, 0);
+  if (rawTotal <= 0 || holidayRaw <= 0) return 0;
+  return Number(((holidayRaw / rawTotal) * planNetHours).toFixed(2));
 }
 
 export function calculateIstHours(
-  kommt1: string | null | undefined,
-  geht1: string | null | undefined,
-  kommt2: string | null | undefined,
-  geht2: string | null | undefined,
+  segments: readonly WorkSegment[],
   pause: string | null | undefined
 ): IstCalculationResult {
-  const totalRaw = spanHours(kommt1, geht1) + spanHours(kommt2, geht2);
+  const totalRaw =
+    buildShiftIntervals(segments).reduce(
+      (sum, interval) => sum + (interval.endMinutes - interval.startMinutes),
+      0
+    ) / 60;
   const legalPause = calculateLegalPauseHours(totalRaw);
   const manualPause = pauseStringToHours(pause);
   const effectivePause = Math.max(legalPause, manualPause);
@@ -0,0 +1,383 @@
+import { revalidatePath } from 'next/cache';
+import { DateTime } from 'luxon';
+
+import type { DailyDaySnapshot } from '@/lib/data/daily-day-history';
+import { getDailyDay } from '@/lib/data/daily-days';
+import { getEmployeeById, getEmployeeDisplayNamesByIds } from '@/lib/data/employees';
+import { getMonthlyClosing } from '@/lib/data/monthly-closings';
+import {
+  countPendingTimeCorrectionRequests as countPendingTimeCorrectionRequestRows,
+  createTimeCorrectionRequest,
+  deleteTimeCorrectionRequest,
+  findPendingTimeCorrectionRequest,
+  getTimeCorrectionRequestById,
+  listTimeCorrectionRequests,
+  listTimeCorrectionRequestsForEmployee,
+  reopenTimeCorrectionRequest,
+  updateTimeCorrectionRequestStatus,
+  type TimeCorrectionProposal,
+  type TimeCorrectionRequestRow,
+  type TimeCorrectionRequestStatus,
+} from '@/lib/data/time-correction-requests';
+import { closeMonthlyClosing, reopenMonthlyClosing } from '@/lib/services/admin/monthly-closing';
+import { toDailyDaySnapshot } from '@/lib/services/daily-day-history';
+import { sendTextMail } from '@/lib/services/email';
+import { getTenantMailDisplayName } from '@/lib/services/leave-requests';
+import { formatWorkSegments } from '@/lib/services/time-calculations';
+import { createAdminTimeEntry, normalizePause, normalizeTimeInput } from '@/lib/services/time-entry';
+
+const STATUS_LABEL: Record<TimeCorrectionRequestStatus, string> = {
+  pending: 'Offen',
+  approved: 'Übernommen',
+  rejected: 'Abgelehnt',
+};
+
+export type TimeCorrectionChange = {
+  label: string;
+  before: string;
+  after: string;
+};
+
+export type TimeCorrectionRequestView = {
+  id: number;
+  employeeId: number;
+  employeeName: string | null;
+  dayDate: string;
+  reason: string;
+  status: TimeCorrectionRequestStatus;
+  statusLabel: string;
+  adminNote: string | null;
+  decidedAt: string | null;
+  createdAt: string;
+  changes: TimeCorrectionChange[];
+};
+
+export type SubmitTimeCorrectionRequestInput = {
+  employeeId: number;
+  dayDate: string;
+  segmentsRaw: Array<{ kommt: string | null; geht: string | null }>;
+  pauseRaw?: string | null;
+  codeRaw?: string | null;
+  mittagRaw?: string | null;
+  bemerkungenRaw?: string | null;
+  reason?: string | null;
+};
+
+export type DecideTimeCorrectionRequestInput = {
+  requestId: number;
+  status: 'approved' | 'rejected';
+  adminId: number | null;
+  adminName: string | null;
+  adminNote?: string | null;
+};
+
+function displayValue(value: string | null | undefined): string {
+  const trimmed = value?.trim() ?? '';
+  return trimmed.length ? trimmed : '—';
+}
+
+/** Compares the submitted proposal with the day it is meant to replace. */
+export function diffTimeCorrection(
+  current: DailyDaySnapshot | null,
+  proposed: TimeCorrectionProposal
+): TimeCorrectionChange[] {
+  const fields: TimeCorrectionChange[] = [
+    {
+      label: 'Zeiten',
+      before: displayValue(current ? formatWorkSegments(current.segments) : null),
+      after: displayValue(formatWorkSegments(proposed.segments)),
+    },
+    { label: 'Pause', before: displayValue(current?.pause), after: displayValue(proposed.pause) },
+    { label: 'Code', before: displayValue(current?.code), after: displayValue(proposed.code) },
+    { label: 'Mittag', before: displayValue(current?.mittag), after: displayValue(proposed.mittag) },
+    { label: 'Notiz', before: displayValue(current?.bemerkungen), after: displayValue(proposed.bemerkungen) },
+  ];
+  return fields.filter((field) => field.before !== field.after);
+}
+
+function mapRowToView(row: TimeCorrectionRequestRow, employeeName?: string | null): TimeCorrectionRequestView {
+  return {
+    id: row.id,
+    employeeId: row.employee_id,
+    employeeName: employeeName ?? null,
+    dayDate: row.day_date,
+    reason: row.reason,
+    status: row.status,
+    statusLabel: STATUS_LABEL[row.status],
+    adminNote: row.admin_note,
+    decidedAt: row.decided_at,
+    createdAt: row.created_at,
+    changes: diffTimeCorrection(row.current, row.proposed),
+  };
+}
+
+function formatIsoDateForMail(isoDate: string): string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(isoDate);
+  if (!match) return isoDate;
+  return `${match[3]}.${match[2]}.${match[1]}`;
+}
+
+function formatChangesForMail(changes: TimeCorrectionChange[]): string[] {
+  return changes.map((change) => `${change.label}: ${change.before} → ${change.after}`);
+}
+
+async function notifyAdminAboutCorrectionRequest(
+  tenantId: string,
+  row: TimeCorrectionRequestRow
+): Promise<void> {
+  const adminEmail = process.env.ADMIN_EMAIL?.trim();
+  if (!adminEmail) return;
+  const employee = await getEmployeeById(tenantId, row.employee_id);
+  if (!employee) return;
+
+  const employeeName = `${employee.first_name ?? ''} ${employee.last_name ?? ''}`.trim();
+  const subject = `Korrekturantrag von ${employeeName} für den ${formatIsoDateForMail(row.day_date)}`;
+  const body = [
+    `Mitarbeiter ${employeeName} (ID ${employee.id}) bittet um eine Korrektur des ${formatIsoDateForMail(row.day_date)}.`,
+    '',
+    ...formatChangesForMail(diffTimeCorrection(row.current, row.proposed)),
+    '',
+    `Begründung: ${row.reason}`,
+  ].join('\n');
+  try {
+    await sendTextMail(adminEmail, subject, body);
+  } catch (error) {
+    console.error('[time-correction-requests] failed to send admin mail', { requestId: row.id, error });
+  }
+}
+
+async function notifyEmployeeAboutCorrectionDecision(
+  tenantId: string,
+  row: TimeCorrectionRequestRow,
+  decision: 'approved' | 'rejected',
+  adminNote?: string | null
+): Promise<void> {
+  const employee = await getEmployeeById(tenantId, row.employee_id);
+  const recipient = employee?.email?.trim();
+  if (!employee || !recipient) {
+    return;
+  }
+  const companyName = await getTenantMailDisplayName(tenantId);
+  const employeeName = `${employee.first_name} ${employee.last_name}`.trim() || 'Mitarbeiter';
+  const dateLabel = formatIsoDateForMail(row.day_date);
+
+  const subject =
+    decision === 'approved'
+      ? `${companyName}: Korrektur übernommen`
+      : `${companyName}: Korrekturantrag abgelehnt`;
+  const statusLine =
+    decision === 'approved'
+      ? `Deine Korrektur für den ${dateLabel} wurde übernommen.`
+      : `Dein Korrekturantrag für den ${dateLabel} wurde abgelehnt.`;
+
+  const body = [
+    `Hallo ${employeeName},`,
+    '',
+    statusLine,
+    '',
+    ...formatChangesForMail(diffTimeCorrection(row.current, row.proposed)),
+    ...(adminNote?.trim() ? ['', `Hinweis der Verwaltung: ${adminNote.trim()}`] : []),
+    '',
+    'Viele Grüße',
+    companyName,
+  ].join('\n');
+
+  try {
+    await sendTextMail(recipient, subject, body, { fromName: companyName });
+  } catch (error) {
+    console.error('[time-correction-requests] failed to send decision mail', {
+      requestId: row.id,
+      employeeId: row.employee_id,
+      recipient,
+      decision,
+      error,
+    });
+  }
+}
+
+export async function submitTimeCorrectionRequest(
+  tenantId: string,
+  input: SubmitTimeCorrectionRequestInput
+): Promise<TimeCorrectionRequestView> {
+  const employee = await getEmployeeById(tenantId, input.employeeId);
+  if (!employee) {
+    throw new Error('Mitarbeiter wurde nicht gefunden.');
+  }
+
+  const dayDate = input.dayDate.trim();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dayDate) || !DateTime.fromISO(dayDate).isValid) {
+    throw new Error('Bitte ein gültiges Datum auswählen.');
+  }
+  const today = DateTime.now().setZone('Europe/Berlin').toISODate() ?? '';
+  if (dayDate > today) {
+    throw new Error('Korrekturen sind nur für vergangene Tage möglich.');
+  }
+
+  const reason = input.reason?.trim() ?? '';
+  if (!reason) {
+    throw new Error('Bitte begründe die Korrektur.');
+  }
+  if (reason.length > 500) {
+    throw new Error('Die Begründung darf maximal 500 Zeichen enthalten.');
+  }
+
+  if (await findPendingTimeCorrectionRequest(input.employeeId, dayDate)) {
+    throw new Error('Für diesen Tag liegt bereits ein offener Korrekturantrag vor.');
+  }
+
+  const segments = input.segmentsRaw
+    .map((segment) => ({ kommt: normalizeTimeInput(segment.kommt), geht: normalizeTimeInput(segment.geht) }))
+    .filter((segment) => segment.kommt || segment.geht);
+  const code = input.codeRaw?.trim().toUpperCase() || 'RA';
+  const proposed: TimeCorrectionProposal = {
+    segments,
+    pause: normalizePause(input.pauseRaw) ?? 'Keine',
+    code,
+    mittag: (input.mittagRaw ?? 'Nein').trim().toLowerCase() === 'ja' ? 'Ja' : 'Nein',
+    bemerkungen: input.bemerkungenRaw?.trim() || null,
+  };
+  if (code === 'RA' && !segments.some((segment) => segment.kommt && segment.geht)) {
+    throw new Error('Bitte mindestens einen vollständigen Kommt/Geht-Block angeben.');
+  }
+
+  const current = toDailyDaySnapshot(await getDailyDay(input.employeeId, dayDate));
+  if (!diffTimeCorrection(current, proposed).length) {
+    throw new Error('Die vorgeschlagenen Werte entsprechen bereits dem gespeicherten Tag.');
+  }
+
+  const id = await createTimeCorrectionRequest({
+    employeeId: input.employeeId,
+    dayDate,
+    reason,
+    proposed,
+    current,
+  });
+  const row = await getTimeCorrectionRequestById(tenantId, id);
+  if (!row) {
+    throw new Error('Der Korrekturantrag konnte nicht gespeichert werden.');
+  }
+  await notifyAdminAboutCorrectionRequest(tenantId, row);
+  return mapRowToView(row, `${employee.first_name} ${employee.last_name}`.trim());
+}
+
+export async function getTimeCorrectionRequestsForEmployee(
+  tenantId: string,
+  employeeId: number
+): Promise<TimeCorrectionRequestView[]> {
+  const rows = await listTimeCorrectionRequestsForEmployee(tenantId, employeeId);
+  return rows.map((row) => mapRowToView(row));
+}
+
+export async function getTimeCorrectionRequestsForAdmin(
+  tenantId: string,
+  status: TimeCorrectionRequestStatus | 'all' = 'all'
+): Promise<TimeCorrectionRequestView[]> {
+  const rows = await listTimeCorrectionRequests(tenantId, status);
+  const employeeNameMap = await getEmployeeDisplayNamesByIds(
+    tenantId,
+    rows.map((row) => row.employee_id)
+  );
+  return rows
+    .map((row) => mapRowToView(row, employeeNameMap.get(row.employee_id) ?? null))
+    .sort((a, b) => {
+      const weightA = a.status === 'pending' ? 0 : 1;
+      const weightB = b.status === 'pending' ? 0 : 1;
+      return weightA !== weightB ? weightA - weightB : b.createdAt.localeCompare(a.createdAt);
+    });
+}
+
+export async function countPendingTimeCorrectionRequests(tenantId: string): Promise<number> {
+  return countPendingTimeCorrectionRequestRows(tenantId);
+}
+
+/**
+ * Applies an approved correction through the regular admin entry path. A closed month is reopened
+ * for the change and closed again afterwards, also when applying the change fails.
+ */
+async function applyTimeCorrection(
+  tenantId: string,
+  row: TimeCorrectionRequestRow,
+  input: DecideTimeCorrectionRequestInput
+): Promise<{ status: 'success' | 'error'; message: string }> {
+  const [year, month] = row.day_date.split('-').map(Number);
+  const closing = await getMonthlyClosing(row.employee_id, year, month);
+  const wasClosed = closing?.status === 'closed';
+  if (wasClosed) {
+    await reopenMonthlyClosing(row.employee_id, year, month);
+  }
+
+  const brutto = row.current?.brutto;
+  try {
+    return await createAdminTimeEntry({
+      tenantId,
+      employeeId: row.employee_id,
+      dayDateRaw: row.day_date,
+      segmentsRaw: row.proposed.segments,
+      pauseRaw: row.proposed.pause,
+      codeRaw: row.proposed.code,
+      mittagRaw: row.proposed.mittag,
+      bruttoRaw: brutto === null || brutto === undefined ? null : String(brutto),
+      bemerkungenRaw: row.proposed.bemerkungen,
+      performedBy: { type: 'admin', id: input.adminId, name: input.adminName },
+    });
+  } finally {
+    if (wasClosed) {
+      await closeMonthlyClosing(row.employee_id, year, month, closing?.closedBy ?? input.adminName ?? 'Verwaltung');
+    }
+  }
+}
+
+export async function decideTimeCorrectionRequest(
+  tenantId: string,
+  input: DecideTimeCorrectionRequestInput
+): Promise<string> {
+  const row = await getTimeCorrectionRequestById(tenantId, input.requestId);
+  if (!row) {
+    throw new Error('Der Korrekturantrag wurde nicht gefunden.');
+  }
+  if (row.status !== 'pending') {
+    throw new Error('Der Korrekturantrag wurde bereits entschieden.');
+  }
+
+  // Claiming the request first keeps a second approval from applying the correction twice.
+  await updateTimeCorrectionRequestStatus(tenantId, {
+    id: row.id,
+    status: input.status,
+    adminNote: input.adminNote?.trim() || null,
+    decidedBy: input.adminId,
+  });
+
+  let message = 'Korrekturantrag wurde abgelehnt.';
+  if (input.status === 'approved') {
+    let result: Awaited<ReturnType<typeof applyTimeCorrection>>;
+    try {
+      result = await applyTimeCorrection(tenantId, row, input);
+    } catch (error) {
+      await reopenTimeCorrectionRequest(tenantId, row.id);
+      throw error;
+    }
+    if (result.status === 'error') {
+      await reopenTimeCorrectionRequest(tenantId, row.id);
+      throw new Error(result.message);
+    }
+    message = `Korrektur wurde übernommen. ${result.message}`;
+  }
+
+  await notifyEmployeeAboutCorrectionDecision(tenantId, row, input.status, input.adminNote);
+
+  revalidatePath('/mitarbeiter/antraege');
+  revalidatePath('/admin/antraege');
+  return message;
+}
+
+export async function withdrawTimeCorrectionRequest(
+  tenantId: string,
+  employeeId: number,
+  requestId: number
+): Promise<void> {
+  await deleteTimeCorrectionRequest(tenantId, requestId, employeeId);
+}
+
+export async function adminDeleteTimeCorrectionRequest(tenantId: string, requestId: number): Promise<void> {
+  await deleteTimeCorrectionRequest(tenantId, requestId);
+}
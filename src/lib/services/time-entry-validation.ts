@@ -1,19 +1,22 @@
 import {
+  buildShiftIntervals,
   calculateIstHours,
   calculateLegalPauseHours,
   pauseStringToMinutes,
   parseTimeString,
   timeToDecimalHours,
+  type WorkSegment,
 } from '@/lib/services/time-calculations';
 import type { PlanHoursInfo } from '@/lib/services/shift-plan';
 
 const ABSENCE_CODES = new Set(['U', 'UH', 'K', 'KK', 'KR', 'KKR', 'KU', 'FT', 'ubF', 'Ü']);
+/** Longer blocks with Geht before Kommt are taken for swapped or mistyped times rather than a night shift. */
+const MAX_OVERNIGHT_SEGMENT_MINUTES = 16 * 60;
+/** A break this short may span midnight, e.g. 22:00–23:30 / 00:15–04:00; longer gaps mean out-of-order blocks. */
+const MAX_OVERNIGHT_BREAK_MINUTES = 2 * 60;
 
 export interface TimeEntryValidationParams {
-  kommt1: string | null;
-  geht1: string | null;
-  kommt2: string | null;
-  geht2: string | null;
+  segments: WorkSegment[];
   pause: string | null;
   code: string | null;
   mittag: string | null;
@@ -22,6 +25,8 @@ export interface TimeEntryValidationParams {
   mandatoryPauseMinWorkMinutes: number;
   minPauseUnder6Minutes: number;
   requiresMealFlag: boolean;
+  /** Tenant-defined codes; like absences they need no times, but recorded times are checked as work. */
+  customAbsenceCodes?: readonly string[];
 }
 
 export interface TimeEntryValidationResult {
@@ -42,52 +47,75 @@ export function validateTimeEntry(params: TimeEntryValidationParams): TimeEntryV
   const mittag = (params.mittag ?? '').trim();
   const pauseMinutes = pauseStringToMinutes(params.pause);
 
-  const kommt1Time = parseTimeString(params.kommt1 ?? undefined);
-  const geht1Time = parseTimeString(params.geht1 ?? undefined);
-  const kommt2Time = parseTimeString(params.kommt2 ?? undefined);
-  const geht2Time = parseTimeString(params.geht2 ?? undefined);
-
   const errors: string[] = [];
   const warnings: string[] = [];
 
-  const toMinutes = (time: ReturnType<typeof parseTimeString>) =>
-    time ? Math.round(timeToDecimalHours(time) * 60) : null;
-
-  const kommt1Minutes = toMinutes(kommt1Time);
-  const geht1Minutes = toMinutes(geht1Time);
-  const kommt2Minutes = toMinutes(kommt2Time);
-  const geht2Minutes = toMinutes(geht2Time);
-
-  if ((kommt1Minutes !== null && geht1Minutes === null) || (kommt1Minutes === null && geht1Minutes !== null)) {
-    errors.push('Bitte Kommt 1 und Geht 1 vollständig eintragen.');
-  }
-
-  if ((kommt2Minutes !== null && geht2Minutes === null) || (kommt2Minutes === null && geht2Minutes !== null)) {
-    errors.push('Bitte Kommt 2 und Geht 2 vollständig eintragen oder beide leer lassen.');
-  }
-
-  if (kommt1Minutes !== null && geht1Minutes !== null && kommt1Minutes >= geht1Minutes) {
-    errors.push('Geht 1 muss nach Kommt 1 liegen.');
-  }
+  const toMinutes = (value: string | null) => {
+    const time = parseTimeString(value ?? undefined);
+    return time ? Math.round(timeToDecimalHours(time) * 60) : null;
+  };
 
-  if (kommt2Minutes !== null && geht2Minutes !== null) {
-    if (kommt2Minutes >= geht2Minutes) {
-      errors.push('Geht 2 muss nach Kommt 2 liegen.');
+  const completeSegments: Array<{ number: number; segment: WorkSegment }> = [];
+  let previous: { number: number; kommtMinutes: number; gehtMinutes: number } | null = null;
+  params.segments.forEach((segment, index) => {
+    const number = index + 1;
+    const kommtMinutes = toMinutes(segment.kommt);
+    const gehtMinutes = toMinutes(segment.geht);
+    if ((kommtMinutes === null) !== (gehtMinutes === null)) {
+      errors.push(
+        index === 0
+          ? 'Bitte Kommt 1 und Geht 1 vollständig eintragen.'
+          : `Bitte Kommt ${number} und Geht ${number} vollständig eintragen oder beide leer lassen.`
+      );
+      return;
+    }
+    if (kommtMinutes === null || gehtMinutes === null) {
+      return;
+    }
+    // Geht before Kommt marks a shift running past midnight; only identical times are rejected.
+    if (kommtMinutes === gehtMinutes) {
+      errors.push(`Geht ${number} muss nach Kommt ${number} liegen.`);
+      return;
+    }
+    if (gehtMinutes < kommtMinutes && gehtMinutes + 24 * 60 - kommtMinutes > MAX_OVERNIGHT_SEGMENT_MINUTES) {
+      errors.push(
+        `Geht ${number} liegt vor Kommt ${number}. Eine Schicht über Mitternacht darf höchstens ${
+          MAX_OVERNIGHT_SEGMENT_MINUTES / 60
+        } Stunden dauern. Bitte die Zeiten prüfen.`
+      );
+      return;
     }
-    if (kommt1Minutes !== null && geht1Minutes !== null && geht1Minutes > kommt2Minutes) {
-      errors.push('Kommt 2 muss nach Geht 1 liegen. Bitte die Zeiten prüfen.');
+    // A block may start earlier on the clock than its predecessor ended only when that one runs past midnight
+    // or a short break spans midnight; otherwise the blocks are out of order, e.g. 13:00–17:00 / 08:00–12:00.
+    if (
+      previous &&
+      previous.gehtMinutes > previous.kommtMinutes &&
+      kommtMinutes < previous.gehtMinutes &&
+      kommtMinutes + 24 * 60 - previous.gehtMinutes > MAX_OVERNIGHT_BREAK_MINUTES
+    ) {
+      errors.push(`Kommt ${number} muss nach Geht ${previous.number} liegen. Bitte die Zeiten prüfen.`);
+      return;
     }
+    previous = { number, kommtMinutes, gehtMinutes };
+    completeSegments.push({ number, segment });
+  });
+
+  // Segments are laid out one after another, so a block that overlaps its predecessor pushes the day past 24 h.
+  const intervals = buildShiftIntervals(completeSegments.map((item) => item.segment));
+  const first = intervals[0];
+  const overflowIndex = intervals.findIndex(
+    (interval, index) => index > 0 && first && interval.endMinutes - first.startMinutes >= 24 * 60
+  );
+  if (overflowIndex > 0) {
+    const current = completeSegments[overflowIndex].number;
+    const previous = completeSegments[overflowIndex - 1].number;
+    errors.push(`Kommt ${current} muss nach Geht ${previous} liegen. Bitte die Zeiten prüfen.`);
   }
 
-  const istResult = calculateIstHours(
-    params.kommt1,
-    params.geht1,
-    params.kommt2,
-    params.geht2,
-    params.pause
-  );
+  const istResult = calculateIstHours(params.segments, params.pause);
 
-  const absence = isAbsenceCode(code);
+  const absence =
+    isAbsenceCode(code) || (Boolean(params.customAbsenceCodes?.includes(code)) && istResult.netHours <= 0.01);
 
   if (!absence) {
     if (istResult.netHours <= 0.01) {
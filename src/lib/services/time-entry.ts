@@ -17,7 +17,21 @@ import {
   updateEmployeeOvertimeBalance,
   getEmployeeValidationInfo,
 } from '@/lib/data/employees';
-import { recalculateOvertime, type DailyOvertimeInput } from '@/lib/services/overtime';
+import {
+  getOvertimeCheckpointBefore,
+  listOvertimeCheckpoints,
+  replaceOvertimeCheckpoints,
+} from '@/lib/data/overtime-checkpoints';
+import {
+  OVERTIME_CHECKPOINT_TOLERANCE,
+  diffOvertimeCheckpoints,
+  nextMonthStart,
+  recalculateOvertime,
+  resolveOvertimeReplayStart,
+  type DailyOvertimeInput,
+  type OvertimeRunningState,
+  type RecalculateOvertimeResult,
+} from '@/lib/services/overtime';
 import {
   deriveCodeFromPlanLabel,
   getPlanHoursForDay,
@@ -25,24 +39,46 @@ import {
 } from '@/lib/services/shift-plan-hours';
 import { getShiftPlan } from '@/lib/services/shift-plan-read';
 import { isMonthClosedForEmployee } from '@/lib/services/employee/monthly-closing';
+import { listClosedMonths } from '@/lib/data/monthly-closings';
 import { isHolidayIsoDate, normalizeHolidayRegion } from '@/lib/services/holidays';
-import { calculateIstHours, calculateLegalPauseHours } from '@/lib/services/time-calculations';
+import {
+  calculateIstHours,
+  calculateLegalPauseHours,
+  formatWorkSegments,
+  plannedHoursOnFollowingHolidays,
+  type WorkSegment,
+} from '@/lib/services/time-calculations';
 import { validateTimeEntry } from '@/lib/services/time-entry-validation';
+import { getArbzgEntryWarnings } from '@/lib/services/arbzg';
+import { applyTimeRounding, getTimeRoundingRuleForEntry } from '@/lib/services/time-rounding';
+import { recordDailyDayChange, type DailyDayChangeActor } from '@/lib/services/daily-day-history';
+import { getDailyDayHistoryEntry, type DailyDayChangeSource } from '@/lib/data/daily-day-history';
 import { fetchTillhubDailyGrossForStaff } from '@/lib/services/tillhub';
-
-const MEAL_BLOCKED_CODES = new Set(['U', 'UH', 'UBF', 'K', 'KK', 'KR', 'KKR', 'KU', 'FT']);
-const NON_REVENUE_CODES = new Set(['U', 'UH', 'UBF', 'K', 'KK', 'KR', 'KKR', 'KU', 'FT']);
-const RANGE_ELIGIBLE_CODES = new Set(['U', 'UH', 'K', 'KK', 'KKR', 'KR', 'KU']);
+import {
+  contractDailyTargetHours,
+  getEmploymentContractTimeline,
+  resolveContractForDate,
+} from '@/lib/services/employment-contracts';
+import {
+  findAbsenceCode,
+  findCustomAbsenceCode,
+  getAbsenceCodeCatalog,
+  getCustomAbsenceCodeRules,
+  getCustomAbsenceCodes,
+  isMealBlockedCode,
+  isNonRevenueCode,
+  isRangeEligibleCode,
+  isSelectableAbsenceCode,
+  type AbsenceCodeCatalog,
+} from '@/lib/services/absence-codes';
 
 export interface CreateAdminTimeEntryInput {
   tenantId: string;
   employeeId: number;
   dayDateRaw: string;
   rangeEndDateRaw?: string | null;
-  kommt1Raw?: string | null;
-  geht1Raw?: string | null;
-  kommt2Raw?: string | null;
-  geht2Raw?: string | null;
+  /** Kommt/Geht blocks in entry order, as typed into the form. */
+  segmentsRaw?: Array<{ kommt: string | null; geht: string | null }>;
   pauseRaw?: string | null;
   codeRaw?: string | null;
   mittagRaw?: string | null;
@@ -59,6 +95,23 @@ export interface DeleteAdminTimeEntryInput {
   tenantId: string;
   employeeId: number;
   dayDateRaw: string;
+  performedBy: {
+    type: 'admin';
+    id: number | null;
+    name: string | null;
+  };
+}
+
+export interface RevertDailyDayInput {
+  tenantId: string;
+  employeeId: number;
+  /** History entry whose resulting version is restored. */
+  historyId: number;
+  performedBy: {
+    type: 'admin';
+    id: number | null;
+    name: string | null;
+  };
 }
 
 function formatMonthLabel(year: number, month: number): string {
@@ -93,7 +146,18 @@ function extractYearMonth(isoDate: string): { year: number; month: number } | nu
   return { year, month };
 }
 
-function normalizeTimeInput(value: string | null | undefined): string | null {
+/** Reads the repeated `kommt`/`geht` inputs of an entry form as segments in form order. */
+export function readSegmentsFromFormData(formData: FormData): Array<{ kommt: string | null; geht: string | null }> {
+  const kommtValues = formData.getAll('kommt');
+  const gehtValues = formData.getAll('geht');
+  const count = Math.max(kommtValues.length, gehtValues.length);
+  return Array.from({ length: count }, (_, index) => ({
+    kommt: typeof kommtValues[index] === 'string' ? (kommtValues[index] as string) : null,
+    geht: typeof gehtValues[index] === 'string' ? (gehtValues[index] as string) : null,
+  }));
+}
+
+export function normalizeTimeInput(value: string | null | undefined): string | null {
   if (!value) return null;
   const raw = value.trim();
   if (!raw) return null;
@@ -107,7 +171,7 @@ function normalizeTimeInput(value: string | null | undefined): string | null {
   return null;
 }
 
-function normalizePause(value: string | null | undefined): string | null {
+export function normalizePause(value: string | null | undefined): string | null {
   const raw = value?.trim() ?? '';
   if (!raw) return null;
   if (/^\d+$/.test(raw)) {
@@ -155,15 +219,18 @@ export interface SaveTimeEntryInput {
   employeeId: number;
   dayDate: string;
   brutto?: number | null;
-  kommt1?: string | null;
-  geht1?: string | null;
-  kommt2?: string | null;
-  geht2?: string | null;
+  segments?: WorkSegment[];
   pause?: string | null;
   code?: string | null;
   bemerkungen?: string | null;
   mittag?: string | null;
   schicht?: string | null;
+  /** Branch the times were stamped at; selects a branch-specific rounding rule. */
+  branchId?: number | null;
+  /** Origin recorded in the change history; defaults to the performer's type. */
+  source?: DailyDayChangeSource;
+  /** History entry this save restores, when reverting a day. */
+  revertedFromId?: number | null;
   performedBy?: {
     type: 'employee' | 'admin';
     id: number | null;
@@ -173,14 +240,11 @@ export interface SaveTimeEntryInput {
 }
 
 const ADMIN_TRACKED_FIELDS: Array<{
-  key: 'kommt1' | 'geht1' | 'kommt2' | 'geht2' | 'pause' | 'code' | 'bemerkungen' | 'brutto' | 'mittag' | 'schicht';
+  key: 'segments' | 'pause' | 'code' | 'bemerkungen' | 'brutto' | 'mittag' | 'schicht';
   label: string;
   formatter?: (value: unknown) => string;
 }> = [
-  { key: 'kommt1', label: 'Kommt 1' },
-  { key: 'geht1', label: 'Geht 1' },
-  { key: 'kommt2', label: 'Kommt 2' },
-  { key: 'geht2', label: 'Geht 2' },
+  { key: 'segments', label: 'Zeiten' },
   { key: 'pause', label: 'Pause' },
   { key: 'mittag', label: 'Mittag' },
   { key: 'code', label: 'Code' },
@@ -243,14 +307,8 @@ function normalizeAdminValue(
 
 function getPayloadValue(payload: UpsertDailyDayInput, key: (typeof ADMIN_TRACKED_FIELDS)[number]['key']) {
   switch (key) {
-    case 'kommt1':
-      return payload.kommt1 ?? null;
-    case 'geht1':
-      return payload.geht1 ?? null;
-    case 'kommt2':
-      return payload.kommt2 ?? null;
-    case 'geht2':
-      return payload.geht2 ?? null;
+    case 'segments':
+      return formatWorkSegments(payload.segments ?? []) || null;
     case 'pause':
       return payload.pause ?? null;
     case 'code':
@@ -273,14 +331,8 @@ function getRecordValue(record: DailyDayRecord | null, key: (typeof ADMIN_TRACKE
     return null;
   }
   switch (key) {
-    case 'kommt1':
-      return record.kommt1 ?? null;
-    case 'geht1':
-      return record.geht1 ?? null;
-    case 'kommt2':
-      return record.kommt2 ?? null;
-    case 'geht2':
-      return record.geht2 ?? null;
+    case 'segments':
+      return formatWorkSegments(record.segments) || null;
     case 'pause':
       return record.pause ?? null;
     case 'code':
@@ -348,15 +400,24 @@ function buildAdminChangeSummary(
   return { type: 'update', summary: changes.join(', ') };
 }
 
+/**
+ * Full-day absences the tenant counts as worked leave the balance unchanged; without a planned shift they get the
+ * contract hours. Half vacation days and holidays without holiday hours keep their own handling.
+ */
+function creditsContractTarget(catalog: AbsenceCodeCatalog, entry: DailyOvertimeInput): boolean {
+  const code = (entry.code ?? '').trim().toUpperCase();
+  if (code === 'FT') {
+    return Number(entry.holidayHours ?? 0) > 0;
+  }
+  return code !== 'UH' && Boolean(findAbsenceCode(catalog, code)?.countsAsWorked);
+}
+
 function mapRecordToOvertimeInput(record: DailyDayRecord): DailyOvertimeInput {
   return {
     id: record.id,
     dayDate: record.day_date,
     code: record.code,
-    kommt1: record.kommt1,
-    geht1: record.geht1,
-    kommt2: record.kommt2,
-    geht2: record.geht2,
+    segments: record.segments,
     pause: record.pause,
     schicht: record.schicht,
     brutto: record.brutto ?? undefined,
@@ -371,15 +432,15 @@ function mapRecordToOvertimeInput(record: DailyDayRecord): DailyOvertimeInput {
   };
 }
 
-function applyRecalculatedDay(record: DailyDayRecord, update: ReturnType<typeof recalculateOvertime>['updatedDays'][number]) {
+function applyRecalculatedDay(
+  record: DailyDayRecord,
+  update: ReturnType<typeof recalculateOvertime>['updatedDays'][number]
+): Promise<number> {
   const payload: UpsertDailyDayInput = {
     employeeId: record.employee_id,
     dayDate: record.day_date,
     brutto: record.brutto,
-    kommt1: record.kommt1,
-    geht1: record.geht1,
-    kommt2: record.kommt2,
-    geht2: record.geht2,
+    segments: record.segments,
     pause: record.pause,
     code: record.code,
     bemerkungen: record.bemerkungen,
@@ -396,7 +457,7 @@ function applyRecalculatedDay(record: DailyDayRecord, update: ReturnType<typeof
     forcedOverflowReal: record.forced_overflow_real,
     requiredPauseUnder6Minutes: record.required_pause_under6_minutes,
   };
-  upsertDailyDay(payload);
+  return upsertDailyDay(payload);
 }
 
 function parseIsoDate(isoDate: string): Date | null {
@@ -458,20 +519,42 @@ async function getApprovedOvertimeReductionHoursForDate(
   return Number(totalHours.toFixed(2));
 }
 
-export async function recomputeEmployeeOvertime(tenantId: string, employeeId: number): Promise<void> {
-  const records = await listDailyDayRecords(employeeId);
+export interface OvertimeConsistencyReport {
+  employeeId: number;
+  consistent: boolean;
+  storedBalanceHours: number;
+  expectedBalanceHours: number;
+  /** Months whose stored checkpoint is missing, left over or differs from the full replay. */
+  mismatchedMonths: string[];
+  /** Day records whose stored overtime values differ from the full replay. */
+  staleDays: number;
+}
+
+/**
+ * Replays the overtime rules over all days from `replayFrom` on, starting with `startState`;
+ * without `replayFrom` over the whole history. Nothing is written.
+ */
+async function replayEmployeeOvertime(
+  tenantId: string,
+  employeeId: number,
+  replayFrom: string | null,
+  startState?: OvertimeRunningState
+): Promise<{ records: DailyDayRecord[]; result: RecalculateOvertimeResult }> {
+  const records = await listDailyDayRecords(employeeId, replayFrom ?? undefined);
   if (!records.length) {
     // continue: approved overtime reduction can exist without any daily records yet
   }
 
   const overtimeInputs = records.map(mapRecordToOvertimeInput);
   const overtimeSettings = await getEmployeeOvertimeSettings(tenantId, employeeId);
-  const shiftPlan = await getShiftPlan(employeeId);
+  const shiftPlan = await getShiftPlan(employeeId, replayFrom ? { from: replayFrom } : undefined);
+  const absenceCodes = await getAbsenceCodeCatalog(tenantId);
+  const contracts = await getEmploymentContractTimeline(tenantId, employeeId);
 
-  const recordDates = new Set(records.map((record) => record.day_date));
+  const recordByDate = new Map(records.map((record) => [record.day_date, record]));
   const syntheticOvertimeDates = new Set<string>();
   for (const [isoDate, planDay] of Object.entries(shiftPlan.days)) {
-    if (!planDay || recordDates.has(isoDate)) {
+    if (!planDay || recordByDate.has(isoDate) || (replayFrom && isoDate < replayFrom)) {
       continue;
     }
     const syntheticCode = deriveCodeFromPlanLabel(planDay.label);
@@ -505,10 +588,10 @@ export async function recomputeEmployeeOvertime(tenantId: string, employeeId: nu
 
     const explicitDurationHours = toDurationHours(request.start_time, request.end_time);
     for (const isoDate of enumerateDates(request.start_date, request.end_date)) {
-      if (syntheticOvertimeDates.has(isoDate)) {
+      if (syntheticOvertimeDates.has(isoDate) || (replayFrom && isoDate < replayFrom)) {
         continue;
       }
-      const existingRecord = records.find((entry) => entry.day_date === isoDate);
+      const existingRecord = recordByDate.get(isoDate);
       if (existingRecord && (existingRecord.code ?? '').trim().toUpperCase() === 'Ü') {
         continue;
       }
@@ -540,12 +623,48 @@ export async function recomputeEmployeeOvertime(tenantId: string, employeeId: nu
           return entry.planHours;
         }
         const info = getPlanHoursForDayFromPlan(shiftPlan, entry.dayDate, entry.schicht ?? '');
-        return info?.sollHours ?? 0;
+        if ((info?.sollHours ?? 0) > 0 || !creditsContractTarget(absenceCodes, entry)) {
+          return info?.sollHours ?? 0;
+        }
+        // Uses the contract version in force on that day, so later contract changes leave past days untouched.
+        const contract = resolveContractForDate(contracts, entry.dayDate);
+        return contract ? contractDailyTargetHours(contract) : 0;
       },
+      customAbsenceCodes: getCustomAbsenceCodeRules(absenceCodes),
+      startState,
     }
   );
+  return { records, result };
+}
+
+/**
+ * Recomputes the overtime of an employee and stores the day values, the monthly checkpoints and the balance.
+ * `fromIso` is the earliest changed day: the replay resumes after the last checkpoint before its month.
+ * Without it, or before the first checkpoint, the whole history is replayed. Closed months are final: the replay
+ * skips closed months at its start and never rewrites the days of a closed month, but a reopened month is replayed
+ * even when later months are still closed, so its changes carry into the balance. Bulk replays pass
+ * `notifyTrafficLight: false`, so the traffic light records the new color without mailing anyone.
+ */
+export async function recomputeEmployeeOvertime(
+  tenantId: string,
+  employeeId: number,
+  fromIso?: string | null,
+  options: { notifyTrafficLight?: boolean } = {}
+): Promise<void> {
+  const closedMonths = await listClosedMonths(employeeId);
+  const requestedFrom = fromIso && parseIsoDate(fromIso) ? fromIso : null;
+  const effectiveFrom = resolveOvertimeReplayStart(requestedFrom, closedMonths);
+  const checkpoint = effectiveFrom ? await getOvertimeCheckpointBefore(employeeId, effectiveFrom.slice(0, 7)) : null;
+  const replayFrom = checkpoint ? nextMonthStart(checkpoint.month) : null;
+  const { records, result } = await replayEmployeeOvertime(
+    tenantId,
+    employeeId,
+    replayFrom,
+    checkpoint ? { balanceHours: checkpoint.balance_hours, payoutBankHours: checkpoint.payout_bank_hours } : undefined
+  );
 
   const recordById = new Map(records.map((record) => [record.id, record]));
+  const pendingUpdates: Promise<number>[] = [];
   for (const updated of result.updatedDays) {
     if (!updated.id) {
       // Synthetic rows (e.g. approved overtime reductions without daily entry)
@@ -553,33 +672,88 @@ export async function recomputeEmployeeOvertime(tenantId: string, employeeId: nu
       continue;
     }
     const baseRecord = recordById.get(updated.id);
-    if (!baseRecord) continue;
-    applyRecalculatedDay(baseRecord, updated);
+    if (!baseRecord || closedMonths.has(baseRecord.day_date.slice(0, 7))) continue;
+    pendingUpdates.push(applyRecalculatedDay(baseRecord, updated));
   }
+  // Awaited so callers reading the day afterwards (e.g. the change history) see the recalculated values.
+  await Promise.all(pendingUpdates);
 
+  await replaceOvertimeCheckpoints(employeeId, replayFrom ? replayFrom.slice(0, 7) : null, result.monthlyCheckpoints);
   await updateEmployeeOvertimeBalance(tenantId, employeeId, result.balanceHours);
+
+  // Loaded lazily: the traffic light mails through the leave request module, which imports this one.
+  const { updateOvertimeTrafficLight } = await import('./overtime-traffic-light');
+  try {
+    await updateOvertimeTrafficLight(tenantId, employeeId, result.balanceHours, {
+      notify: options.notifyTrafficLight ?? true,
+    });
+  } catch (error) {
+    console.error('[time-entry] overtime traffic light update failed', { tenantId, employeeId, error });
+  }
 }
 
-export async function saveTimeEntry(input: SaveTimeEntryInput): Promise<number> {
+/**
+ * Replays the whole history without writing and compares it with what the incremental recomputations stored:
+ * the monthly checkpoints, the day values and the balance.
+ */
+export async function checkEmployeeOvertimeConsistency(
+  tenantId: string,
+  employeeId: number
+): Promise<OvertimeConsistencyReport> {
+  const { result } = await replayEmployeeOvertime(tenantId, employeeId, null);
+  const [storedCheckpoints, settings] = await Promise.all([
+    listOvertimeCheckpoints(employeeId),
+    getEmployeeOvertimeSettings(tenantId, employeeId),
+  ]);
+  const mismatchedMonths = diffOvertimeCheckpoints(
+    result.monthlyCheckpoints,
+    storedCheckpoints.map((row) => ({
+      month: row.month,
+      balanceHours: row.balance_hours,
+      payoutBankHours: row.payout_bank_hours,
+    }))
+  );
+  const staleDays = result.updatedDays.filter((day) => day.id).length;
+  const balanceMatches = Math.abs(settings.overtimeBalance - result.balanceHours) <= OVERTIME_CHECKPOINT_TOLERANCE;
+  return {
+    employeeId,
+    consistent: balanceMatches && !mismatchedMonths.length && staleDays === 0,
+    storedBalanceHours: settings.overtimeBalance,
+    expectedBalanceHours: result.balanceHours,
+    mismatchedMonths,
+    staleDays,
+  };
+}
+
+/**
+ * Resolves rounding, absence codes, plan hours and Tillhub gross of an entry into the row that
+ * `saveTimeEntry` stores, without writing anything.
+ */
+export async function buildTimeEntryPayload(
+  input: SaveTimeEntryInput
+): Promise<{ payload: UpsertDailyDayInput; existingRecord: DailyDayRecord | null }> {
   const tenantId = input.tenantId;
-  const actor = input.performedBy ?? { type: 'employee' as const, id: null, name: null };
-  const adminName = actor.type === 'admin' && actor.name ? actor.name.trim() : null;
-  const adminDisplayName = adminName && adminName.length ? adminName : 'Admin';
   const existingRecord = await getDailyDay(input.employeeId, input.dayDate);
 
   const planInfo = await getPlanHoursForDay(input.employeeId, input.dayDate, input.schicht ?? '');
   const employeeInfo = await getEmployeeValidationInfo(tenantId, input.employeeId);
+  const absenceCodes = await getAbsenceCodeCatalog(tenantId);
 
   let codeNormalized = (input.code ?? '').trim().toUpperCase();
+  if (!isSelectableAbsenceCode(absenceCodes, codeNormalized, existingRecord?.code)) {
+    throw new Error(`Der Code ${codeNormalized} ist deaktiviert und kann nicht mehr erfasst werden.`);
+  }
 
-  let kommt1 = input.kommt1 ?? null;
-  let geht1 = input.geht1 ?? null;
-  let kommt2 = input.kommt2 ?? null;
-  let geht2 = input.geht2 ?? null;
+  // Rounded times are stored as kommt/geht, so ist hours and every overtime recompute use them;
+  // the original stamps stay on the segments as kommtRaw/gehtRaw.
+  const roundingRule = await getTimeRoundingRuleForEntry(tenantId, input.employeeId, input.dayDate, input.branchId);
+  let segments: WorkSegment[] = roundingRule
+    ? applyTimeRounding(input.segments ?? [], roundingRule, existingRecord?.segments)
+    : input.segments ?? [];
   let pause = input.pause ?? 'Keine';
   let mittag = (input.mittag ?? 'Nein').toLowerCase() === 'ja' ? 'Ja' : 'Nein';
 
-  const ist = calculateIstHours(kommt1 ?? '', geht1 ?? '', kommt2 ?? '', geht2 ?? '', pause ?? 'Keine');
+  const ist = calculateIstHours(segments, pause ?? 'Keine');
 
   const minPauseUnder6Setting = Math.max(employeeInfo?.minPauseUnder6Minutes ?? 0, 0);
   const mandatoryPauseMinWorkSetting = Math.max(employeeInfo?.mandatoryPauseMinWorkMinutes ?? 0, 0);
@@ -618,10 +792,7 @@ export async function saveTimeEntry(input: SaveTimeEntryInput): Promise<number>
   let holidayHours = 0;
 
   const setAllTimesToZero = () => {
-    kommt1 = '00:00';
-    geht1 = '00:00';
-    kommt2 = null;
-    geht2 = null;
+    segments = [{ kommt: '00:00', geht: '00:00' }];
     pause = 'Keine';
   };
 
@@ -638,12 +809,32 @@ export async function saveTimeEntry(input: SaveTimeEntryInput): Promise<number>
     );
   };
 
+  const matchesSinglePlanBlock = (start: string, end: string) => {
+    const [first, ...rest] = segments;
+    return (
+      (first?.kommt ?? '') === start &&
+      (first?.geht ?? '') === end &&
+      rest.every((segment) => isEmptyTimeValue(segment.kommt) && isEmptyTimeValue(segment.geht))
+    );
+  };
+
   switch (codeNormalized) {
-    case 'U':
+    case 'U': {
       setAllTimesToZero();
       mittag = 'Nein';
-      vacationHours = planHours;
+      // A night shift running into a holiday only uses vacation for the hours before midnight, like FT replaces U.
+      const holidayRegion = normalizeHolidayRegion(employeeInfo?.federalState);
+      holidayHours = planInfo
+        ? plannedHoursOnFollowingHolidays(
+            input.dayDate,
+            planInfo,
+            planHours,
+            (isoDate) => isHolidayIsoDate(isoDate, holidayRegion).isHoliday
+          )
+        : 0;
+      vacationHours = Math.max(planHours - holidayHours, 0);
       break;
+    }
     case 'UH': {
       const halfPlan = planHours / 2;
       const epsilon = 0.01;
@@ -675,10 +866,7 @@ export async function saveTimeEntry(input: SaveTimeEntryInput): Promise<number>
         planInfo &&
         planInfo.start &&
         planInfo.end &&
-        (input.kommt1 ?? '') === planInfo.start &&
-        (input.geht1 ?? '') === planInfo.end &&
-        isEmptyTimeValue(input.kommt2 ?? null) &&
-        isEmptyTimeValue(input.geht2 ?? null);
+        matchesSinglePlanBlock(planInfo.start, planInfo.end);
       if (planInfo && planHours > 0 && Math.abs(sickHours - planHours) < 0.01 && matchesPlanTimes) {
         codeNormalized = 'K';
         setAllTimesToZero();
@@ -693,10 +881,7 @@ export async function saveTimeEntry(input: SaveTimeEntryInput): Promise<number>
         planInfo &&
         planInfo.start &&
         planInfo.end &&
-        (input.kommt1 ?? '') === planInfo.start &&
-        (input.geht1 ?? '') === planInfo.end &&
-        isEmptyTimeValue(input.kommt2 ?? null) &&
-        isEmptyTimeValue(input.geht2 ?? null);
+        matchesSinglePlanBlock(planInfo.start, planInfo.end);
       if (planInfo && planHours > 0 && Math.abs(childSickHours - planHours) < 0.01 && matchesPlanTimes) {
         codeNormalized = 'KK';
         setAllTimesToZero();
@@ -720,15 +905,12 @@ export async function saveTimeEntry(input: SaveTimeEntryInput): Promise<number>
     case 'Ü': {
       const planStart = planInfo?.start ?? '';
       const planEnd = planInfo?.end ?? '';
-      const secondBlockEmpty = isEmptyTimeValue(kommt2) && isEmptyTimeValue(geht2);
       const pauseIsZero = isEmptyTimeValue(pause);
       if (
         !input.preserveOvertimeTimes &&
         planStart &&
         planEnd &&
-        (kommt1 ?? '') === planStart &&
-        (geht1 ?? '') === planEnd &&
-        secondBlockEmpty &&
+        matchesSinglePlanBlock(planStart, planEnd) &&
         pauseIsZero
       ) {
         setAllTimesToZero();
@@ -736,8 +918,20 @@ export async function saveTimeEntry(input: SaveTimeEntryInput): Promise<number>
       }
       break;
     }
-    default:
+    default: {
+      // Tenant codes without recorded times stand for the whole day, like U or UBF.
+      const customCode = findCustomAbsenceCode(absenceCodes, codeNormalized);
+      if (!customCode || ist.netHours > 0.01) break;
+      setAllTimesToZero();
+      if (!customCode.countsAsWorked) {
+        planHoursForSave = 0;
+      } else if (customCode.reducesVacation) {
+        vacationHours = planHours;
+      } else if (customCode.countsAsSick) {
+        sickHours = planHours;
+      }
       break;
+    }
   }
 
   if (codeNormalized === 'RA' && planHoursForSave > 0) {
@@ -751,7 +945,7 @@ export async function saveTimeEntry(input: SaveTimeEntryInput): Promise<number>
     }
   }
 
-  if (MEAL_BLOCKED_CODES.has(codeNormalized)) {
+  if (isMealBlockedCode(absenceCodes, codeNormalized)) {
     mittag = 'Nein';
   }
 
@@ -760,7 +954,7 @@ export async function saveTimeEntry(input: SaveTimeEntryInput): Promise<number>
   if (
     (effectiveBrutto === null || effectiveBrutto <= 0) &&
     tillhubUserId &&
-    !NON_REVENUE_CODES.has(codeNormalized)
+    !isNonRevenueCode(absenceCodes, codeNormalized)
   ) {
     try {
       const { gross } = await fetchTillhubDailyGrossForStaff({
@@ -785,10 +979,7 @@ export async function saveTimeEntry(input: SaveTimeEntryInput): Promise<number>
     employeeId: input.employeeId,
     dayDate: input.dayDate,
     brutto: effectiveBrutto,
-    kommt1,
-    geht1,
-    kommt2,
-    geht2,
+    segments,
     pause,
     code: codeNormalized,
     bemerkungen: input.bemerkungen ? input.bemerkungen : null,
@@ -806,8 +997,30 @@ export async function saveTimeEntry(input: SaveTimeEntryInput): Promise<number>
     requiredPauseUnder6Minutes: storedRequiredPauseMinutes,
   };
 
+  return { payload, existingRecord };
+}
+
+export async function saveTimeEntry(input: SaveTimeEntryInput): Promise<number> {
+  const tenantId = input.tenantId;
+  const actor = input.performedBy ?? { type: 'employee' as const, id: null, name: null };
+  const adminName = actor.type === 'admin' && actor.name ? actor.name.trim() : null;
+  const adminDisplayName = adminName && adminName.length ? adminName : 'Admin';
+  const { payload, existingRecord } = await buildTimeEntryPayload(input);
+
   const entryId = await upsertDailyDay(payload);
-  await recomputeEmployeeOvertime(tenantId, input.employeeId);
+  await recomputeEmployeeOvertime(tenantId, input.employeeId, input.dayDate);
+  await recordDailyDayChange(
+    input.employeeId,
+    input.dayDate,
+    existingRecord,
+    await getDailyDay(input.employeeId, input.dayDate),
+    {
+      source: input.source ?? (actor.type === 'admin' ? 'admin' : 'employee'),
+      actorId: actor.id,
+      actorName: actor.type === 'admin' ? adminDisplayName : actor.name,
+      revertedFromId: input.revertedFromId,
+    }
+  );
 
   if (actor.type === 'admin') {
     const summary = buildAdminChangeSummary(existingRecord, payload);
@@ -846,16 +1059,15 @@ export async function createAdminTimeEntry(
     return { status: 'error', message: 'Mitarbeiterdaten konnten nicht geladen werden.' };
   }
 
-  const kommt1 = normalizeTimeInput(input.kommt1Raw);
-  const geht1 = normalizeTimeInput(input.geht1Raw);
-  const kommt2 = normalizeTimeInput(input.kommt2Raw);
-  const geht2 = normalizeTimeInput(input.geht2Raw);
+  const segments: WorkSegment[] = (input.segmentsRaw ?? [])
+    .map((segment) => ({ kommt: normalizeTimeInput(segment.kommt), geht: normalizeTimeInput(segment.geht) }))
+    .filter((segment) => segment.kommt || segment.geht);
   const pause = normalizePause(input.pauseRaw);
   const code = input.codeRaw?.trim().length ? input.codeRaw.trim() : 'RA';
   const mittag = (input.mittagRaw ?? 'Nein').trim().toLowerCase() === 'ja' ? 'Ja' : 'Nein';
   const normalizedCode = code.toUpperCase();
 
-  if (normalizedCode === 'Ü' && (!kommt1 || !geht1)) {
+  if (normalizedCode === 'Ü' && (!segments[0]?.kommt || !segments[0]?.geht)) {
     return { status: 'error', message: 'Für Überstundenabbau bitte Start- und Endzeit eingeben.' };
   }
 
@@ -863,7 +1075,8 @@ export async function createAdminTimeEntry(
   let rangeEnd = dayDateRaw;
   const rangeEndRaw = input.rangeEndDateRaw?.trim() ?? '';
 
-  if (rangeEndRaw && RANGE_ELIGIBLE_CODES.has(normalizedCode)) {
+  const absenceCodes = await getAbsenceCodeCatalog(input.tenantId);
+  if (rangeEndRaw && isRangeEligibleCode(absenceCodes, normalizedCode)) {
     if (!isIsoDate(rangeEndRaw)) {
       return { status: 'error', message: 'Der Zeitraum konnte nicht gelesen werden.' };
     }
@@ -893,12 +1106,25 @@ export async function createAdminTimeEntry(
     }
   }
 
+  if (!isSelectableAbsenceCode(absenceCodes, normalizedCode, null)) {
+    for (const isoDate of datesToProcess) {
+      const existing = await getDailyDay(input.employeeId, isoDate);
+      if (!isSelectableAbsenceCode(absenceCodes, normalizedCode, existing?.code)) {
+        return {
+          status: 'error',
+          message: `Der Code ${normalizedCode} ist deaktiviert und kann nicht mehr erfasst werden.`,
+        };
+      }
+    }
+  }
+
   const federalState = normalizeHolidayRegion(validationProfile.federalState);
   const bruttoValue = Number.parseFloat(String(input.bruttoRaw ?? ''));
   const brutto = Number.isFinite(bruttoValue) ? bruttoValue : null;
   const bemerkungen = input.bemerkungenRaw?.trim() || null;
 
   const warnings: string[] = [];
+  let arbzgWarning: string | null = null;
   let holidayCount = 0;
 
   for (const isoDate of datesToProcess) {
@@ -908,19 +1134,13 @@ export async function createAdminTimeEntry(
       holidayCount += 1;
     }
 
-    const effectiveKommt1 = effectiveCode === 'FT' || normalizedCode === 'U' ? null : kommt1;
-    const effectiveGeht1 = effectiveCode === 'FT' || normalizedCode === 'U' ? null : geht1;
-    const effectiveKommt2 = effectiveCode === 'FT' || normalizedCode === 'U' ? null : kommt2;
-    const effectiveGeht2 = effectiveCode === 'FT' || normalizedCode === 'U' ? null : geht2;
+    const effectiveSegments = effectiveCode === 'FT' || normalizedCode === 'U' ? [] : segments;
     const effectivePause = effectiveCode === 'FT' || normalizedCode === 'U' ? 'Keine' : pause;
     const effectiveMittag = effectiveCode === 'FT' || normalizedCode === 'U' ? 'Nein' : mittag;
 
     const planInfo = await getPlanHoursForDay(input.employeeId, isoDate);
     const validation = validateTimeEntry({
-      kommt1: effectiveKommt1,
-      geht1: effectiveGeht1,
-      kommt2: effectiveKommt2,
-      geht2: effectiveGeht2,
+      segments: effectiveSegments,
       pause: effectivePause,
       code: effectiveCode,
       mittag: effectiveMittag,
@@ -928,6 +1148,7 @@ export async function createAdminTimeEntry(
       mandatoryPauseMinWorkMinutes: validationProfile.mandatoryPauseMinWorkMinutes,
       minPauseUnder6Minutes: validationProfile.minPauseUnder6Minutes,
       requiresMealFlag: (validationProfile.sachbezugVerpflegung ?? 'Nein').toLowerCase() === 'ja',
+      customAbsenceCodes: getCustomAbsenceCodes(absenceCodes),
     });
 
     if (validation.errors.length) {
@@ -939,15 +1160,17 @@ export async function createAdminTimeEntry(
       warnings.push(validation.warnings[0]);
     }
 
+    if (!arbzgWarning && effectiveSegments.length) {
+      const arbzgWarnings = await getArbzgEntryWarnings(input.employeeId, isoDate, effectiveSegments, effectivePause);
+      arbzgWarning = arbzgWarnings[0] ?? null;
+    }
+
     await saveTimeEntry({
       tenantId: input.tenantId,
       employeeId: input.employeeId,
       dayDate: isoDate,
       brutto,
-      kommt1: effectiveKommt1,
-      geht1: effectiveGeht1,
-      kommt2: effectiveKommt2,
-      geht2: effectiveGeht2,
+      segments: effectiveSegments,
       pause: effectivePause,
       code: effectiveCode || 'RA',
       bemerkungen,
@@ -963,12 +1186,85 @@ export async function createAdminTimeEntry(
       ? `Eintrag am ${startLabel} wurde gespeichert.`
       : `Zeitraum ${startLabel} – ${endLabel} wurde gespeichert.`;
 
+  const notices = arbzgWarning ? [...warnings.slice(0, 1), arbzgWarning] : warnings.slice(0, 1);
+
   return {
     status: 'success',
-    message: `${messageBase}${holidayCount ? ` ${holidayCount} ${holidayCount === 1 ? 'Tag wurde' : 'Tage wurden'} automatisch als Feiertag (FT) erfasst.` : ''}${warnings.length ? ` Hinweis: ${warnings[0]}` : ''}`,
+    message: `${messageBase}${holidayCount ? ` ${holidayCount} ${holidayCount === 1 ? 'Tag wurde' : 'Tage wurden'} automatisch als Feiertag (FT) erfasst.` : ''}${notices.length ? ` Hinweis: ${notices.join(' ')}` : ''}`,
   };
 }
 
+export async function revertDailyDayToVersion(
+  input: RevertDailyDayInput
+): Promise<{ status: 'success' | 'error'; message: string }> {
+  if (!(await employeeExists(input.tenantId, input.employeeId))) {
+    return { status: 'error', message: 'Mitarbeiter wurde nicht gefunden.' };
+  }
+
+  const entry = await getDailyDayHistoryEntry(input.employeeId, input.historyId);
+  const version = entry?.after;
+  if (!entry || !version) {
+    return { status: 'error', message: 'Diese Version kann nicht wiederhergestellt werden.' };
+  }
+
+  const extracted = extractYearMonth(entry.day_date);
+  if (!extracted) {
+    return { status: 'error', message: 'Ungültiges Datum.' };
+  }
+  if (await isMonthClosedForEmployee(input.employeeId, extracted.year, extracted.month)) {
+    return {
+      status: 'error',
+      message: `Der Monat ${formatMonthLabel(extracted.year, extracted.month)} ist abgeschlossen und kann nicht bearbeitet werden.`,
+    };
+  }
+
+  const validationProfile = await getEmployeeValidationInfo(input.tenantId, input.employeeId);
+  if (!validationProfile) {
+    return { status: 'error', message: 'Mitarbeiterdaten konnten nicht geladen werden.' };
+  }
+
+  const dateLabel = new Date(`${entry.day_date}T00:00:00`).toLocaleDateString('de-DE');
+  const planInfo = await getPlanHoursForDay(input.employeeId, entry.day_date, version.schicht ?? '');
+  const validation = validateTimeEntry({
+    segments: version.segments,
+    pause: version.pause ?? 'Keine',
+    code: version.code ?? 'RA',
+    mittag: version.mittag ?? 'Nein',
+    planInfo,
+    mandatoryPauseMinWorkMinutes: validationProfile.mandatoryPauseMinWorkMinutes,
+    minPauseUnder6Minutes: validationProfile.minPauseUnder6Minutes,
+    requiresMealFlag: (validationProfile.sachbezugVerpflegung ?? 'Nein').toLowerCase() === 'ja',
+    customAbsenceCodes: getCustomAbsenceCodes(await getAbsenceCodeCatalog(input.tenantId)),
+  });
+  if (validation.errors.length) {
+    return { status: 'error', message: `${dateLabel}: ${validation.errors[0]}` };
+  }
+
+  try {
+    await saveTimeEntry({
+      tenantId: input.tenantId,
+      employeeId: input.employeeId,
+      dayDate: entry.day_date,
+      brutto: version.brutto,
+      segments: version.segments,
+      pause: version.pause,
+      code: version.code,
+      bemerkungen: version.bemerkungen,
+      mittag: version.mittag,
+      schicht: version.schicht,
+      performedBy: input.performedBy,
+      revertedFromId: entry.id,
+      preserveOvertimeTimes: true,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Der Eintrag konnte nicht gespeichert werden.';
+    return { status: 'error', message: `${dateLabel}: ${message}` };
+  }
+
+  const versionLabel = new Date(entry.created_at).toLocaleString('de-DE');
+  return { status: 'success', message: `Tag ${dateLabel} wurde auf den Stand vom ${versionLabel} zurückgesetzt.` };
+}
+
 export async function deleteAdminTimeEntry(
   input: DeleteAdminTimeEntryInput
 ): Promise<{ status: 'success' | 'error'; message: string }> {
@@ -993,7 +1289,11 @@ export async function deleteAdminTimeEntry(
     };
   }
 
-  await deleteTimeEntry(input.tenantId, input.employeeId, dayDate);
+  await deleteTimeEntry(input.tenantId, input.employeeId, dayDate, {
+    source: 'admin',
+    actorId: input.performedBy.id,
+    actorName: input.performedBy.name,
+  });
 
   return {
     status: 'success',
@@ -1001,9 +1301,16 @@ export async function deleteAdminTimeEntry(
   };
 }
 
-export async function deleteTimeEntry(tenantId: string, employeeId: number, dayDate: string): Promise<void> {
+export async function deleteTimeEntry(
+  tenantId: string,
+  employeeId: number,
+  dayDate: string,
+  actor: DailyDayChangeActor
+): Promise<void> {
+  const existing = await getDailyDay(employeeId, dayDate);
   await deleteDailyDayByDate(employeeId, dayDate);
-  await recomputeEmployeeOvertime(tenantId, employeeId);
+  await recomputeEmployeeOvertime(tenantId, employeeId, dayDate);
+  await recordDailyDayChange(employeeId, dayDate, existing, null, actor);
 }
 
 export async function listTimeEntries(employeeId: number): Promise<DailyDaySummary[]> {
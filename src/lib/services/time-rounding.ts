@@ -0,0 +1,138 @@
+import { listBranchesForEmployee } from '@/lib/data/branches';
+import { getShiftPlanDayRecord } from '@/lib/data/shift-plan-days';
+import {
+  getTimeRoundingSettings,
+  TIME_ROUNDING_DIRECTIONS,
+  type TimeRoundingDirection,
+  type TimeRoundingRule,
+  type TimeRoundingSettings,
+} from '@/lib/data/time-rounding-settings';
+import { buildShiftIntervals, parseTimeString, type WorkSegment } from '@/lib/services/time-calculations';
+
+export const TIME_ROUNDING_GRANULARITIES = [0, 5, 10, 15, 30] as const;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+function formatMinutesOfDay(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Rounds an HH:MM value to the given granularity. Values are never moved across midnight:
+ * a result outside the day keeps the original stamp.
+ */
+export function roundClockTime(value: string, granularity: number, direction: TimeRoundingDirection): string {
+  const parsed = parseTimeString(value);
+  if (!parsed || granularity <= 1) {
+    return value;
+  }
+  const minutes = parsed.hour * 60 + parsed.minute;
+  const steps = minutes / granularity;
+  const roundedSteps =
+    direction === 'up' ? Math.ceil(steps) : direction === 'down' ? Math.floor(steps) : Math.round(steps);
+  const rounded = roundedSteps * granularity;
+  if (rounded < 0 || rounded >= MINUTES_PER_DAY) {
+    return value;
+  }
+  return formatMinutesOfDay(rounded);
+}
+
+function durationMinutes(segment: WorkSegment): number {
+  const [interval] = buildShiftIntervals([segment]);
+  return interval ? interval.endMinutes - interval.startMinutes : 0;
+}
+
+/**
+ * Applies a rounding rule to every Kommt and Geht stamp and keeps the unrounded value next to it.
+ * Raw stamps already on a segment are kept. `previous` holds the stored segments of the day: a stamp that is
+ * saved again unchanged keeps its original raw value instead of treating the rounded value as raw, even when
+ * the other stamp of the segment was edited.
+ * A segment that rounding would turn around (e.g. 08:05–08:10) collapses to zero length instead of
+ * becoming an overnight shift.
+ */
+export function applyTimeRounding(
+  segments: WorkSegment[],
+  rule: TimeRoundingRule,
+  previous: WorkSegment[] = []
+): WorkSegment[] {
+  return segments.map((segment, index) => {
+    const stored = previous[index];
+    const kommtUnchanged = Boolean(stored) && stored.kommt === segment.kommt;
+    const gehtUnchanged = Boolean(stored) && stored.geht === segment.geht;
+    const kommtRaw = segment.kommtRaw ?? (kommtUnchanged ? stored.kommtRaw : null) ?? segment.kommt;
+    const gehtRaw = segment.gehtRaw ?? (gehtUnchanged ? stored.gehtRaw : null) ?? segment.geht;
+
+    let kommt = kommtRaw ? roundClockTime(kommtRaw, rule.kommtMinutes, rule.kommtDirection) : kommtRaw;
+    const geht = gehtRaw ? roundClockTime(gehtRaw, rule.gehtMinutes, rule.gehtDirection) : gehtRaw;
+    const rawDuration = durationMinutes({ kommt: kommtRaw, geht: gehtRaw });
+    if (kommt && geht && durationMinutes({ kommt, geht }) > rawDuration + rule.kommtMinutes + rule.gehtMinutes) {
+      kommt = geht;
+    }
+
+    return {
+      kommt,
+      geht,
+      ...(kommtRaw !== kommt ? { kommtRaw } : {}),
+      ...(gehtRaw !== geht ? { gehtRaw } : {}),
+    };
+  });
+}
+
+export function resolveTimeRoundingRule(
+  settings: TimeRoundingSettings,
+  branchId: number | null | undefined
+): TimeRoundingRule | null {
+  if (!settings.enabled) {
+    return null;
+  }
+  return (branchId ? settings.branchRules[branchId] : undefined) ?? settings.rule;
+}
+
+function clampGranularity(value: unknown): number {
+  const numeric = Number(value);
+  return TIME_ROUNDING_GRANULARITIES.includes(numeric as (typeof TIME_ROUNDING_GRANULARITIES)[number])
+    ? numeric
+    : 0;
+}
+
+function toDirection(value: unknown, fallback: TimeRoundingDirection): TimeRoundingDirection {
+  return TIME_ROUNDING_DIRECTIONS.includes(value as TimeRoundingDirection) ? (value as TimeRoundingDirection) : fallback;
+}
+
+export function sanitizeTimeRoundingRule(input: Partial<Record<keyof TimeRoundingRule, unknown>>): TimeRoundingRule {
+  return {
+    kommtMinutes: clampGranularity(input.kommtMinutes),
+    kommtDirection: toDirection(input.kommtDirection, 'up'),
+    gehtMinutes: clampGranularity(input.gehtMinutes),
+    gehtDirection: toDirection(input.gehtDirection, 'down'),
+  };
+}
+
+/**
+ * Finds the rounding rule for one entry. The branch is the kiosk branch when stamped there, otherwise
+ * the branch of the planned shift, otherwise the employee's only branch.
+ */
+export async function getTimeRoundingRuleForEntry(
+  tenantId: string,
+  employeeId: number,
+  dayDate: string,
+  branchId?: number | null
+): Promise<TimeRoundingRule | null> {
+  const settings = await getTimeRoundingSettings(tenantId);
+  if (!settings.enabled) {
+    return null;
+  }
+  if (!Object.keys(settings.branchRules).length) {
+    return settings.rule;
+  }
+
+  let resolvedBranchId = branchId ?? null;
+  if (!resolvedBranchId) {
+    resolvedBranchId = (await getShiftPlanDayRecord(employeeId, dayDate))?.branch_id ?? null;
+  }
+  if (!resolvedBranchId) {
+    const branches = await listBranchesForEmployee(tenantId, employeeId);
+    resolvedBranchId = branches.length === 1 ? branches[0]!.id : null;
+  }
+  return resolveTimeRoundingRule(settings, resolvedBranchId);
+}
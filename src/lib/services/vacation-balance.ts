@@ -1,5 +1,3 @@
-type VacationCode = 'U' | 'UH';
-
 interface VacationUsageEntry {
   isoDate: string;
   amount: number;
@@ -11,6 +9,39 @@ interface VacationSimulationResult {
   annualRemaining: number;
   carryOut: number;
   taken: number;
+  conversions: VacationConversion[];
+}
+
+/** Entitlement terms from `validFrom` on; the earliest segment also covers the days before it. */
+export interface VacationEntitlementSegment {
+  validFrom: string;
+  annualDays: number;
+  workdaysPerWeek: number;
+}
+
+export interface VacationSegmentBreakdown {
+  validFrom: string;
+  validUntil: string;
+  workdaysPerWeek: number;
+  annualDays: number;
+  /** Share of `annualDays` for the part of the year, in days of this working-day pattern. */
+  proRataDays: number;
+}
+
+/** Carry-over converted when the number of working days per week changes. */
+export interface VacationConversion {
+  isoDate: string;
+  fromWorkdaysPerWeek: number;
+  toWorkdaysPerWeek: number;
+  remainingBefore: number;
+  remainingAfter: number;
+}
+
+interface YearPattern {
+  segments: VacationSegmentBreakdown[];
+  /** Entitlement of the whole year: the pro-rata days of all segments. */
+  annualDays: number;
+  changes: Array<{ isoDate: string; from: number; to: number }>;
 }
 
 export interface VacationBalanceInput {
@@ -28,6 +59,14 @@ export interface VacationBalanceInput {
     day_date: string;
     code: string | null;
   }>;
+  /** Vacation days used per entry of each code; defaults to U = 1 and UH = 0.5. */
+  vacationCodes?: ReadonlyMap<string, number>;
+  /**
+   * Working-day pattern history. When given, `annualDays` is ignored: each year is entitled pro rata per segment.
+   * Carry-over is converted into days of the new pattern when the working days per week change; fewer working
+   * days never shrink days already accrued.
+   */
+  entitlementSegments?: VacationEntitlementSegment[];
 }
 
 export interface VacationBalanceResult {
@@ -37,6 +76,10 @@ export interface VacationBalanceResult {
   carryRemainingDays: number;
   annualRemainingDays: number;
   remainingDays: number;
+  /** Working-day patterns of the year; a single entry when nothing changed. */
+  segments: VacationSegmentBreakdown[];
+  /** Conversions of the carry-over within the year up to the as-of date. */
+  conversions: VacationConversion[];
 }
 
 const DECIMAL_FACTOR = 100;
@@ -53,6 +96,18 @@ function parseIsoDate(value: string | null | undefined): Date | null {
   return Number.isNaN(parsed.getTime()) ? null : parsed;
 }
 
+function dayOfYearCount(startIso: string, endIso: string): number {
+  const start = Date.UTC(Number(startIso.slice(0, 4)), Number(startIso.slice(5, 7)) - 1, Number(startIso.slice(8, 10)));
+  const end = Date.UTC(Number(endIso.slice(0, 4)), Number(endIso.slice(5, 7)) - 1, Number(endIso.slice(8, 10)));
+  return Math.round((end - start) / 86_400_000) + 1;
+}
+
+function previousIsoDay(isoDate: string): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() - 1);
+  return date.toISOString().slice(0, 10);
+}
+
 function getDaysInMonth(year: number, month: number): number {
   return new Date(Date.UTC(year, month, 0)).getUTCDate();
 }
@@ -108,6 +163,91 @@ function computeEligibleAnnualDays(input: {
   return roundStatutoryVacationDays((baseAnnualDays / 12) * fullMonths);
 }
 
+function resolveYearPattern(
+  segments: VacationEntitlementSegment[] | undefined,
+  fallbackAnnualDays: number,
+  year: number
+): YearPattern {
+  const yearStart = `${year}-01-01`;
+  const yearEnd = `${year}-12-31`;
+  const sorted = [...(segments ?? [])]
+    .filter((segment) => /^\d{4}-\d{2}-\d{2}$/.test(segment.validFrom) && segment.workdaysPerWeek > 0)
+    .sort((a, b) => a.validFrom.localeCompare(b.validFrom));
+  if (!sorted.length) {
+    return {
+      segments: [
+        {
+          validFrom: yearStart,
+          validUntil: yearEnd,
+          workdaysPerWeek: 5,
+          annualDays: fallbackAnnualDays,
+          proRataDays: fallbackAnnualDays,
+        },
+      ],
+      annualDays: fallbackAnnualDays,
+      changes: [],
+    };
+  }
+
+  const yearDays = dayOfYearCount(yearStart, yearEnd);
+  const parts: VacationSegmentBreakdown[] = [];
+  sorted.forEach((segment, index) => {
+    const next = sorted[index + 1];
+    const from = index === 0 || segment.validFrom < yearStart ? yearStart : segment.validFrom;
+    const untilRaw = next ? previousIsoDay(next.validFrom) : yearEnd;
+    const until = untilRaw < yearEnd ? untilRaw : yearEnd;
+    if (from > until) return;
+    const share = dayOfYearCount(from, until) / yearDays;
+    parts.push({
+      validFrom: from,
+      validUntil: until,
+      workdaysPerWeek: segment.workdaysPerWeek,
+      annualDays: segment.annualDays,
+      proRataDays: roundTwo(segment.annualDays * share),
+    });
+  });
+
+  const annualDays =
+    parts.length === 1 ? parts[0]!.annualDays : roundTwo(parts.reduce((sum, part) => sum + part.proRataDays, 0));
+  const changes = parts
+    .slice(1)
+    .map((part, index) => ({ isoDate: part.validFrom, from: parts[index]!.workdaysPerWeek, to: part.workdaysPerWeek }))
+    .filter((change) => change.from !== change.to);
+  return { segments: parts, annualDays, changes };
+}
+
+/**
+ * Remaining days in days of the new pattern. More working days convert them up so the same time off remains;
+ * fewer working days keep them, as accrued vacation must not be reduced (EuGH C-486/08, BAG 9 AZR 53/14).
+ */
+function convertRemainingDays(days: number, from: number, to: number): number {
+  return to > from ? roundTwo((days * to) / from) : days;
+}
+
+function lastWorkdaysPerWeek(pattern: YearPattern): number {
+  return pattern.segments[pattern.segments.length - 1]!.workdaysPerWeek;
+}
+
+/** Carry-over is held in days of the pattern at the end of its year; a change on January 1 converts it. */
+function convertCarryIn(
+  carryIn: number,
+  carryWorkdays: number | null,
+  pattern: YearPattern,
+  year: number
+): VacationConversion | null {
+  const startWorkdays = pattern.segments[0]!.workdaysPerWeek;
+  if (carryWorkdays === null || carryWorkdays === startWorkdays || carryIn <= 0) {
+    return null;
+  }
+  return {
+    isoDate: `${year}-01-01`,
+    fromWorkdaysPerWeek: carryWorkdays,
+    toWorkdaysPerWeek: startWorkdays,
+    remainingBefore: carryIn,
+    remainingAfter: convertRemainingDays(carryIn, carryWorkdays, startWorkdays),
+  };
+}
+
 function parseMonthDay(value: string | null | undefined): { month: number; day: number } | null {
   if (!value) return null;
   const normalized = value.trim();
@@ -147,19 +287,19 @@ export function resolveCarryExpiryIsoForYear(
   return `${year}-${String(monthDay.month).padStart(2, '0')}-${String(monthDay.day).padStart(2, '0')}`;
 }
 
-function isVacationCode(code: string | null | undefined): code is VacationCode {
-  const normalized = (code ?? '').trim().toUpperCase();
-  return normalized === 'U' || normalized === 'UH';
-}
-
-function toVacationAmount(code: VacationCode): number {
-  return code === 'UH' ? 0.5 : 1;
-}
+const DEFAULT_VACATION_CODES: ReadonlyMap<string, number> = new Map([
+  ['U', 1],
+  ['UH', 0.5],
+]);
 
-function usageByYear(records: VacationBalanceInput['records']): Map<number, VacationUsageEntry[]> {
+function usageByYear(
+  records: VacationBalanceInput['records'],
+  vacationCodes: ReadonlyMap<string, number>
+): Map<number, VacationUsageEntry[]> {
   const grouped = new Map<number, VacationUsageEntry[]>();
   for (const row of records) {
-    if (!isVacationCode(row.code)) {
+    const amount = vacationCodes.get((row.code ?? '').trim().toUpperCase());
+    if (amount === undefined) {
       continue;
     }
     const parsed = parseIsoDate(row.day_date);
@@ -168,7 +308,7 @@ function usageByYear(records: VacationBalanceInput['records']): Map<number, Vaca
     }
     const year = parsed.getFullYear();
     const entries = grouped.get(year) ?? [];
-    entries.push({ isoDate: row.day_date, amount: toVacationAmount(row.code) });
+    entries.push({ isoDate: row.day_date, amount });
     grouped.set(year, entries);
   }
   for (const entries of grouped.values()) {
@@ -177,11 +317,18 @@ function usageByYear(records: VacationBalanceInput['records']): Map<number, Vaca
   return grouped;
 }
 
-function usageByYearUntil(records: VacationBalanceInput['records'], asOfDate: string | null): Map<number, VacationUsageEntry[]> {
+function usageByYearUntil(
+  records: VacationBalanceInput['records'],
+  asOfDate: string | null,
+  vacationCodes: ReadonlyMap<string, number>
+): Map<number, VacationUsageEntry[]> {
   if (!asOfDate) {
-    return usageByYear(records);
+    return usageByYear(records, vacationCodes);
   }
-  return usageByYear(records.filter((row) => row.day_date <= asOfDate));
+  return usageByYear(
+    records.filter((row) => row.day_date <= asOfDate),
+    vacationCodes
+  );
 }
 
 function recordYears(records: VacationBalanceInput['records']): Set<number> {
@@ -226,6 +373,7 @@ function simulateYear(params: {
   carryExpiryDate: string | null;
   carryExpiryNotified: boolean;
   applyExpiry: boolean;
+  changes?: YearPattern['changes'];
 }): VacationSimulationResult {
   let carryRemaining = roundTwo(Math.max(params.carryIn, 0));
   let annualRemaining = roundTwo(Math.max(params.annualDays, 0));
@@ -237,8 +385,32 @@ function simulateYear(params: {
   );
   let carryExpired = false;
   let taken = 0;
+  const pendingChanges = [...(params.changes ?? [])];
+  const conversions: VacationConversion[] = [];
+
+  // The annual entitlement is already pro-rated per pattern; only the carry-over is converted.
+  const applyChangesUntil = (isoDate: string) => {
+    while (pendingChanges.length && pendingChanges[0]!.isoDate <= isoDate) {
+      const change = pendingChanges.shift()!;
+      if (params.applyExpiry && !carryExpired && expiryIso && change.isoDate > expiryIso) {
+        carryRemaining = 0;
+        carryExpired = true;
+      }
+      if (carryRemaining <= 0) continue;
+      const remainingBefore = carryRemaining;
+      carryRemaining = convertRemainingDays(carryRemaining, change.from, change.to);
+      conversions.push({
+        isoDate: change.isoDate,
+        fromWorkdaysPerWeek: change.from,
+        toWorkdaysPerWeek: change.to,
+        remainingBefore,
+        remainingAfter: carryRemaining,
+      });
+    }
+  };
 
   for (const entry of params.usage) {
+    applyChangesUntil(entry.isoDate);
     if (params.applyExpiry && !carryExpired && expiryIso && entry.isoDate > expiryIso) {
       carryRemaining = 0;
       carryExpired = true;
@@ -259,6 +431,8 @@ function simulateYear(params: {
     }
   }
 
+  applyChangesUntil(params.asOfIso ?? `${params.year}-12-31`);
+
   if (params.applyExpiry && !carryExpired && expiryIso) {
     if (params.asOfIso && params.asOfIso > expiryIso) {
       carryRemaining = 0;
@@ -276,20 +450,27 @@ function simulateYear(params: {
     annualRemaining: roundTwo(Math.max(annualRemaining, 0)),
     carryOut,
     taken: roundTwo(Math.max(taken, 0)),
+    conversions,
   };
 }
 
 export function computeVacationBalance(input: VacationBalanceInput): VacationBalanceResult {
-  const annualDays = computeEligibleAnnualDays({
-    annualDays: input.annualDays,
-    year: input.year,
-    entryDate: input.entryDate,
-    exitDate: input.exitDate,
-  });
+  const eligibleAnnualDays = (year: number) => {
+    const pattern = resolveYearPattern(input.entitlementSegments, input.annualDays, year);
+    return {
+      pattern,
+      annualDays: computeEligibleAnnualDays({
+        annualDays: pattern.annualDays,
+        year,
+        entryDate: input.entryDate,
+        exitDate: input.exitDate,
+      }),
+    };
+  };
   const importedCarryDays = roundTwo(Math.max(input.importedCarryDays, 0));
   const openingTakenDays = roundTwo(Math.max(input.openingTakenDays ?? 0, 0));
   const asOfDate = input.asOfDate && /^\d{4}-\d{2}-\d{2}$/.test(input.asOfDate) ? input.asOfDate : null;
-  const groupedUsage = usageByYearUntil(input.records, asOfDate);
+  const groupedUsage = usageByYearUntil(input.records, asOfDate, input.vacationCodes ?? DEFAULT_VACATION_CODES);
   const yearsWithRecords = recordYearsUntil(input.records, asOfDate);
 
   const entryYear = (() => {
@@ -304,12 +485,17 @@ export function computeVacationBalance(input: VacationBalanceInput): VacationBal
   })();
 
   let carryIn = importedCarryDays;
+  let carryWorkdays: number | null = null;
   for (let currentYear = entryYear; currentYear < input.year; currentYear += 1) {
     const previousYearUsage = groupedUsage.get(currentYear) ?? [];
+    const previousYear = eligibleAnnualDays(currentYear);
+    carryIn = convertCarryIn(carryIn, carryWorkdays, previousYear.pattern, currentYear)?.remainingAfter ?? carryIn;
+    carryWorkdays = lastWorkdaysPerWeek(previousYear.pattern);
     const simulation = simulateYear({
       year: currentYear,
       asOfIso: `${currentYear}-12-31`,
-      annualDays,
+      annualDays: previousYear.annualDays,
+      changes: previousYear.pattern.changes,
       carryIn,
       usage: previousYearUsage,
       yearHasAnyRecords: yearsWithRecords.has(currentYear),
@@ -322,10 +508,14 @@ export function computeVacationBalance(input: VacationBalanceInput): VacationBal
   }
 
   const currentUsage = groupedUsage.get(input.year) ?? [];
+  const { pattern, annualDays } = eligibleAnnualDays(input.year);
+  const carryConversion = convertCarryIn(carryIn, carryWorkdays, pattern, input.year);
+  carryIn = carryConversion?.remainingAfter ?? carryIn;
   const currentSimulation = simulateYear({
     year: input.year,
     asOfIso: asOfDate && asOfDate.startsWith(`${input.year}-`) ? asOfDate : `${input.year}-12-31`,
     annualDays,
+    changes: pattern.changes,
     carryIn,
     usage: currentUsage,
     yearHasAnyRecords: yearsWithRecords.has(input.year),
@@ -354,5 +544,9 @@ export function computeVacationBalance(input: VacationBalanceInput): VacationBal
     remainingDays: roundTwo(
       Math.max(carryRemainingAfterOpening + annualRemainingAfterOpening, 0)
     ),
+    segments: pattern.segments,
+    conversions: carryConversion
+      ? [carryConversion, ...currentSimulation.conversions]
+      : currentSimulation.conversions,
   };
 }